@@ -1404,6 +1404,11 @@ pub(crate) fn combat_targeting_owner_relationship_allowed_by_mask(
     }
     let source_team = pool.entity_team_id[source_entity_slot];
     let target_team = pool.entity_team_id[target_entity_slot];
+    // Ownerless rows (wrecks) are scenery, neither friend nor foe: weapons
+    // still hit them, but nothing locks onto them.
+    if target_team == 0 {
+        return false;
+    }
     let relationship = if source_team == target_team {
         CT_TARGETING_CANDIDATE_REL_FRIENDLY
     } else {
@@ -524,7 +524,9 @@ pub(crate) fn combat_targeting_collect_spatial_candidate_cell(
 ) {
     for &slot_u32 in &cell.slots {
         let slot = slot_u32 as usize;
-        if slot == source_slot {
+        // Ownerless rows never become candidates; see
+        // combat_targeting_owner_relationship_allowed_by_mask.
+        if slot == source_slot || pool.entity_team_id[slot] == 0 {
             continue;
         }
         let relationship = if pool.entity_team_id[slot] == source_team {
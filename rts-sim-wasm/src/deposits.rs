@@ -898,7 +898,10 @@ pub(crate) fn terrain_pipeline_eval(
             continue;
         }
         match cfg.pipeline_order[index] {
-            0 => height = terrain_generated_natural_height(metrics, &oval, cfg),
+            0 => {
+                height = terrain_authored_height_at(metrics, x, y)
+                    .unwrap_or_else(|| terrain_generated_natural_height(metrics, &oval, cfg))
+            }
             1 => height = terrain_apply_map_boundary_for_sample(height, metrics, &oval, cfg),
             2 => {
                 if terrain_pipeline_gradient_needed(cfg, index) {
@@ -927,6 +930,79 @@ pub(crate) fn terrain_pipeline_eval(
     (height, gradient, reference)
 }
 
+// ─────────────────────────────────────────────────────────────────
+//  Authored heightfield — a map file's own ground
+//
+//  An authored map (src/game/sim/terrain/authoredMap.ts) replaces the
+//  naturalField stage with a float grid stretched corner to corner over
+//  the map and sampled bilinearly. Every other stage still runs as the
+//  packed config says — TypeScript switches the radial ones off for an
+//  authored map — so deposit pads, the floor clamp, the adaptive mesh and
+//  the deposit height resolve all read the authored ground through the
+//  one executor, exactly as they read the generated one.
+// ─────────────────────────────────────────────────────────────────
+
+pub(crate) struct AuthoredHeightfield {
+    columns: usize,
+    rows: usize,
+    heights: Vec<f64>,
+}
+
+pub(crate) static AUTHORED_HEIGHTFIELD: WasmGlobal<Option<AuthoredHeightfield>> =
+    WasmGlobal::new(None);
+
+/// Install the authored heightfield: `columns * rows` finite heights,
+/// row-major from the map's (0, 0) corner, at least 2 samples per axis.
+/// Returns 0 — leaving the previous field in place — on a malformed grid.
+#[wasm_bindgen]
+pub fn terrain_set_authored_heightfield(columns: u32, rows: u32, heights: &[f64]) -> u32 {
+    let columns = columns as usize;
+    let rows = rows as usize;
+    if columns < 2
+        || rows < 2
+        || heights.len() != columns * rows
+        || heights.iter().any(|h| !h.is_finite())
+    {
+        return 0;
+    }
+    *AUTHORED_HEIGHTFIELD.get() = Some(AuthoredHeightfield {
+        columns,
+        rows,
+        heights: heights.to_vec(),
+    });
+    1
+}
+
+/// Drop the authored heightfield; naturalField generates again.
+#[wasm_bindgen]
+pub fn terrain_clear_authored_heightfield() {
+    *AUTHORED_HEIGHTFIELD.get() = None;
+}
+
+/// Bilinear sample of the authored heightfield at (x, y), clamped to the
+/// map rectangle. None when no authored map is installed.
+pub(crate) fn terrain_authored_height_at(
+    metrics: &MapOvalMetricsRust,
+    x: f64,
+    y: f64,
+) -> Option<f64> {
+    let field = AUTHORED_HEIGHTFIELD.get().as_ref()?;
+    let map_width = metrics.cx * 2.0;
+    let map_height = metrics.cy * 2.0;
+    let last_column = (field.columns - 1) as f64;
+    let last_row = (field.rows - 1) as f64;
+    let u = if map_width > 0.0 { (x / map_width).clamp(0.0, 1.0) * last_column } else { 0.0 };
+    let v = if map_height > 0.0 { (y / map_height).clamp(0.0, 1.0) * last_row } else { 0.0 };
+    let c0 = (u.floor() as usize).min(field.columns - 2);
+    let r0 = (v.floor() as usize).min(field.rows - 2);
+    let fu = u - c0 as f64;
+    let fv = v - r0 as f64;
+    let at = |c: usize, r: usize| field.heights[r * field.columns + c];
+    let top = at(c0, r0) * (1.0 - fu) + at(c0 + 1, r0) * fu;
+    let bottom = at(c0, r0 + 1) * (1.0 - fu) + at(c0 + 1, r0 + 1) * fu;
+    Some(top * (1.0 - fv) + bottom * fv)
+}
+
 pub(crate) fn metal_deposit_terrain_height_with_explicit_zones(
     x: f64,
     y: f64,
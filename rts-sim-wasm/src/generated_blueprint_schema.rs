@@ -345,6 +345,53 @@ pub struct SmokeTrailSpec {
     pub color: Option<f64>,
 }
 
+#[derive(Clone, Debug, PartialEq)]
+pub struct ParalyzeEffectSpec {
+    pub damage: f64,
+    pub durationMs: f64,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct SlowEffectSpec {
+    pub speedReduction: f64,
+    pub durationMs: f64,
+    pub maxStacks: i32,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct BurnEffectSpec {
+    pub dps: f64,
+    pub durationMs: f64,
+    pub maxStacks: i32,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StatusEffectsSpec {
+    pub paralyze: Option<ParalyzeEffectSpec>,
+    pub slow: Option<SlowEffectSpec>,
+    pub burn: Option<BurnEffectSpec>,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub enum ArmorClass {
+    Light,
+    Heavy,
+    Air,
+    Naval,
+    Structure,
+    Commander,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct ArmorMultiplierTable {
+    pub light: f64,
+    pub heavy: f64,
+    pub air: f64,
+    pub naval: f64,
+    pub structure: f64,
+    pub commander: f64,
+}
+
 #[derive(Clone, Debug, PartialEq)]
 pub struct ShotTurningBlueprint {
     pub turnRate: f64,
@@ -371,6 +418,8 @@ pub struct ProjectileShotBlueprint {
     pub hitSound: Option<BlueprintJsonValue>,
     pub submunitions: Option<SubmunitionSpec>,
     pub smokeTrail: Option<SmokeTrailSpec>,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -411,6 +460,8 @@ pub struct ProjectileShot {
     pub trailLength: Option<f64>,
     pub submunitions: Option<SubmunitionSpec>,
     pub smokeTrail: Option<SmokeTrailSpec>,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -1279,6 +1330,59 @@ pub struct UnitDgunConfig {
     pub energyCost: f64,
 }
 
+#[derive(Clone, Debug, PartialEq)]
+pub struct UnitMorphConfig {
+    pub into: String,
+    pub cost: BlueprintJsonValue,
+    pub durationMs: f64,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StructureMorphConfig {
+    pub into: String,
+    pub cost: BlueprintJsonValue,
+    pub durationMs: f64,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StructureStockpileConfig {
+    pub cost: BlueprintJsonValue,
+    pub durationMs: f64,
+    pub maxStock: f64,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StructureStrategicMissileConfig {
+    pub range: f64,
+    pub speed: f64,
+    pub apexHeight: f64,
+    pub explosion: EntityDeathExplosion,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StructureMissileInterceptorConfig {
+    pub coverageRadius: f64,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub enum TechUpgradeId {
+    ShieldAwareTargeting,
+    ShieldPower,
+    PrecisionTargeting,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct StructureTechConfig {
+    pub level: f64,
+    pub upgrades: Vec<TechUpgradeId>,
+}
+
+#[derive(Clone, Debug, PartialEq)]
+pub struct BlueprintPrerequisites {
+    pub buildings: Vec<String>,
+    pub techLevel: f64,
+}
+
 #[derive(Clone, Debug, PartialEq)]
 pub struct UnitSupportSurfaceNone {
     pub kind: String,
@@ -1305,6 +1409,7 @@ pub struct UnitBlueprint {
     pub tinyName: String,
     pub base: EntityBaseLedger,
     pub hp: f64,
+    pub armorClass: ArmorClass,
     pub radius: UnitRadiusConfig,
     pub supportSurface: UnitSupportSurface,
     pub mass: f64,
@@ -1321,6 +1426,8 @@ pub struct UnitBlueprint {
     pub factoryProducedUnitBlueprintId: Option<String>,
     pub workEmitter: Option<BlueprintJsonValue>,
     pub dgun: Option<UnitDgunConfig>,
+    pub morph: Option<UnitMorphConfig>,
+    pub prerequisites: Option<BlueprintPrerequisites>,
     pub deathSound: Option<BlueprintJsonValue>,
     pub includeLockOnLevel0FriendsAndEnemies: Vec<TurretLockOnRelationshipInclusion>,
     pub includeLockOnLevel0Entities: Vec<TurretLockOnEntityFamilyInclusion>,
@@ -1364,6 +1471,8 @@ pub struct BeamRayBlueprint {
     pub continuousSound: BeamContinuousSoundConfig,
     pub hitSound: Option<BlueprintJsonValue>,
     pub rayBlueprintId: String,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -1385,6 +1494,8 @@ pub struct LaserRayBlueprint {
     pub mediumTrajectory: EmissionMediumTrajectoryMatrix,
     pub hitSound: Option<BlueprintJsonValue>,
     pub rayBlueprintId: String,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -1418,6 +1529,8 @@ pub struct BeamRay {
     pub gravityForceMultiplier: f64,
     pub mediumTrajectory: EmissionMediumTrajectoryMatrix,
     pub rayBlueprintId: String,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -1433,6 +1546,8 @@ pub struct LaserRay {
     pub gravityForceMultiplier: f64,
     pub mediumTrajectory: EmissionMediumTrajectoryMatrix,
     pub rayBlueprintId: String,
+    pub statusEffects: Option<StatusEffectsSpec>,
+    pub armorMultipliers: Option<ArmorMultiplierTable>,
 }
 
 #[derive(Clone, Debug, PartialEq)]
@@ -789,11 +789,16 @@ fn pathfinder_transition_normal_z(from_height: f32, to_height: f32, horizontal:
     (horizontal / (horizontal * horizontal + dz * dz).sqrt()) as f32
 }
 
-pub(crate) fn pathfinder_rebuild_terrain_mask(state: &mut PathfinderState, terrain_version: u32) {
-    let key = ((terrain_version as u64) << 32)
+#[inline]
+fn pathfinder_terrain_key(state: &PathfinderState, terrain_version: u32) -> u64 {
+    ((terrain_version as u64) << 32)
         ^ ((state.consolidation_multiplier as u64) << 28)
         ^ ((state.grid_w as u64) << 14)
-        ^ state.grid_h as u64;
+        ^ state.grid_h as u64
+}
+
+pub(crate) fn pathfinder_rebuild_terrain_mask(state: &mut PathfinderState, terrain_version: u32) {
+    let key = pathfinder_terrain_key(state, terrain_version);
     if key == state.terrain_only_key {
         return;
     }
@@ -801,73 +806,8 @@ pub(crate) fn pathfinder_rebuild_terrain_mask(state: &mut PathfinderState, terra
 
     let grid_w = state.grid_w;
     let grid_h = state.grid_h;
-    let n = state.n;
-    // Step 1 - classify water and the steepest terrain touching each cell.
-    // The per-cell normal is retained so each query can enforce its derived
-    // medium-specific force envelope in every cell and the matching rise gate
-    // on applicable directed edges.
-    let mut water_mask: Vec<u8> = vec![0u8; n];
-    let mut submerged_mask: Vec<u8> = vec![0u8; n];
-    let mut boundary_heights: Vec<[f32; 8]> = vec![[0.0; 8]; n];
-    for gy in 0..grid_h {
-        for gx in 0..grid_w {
-            let idx = (gy * grid_w + gx) as usize;
-            let (has_water, fully_submerged, nz, height, cell_boundary_heights) =
-                pathfinder_sample_cell_terrain(gx, gy, state.cell_size);
-            state.terrain_height[idx] = height;
-            state.terrain_normal_z[idx] = nz;
-            boundary_heights[idx] = cell_boundary_heights;
-            if has_water {
-                water_mask[idx] = 1;
-            }
-            if fully_submerged {
-                submerged_mask[idx] = 1;
-            }
-        }
-    }
-    state.terrain_water.copy_from_slice(&water_mask);
-    state.terrain_submerged.copy_from_slice(&submerged_mask);
-    state.terrain_transition_normal_z.fill(1.0);
-    const TRANSITION_PROBE_DISTANCE: f64 = 0.002;
-    const DIAGONAL_TRANSITION_PROBE_DISTANCE: f64 =
-        TRANSITION_PROBE_DISTANCE * std::f64::consts::SQRT_2;
-    for gy in 0..grid_h {
-        for gx in 0..grid_w {
-            let idx = (gy * grid_w + gx) as usize;
-            let from = boundary_heights[idx];
-            if gx + 1 < grid_w {
-                let east = boundary_heights[(gy * grid_w + gx + 1) as usize];
-                state.terrain_transition_normal_z[idx * 4] =
-                    pathfinder_transition_normal_z(from[4], east[3], TRANSITION_PROBE_DISTANCE);
-            }
-            if gx + 1 < grid_w && gy + 1 < grid_h {
-                let south_east = boundary_heights[((gy + 1) * grid_w + gx + 1) as usize];
-                state.terrain_transition_normal_z[idx * 4 + 1] = pathfinder_transition_normal_z(
-                    from[7],
-                    south_east[0],
-                    DIAGONAL_TRANSITION_PROBE_DISTANCE,
-                );
-            }
-            if gy + 1 < grid_h {
-                let south = boundary_heights[((gy + 1) * grid_w + gx) as usize];
-                state.terrain_transition_normal_z[idx * 4 + 2] =
-                    pathfinder_transition_normal_z(from[6], south[1], TRANSITION_PROBE_DISTANCE);
-            }
-            if gx > 0 && gy + 1 < grid_h {
-                let south_west = boundary_heights[((gy + 1) * grid_w + gx - 1) as usize];
-                state.terrain_transition_normal_z[idx * 4 + 3] = pathfinder_transition_normal_z(
-                    from[5],
-                    south_west[2],
-                    DIAGONAL_TRANSITION_PROBE_DISTANCE,
-                );
-            }
-        }
-    }
+    pathfinder_resample_terrain_region(state, 0, 0, grid_w, grid_h);
 
-    // Step 2 — retain the exact per-cell water domain. There is no synthetic
-    // shoreline dilation: a dry-only traversal is blocked by a cell iff that
-    // cell itself contains water.
-    state.terrain_blocked.copy_from_slice(&water_mask);
     for gy in 0..grid_h {
         for gx in 0..grid_w {
             let idx = (gy * grid_w + gx) as usize;
@@ -892,6 +832,126 @@ pub(crate) fn pathfinder_rebuild_terrain_mask(state: &mut PathfinderState, terra
     state.terrain_only_key = key;
 }
 
+/// Re-sample every terrain-derived per-cell layer for the half-open cell
+/// rectangle `[min_gx, max_gx) x [min_gy, max_gy)` plus one ring around it,
+/// and the directed transitions out of those cells. The ring is what keeps
+/// a partial refresh exact: cells just outside the rectangle own the
+/// transitions INTO it. A transition whose far cell lies beyond the sampled
+/// box is left as it was — neither end moved — and one leaving the grid is
+/// reset to flat.
+fn pathfinder_resample_terrain_region(
+    state: &mut PathfinderState,
+    min_gx: i32,
+    min_gy: i32,
+    max_gx: i32,
+    max_gy: i32,
+) {
+    let grid_w = state.grid_w;
+    let grid_h = state.grid_h;
+    let box_min_gx = (min_gx - 1).clamp(0, grid_w);
+    let box_min_gy = (min_gy - 1).clamp(0, grid_h);
+    let box_max_gx = (max_gx + 1).clamp(0, grid_w);
+    let box_max_gy = (max_gy + 1).clamp(0, grid_h);
+    if box_min_gx >= box_max_gx || box_min_gy >= box_max_gy {
+        return;
+    }
+    let box_w = (box_max_gx - box_min_gx) as usize;
+    let box_h = (box_max_gy - box_min_gy) as usize;
+    let in_box = |gx: i32, gy: i32| {
+        gx >= box_min_gx && gx < box_max_gx && gy >= box_min_gy && gy < box_max_gy
+    };
+    let box_index =
+        |gx: i32, gy: i32| (gy - box_min_gy) as usize * box_w + (gx - box_min_gx) as usize;
+
+    // Step 1 - classify water and the steepest terrain touching each cell.
+    // The per-cell normal is retained so each query can enforce its derived
+    // medium-specific force envelope in every cell and the matching rise gate
+    // on applicable directed edges.
+    //
+    // Step 2 — retain the exact per-cell water domain. There is no synthetic
+    // shoreline dilation: a dry-only traversal is blocked by a cell iff that
+    // cell itself contains water.
+    let mut boundary_heights: Vec<[f32; 8]> = vec![[0.0; 8]; box_w * box_h];
+    for gy in box_min_gy..box_max_gy {
+        for gx in box_min_gx..box_max_gx {
+            let idx = (gy * grid_w + gx) as usize;
+            let (has_water, fully_submerged, nz, height, cell_boundary_heights) =
+                pathfinder_sample_cell_terrain(gx, gy, state.cell_size);
+            state.terrain_height[idx] = height;
+            state.terrain_normal_z[idx] = nz;
+            boundary_heights[box_index(gx, gy)] = cell_boundary_heights;
+            let water = if has_water { 1 } else { 0 };
+            state.terrain_water[idx] = water;
+            state.terrain_blocked[idx] = water;
+            state.terrain_submerged[idx] = if fully_submerged { 1 } else { 0 };
+        }
+    }
+
+    const TRANSITION_PROBE_DISTANCE: f64 = 0.002;
+    const DIAGONAL_TRANSITION_PROBE_DISTANCE: f64 =
+        TRANSITION_PROBE_DISTANCE * std::f64::consts::SQRT_2;
+    // (dx, dy, outgoing boundary sample, incoming boundary sample, probe).
+    let directions: [(i32, i32, usize, usize, f64); 4] = [
+        (1, 0, 4, 3, TRANSITION_PROBE_DISTANCE),
+        (1, 1, 7, 0, DIAGONAL_TRANSITION_PROBE_DISTANCE),
+        (0, 1, 6, 1, TRANSITION_PROBE_DISTANCE),
+        (-1, 1, 5, 2, DIAGONAL_TRANSITION_PROBE_DISTANCE),
+    ];
+    for gy in box_min_gy..box_max_gy {
+        for gx in box_min_gx..box_max_gx {
+            let idx = (gy * grid_w + gx) as usize;
+            let from = boundary_heights[box_index(gx, gy)];
+            for (slot, &(dx, dy, out_sample, in_sample, probe)) in directions.iter().enumerate() {
+                let nx = gx + dx;
+                let ny = gy + dy;
+                if nx < 0 || nx >= grid_w || ny >= grid_h {
+                    state.terrain_transition_normal_z[idx * 4 + slot] = 1.0;
+                } else if in_box(nx, ny) {
+                    let to = boundary_heights[box_index(nx, ny)];
+                    state.terrain_transition_normal_z[idx * 4 + slot] =
+                        pathfinder_transition_normal_z(from[out_sample], to[in_sample], probe);
+                }
+            }
+        }
+    }
+}
+
+/// Move the installed terrain layers from `from_version` to `to_version`
+/// after the terrain under one world-space rectangle changed in place (a
+/// crater). Only the cells under the rectangle are re-sampled; the edge
+/// buffer and building occupancy layers are kept, and the O(n) blocked,
+/// clearance and component sweeps re-run as they do for building churn.
+/// When the installed layers are not exactly `from_version` — never built,
+/// rebuilt since, or the grid re-initialised by diagnostics — this is the
+/// full rebuild at `to_version` instead, so a partial refresh can never be
+/// applied on top of the wrong terrain.
+#[wasm_bindgen]
+pub fn pathfinder_refresh_terrain_region(
+    from_version: u32,
+    to_version: u32,
+    min_x: f64,
+    min_y: f64,
+    max_x: f64,
+    max_y: f64,
+) {
+    let state = pathfinder_state();
+    if state.n == 0 || state.terrain_only_key != pathfinder_terrain_key(state, from_version) {
+        pathfinder_rebuild_terrain_mask(state, to_version);
+        return;
+    }
+    pathfinder_invalidate_all_fine_arenas(state);
+    let cs = state.cell_size;
+    pathfinder_resample_terrain_region(
+        state,
+        (min_x / cs).floor() as i32,
+        (min_y / cs).floor() as i32,
+        (max_x / cs).floor() as i32 + 1,
+        (max_y / cs).floor() as i32 + 1,
+    );
+    pathfinder_rebuild_blocked_clearance_and_components(state);
+    state.terrain_only_key = pathfinder_terrain_key(state, to_version);
+}
+
 /// Rebuild the aggregate blocked mask, the three clearance distance fields,
 /// and the connected-component labels from the current terrain masks plus
 /// the building occupancy layer. Shared by the terrain rebuild and by
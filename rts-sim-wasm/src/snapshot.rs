@@ -1794,7 +1794,9 @@ snapshot_scratch_pool!(
 //   [0]    type_code (0='fire', 1='hit', 2='death', 3='laserStart',
 //           4='laserStop', 5='shieldStart', 6='shieldStop',
 //           7='shieldImpact', 8='ping', 9='attackAlert',
-//           10='projectileExpire', 11='waterSplash')
+//           10='projectileExpire', 11='waterSplash',
+//           12='selfDestructArmed', 13='selfDestructDisarmed',
+//           14='missileLaunch', 15='missileIntercept')
 //   [1..3] pos.x, pos.y, pos.z (always present)
 //   [4]    playerId (gated by flags bit 2)
 //   [5]    entityId (gated by flags bit 3)
@@ -1844,6 +1846,10 @@ pub(crate) fn audio_event_type_str(code: u8) -> &'static str {
         9 => "attackAlert",
         10 => "projectileExpire",
         11 => "waterSplash",
+        12 => "selfDestructArmed",
+        13 => "selfDestructDisarmed",
+        14 => "missileLaunch",
+        15 => "missileIntercept",
         _ => "",
     }
 }
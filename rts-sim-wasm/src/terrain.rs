@@ -254,43 +254,104 @@ fn terrain_rebuild_cell_max_heights(t: &mut TerrainGrid) {
     let cell_count = cells_x * cells_y;
     t.cell_max_height.clear();
     t.cell_max_height.resize(cell_count, f64::NEG_INFINITY);
+    terrain_rebuild_cell_max_heights_in(t, 0, 0, cells_x, cells_y);
+}
+
+/// Recomputes the max-height entries for the half-open cell rectangle
+/// `[min_cx, max_cx) x [min_cy, max_cy)` only. The table must already be
+/// sized for the installed grid.
+fn terrain_rebuild_cell_max_heights_in(
+    t: &mut TerrainGrid,
+    min_cx: usize,
+    min_cy: usize,
+    max_cx: usize,
+    max_cy: usize,
+) {
+    let cells_x = t.cells_x.max(0) as usize;
     let cs = t.cell_size;
     let mut a = [(0.0_f64, 0.0_f64, 0.0_f64); TERRAIN_CLIP_VERTEX_CAPACITY];
     let mut b = [(0.0_f64, 0.0_f64, 0.0_f64); TERRAIN_CLIP_VERTEX_CAPACITY];
-    for cell in 0..cell_count {
-        let cell_x = (cell % cells_x) as f64;
-        let cell_y = (cell / cells_x) as f64;
-        let rect_min_x = cell_x * cs;
-        let rect_max_x = rect_min_x + cs;
-        let rect_min_y = cell_y * cs;
-        let rect_max_y = rect_min_y + cs;
-        let start = t.cell_triangle_offsets[cell] as usize;
-        let end = t.cell_triangle_offsets[cell + 1] as usize;
-        let mut max_h = f64::NEG_INFINITY;
-        for &tri in &t.cell_triangle_indices[start..end] {
-            let base = tri as usize * 3;
-            for k in 0..3 {
-                let v = t.triangle_indices[base + k] as usize;
-                a[k] = (
-                    t.vertex_coords[v * 2],
-                    t.vertex_coords[v * 2 + 1],
-                    t.vertex_heights[v],
-                );
-            }
-            let mut len = terrain_clip_polygon_axis(&a, 3, &mut b, 0, rect_min_x, true);
-            len = terrain_clip_polygon_axis(&b, len, &mut a, 0, rect_max_x, false);
-            len = terrain_clip_polygon_axis(&a, len, &mut b, 1, rect_min_y, true);
-            len = terrain_clip_polygon_axis(&b, len, &mut a, 1, rect_max_y, false);
-            for vertex in a.iter().take(len) {
-                if vertex.2 > max_h {
-                    max_h = vertex.2;
+    for cy in min_cy..max_cy {
+        for cx in min_cx..max_cx {
+            let cell = cy * cells_x + cx;
+            let rect_min_x = cx as f64 * cs;
+            let rect_max_x = rect_min_x + cs;
+            let rect_min_y = cy as f64 * cs;
+            let rect_max_y = rect_min_y + cs;
+            let start = t.cell_triangle_offsets[cell] as usize;
+            let end = t.cell_triangle_offsets[cell + 1] as usize;
+            let mut max_h = f64::NEG_INFINITY;
+            for &tri in &t.cell_triangle_indices[start..end] {
+                let base = tri as usize * 3;
+                for k in 0..3 {
+                    let v = t.triangle_indices[base + k] as usize;
+                    a[k] = (
+                        t.vertex_coords[v * 2],
+                        t.vertex_coords[v * 2 + 1],
+                        t.vertex_heights[v],
+                    );
+                }
+                let mut len = terrain_clip_polygon_axis(&a, 3, &mut b, 0, rect_min_x, true);
+                len = terrain_clip_polygon_axis(&b, len, &mut a, 0, rect_max_x, false);
+                len = terrain_clip_polygon_axis(&a, len, &mut b, 1, rect_min_y, true);
+                len = terrain_clip_polygon_axis(&b, len, &mut a, 1, rect_max_y, false);
+                for vertex in a.iter().take(len) {
+                    if vertex.2 > max_h {
+                        max_h = vertex.2;
+                    }
                 }
             }
+            t.cell_max_height[cell] = max_h;
         }
-        t.cell_max_height[cell] = max_h;
     }
 }
 
+/// Overwrite the heights of individual installed vertices in place — the
+/// crater path (src/game/sim/terrain/terrainCraters.ts). Topology, levels
+/// and the cell triangle lists are untouched; only the per-cell max-height
+/// table is refreshed, and only for cells within one cell of a moved
+/// vertex (every triangle using a vertex lies in a cell adjacent to it).
+/// Returns 0 when nothing is installed or an index is out of range, in
+/// which case no height was written.
+#[wasm_bindgen]
+pub fn terrain_set_vertex_heights(vertex_indices: &[u32], heights: &[f64]) -> u32 {
+    let t = terrain_grid();
+    let vertex_count = t.vertex_heights.len();
+    if !t.installed
+        || vertex_indices.len() != heights.len()
+        || t.cell_size <= 0.0
+        || vertex_indices.iter().any(|&v| v as usize >= vertex_count)
+    {
+        return 0;
+    }
+    if vertex_indices.is_empty() {
+        return 1;
+    }
+    let mut min_x = f64::INFINITY;
+    let mut min_y = f64::INFINITY;
+    let mut max_x = f64::NEG_INFINITY;
+    let mut max_y = f64::NEG_INFINITY;
+    for (&v, &height) in vertex_indices.iter().zip(heights.iter()) {
+        let v = v as usize;
+        t.vertex_heights[v] = height;
+        let x = t.vertex_coords[v * 2];
+        let y = t.vertex_coords[v * 2 + 1];
+        min_x = min_x.min(x);
+        min_y = min_y.min(y);
+        max_x = max_x.max(x);
+        max_y = max_y.max(y);
+    }
+    let cells_x = t.cells_x.max(0);
+    let cells_y = t.cells_y.max(0);
+    let cs = t.cell_size;
+    let min_cx = ((min_x / cs).floor() as i32 - 1).clamp(0, cells_x) as usize;
+    let min_cy = ((min_y / cs).floor() as i32 - 1).clamp(0, cells_y) as usize;
+    let max_cx = ((max_x / cs).floor() as i32 + 2).clamp(0, cells_x) as usize;
+    let max_cy = ((max_y / cs).floor() as i32 + 2).clamp(0, cells_y) as usize;
+    terrain_rebuild_cell_max_heights_in(t, min_cx, min_cy, max_cx, max_cy);
+    1
+}
+
 #[wasm_bindgen]
 pub fn terrain_clear() {
     let t = terrain_grid();
@@ -1438,6 +1499,45 @@ pub fn terrain_bake_buildability_grid(
     flat_zones: &[f64],
     flags_out: &mut [u8],
     levels_out: &mut [i32],
+) -> u32 {
+    terrain_rebake_buildability_region(
+        map_width,
+        map_height,
+        build_cell_size,
+        d_terrain,
+        shelf_height_tolerance,
+        min_normal_up,
+        flat_zones,
+        0,
+        0,
+        i32::MAX,
+        i32::MAX,
+        flags_out,
+        levels_out,
+    )
+}
+
+/// Re-bake only the build squares in the half-open rectangle
+/// `[min_gx, max_gx) x [min_gy, max_gy)` (clamped to the grid) into an
+/// already-complete grid, leaving every other entry as it was. Used after
+/// a crater moves part of the installed mesh. Same return contract as
+/// `terrain_bake_buildability_grid`, which is this over the whole grid.
+#[wasm_bindgen]
+#[allow(clippy::too_many_arguments)]
+pub fn terrain_rebake_buildability_region(
+    map_width: f64,
+    map_height: f64,
+    build_cell_size: f64,
+    d_terrain: f64,
+    shelf_height_tolerance: f64,
+    min_normal_up: f64,
+    flat_zones: &[f64],
+    min_gx: i32,
+    min_gy: i32,
+    max_gx: i32,
+    max_gy: i32,
+    flags_out: &mut [u8],
+    levels_out: &mut [i32],
 ) -> u32 {
     let t = terrain_grid();
     if !t.installed
@@ -1463,8 +1563,12 @@ pub fn terrain_bake_buildability_grid(
     const GROUND_BUILD_SQUARE_FLAG: u8 = 1 << 1;
     const WATER_BUILD_SQUARE_FLAG: u8 = 1 << 2;
     let half = build_cell_size * 0.5;
-    for gy in 0..cells_y {
-        for gx in 0..cells_x {
+    let gx_start = min_gx.max(0) as usize;
+    let gy_start = min_gy.max(0) as usize;
+    let gx_end = (max_gx.max(0) as usize).min(cells_x);
+    let gy_end = (max_gy.max(0) as usize).min(cells_y);
+    for gy in gy_start..gy_end {
+        for gx in gx_start..gx_end {
             let x = gx as f64 * build_cell_size + half;
             let y = gy as f64 * build_cell_size + half;
             let (sampled_buildable, level) = match terrain_evaluate_buildability_footprint(
@@ -658,6 +658,37 @@ pub fn vegetation_prop_state(index: u32, out: &mut [f64]) -> u32 {
     1
 }
 
+/// Overwrite one prop's live reclaim state: the restore half of
+/// `vegetation_prop_state`, used when a saved match is loaded into a
+/// freshly generated forest. A prop that goes from live to consumed is
+/// appended to the removal log, so presentation drops it exactly as it
+/// drops a reclaimed one. Returns 0 for an unknown index.
+#[wasm_bindgen]
+pub fn vegetation_restore_prop_state(
+    index: u32,
+    alive: u32,
+    hp: f64,
+    energy_left: f64,
+    metal_left: f64,
+) -> u32 {
+    let store = vegetation_store();
+    let removed = {
+        let Some(prop) = store.props.get_mut(index as usize) else {
+            return 0;
+        };
+        let was_alive = prop.alive;
+        prop.alive = alive != 0;
+        prop.hp = hp;
+        prop.energy_left = energy_left;
+        prop.metal_left = metal_left;
+        was_alive && !prop.alive
+    };
+    if removed {
+        store.removed.push(index);
+    }
+    1
+}
+
 /// Live prop indices whose center falls inside (x, y, radius), sorted
 /// ascending so area commands fan out in a stable order on every peer.
 /// `kind_mask` is a bitmask over kind ordinals; 0 accepts every kind.
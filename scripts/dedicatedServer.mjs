@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+// Host a match without a browser.
+//
+//   node scripts/dedicatedServer.mjs [--port=8787] [--room=SERVER] [--humans=2]
+//       [--bots=0] [--teams=N] [--spectator-delay=SECONDS] [--matches=N]
+//       [--name=NAME] [--victory=commander|annihilation|controlPoints|score]
+//
+// Boots the WASM simulation in Node and opens a lobby served on a local
+// WebSocket. Browsers join by typing ws://HOST:PORT/ROOM into the join box;
+// the first --humans of them are seated in arrival order and the match starts
+// when they are all in. Later arrivals watch. --humans=0 starts a bots-only
+// match at once, for soak runs and bot tournaments. When a match ends the room
+// goes back to its lobby and plays again, --matches times (0 = forever).
+//
+// The protocol is the browser host's: the same session messages and the same
+// lockstep/snapshot stream, only over a WebSocket instead of WebRTC.
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { createServer as createHttpServer } from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(scriptDir, '..');
+
+const arg = (name, fallback) => {
+  const hit = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return hit === undefined ? fallback : hit.slice(name.length + 3);
+};
+const intArg = (name, fallback) => {
+  const raw = arg(name, null);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`--${name} must be a non-negative integer, got ${raw}`);
+    process.exit(2);
+  }
+  return value;
+};
+
+const port = intArg('port', 8787);
+const roomArg = arg('room', undefined);
+const humanSeats = intArg('humans', 2);
+const botSeats = intArg('bots', 0);
+const teamsArg = arg('teams', null);
+const allyTeamCount = teamsArg === null ? undefined : intArg('teams', 2);
+const spectatorDelaySeconds = intArg('spectator-delay', 0);
+const matchLimit = intArg('matches', 0);
+const serverName = arg('name', 'Dedicated Server');
+const victoryMode = arg('victory', undefined);
+const STATUS_INTERVAL_MS = 30_000;
+
+if (victoryMode !== undefined && !['commander', 'annihilation', 'controlPoints', 'score'].includes(victoryMode)) {
+  console.error(`--victory must be commander, annihilation, controlPoints or score, got ${victoryMode}`);
+  process.exit(2);
+}
+
+if (humanSeats + botSeats === 0) {
+  console.error('usage: dedicatedServer.mjs needs at least one seat (--humans=N and/or --bots=N)');
+  process.exit(2);
+}
+
+if (allyTeamCount !== undefined && (allyTeamCount < 1 || allyTeamCount > humanSeats + botSeats)) {
+  console.error(
+    `usage: dedicatedServer.mjs --teams=N must be between 1 and the seat count (${humanSeats + botSeats}), got ${allyTeamCount}`,
+  );
+  process.exit(2);
+}
+
+// ---------------------------------------------------------------------------
+// A minimal RFC 6455 server: binary messages, ping/pong, close. The repo has
+// no WebSocket dependency and needs nothing beyond this.
+
+const WEB_SOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** The accepted end of a WebSocket, shaped like the browser's: what
+ *  createWebSocketDataConnection wraps. */
+class ServerWebSocket extends EventTarget {
+  constructor(socket) {
+    super();
+    this.socket = socket;
+    this.readyState = 1;
+    this.pending = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    socket.setNoDelay(true);
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('close', () => this.closed());
+    socket.on('error', () => this.dispatchEvent(new Event('error')));
+  }
+
+  get bufferedAmount() {
+    return this.socket.writableLength;
+  }
+
+  send(bytes) {
+    if (this.readyState !== 1) return;
+    this.socket.write(encodeFrame(OPCODE_BINARY, Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)));
+  }
+
+  close() {
+    if (this.readyState !== 1) return;
+    this.readyState = 2;
+    this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+  }
+
+  closed() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.dispatchEvent(new Event('close'));
+  }
+
+  fail() {
+    this.readyState = 2;
+    this.socket.destroy();
+  }
+
+  receive(chunk) {
+    this.pending = this.pending.length === 0 ? chunk : Buffer.concat([this.pending, chunk]);
+    for (;;) {
+      const buffer = this.pending;
+      if (buffer.length < 2) return;
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const wide = buffer.readBigUInt64BE(2);
+        if (wide > BigInt(MAX_MESSAGE_BYTES)) return this.fail();
+        length = Number(wide);
+        offset = 10;
+      }
+      // Clients must mask (RFC 6455 5.1); an unmasked frame is a protocol error.
+      if (!masked || length > MAX_MESSAGE_BYTES) return this.fail();
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.pending = buffer.subarray(offset + 4 + length);
+      this.frame(fin, opcode, payload);
+      if (this.readyState === 3) return;
+    }
+  }
+
+  frame(fin, opcode, payload) {
+    if (opcode === OPCODE_PING) {
+      if (this.readyState === 1) this.socket.write(encodeFrame(OPCODE_PONG, payload));
+      return;
+    }
+    if (opcode === OPCODE_PONG) return;
+    if (opcode === OPCODE_CLOSE) {
+      if (this.readyState === 1) {
+        this.readyState = 2;
+        this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      }
+      return;
+    }
+    if (opcode !== OPCODE_CONTINUATION) {
+      this.fragments = [];
+      this.fragmentBytes = 0;
+    }
+    this.fragments.push(payload);
+    this.fragmentBytes += payload.length;
+    if (this.fragmentBytes > MAX_MESSAGE_BYTES) return this.fail();
+    if (!fin) return;
+    const data = this.fragments.length === 1 ? this.fragments[0] : Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    const event = new Event('message');
+    event.data = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    this.dispatchEvent(event);
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+const vite = await createServer({
+  root: repoRoot,
+  configFile: path.join(repoRoot, 'vite.config.ts'),
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true },
+});
+
+const simWasm = await vite.ssrLoadModule('/src/game/sim-wasm/init.ts');
+const wasmBytes = await readFile(path.join(repoRoot, 'src/game/sim-wasm/pkg/rts_sim_wasm_bg.wasm'));
+await simWasm.initSimWasm(wasmBytes);
+const { DedicatedMatchServer } = await vite.ssrLoadModule('/src/game/server/DedicatedMatchServer.ts');
+const {
+  createWebSocketDataConnection,
+  DEDICATED_SERVER_SEAT_TOKEN_PARAM,
+} = await vite.ssrLoadModule('/src/game/network/WebSocketDataConnection.ts');
+
+const log = (line) => console.log(`${new Date().toISOString()} ${line}`);
+let shuttingDown = false;
+const dedicated = new DedicatedMatchServer({
+  roomCode: roomArg,
+  serverName,
+  humanSeats,
+  botSeats,
+  allyTeamCount,
+  spectatorDelaySeconds,
+  victoryCondition: victoryMode === undefined ? undefined : { mode: victoryMode },
+  matchLimit,
+  log,
+  onFinished: (error) => void shutdown(error === undefined ? 0 : 1),
+});
+const roomCode = dedicated.start();
+
+const http = createHttpServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end(`Budget Annihilation dedicated server. Join ws://HOST:${port}/${roomCode}\n`);
+});
+
+http.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const key = req.headers['sec-websocket-key'];
+  const room = url.pathname.split('/').filter((segment) => segment.length > 0).pop() ?? roomCode;
+  if (
+    shuttingDown ||
+    typeof key !== 'string' ||
+    String(req.headers.upgrade).toLowerCase() !== 'websocket' ||
+    room.toUpperCase() !== roomCode
+  ) {
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEB_SOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  const seatToken = url.searchParams.get(DEDICATED_SERVER_SEAT_TOKEN_PARAM) ?? undefined;
+  dedicated.accept(createWebSocketDataConnection(new ServerWebSocket(socket), { seatToken }));
+});
+
+http.listen(port, () => {
+  log(`[dedicated server] listening: ws://0.0.0.0:${port}/${roomCode}`);
+});
+
+const statusTimer = setInterval(() => {
+  const status = dedicated.getStatus();
+  log(
+    `[dedicated server] ${status.phase} room=${status.roomCode} matches=${status.matchesPlayed} ` +
+      `members=${status.members} humans=${status.seatedHumans} bots=${status.botSeats}` +
+      (status.frame === null ? '' : ` frame=${status.frame}`),
+  );
+}, STATUS_INTERVAL_MS);
+
+async function shutdown(code) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  clearInterval(statusTimer);
+  dedicated.stop();
+  http.close();
+  await vite.close();
+  process.exit(code);
+}
+
+process.on('SIGINT', () => void shutdown(0));
+process.on('SIGTERM', () => void shutdown(0));
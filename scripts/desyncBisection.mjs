@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+// Find where a lockstep desync started.
+//
+//   node scripts/desyncBisection.mjs --report=report.json --archive=archive.json
+//     Replay the match twice in this process and bisect any divergence.
+//   ... --against=trace.json
+//     Compare this machine's replay with a trace recorded on another one.
+//   node scripts/desyncBisection.mjs --archive=archive.json --write-trace=trace.json
+//       [--through-frame=N] [--capture-frame=N]
+//     Record this machine's trace for the --against run elsewhere.
+//
+// The report comes from window.__baDesyncReport() and the archive from
+// window.__baMatchCommandArchive() on the coordinator (dev builds).
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(scriptDir, '..');
+
+const arg = (name, fallback) => {
+  const hit = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return hit === undefined ? fallback : hit.slice(name.length + 3);
+};
+const reportPath = arg('report', null);
+const archivePath = arg('archive', null);
+const againstPath = arg('against', null);
+const writeTracePath = arg('write-trace', null);
+const jsonPath = arg('json', null);
+const throughFrameArg = arg('through-frame', null);
+const captureFrameArg = arg('capture-frame', null);
+
+if (archivePath === null || (reportPath === null && writeTracePath === null)) {
+  console.error(
+    'usage: desyncBisection.mjs --archive=FILE (--report=FILE [--against=TRACE] [--json=OUT] | ' +
+      '--write-trace=OUT [--report=FILE] [--through-frame=N] [--capture-frame=N])',
+  );
+  process.exit(2);
+}
+
+const readJson = async (file) => JSON.parse(await readFile(path.resolve(file), 'utf8'));
+const archive = await readJson(archivePath);
+const report = reportPath === null ? null : await readJson(reportPath);
+
+const server = await createServer({
+  root: repoRoot,
+  configFile: path.join(repoRoot, 'vite.config.ts'),
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true },
+});
+
+try {
+  const simWasm = await server.ssrLoadModule('/src/game/sim-wasm/init.ts');
+  const wasmBytes = await readFile(
+    path.join(repoRoot, 'src/game/sim-wasm/pkg/rts_sim_wasm_bg.wasm'),
+  );
+  await simWasm.initSimWasm(wasmBytes);
+
+  const bisection = await server.ssrLoadModule('/src/game/architecture/DesyncBisection.ts');
+  if (writeTracePath !== null) {
+    const throughFrame = throughFrameArg !== null
+      ? Number(throughFrameArg)
+      : report?.frame ?? archive.throughFrame + 1;
+    const trace = bisection.recordDesyncReplayTrace(archive, {
+      throughFrame,
+      label: path.basename(writeTracePath),
+      captureFrames: captureFrameArg === null ? [] : [Number(captureFrameArg)],
+    });
+    await writeFile(path.resolve(writeTracePath), JSON.stringify(trace));
+    console.log(`Wrote replay trace through frame ${throughFrame} to ${writeTracePath}.`);
+  } else {
+    const against = againstPath === null ? null : await readJson(againstPath);
+    const result = bisection.bisectLockstepDesync({ report, archive, against });
+    console.log(bisection.formatLockstepDesyncBisection(result));
+    if (jsonPath !== null) {
+      await writeFile(path.resolve(jsonPath), JSON.stringify(result, null, 2));
+    }
+    if (result.firstDivergentFrame !== null) process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
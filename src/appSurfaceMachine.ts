@@ -24,10 +24,13 @@
  *                 A solo-hosted real battle enters .battle directly from
  *                 home: same surface, same lockstep, one seat.
  *   entityLab     The inspection lab. No network, no battle.
+ *   mapEditor     The map editor: sculpt a terrain, place deposits and
+ *                 starts, save the file the lobby loads. No network, no
+ *                 battle.
  *   gameControls  The controls reference — hotkey presets and bindings.
  *   gameInfo      The about page — what the game is, how a match works,
  *                 and where it comes from. Same side-room rules as the
- *                 other two.
+ *                 others.
  *
  * The StateMachine primitive is flat, so the hierarchy is encoded in the
  * state ids (`gameRoomLobby`, `gameRoomBattleLoading`, ...) and read through
@@ -36,7 +39,7 @@
  *
  * The asymmetries are the point of writing this down:
  *
- *   - None of the side rooms (lab, controls, info) can start a battle or
+ *   - None of the side rooms (lab, editor, controls, info) can start a battle or
  *     enter a game room. A match needs a host or a code, and only home has
  *     either — the road always runs through home.
  *   - Nothing leaves the game room except `exitGameRoom` (and the lobby's
@@ -69,6 +72,7 @@ export type AppSurface =
   | 'gameRoomBattleLoading'
   | 'gameRoomBattlePlaying'
   | 'entityLab'
+  | 'mapEditor'
   | 'gameControls'
   | 'gameInfo';
 
@@ -76,6 +80,7 @@ export type AppSurfaceEvent =
   | 'boot'
   | 'openHome'
   | 'openEntityLab'
+  | 'openMapEditor'
   | 'openGameControls'
   | 'openGameInfo'
   | 'enterLobby'
@@ -113,6 +118,7 @@ export function createAppSurfaceMachine(
       },
       home: {
         openEntityLab: 'entityLab',
+        openMapEditor: 'mapEditor',
         openGameControls: 'gameControls',
         openGameInfo: 'gameInfo',
         // Hosting or joining lands you in the game room's seating screen...
@@ -143,17 +149,26 @@ export function createAppSurfaceMachine(
       },
       entityLab: {
         openHome: 'home',
+        openMapEditor: 'mapEditor',
+        openGameControls: 'gameControls',
+        openGameInfo: 'gameInfo',
+      },
+      mapEditor: {
+        openHome: 'home',
+        openEntityLab: 'entityLab',
         openGameControls: 'gameControls',
         openGameInfo: 'gameInfo',
       },
       gameControls: {
         openHome: 'home',
         openEntityLab: 'entityLab',
+        openMapEditor: 'mapEditor',
         openGameInfo: 'gameInfo',
       },
       gameInfo: {
         openHome: 'home',
         openEntityLab: 'entityLab',
+        openMapEditor: 'mapEditor',
         openGameControls: 'gameControls',
       },
     },
@@ -1,6 +1,6 @@
 /**
- * The navigation guarantees the app shell leans on: neither side room (lab,
- * controls) can start a battle or enter a game room, nothing leaves the game
+ * The navigation guarantees the app shell leans on: no side room (lab,
+ * editor, controls, info) can start a battle or enter a game room, nothing leaves the game
  * room except its declared exits, and HOME is the hub every flow regroups
  * through. Drives a fresh machine built from the real table, so the live
  * singleton is never disturbed and the table cannot drift from what is
@@ -32,7 +32,7 @@ export function runAppSurfaceMachineContractTest(): void {
   // is no state pair to toggle between any more, so no such event exists on
   // the table at all. Home is home with the sidebar in either position.
 
-  // All three side rooms are reachable from home, from each other, and
+  // All four side rooms are reachable from home, from each other, and
   // lead back — and none of them can start a battle or enter a game room.
   assert(machine.send('openEntityLab') === true, 'home can open the entity lab');
   assert(machine.state === 'entityLab', 'and lands in it');
@@ -55,6 +55,17 @@ export function runAppSurfaceMachineContractTest(): void {
   assert(machine.send('openHome') === true, 'the lab returns home');
   assert(machine.send('openGameControls') === true, 'home can open the controls screen');
   assert(machine.send('openHome') === true, 'the controls screen returns home');
+  assert(machine.send('openMapEditor') === true, 'home can open the map editor');
+  assert(machine.state === 'mapEditor', 'and lands in it');
+  assert(machine.send('startBattle') === false, 'the editor can NEVER start a battle');
+  assert(machine.send('enterLobby') === false, 'nor enter a game room');
+  assert(machine.send('openEntityLab') === true, 'the editor reaches the lab');
+  assert(machine.send('openMapEditor') === true, 'the lab reaches the editor');
+  assert(machine.send('openGameInfo') === true, 'the editor reaches the info page');
+  assert(machine.send('openMapEditor') === true, 'the info page reaches the editor');
+  assert(machine.send('openGameControls') === true, 'the editor reaches the controls screen');
+  assert(machine.send('openMapEditor') === true, 'the controls screen reaches the editor');
+  assert(machine.send('openHome') === true, 'the editor returns home');
 
   // Hosting or joining enters the game room's seating screen; cancel comes
   // straight home.
@@ -65,6 +76,7 @@ export function runAppSurfaceMachineContractTest(): void {
   assert(machine.send('openEntityLab') === false,
     'the lab hotkey is refused from the seating screen — it would silently disconnect the seat');
   assert(machine.send('openGameControls') === false, 'so is the controls screen');
+  assert(machine.send('openMapEditor') === false, 'and the map editor');
   assert(machine.send('battleReady') === false, 'a battle that never started cannot become ready');
   assert(machine.send('leaveLobby') === true, 'cancel returns home');
   assert(machine.state === 'home', 'where every flow regroups');
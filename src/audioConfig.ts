@@ -12,7 +12,8 @@
  */
 
 export type {  SoundEntry } from './types/audio';
-import type { SoundEntry } from './types/audio';
+import type { MusicLayer, SoundEntry } from './types/audio';
+import type { GameAlertKind } from './types/ui';
 import type {
   RayBlueprintId,
   ShotBlueprintId,
@@ -64,6 +65,9 @@ type AudioConfig = {
   beamGain: number;
   fieldGain: number;
   musicGain: number;
+  /** Alert cues (RtsScene3DAlertSystem). Played centred and unlimited by
+   *  the spatial rules — an alert is about somewhere the camera isn't. */
+  alertGain: number;
   /** One-shot voice limiting: at most `maxStartsPerWindow` synth starts
    *  (and `maxStartsPerSynthPerWindow` per synth id) per `windowMs`
    *  window. Big battles emit hundreds of fire/hit events per second;
@@ -82,20 +86,86 @@ type AudioConfig = {
     beam: number;
     field: number;
   };
+  /** Combat audio placement relative to the camera (spatialAudio.ts).
+   *  Sources pan by their screen x (±panWidth at the viewport edges) and
+   *  fall off with distance from the camera focus on the inverse model:
+   *  full volume within max(referenceDistance, zoom distance ×
+   *  zoomReferenceScale), then ref / (ref + rolloff·(d − ref)). Voices
+   *  quieter than cutoffGain are dropped. Fog-hidden (audio-only) events
+   *  play at fogGain through a fogLowpassHz lowpass. Each one-shot
+   *  category may start at most regionVoiceLimit voices per screen region
+   *  per voiceBudget window — offscreenRegionVoiceLimit past the viewport
+   *  edges — so one crowded fight can't starve another of the budget. */
+  spatial: {
+    panWidth: number;
+    referenceDistance: number;
+    zoomReferenceScale: number;
+    rolloff: number;
+    cutoffGain: number;
+    fogGain: number;
+    fogLowpassHz: number;
+    regionVoiceLimit: SpatialVoiceLimits;
+    offscreenRegionVoiceLimit: SpatialVoiceLimits;
+  };
   event: {
     fire: Partial<Record<TurretBlueprintId, SoundEntry>>;
     hit: Partial<Record<ShotBlueprintId | RayBlueprintId, SoundEntry>>;
     death: Record<UnitBlueprintId, SoundEntry>;
   };
+  alert: Record<GameAlertKind, SoundEntry>;
   continuous: {
     beam: ContinuousSynthConfig;
     force: ContinuousSynthConfig;
   };
+  /** Adaptive music (musicDirector.ts). Combat events near the camera
+   *  add `weight × proximity` heat that decays with `decaySeconds`;
+   *  intensity = 1 − e^(−heat / intensityScale). A layer is entered at its
+   *  `Enter` intensity and held down to its `Exit` one, and stepping down
+   *  waits `minLayerSeconds` in the current layer. A threatened commander
+   *  (hit, or below `hpFraction` hp) holds at least `minLayer` for
+   *  `holdSeconds`. Each layer sets the procedural tempo (stepped at most
+   *  `maxBpmStepPerBar` per bar), the layer bus mix reached over
+   *  `crossfadeSeconds`, and the MIDI source's lowpass. Game-over stingers
+   *  duck the music to `stingerDuckGain`. */
+  musicDirector: {
+    decaySeconds: number;
+    intensityScale: number;
+    fireWeight: number;
+    hitWeight: number;
+    deathWeight: number;
+    tensionEnter: number;
+    tensionExit: number;
+    battleEnter: number;
+    battleExit: number;
+    minLayerSeconds: number;
+    commanderThreat: {
+      hpFraction: number;
+      holdSeconds: number;
+      minLayer: MusicLayer;
+    };
+    crossfadeSeconds: number;
+    maxBpmStepPerBar: number;
+    layers: Record<MusicLayer, MusicLayerConfig>;
+    stingerDuckGain: number;
+    stingerDuckSeconds: number;
+  };
   musicSource: 'procedural' | 'midi';
   midiFile: string;
   midi: MidiSynthConfig;
 };
 
+type MusicLayerConfig = {
+  bpm: number;
+  mix: Record<MusicLayer, number>;
+  midiFilterHz: number;
+};
+
+type SpatialVoiceLimits = {
+  fire: number;
+  hit: number;
+  dead: number;
+};
+
 type ContinuousSynthConfig = {
   wave: OscillatorType;
   freq: number;
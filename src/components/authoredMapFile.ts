@@ -0,0 +1,53 @@
+import {
+  AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES,
+  parseAuthoredMap,
+  type AuthoredMap,
+} from '../types/authoredMap';
+
+/**
+ * Read a map file the host picked in the lobby.
+ *
+ * The file is the JSON `AuthoredMap`, except that its heightmap may be given
+ * as a grayscale image instead of a float grid:
+ *
+ *   "heightmap": { "image": "data:image/png;base64,...", "minHeight": 0, "maxHeight": 800 }
+ *
+ * Black is `minHeight`, white is `maxHeight`. The image is decoded here, on
+ * the host, into the float grid the lobby carries — browsers may decode the
+ * same PNG a shade differently, so peers only ever see (and hash) the grid.
+ * Images larger than the grid cap are scaled down to it.
+ */
+export async function readAuthoredMapFile(file: File): Promise<AuthoredMap> {
+  const raw: unknown = JSON.parse(await file.text());
+  return parseAuthoredMap(await decodeImageHeightmap(raw), file.name);
+}
+
+async function decodeImageHeightmap(raw: unknown): Promise<unknown> {
+  if (typeof raw !== 'object' || raw === null) return raw;
+  const record = raw as Record<string, unknown>;
+  const heightmap = record.heightmap as Record<string, unknown> | null | undefined;
+  if (typeof heightmap?.image !== 'string') return raw;
+  const { minHeight, maxHeight } = heightmap;
+  if (typeof minHeight !== 'number' || typeof maxHeight !== 'number') {
+    throw new Error('an image heightmap needs numeric minHeight and maxHeight');
+  }
+
+  const image = new Image();
+  image.src = heightmap.image;
+  await image.decode();
+  const columns = Math.min(image.naturalWidth, AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES);
+  const rows = Math.min(image.naturalHeight, AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES);
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  const context = canvas.getContext('2d');
+  if (context === null) throw new Error('this browser cannot decode an image heightmap');
+  context.drawImage(image, 0, 0, columns, rows);
+  const pixels = context.getImageData(0, 0, columns, rows).data;
+
+  const heights: number[] = new Array(columns * rows);
+  for (let i = 0; i < heights.length; i++) {
+    heights[i] = minHeight + (pixels[i * 4] / 255) * (maxHeight - minHeight);
+  }
+  return { ...record, heightmap: { columns, rows, heights } };
+}
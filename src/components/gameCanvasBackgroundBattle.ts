@@ -3,6 +3,7 @@ import type { BackgroundBattleState } from '../game/lobby/LobbyManager';
 import type { GameScene } from '../game/createGame';
 import type { PlayerId } from '../game/sim/types';
 import type { BattleMode } from '../battleBarConfig';
+import type { AuthoredMap } from '../types/authoredMap';
 import { waitForSceneAndBind } from './gameSceneBindings';
 import { waitForLoadingOverlayPaint } from './loadingOverlayPaint';
 import { prewarmEntityPreviewImages } from './entityPreviewThumbnails';
@@ -32,6 +33,7 @@ type BackgroundBattleOptions = {
   getBattleMode: () => BattleMode;
   getPreviewPlayerIds: () => PlayerId[] | undefined;
   getPreviewLocalPlayerId: () => PlayerId | undefined;
+  getPreviewAuthoredMap: () => AuthoredMap | null;
   getPlayerClientEnabled: () => boolean;
   onLoadingProgress: (progress: number, phase?: string) => void;
   bindSceneUi: (scene: GameScene) => void;
@@ -60,6 +62,7 @@ export function useGameCanvasBackgroundBattle({
   getBattleMode,
   getPreviewPlayerIds,
   getPreviewLocalPlayerId,
+  getPreviewAuthoredMap,
   getPlayerClientEnabled,
   onLoadingProgress,
   bindSceneUi,
@@ -222,6 +225,7 @@ export function useGameCanvasBackgroundBattle({
             phase ?? 'Creating battle',
           ),
           handleStartupReady,
+          getPreviewAuthoredMap(),
         );
         if (myGen !== backgroundBattleGen || !canRunBackgroundBattle()) {
           lobbyManager.destroyBackgroundBattle(battle);
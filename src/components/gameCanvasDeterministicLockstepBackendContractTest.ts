@@ -19,6 +19,8 @@ import {
   type NetworkServerSnapshot,
 } from '../game/network/NetworkTypes';
 import type { PlayerId } from '../game/sim/types';
+import type { VictoryMode } from '../types/victoryCondition';
+import type { AuthoredMap } from '../types/authoredMap';
 import {
   createDeterministicLockstepBackend,
   realBattleTerrainWorldFields,
@@ -195,6 +197,7 @@ function assertInitializationHashMismatch(): void {
       metalDepositStep: 0,
       terrainDetail: 1,
       lobbyName: '',
+      spectatorDelaySeconds: 0,
       mapWidthLandCells: 9,
       mapLengthLandCells: 9,
       entityCountCap: 128,
@@ -205,6 +208,10 @@ function assertInitializationHashMismatch(): void {
       slowDownAtFinalWaypoint: false,
       metalCoverage: 'more' as const,
       liquidSurfaceMode: 'water' as const,
+      victoryMode: 'commander' as VictoryMode,
+      victoryHoldSeconds: 120,
+      victoryTimeLimitSeconds: 1200,
+      authoredMap: null,
     },
   };
   const firstInitialization = buildCanonicalMatchInitialization(base);
@@ -273,6 +280,66 @@ function assertInitializationHashMismatch(): void {
       sixthInitialization.lockstep.checksumIntervalTicks === 540,
     'canonical initialization must scale fixed-step tick policies with the selected rate',
   );
+  const seventh = hashCanonicalMatchInitialization(buildCanonicalMatchInitialization({
+    ...base,
+    settings: {
+      ...base.settings,
+      victoryMode: 'controlPoints',
+    },
+  }));
+  const eighth = hashCanonicalMatchInitialization(buildCanonicalMatchInitialization({
+    ...base,
+    settings: {
+      ...base.settings,
+      victoryMode: 'controlPoints',
+      victoryHoldSeconds: 300,
+    },
+  }));
+  assertContract(
+    first !== seventh && seventh !== eighth,
+    'canonical initialization hash must include the victory condition',
+  );
+  const authoredMap: AuthoredMap = {
+    format: 'rts-map',
+    version: 1,
+    name: 'Contract island',
+    widthLandCells: 21,
+    lengthLandCells: 21,
+    heightmap: { columns: 2, rows: 2, heights: [0, 10, 10, 20] },
+    waterLevel: 5,
+    vegetationDensity: 1,
+    metalDeposits: [],
+    startPositions: [{ x: 3, y: 3 }, { x: 18, y: 18 }],
+  };
+  const withAuthoredMap = (map: AuthoredMap) => hashCanonicalMatchInitialization(
+    buildCanonicalMatchInitialization({
+      ...base,
+      settings: { ...base.settings, mapWidthLandCells: 21, mapLengthLandCells: 21, authoredMap: map },
+    }),
+  );
+  const ninth = withAuthoredMap(authoredMap);
+  const tenth = withAuthoredMap({
+    ...authoredMap,
+    heightmap: { ...authoredMap.heightmap, heights: [0, 10, 10, 21] },
+  });
+  assertContract(
+    ninth !== first && ninth !== tenth,
+    'canonical initialization hash must include the authored map content',
+  );
+  const withBot = { ...base, aiPlayerIds: [2 as PlayerId] };
+  const defaultBot = hashCanonicalMatchInitialization(buildCanonicalMatchInitialization(withBot));
+  const explicitDefaultBot = hashCanonicalMatchInitialization(buildCanonicalMatchInitialization({
+    ...withBot,
+    botProfileByPlayerId: { 2: { difficulty: 'normal', personality: 'balanced' } },
+  }));
+  const hardTurtleBot = hashCanonicalMatchInitialization(buildCanonicalMatchInitialization({
+    ...withBot,
+    botProfileByPlayerId: { 2: { difficulty: 'hard', personality: 'turtle' } },
+  }));
+  assertContract(
+    defaultBot === explicitDefaultBot && defaultBot !== hardTurtleBot,
+    'canonical initialization hash must include each bot seat profile, defaulting when omitted',
+  );
 }
 
 function createTerrain(): RealBattleStartupTerrain {
@@ -307,6 +374,7 @@ function createLobbySettings(
 ): LobbySettings {
   return {
     lobbyName: '',
+    spectatorDelaySeconds: 0,
     ...realBattleTerrainWorldFields(terrain),
     entityCountCap: 128,
     allyTeamCount: 2,
@@ -316,6 +384,10 @@ function createLobbySettings(
     slowDownAtFinalWaypoint: false,
     metalCoverage: terrain.metalCoverage,
     liquidSurfaceMode: terrain.liquidSurfaceMode,
+    victoryMode: 'commander',
+    victoryHoldSeconds: 120,
+    victoryTimeLimitSeconds: 1200,
+    authoredMap: null,
   };
 }
 
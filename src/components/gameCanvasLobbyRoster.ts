@@ -15,6 +15,9 @@ type UseGameCanvasLobbyRosterOptions = {
   /** Everyone attached, watchers included. The one list the UI renders. */
   lobbyMembers: Ref<LobbyMember[]>;
   lobbyBotSeats: Ref<LobbyBotSeat[]>;
+  /** The seats of a replay being played back. While set they ARE the
+   *  roster: a replay has no session, only the match it recorded. */
+  replayPlayers: Ref<LobbyPlayer[] | null>;
   localPlayerId: Ref<PlayerId>;
 };
 
@@ -23,6 +26,7 @@ export function useGameCanvasLobbyRoster({
   currentBattleMode,
   lobbyMembers,
   lobbyBotSeats,
+  replayPlayers,
   localPlayerId,
 }: UseGameCanvasLobbyRosterOptions) {
   const localUsername = ref<string>(getInitialLocalUsername());
@@ -35,6 +39,7 @@ export function useGameCanvasLobbyRoster({
    * is exactly "members with a seat".
    */
   const lobbyPlayers = computed<LobbyPlayer[]>(() => {
+    if (replayPlayers.value !== null) return replayPlayers.value;
     const out: LobbyPlayer[] = [];
     for (const member of lobbyMembers.value) {
       if (member.playerId === undefined) continue;
@@ -60,6 +65,7 @@ export function useGameCanvasLobbyRoster({
         isBot: true,
         allyTeamId: bot.allyTeamId,
         initialState: bot.initialState,
+        botProfile: { ...bot.profile },
         ipAddress: undefined,
         location: undefined,
         timezone: undefined,
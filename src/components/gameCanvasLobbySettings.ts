@@ -63,10 +63,23 @@ import type { MapLandCellDimensions } from '../mapSizeConfig';
 import { applyWorldSurfaceSelection } from './gameCanvasWorldSurfaceSelection';
 import { assertCurrentLobbySettings } from '../game/network/LobbySettingsContract';
 import { normalizeLobbyName } from '../game/network/lobbyName';
+import { normalizeSpectatorDelaySeconds } from '../game/network/spectatorDelay';
+import {
+  hashCanonicalValue,
+  victoryConditionFromLobbySettings,
+} from '../game/architecture/CanonicalMatchInitialization';
+import { parseAuthoredMap, type AuthoredMap } from '../types/authoredMap';
+import {
+  normalizeVictoryCondition,
+  type VictoryCondition,
+} from '../types/victoryCondition';
 
 type GameCanvasLobbySettings = {
   currentLobbySettings(): LobbySettings;
   applyLobbyName(value: string, broadcast?: boolean): void;
+  applySpectatorDelay(seconds: number, broadcast?: boolean): void;
+  applyVictoryCondition(change: Partial<VictoryCondition>, broadcast?: boolean): void;
+  applyAuthoredMap(map: AuthoredMap | null, broadcast?: boolean): void;
   broadcastLobbySettingsIfHost(): void;
   applyCenterMagnitude(value: number, broadcast?: boolean): void;
   applyRingMagnitude(value: number, broadcast?: boolean): void;
@@ -114,6 +127,15 @@ type GameCanvasLobbySettingsOptions = {
   /** What the host called this lobby. Session state, never persisted — a
    *  name belongs to one lobby, not to this browser. */
   lobbyName: Ref<string>;
+  /** Host's spectator broadcast delay in seconds. Session state like the
+   *  name: it belongs to this lobby, not to this browser. */
+  spectatorDelaySeconds: Ref<number>;
+  /** How the match is won. Session state like the delay — it belongs to
+   *  this lobby — but unlike the delay it is hashed into the match. */
+  victoryCondition: Ref<VictoryCondition>;
+  /** Map file the host loaded, or null for a generated map. Session state
+   *  like the name; while set it fixes the map size. */
+  authoredMap: Ref<AuthoredMap | null>;
   /** UI mirror of the host's declared side count. NetworkManager holds the
    *  authoritative copy; this ref is what the lobby renders, and it is
    *  written here so host edits and inbound host settings both land in one
@@ -155,6 +177,9 @@ export function useGameCanvasLobbySettings({
   mapWidthLandCells,
   mapLengthLandCells,
   lobbyName,
+  spectatorDelaySeconds,
+  victoryCondition,
+  authoredMap,
   allyTeamCount,
   slowDownAtFinalWaypointStoreVersion,
   worldSurfaceStoreVersion,
@@ -191,6 +216,7 @@ export function useGameCanvasLobbySettings({
   function currentLobbySettings(): LobbySettings {
     return {
       lobbyName: normalizeLobbyName(lobbyName.value),
+      spectatorDelaySeconds: normalizeSpectatorDelaySeconds(spectatorDelaySeconds.value),
       centerMagnitude: centerMagnitude.value,
       ringMagnitude: ringMagnitude.value,
       dividersMagnitude: dividersMagnitude.value,
@@ -211,6 +237,10 @@ export function useGameCanvasLobbySettings({
       slowDownAtFinalWaypoint: loadStoredSlowDownAtFinalWaypoint('real'),
       metalCoverage: loadStoredMetalCoverage('real'),
       liquidSurfaceMode: loadStoredLiquidSurfaceMode('real'),
+      victoryMode: victoryCondition.value.mode,
+      victoryHoldSeconds: victoryCondition.value.holdSeconds,
+      victoryTimeLimitSeconds: victoryCondition.value.timeLimitSeconds,
+      authoredMap: authoredMap.value,
     };
   }
 
@@ -234,6 +264,48 @@ export function useGameCanvasLobbySettings({
     }
   }
 
+  /** Host changes how far behind watchers see the match. Nothing in the
+   *  world changes; the listing does, because the delay is advertised. */
+  function applySpectatorDelay(seconds: number, broadcast = true): void {
+    const normalized = normalizeSpectatorDelaySeconds(seconds);
+    if (spectatorDelaySeconds.value === normalized) return;
+    spectatorDelaySeconds.value = normalized;
+    if (broadcast) {
+      broadcastLobbySettingsIfHost();
+      network.refreshLobbyListing();
+    }
+  }
+
+  /** Host changes how the match is won. The world is untouched until the
+   *  match starts, so there is no preview to rebuild. */
+  function applyVictoryCondition(change: Partial<VictoryCondition>, broadcast = true): void {
+    const next = normalizeVictoryCondition({ ...victoryCondition.value, ...change });
+    const current = victoryCondition.value;
+    if (
+      next.mode === current.mode &&
+      next.holdSeconds === current.holdSeconds &&
+      next.timeLimitSeconds === current.timeLimitSeconds
+    ) {
+      return;
+    }
+    victoryCondition.value = next;
+    if (broadcast) broadcastLobbySettingsIfHost();
+  }
+
+  /** Host loads (or, with null, drops) a map file. The file dictates the
+   *  map size, so the size bars follow it; dropping it leaves them where the
+   *  file put them. */
+  function applyAuthoredMap(map: AuthoredMap | null, broadcast = true): void {
+    if (map === authoredMap.value) return;
+    authoredMap.value = map;
+    if (map !== null) {
+      mapWidthLandCells.value = map.widthLandCells;
+      mapLengthLandCells.value = map.lengthLandCells;
+    }
+    restartPreviewIfNeeded();
+    if (broadcast) broadcastLobbySettingsIfHost();
+  }
+
   function applyCenterMagnitude(value: number, broadcast = true): void {
     const mode = currentBattleMode.value;
     const normalized = normalizeCenterMagnitude(value);
@@ -433,6 +505,8 @@ export function useGameCanvasLobbySettings({
     dimensions: MapLandCellDimensions,
     broadcast = true,
   ): void {
+    // A loaded map file is drawn for one size; the bars wait until it is dropped.
+    if (authoredMap.value !== null) return;
     const mode = currentBattleMode.value;
     const changed = !sameMapLandDimensions(
       {
@@ -480,6 +554,13 @@ export function useGameCanvasLobbySettings({
       'real',
     );
     const nextSlowDownAtFinalWaypoint = settings.slowDownAtFinalWaypoint;
+    const nextAuthoredMap = settings.authoredMap === null
+      ? null
+      : parseAuthoredMap(settings.authoredMap, 'host lobby settings authoredMap');
+    // Every settings message carries the whole file, so compare content.
+    const authoredMapChanged = (nextAuthoredMap === null) !== (authoredMap.value === null) ||
+      (nextAuthoredMap !== null && authoredMap.value !== null &&
+        hashCanonicalValue(nextAuthoredMap) !== hashCanonicalValue(authoredMap.value));
     if (!isMetalCoverage(settings.metalCoverage)) {
       throw new Error(`[lobby settings] invalid metalCoverage: ${String(settings.metalCoverage)}`);
     }
@@ -515,7 +596,8 @@ export function useGameCanvasLobbySettings({
       settings.mapLengthLandCells !== mapLengthLandCells.value ||
       slowDownAtFinalWaypointChanged ||
       metalCoverageChanged ||
-      liquidSurfaceModeChanged;
+      liquidSurfaceModeChanged ||
+      authoredMapChanged;
 
     centerMagnitude.value = nextCenterMagnitude;
     ringMagnitude.value = nextRingMagnitude;
@@ -566,6 +648,9 @@ export function useGameCanvasLobbySettings({
     }
     setUnitCap('real', settings.entityCountCap);
     lobbyName.value = normalizeLobbyName(settings.lobbyName);
+    spectatorDelaySeconds.value = normalizeSpectatorDelaySeconds(settings.spectatorDelaySeconds);
+    victoryCondition.value = victoryConditionFromLobbySettings(settings);
+    if (authoredMapChanged) authoredMap.value = nextAuthoredMap;
     // The host owns the side count; a client adopts it without answering
     // back. A change reshapes the terrain slices, so the preview restarts
     // for the same reason a map-size change does.
@@ -665,6 +750,9 @@ export function useGameCanvasLobbySettings({
     currentLobbySettings,
     broadcastLobbySettingsIfHost,
     applyLobbyName,
+    applySpectatorDelay,
+    applyVictoryCondition,
+    applyAuthoredMap,
     applyCenterMagnitude,
     applyRingMagnitude,
     applyDividersMagnitude,
@@ -11,6 +11,8 @@ import {
   type StartRealBattleWithPlayersOptions,
 } from './gameCanvasRealBattleStart';
 import type { RealBattleResumeContext } from './gameCanvasRealBattleStartup';
+import type { ReplayBattleSource } from './gameCanvasReplayPlayback';
+import type { SimulationSave } from '../game/architecture/SimulationSave';
 
 type ResolvePlayerName = {
   (playerId: PlayerId): string;
@@ -97,6 +99,8 @@ export function useGameCanvasRealBattleHandoff({
     aiPlayerIds?: PlayerId[],
     handoff?: BattleHandoff,
     resume?: RealBattleResumeContext,
+    replay?: ReplayBattleSource,
+    savedGame?: SimulationSave,
   ): Promise<void> {
     await startRealBattleWithPlayers(playerIds, aiPlayerIds, {
       containerRef,
@@ -124,6 +128,8 @@ export function useGameCanvasRealBattleHandoff({
       lookupPlayerName: (pid) => resolvePlayerName(pid, null),
       battleHandoff: handoff,
       resume,
+      replay,
+      savedGame,
       onCatchUpProgress,
       onLoadingProgress,
       onPeerFrameReport,
@@ -134,6 +140,25 @@ export function useGameCanvasRealBattleHandoff({
     });
   }
 
+  /** Play back a recorded match. Same start path as a live battle — the
+   *  replay only swaps where the world and its commands come from. */
+  async function startReplayBattle(
+    playerIds: PlayerId[],
+    replay: ReplayBattleSource,
+  ): Promise<void> {
+    await startGameWithPlayers(playerIds, undefined, undefined, undefined, replay);
+  }
+
+  /** Resume a saved match. A normal local start whose server adopts the
+   *  saved world before the first frame. */
+  async function startSavedBattle(
+    playerIds: PlayerId[],
+    aiPlayerIds: PlayerId[],
+    savedGame: SimulationSave,
+  ): Promise<void> {
+    await startGameWithPlayers(playerIds, aiPlayerIds, undefined, undefined, undefined, savedGame);
+  }
+
   function setupNetworkCallbacks(): void {
     bindGameCanvasNetworkCallbacks({
       network,
@@ -162,5 +187,7 @@ export function useGameCanvasRealBattleHandoff({
   return {
     setupNetworkCallbacks,
     startGameWithPlayers,
+    startReplayBattle,
+    startSavedBattle,
   };
 }
@@ -14,8 +14,11 @@ import type {
   RealBattleBackendRuntime,
   RealBattleFlowControlReport,
   RealBattleResumeContext,
+  RealBattleStartupTerrain,
 } from './gameCanvasRealBattleStartup';
 import type { LockstepCatchUpProgress } from '../game/architecture/LockstepCatchUp';
+import type { ReplayBattleSource } from './gameCanvasReplayPlayback';
+import type { SimulationSave } from '../game/architecture/SimulationSave';
 import type { GameCanvasRealBattleLifecycle } from './gameCanvasRealBattleLifecycle';
 import { waitForLoadingOverlayPaint } from './loadingOverlayPaint';
 import { prewarmEntityPreviewImages } from './entityPreviewThumbnails';
@@ -53,6 +56,12 @@ export type StartRealBattleWithPlayersOptions = {
   /** Present when joining a match already in progress — the frame to replay
    *  up to and the hash to verify against on arrival. */
   resume?: RealBattleResumeContext;
+  /** Present when playing back a recorded match instead of starting a live
+   *  one. The seats, terrain and every command come from the file. */
+  replay?: ReplayBattleSource;
+  /** Present when resuming a saved match. Offline only: the terrain and the
+   *  server config are the save's, and the world starts where it was saved. */
+  savedGame?: SimulationSave;
   /** Replay progress while catching up, for the loading overlay. */
   onCatchUpProgress?: (progress: LockstepCatchUpProgress) => void;
   onLoadingProgress: (progress: number, phase?: string) => void;
@@ -209,37 +218,69 @@ export async function startRealBattleWithPlayers(
     let gameConnection: GameConnection;
     const realBattleStartup = await import('./gameCanvasRealBattleStartup');
     if (shouldAbortStart()) return;
-    const realBattleTerrain = realBattleStartup.loadAndApplyRealBattleTerrain();
-    await reportLoadingProgress(REAL_BATTLE_LOAD_PROGRESS.terrainLoaded, 'Loading terrain settings');
-    if (shouldAbortStart()) return;
+    const reportServerProgress = (progress: number, phase?: string) => reportLoadingProgress(
+      REAL_BATTLE_LOAD_PROGRESS.terrainLoaded +
+        progress *
+          (REAL_BATTLE_LOAD_PROGRESS.serverReady - REAL_BATTLE_LOAD_PROGRESS.terrainLoaded),
+      phase ?? 'Starting server',
+    );
+    let realBattleTerrain: RealBattleStartupTerrain;
+    let backend: RealBattleBackendRuntime;
+    if (options.replay !== undefined) {
+      // A recorded match brings its own world: the terrain and the server
+      // config are the file's, never this browser's stored settings.
+      const replayPlayback = await import('./gameCanvasReplayPlayback');
+      if (shouldAbortStart()) return;
+      const replayConfig = replayPlayback.replayGameServerConfig(options.replay.file);
+      realBattleTerrain = realBattleStartup.loadAndApplyReplayBattleTerrain(replayConfig);
+      await reportLoadingProgress(REAL_BATTLE_LOAD_PROGRESS.terrainLoaded, 'Loading replay terrain');
+      if (shouldAbortStart()) return;
+      backend = await replayPlayback.createReplayBattleBackend({
+        source: options.replay,
+        config: replayConfig,
+        localIpAddress: options.localIpAddress.value,
+        onLoadingProgress: reportServerProgress,
+      });
+    } else {
+      if (options.savedGame !== undefined) {
+        // Like a replay, a save brings its own world: the stored settings of
+        // this browser have no say in the map it was saved on.
+        const { simulationSaveGameServerConfig } = await import('../game/architecture/SimulationSave');
+        if (shouldAbortStart()) return;
+        realBattleTerrain = realBattleStartup.loadAndApplyReplayBattleTerrain(
+          simulationSaveGameServerConfig(options.savedGame),
+        );
+        await reportLoadingProgress(REAL_BATTLE_LOAD_PROGRESS.terrainLoaded, 'Loading saved terrain');
+      } else {
+        realBattleTerrain = realBattleStartup.loadAndApplyRealBattleTerrain();
+        await reportLoadingProgress(REAL_BATTLE_LOAD_PROGRESS.terrainLoaded, 'Loading terrain settings');
+      }
+      if (shouldAbortStart()) return;
 
-    const backend = await realBattleStartup.createRealBattleBackend({
-      playerIds,
-      aiPlayerIds,
-      terrain: realBattleTerrain,
-      networkRole: options.networkRole.value,
-      // The SEAT, not the view target. A watcher passes undefined and gets a
-      // connection with no command authority; what it is looking at is decided
-      // separately, below.
-      localPlayerId: options.networkRole.value === null
-        ? options.localPlayerId.value
-        : options.network.getLocalPlayerId(),
-      localIpAddress: options.localIpAddress.value,
-      network: options.network,
-      battleHandoff: options.battleHandoff,
-      resume: options.resume,
-      onCatchUpProgress: options.onCatchUpProgress,
-      onLoadingProgress: (progress, phase) => reportLoadingProgress(
-        REAL_BATTLE_LOAD_PROGRESS.terrainLoaded +
-          progress *
-            (REAL_BATTLE_LOAD_PROGRESS.serverReady - REAL_BATTLE_LOAD_PROGRESS.terrainLoaded),
-        phase ?? 'Starting server',
-      ),
-      onPeerFrameReport: options.onPeerFrameReport,
-      onFlowControlChange: options.onFlowControlChange,
-      onLockstepHaltChange: options.onLockstepHaltChange,
-      registerSilentPlayer: options.registerSilentPlayer,
-    });
+      backend = await realBattleStartup.createRealBattleBackend({
+        playerIds,
+        aiPlayerIds,
+        terrain: realBattleTerrain,
+        networkRole: options.networkRole.value,
+        // The SEAT, not the view target. A watcher passes undefined and gets a
+        // connection with no command authority; what it is looking at is decided
+        // separately, below.
+        localPlayerId: options.networkRole.value === null
+          ? options.localPlayerId.value
+          : options.network.getLocalPlayerId(),
+        localIpAddress: options.localIpAddress.value,
+        network: options.network,
+        battleHandoff: options.battleHandoff,
+        resume: options.resume,
+        savedGame: options.savedGame,
+        onCatchUpProgress: options.onCatchUpProgress,
+        onLoadingProgress: reportServerProgress,
+        onPeerFrameReport: options.onPeerFrameReport,
+        onFlowControlChange: options.onFlowControlChange,
+        onLockstepHaltChange: options.onLockstepHaltChange,
+        registerSilentPlayer: options.registerSilentPlayer,
+      });
+    }
     ownedBackend = backend;
     // From here the backend outlives this function, so its stop belongs to
     // the lifecycle: every teardown path calls clearTimers(), which invokes
@@ -20,12 +20,17 @@ import {
   setTerrainPerimeterMagnitude,
   setTerrainPrecedence,
   setTerrainRuntimeConfig,
+  getTerrainRuntimeConfig,
 } from '../game/sim/Terrain';
 import {
   setLiquidSurfaceMode,
   setMetalCoverage,
 } from '../game/sim/worldSurfaceState';
 import { GameServer } from '../game/server/GameServer';
+import {
+  simulationSaveGameServerConfig,
+  type SimulationSave,
+} from '../game/architecture/SimulationSave';
 import { assertDeterministicLockstepRuntimeReady } from '../game/architecture/DeterministicLockstepRuntimeGuards';
 import {
   LockstepFrameScheduler,
@@ -43,9 +48,12 @@ import {
 } from '../game/architecture/LockstepCommandProtocol';
 import {
   allyTeamByPlayerIdFromInitialization,
+  botProfileByPlayerIdFromInitialization,
   buildCanonicalMatchInitialization,
   hashCanonicalMatchInitialization,
+  victoryConditionFromLobbySettings,
 } from '../game/architecture/CanonicalMatchInitialization';
+import type { SeatBotProfile } from '../game/sim/agentSeat';
 import type { CanonicalServerStateHash } from '../game/architecture/CanonicalStateHash';
 import {
   assertDeterministicLockstepSupported,
@@ -91,13 +99,19 @@ import type { GameConnection } from '../game/server/GameConnection';
 import type { Command } from '../game/sim/commands';
 import type { EntityId, PlayerId } from '../game/sim/types';
 import type { MemberId } from '../types/network';
-import type { MapLandCellDimensions } from '../mapSizeConfig';
+import { MAP_DIMENSION_CONFIG, type MapLandCellDimensions } from '../mapSizeConfig';
 import { presentationSnapshotRateIntervalMs } from '../presentationSnapshotConfig';
 import { createHostGameGenerationSeed } from '../game/network/gameGenerationSeed';
-import type {
-  LiquidSurfaceMode,
-  MetalCoverage,
+import { spectatorDelayFrames } from '../game/network/spectatorDelay';
+import {
+  DEFAULT_LIQUID_SURFACE_MODE,
+  DEFAULT_METAL_COVERAGE,
+  type LiquidSurfaceMode,
+  type MetalCoverage,
 } from '../types/worldSurfaceMode';
+import type { GameServerConfig } from '../types/game';
+import { DEFAULT_VICTORY_CONDITION, type VictoryCondition } from '../types/victoryCondition';
+import type { AuthoredMap } from '../types/authoredMap';
 import {
   normalizeSimulationTickRateHz,
   simulationTicksForDefaultTicks,
@@ -117,11 +131,14 @@ type CreateRealBattleServerOptions = {
   allyTeamCount: number;
   aiPlayerIds?: readonly PlayerId[];
   baseSeatPlayerIds?: readonly PlayerId[];
+  botProfileByPlayerId?: Readonly<Record<number, SeatBotProfile>>;
   gameGenerationSeed: number;
   terrain: RealBattleStartupTerrain;
   converterTax?: number;
   pathfindingCellConsolidationMultiplier?: number;
   simulationTickRateHz?: number;
+  victoryCondition?: VictoryCondition;
+  authoredMap?: AuthoredMap | null;
   onLoadingProgress?: (progress: number, phase?: string) => void | Promise<void>;
 };
 
@@ -198,6 +215,9 @@ type CreateRealBattleBackendOptions = {
    *  replays the archived history from frame 0 up to `grantFrame` before it
    *  is part of the match or renders anything. */
   resume?: RealBattleResumeContext;
+  /** Present when resuming a saved match. The server boots from the save's
+   *  config and adopts its world before the first frame. Offline only. */
+  savedGame?: SimulationSave;
   /** Replay progress while catching up, for the loading overlay. */
   onCatchUpProgress?: (progress: LockstepCatchUpProgress) => void;
   onLoadingProgress?: (progress: number, phase?: string) => void | Promise<void>;
@@ -221,6 +241,10 @@ type CreateRealBattleBackendOptions = {
     markSilent: (playerId: PlayerId) => void,
     markReturned: (playerId: PlayerId) => void,
   ) => void;
+  /** This backend is a dedicated match server's coordinator: no seat, no
+   *  screen. It completes frames for a roster that may be all bots, and it
+   *  builds no presentation snapshots, because nothing would ever draw them. */
+  dedicatedServer?: boolean;
 };
 
 /**
@@ -271,6 +295,8 @@ type RealBattleMatchContext = {
   readonly aiPlayerIds: readonly PlayerId[];
   /** Seats with INITIAL STATE 'base', from the hashed initialization. */
   readonly baseSeatPlayerIds: readonly PlayerId[];
+  /** Bot seat -> difficulty and personality, from the hashed initialization. */
+  readonly botProfileByPlayerId: Readonly<Record<number, SeatBotProfile>>;
 };
 
 type CreateRealBattleMatchContextOptions = {
@@ -320,21 +346,63 @@ export function loadAndApplyRealBattleTerrain(): RealBattleStartupTerrain {
   );
   const metalCoverage = loadStoredMetalCoverage('real');
   const liquidSurfaceMode = loadStoredLiquidSurfaceMode('real');
-  setTerrainRuntimeConfig(terrainRuntimeConfig);
-  setTerrainCenterMagnitude(terrainRuntimeConfig.centerMagnitude);
-  setTerrainRingMagnitude(terrainRuntimeConfig.ringMagnitude);
-  setTerrainDividersMagnitude(terrainRuntimeConfig.dividersMagnitude);
-  setTerrainPerimeterMagnitude(terrainRuntimeConfig.perimeterMagnitude);
-  setTerrainPrecedence(terrainRuntimeConfig.terrainPrecedence);
-  setMetalCoverage(metalCoverage);
-  setLiquidSurfaceMode(liquidSurfaceMode);
-  return {
+  return applyRealBattleTerrain({
     terrainRuntimeConfig,
     mapDimensions,
     mapSize,
     metalCoverage,
     liquidSurfaceMode,
+  });
+}
+
+/** The terrain a recorded or saved match was played on, read back out of
+ *  the GameServerConfig it booted from. Fields the config omitted fall back the
+ *  same way ServerBootstrap resolves them, so the renderer and the replayed
+ *  simulation describe one map. */
+export function loadAndApplyReplayBattleTerrain(
+  config: GameServerConfig,
+): RealBattleStartupTerrain {
+  const current = getTerrainRuntimeConfig();
+  const terrainRuntimeConfig: BattleTerrainRuntimeConfig = {
+    centerMagnitude: config.centerMagnitude ?? current.centerMagnitude,
+    ringMagnitude: config.ringMagnitude ?? current.ringMagnitude,
+    dividersMagnitude: config.dividersMagnitude ?? current.dividersMagnitude,
+    perimeterMagnitude: config.perimeterMagnitude ?? current.perimeterMagnitude,
+    terrainPrecedence: config.terrainPrecedence ?? current.terrainPrecedence,
+    terrainDTerrain: config.terrainDTerrain ?? current.terrainDTerrain,
+    plateauWallSlopeDegrees:
+      config.plateauWallSlopeDegrees ?? current.plateauWallSlopeDegrees,
+    metalDepositStep: config.metalDepositStep ?? current.metalDepositStep,
+    terrainDetail: config.terrainDetail ?? current.terrainDetail,
+  };
+  const mapDimensions: MapLandCellDimensions = {
+    widthLandCells: config.mapWidthLandCells ?? MAP_DIMENSION_CONFIG.width.default,
+    lengthLandCells: config.mapLengthLandCells ?? MAP_DIMENSION_CONFIG.length.default,
   };
+  return applyRealBattleTerrain({
+    terrainRuntimeConfig,
+    mapDimensions,
+    mapSize: getMapSize(
+      config.backgroundMode ?? false,
+      mapDimensions.widthLandCells,
+      mapDimensions.lengthLandCells,
+    ),
+    metalCoverage: config.metalCoverage ?? DEFAULT_METAL_COVERAGE,
+    liquidSurfaceMode: config.liquidSurfaceMode ?? DEFAULT_LIQUID_SURFACE_MODE,
+  });
+}
+
+function applyRealBattleTerrain(terrain: RealBattleStartupTerrain): RealBattleStartupTerrain {
+  const { terrainRuntimeConfig } = terrain;
+  setTerrainRuntimeConfig(terrainRuntimeConfig);
+  setTerrainCenterMagnitude(terrainRuntimeConfig.centerMagnitude);
+  setTerrainRingMagnitude(terrainRuntimeConfig.ringMagnitude);
+  setTerrainDividersMagnitude(terrainRuntimeConfig.dividersMagnitude);
+  setTerrainPerimeterMagnitude(terrainRuntimeConfig.perimeterMagnitude);
+  setTerrainPrecedence(terrainRuntimeConfig.terrainPrecedence);
+  setMetalCoverage(terrain.metalCoverage);
+  setLiquidSurfaceMode(terrain.liquidSurfaceMode);
+  return terrain;
 }
 
 /** The terrain-derived fields shared by every consumer that has to describe a
@@ -373,13 +441,14 @@ export function realBattleTerrainWorldFields(
   };
 }
 
-function buildRealBattleLobbySettingsFromTerrain(
+export function buildRealBattleLobbySettingsFromTerrain(
   terrain: RealBattleStartupTerrain,
 ): LobbySettings {
   return {
     // Presentation only, and the battle is already starting: the name the
     // lobby was listed under has no bearing on the world being built.
     lobbyName: '',
+    spectatorDelaySeconds: 0,
     ...realBattleTerrainWorldFields(terrain),
     entityCountCap: getUnitCap('real'),
     allyTeamCount: BATTLE_CONFIG.allyTeamCount.default,
@@ -390,6 +459,13 @@ function buildRealBattleLobbySettingsFromTerrain(
     slowDownAtFinalWaypoint: loadStoredSlowDownAtFinalWaypoint('real'),
     metalCoverage: terrain.metalCoverage,
     liquidSurfaceMode: terrain.liquidSurfaceMode,
+    // Nothing persists a victory rule: it belongs to one lobby, and a start
+    // without one plays the original last-commander rule.
+    victoryMode: DEFAULT_VICTORY_CONDITION.mode,
+    victoryHoldSeconds: DEFAULT_VICTORY_CONDITION.holdSeconds,
+    victoryTimeLimitSeconds: DEFAULT_VICTORY_CONDITION.timeLimitSeconds,
+    // Likewise a map file: it is loaded into one lobby, never persisted.
+    authoredMap: null,
   };
 }
 
@@ -440,6 +516,7 @@ function createRealBattleMatchContext({
       allyTeamByPlayerId: allyTeamByPlayerIdFromInitialization(battleHandoff.initialization),
       allyTeamCount: battleHandoff.initialization.allyTeamCount,
       aiPlayerIds: battleHandoff.initialization.aiPlayerIds,
+      botProfileByPlayerId: botProfileByPlayerIdFromInitialization(battleHandoff.initialization),
       baseSeatPlayerIds: battleHandoff.initialization.baseSeatPlayerIds,
       settings,
       gameGenerationSeed: battleHandoff.initialization.gameGenerationSeed,
@@ -464,6 +541,7 @@ function createRealBattleMatchContext({
       handoff: battleHandoff,
       aiPlayerIds: battleHandoff.initialization.aiPlayerIds,
       baseSeatPlayerIds: battleHandoff.initialization.baseSeatPlayerIds,
+      botProfileByPlayerId: botProfileByPlayerIdFromInitialization(battleHandoff.initialization),
     };
   }
 
@@ -483,6 +561,7 @@ function createRealBattleMatchContext({
     allyTeamByPlayerId: network?.getAllyTeamByPlayerId(),
     allyTeamCount: network?.lobbyAllyTeamCount() ?? fallbackSettings.allyTeamCount,
     aiPlayerIds,
+    botProfileByPlayerId: network?.getBotProfileByPlayerId(),
     baseSeatPlayerIds,
     settings: fallbackSettings,
     gameGenerationSeed,
@@ -503,6 +582,7 @@ function createRealBattleMatchContext({
     handoff: undefined,
     aiPlayerIds: initialization.aiPlayerIds,
     baseSeatPlayerIds: initialization.baseSeatPlayerIds,
+    botProfileByPlayerId: botProfileByPlayerIdFromInitialization(initialization),
   };
 }
 
@@ -679,11 +759,14 @@ async function createRealBattleServer({
   allyTeamCount,
   aiPlayerIds,
   baseSeatPlayerIds,
+  botProfileByPlayerId,
   gameGenerationSeed,
   terrain,
   converterTax,
   pathfindingCellConsolidationMultiplier,
   simulationTickRateHz,
+  victoryCondition,
+  authoredMap,
   onLoadingProgress,
 }: CreateRealBattleServerOptions): Promise<GameServer> {
   return GameServer.create(
@@ -693,6 +776,7 @@ async function createRealBattleServer({
       allyTeamCount,
       aiPlayerIds: aiPlayerIds === undefined ? undefined : [...aiPlayerIds],
       baseSeatPlayerIds: baseSeatPlayerIds === undefined ? undefined : [...baseSeatPlayerIds],
+      botProfileByPlayerId,
       gameGenerationSeed,
       ...realBattleTerrainWorldFields(terrain),
       metalCoverage: terrain.metalCoverage,
@@ -703,6 +787,8 @@ async function createRealBattleServer({
         loadStoredPathfindingCellConsolidation('real'),
       simulationTickRateHz: simulationTickRateHz ??
         loadStoredSimulationTickRate('real'),
+      victoryCondition,
+      authoredMap,
     },
     {
       onProgress: onLoadingProgress,
@@ -710,6 +796,24 @@ async function createRealBattleServer({
   );
 }
 
+/** A server booted from a save's config, already holding the saved world.
+ *  The lockstep scheduler is created after this, so its first frame is the
+ *  saved tick. */
+async function createSavedBattleServer(
+  savedGame: SimulationSave,
+  config: GameServerConfig,
+  onLoadingProgress: CreateRealBattleBackendOptions['onLoadingProgress'],
+): Promise<GameServer> {
+  const server = await GameServer.create(config, { onProgress: onLoadingProgress });
+  try {
+    server.loadSimulationSave(savedGame);
+  } catch (err) {
+    server.stop();
+    throw err;
+  }
+  return server;
+}
+
 export function createDeterministicLockstepBackend(
   options: CreateRealBattleBackendOptions,
 ): Promise<RealBattleBackendRuntime> {
@@ -731,12 +835,14 @@ async function createDeterministicLockstepBackendRuntime({
   network,
   battleHandoff,
   resume,
+  savedGame,
   onCatchUpProgress,
   onLoadingProgress,
   onPeerFrameReport,
   onFlowControlChange,
   onLockstepHaltChange,
   registerSilentPlayer,
+  dedicatedServer = false,
 }: CreateRealBattleBackendOptions): Promise<RealBattleBackendRuntime> {
   const matchContext = createRealBattleMatchContext({
     playerIds,
@@ -758,28 +864,40 @@ async function createDeterministicLockstepBackendRuntime({
     localPlayerId,
     networkRole,
     battleKind: 'real',
+    dedicatedServer,
   });
   const botPlayerIdSet = new Set<PlayerId>(matchContext.aiPlayerIds);
   // The HUMAN seats: the completion/ack/checksum/ready universe. Bots hold
   // seats in the SIM roster but no connection ever answers for them, so
   // waiting on one would wait forever.
   const humanPlayerIds = playerIds.filter((playerId) => !botPlayerIdSet.has(playerId));
-  const server = await createRealBattleServer({
+  if (savedGame !== undefined && networkRole !== null) {
+    throw new Error('[simulation save] a saved match can only be resumed offline');
+  }
+  const savedGameConfig = savedGame === undefined
+    ? undefined
+    : simulationSaveGameServerConfig(savedGame);
+  const server = savedGame !== undefined && savedGameConfig !== undefined
+    ? await createSavedBattleServer(savedGame, savedGameConfig, onLoadingProgress)
+    : await createRealBattleServer({
     playerIds,
     allyTeamByPlayerId: matchContext.allyTeamByPlayerId,
     allyTeamCount: matchContext.allyTeamCount,
     aiPlayerIds: matchContext.aiPlayerIds,
     baseSeatPlayerIds: matchContext.baseSeatPlayerIds,
+    botProfileByPlayerId: matchContext.botProfileByPlayerId,
     gameGenerationSeed: matchContext.gameGenerationSeed,
     terrain,
     converterTax: matchContext.settings.converterTax,
     pathfindingCellConsolidationMultiplier:
       matchContext.settings.pathfindingCellConsolidationMultiplier,
     simulationTickRateHz: matchContext.settings.simulationTickRateHz,
+    victoryCondition: victoryConditionFromLobbySettings(matchContext.settings),
+    authoredMap: matchContext.settings.authoredMap,
     onLoadingProgress,
   });
   const lockstepCore = server.getLockstepSimulationCore();
-  if (import.meta.env.DEV) {
+  if (import.meta.env.DEV && typeof window !== 'undefined') {
     // Desync forensics: while the match is HALTED (lockstep pause stops every
     // peer on the same frame), pages can be asked for a full state hash and
     // compared offline. Dev-only window hook; never part of gameplay.
@@ -806,7 +924,7 @@ async function createDeterministicLockstepBackendRuntime({
   const initializationHash = matchContext.initializationHash;
   const initialEntityCountCap = matchContext.settings.entityCountCap ?? getUnitCap('real');
   const simulationTickRateHz = normalizeSimulationTickRateHz(
-    matchContext.settings.simulationTickRateHz,
+    savedGameConfig?.simulationTickRateHz ?? matchContext.settings.simulationTickRateHz,
   );
   const lockstepFixedDtMs = 1000 / simulationTickRateHz;
   const lockstepInputDelayTicks = simulationTicksForDefaultTicks(
@@ -817,6 +935,14 @@ async function createDeterministicLockstepBackendRuntime({
     simulationTickRateHz,
     ARCHITECTURE_CONFIG.lockstep.checksumIntervalTicks,
   );
+  if (isOnlineLockstep && isFrameCoordinator) {
+    // Watchers trail the live frame by the host's delay. The transport holds
+    // their frames back; everything else addressed to a watcher below — the
+    // resume grant, history, resends — stops at the same ceiling.
+    network?.getLockstepTransport().setSpectatorDelayFrames(
+      spectatorDelayFrames(matchContext.settings.spectatorDelaySeconds, simulationTickRateHz),
+    );
+  }
   /**
    * Which id this peer's own checksums are filed under.
    *
@@ -915,8 +1041,23 @@ async function createDeterministicLockstepBackendRuntime({
    * Coordinator only — a client has no history to serve.
    */
   const commandArchive = new MatchCommandArchive();
-  /** Joiners currently being served history, and how far each has been sent. */
-  const historyStreams = new Map<MemberId, { nextFrame: number }>();
+  if (import.meta.env.DEV && typeof window !== 'undefined') {
+    // Desync bisection inputs: the report from any peer plus the
+    // coordinator's archive, saved to files for scripts/desyncBisection.mjs.
+    (window as unknown as Record<string, unknown>).__baDesyncReport = () =>
+      desyncMonitor?.getReport() ?? null;
+    (window as unknown as Record<string, unknown>).__baMatchCommandArchive = () =>
+      commandArchive.export({
+        initializationHash,
+        hostPlayerId: matchContext.hostPlayerId,
+        fixedDtMs: lockstepFixedDtMs,
+        config: server.getBootConfig(),
+      });
+  }
+  /** Joiners currently being served history, and how far each has been sent.
+   *  A watcher's stream stops at the spectator ceiling; the delayed live
+   *  stream carries on from there. */
+  const historyStreams = new Map<MemberId, { nextFrame: number; watching: boolean }>();
   /**
    * Set on a peer that is REPLAYING its way into a match already in progress.
    *
@@ -1267,8 +1408,12 @@ async function createDeterministicLockstepBackendRuntime({
   const pumpHistoryStreams = (): void => {
     if (!isFrameCoordinator || network === undefined || historyStreams.size === 0) return;
     const transport = network.getLockstepTransport();
-    const throughFrame = commandArchive.getThroughFrame();
+    const liveThroughFrame = commandArchive.getThroughFrame();
+    const spectatorCeiling = transport.getSpectatorCommandFrameCeiling();
     for (const [memberId, stream] of historyStreams) {
+      const throughFrame = stream.watching && spectatorCeiling !== null
+        ? Math.min(liveThroughFrame, spectatorCeiling)
+        : liveThroughFrame;
       const chunkEnd = Math.min(throughFrame, stream.nextFrame + LOCKSTEP_HISTORY_CHUNK_FRAMES - 1);
       if (chunkEnd < stream.nextFrame) {
         historyStreams.delete(memberId);
@@ -1472,18 +1617,30 @@ async function createDeterministicLockstepBackendRuntime({
             // nobody could have been admitted to it in the first place.
             break;
           }
-          const grantFrame = scheduler.getDiagnostics().nextFrame;
-          const verify = desyncMonitor?.getLatestLocalChecksum() ?? null;
+          // A watcher under a spectator delay is let in at the delayed frame,
+          // not the live one: its replay target, its history and the
+          // checksum it verifies against all stop at the ceiling.
+          const spectatorCeiling = fromPlayerId === undefined
+            ? network.getLockstepTransport().getSpectatorCommandFrameCeiling()
+            : null;
+          const liveNextFrame = scheduler.getDiagnostics().nextFrame;
+          const grantFrame = spectatorCeiling === null
+            ? liveNextFrame
+            : Math.min(liveNextFrame, spectatorCeiling + 1);
+          const verify = desyncMonitor?.getLatestLocalChecksum(grantFrame) ?? null;
           network.getLockstepTransport().sendResumeGrant(from.memberId, {
             memberId: from.memberId,
             handoff: resumeHandoff,
             grantFrame,
-            archiveThroughFrame: commandArchive.getThroughFrame(),
+            archiveThroughFrame: spectatorCeiling === null
+              ? commandArchive.getThroughFrame()
+              : Math.min(commandArchive.getThroughFrame(), spectatorCeiling),
             verifyFrame: verify?.frame ?? -1,
             verifyStateHash: verify?.stateHash ?? null,
           });
           historyStreams.set(from.memberId, {
             nextFrame: Math.max(0, message.haveThroughFrame + 1),
+            watching: spectatorCeiling !== null,
           });
         }
         break;
@@ -1516,7 +1673,11 @@ async function createDeterministicLockstepBackendRuntime({
             LOCKSTEP_COORDINATOR_RESEND_FRAME_LIMIT,
           );
           frameResendCount += resent;
-          if (resent === 0) {
+          // A delayed watcher asking past its ceiling is waiting, not lost:
+          // the frames it wants are held on purpose.
+          const heldForWatcher = fromPlayerId === undefined &&
+            network.getLockstepTransport().getSpectatorCommandFrameCeiling() !== null;
+          if (resent === 0 && !heldForWatcher) {
             console.warn('[LOCKSTEP] resync request could not resend command frames', {
               fromMemberId: from.memberId,
               fromPlayerId,
@@ -1787,7 +1948,9 @@ async function createDeterministicLockstepBackendRuntime({
         );
       }
       if (frameBatch.length > 0) {
-        network?.getLockstepTransport().broadcastCommandFrameBatch(frameBatch);
+        const transport = network?.getLockstepTransport();
+        transport?.broadcastCommandFrameBatch(frameBatch);
+        transport?.releaseSpectatorCommandFrames(startFrame + frameBudget);
       }
     }
     const advanceResult = scheduler.advanceReadyFrames(LOCKSTEP_MAX_PUMP_ADVANCE_FRAMES);
@@ -1807,15 +1970,18 @@ async function createDeterministicLockstepBackendRuntime({
       // Lockstep snapshots are local presentation only. Gate them separately
       // from command-frame simulation so full-state serialization cannot cap
       // render cadence or command-frame catch-up under high unit counts.
-      if (nowMs - lastLockstepPresentationSnapshotMs >= lockstepPresentationSnapshotIntervalMs) {
-        const snapshotStartMs = performance.now();
-        const didEmitSnapshot = server.emitLockstepPresentationSnapshot();
-        lastLockstepPresentationSnapshotMs = snapshotStartMs;
-        if (didEmitSnapshot) recordSnapshotMs('rich', performance.now() - snapshotStartMs);
-      } else {
-        const snapshotStartMs = performance.now();
-        if (server.emitLockstepProjectileDeltaSnapshotIfNeeded()) {
-          recordSnapshotMs('delta', performance.now() - snapshotStartMs);
+      // A dedicated server has nothing to render, so it builds none.
+      if (!dedicatedServer) {
+        if (nowMs - lastLockstepPresentationSnapshotMs >= lockstepPresentationSnapshotIntervalMs) {
+          const snapshotStartMs = performance.now();
+          const didEmitSnapshot = server.emitLockstepPresentationSnapshot();
+          lastLockstepPresentationSnapshotMs = snapshotStartMs;
+          if (didEmitSnapshot) recordSnapshotMs('rich', performance.now() - snapshotStartMs);
+        } else {
+          const snapshotStartMs = performance.now();
+          if (server.emitLockstepProjectileDeltaSnapshotIfNeeded()) {
+            recordSnapshotMs('delta', performance.now() - snapshotStartMs);
+          }
         }
       }
     }
@@ -1861,10 +2027,12 @@ async function createDeterministicLockstepBackendRuntime({
           startFrame,
         );
       }
-      const snapshotStartMs = performance.now();
-      server.startLockstepPresentation();
-      recordSnapshotMs('rich', performance.now() - snapshotStartMs);
-      lastLockstepPresentationSnapshotMs = performance.now();
+      if (!dedicatedServer) {
+        const snapshotStartMs = performance.now();
+        server.startLockstepPresentation();
+        recordSnapshotMs('rich', performance.now() - snapshotStartMs);
+        lastLockstepPresentationSnapshotMs = performance.now();
+      }
       pumpTimer = setInterval(pumpFrame, lockstepFixedDtMs);
       if (typeof window !== 'undefined' && typeof document !== 'undefined') {
         browserResumePumpHandler = () => {
@@ -0,0 +1,388 @@
+import { ARCHITECTURE_CONFIG } from '../architectureConfig';
+import { presentationSnapshotRateIntervalMs } from '../presentationSnapshotConfig';
+import { classifyCommandForArchitecture } from '../game/architecture/LockstepCommandProtocol';
+import { GameServer } from '../game/server/GameServer';
+import { LocalGameConnection } from '../game/server/LocalGameConnection';
+import {
+  ReplayPlayback,
+  replayGameServerConfig,
+  type ReplayCheckpointLog,
+} from '../game/server/ReplayPlayback';
+import type { BudgetReplayFile } from '../game/server/ReplayRecorder';
+import { resolveTeamRoster, getAllyTeamId } from '../game/sim/teamRoster';
+import type { Command } from '../game/sim/commands';
+import type { PlayerId } from '../game/sim/types';
+import type { GameServerConfig } from '../types/game';
+import type { LobbyPlayer } from '../types/network';
+import { getDefaultPlayerName } from '@/playerNamesConfig';
+import type { RealBattleBackendRuntime } from './gameCanvasRealBattleStartup';
+
+export { replayGameServerConfig };
+
+/** Playback rates the replay bar steps through. Above 1x the pump simply runs
+ *  more fixed steps per frame, up to its time budget. */
+export const REPLAY_PLAYBACK_SPEEDS: readonly number[] = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+/** Time the replay may spend stepping per pump. A speed the machine cannot
+ *  reach runs as fast as this allows instead of freezing the tab. */
+const REPLAY_PUMP_BUDGET_MS = 12;
+
+/** Time a seek may spend resimulating before it yields — to the page while
+ *  playing, to the loading overlay while booting. Longer than the pump budget
+ *  because nothing is being presented meanwhile. */
+const REPLAY_SEEK_SLICE_MS = 40;
+
+/** Share of the loading bar the server boot takes when a seek follows it. */
+const REPLAY_BOOT_PROGRESS_SHARE = 0.5;
+
+export type ReplayPlaybackState = {
+  readonly tick: number;
+  readonly finalTick: number;
+  readonly tickRateHz: number;
+  readonly paused: boolean;
+  readonly speed: number;
+  /** Every recorded command has been played and the final tick reached. */
+  readonly finished: boolean;
+  /** Where an in-progress forward seek is headed, or null. */
+  readonly seekTargetTick: number | null;
+  /** Why playback stopped early — a checkpoint the rerun disagreed with. */
+  readonly error: string | null;
+};
+
+export type ReplayPlaybackControls = {
+  getState(): ReplayPlaybackState;
+  setPaused(paused: boolean): void;
+  togglePaused(): void;
+  setSpeed(speed: number): void;
+  /** Step to the next slower (-1) or faster (1) playback rate. */
+  stepSpeed(direction: 1 | -1): void;
+  /** Jump to `tick`. Forward is resimulated in place; backward needs a fresh
+   *  world restored from a checkpoint image, so it is handed to the source's
+   *  `onRewind`. */
+  seek(tick: number): void;
+  /** Re-present the current tick — a paused replay emits nothing on its
+   *  own, so a perspective change would otherwise wait for play. */
+  refreshView(): void;
+};
+
+export type ReplayBattleSource = {
+  readonly file: BudgetReplayFile;
+  /** Tick to reach, headlessly, before the first frame is shown: the latest
+   *  checkpoint image at or before it is adopted and the rest resimulated. */
+  readonly startTick: number;
+  /** Checkpoint images shared by every playback of this file. */
+  readonly checkpoints: ReplayCheckpointLog;
+  /** Receives the controls once the backend exists, and null when it stops. */
+  readonly bindControls: (controls: ReplayPlaybackControls | null) => void;
+  readonly onStateChange: (state: ReplayPlaybackState) => void;
+  /** A seek to before the current tick: the battle must be booted again at
+   *  `tick`, from the latest checkpoint image before it. */
+  readonly onRewind: (tick: number) => void;
+};
+
+type CreateReplayBattleBackendOptions = {
+  source: ReplayBattleSource;
+  config: GameServerConfig;
+  localIpAddress: string;
+  onLoadingProgress?: (progress: number, phase?: string) => void | Promise<void>;
+};
+
+/** The recorded match's seats, shaped like a roster so the watcher chrome
+ *  (view bar, team overlay, names) works on a replay unchanged. A replay
+ *  carries no names, so seats read as their defaults. */
+export function replayLobbyPlayers(replay: BudgetReplayFile): LobbyPlayer[] {
+  return recordedMatchLobbyPlayers(replay.playerIds, replayGameServerConfig(replay));
+}
+
+/** The roster of a match that exists only as a file — a replay or a save —
+ *  rebuilt from the config it booted with. */
+export function recordedMatchLobbyPlayers(
+  playerIds: readonly PlayerId[],
+  config: GameServerConfig,
+): LobbyPlayer[] {
+  const roster = resolveTeamRoster(playerIds, {
+    allyTeamCount: config.allyTeamCount,
+    allyTeamSeats: config.allyTeamSeats,
+    allyTeamByPlayerId: config.allyTeamByPlayerId,
+  });
+  const botPlayerIds = new Set<PlayerId>(config.aiPlayerIds ?? []);
+  return playerIds.map((playerId) => ({
+    playerId,
+    name: botPlayerIds.has(playerId) ? `BOT ${playerId}` : getDefaultPlayerName(playerId),
+    isHost: false,
+    isBot: botPlayerIds.has(playerId),
+    allyTeamId: getAllyTeamId(roster, playerId),
+    ipAddress: undefined,
+    location: undefined,
+    timezone: undefined,
+    localTime: undefined,
+  }));
+}
+
+function nearestReplaySpeed(speed: number): number {
+  let selected = REPLAY_PLAYBACK_SPEEDS[0];
+  for (const candidate of REPLAY_PLAYBACK_SPEEDS) {
+    if (Math.abs(candidate - speed) < Math.abs(selected - speed)) selected = candidate;
+  }
+  return selected;
+}
+
+/**
+ * Boot a recorded match and play it back in real time.
+ *
+ * Shaped like the lockstep backend so the battle start path, the scene and
+ * the teardown are the ordinary ones: a GameServer that never runs its own
+ * tick loop, a local connection for presentation, and a pump that advances
+ * fixed steps. The difference is where each step's commands come from — the
+ * replay's log instead of a frame scheduler — and that nothing typed by the
+ * viewer can reach the world.
+ */
+export async function createReplayBattleBackend({
+  source,
+  config,
+  localIpAddress,
+  onLoadingProgress,
+}: CreateReplayBattleBackendOptions): Promise<RealBattleBackendRuntime> {
+  const seeksOnBoot = source.startTick > 0;
+  const server = await GameServer.create(config, {
+    onProgress: seeksOnBoot && onLoadingProgress !== undefined
+      ? (progress, phase) => onLoadingProgress(progress * REPLAY_BOOT_PROGRESS_SHARE, phase)
+      : onLoadingProgress,
+  });
+  const playback = new ReplayPlayback(server, source.file, source.checkpoints);
+  const tickRateHz = server.getLockstepSimulationCore().world.simulationTickRateHz;
+  const presentationSnapshotIntervalMs = presentationSnapshotRateIntervalMs(
+    ARCHITECTURE_CONFIG.lockstep.presentationSnapshots.nominalSnapshotRateHz,
+  );
+  let paused = false;
+  let speed = 1;
+  let accumulatorMs = 0;
+  let lastPumpMs: number | null = null;
+  let lastPresentationSnapshotMs = Number.NEGATIVE_INFINITY;
+  let viewRefreshRequested = false;
+  let seekTargetTick: number | null = null;
+  let error: string | null = null;
+  let pumpTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Run `advance` and park playback on whatever it throws — a checkpoint
+   *  mismatch is the only thing a replay step reports, and the world it
+   *  leaves behind is still worth looking at. */
+  function guardPlayback<T>(advance: () => T, fallback: T): T {
+    try {
+      return advance();
+    } catch (err) {
+      error = (err as Error).message;
+      paused = true;
+      seekTargetTick = null;
+      viewRefreshRequested = true;
+      return fallback;
+    }
+  }
+
+  // A rewind boots a fresh world: adopt the latest checkpoint image at or
+  // before the requested tick, then resimulate only the remainder while the
+  // loading overlay is up, yielding to it between slices.
+  if (seeksOnBoot) {
+    const target = Math.min(source.startTick, playback.finalTick);
+    const restoredTick = guardPlayback(() => playback.restoreCheckpoint(target), 0);
+    const span = Math.max(1, target - restoredTick);
+    while (playback.getTick() < target && error === null) {
+      const deadlineMs = performance.now() + REPLAY_SEEK_SLICE_MS;
+      guardPlayback(() => playback.fastForward(target, () => performance.now() >= deadlineMs), 0);
+      await onLoadingProgress?.(
+        REPLAY_BOOT_PROGRESS_SHARE +
+          (1 - REPLAY_BOOT_PROGRESS_SHARE) * ((playback.getTick() - restoredTick) / span),
+        'Seeking replay',
+      );
+    }
+  }
+
+  function getState(): ReplayPlaybackState {
+    const finished = playback.isAtEnd();
+    return {
+      tick: playback.getTick(),
+      finalTick: playback.finalTick,
+      tickRateHz,
+      paused: paused || finished,
+      speed,
+      finished,
+      seekTargetTick,
+      error,
+    };
+  }
+
+  function publishState(): void {
+    source.onStateChange(getState());
+  }
+
+  const controls: ReplayPlaybackControls = {
+    getState,
+    setPaused(next) {
+      if (!next && error !== null) return;
+      paused = next;
+      accumulatorMs = 0;
+      publishState();
+    },
+    togglePaused() {
+      controls.setPaused(!paused);
+    },
+    setSpeed(next) {
+      speed = nearestReplaySpeed(next);
+      publishState();
+    },
+    stepSpeed(direction) {
+      const index = REPLAY_PLAYBACK_SPEEDS.indexOf(speed);
+      const nextIndex = Math.max(0, Math.min(REPLAY_PLAYBACK_SPEEDS.length - 1, index + direction));
+      controls.setSpeed(REPLAY_PLAYBACK_SPEEDS[nextIndex]);
+    },
+    seek(tick) {
+      const target = Math.max(0, Math.min(playback.finalTick, Math.round(tick)));
+      if (target < playback.getTick()) {
+        source.onRewind(target);
+        return;
+      }
+      seekTargetTick = target > playback.getTick() ? target : null;
+      publishState();
+    },
+    refreshView() {
+      viewRefreshRequested = true;
+    },
+  };
+
+  // The viewer holds no seat. Selection and inspection stay local, the clock
+  // commands drive playback, and everything else is refused at the doorway:
+  // a replay's world is the recording's, not the viewer's.
+  const commandDoorway = (command: Command): boolean => {
+    if (command.type === 'setPaused') {
+      controls.setPaused(command.paused);
+      return true;
+    }
+    if (command.type === 'adjustGameSpeed') {
+      controls.stepSpeed(command.direction);
+      return true;
+    }
+    if (classifyCommandForArchitecture(command) !== 'local-presentation') return true;
+    const world = server.getLockstepSimulationCore().world;
+    if (command.type === 'select') {
+      if (!command.additive) world.clearSelection();
+      world.selectEntities(command.entityIds);
+      return true;
+    }
+    if (command.type === 'clearSelection') {
+      world.clearSelection();
+      return true;
+    }
+    server.receiveCommand(command, { mode: 'host-admin' });
+    return true;
+  };
+  const gameConnection = new LocalGameConnection(server, undefined, 'local-offline', {
+    commandDoorway,
+    loopbackSnapshotsThroughWire: false,
+    recordSnapshotWireCost: false,
+    directLocalSnapshotMaterialization: true,
+    sharesAuthoritativeState: true,
+  });
+
+  const pumpFrame = (): void => {
+    const nowMs = performance.now();
+    const elapsedMs = lastPumpMs === null ? 0 : Math.max(0, nowMs - lastPumpMs);
+    lastPumpMs = nowMs;
+    if (seekTargetTick !== null) {
+      // A forward seek runs flat out and shows nothing until it lands: the
+      // frames in between are exactly the ones the viewer asked to skip.
+      const target = seekTargetTick;
+      const deadlineMs = nowMs + REPLAY_SEEK_SLICE_MS;
+      const stepsRun = guardPlayback(
+        () => playback.fastForward(target, () => performance.now() >= deadlineMs),
+        0,
+      );
+      if (stepsRun > 0) {
+        server.recordExternalSimulationTelemetry({
+          elapsedMs: Math.max(0.001, elapsedMs),
+          stepsRun,
+          workMs: (performance.now() - nowMs) / stepsRun,
+          tickRateHz,
+        });
+      }
+      if (seekTargetTick !== null && playback.getTick() < target) {
+        publishState();
+        return;
+      }
+      seekTargetTick = null;
+      accumulatorMs = 0;
+      viewRefreshRequested = true;
+    }
+    if (paused || playback.isAtEnd()) {
+      accumulatorMs = 0;
+      if (viewRefreshRequested) {
+        viewRefreshRequested = false;
+        server.emitLockstepPresentationSnapshot();
+        lastPresentationSnapshotMs = nowMs;
+        publishState();
+      }
+      return;
+    }
+
+    const fixedDtMs = playback.getFixedDtMs();
+    accumulatorMs += elapsedMs * speed;
+    const deadlineMs = nowMs + REPLAY_PUMP_BUDGET_MS;
+    let stepsRun = 0;
+    while (accumulatorMs >= fixedDtMs && performance.now() < deadlineMs) {
+      if (!guardPlayback(() => playback.stepTick(), false)) break;
+      accumulatorMs -= fixedDtMs;
+      stepsRun++;
+    }
+    // Time the budget could not cover is dropped, not owed: a replay asked to
+    // run faster than the machine can manage just runs as fast as it can.
+    accumulatorMs = Math.min(accumulatorMs, fixedDtMs);
+    if (stepsRun === 0 && !viewRefreshRequested) return;
+
+    if (stepsRun > 0) {
+      server.recordExternalSimulationTelemetry({
+        elapsedMs: Math.max(0.001, elapsedMs),
+        stepsRun,
+        workMs: (performance.now() - nowMs) / stepsRun,
+        tickRateHz,
+      });
+    }
+    if (
+      viewRefreshRequested ||
+      nowMs - lastPresentationSnapshotMs >= presentationSnapshotIntervalMs ||
+      playback.isAtEnd()
+    ) {
+      viewRefreshRequested = false;
+      server.emitLockstepPresentationSnapshot();
+      lastPresentationSnapshotMs = nowMs;
+    } else {
+      server.emitLockstepProjectileDeltaSnapshotIfNeeded();
+    }
+    publishState();
+  };
+
+  return {
+    server,
+    allyTeamByPlayerId: config.allyTeamByPlayerId,
+    allyTeamCount: config.allyTeamCount,
+    gameConnection,
+    start() {
+      server.setIpAddress(localIpAddress);
+      server.startLockstepPresentation();
+      lastPresentationSnapshotMs = performance.now();
+      source.bindControls(controls);
+      publishState();
+      pumpTimer = setInterval(pumpFrame, playback.getFixedDtMs());
+    },
+    stop() {
+      if (pumpTimer !== null) {
+        clearInterval(pumpTimer);
+        pumpTimer = null;
+      }
+      source.bindControls(null);
+      gameConnection.disconnect();
+      server.stop();
+    },
+    getDiagnostics() {
+      return { networkRole: null };
+    },
+  };
+}
@@ -1,9 +1,10 @@
 import { reactive, ref, shallowReactive, type Ref } from 'vue';
 import type { GameScene } from '@/types/game';
 import type { GamePhase, NetworkServerSnapshotMeta } from '@/types/network';
-import type { EconomyInfo, MinimapData, SelectionActions, SelectionInfo } from '@/types/ui';
+import type { EconomyInfo, GameAlert, MinimapData, SelectionActions, SelectionInfo } from '@/types/ui';
 import type { BackgroundBattleState } from '../game/lobby/LobbyManager';
 import type { PlayerId } from '../game/sim/types';
+import type { GameOverReason } from '../types/victoryCondition';
 import {
   applyMinimapCameraQuad,
   applyMinimapContentData,
@@ -16,6 +17,9 @@ import type { IdleBuilderGroupInfo } from '../game/scenes/helpers';
 type UseGameCanvasSceneUiOptions = {
   activePlayer: Ref<PlayerId>;
   gameOverWinner: Ref<PlayerId | null>;
+  /** Why the match ended; null while it runs, and when the end arrived in
+   *  a snapshot, which does not carry one. */
+  gameOverReason: Ref<GameOverReason | null>;
   serverMetaFromSnapshot: Ref<NetworkServerSnapshotMeta | null>;
   foregroundGame: GameCanvasForegroundGame;
   getBackgroundBattle: () => BackgroundBattleState | null;
@@ -78,6 +82,7 @@ function cloneServerMeta(meta: NetworkServerSnapshotMeta): NetworkServerSnapshot
 export function useGameCanvasSceneUi({
   activePlayer,
   gameOverWinner,
+  gameOverReason,
   serverMetaFromSnapshot,
   foregroundGame,
   getBackgroundBattle,
@@ -93,6 +98,14 @@ export function useGameCanvasSceneUi({
     allowedBuildBlueprintIds: [],
     canUpgradeMetalExtractors: false,
     hasUpgradeableMetalExtractor: false,
+    hasMorphControl: false,
+    morphTargetLabel: null,
+    morphProgress: null,
+    hasStockpileControl: false,
+    stockpileStock: 0,
+    stockpileQueued: 0,
+    stockpileMax: 0,
+    stockpileProgress: null,
     hasDGun: false,
     hasBarAttackControl: false,
     hasBarCaptureControl: false,
@@ -121,6 +134,7 @@ export function useGameCanvasSceneUi({
     hasReclaimableSelection: false,
     hasTowerTargetControl: false,
     hasManualLaunchControl: false,
+    hasStrategicMissileControl: false,
     hasTowerTargetActive: false,
     isTowerTargetMode: false,
     isTowerTargetNoGroundMode: false,
@@ -137,6 +151,7 @@ export function useGameCanvasSceneUi({
     factoryHostKind: null,
     factoryDisplayName: null,
     factoryAllowedUnitBlueprintIds: [],
+    lockedBlueprintReasons: {},
     factoryId: undefined,
     factoryPresetOverlayVisible: false,
     commanderId: undefined,
@@ -203,6 +218,10 @@ export function useGameCanvasSceneUi({
    *  so replacing the ref wholesale stays cheap. */
   const idleBuilders = ref<IdleBuilderGroupInfo[]>([]);
 
+  /** Live alert toasts. The scene publishes a fresh array only when an
+   *  alert is raised or expires. */
+  const alerts = ref<GameAlert[]>([]);
+
   /** Authoritative game phase from snapshots — drives the HUD pause
    *  toggle/indicator. */
   const gamePhase = ref<GamePhase>('init');
@@ -227,6 +246,9 @@ export function useGameCanvasSceneUi({
       onMinimapUpdate: (data) => {
         applyMinimapContentData(minimapData, data);
       },
+      onAlertsChange: (nextAlerts) => {
+        alerts.value = nextAlerts;
+      },
       onCameraQuadUpdate: (quad, cameraYaw, cameraPitch, cameraView) => {
         applyMinimapCameraQuad(minimapData, quad, cameraYaw, cameraPitch, cameraView);
       },
@@ -235,11 +257,13 @@ export function useGameCanvasSceneUi({
       },
       ...(includeGameLifecycle
         ? {
-            onGameOver: (winnerId: PlayerId) => {
+            onGameOver: (winnerId: PlayerId, reason?: GameOverReason) => {
               gameOverWinner.value = winnerId;
+              gameOverReason.value = reason ?? null;
             },
             onGameRestart: () => {
               gameOverWinner.value = null;
+              gameOverReason.value = null;
             },
           }
         : {}),
@@ -262,6 +286,11 @@ export function useGameCanvasSceneUi({
     getActiveBattleScene()?.centerCameraOn(x, y);
   }
 
+  function focusAlert(alert: GameAlert): void {
+    if (alert.pos === null) return;
+    getActiveBattleScene()?.centerCameraOn(alert.pos.x, alert.pos.y);
+  }
+
   // Idle-builders panel chip interactions (BAR gui_idle_builders):
   // left-click cycles + selects + centers, Shift+click adds all of the
   // type to the selection, right-click centers without selecting.
@@ -341,6 +370,9 @@ export function useGameCanvasSceneUi({
     selfDestructSelected: () => {
       getActiveBattleScene()?.selfDestructSelected();
     },
+    giveSelectedToPlayer: (targetPlayerId) => {
+      getActiveBattleScene()?.giveSelectedToPlayer(targetPlayerId);
+    },
     selectOnlyEntityType: (entityType) => {
       getActiveBattleScene()?.selectOnlyEntityType(entityType);
     },
@@ -431,6 +463,12 @@ export function useGameCanvasSceneUi({
     upgradeSelectedMetalExtractors: () => {
       getActiveBattleScene()?.upgradeSelectedMetalExtractors();
     },
+    toggleSelectedMorph: () => {
+      getActiveBattleScene()?.toggleSelectedMorph();
+    },
+    queueSelectedStockpile: (delta) => {
+      getActiveBattleScene()?.queueSelectedStockpile(delta);
+    },
     togglePing: () => {
       getActiveBattleScene()?.togglePingMode();
     },
@@ -525,10 +563,12 @@ export function useGameCanvasSceneUi({
     economyInfo,
     minimapData,
     idleBuilders,
+    alerts,
     bindGameSceneUi,
     togglePlayer,
     handleMinimapClick,
     handleMinimapCommand,
+    focusAlert,
     cycleIdleBuilder,
     addIdleBuildersToSelection,
     focusIdleBuilder,
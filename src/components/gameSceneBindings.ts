@@ -1,7 +1,8 @@
 import type { GameScene } from '@/types/game';
 import type { PlayerId } from '@/types/sim';
-import type { CameraViewBasis, EconomyInfo, MinimapData, SelectionInfo } from '@/types/ui';
+import type { CameraViewBasis, EconomyInfo, GameAlert, MinimapData, SelectionInfo } from '@/types/ui';
 import type { GamePhase, NetworkServerSnapshotMeta } from '@/types/network';
+import type { GameOverReason } from '@/types/victoryCondition';
 import type { IdleBuilderGroupInfo } from '../game/scenes/helpers';
 
 type SceneUiBindings = {
@@ -10,6 +11,7 @@ type SceneUiBindings = {
   onEconomyChange: (info: EconomyInfo) => void;
   onIdleBuildersChange: (groups: IdleBuilderGroupInfo[]) => void;
   onMinimapUpdate: (data: MinimapData) => void;
+  onAlertsChange: (alerts: GameAlert[]) => void;
   onCameraQuadUpdate: (
     quad: MinimapData['cameraQuad'],
     cameraYaw: number,
@@ -18,7 +20,7 @@ type SceneUiBindings = {
   ) => void;
   onServerMetaUpdate: (meta: NetworkServerSnapshotMeta) => void;
   onGamePhaseChange?: (phase: GamePhase) => void;
-  onGameOver?: (winnerId: PlayerId) => void;
+  onGameOver?: (winnerId: PlayerId, reason?: GameOverReason) => void;
   onGameRestart?: () => void;
 };
 
@@ -31,6 +33,7 @@ export function bindSceneUiCallbacks(
   scene.onEconomyChange = bindings.onEconomyChange;
   scene.onIdleBuildersChange = bindings.onIdleBuildersChange;
   scene.onMinimapUpdate = bindings.onMinimapUpdate;
+  scene.onAlertsChange = bindings.onAlertsChange;
   scene.onCameraQuadUpdate = bindings.onCameraQuadUpdate;
   scene.onServerMetaUpdate = bindings.onServerMetaUpdate;
   if (bindings.onGamePhaseChange) scene.onGamePhaseChange = bindings.onGamePhaseChange;
@@ -176,6 +176,16 @@ function buildBuildingFunctionItems(blueprint: BuildingBlueprint): LoadingUnitIn
   if (blueprint.conversionRate) items.push(stat('Conversion rate', `${fmt(blueprint.conversionRate)}/s`));
   if (blueprint.energyStorage) items.push(stat('Energy capacity', `+${fmt(blueprint.energyStorage)}`));
   if (blueprint.metalStorage) items.push(stat('Metal capacity', `+${fmt(blueprint.metalStorage)}`));
+  if (blueprint.strategicMissile) {
+    items.push(stat('Missile range', fmt(blueprint.strategicMissile.range)));
+    items.push(stat('Warhead damage', fmt(blueprint.strategicMissile.explosion.damage)));
+  }
+  if (blueprint.missileInterceptor) {
+    items.push(stat('Interceptor coverage', fmt(blueprint.missileInterceptor.coverageRadius)));
+  }
+  if (blueprint.stockpile) {
+    items.push(stat('Stockpile', `${blueprint.stockpile.maxStock} rounds, ${fmt(blueprint.stockpile.durationMs / 1000)}s each`));
+  }
   return items;
 }
 
@@ -192,6 +202,8 @@ function summarizeBuildingRole(
   if (blueprint.buildingBlueprintId === 'buildingSonar') return 'sonar';
   if (blueprint.buildingBlueprintId === 'buildingRadarJammer') return 'radar jammer';
   if (blueprint.buildingBlueprintId === 'buildingSonarJammer') return 'sonar jammer';
+  if (blueprint.strategicMissile) return 'missile silo';
+  if (blueprint.missileInterceptor) return 'missile defense';
   if (blueprint.energyStorage) return 'energy storage';
   if (blueprint.metalStorage) return 'metal storage';
   return 'structure';
@@ -207,6 +219,8 @@ function describeBuildingOutput(blueprint: BuildingBlueprint, firepower: Firepow
   if (blueprint.buildingBlueprintId === 'buildingSonar') return 'sonar';
   if (blueprint.buildingBlueprintId === 'buildingRadarJammer') return 'radar jammer';
   if (blueprint.buildingBlueprintId === 'buildingSonarJammer') return 'sonar jammer';
+  if (blueprint.strategicMissile) return `${fmt(blueprint.strategicMissile.explosion.damage)} warhead`;
+  if (blueprint.missileInterceptor) return `${fmt(blueprint.missileInterceptor.coverageRadius)} coverage`;
   if (blueprint.energyStorage) return `+${fmt(blueprint.energyStorage)} energy capacity`;
   if (blueprint.metalStorage) return `+${fmt(blueprint.metalStorage)} metal capacity`;
   return 'passive';
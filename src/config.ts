@@ -12,6 +12,7 @@ import type {
   EmaTierConfig,
   EmaMsConfig,
   KnockbackConfig,
+  VeterancyConfig,
   ShieldVisualConfig,
   ShieldImpactVisualConfig,
   MapSize,
@@ -323,6 +324,12 @@ export const COST_MULTIPLIER = economyConfigJson.costMultiplier;
  * Beam/railgun knockback uses momentum-based force (mass × velocity × PROJECTILE_MASS_MULTIPLIER).
  */
 export const KNOCKBACK: KnockbackConfig = combatConfigJson.knockback;
+
+/**
+ * Veterancy ranks, lowest first. Each rank's bonuses replace the one below
+ * it rather than stacking; validated in sim/veterancy.ts.
+ */
+export const VETERANCY: VeterancyConfig = combatConfigJson.veterancy;
 export const BEAM_EXPLOSION_MAGNITUDE = explosionConfigJson.beamExplosionMagnitude;
 
 // Color conversion utilities
@@ -31,8 +31,10 @@ import {
   normalizeGameGenerationSeed,
 } from '../network/gameGenerationSeed';
 import type { PlayerId } from '../sim/types';
+import { normalizeBotProfile, type SeatBotProfile } from '../sim/agentSeat';
 import { FIRST_ALLY_TEAM_ID, MAX_ALLY_TEAM_COUNT } from '../sim/teamRoster';
 import type { LobbySettings } from '@/types/network';
+import { parseAuthoredMap } from '@/types/authoredMap';
 import {
   isLiquidSurfaceMode,
   isMetalCoverage,
@@ -48,6 +50,10 @@ import {
   normalizeSimulationTickRateHz,
   simulationTicksForDefaultTicks,
 } from '@/types/simulationTickRate';
+import {
+  normalizeVictoryCondition,
+  type VictoryCondition,
+} from '@/types/victoryCondition';
 
 // Turbine animation and wind particles are presentation-only. Keep them out
 // of the deterministic content hash so visual tuning cannot split lockstep.
@@ -85,6 +91,10 @@ export type CanonicalMatchInitialization = {
   /** Seats with AGENT TYPE 'bot' — driven by the deterministic in-sim
    *  policy, no connection, no commands. */
   readonly aiPlayerIds: readonly PlayerId[];
+  /** Difficulty and personality per bot seat, index-aligned with
+   *  `aiPlayerIds`. Hashed because the policy plays from it: two peers
+   *  that disagreed on a bot's profile would diverge on its first order. */
+  readonly botProfiles: readonly SeatBotProfile[];
   /** Seats with INITIAL STATE 'base' — the authored full base instead of a
    *  lone commander. Orthogonal to aiPlayerIds; the axes mix freely. */
   readonly baseSeatPlayerIds: readonly PlayerId[];
@@ -103,6 +113,9 @@ export type CanonicalMatchInitialization = {
     readonly mapLengthLandCells: number | null;
     readonly metalCoverage: MetalCoverage | null;
     readonly liquidSurfaceMode: LiquidSurfaceMode | null;
+    /** Content hash of the authored map file, or null for a generated map:
+     *  the file itself is too large to repeat in every initialization. */
+    readonly authoredMapHash: string | null;
   };
   readonly gameplay: {
     readonly entityCountCap: number | null;
@@ -110,6 +123,9 @@ export type CanonicalMatchInitialization = {
     readonly converterTax: number | null;
     readonly fogOfWarEnabled: true;
     readonly slowDownAtFinalWaypoint: boolean;
+    /** Every peer ends the match itself, on the tick its own simulation
+     *  says so; two peers on different rules would part ways there. */
+    readonly victoryCondition: VictoryCondition;
   };
   readonly content: {
     readonly appSourceVersion: string;
@@ -134,6 +150,9 @@ type BuildCanonicalMatchInitializationOptions = {
    *  fixture means. */
   allyTeamCount?: number | undefined;
   aiPlayerIds?: Iterable<PlayerId> | undefined;
+  /** Bot seat -> profile. Bot seats missing from the map play the default
+   *  profile; entries for non-bot seats are ignored. */
+  botProfileByPlayerId?: Readonly<Record<number, Partial<SeatBotProfile>>> | undefined;
   baseSeatPlayerIds?: Iterable<PlayerId> | undefined;
   settings: LobbySettings | undefined;
   gameGenerationSeed?: number;
@@ -177,11 +196,13 @@ export function buildCanonicalMatchInitialization({
   allyTeamByPlayerId,
   allyTeamCount,
   aiPlayerIds,
+  botProfileByPlayerId,
   baseSeatPlayerIds,
   settings,
   gameGenerationSeed = DEFAULT_GAME_GENERATION_SEED,
 }: BuildCanonicalMatchInitializationOptions): CanonicalMatchInitialization {
   const seats = normalizePlayerIds(playerIds);
+  const botSeats = normalizePlayerIds(aiPlayerIds ?? []);
   const sides = canonicalAllyTeamIds(seats, allyTeamByPlayerId, allyTeamCount);
   const simulationTickRateHz = normalizeSimulationTickRateHz(
     settings?.simulationTickRateHz,
@@ -205,7 +226,8 @@ export function buildCanonicalMatchInitialization({
     playerIds: seats,
     allyTeamCount: canonicalAllyTeamCount(sides, allyTeamCount),
     allyTeamIds: sides,
-    aiPlayerIds: normalizePlayerIds(aiPlayerIds ?? []),
+    aiPlayerIds: botSeats,
+    botProfiles: botSeats.map((seat) => normalizeBotProfile(botProfileByPlayerId?.[seat])),
     baseSeatPlayerIds: normalizePlayerIds(baseSeatPlayerIds ?? []),
     gameGenerationSeed: normalizeGameGenerationSeed(gameGenerationSeed),
     map: {
@@ -228,6 +250,9 @@ export function buildCanonicalMatchInitialization({
       liquidSurfaceMode: isLiquidSurfaceMode(settings?.liquidSurfaceMode)
         ? settings.liquidSurfaceMode
         : null,
+      authoredMapHash: settings?.authoredMap
+        ? hashCanonicalValue(parseAuthoredMap(settings.authoredMap))
+        : null,
     },
     gameplay: {
       entityCountCap: finiteOrNull(settings?.entityCountCap),
@@ -240,6 +265,7 @@ export function buildCanonicalMatchInitialization({
       converterTax: finiteOrNull(settings?.converterTax),
       fogOfWarEnabled: true,
       slowDownAtFinalWaypoint: settings?.slowDownAtFinalWaypoint === true,
+      victoryCondition: victoryConditionFromLobbySettings(settings),
     },
     content: {
       appSourceVersion: APP_SOURCE_VERSION,
@@ -267,6 +293,19 @@ export function allyTeamByPlayerIdFromInitialization(
   return out;
 }
 
+/** Same re-read for the bot profiles: index-aligned list back to the
+ *  seat -> profile map the server config and a rebuild take. */
+export function botProfileByPlayerIdFromInitialization(
+  initialization: Pick<CanonicalMatchInitialization, 'aiPlayerIds' | 'botProfiles'>,
+): Record<number, SeatBotProfile> {
+  const out: Record<number, SeatBotProfile> = {};
+  const profiles = initialization.botProfiles ?? [];
+  for (let i = 0; i < initialization.aiPlayerIds.length; i++) {
+    out[initialization.aiPlayerIds[i]] = normalizeBotProfile(profiles[i]);
+  }
+  return out;
+}
+
 export function hashCanonicalMatchInitialization(
   initialization: CanonicalMatchInitialization,
 ): string {
@@ -388,6 +427,17 @@ function clampAllyTeamCount(value: number): number {
   return Math.max(1, Math.min(MAX_ALLY_TEAM_COUNT, Math.floor(value) || 1));
 }
 
+/** The lobby's flat victory fields as the one value the simulation takes. */
+export function victoryConditionFromLobbySettings(
+  settings: Pick<LobbySettings, 'victoryMode' | 'victoryHoldSeconds' | 'victoryTimeLimitSeconds'> | undefined,
+): VictoryCondition {
+  return normalizeVictoryCondition({
+    mode: settings?.victoryMode,
+    holdSeconds: settings?.victoryHoldSeconds,
+    timeLimitSeconds: settings?.victoryTimeLimitSeconds,
+  });
+}
+
 function finiteOrNull(value: number | undefined): number | null {
   return typeof value === 'number' && Number.isFinite(value) ? value : null;
 }
@@ -1,5 +1,6 @@
 import { economyManager } from '../sim/economy';
 import { getVegetationStateHash } from '../sim/vegetation';
+import { exportTerrainHeightEdits } from '../sim/Terrain';
 import { getUnitGroundNormalEmaMode } from '../sim/unitGroundNormal';
 import type { Entity, PlayerId } from '../sim/types';
 import type { Body3D } from '../server/PhysicsEngine3D';
@@ -24,7 +25,7 @@ export type CanonicalServerStateHash = {
   readonly entityHashes?: readonly CanonicalEntityStateHash[];
 };
 
-type CanonicalEntityStateHash = {
+export type CanonicalEntityStateHash = {
   readonly id: number;
   readonly type: string;
   readonly hash: string;
@@ -110,6 +111,7 @@ export function buildCanonicalServerState(core: ServerSimulationCore): Canonical
     economyStates[i] = {
       playerId,
       state: toCanonicalValue(economyManager.getEconomy(playerId)),
+      autoShare: toCanonicalValue(economyManager.getAutoShareThreshold(playerId)),
     };
   }
 
@@ -146,18 +148,28 @@ export function buildCanonicalServerState(core: ServerSimulationCore): Canonical
       maxTargetableRadius: world.getMaxTargetableRadius(),
       maxVisibilityPadding: world.getMaxVisibilityPadding(),
       alliesByPlayer: serializeAllies(world.alliesByPlayer),
+      // An open invitation or a named heir decides what a later command does.
+      allianceProposals: toCanonicalValue(world.allianceProposals),
+      resignHeirs: toCanonicalValue([...world.resignHeirs].sort(([a], [b]) => a - b)),
       scanPulses: toCanonicalValue(world.scanPulses),
+      strategicMissiles: toCanonicalValue(world.strategicMissiles),
       metalDeposits: toCanonicalValue(world.metalDeposits),
       // Trees, grass, and seaweed are a contested energy supply now, so a
       // peer whose forest diverged has desynced. The kernel hashes live
       // props (index + quantized remaining work) rather than the whole
       // immutable layout, which is already implied by the map inputs.
       vegetation: getVegetationStateHash(),
+      // Craters move the ground units stand on and path over. The generated
+      // heights are implied by the map inputs; the moved vertices are not.
+      terrainHeightEdits: toCanonicalValue(exportTerrainHeightEdits()),
       resourceMovements: toCanonicalValue(world.resourceMovements),
     },
     simulation: {
       gamePhase: simulation.getGamePhase(),
       winnerId: simulation.getWinnerId(),
+      gameOverReason: simulation.getGameOverReason(),
+      // A control-point hold in progress decides the tick the match ends.
+      victory: toCanonicalValue(simulation.getVictoryProgress()),
       simElapsedMs: simulation.getSimElapsedMs(),
       windState: toCanonicalValue(simulation.getWindState()),
     },
@@ -205,6 +217,10 @@ function serializeEntity(entity: Entity): CanonicalValue {
     commander: toCanonicalValue(entity.commander),
     dgunProjectile: toCanonicalValue(entity.dgunProjectile),
     wreck: toCanonicalValue(entity.wreck),
+    morph: toCanonicalValue(entity.morph),
+    stockpile: toCanonicalValue(entity.stockpile),
+    statusEffects: toCanonicalValue(entity.statusEffects),
+    veterancy: toCanonicalValue(entity.veterancy),
     transport: serializeTransport(entity.transport),
     transported: toCanonicalValue(entity.transported),
     heldBy: toCanonicalValue(entity.heldBy),
@@ -356,7 +372,7 @@ function canonicalNumber(value: number): CanonicalValue {
   return { specialNumber: value > 0 ? 'Infinity' : '-Infinity' };
 }
 
-function buildEntityHashes(entities: CanonicalValue): readonly CanonicalEntityStateHash[] {
+export function buildEntityHashes(entities: CanonicalValue): readonly CanonicalEntityStateHash[] {
   if (!Array.isArray(entities)) return [];
   const hashes = new Array<CanonicalEntityStateHash>(entities.length);
   for (let i = 0; i < entities.length; i++) {
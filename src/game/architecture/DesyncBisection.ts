@@ -0,0 +1,494 @@
+/**
+ * Offline desync bisection: from a `LockstepDesyncReport` and the match's
+ * `MatchCommandArchive`, find WHERE two runs of the same match parted ways.
+ *
+ * A report only says that two peers disagreed at a checksum frame, and the
+ * checksums are LIGHT — sections, no entities — so on its own it names a
+ * section and little else. This replays the match from genesis through the
+ * report's frame and records the light hash after every frame. Two such
+ * recordings are compared, the first frame where they disagree is located by
+ * bisection, both runs are replayed to exactly that frame, and the canonical
+ * states there are diffed down to entity, component and field.
+ *
+ * The two runs are either two replays in this process — which catches state
+ * that survives between matches (a module buffer the replay reset misses is
+ * the classic joiner-versus-long-running-peer desync) — or one local replay
+ * against a trace recorded elsewhere with `recordDesyncReplayTrace`, which is
+ * how a platform or engine difference is chased. The replay is also checked
+ * against the hashes in the report itself, so the output says which peer a
+ * clean replay of the match agrees with.
+ *
+ * Node-side tooling (scripts/desyncBisection.mjs); nothing here runs in a
+ * live match.
+ */
+
+import { ServerBootstrap } from '../server/ServerBootstrap';
+import { ServerSimulationCore } from '../server/ServerSimulationCore';
+import type { PlayerId } from '../sim/types';
+import { disposeCheckpointCore } from './CanonicalCheckpoint';
+import { hashCanonicalValue } from './CanonicalMatchInitialization';
+import {
+  buildCanonicalServerState,
+  buildEntityHashes,
+  type CanonicalEntityStateHash,
+  type CanonicalServerState,
+  type CanonicalServerStateHash,
+} from './CanonicalStateHash';
+import {
+  firstValueDiff,
+  resetReusableSimulationStateForDeterministicReplay,
+} from './DeterministicReplayHarness';
+import {
+  validateLockstepCommandFrameForPeer,
+  type LockstepCommandEnvelope,
+} from './LockstepCommandProtocol';
+import type { LockstepDesyncReport } from './LockstepDesyncMonitor';
+import type { MatchCommandArchiveExport } from './MatchCommandArchive';
+
+/** One replay of a match: its light hash at every frame, plus the full
+ *  canonical state at the frames it was asked to capture. */
+export type DesyncReplayTrace = {
+  readonly schema: 'budget-annihilation.desync-replay-trace.v1';
+  readonly label: string;
+  readonly initializationHash: string;
+  /** `frameHashes[f]` is the light hash after `f` frames have been stepped —
+   *  the same numbering the lockstep checksums use, so index 0 is the world
+   *  as booted and the report's frame indexes it directly. */
+  readonly frameHashes: readonly string[];
+  readonly finalStateHash: CanonicalServerStateHash;
+  readonly capturedStates: readonly {
+    readonly frame: number;
+    readonly state: CanonicalServerState;
+  }[];
+};
+
+type RecordDesyncReplayTraceOptions = {
+  readonly throughFrame: number;
+  readonly label: string;
+  readonly captureFrames?: readonly number[];
+};
+
+export type DesyncFieldDiff = {
+  /** Canonical state section: world, simulation, economy, commands or entities. */
+  readonly section: string;
+  readonly entityId: number | null;
+  readonly entityType: string | null;
+  readonly component: string | null;
+  readonly field: string | null;
+  /** Dotted path inside the section (or entity) down to the first value
+   *  that differs. */
+  readonly path: string;
+  readonly first: unknown;
+  readonly second: unknown;
+};
+
+type DesyncReportAgreement = {
+  readonly playerId: PlayerId;
+  readonly matchesReplay: boolean;
+  readonly sectionDiffs: readonly string[];
+};
+
+export type LockstepDesyncBisection = {
+  readonly schema: 'budget-annihilation.desync-bisection.v1';
+  readonly reportFrame: number;
+  readonly firstLabel: string;
+  readonly secondLabel: string;
+  /** Frames in the report's recent-command tail whose commands do not match
+   *  the archive. Non-empty means the archive is not from this match, or a
+   *  peer executed different commands — either way, look there first. */
+  readonly commandFrameMismatches: readonly number[];
+  readonly reportAgreement: readonly DesyncReportAgreement[];
+  readonly firstDivergentFrame: number | null;
+  readonly sectionDiffs: readonly string[];
+  readonly fieldDiffs: readonly DesyncFieldDiff[];
+  /** Why the field diff is missing or partial, when it is. */
+  readonly note: string | null;
+};
+
+type BisectLockstepDesyncOptions = {
+  readonly report: LockstepDesyncReport;
+  readonly archive: MatchCommandArchiveExport;
+  /** A trace recorded elsewhere to compare against. Omitted: a second replay
+   *  in this process. */
+  readonly against?: DesyncReplayTrace | null;
+};
+
+/** Enough to read; a desync that touches hundreds of fields has one cause
+ *  near the top of the list. */
+const DESYNC_FIELD_DIFF_LIMIT = 24;
+
+const CANONICAL_SECTIONS = ['world', 'simulation', 'economy', 'commands', 'entities'] as const;
+
+export function bisectLockstepDesync(options: BisectLockstepDesyncOptions): LockstepDesyncBisection {
+  const { report, archive } = options;
+  validateBisectionInputs(report, archive);
+  const against = options.against ?? null;
+  if (against !== null) validateReplayTrace(against, archive);
+
+  const first = recordDesyncReplayTrace(archive, { throughFrame: report.frame, label: 'local replay' });
+  const second = against ?? recordDesyncReplayTrace(archive, {
+    throughFrame: report.frame,
+    label: 'second local replay',
+  });
+
+  const reportAgreement = report.hashesByPlayer.map(({ playerId, stateHash }) => ({
+    playerId,
+    matchesReplay: stateHash.hash === first.finalStateHash.hash,
+    sectionDiffs: diffHashSections(first.finalStateHash, stateHash),
+  }));
+
+  const firstDivergentFrame = findFirstDivergentFrame(first.frameHashes, second.frameHashes);
+  let sectionDiffs: readonly string[] = [];
+  let fieldDiffs: readonly DesyncFieldDiff[] = [];
+  let note: string | null = null;
+  if (firstDivergentFrame !== null) {
+    const firstState = captureStateAt(archive, firstDivergentFrame, first.label);
+    const secondState = against === null
+      ? captureStateAt(archive, firstDivergentFrame, second.label)
+      : against.capturedStates.find((entry) => entry.frame === firstDivergentFrame)?.state ?? null;
+    if (secondState === null) {
+      note = `${second.label} has no captured state at frame ${firstDivergentFrame}; ` +
+        `record it again with --capture-frame=${firstDivergentFrame} for a field diff`;
+    } else {
+      const diff = diffCanonicalServerStates(firstState, secondState);
+      sectionDiffs = diff.sectionDiffs;
+      fieldDiffs = diff.fieldDiffs;
+    }
+  } else if (first.frameHashes.length !== second.frameHashes.length) {
+    note = `runs agree on every frame both reached; ${first.label} reached frame ` +
+      `${first.frameHashes.length - 1}, ${second.label} reached ${second.frameHashes.length - 1}`;
+  }
+
+  return {
+    schema: 'budget-annihilation.desync-bisection.v1',
+    reportFrame: report.frame,
+    firstLabel: first.label,
+    secondLabel: second.label,
+    commandFrameMismatches: findCommandFrameMismatches(report, archive),
+    reportAgreement,
+    firstDivergentFrame,
+    sectionDiffs,
+    fieldDiffs,
+    note,
+  };
+}
+
+/** Replay the archived match from genesis through `throughFrame`, hashing
+ *  every frame. Commands go through the same peer validation a live frame
+ *  does, so a command a peer would have rejected is rejected here too. */
+export function recordDesyncReplayTrace(
+  archive: MatchCommandArchiveExport,
+  options: RecordDesyncReplayTraceOptions,
+): DesyncReplayTrace {
+  if (!Number.isInteger(options.throughFrame) || options.throughFrame < 0) {
+    throw new Error(`[desync bisection] replay frame must be a non-negative integer, got ${options.throughFrame}`);
+  }
+  if (options.throughFrame > archive.throughFrame + 1) {
+    throw new Error(
+      `[desync bisection] the archive ends at frame ${archive.throughFrame}; ` +
+        `cannot replay to frame ${options.throughFrame}`,
+    );
+  }
+  const captureFrames = new Set(options.captureFrames ?? []);
+  const commandsByFrame = new Map<number, readonly LockstepCommandEnvelope[]>();
+  for (const entry of archive.frames) commandsByFrame.set(entry.frame, entry.commands);
+
+  resetReusableSimulationStateForDeterministicReplay();
+  const core = new ServerSimulationCore(
+    ServerBootstrap.bootstrap(JSON.parse(JSON.stringify(archive.config)) as MatchCommandArchiveExport['config']),
+  );
+  try {
+    const frameHashes: string[] = [core.getCanonicalStateHash().hash];
+    const capturedStates: { frame: number; state: CanonicalServerState }[] = [];
+    if (captureFrames.has(0)) capturedStates.push({ frame: 0, state: buildCanonicalServerState(core) });
+    for (let frame = 0; frame < options.throughFrame; frame++) {
+      const commands = validateLockstepCommandFrameForPeer(
+        commandsByFrame.get(frame) ?? [],
+        core.world,
+        archive.hostPlayerId,
+      );
+      core.stepFixedTick(archive.fixedDtMs, commands);
+      frameHashes.push(core.getCanonicalStateHash().hash);
+      if (captureFrames.has(frame + 1)) {
+        capturedStates.push({ frame: frame + 1, state: buildCanonicalServerState(core) });
+      }
+    }
+    return {
+      schema: 'budget-annihilation.desync-replay-trace.v1',
+      label: options.label,
+      initializationHash: archive.initializationHash,
+      frameHashes,
+      finalStateHash: core.getCanonicalStateHash(),
+      capturedStates,
+    };
+  } finally {
+    disposeCheckpointCore(core);
+  }
+}
+
+/**
+ * The first frame whose hashes differ, or null when the runs agree on every
+ * frame both reached.
+ *
+ * Divergence is sticky — the next frame is computed from a world that already
+ * differs — so the two lists are an agreeing prefix followed by a disagreeing
+ * suffix, and the boundary can be bisected rather than scanned.
+ */
+export function findFirstDivergentFrame(
+  first: readonly string[],
+  second: readonly string[],
+): number | null {
+  const length = Math.min(first.length, second.length);
+  if (length === 0 || first[length - 1] === second[length - 1]) return null;
+  let agreeing = -1;
+  let diverged = length - 1;
+  while (diverged - agreeing > 1) {
+    const mid = (agreeing + diverged) >> 1;
+    if (first[mid] === second[mid]) agreeing = mid;
+    else diverged = mid;
+  }
+  return diverged;
+}
+
+/** Every place two canonical states differ, entity fields first by id. */
+export function diffCanonicalServerStates(
+  first: CanonicalServerState,
+  second: CanonicalServerState,
+): { readonly sectionDiffs: readonly string[]; readonly fieldDiffs: readonly DesyncFieldDiff[] } {
+  const sectionDiffs: string[] = [];
+  const fieldDiffs: DesyncFieldDiff[] = [];
+  for (const section of CANONICAL_SECTIONS) {
+    const firstHash = hashCanonicalValue(first[section]);
+    const secondHash = hashCanonicalValue(second[section]);
+    if (firstHash === secondHash) continue;
+    sectionDiffs.push(`${section}: ${firstHash} != ${secondHash}`);
+    if (section === 'entities') continue;
+    const diff = firstValueDiff(first[section], second[section]);
+    fieldDiffs.push({
+      section,
+      entityId: null,
+      entityType: null,
+      component: null,
+      field: null,
+      path: diff.path,
+      first: diff.first,
+      second: diff.second,
+    });
+  }
+  if (sectionDiffs.some((diff) => diff.startsWith('entities:'))) {
+    diffEntities(first.entities, second.entities, fieldDiffs);
+  }
+  return { sectionDiffs, fieldDiffs: fieldDiffs.slice(0, DESYNC_FIELD_DIFF_LIMIT) };
+}
+
+export function formatLockstepDesyncBisection(result: LockstepDesyncBisection): string {
+  const lines: string[] = [
+    `desync report frame ${result.reportFrame}: ${result.firstLabel} vs ${result.secondLabel}`,
+  ];
+  if (result.commandFrameMismatches.length > 0) {
+    lines.push(
+      `  command frames differing from the archive: ${result.commandFrameMismatches.join(', ')}`,
+    );
+  }
+  for (const agreement of result.reportAgreement) {
+    lines.push(
+      agreement.matchesReplay
+        ? `  player ${agreement.playerId}: agrees with the replay`
+        : `  player ${agreement.playerId}: differs from the replay (${agreement.sectionDiffs.join('; ')})`,
+    );
+  }
+  if (result.firstDivergentFrame === null) {
+    lines.push('  runs agree on every replayed frame');
+  } else {
+    lines.push(`  first divergent frame: ${result.firstDivergentFrame}`);
+    for (const diff of result.sectionDiffs) lines.push(`    section ${diff}`);
+    for (const diff of result.fieldDiffs) {
+      const where = diff.entityId === null
+        ? diff.section
+        : `entity ${diff.entityId} (${diff.entityType ?? 'unknown'})`;
+      lines.push(`    ${where} ${diff.path}`);
+      lines.push(`      ${result.firstLabel}: ${formatValue(diff.first)}`);
+      lines.push(`      ${result.secondLabel}: ${formatValue(diff.second)}`);
+    }
+  }
+  if (result.note !== null) lines.push(`  note: ${result.note}`);
+  return lines.join('\n');
+}
+
+function validateBisectionInputs(
+  report: LockstepDesyncReport,
+  archive: MatchCommandArchiveExport,
+): void {
+  if (report.schema !== 'budget-annihilation.lockstep-desync-report.v1') {
+    throw new Error('[desync bisection] unsupported desync report schema');
+  }
+  if (archive.schema !== 'budget-annihilation.match-command-archive.v1') {
+    throw new Error('[desync bisection] unsupported command archive schema');
+  }
+  if (report.initializationHash !== archive.initializationHash) {
+    throw new Error(
+      '[desync bisection] the report and the archive are from different matches: ' +
+        `${report.initializationHash} !== ${archive.initializationHash}`,
+    );
+  }
+}
+
+function validateReplayTrace(trace: DesyncReplayTrace, archive: MatchCommandArchiveExport): void {
+  if (trace.schema !== 'budget-annihilation.desync-replay-trace.v1') {
+    throw new Error('[desync bisection] unsupported replay trace schema');
+  }
+  if (trace.initializationHash !== archive.initializationHash) {
+    throw new Error('[desync bisection] the replay trace is from a different match');
+  }
+}
+
+function captureStateAt(
+  archive: MatchCommandArchiveExport,
+  frame: number,
+  label: string,
+): CanonicalServerState {
+  const trace = recordDesyncReplayTrace(archive, { throughFrame: frame, label, captureFrames: [frame] });
+  return trace.capturedStates[0].state;
+}
+
+function findCommandFrameMismatches(
+  report: LockstepDesyncReport,
+  archive: MatchCommandArchiveExport,
+): number[] {
+  const archivedByFrame = new Map<number, readonly LockstepCommandEnvelope[]>();
+  for (const entry of archive.frames) archivedByFrame.set(entry.frame, entry.commands);
+  const mismatches: number[] = [];
+  for (const entry of report.recentCommandFrames) {
+    const archived = archivedByFrame.get(entry.frame) ?? [];
+    if (hashCanonicalValue(entry.commands) !== hashCanonicalValue(archived)) {
+      mismatches.push(entry.frame);
+    }
+  }
+  return mismatches;
+}
+
+function diffHashSections(
+  first: CanonicalServerStateHash,
+  second: CanonicalServerStateHash,
+): string[] {
+  const diffs: string[] = [];
+  for (const section of CANONICAL_SECTIONS) {
+    if (first.sections[section] !== second.sections[section]) {
+      diffs.push(`${section}: ${first.sections[section]} != ${second.sections[section]}`);
+    }
+  }
+  return diffs;
+}
+
+function diffEntities(
+  firstEntities: CanonicalServerState['entities'],
+  secondEntities: CanonicalServerState['entities'],
+  out: DesyncFieldDiff[],
+): void {
+  const firstHashes = new Map(buildEntityHashes(firstEntities).map((entry) => [entry.id, entry]));
+  const secondHashes = new Map(buildEntityHashes(secondEntities).map((entry) => [entry.id, entry]));
+  const firstValues = collectEntityValues(firstEntities);
+  const secondValues = collectEntityValues(secondEntities);
+  const ids = [...new Set([...firstHashes.keys(), ...secondHashes.keys()])].sort((a, b) => a - b);
+  for (const id of ids) {
+    if (out.length >= DESYNC_FIELD_DIFF_LIMIT) return;
+    const firstHash = firstHashes.get(id);
+    const secondHash = secondHashes.get(id);
+    if (firstHash === undefined || secondHash === undefined) {
+      out.push({
+        section: 'entities',
+        entityId: id,
+        entityType: (firstHash ?? secondHash)?.type ?? null,
+        component: null,
+        field: null,
+        path: '<entity>',
+        first: firstHash === undefined ? 'missing' : 'present',
+        second: secondHash === undefined ? 'missing' : 'present',
+      });
+      continue;
+    }
+    if (firstHash.hash === secondHash.hash) continue;
+    diffEntityComponents(
+      firstHash,
+      secondHash,
+      firstValues.get(id) ?? {},
+      secondValues.get(id) ?? {},
+      out,
+    );
+  }
+}
+
+function diffEntityComponents(
+  firstHash: CanonicalEntityStateHash,
+  secondHash: CanonicalEntityStateHash,
+  firstEntity: Readonly<Record<string, unknown>>,
+  secondEntity: Readonly<Record<string, unknown>>,
+  out: DesyncFieldDiff[],
+): void {
+  const components = [...new Set([
+    ...Object.keys(firstHash.components),
+    ...Object.keys(secondHash.components),
+  ])].sort();
+  for (const component of components) {
+    if (firstHash.components[component] === secondHash.components[component]) continue;
+    const firstFields = firstHash.componentFields?.[component];
+    const secondFields = secondHash.componentFields?.[component];
+    if (firstFields === undefined || secondFields === undefined) {
+      // One side is null or a primitive; the component is the field.
+      out.push(entityFieldDiff(firstHash, component, null, firstEntity[component], secondEntity[component], [component]));
+      continue;
+    }
+    const fields = [...new Set([...Object.keys(firstFields), ...Object.keys(secondFields)])].sort();
+    for (const field of fields) {
+      if (firstFields[field] === secondFields[field]) continue;
+      out.push(entityFieldDiff(
+        firstHash,
+        component,
+        field,
+        (firstEntity[component] as Record<string, unknown>)[field],
+        (secondEntity[component] as Record<string, unknown>)[field],
+        [component, field],
+      ));
+    }
+  }
+}
+
+function entityFieldDiff(
+  entity: CanonicalEntityStateHash,
+  component: string,
+  field: string | null,
+  firstValue: unknown,
+  secondValue: unknown,
+  path: string[],
+): DesyncFieldDiff {
+  const diff = firstValueDiff(firstValue, secondValue, path);
+  return {
+    section: 'entities',
+    entityId: entity.id,
+    entityType: entity.type,
+    component,
+    field,
+    path: diff.path,
+    first: diff.first,
+    second: diff.second,
+  };
+}
+
+function collectEntityValues(
+  entities: CanonicalServerState['entities'],
+): Map<number, Readonly<Record<string, unknown>>> {
+  const result = new Map<number, Readonly<Record<string, unknown>>>();
+  if (!Array.isArray(entities)) return result;
+  for (const entity of entities) {
+    if (typeof entity !== 'object' || entity === null || Array.isArray(entity)) continue;
+    const record = entity as Readonly<Record<string, unknown>>;
+    if (typeof record.id === 'number') result.set(record.id, record);
+  }
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  const text = JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
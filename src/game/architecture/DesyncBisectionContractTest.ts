@@ -0,0 +1,267 @@
+/**
+ * The desync bisection tool must name the frame and the field a divergence
+ * started at, and must stay quiet when two runs agree.
+ *
+ * Two replays in one process should agree, so the divergence here is made by
+ * hand: a trace recorded from the real archive, with one field of the
+ * commander nudged from a chosen frame on. That is exactly the shape a trace
+ * from a diverged machine has — matching hashes up to a frame, different ones
+ * after — so the tool has to find the frame by bisection and the field by
+ * walking the canonical state, with nothing planted for it to pattern-match.
+ */
+
+import type { GameServerConfig } from '@/types/game';
+import type { Command } from '../sim/commands';
+import type { PlayerId } from '../sim/types';
+import { ServerBootstrap } from '../server/ServerBootstrap';
+import { ServerSimulationCore } from '../server/ServerSimulationCore';
+import { disposeCheckpointCore } from './CanonicalCheckpoint';
+import type { CanonicalServerState } from './CanonicalStateHash';
+import {
+  bisectLockstepDesync,
+  findFirstDivergentFrame,
+  formatLockstepDesyncBisection,
+  recordDesyncReplayTrace,
+  type DesyncReplayTrace,
+} from './DesyncBisection';
+import { resetReusableSimulationStateForDeterministicReplay } from './DeterministicReplayHarness';
+import type { LockstepCommandEnvelope } from './LockstepCommandProtocol';
+import type { LockstepDesyncReport } from './LockstepDesyncMonitor';
+import { LOCKSTEP_FIXED_DT_MS } from './LockstepFrameScheduler';
+import { MatchCommandArchive, type MatchCommandArchiveExport } from './MatchCommandArchive';
+import {
+  getAuthoritativeTerrainTileMap,
+  setAuthoritativeTerrainTileMap,
+} from '../sim/terrain/terrainState';
+
+const REPORT_FRAME = 30;
+const DIVERGENT_FRAME = 17;
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) throw new Error(`[desync bisection contract] ${message}`);
+}
+
+export function runDesyncBisectionContractTest(): void {
+  const installedTerrain = getAuthoritativeTerrainTileMap();
+  try {
+    runFindFirstDivergentFrame();
+    runDesyncBisection();
+  } finally {
+    setAuthoritativeTerrainTileMap(installedTerrain);
+  }
+}
+
+function runFindFirstDivergentFrame(): void {
+  assertContract(
+    findFirstDivergentFrame(['a', 'b', 'c'], ['a', 'b', 'c']) === null,
+    'identical runs have no divergent frame',
+  );
+  assertContract(
+    findFirstDivergentFrame(['a', 'b', 'c', 'd'], ['a', 'x', 'y', 'z']) === 1,
+    'the first differing frame must be found, not the last',
+  );
+  assertContract(
+    findFirstDivergentFrame(['a', 'b'], ['x', 'y']) === 0,
+    'a divergence at boot is frame 0',
+  );
+  assertContract(
+    findFirstDivergentFrame(['a', 'b', 'c'], ['a', 'b']) === null,
+    'runs that agree as far as both reached have not diverged',
+  );
+}
+
+function runDesyncBisection(): void {
+  const archive = playArchivedMatch();
+  const reference = recordDesyncReplayTrace(archive, {
+    throughFrame: REPORT_FRAME,
+    label: 'reference',
+    captureFrames: [DIVERGENT_FRAME],
+  });
+  const report = createReport(archive, reference);
+
+  // Two clean replays agree, and the replay sides with the peer whose
+  // checksum was real.
+  const clean = bisectLockstepDesync({ report, archive });
+  assertContract(clean.firstDivergentFrame === null, 'two replays of one archive must agree');
+  assertContract(clean.commandFrameMismatches.length === 0, 'the report tail matches its own archive');
+  assertContract(
+    clean.reportAgreement.find((entry) => entry.playerId === 1)?.matchesReplay === true,
+    'the replay must agree with the peer that stayed in step',
+  );
+  const diverged = clean.reportAgreement.find((entry) => entry.playerId === 2);
+  assertContract(
+    diverged !== undefined && !diverged.matchesReplay &&
+      diverged.sectionDiffs.length === 1 && diverged.sectionDiffs[0].startsWith('entities:'),
+    'the replay must name the section the other peer diverged in',
+  );
+
+  // A trace from a "machine" whose commander drifted at DIVERGENT_FRAME.
+  const drifted = driftCommander(reference);
+  const tamperedReport: LockstepDesyncReport = {
+    ...report,
+    recentCommandFrames: [{ frame: 0, frameSequence: 0, commands: [] }],
+  };
+  const bisection = bisectLockstepDesync({ report: tamperedReport, archive, against: drifted.trace });
+  assertContract(
+    bisection.firstDivergentFrame === DIVERGENT_FRAME,
+    `the bisection must land on frame ${DIVERGENT_FRAME}, got ${bisection.firstDivergentFrame}`,
+  );
+  assertContract(
+    bisection.commandFrameMismatches.length === 1 && bisection.commandFrameMismatches[0] === 0,
+    'a report tail that disagrees with the archive must be flagged',
+  );
+  const fieldDiff = bisection.fieldDiffs[0];
+  assertContract(
+    bisection.fieldDiffs.length === 1 &&
+      fieldDiff.entityId === drifted.commanderId &&
+      fieldDiff.component === 'transform' &&
+      fieldDiff.field === 'x' &&
+      fieldDiff.path === 'transform.x' &&
+      typeof fieldDiff.first === 'number' &&
+      fieldDiff.second === fieldDiff.first + 1,
+    `the diff must name the drifted field, got ${JSON.stringify(bisection.fieldDiffs)}`,
+  );
+  const text = formatLockstepDesyncBisection(bisection);
+  assertContract(
+    text.includes(`first divergent frame: ${DIVERGENT_FRAME}`) && text.includes('transform.x'),
+    'the printed diff must carry the frame and the field',
+  );
+
+  // Without the state at the divergent frame, the tool says what to record.
+  const uncaptured = bisectLockstepDesync({
+    report,
+    archive,
+    against: { ...drifted.trace, capturedStates: [] },
+  });
+  assertContract(
+    uncaptured.firstDivergentFrame === DIVERGENT_FRAME &&
+      uncaptured.fieldDiffs.length === 0 &&
+      uncaptured.note !== null &&
+      uncaptured.note.includes(`--capture-frame=${DIVERGENT_FRAME}`),
+    'a trace without the divergent state must ask for it',
+  );
+
+  console.log('[contract] desync bisection OK');
+}
+
+function playArchivedMatch(): MatchCommandArchiveExport {
+  const config: GameServerConfig = {
+    playerIds: [1 as PlayerId, 2 as PlayerId],
+    centerMagnitude: 0,
+    ringMagnitude: 0,
+    dividersMagnitude: 0,
+    perimeterMagnitude: -800,
+    terrainPrecedence: 'perimeter-precedence',
+    terrainDTerrain: 0,
+    plateauWallSlopeDegrees: 89,
+    metalDepositStep: 0,
+    terrainDetail: 1,
+    mapWidthLandCells: 9,
+    mapLengthLandCells: 9,
+    converterTax: 0,
+  };
+  const archive = new MatchCommandArchive();
+  resetReusableSimulationStateForDeterministicReplay();
+  const core = new ServerSimulationCore(ServerBootstrap.bootstrap(config));
+  try {
+    for (let frame = 0; frame < REPORT_FRAME; frame++) {
+      const commands = commandsForFrame(core, frame);
+      archive.append(frame, frame, commands);
+      core.stepFixedTick(LOCKSTEP_FIXED_DT_MS, commands.map((envelope) => envelope.command));
+    }
+  } finally {
+    disposeCheckpointCore(core);
+  }
+  return archive.export({
+    initializationHash: 'desync-bisection-contract',
+    hostPlayerId: 1 as PlayerId,
+    fixedDtMs: LOCKSTEP_FIXED_DT_MS,
+    config,
+  });
+}
+
+function createReport(
+  archive: MatchCommandArchiveExport,
+  reference: DesyncReplayTrace,
+): LockstepDesyncReport {
+  const localHash = reference.finalStateHash;
+  const remoteHash = {
+    hash: 'fnv1a32:00000000',
+    sections: { ...localHash.sections, entities: 'fnv1a32:00000000' },
+  };
+  return {
+    schema: 'budget-annihilation.lockstep-desync-report.v1',
+    frame: REPORT_FRAME,
+    detectedAtMs: 0,
+    localPlayerId: 1 as PlayerId,
+    remotePlayerId: 2 as PlayerId,
+    peerIds: [1 as PlayerId, 2 as PlayerId],
+    initializationHash: archive.initializationHash,
+    localHash,
+    remoteHash,
+    hashesByPlayer: [
+      { playerId: 1 as PlayerId, stateHash: localHash },
+      { playerId: 2 as PlayerId, stateHash: remoteHash },
+    ],
+    recentCommandFrames: archive.frames.filter((entry) => entry.frame >= REPORT_FRAME - 20),
+  };
+}
+
+function driftCommander(reference: DesyncReplayTrace): {
+  readonly trace: DesyncReplayTrace;
+  readonly commanderId: number;
+} {
+  const captured = reference.capturedStates[0].state;
+  const entities = JSON.parse(JSON.stringify(captured.entities)) as {
+    id: number;
+    commander: unknown;
+    transform: { x: number };
+  }[];
+  const commander = entities.find((entity) => entity.commander !== null);
+  if (commander === undefined) throw new Error('[desync bisection contract] missing commander fixture');
+  commander.transform.x += 1;
+  const state = { ...captured, entities } as CanonicalServerState;
+  return {
+    commanderId: commander.id,
+    trace: {
+      ...reference,
+      label: 'drifted machine',
+      frameHashes: reference.frameHashes.map((hash, frame) =>
+        frame < DIVERGENT_FRAME ? hash : `drifted:${frame}`),
+      capturedStates: [{ frame: DIVERGENT_FRAME, state }],
+    },
+  };
+}
+
+/** A few real orders, so the replay has commands to validate. */
+function commandsForFrame(
+  core: ServerSimulationCore,
+  frame: number,
+): readonly LockstepCommandEnvelope[] {
+  if (frame !== 0 && frame !== 12) return [];
+  const playerId = (frame === 12 ? 2 : 1) as PlayerId;
+  const commander = core.world.getCommander(playerId);
+  if (commander === undefined) {
+    throw new Error('[desync bisection contract] missing commander fixture');
+  }
+  const command: Command = {
+    type: 'move',
+    tick: frame,
+    entityIds: [commander.id],
+    targetX: commander.transform.x + 80,
+    targetY: commander.transform.y,
+    targetZ: commander.transform.z,
+    waypointType: 'move',
+    queue: false,
+  };
+  return [
+    {
+      gameId: 'desync-bisection-contract',
+      executeFrame: frame,
+      playerId,
+      playerSequence: frame,
+      commandIndex: 0,
+      command,
+    },
+  ];
+}
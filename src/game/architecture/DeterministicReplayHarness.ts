@@ -619,7 +619,7 @@ function firstEntityFieldDiff(
   };
 }
 
-function firstValueDiff(
+export function firstValueDiff(
   first: unknown,
   second: unknown,
   path: string[] = [],
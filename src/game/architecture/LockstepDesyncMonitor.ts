@@ -75,13 +75,25 @@ export class LockstepDesyncMonitor {
    *
    *  Used as the join gate: a peer replaying a match from frame 0 compares its
    *  hash here against the coordinator's before it is allowed to render. A
-   *  replay that disagrees is a desync, and joining anyway would spread it. */
-  getLatestLocalChecksum(): {
+   *  replay that disagrees is a desync, and joining anyway would spread it.
+   *
+   *  `atOrBeforeFrame` bounds it for a joiner that is only allowed to reach
+   *  an earlier frame — a delayed watcher. */
+  getLatestLocalChecksum(atOrBeforeFrame = Number.POSITIVE_INFINITY): {
     readonly frame: number;
     readonly stateHash: CanonicalServerStateHash;
   } | null {
-    const frame = this.latestChecksumFrameByPlayer.get(this.localPlayerId);
-    if (frame === undefined) return null;
+    const latest = this.latestChecksumFrameByPlayer.get(this.localPlayerId);
+    if (latest === undefined) return null;
+    let frame: number | undefined = latest;
+    if (latest > atOrBeforeFrame) {
+      frame = undefined;
+      for (const [candidate, checksums] of this.checksumsByFrame) {
+        if (candidate > atOrBeforeFrame || !checksums.has(this.localPlayerId)) continue;
+        if (frame === undefined || candidate > frame) frame = candidate;
+      }
+      if (frame === undefined) return null;
+    }
     const stateHash = this.checksumsByFrame.get(frame)?.get(this.localPlayerId);
     return stateHash === undefined ? null : { frame, stateHash };
   }
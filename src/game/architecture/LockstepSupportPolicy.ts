@@ -35,6 +35,10 @@ type LockstepSupportCheckOptions = {
   readonly localPlayerId: PlayerId | undefined;
   readonly networkRole: NetworkRole | null;
   readonly battleKind: 'real';
+  /** This process is a dedicated match server: the coordinator, with no seat
+   *  of its own. It completes every frame itself, so a match of only bots —
+   *  a soak run, a bot tournament — has somebody to complete them. */
+  readonly dedicatedServer?: boolean;
 };
 
 export function assertDeterministicLockstepSupported(
@@ -55,9 +59,15 @@ export function assertDeterministicLockstepSupported(
       );
     }
   }
-  if (bots.size >= options.playerIds.length) {
+  if (
+    bots.size >= options.playerIds.length &&
+    options.dedicatedServer !== true &&
+    options.networkRole !== 'client'
+  ) {
     // The completion set is HUMAN seats; a match of only bots would have
-    // nobody to complete a frame and nothing to wait for.
+    // nobody to complete a frame and nothing to wait for. A dedicated server
+    // completes them itself, and a client watching one is only ever handed
+    // such a roster by that server.
     throw new Error(
       'deterministic-lockstep requires at least one human seat; every seat is a bot',
     );
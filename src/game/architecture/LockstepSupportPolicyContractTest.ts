@@ -68,6 +68,23 @@ export function runLockstepSupportPolicyContractTest(): void {
     }),
     'a match of only bots must fail early — nobody would complete a frame',
   );
+  // ...unless a dedicated server coordinates it: the server completes every
+  // frame itself, and its watchers are handed that roster by it.
+  assertDeterministicLockstepSupported({
+    playerIds: [1 as PlayerId, 2 as PlayerId],
+    aiPlayerIds: [1 as PlayerId, 2 as PlayerId],
+    localPlayerId: undefined,
+    networkRole: 'host',
+    battleKind: 'real',
+    dedicatedServer: true,
+  });
+  assertDeterministicLockstepSupported({
+    playerIds: [1 as PlayerId, 2 as PlayerId],
+    aiPlayerIds: [1 as PlayerId, 2 as PlayerId],
+    localPlayerId: undefined,
+    networkRole: 'client',
+    battleKind: 'real',
+  });
   assertThrows(
     () => assertDeterministicLockstepSupported({
       playerIds: [1 as PlayerId, 2 as PlayerId],
@@ -3,11 +3,12 @@
  * arriving late can replay the game from frame 0.
  *
  * This plus the `BattleHandoff` IS the "full command history and map
- * parameters" a joiner needs. There is no simulation state serializer, so
- * replay from genesis is not one option among several — it is the mechanism,
- * and it is the same one `CanonicalCheckpoint` already validates end to end:
- * a config, a list of command frames, and a state hash to check the result
- * against.
+ * parameters" a joiner needs. A `SimulationSave` is an image of the world, but
+ * a world resumed from one only stays in step with peers that resumed from the
+ * same save (see the slot note there), so replay from genesis is still the
+ * mechanism, and it is the same one `CanonicalCheckpoint` already validates
+ * end to end: a config, a list of command frames, and a state hash to check
+ * the result against.
  *
  * Two decisions worth stating, because both are load-bearing:
  *
@@ -23,6 +24,8 @@
  * buffer to serve this would have quietly changed what a desync report means.
  */
 
+import type { GameServerConfig } from '@/types/game';
+import type { PlayerId } from '../sim/types';
 import type { LockstepCommandEnvelope } from './LockstepCommandProtocol';
 
 type ArchivedCommandFrame = {
@@ -31,6 +34,29 @@ type ArchivedCommandFrame = {
   readonly commands: readonly LockstepCommandEnvelope[];
 };
 
+/**
+ * The archive written out for offline use — the desync bisection tool replays
+ * a match from it. It carries what a replay needs besides the frames: the
+ * config to boot from, and the host seat, because host-only commands are
+ * validated against it exactly as a live peer validates them.
+ */
+export type MatchCommandArchiveExport = {
+  readonly schema: 'budget-annihilation.match-command-archive.v1';
+  readonly initializationHash: string;
+  readonly hostPlayerId: PlayerId;
+  readonly fixedDtMs: number;
+  readonly config: GameServerConfig;
+  readonly throughFrame: number;
+  readonly frames: readonly ArchivedCommandFrame[];
+};
+
+type ExportMatchCommandArchiveOptions = {
+  readonly initializationHash: string;
+  readonly hostPlayerId: PlayerId;
+  readonly fixedDtMs: number;
+  readonly config: GameServerConfig;
+};
+
 export type MatchCommandArchiveDiagnostics = {
   /** Frames actually stored — the ones that carried a command. */
   readonly storedFrameCount: number;
@@ -103,6 +129,18 @@ export class MatchCommandArchive {
     return null;
   }
 
+  export(options: ExportMatchCommandArchiveOptions): MatchCommandArchiveExport {
+    return {
+      schema: 'budget-annihilation.match-command-archive.v1',
+      initializationHash: options.initializationHash,
+      hostPlayerId: options.hostPlayerId,
+      fixedDtMs: options.fixedDtMs,
+      config: JSON.parse(JSON.stringify(options.config)) as GameServerConfig,
+      throughFrame: this.throughFrame,
+      frames: this.frames.map((entry) => ({ ...entry, commands: [...entry.commands] })),
+    };
+  }
+
   clear(): void {
     this.frames.length = 0;
     this.throughFrame = -1;
@@ -0,0 +1,692 @@
+/**
+ * A saved match: an image of the running world that a fresh server can adopt
+ * and carry on from.
+ *
+ * This is a different thing from a `CanonicalCheckpoint` or a replay. Those
+ * are a config plus a command log, and reaching their end means re-running the
+ * whole match. A save stores the state itself — entities, economies, factory
+ * queues, unit actions, the random stream position, the forest, the WASM body
+ * pool — so loading is proportional to the size of the world, not the length
+ * of the match. The config still travels with it, because the immutable layout
+ * (terrain, deposits, roster) is rebuilt by the normal bootstrap and then
+ * overwritten by the saved world.
+ *
+ * The canonical state hash at save time is stored next to the image and a load
+ * is not accepted until the restored world reproduces it. The hash covers what
+ * the lockstep peers compare, so a restored world that passes it is the same
+ * match as far as any peer could ever tell.
+ *
+ * Two things are deliberately not carried:
+ *
+ * IN-FLIGHT PATH SEARCHES. An A* job is a suspended computation, not state.
+ * The unit that asked rejoins the fresh lane and plans again from where it
+ * stands, exactly as after a job invalidated mid-search.
+ *
+ * SLOT NUMBERS. Entity and body slots are reissued in id order on load, so
+ * every process that resumes the same save allocates identically — but not
+ * necessarily the way the original run had them. That is why a late joiner
+ * could start from a save only if every peer resumed from it too; the joiner
+ * path still replays the command archive (see MatchCommandArchive).
+ *
+ * The image itself is JSON. Shared objects, cycles, Sets, Maps, typed arrays,
+ * `undefined` and non-finite numbers are tagged with a `$` key so the structure
+ * comes back as it was, and references to world entities are written as ids so
+ * each entity is stored exactly once.
+ */
+
+import type { GameServerConfig } from '@/types/game';
+import type { AutoShareThreshold, EconomyState } from '@/types/sim';
+import type { UnitGroundNormalEmaMode } from '../../shellConfig';
+import { beamIndex } from '../sim/BeamIndex';
+import {
+  getCompletedBuildingStorageOwner,
+  restoreCompletedBuildingStorageOwner,
+} from '../sim/buildingCompletion';
+import type { Command } from '../sim/commands';
+import { registerPackedProjectile } from '../sim/combat/projectileSystem';
+import { economyManager } from '../sim/economy';
+import type { SimulationSaveState } from '../sim/Simulation';
+import {
+  exportTerrainHeightEdits,
+  restoreTerrainHeightEdits,
+  type TerrainHeightEditSaveState,
+} from '../sim/Terrain';
+import {
+  createEmptyEntityComponentSlots,
+  isRayType,
+  type Entity,
+  type EntityId,
+  type PlayerId,
+} from '../sim/types';
+import {
+  getUnitGroundNormalEmaMode,
+  setUnitGroundNormalEmaMode,
+} from '../sim/unitGroundNormal';
+import {
+  exportVegetationPropStates,
+  restoreVegetationPropStates,
+  type VegetationPropSaveState,
+} from '../sim/vegetation';
+import type { WorldSaveState } from '../sim/WorldState';
+import { setLiquidSurfaceMode, setMetalCoverage } from '../sim/worldSurfaceState';
+import { createPhysicsBodyForBuilding } from '../server/buildingPhysicsBody';
+import type { Body3DSaveState } from '../server/PhysicsEngine3D';
+import { ServerBootstrap } from '../server/ServerBootstrap';
+import { ServerSimulationCore } from '../server/ServerSimulationCore';
+import { createPhysicsBodyForUnit } from '../server/unitPhysicsBody';
+import { disposeCheckpointCore } from './CanonicalCheckpoint';
+import {
+  hashCanonicalValue,
+  SIM_WASM_EXPECTED_VERSION,
+} from './CanonicalMatchInitialization';
+import type { CanonicalServerStateHash } from './CanonicalStateHash';
+import { resetReusableSimulationStateForDeterministicReplay } from './DeterministicReplayHarness';
+
+/** JSON as the save file stores it. */
+export type SaveValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SaveValue[]
+  | { [key: string]: SaveValue };
+
+export type SimulationSave = {
+  readonly schema: 'budget-annihilation.save.v1';
+  readonly savedAt: string;
+  readonly tick: number;
+  readonly playerIds: readonly PlayerId[];
+  /** The GameServerConfig the match booted from, encoded. */
+  readonly config: SaveValue;
+  /** Everything but the entities, encoded — see SimulationSaveSections. */
+  readonly sections: SaveValue;
+  /** One encoded record per world entity, in id order. */
+  readonly entities: readonly SaveValue[];
+  readonly stateHash: CanonicalServerStateHash;
+  readonly content: {
+    readonly simWasmExpectedVersion: string;
+    readonly configHash: string;
+    readonly imageHash: string;
+  };
+};
+
+type SimulationSaveSections = {
+  world: WorldSaveState;
+  simulation: SimulationSaveState;
+  economy: { playerId: PlayerId; state: EconomyState; autoShare: AutoShareThreshold }[];
+  pendingCommands: Command[];
+  unitGroundNormalEmaMode: UnitGroundNormalEmaMode;
+  backgroundAllowedUnitBlueprintIds: Set<string>;
+  backgroundAllowedBuildingBlueprintIds: Set<string>;
+  vegetation: VegetationPropSaveState[];
+  terrainHeightEdits: TerrainHeightEditSaveState[];
+  bodies: Body3DSaveState[];
+  ignoreStaticPairs: [EntityId, EntityId][];
+  storageOwners: [EntityId, PlayerId][];
+};
+
+type ImportedSimulationSave = {
+  readonly core: ServerSimulationCore;
+  readonly verifiedHash: CanonicalServerStateHash;
+};
+
+/** Entity fields that are handles into the live physics engine. Both are
+ *  reissued when the body is recreated on load. */
+const ENTITY_RUNTIME_FIELDS: ReadonlySet<string> = new Set(['body', 'entitySlotId']);
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor;
+
+const TYPED_ARRAY_KINDS: ReadonlyMap<string, TypedArrayConstructor> = new Map<string, TypedArrayConstructor>([
+  ['Int8Array', Int8Array],
+  ['Uint8Array', Uint8Array],
+  ['Uint8ClampedArray', Uint8ClampedArray],
+  ['Int16Array', Int16Array],
+  ['Uint16Array', Uint16Array],
+  ['Int32Array', Int32Array],
+  ['Uint32Array', Uint32Array],
+  ['Float32Array', Float32Array],
+  ['Float64Array', Float64Array],
+]);
+
+export function exportSimulationSave(
+  core: ServerSimulationCore,
+  config: GameServerConfig,
+  savedAt: string,
+): SimulationSave {
+  const { world, physics } = core;
+  const entities = [...world.getAllEntities()].sort((a, b) => a.id - b.id);
+
+  const storageOwners: [EntityId, PlayerId][] = [];
+  for (const entity of entities) {
+    const owner = getCompletedBuildingStorageOwner(entity);
+    if (owner !== undefined) storageOwners.push([entity.id, owner]);
+  }
+  const sections: SimulationSaveSections = {
+    world: world.exportSaveState(),
+    simulation: core.simulation.exportSaveState(),
+    economy: core.playerIds.map((playerId) => ({
+      playerId,
+      state: economyManager.getOrCreateEconomy(playerId),
+      autoShare: economyManager.getAutoShareThreshold(playerId),
+    })),
+    pendingCommands: core.commandQueue.getAll(),
+    unitGroundNormalEmaMode: getUnitGroundNormalEmaMode(),
+    backgroundAllowedUnitBlueprintIds: core.backgroundAllowedUnitBlueprintIds,
+    backgroundAllowedBuildingBlueprintIds: core.backgroundAllowedBuildingBlueprintIds,
+    vegetation: exportVegetationPropStates(),
+    terrainHeightEdits: exportTerrainHeightEdits(),
+    bodies: physics.exportBodyStates(),
+    ignoreStaticPairs: physics.exportIgnoreStaticPairs(),
+    storageOwners,
+  };
+
+  const image = encodeSimulationImage(sections, entities);
+  const encodedConfig = encodeSaveValue(config);
+  return {
+    schema: 'budget-annihilation.save.v1',
+    savedAt,
+    tick: world.getTick(),
+    playerIds: [...core.playerIds],
+    config: encodedConfig,
+    sections: image.sections,
+    entities: image.entities,
+    stateHash: core.getCanonicalStateHash(),
+    content: {
+      simWasmExpectedVersion: SIM_WASM_EXPECTED_VERSION,
+      configHash: hashCanonicalValue(encodedConfig),
+      imageHash: hashCanonicalValue({ sections: image.sections, entities: image.entities }),
+    },
+  };
+}
+
+export function parseSimulationSaveFile(value: unknown): SimulationSave {
+  if (!isRecord(value)) throw new Error('[simulation save] file is not a JSON object');
+  if (value.schema !== 'budget-annihilation.save.v1') {
+    throw new Error(`[simulation save] unsupported schema: ${String(value.schema)}`);
+  }
+  if (typeof value.savedAt !== 'string') throw new Error('[simulation save] savedAt must be a string');
+  const tick = value.tick;
+  if (typeof tick !== 'number' || !Number.isInteger(tick) || tick < 0) {
+    throw new Error('[simulation save] tick must be a non-negative integer');
+  }
+  const playerIds = value.playerIds;
+  if (
+    !Array.isArray(playerIds) ||
+    playerIds.length === 0 ||
+    !playerIds.every((id) => typeof id === 'number' && Number.isInteger(id) && id > 0)
+  ) {
+    throw new Error('[simulation save] playerIds must be a non-empty list of seats');
+  }
+  if (!isRecord(value.config)) throw new Error('[simulation save] config is missing');
+  if (!isRecord(value.sections)) throw new Error('[simulation save] sections are missing');
+  const entities = value.entities;
+  if (!Array.isArray(entities)) throw new Error('[simulation save] entities must be a list');
+  for (let i = 0; i < entities.length; i++) {
+    const record: unknown = entities[i];
+    if (!isRecord(record) || !isEntityIdValue(record.id) || typeof record.type !== 'string') {
+      throw new Error(`[simulation save] entity ${i} is malformed`);
+    }
+    if (i > 0 && record.id <= ((entities[i - 1] as Record<string, unknown>).id as number)) {
+      throw new Error(`[simulation save] entity ${i} is out of id order`);
+    }
+  }
+  const stateHash = value.stateHash;
+  if (!isRecord(stateHash) || typeof stateHash.hash !== 'string') {
+    throw new Error('[simulation save] stateHash is missing');
+  }
+  const content = value.content;
+  if (
+    !isRecord(content) ||
+    typeof content.simWasmExpectedVersion !== 'string' ||
+    typeof content.configHash !== 'string' ||
+    typeof content.imageHash !== 'string'
+  ) {
+    throw new Error('[simulation save] content hashes are missing');
+  }
+  if (content.configHash !== hashCanonicalValue(value.config)) {
+    throw new Error('[simulation save] config hash mismatch');
+  }
+  if (content.imageHash !== hashCanonicalValue({ sections: value.sections, entities })) {
+    throw new Error('[simulation save] image hash mismatch');
+  }
+  return value as unknown as SimulationSave;
+}
+
+/** The GameServerConfig the saved match booted from. */
+export function simulationSaveGameServerConfig(save: SimulationSave): GameServerConfig {
+  return decodeSaveValue(save.config) as GameServerConfig;
+}
+
+/**
+ * Replace the world inside `core` with the saved one. `core` must have been
+ * booted from `simulationSaveGameServerConfig(save)` and not stepped since.
+ * Throws when the restored world does not reproduce the saved hash; the core
+ * is then in no state to continue and should be disposed.
+ */
+export function restoreSimulationSave(
+  core: ServerSimulationCore,
+  save: SimulationSave,
+): CanonicalServerStateHash {
+  if (save.content.simWasmExpectedVersion !== SIM_WASM_EXPECTED_VERSION) {
+    throw new Error(
+      '[simulation save] incompatible sim-wasm version: ' +
+        `${save.content.simWasmExpectedVersion} !== ${SIM_WASM_EXPECTED_VERSION}`,
+    );
+  }
+  const { world, physics, simulation } = core;
+
+  // Clear the bootstrapped match out. Removal frees each body through the
+  // core's onEntityRemoving hook; everything else those entities touched
+  // (economy, grid, ledgers) is overwritten below.
+  for (const entity of [...world.getAllEntities()]) world.removeEntity(entity.id);
+  core.clearPendingCommandsAndStepBuffers();
+  core.resetSessionState();
+
+  const { sections, entities } = decodeSimulationImage(save);
+
+  // Craters first: bodies and buildings settle onto the ground as it was.
+  restoreTerrainHeightEdits(sections.terrainHeightEdits);
+  for (const entity of entities) world.addEntity(entity);
+
+  // Recreating a body moves the entity onto it, so the saved pose is put
+  // back once the body carries its saved state too.
+  const entitiesById = new Map<EntityId, Entity>();
+  for (const entity of entities) entitiesById.set(entity.id, entity);
+  for (const state of sections.bodies) {
+    const entity = entitiesById.get(state.entityId);
+    if (entity === undefined) {
+      throw new Error(`[simulation save] body references missing entity ${state.entityId}`);
+    }
+    const transform = { ...entity.transform };
+    if (entity.unit !== null) createPhysicsBodyForUnit(world, physics, entity);
+    else createPhysicsBodyForBuilding(world, physics, entity);
+    if (entity.body === null) {
+      throw new Error(`[simulation save] entity ${entity.id} cannot carry a body`);
+    }
+    physics.restoreBodyState(entity.body.physicsBody, state);
+    Object.assign(entity.transform, transform);
+  }
+  for (const [dynamicId, staticId] of sections.ignoreStaticPairs) {
+    const dynamicBody = entitiesById.get(dynamicId)?.body;
+    const staticBody = entitiesById.get(staticId)?.body;
+    if (!dynamicBody || !staticBody) continue;
+    physics.setIgnoreStatic(dynamicBody.physicsBody, staticBody.physicsBody);
+  }
+
+  for (const entity of entities) {
+    const proj = entity.projectile;
+    if (proj === null) continue;
+    registerPackedProjectile(entity);
+    if (isRayType(proj.projectileType)) {
+      beamIndex.addBeam(proj.sourceEntityId, proj.config.turretIndex ?? 0, entity.id);
+    }
+  }
+  for (const [entityId, playerId] of sections.storageOwners) {
+    const entity = entitiesById.get(entityId);
+    if (entity !== undefined) restoreCompletedBuildingStorageOwner(entity, playerId);
+  }
+
+  // The simulation restore requeues interrupted path plans, so it needs the
+  // entities; the world restore goes last because adding the entities moved
+  // the very counters it puts back.
+  simulation.restoreSaveState(sections.simulation);
+  world.restoreSaveState(sections.world);
+  setMetalCoverage(world.metalCoverage);
+  setLiquidSurfaceMode(world.liquidSurfaceMode);
+  setUnitGroundNormalEmaMode(sections.unitGroundNormalEmaMode);
+  replaceSet(core.backgroundAllowedUnitBlueprintIds, sections.backgroundAllowedUnitBlueprintIds);
+  replaceSet(core.backgroundAllowedBuildingBlueprintIds, sections.backgroundAllowedBuildingBlueprintIds);
+
+  for (const { playerId, state, autoShare } of sections.economy) {
+    economyManager.setEconomyState(playerId, state);
+    economyManager.setAutoShareThreshold(playerId, autoShare);
+  }
+  for (const command of sections.pendingCommands) core.commandQueue.enqueue(command);
+  restoreVegetationPropStates(sections.vegetation);
+
+  const verifiedHash = core.getCanonicalStateHash();
+  if (verifiedHash.hash !== save.stateHash.hash) {
+    throw new Error(
+      '[simulation save] restored hash mismatch: ' +
+        `${verifiedHash.hash} !== ${save.stateHash.hash}`,
+    );
+  }
+  return verifiedHash;
+}
+
+/** Boot a headless core straight into a save — the save-file counterpart of
+ *  importCanonicalCheckpoint. */
+export function importSimulationSave(save: SimulationSave): ImportedSimulationSave {
+  resetReusableSimulationStateForDeterministicReplay();
+  const boot = ServerBootstrap.bootstrap(simulationSaveGameServerConfig(save));
+  const core = new ServerSimulationCore(boot);
+  try {
+    const verifiedHash = restoreSimulationSave(core, save);
+    return { core, verifiedHash };
+  } catch (err) {
+    disposeCheckpointCore(core);
+    throw err;
+  }
+}
+
+// ── Image codec ──────────────────────────────────────────────────
+
+/** Encode a standalone value (no world entities in reach). */
+export function encodeSaveValue(value: unknown): SaveValue {
+  const encoder = new SaveEncoder(new Map());
+  encoder.count(value, false);
+  return encoder.encode(value, '$', false);
+}
+
+export function decodeSaveValue(value: SaveValue): unknown {
+  return new SaveDecoder(new Map()).decode(value, '$');
+}
+
+function encodeSimulationImage(
+  sections: SimulationSaveSections,
+  entities: readonly Entity[],
+): { sections: SaveValue; entities: SaveValue[] } {
+  const entityIdByObject = new Map<object, EntityId>();
+  for (const entity of entities) entityIdByObject.set(entity, entity.id);
+  const encoder = new SaveEncoder(entityIdByObject);
+  // Sections first, then entities, on both passes and on decode: a shared
+  // object is written out in full at its first visit in that order.
+  encoder.count(sections, false);
+  for (const entity of entities) encoder.count(entity, true);
+  return {
+    sections: encoder.encode(sections, 'sections', false),
+    entities: entities.map((entity) => encoder.encode(entity, `entity ${entity.id}`, true)),
+  };
+}
+
+function decodeSimulationImage(
+  save: SimulationSave,
+): { sections: SimulationSaveSections; entities: Entity[] } {
+  // Shells first, so a reference to any entity resolves however early it
+  // appears in the image.
+  const entities: Entity[] = [];
+  const entitiesById = new Map<EntityId, Entity>();
+  for (const record of save.entities) {
+    const { id, type } = record as { id: EntityId; type: Entity['type'] };
+    const shell = { ...createEmptyEntityComponentSlots(), id, type } as Entity;
+    entities.push(shell);
+    entitiesById.set(id, shell);
+  }
+  const decoder = new SaveDecoder(entitiesById);
+  const sections = decoder.decode(save.sections, 'sections') as SimulationSaveSections;
+  for (let i = 0; i < entities.length; i++) {
+    decoder.decodeFields(entities[i], save.entities[i], `entity ${entities[i].id}`);
+  }
+  return { sections, entities };
+}
+
+class SaveEncoder {
+  private readonly entityIds: ReadonlyMap<object, EntityId>;
+  private readonly visits = new Map<object, number>();
+  private readonly sharedIds = new Map<object, number>();
+  private nextSharedId = 0;
+
+  constructor(entityIds: ReadonlyMap<object, EntityId>) {
+    this.entityIds = entityIds;
+  }
+
+  /** First pass: find the objects reachable more than once. */
+  count(value: unknown, isEntityRecord: boolean): void {
+    if (typeof value !== 'object' || value === null) return;
+    if (!isEntityRecord && this.entityIds.has(value)) return;
+    const seen = this.visits.get(value) ?? 0;
+    this.visits.set(value, seen + 1);
+    if (seen > 0) return;
+    if (Array.isArray(value)) {
+      for (const item of value) this.count(item, false);
+    } else if (value instanceof Set) {
+      for (const item of value) this.count(item, false);
+    } else if (value instanceof Map) {
+      for (const [key, item] of value) {
+        this.count(key, false);
+        this.count(item, false);
+      }
+    } else if (!ArrayBuffer.isView(value)) {
+      for (const key of recordKeys(value, isEntityRecord)) {
+        this.count((value as Record<string, unknown>)[key], false);
+      }
+    }
+  }
+
+  encode(value: unknown, path: string, isEntityRecord: boolean): SaveValue {
+    if (value === undefined) return { $: 'undefined' };
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') return value;
+    if (typeof value === 'number') return encodeNumber(value);
+    if (typeof value !== 'object') {
+      throw new Error(`[simulation save] cannot save a ${typeof value} at ${path}`);
+    }
+    if (!isEntityRecord) {
+      const entityId = this.entityIds.get(value);
+      if (entityId !== undefined) return { $: 'entity', id: entityId };
+    }
+    if ((this.visits.get(value) ?? 0) > 1) {
+      const sharedId = this.sharedIds.get(value);
+      if (sharedId !== undefined) return { $: 'ref', id: sharedId };
+      const id = this.nextSharedId++;
+      this.sharedIds.set(value, id);
+      return { $: 'shared', id, value: this.encodeObject(value, path, isEntityRecord) };
+    }
+    return this.encodeObject(value, path, isEntityRecord);
+  }
+
+  private encodeObject(value: object, path: string, isEntityRecord: boolean): SaveValue {
+    if (Array.isArray(value)) {
+      return value.map((item: unknown, i) => this.encode(item, `${path}[${i}]`, false));
+    }
+    if (value instanceof Set) {
+      let i = 0;
+      const values: SaveValue[] = [];
+      for (const item of value) values.push(this.encode(item, `${path}{${i++}}`, false));
+      return { $: 'set', values };
+    }
+    if (value instanceof Map) {
+      let i = 0;
+      const entries: SaveValue[] = [];
+      for (const [key, item] of value) {
+        entries.push([
+          this.encode(key, `${path}<key ${i}>`, false),
+          this.encode(item, `${path}<${i}>`, false),
+        ]);
+        i++;
+      }
+      return { $: 'map', entries };
+    }
+    if (ArrayBuffer.isView(value)) {
+      const kind = value.constructor.name;
+      if (!TYPED_ARRAY_KINDS.has(kind)) {
+        throw new Error(`[simulation save] cannot save a ${kind} at ${path}`);
+      }
+      return { $: 'typed', kind, values: Array.from(value as Float64Array, encodeNumber) };
+    }
+    const proto: unknown = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      const name = (value as { constructor?: { name?: string } }).constructor?.name ?? 'object';
+      throw new Error(`[simulation save] cannot save a ${name} instance at ${path}`);
+    }
+    if (Object.prototype.hasOwnProperty.call(value, '$')) {
+      throw new Error(`[simulation save] cannot save an object with a "$" key at ${path}`);
+    }
+    const record: { [key: string]: SaveValue } = {};
+    for (const key of recordKeys(value, isEntityRecord)) {
+      const item = (value as Record<string, unknown>)[key];
+      if (typeof item === 'function') {
+        throw new Error(`[simulation save] cannot save a function at ${path}.${key}`);
+      }
+      record[key] = this.encode(item, `${path}.${key}`, false);
+    }
+    return record;
+  }
+}
+
+class SaveDecoder {
+  private readonly entities: ReadonlyMap<EntityId, Entity>;
+  private readonly shared = new Map<number, unknown>();
+
+  constructor(entities: ReadonlyMap<EntityId, Entity>) {
+    this.entities = entities;
+  }
+
+  decode(value: unknown, path: string): unknown {
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') return value;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) throw new Error(`[simulation save] bad number at ${path}`);
+      return value;
+    }
+    if (Array.isArray(value)) return this.decodeObject(value, path, undefined);
+    if (!isRecord(value)) throw new Error(`[simulation save] unreadable value at ${path}`);
+    switch (value.$) {
+      case undefined:
+        return this.decodeObject(value, path, undefined);
+      case 'undefined':
+        return undefined;
+      case 'number':
+        return decodeNumber(value, path);
+      case 'entity': {
+        const entity = isEntityIdValue(value.id) ? this.entities.get(value.id) : undefined;
+        if (entity === undefined) {
+          throw new Error(`[simulation save] reference to missing entity at ${path}`);
+        }
+        return entity;
+      }
+      case 'ref': {
+        if (typeof value.id !== 'number' || !this.shared.has(value.id)) {
+          throw new Error(`[simulation save] dangling shared reference at ${path}`);
+        }
+        return this.shared.get(value.id);
+      }
+      case 'shared': {
+        if (typeof value.id !== 'number' || this.shared.has(value.id)) {
+          throw new Error(`[simulation save] bad shared object id at ${path}`);
+        }
+        return this.decodeObject(value.value, path, value.id);
+      }
+      case 'set':
+      case 'map':
+      case 'typed':
+        return this.decodeObject(value, path, undefined);
+      default:
+        throw new Error(`[simulation save] unknown tag ${String(value.$)} at ${path}`);
+    }
+  }
+
+  /** Decode an entity record onto its shell. */
+  decodeFields(target: Entity, record: SaveValue, path: string): void {
+    if (!isRecord(record)) throw new Error(`[simulation save] unreadable record at ${path}`);
+    const fields = target as unknown as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (ENTITY_RUNTIME_FIELDS.has(key)) continue;
+      fields[key] = this.decode(record[key], `${path}.${key}`);
+    }
+    target.body = null;
+    target.entitySlotId = -1;
+  }
+
+  /** Build the container before its contents so a shared object is
+   *  registered before any cycle through it is followed. */
+  private decodeObject(value: unknown, path: string, sharedId: number | undefined): unknown {
+    const register = (object: unknown): void => {
+      if (sharedId !== undefined) this.shared.set(sharedId, object);
+    };
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      register(array);
+      for (let i = 0; i < value.length; i++) array.push(this.decode(value[i], `${path}[${i}]`));
+      return array;
+    }
+    if (!isRecord(value)) throw new Error(`[simulation save] unreadable object at ${path}`);
+    switch (value.$) {
+      case 'set': {
+        if (!Array.isArray(value.values)) throw new Error(`[simulation save] bad set at ${path}`);
+        const set = new Set<unknown>();
+        register(set);
+        value.values.forEach((item, i) => set.add(this.decode(item, `${path}{${i}}`)));
+        return set;
+      }
+      case 'map': {
+        if (!Array.isArray(value.entries)) throw new Error(`[simulation save] bad map at ${path}`);
+        const map = new Map<unknown, unknown>();
+        register(map);
+        value.entries.forEach((entry, i) => {
+          if (!Array.isArray(entry) || entry.length !== 2) {
+            throw new Error(`[simulation save] bad map entry at ${path}<${i}>`);
+          }
+          map.set(this.decode(entry[0], `${path}<key ${i}>`), this.decode(entry[1], `${path}<${i}>`));
+        });
+        return map;
+      }
+      case 'typed': {
+        const ctor = typeof value.kind === 'string' ? TYPED_ARRAY_KINDS.get(value.kind) : undefined;
+        if (ctor === undefined || !Array.isArray(value.values)) {
+          throw new Error(`[simulation save] bad typed array at ${path}`);
+        }
+        const typed = new ctor(value.values.length);
+        for (let i = 0; i < value.values.length; i++) {
+          typed[i] = decodeNumber(value.values[i], `${path}[${i}]`);
+        }
+        register(typed);
+        return typed;
+      }
+      case undefined: {
+        const record: Record<string, unknown> = {};
+        register(record);
+        for (const key of Object.keys(value)) record[key] = this.decode(value[key], `${path}.${key}`);
+        return record;
+      }
+      default:
+        throw new Error(`[simulation save] tag ${String(value.$)} cannot be shared at ${path}`);
+    }
+  }
+}
+
+function recordKeys(value: object, isEntityRecord: boolean): string[] {
+  const keys = Object.keys(value);
+  return isEntityRecord ? keys.filter((key) => !ENTITY_RUNTIME_FIELDS.has(key)) : keys;
+}
+
+function encodeNumber(value: number): SaveValue {
+  if (Number.isNaN(value)) return { $: 'number', value: 'NaN' };
+  if (value === Infinity) return { $: 'number', value: 'Infinity' };
+  if (value === -Infinity) return { $: 'number', value: '-Infinity' };
+  if (Object.is(value, -0)) return { $: 'number', value: '-0' };
+  return value;
+}
+
+function decodeNumber(value: unknown, path: string): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (isRecord(value) && value.$ === 'number') {
+    switch (value.value) {
+      case 'NaN': return NaN;
+      case 'Infinity': return Infinity;
+      case '-Infinity': return -Infinity;
+      case '-0': return -0;
+    }
+  }
+  throw new Error(`[simulation save] bad number at ${path}`);
+}
+
+function replaceSet<T>(target: Set<T>, source: ReadonlySet<T>): void {
+  target.clear();
+  for (const item of source) target.add(item);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEntityIdValue(value: unknown): value is EntityId {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
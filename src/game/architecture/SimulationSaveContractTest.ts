@@ -0,0 +1,226 @@
+import type { GameServerConfig } from '@/types/game';
+import type { Command } from '../sim/commands';
+import type { PlayerId } from '../sim/types';
+import { ServerBootstrap } from '../server/ServerBootstrap';
+import { ServerSimulationCore } from '../server/ServerSimulationCore';
+import {
+  getAuthoritativeTerrainTileMap,
+  setAuthoritativeTerrainTileMap,
+} from '../sim/terrain/terrainState';
+import { disposeCheckpointCore } from './CanonicalCheckpoint';
+import { hashCanonicalValue, SIM_WASM_EXPECTED_VERSION } from './CanonicalMatchInitialization';
+import { resetReusableSimulationStateForDeterministicReplay } from './DeterministicReplayHarness';
+import { LOCKSTEP_FIXED_DT_MS } from './LockstepFrameScheduler';
+import {
+  decodeSaveValue,
+  encodeSaveValue,
+  exportSimulationSave,
+  importSimulationSave,
+  parseSimulationSaveFile,
+  type SaveValue,
+  type SimulationSave,
+} from './SimulationSave';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`[simulation save contract] ${message}`);
+  }
+}
+
+function throwsSaveError(run: () => unknown): boolean {
+  try {
+    run();
+    return false;
+  } catch (err) {
+    return (err as Error).message.startsWith('[simulation save]');
+  }
+}
+
+function throughFile(value: unknown): unknown {
+  return decodeSaveValue(JSON.parse(JSON.stringify(encodeSaveValue(value))) as SaveValue);
+}
+
+/** Restores the shared terrain mesh afterwards, for the same reason as
+ *  runCanonicalCheckpointContractTest. */
+export function runSimulationSaveContractTest(): void {
+  runSaveCodecContract();
+  runSaveFileContract();
+  const installedTerrain = getAuthoritativeTerrainTileMap();
+  try {
+    runSaveRestoreContract();
+  } finally {
+    setAuthoritativeTerrainTileMap(installedTerrain);
+  }
+}
+
+function runSaveCodecContract(): void {
+  // Values JSON would flatten or drop come back as they were.
+  const restored = throughFile({
+    ids: new Set([3, 1, 2]),
+    byId: new Map([[7, 'seven'], [9, 'nine']]),
+    special: [NaN, Infinity, -Infinity, -0, 0.5],
+    missing: undefined,
+    holes: [1, undefined, 3],
+    pool: new Float64Array([1.5, NaN]),
+  }) as {
+    ids: Set<number>;
+    byId: Map<number, string>;
+    special: number[];
+    missing: undefined;
+    holes: unknown[];
+    pool: Float64Array;
+  };
+  assertContract(
+    restored.ids instanceof Set && [...restored.ids].join(',') === '3,1,2',
+    'sets should keep their members and insertion order',
+  );
+  assertContract(
+    restored.byId instanceof Map && restored.byId.get(9) === 'nine',
+    'maps should keep their non-string keys',
+  );
+  assertContract(
+    Number.isNaN(restored.special[0]) &&
+      restored.special[1] === Infinity &&
+      restored.special[2] === -Infinity &&
+      Object.is(restored.special[3], -0),
+    'non-finite numbers and negative zero should survive',
+  );
+  assertContract(
+    'missing' in restored && restored.missing === undefined && restored.holes[1] === undefined,
+    'undefined fields and array entries should be kept, not dropped',
+  );
+  assertContract(
+    restored.pool instanceof Float64Array && Number.isNaN(restored.pool[1]),
+    'typed arrays should come back as the same kind',
+  );
+
+  // Shared objects stay shared, and cycles close.
+  const waypoint = { x: 1, y: 2 };
+  const loop: { self?: unknown } = {};
+  loop.self = loop;
+  const graph = throughFile({ a: waypoint, b: [waypoint], loop }) as {
+    a: object;
+    b: object[];
+    loop: { self: unknown };
+  };
+  assertContract(graph.a === graph.b[0], 'an object reached twice should be one object again');
+  assertContract(graph.loop.self === graph.loop, 'a cycle should close on itself');
+
+  // What cannot be written faithfully is refused rather than approximated.
+  class Scratch {
+    value = 1;
+  }
+  assertContract(throwsSaveError(() => encodeSaveValue({ s: new Scratch() })), 'class instances should be refused');
+  assertContract(throwsSaveError(() => encodeSaveValue({ f: () => 1 })), 'functions should be refused');
+  assertContract(throwsSaveError(() => encodeSaveValue({ $: 'set' })), 'a literal "$" key should be refused');
+}
+
+function runSaveFileContract(): void {
+  // A file is only accepted with its hashes intact and its entities in order.
+  const config = encodeSaveValue({ playerIds: [1, 2], initialAllowedUnitBlueprintIds: new Set(['unitJackal']) });
+  const sections = encodeSaveValue({ world: { tick: 40 } });
+  const entities = [
+    encodeSaveValue({ id: 1, type: 'unit' }),
+    encodeSaveValue({ id: 4, type: 'building' }),
+  ];
+  const save = {
+    schema: 'budget-annihilation.save.v1',
+    savedAt: '2026-01-01T00:00:00.000Z',
+    tick: 40,
+    playerIds: [1, 2],
+    config,
+    sections,
+    entities,
+    stateHash: { hash: 'fnv1a32:00000000' },
+    content: {
+      simWasmExpectedVersion: SIM_WASM_EXPECTED_VERSION,
+      configHash: hashCanonicalValue(config),
+      imageHash: hashCanonicalValue({ sections, entities }),
+    },
+  };
+  const parsed = parseSimulationSaveFile(JSON.parse(JSON.stringify(save)));
+  assertContract(parsed.tick === 40 && parsed.entities.length === 2, 'a sound file should parse');
+  assertContract(throwsSaveError(() => parseSimulationSaveFile(null)), 'non-object files should be refused');
+  assertContract(
+    throwsSaveError(() => parseSimulationSaveFile({ ...save, schema: 'budget-annihilation.save.v0' })),
+    'unknown schemas should be refused',
+  );
+  assertContract(
+    throwsSaveError(() => parseSimulationSaveFile({ ...save, sections: encodeSaveValue({ world: { tick: 41 } }) })),
+    'an edited image should fail its hash',
+  );
+  assertContract(
+    throwsSaveError(() => parseSimulationSaveFile({ ...save, entities: [...entities].reverse() })),
+    'entities out of id order should be refused',
+  );
+}
+
+function runSaveRestoreContract(): void {
+  const config: GameServerConfig = {
+    playerIds: [1 as PlayerId, 2 as PlayerId],
+    centerMagnitude: 0,
+    ringMagnitude: 0,
+    dividersMagnitude: 0,
+    perimeterMagnitude: -800,
+    terrainPrecedence: 'perimeter-precedence',
+    terrainDTerrain: 0,
+    plateauWallSlopeDegrees: 89,
+    metalDepositStep: 0,
+    terrainDetail: 1,
+    mapWidthLandCells: 9,
+    mapLengthLandCells: 9,
+    converterTax: 0,
+  };
+
+  resetReusableSimulationStateForDeterministicReplay();
+  const baseline = new ServerSimulationCore(ServerBootstrap.bootstrap(config));
+  let save: SimulationSave;
+  let baselineFrame30Hash: string;
+  try {
+    // A unit mid-move at save time: actions, velocity and the body pool all
+    // have something to carry.
+    const commander = baseline.world.getCommander(1 as PlayerId);
+    assertContract(commander !== undefined, 'missing commander fixture');
+    const move: Command = {
+      type: 'move',
+      tick: 0,
+      entityIds: [commander.id],
+      targetX: commander.transform.x + 120,
+      targetY: commander.transform.y,
+      targetZ: commander.transform.z,
+      waypointType: 'move',
+      queue: false,
+    };
+    stepCoreToFrame(baseline, 20, move);
+    save = parseSimulationSaveFile(JSON.parse(JSON.stringify(
+      exportSimulationSave(baseline, config, '2026-01-01T00:00:00.000Z'),
+    )));
+    assertContract(save.tick === 20, 'a save should record the tick it was taken at');
+    stepCoreToFrame(baseline, 30, null);
+    baselineFrame30Hash = baseline.getCanonicalStateHash().hash;
+  } finally {
+    disposeCheckpointCore(baseline);
+  }
+
+  const imported = importSimulationSave(save);
+  try {
+    assertContract(
+      imported.verifiedHash.hash === save.stateHash.hash,
+      'a load should reproduce the saved state hash',
+    );
+    stepCoreToFrame(imported.core, 30, null);
+    assertContract(
+      imported.core.getCanonicalStateHash().hash === baselineFrame30Hash,
+      'a loaded save should carry on exactly as the saved match did',
+    );
+  } finally {
+    disposeCheckpointCore(imported.core);
+  }
+}
+
+function stepCoreToFrame(core: ServerSimulationCore, targetFrame: number, firstCommand: Command | null): void {
+  while (core.world.getTick() < targetFrame) {
+    const frame = core.world.getTick();
+    core.stepFixedTick(LOCKSTEP_FIXED_DT_MS, frame === 0 && firstCommand !== null ? [firstCommand] : []);
+  }
+}
@@ -1,5 +1,5 @@
 // AudioManager — facade for all game audio (one-shot and continuous sounds)
-// Delegates synth work to helper modules; owns AudioContext, master gain, and continuous sound state.
+// Delegates synth work to helper modules; owns AudioContext, master gain, continuous sound state, and the spatial listener.
 
 import { AUDIO, beamSoundFrequencyFromHarmonicIndex } from '../../audioConfig';
 import { AUDIO_ENABLED } from '../../config';
@@ -8,8 +8,22 @@ import type { AudioToolkit } from './audioHelpers';
 import { FIRE_SYNTHS } from './fireSynths';
 import { HIT_SYNTHS } from './hitSynths';
 import { DEATH_SYNTHS } from './deathSynths';
+import { ALERT_SYNTHS } from './alertSynths';
 import type { TurretAudioId } from '../../types/combat';
 import type { SoundCategory } from '../../types/client';
+import type { ContinuousSoundConfig } from '../../types/audio';
+import type { GameAlertKind } from '../../types/ui';
+import type * as THREE from 'three';
+import {
+  type SpatialAudioSource,
+  type SpatialPlacement,
+  type SpatialVoiceCategory,
+  SpatialVoiceLimiter,
+  createSpatialAudioListener,
+  createSpatialPlacement,
+  resolveSpatialPlacement,
+  updateSpatialAudioListener,
+} from './spatialAudio';
 import {
   type ContinuousSound,
   startContinuousSound,
@@ -26,6 +40,7 @@ const SYNTH_DISPATCH: Record<string, (tk: AudioToolkit, speed: number, vol: numb
   ...FIRE_SYNTHS,
   ...HIT_SYNTHS,
   ...DEATH_SYNTHS,
+  ...ALERT_SYNTHS,
 };
 
 // Length of the one shared white-noise buffer. Long enough that looping
@@ -33,6 +48,26 @@ const SYNTH_DISPATCH: Record<string, (tk: AudioToolkit, speed: number, vol: numb
 // uncorrelated; ~2s mono at 48kHz is ~384KB once, total.
 const SHARED_NOISE_BUFFER_SECONDS = 2;
 
+// How long a one-shot's gains stay wired to the mix. Every synth plays out
+// well inside it; a placed one-shot's panner chain is released just after.
+const ONE_SHOT_LIFETIME_MS = 1000;
+
+// A placed loop's fog lowpass sits wide open while the loop is in sight, so
+// a refresh can muffle it (or clear it) without rebuilding the chain.
+const OPEN_LOWPASS_HZ = 20000;
+
+// Per-frame loop re-placement skips pan moves smaller than this.
+const LOOP_PAN_EPSILON = 0.01;
+
+/** A continuous loop that follows its source: where it is, and the pan
+ *  and fog lowpass its output runs through. */
+type SpatialLoop = {
+  source: SpatialAudioSource;
+  zoomVolume: number;
+  panner: StereoPannerNode;
+  lowpass: BiquadFilterNode;
+};
+
 /** Subset of SoundCategory handled inside AudioManager — every value
  *  here gates one or more play methods below. `music` is excluded
  *  because musicPlayer owns music playback; the SOUNDS: button for
@@ -62,6 +97,13 @@ class AudioManager {
   private voiceStartsThisWindow = 0;
   private readonly voiceStartsBySynth = new Map<string, number>();
 
+  // Spatial mix: the camera listener (refreshed by the scene each frame),
+  // region voice limits for one-shots, and the placed continuous loops.
+  private readonly listener = createSpatialAudioListener();
+  private readonly spatialVoices = new SpatialVoiceLimiter();
+  private readonly spatialLoops = new Map<ContinuousSound, SpatialLoop>();
+  private readonly placementScratch = createSpatialPlacement();
+
   // Volume controls
   public masterVolume = AUDIO.masterVolume;
   public sfxVolume = AUDIO.sfxVolume;
@@ -101,17 +143,19 @@ class AudioManager {
   }
 
   // AudioToolkit — passed to synth functions so they can create nodes
-  private getToolkit(): AudioToolkit | null {
+  // `output` routes the synth's gains through a spatial chain instead of
+  // straight into the master bus.
+  private getToolkit(output: AudioNode | null = null): AudioToolkit | null {
     const ctx = this.ensureContext();
     if (!ctx || !this.masterGain) return null;
-    const mgain = this.masterGain;
+    const destination = output ?? this.masterGain;
     const sfx = this.sfxVolume;
     return {
       ctx,
-      createGain: (volume: number = 1, autoDisconnectMs: number = 1000): GainNode | null => {
+      createGain: (volume: number = 1, autoDisconnectMs: number = ONE_SHOT_LIFETIME_MS): GainNode | null => {
         const gain = ctx.createGain();
         gain.gain.value = volume * sfx;
-        gain.connect(mgain);
+        gain.connect(destination);
         if (autoDisconnectMs > 0) {
           const timeoutId = setTimeout(() => {
             this.gainCleanupTimeouts.delete(timeoutId);
@@ -139,6 +183,109 @@ class AudioManager {
     };
   }
 
+  // ==================== SPATIAL MIX ====================
+
+  /** Refresh the listener from the camera. `focus` is the orbit target (three
+   *  coordinates) and `zoomDistance` the orbit distance. Live loops are
+   *  re-placed so a beam keeps its side of the screen as the camera moves. */
+  updateListener(camera: THREE.PerspectiveCamera, focus: THREE.Vector3, zoomDistance: number): void {
+    updateSpatialAudioListener(this.listener, camera, focus, zoomDistance);
+    const ctx = this.ctx;
+    if (!ctx || this.spatialLoops.size === 0) return;
+    for (const [sound, loop] of this.spatialLoops) this.placeLoop(ctx, sound, loop);
+  }
+
+  /** How loud `source` would play from the current camera (distance and
+   *  fog gain, 0 out of earshot) — the music director's proximity. */
+  sourceGain(source: SpatialAudioSource): number {
+    return resolveSpatialPlacement(this.listener, source, this.placementScratch).gain;
+  }
+
+  /** Forget the camera (scene teardown): placement falls back to centred. */
+  resetListener(): void {
+    this.listener.ready = false;
+    this.spatialVoices.reset();
+  }
+
+  private createPanner(ctx: AudioContext, master: GainNode, pan: number): StereoPannerNode {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    panner.connect(master);
+    return panner;
+  }
+
+  private createLowpass(ctx: AudioContext, output: AudioNode, cutoffHz: number): BiquadFilterNode {
+    const lowpass = ctx.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = cutoffHz;
+    lowpass.connect(output);
+    return lowpass;
+  }
+
+  private placeLoop(ctx: AudioContext, sound: ContinuousSound, loop: SpatialLoop): void {
+    const placement = resolveSpatialPlacement(this.listener, loop.source, this.placementScratch);
+    const now = ctx.currentTime;
+    if (Math.abs(loop.panner.pan.value - placement.pan) >= LOOP_PAN_EPSILON) {
+      loop.panner.pan.setTargetAtTime(placement.pan, now, 0.05);
+    }
+    const cutoff = placement.muffled ? AUDIO.spatial.fogLowpassHz : OPEN_LOWPASS_HZ;
+    if (loop.lowpass.frequency.value !== cutoff) loop.lowpass.frequency.setValueAtTime(cutoff, now);
+    updateContinuousZoom(ctx, sound, loop.zoomVolume * placement.gain);
+  }
+
+  /** Start a continuous loop, placed at `source` when given. */
+  private startLoop(
+    config: ContinuousSoundConfig,
+    speed: number,
+    volumeMultiplier: number,
+    zoomVolume: number,
+    source: SpatialAudioSource | null,
+  ): ContinuousSound | null {
+    if (source === null) {
+      const tk = this.getToolkit();
+      if (!tk) return null;
+      // Attach sfxVolume so continuousSounds helper can read it
+      (tk as unknown as { sfxVolume: number }).sfxVolume = this.sfxVolume;
+      return startContinuousSound(tk, config, speed, volumeMultiplier, zoomVolume);
+    }
+    const ctx = this.ensureContext();
+    if (!ctx || !this.masterGain) return null;
+    const placement = resolveSpatialPlacement(this.listener, source, this.placementScratch);
+    const panner = this.createPanner(ctx, this.masterGain, placement.pan);
+    const lowpass = this.createLowpass(
+      ctx,
+      panner,
+      placement.muffled ? AUDIO.spatial.fogLowpassHz : OPEN_LOWPASS_HZ,
+    );
+    const tk = this.getToolkit(lowpass);
+    let sound: ContinuousSound | null = null;
+    if (tk) {
+      (tk as unknown as { sfxVolume: number }).sfxVolume = this.sfxVolume;
+      sound = startContinuousSound(tk, config, speed, volumeMultiplier, zoomVolume * placement.gain);
+    }
+    if (!sound) {
+      try { lowpass.disconnect(); } catch {}
+      try { panner.disconnect(); } catch {}
+      return null;
+    }
+    sound.spatialNodes = [lowpass, panner];
+    this.spatialLoops.set(sound, { source: { ...source }, zoomVolume, panner, lowpass });
+    return sound;
+  }
+
+  /** A repeat start for a live loop (the sim refreshes active loops) moves
+   *  it to the event's latest position and fog state. */
+  private moveLoop(sound: ContinuousSound, source: SpatialAudioSource | null): void {
+    if (source === null) return;
+    const loop = this.spatialLoops.get(sound);
+    if (!loop) return;
+    loop.source.x = source.x;
+    loop.source.y = source.y;
+    loop.source.z = source.z;
+    loop.source.fogHidden = source.fogHidden;
+    if (this.ctx) this.placeLoop(this.ctx, sound, loop);
+  }
+
   // ==================== ONE-SHOT SOUNDS ====================
 
   /** One-shot voice budget: allow at most N synth starts per rolling
@@ -162,26 +309,59 @@ class AudioManager {
     return true;
   }
 
-  /** Shared one-shot dispatch tail: synth lookup, voice budget,
-   *  toolkit, then play at entry speed x speedMultiplier. */
+  /** Shared one-shot dispatch tail: synth lookup, placement and region
+   *  limit (when the sound has a source), voice budget, toolkit, then play
+   *  at entry speed x speedMultiplier. */
   private playOneShotEntry(
     entry: { synth: string; playSpeed: number; volume: number },
+    category: SpatialVoiceCategory,
     gain: number,
     volumeMultiplier: number,
-    speedMultiplier: number = 1,
+    speedMultiplier: number,
+    source: SpatialAudioSource | null,
   ): void {
     const fn = SYNTH_DISPATCH[entry.synth];
     if (!fn) return;
+    let placement: SpatialPlacement | null = null;
+    if (source !== null) {
+      placement = resolveSpatialPlacement(this.listener, source, this.placementScratch);
+      if (placement.gain <= 0) return;
+      if (!this.spatialVoices.tryAcquire(category, placement.region, performance.now())) return;
+    }
     if (!this.tryAcquireVoice(entry.synth)) return;
 
-    const tk = this.getToolkit();
-    if (!tk) return;
+    if (placement === null) {
+      const tk = this.getToolkit();
+      if (!tk) return;
+      fn(tk, entry.playSpeed * speedMultiplier, volumeMultiplier * entry.volume * gain);
+      return;
+    }
 
-    fn(tk, entry.playSpeed * speedMultiplier, volumeMultiplier * entry.volume * gain);
+    const ctx = this.ensureContext();
+    if (!ctx || !this.masterGain) return;
+    const panner = this.createPanner(ctx, this.masterGain, placement.pan);
+    const lowpass = placement.muffled
+      ? this.createLowpass(ctx, panner, AUDIO.spatial.fogLowpassHz)
+      : null;
+    const timeoutId = setTimeout(() => {
+      this.gainCleanupTimeouts.delete(timeoutId);
+      try { lowpass?.disconnect(); } catch {}
+      try { panner.disconnect(); } catch {}
+    }, ONE_SHOT_LIFETIME_MS + 50);
+    this.gainCleanupTimeouts.add(timeoutId);
+    const tk = this.getToolkit(lowpass ?? panner);
+    if (!tk) return;
+    fn(tk, entry.playSpeed * speedMultiplier, volumeMultiplier * entry.volume * gain * placement.gain);
   }
 
-  // Generic weapon fire by blueprint ID
-  playWeaponFire(turretBlueprintId: TurretAudioId, _pitch: number = 1, volumeMultiplier: number = 1): void {
+  // Generic weapon fire by blueprint ID. A `source` places the sound
+  // relative to the camera; without one it plays centred at full volume.
+  playWeaponFire(
+    turretBlueprintId: TurretAudioId,
+    _pitch: number = 1,
+    volumeMultiplier: number = 1,
+    source: SpatialAudioSource | null = null,
+  ): void {
     if (!this.categoryEnabled.fire) return;
     if (!AUDIO.fireGain) return;
     let entry;
@@ -189,11 +369,15 @@ class AudioManager {
     if (!entry || !entry.volume) return;
 
     const variation = 0.9 + Math.random() * 0.2;
-    this.playOneShotEntry(entry, AUDIO.fireGain, volumeMultiplier, variation);
+    this.playOneShotEntry(entry, 'fire', AUDIO.fireGain, volumeMultiplier, variation, source);
   }
 
   // Generic hit by shot ID.
-  playWeaponHit(shotBlueprintId: string, volumeMultiplier: number = 1): void {
+  playWeaponHit(
+    shotBlueprintId: string,
+    volumeMultiplier: number = 1,
+    source: SpatialAudioSource | null = null,
+  ): void {
     if (!this.categoryEnabled.hit) return;
     if (!AUDIO.hitGain) return;
     let entry;
@@ -203,18 +387,35 @@ class AudioManager {
     }
     if (!entry || !entry.volume) return;
 
-    this.playOneShotEntry(entry, AUDIO.hitGain, volumeMultiplier);
+    this.playOneShotEntry(entry, 'hit', AUDIO.hitGain, volumeMultiplier, 1, source);
   }
 
   // Death sound based on dying unit blueprint
-  playUnitDeath(unitBlueprintId: string, volumeMultiplier: number = 1): void {
+  playUnitDeath(
+    unitBlueprintId: string,
+    volumeMultiplier: number = 1,
+    source: SpatialAudioSource | null = null,
+  ): void {
     if (!this.categoryEnabled.dead) return;
     if (!AUDIO.deadGain) return;
     let entry;
     try { entry = getUnitBlueprint(unitBlueprintId).deathSound; } catch { return; }
     if (!entry || !entry.volume) return;
 
-    this.playOneShotEntry(entry, AUDIO.deadGain, volumeMultiplier);
+    this.playOneShotEntry(entry, 'dead', AUDIO.deadGain, volumeMultiplier, 1, source);
+  }
+
+  // Alert cue (unit under attack, building complete, ...). Unplaced and
+  // outside the voice budget: alerts are already rate-limited upstream.
+  playAlert(kind: GameAlertKind): void {
+    if (!AUDIO.alertGain) return;
+    const entry = AUDIO.alert[kind];
+    if (!entry || !entry.volume) return;
+    const fn = SYNTH_DISPATCH[entry.synth];
+    if (!fn) return;
+    const tk = this.getToolkit();
+    if (!tk) return;
+    fn(tk, entry.playSpeed, entry.volume * AUDIO.alertGain);
   }
 
   // ==================== CONTINUOUS SOUNDS ====================
@@ -237,29 +438,37 @@ class AudioManager {
     turretBlueprintId: TurretAudioId | null | undefined,
     volumeMultiplier: number = 1,
     zoomVolume: number = 1,
+    source: SpatialAudioSource | null = null,
   ): void {
     this.startLaserSound(
       entityId,
       this.getBeamFrequencyForTurret(turretBlueprintId),
       volumeMultiplier,
       zoomVolume,
+      source,
     );
   }
 
-  startLaserSound(entityId: number, freqOverride: number | undefined, volumeMultiplier: number = 1, zoomVolume: number = 1): void {
+  startLaserSound(
+    entityId: number,
+    freqOverride: number | undefined,
+    volumeMultiplier: number = 1,
+    zoomVolume: number = 1,
+    source: SpatialAudioSource | null = null,
+  ): void {
     if (!this.categoryEnabled.beam) return;
-    if (this.activeLaserSounds.has(entityId)) return;
+    const live = this.activeLaserSounds.get(entityId);
+    if (live) {
+      this.moveLoop(live, source);
+      return;
+    }
     // Hard cap: at battle scale hundreds of beams can be live at once;
     // past the cap extra loops add node-graph cost but no audible
     // information, so they simply don't start.
     if (this.activeLaserSounds.size >= AUDIO.continuousVoiceCap.beam) return;
-    const tk = this.getToolkit();
-    if (!tk) return;
-    // Attach sfxVolume so continuousSounds helper can read it
-    (tk as unknown as { sfxVolume: number }).sfxVolume = this.sfxVolume;
     const config = getBeamConfig();
     if (freqOverride !== undefined) config.freq = freqOverride;
-    const sound = startContinuousSound(tk, config, 1, volumeMultiplier, zoomVolume);
+    const sound = this.startLoop(config, 1, volumeMultiplier, zoomVolume, source);
     if (sound) this.activeLaserSounds.set(entityId, sound);
   }
 
@@ -268,20 +477,28 @@ class AudioManager {
     if (!sound || !this.ctx) return;
     stopContinuousSound(this.ctx, sound, 0.1, this.pendingTimeouts);
     this.activeLaserSounds.delete(entityId);
+    this.spatialLoops.delete(sound);
   }
 
   stopAllLaserSounds(): void {
     for (const entityId of this.activeLaserSounds.keys()) this.stopLaserSound(entityId);
   }
 
-  startShieldSound(entityId: number, speed: number = 1, volumeMultiplier: number = 1, zoomVolume: number = 1): void {
+  startShieldSound(
+    entityId: number,
+    speed: number = 1,
+    volumeMultiplier: number = 1,
+    zoomVolume: number = 1,
+    source: SpatialAudioSource | null = null,
+  ): void {
     if (!this.categoryEnabled.field) return;
-    if (this.activeShieldSounds.has(entityId)) return;
+    const live = this.activeShieldSounds.get(entityId);
+    if (live) {
+      this.moveLoop(live, source);
+      return;
+    }
     if (this.activeShieldSounds.size >= AUDIO.continuousVoiceCap.field) return;
-    const tk = this.getToolkit();
-    if (!tk) return;
-    (tk as unknown as { sfxVolume: number }).sfxVolume = this.sfxVolume;
-    const sound = startContinuousSound(tk, getShieldConfig(), speed, volumeMultiplier, zoomVolume);
+    const sound = this.startLoop(getShieldConfig(), speed, volumeMultiplier, zoomVolume, source);
     if (sound) this.activeShieldSounds.set(entityId, sound);
   }
 
@@ -290,6 +507,7 @@ class AudioManager {
     if (!sound || !this.ctx) return;
     stopContinuousSound(this.ctx, sound, 0.15, this.pendingTimeouts);
     this.activeShieldSounds.delete(entityId);
+    this.spatialLoops.delete(sound);
   }
 
   stopAllShieldSounds(): void {
@@ -310,6 +528,7 @@ class AudioManager {
     }
     this.activeLaserSounds.clear();
     this.activeShieldSounds.clear();
+    this.spatialLoops.clear();
   }
 
   // Mute or unmute a continuous sound by ID
@@ -401,6 +620,7 @@ class AudioManager {
     this.voiceWindowStartMs = 0;
     this.voiceStartsThisWindow = 0;
     this.voiceStartsBySynth.clear();
+    this.resetListener();
     this.initialized = false;
   }
 }
@@ -1,15 +1,26 @@
 // MusicPlayer — orchestrates procedural and MIDI music playback.
-// Delegates generation to proceduralMusic.ts and midiPlayback.ts;
-// owns AudioContext wiring, gain nodes, and scheduler lifecycle.
+// Delegates generation to proceduralMusic.ts and midiPlayback.ts and the
+// adaptive layer choice to musicDirector.ts; owns AudioContext wiring, the
+// layer buses, and scheduler lifecycle.
+//
+// Adaptive layers: the director's layer sets the bus mix (crossfaded), the
+// procedural tempo and base-voice instrumentation. The MIDI source plays its
+// file as authored on the base bus; its layer is a lowpass that opens up as
+// the fighting grows. Game-over stingers play over either source.
 
 import { AUDIO } from '../../audioConfig';
 import { AUDIO_ENABLED } from '../../config';
+import type { MusicBus, MusicLayer, MusicOutcome } from '@/types/audio';
 import {
+  type DrumKind,
   type ProceduralState,
+  type ProceduralVoices,
   createProceduralState,
   scheduleProceduralLoop,
+  scheduleStinger,
   SCHEDULER_INTERVAL,
 } from './proceduralMusic';
+import { type MusicCombatKind, MusicDirector } from './musicDirector';
 import {
   type MidiState,
   type MidiEffectsChain,
@@ -36,6 +47,25 @@ class MusicPlayer {
   private midiState: MidiState = createMidiState();
   private midiEffects: MidiEffectsChain | null = null;
 
+  // Adaptive layers: one gain per bus under musicGain, the MIDI layer
+  // lowpass feeding the base bus, and the director's last applied layer.
+  // After a stinger the mix stays calm until the director is reset.
+  private buses: Record<MusicBus, GainNode> | null = null;
+  private midiLayerFilter: BiquadFilterNode | null = null;
+  private readonly director = new MusicDirector();
+  private appliedLayer: MusicLayer = 'calm';
+  private directorTime = 0;
+  private stingerPlayed = false;
+  private noiseBuffer: AudioBuffer | null = null;
+  private readonly voices: ProceduralVoices = {
+    note: (bus, type, freq, gain, startTime, duration, attack, release) =>
+      this.createNoteOsc(bus, type, freq, gain, startTime, duration, attack, release),
+    filtered: (bus, type, freq, gain, startTime, duration, filterFreq, attack, release) =>
+      this.createFilteredNote(bus, type, freq, gain, startTime, duration, filterFreq, attack, release),
+    drum: (bus, kind, startTime, gain) => this.createDrum(bus, kind, startTime, gain),
+    busAudible: (bus) => this.busAudible(bus),
+  };
+
   init(ctx: AudioContext, masterGain: GainNode): void {
     if (!AUDIO_ENABLED) return;
     if (this.musicGain) return;
@@ -43,6 +73,24 @@ class MusicPlayer {
     this.musicGain = ctx.createGain();
     this.musicGain.gain.value = AUDIO.musicGain;
     this.musicGain.connect(masterGain);
+    const calm = AUDIO.musicDirector.layers.calm;
+    const bus = (gain: number): GainNode => {
+      const node = ctx.createGain();
+      node.gain.value = gain;
+      node.connect(this.musicGain!);
+      return node;
+    };
+    this.buses = {
+      base: bus(1),
+      calm: bus(calm.mix.calm),
+      tension: bus(calm.mix.tension),
+      battle: bus(calm.mix.battle),
+      stinger: bus(1),
+    };
+    this.midiLayerFilter = ctx.createBiquadFilter();
+    this.midiLayerFilter.type = 'lowpass';
+    this.midiLayerFilter.frequency.value = calm.midiFilterHz;
+    this.midiLayerFilter.connect(this.buses.base);
     // MIDI fetch/parse and the effects chain (whose reverb impulse
     // buffer alone is ~1MB) are built lazily on the first start() —
     // a player with music disabled never pays for either.
@@ -76,13 +124,14 @@ class MusicPlayer {
   }
 
   private beginPlayback(): void {
-    if (this.playing || !this.ctx || !this.musicGain) return;
+    if (this.playing || !this.ctx || !this.musicGain || !this.midiLayerFilter) return;
     if (this.midiEffects === null && AUDIO.musicSource === 'midi') {
-      this.midiEffects = buildMidiEffectsChain(this.ctx, this.musicGain);
+      this.midiEffects = buildMidiEffectsChain(this.ctx, this.midiLayerFilter);
     }
     this.playing = true;
 
     const now = this.ctx.currentTime;
+    this.directorTime = now;
     this.musicGain.gain.setValueAtTime(0.0001, now);
     this.musicGain.gain.linearRampToValueAtTime(AUDIO.musicGain, now + 2);
 
@@ -95,7 +144,11 @@ class MusicPlayer {
       console.log('[MusicPlayer] Starting MIDI playback');
     } else {
       this.midiState.mode = false;
-      this.procState = createProceduralState(now + 0.1);
+      this.procState = createProceduralState(
+        now + 0.1,
+        AUDIO.musicDirector.layers[this.appliedLayer].bpm,
+      );
+      this.procState.layer = this.appliedLayer;
       console.log('[MusicPlayer] Starting procedural playback');
     }
 
@@ -130,6 +183,58 @@ class MusicPlayer {
     return this.playing;
   }
 
+  // ---- Adaptive layers ----
+
+  /** A combat event at `proximity` (its spatial gain from the camera).
+   *  Ignored while music is off, so a silent match doesn't bank heat. */
+  noteCombat(kind: MusicCombatKind, proximity: number): void {
+    if (!this.playing) return;
+    this.director.noteCombat(kind, proximity);
+  }
+
+  noteCommanderThreat(): void {
+    if (!this.playing) return;
+    this.director.noteCommanderThreat();
+  }
+
+  /** Back to calm for a new match (scene teardown). */
+  resetDirector(): void {
+    this.director.reset();
+    this.stingerPlayed = false;
+    this.applyLayer('calm');
+  }
+
+  /** Game over: duck the layers, play the stinger, settle into calm. */
+  playStinger(outcome: MusicOutcome): void {
+    if (!this.playing || this.stingerPlayed || !this.ctx || !this.buses) return;
+    this.stingerPlayed = true;
+    const now = this.ctx.currentTime;
+    const config = AUDIO.musicDirector;
+    const start = now + config.stingerDuckSeconds;
+    const length = scheduleStinger(outcome, start, this.voices);
+    const calm = config.layers.calm.mix;
+    const targets: [GainNode, number, number][] = [
+      [this.buses.base, config.stingerDuckGain, 1],
+      [this.buses.calm, 0, calm.calm],
+      [this.buses.tension, 0, calm.tension],
+      [this.buses.battle, 0, calm.battle],
+    ];
+    for (const [node, ducked, after] of targets) {
+      const gain = node.gain;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(ducked, start);
+      gain.setValueAtTime(ducked, start + length);
+      gain.linearRampToValueAtTime(after, start + length + config.crossfadeSeconds);
+    }
+    this.director.reset();
+    this.appliedLayer = 'calm';
+    if (this.procState) {
+      this.procState.targetBpm = config.layers.calm.bpm;
+      this.procState.layer = 'calm';
+    }
+  }
+
   destroy(): void {
     this.wantsPlayback = false;
     this.playbackRequestId++;
@@ -146,6 +251,20 @@ class MusicPlayer {
       try { this.musicGain.disconnect(); } catch { /* */ }
       this.musicGain = null;
     }
+    if (this.buses) {
+      for (const node of Object.values(this.buses)) {
+        try { node.disconnect(); } catch { /* */ }
+      }
+      this.buses = null;
+    }
+    if (this.midiLayerFilter) {
+      try { this.midiLayerFilter.disconnect(); } catch { /* */ }
+      this.midiLayerFilter = null;
+    }
+    this.director.reset();
+    this.appliedLayer = 'calm';
+    this.stingerPlayed = false;
+    this.noiseBuffer = null;
     this.procState = null;
     if (this.midiEffects) {
       destroyMidiEffectsChain(this.midiEffects);
@@ -162,19 +281,62 @@ class MusicPlayer {
   private scheduleLoop(): void {
     if (!this.ctx || !this.playing) return;
 
+    const now = this.ctx.currentTime;
+    const layer = this.director.update(now - this.directorTime);
+    this.directorTime = now;
+    if (!this.stingerPlayed && layer !== this.appliedLayer) this.applyLayer(layer);
+
     if (this.midiState.mode) {
-      const target = this.midiEffects?.noteTarget ?? this.musicGain!;
+      const target = this.midiEffects?.noteTarget ?? this.midiLayerFilter!;
       scheduleMidiLoop(this.ctx, this.midiState, target, this.pendingCleanups);
     } else if (this.procState) {
-      scheduleProceduralLoop(
-        this.ctx.currentTime,
-        this.procState,
-        (type, freq, gain, startTime, duration, attack, release) =>
-          this.createNoteOsc(type, freq, gain, startTime, duration, attack, release),
-        (type, freq, gain, startTime, duration, filterFreq, attack, release) =>
-          this.createFilteredNote(type, freq, gain, startTime, duration, filterFreq, attack, release),
-      );
+      scheduleProceduralLoop(now, this.procState, this.voices, AUDIO.musicDirector.maxBpmStepPerBar);
+    }
+  }
+
+  /** Crossfade to `layer`: bus mix, MIDI lowpass, procedural tempo and
+   *  instrumentation. */
+  private applyLayer(layer: MusicLayer): void {
+    this.appliedLayer = layer;
+    const config = AUDIO.musicDirector;
+    if (this.procState) {
+      this.procState.targetBpm = config.layers[layer].bpm;
+      this.procState.layer = layer;
     }
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    this.rampLayerMix(layer, now, config.crossfadeSeconds);
+    this.midiLayerFilter?.frequency.setTargetAtTime(
+      config.layers[layer].midiFilterHz,
+      now,
+      config.crossfadeSeconds / 3,
+    );
+  }
+
+  /** Ramp the base and layer buses from where they are to `layer`'s mix. */
+  private rampLayerMix(layer: MusicLayer, now: number, seconds: number): void {
+    if (!this.buses) return;
+    const mix = AUDIO.musicDirector.layers[layer].mix;
+    const targets: [GainNode, number][] = [
+      [this.buses.base, 1],
+      [this.buses.calm, mix.calm],
+      [this.buses.tension, mix.tension],
+      [this.buses.battle, mix.battle],
+    ];
+    for (const [node, target] of targets) {
+      const gain = node.gain;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(target, now + seconds);
+    }
+  }
+
+  /** A bus worth scheduling notes on: in the current mix or still fading
+   *  out of it. */
+  private busAudible(bus: MusicBus): boolean {
+    if (bus === 'base' || bus === 'stinger') return true;
+    return AUDIO.musicDirector.layers[this.appliedLayer].mix[bus] > 0 ||
+      (this.buses !== null && this.buses[bus].gain.value > 0.001);
   }
 
   // ---- Note creation helpers (procedural voices) ----
@@ -192,7 +354,7 @@ class MusicPlayer {
 
   /** Shared start/stop + tracked disconnect timer for a note's gain node. */
   private startNoteAndScheduleCleanup(
-    ctx: AudioContext, osc: OscillatorNode, gainNode: GainNode,
+    ctx: AudioContext, osc: AudioScheduledSourceNode, gainNode: GainNode,
     startTime: number, duration: number,
   ): void {
     osc.start(startTime);
@@ -207,10 +369,10 @@ class MusicPlayer {
   }
 
   private createNoteOsc(
-    type: OscillatorType, freq: number, gain: number,
+    bus: MusicBus, type: OscillatorType, freq: number, gain: number,
     startTime: number, duration: number, attack = 0.02, release = 0.05,
   ): void {
-    if (!this.ctx || !this.musicGain) return;
+    if (!this.ctx || !this.buses) return;
 
     const osc = this.ctx.createOscillator();
     const gainNode = this.ctx.createGain();
@@ -219,16 +381,16 @@ class MusicPlayer {
     osc.frequency.value = freq;
     this.applyNoteEnvelope(gainNode, gain, startTime, duration, attack, release);
 
-    osc.connect(gainNode).connect(this.musicGain);
+    osc.connect(gainNode).connect(this.buses[bus]);
     this.startNoteAndScheduleCleanup(this.ctx, osc, gainNode, startTime, duration);
   }
 
   private createFilteredNote(
-    type: OscillatorType, freq: number, gain: number,
+    bus: MusicBus, type: OscillatorType, freq: number, gain: number,
     startTime: number, duration: number, filterFreq: number,
     attack = 0.02, release = 0.05,
   ): void {
-    if (!this.ctx || !this.musicGain) return;
+    if (!this.ctx || !this.buses) return;
 
     const osc = this.ctx.createOscillator();
     const gainNode = this.ctx.createGain();
@@ -242,9 +404,53 @@ class MusicPlayer {
 
     this.applyNoteEnvelope(gainNode, gain, startTime, duration, attack, release);
 
-    osc.connect(filter).connect(gainNode).connect(this.musicGain);
+    osc.connect(filter).connect(gainNode).connect(this.buses[bus]);
     this.startNoteAndScheduleCleanup(this.ctx, osc, gainNode, startTime, duration);
   }
+
+  /** Kick: a sine dropping from 120 to 45 Hz. Snare / hat: a filtered
+   *  burst from the shared noise buffer. */
+  private createDrum(bus: MusicBus, kind: DrumKind, startTime: number, gain: number): void {
+    const ctx = this.ctx;
+    if (!ctx || !this.buses) return;
+    const gainNode = ctx.createGain();
+    gainNode.connect(this.buses[bus]);
+
+    if (kind === 'kick') {
+      const duration = 0.18;
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(120, startTime);
+      osc.frequency.exponentialRampToValueAtTime(45, startTime + duration);
+      gainNode.gain.setValueAtTime(gain, startTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.0001, startTime + duration);
+      osc.connect(gainNode);
+      this.startNoteAndScheduleCleanup(ctx, osc, gainNode, startTime, duration);
+      return;
+    }
+
+    const duration = kind === 'snare' ? 0.14 : 0.04;
+    const source = ctx.createBufferSource();
+    source.buffer = this.getNoiseBuffer(ctx);
+    const filter = ctx.createBiquadFilter();
+    filter.type = kind === 'snare' ? 'bandpass' : 'highpass';
+    filter.frequency.value = kind === 'snare' ? 1800 : 7000;
+    gainNode.gain.setValueAtTime(gain, startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.0001, startTime + duration);
+    source.connect(filter).connect(gainNode);
+    this.startNoteAndScheduleCleanup(ctx, source, gainNode, startTime, duration);
+  }
+
+  private getNoiseBuffer(ctx: AudioContext): AudioBuffer {
+    if (this.noiseBuffer === null) {
+      const length = Math.ceil(ctx.sampleRate * 0.5);
+      const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+      this.noiseBuffer = buffer;
+    }
+    return this.noiseBuffer;
+  }
 }
 
 export const musicPlayer = new MusicPlayer();
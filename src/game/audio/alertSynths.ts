@@ -0,0 +1,30 @@
+// Alert cue synthesis functions — short interface tones, not world sounds
+
+import type { AudioToolkit } from './audioHelpers';
+import { playTone } from './audioHelpers';
+
+// Under attack / commander in danger - falling two-tone klaxon
+function alarm(tk: AudioToolkit, speed: number, vol: number): void {
+  playTone(tk, 'square', 880 * speed, 880 * speed, 0.12, 0.12 * vol, 0.12 * vol, 0, 'lowpass', 2400);
+  playTone(tk, 'square', 660 * speed, 660 * speed, 0.16, 0.12 * vol, 0.12 * vol, 0.14, 'lowpass', 2400);
+}
+
+// Building complete / queue finished - rising triad chime
+function chime(tk: AudioToolkit, speed: number, vol: number): void {
+  playTone(tk, 'sine', 660 * speed, 660 * speed, 0.18, 0.2 * vol, 0.2 * vol);
+  playTone(tk, 'sine', 830 * speed, 830 * speed, 0.18, 0.2 * vol, 0.2 * vol, 0.08);
+  playTone(tk, 'sine', 990 * speed, 990 * speed, 0.28, 0.2 * vol, 0.2 * vol, 0.16);
+}
+
+// Storage full - soft double blip
+function blip(tk: AudioToolkit, speed: number, vol: number): void {
+  playTone(tk, 'triangle', 520 * speed, 520 * speed, 0.08, 0.18 * vol, 0.18 * vol);
+  playTone(tk, 'triangle', 520 * speed, 520 * speed, 0.08, 0.18 * vol, 0.18 * vol, 0.12);
+}
+
+// Synth name → function mapping
+export const ALERT_SYNTHS: Record<string, (tk: AudioToolkit, speed: number, vol: number) => void> = {
+  'alert-alarm': alarm,
+  'alert-chime': chime,
+  'alert-blip': blip,
+};
@@ -147,6 +147,9 @@ export function disposeContinuousSound(sound: ContinuousSound): void {
   disconnectNode(sound.noiseSource);
   disconnectNode(sound.noiseFilter);
   disconnectNode(sound.noiseGain);
+  if (sound.spatialNodes) {
+    for (const node of sound.spatialNodes) disconnectNode(node);
+  }
 }
 
 // Stop a continuous sound with smooth fade-out
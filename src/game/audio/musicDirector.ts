@@ -0,0 +1,88 @@
+// MusicDirector — picks the adaptive music layer from local combat intensity.
+//
+// Pure state over an explicit clock: MusicPlayer feeds it combat events
+// (weighted by how close they are to the camera) and commander threats, and
+// advances it from its scheduler tick. The director only answers "which
+// layer"; crossfades, tempo and instrumentation are the player's business.
+
+import { AUDIO } from '../../audioConfig';
+import type { MusicLayer } from '@/types/audio';
+
+export type MusicCombatKind = 'fire' | 'hit' | 'death';
+
+const LAYER_RANK: Record<MusicLayer, number> = { calm: 0, tension: 1, battle: 2 };
+
+export class MusicDirector {
+  private heat = 0;
+  private threatSeconds = 0;
+  private current: MusicLayer = 'calm';
+  private secondsInLayer = 0;
+
+  /** A combat event at `proximity` (its spatial gain: 1 at the camera
+   *  focus, falling off with distance, 0 out of earshot). */
+  noteCombat(kind: MusicCombatKind, proximity: number): void {
+    if (!(proximity > 0)) return;
+    const config = AUDIO.musicDirector;
+    const weight = kind === 'death'
+      ? config.deathWeight
+      : kind === 'hit'
+        ? config.hitWeight
+        : config.fireWeight;
+    this.heat += weight * Math.min(1, proximity);
+  }
+
+  /** The local commander is taking damage or low on hp. */
+  noteCommanderThreat(): void {
+    this.threatSeconds = AUDIO.musicDirector.commanderThreat.holdSeconds;
+  }
+
+  /** Local combat intensity, 0 (quiet) … approaching 1 (heavy fighting). */
+  get intensity(): number {
+    return 1 - Math.exp(-this.heat / AUDIO.musicDirector.intensityScale);
+  }
+
+  get layer(): MusicLayer {
+    return this.current;
+  }
+
+  /** Advance by `dtSeconds` and return the layer to play. Escalation is
+   *  immediate; stepping down waits out minLayerSeconds. */
+  update(dtSeconds: number): MusicLayer {
+    const config = AUDIO.musicDirector;
+    const dt = Math.max(0, dtSeconds);
+    this.heat *= Math.exp(-dt / config.decaySeconds);
+    this.threatSeconds = Math.max(0, this.threatSeconds - dt);
+    this.secondsInLayer += dt;
+    const wanted = this.wantedLayer();
+    if (
+      wanted !== this.current &&
+      (LAYER_RANK[wanted] > LAYER_RANK[this.current] || this.secondsInLayer >= config.minLayerSeconds)
+    ) {
+      this.current = wanted;
+      this.secondsInLayer = 0;
+    }
+    return this.current;
+  }
+
+  reset(): void {
+    this.heat = 0;
+    this.threatSeconds = 0;
+    this.current = 'calm';
+    this.secondsInLayer = 0;
+  }
+
+  private wantedLayer(): MusicLayer {
+    const config = AUDIO.musicDirector;
+    const intensity = this.intensity;
+    const rank = LAYER_RANK[this.current];
+    let wanted: MusicLayer = 'calm';
+    if (intensity >= config.battleEnter || (rank >= LAYER_RANK.battle && intensity >= config.battleExit)) {
+      wanted = 'battle';
+    } else if (intensity >= config.tensionEnter || (rank >= LAYER_RANK.tension && intensity >= config.tensionExit)) {
+      wanted = 'tension';
+    }
+    const threatFloor = config.commanderThreat.minLayer;
+    if (this.threatSeconds > 0 && LAYER_RANK[threatFloor] > LAYER_RANK[wanted]) wanted = threatFloor;
+    return wanted;
+  }
+}
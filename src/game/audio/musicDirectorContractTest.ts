@@ -0,0 +1,114 @@
+// Music director contract — nearby fighting escalates the layer at once,
+// distant fighting barely moves it, the layer steps down only after the
+// fighting cools and a dwell, a threatened commander holds battle music,
+// and the procedural scheduler follows the layer's tempo and buses.
+
+import { AUDIO } from '../../audioConfig';
+import type { MusicBus } from '@/types/audio';
+import { MusicDirector } from './musicDirector';
+import {
+  type ProceduralVoices,
+  createProceduralState,
+  scheduleProceduralLoop,
+  scheduleStinger,
+} from './proceduralMusic';
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`[music director contract] ${message}`);
+  }
+}
+
+/** Advance in scheduler-sized steps. */
+function run(director: MusicDirector, seconds: number): void {
+  for (let t = 0; t < seconds; t += 0.025) director.update(0.025);
+}
+
+function countingVoices(audible: ReadonlySet<MusicBus>): {
+  voices: ProceduralVoices;
+  notes: Map<MusicBus, number>;
+} {
+  const notes = new Map<MusicBus, number>();
+  const count = (bus: MusicBus): void => {
+    notes.set(bus, (notes.get(bus) ?? 0) + 1);
+  };
+  return {
+    notes,
+    voices: {
+      note: (bus) => count(bus),
+      filtered: (bus) => count(bus),
+      drum: (bus) => count(bus),
+      busAudible: (bus) => audible.has(bus),
+    },
+  };
+}
+
+export function runMusicDirectorContractTest(): void {
+  const config = AUDIO.musicDirector;
+  const director = new MusicDirector();
+  assertContract(director.update(0.1) === 'calm', 'a quiet match is calm');
+
+  // ── escalation ────────────────────────────────────────────────────
+  for (let i = 0; i < 40; i++) director.noteCombat('fire', 0.02);
+  assertContract(director.update(0.025) === 'calm', 'distant gunfire barely registers');
+
+  for (let i = 0; i < 12; i++) director.noteCombat('fire', 1);
+  assertContract(director.update(0.025) === 'tension', 'a skirmish at the camera raises tension at once');
+  for (let i = 0; i < 4; i++) director.noteCombat('death', 1);
+  assertContract(director.update(0.025) === 'battle', 'deaths near the camera tip it into battle');
+  director.noteCombat('hit', Number.NaN);
+  assertContract(Number.isFinite(director.intensity), 'a bad proximity is ignored');
+
+  // ── de-escalation ─────────────────────────────────────────────────
+  run(director, config.minLayerSeconds * 0.5);
+  assertContract(director.layer === 'battle', 'battle music holds through a lull shorter than the dwell');
+  run(director, config.decaySeconds * 6);
+  assertContract(director.layer !== 'battle', 'battle music ends once the fighting cools');
+  run(director, config.minLayerSeconds * 2);
+  assertContract(director.layer === 'calm', 'a long quiet returns to calm');
+
+  // ── commander threat ──────────────────────────────────────────────
+  director.noteCommanderThreat();
+  assertContract(
+    director.update(0.025) === config.commanderThreat.minLayer,
+    'a threatened commander raises the music with no fighting in view',
+  );
+  run(director, config.commanderThreat.holdSeconds + config.minLayerSeconds + 1);
+  assertContract(director.layer === 'calm', 'the threat wears off');
+
+  director.noteCombat('death', 1);
+  director.reset();
+  assertContract(director.intensity === 0 && director.layer === 'calm', 'reset clears the match');
+
+  // ── procedural scheduler ──────────────────────────────────────────
+  const state = createProceduralState(0, config.layers.calm.bpm);
+  state.targetBpm = config.layers.battle.bpm;
+  const calmOnly = countingVoices(new Set<MusicBus>(['base', 'calm']));
+  scheduleProceduralLoop(0, state, calmOnly.voices, config.maxBpmStepPerBar);
+  assertContract(
+    state.bpm === config.layers.calm.bpm + config.maxBpmStepPerBar,
+    'the tempo steps toward the target by at most one step per bar',
+  );
+  assertContract(
+    !calmOnly.notes.has('tension') && !calmOnly.notes.has('battle'),
+    'a faded-out layer builds no notes',
+  );
+
+  const battle = countingVoices(new Set<MusicBus>(['base', 'tension', 'battle']));
+  state.layer = 'battle';
+  scheduleProceduralLoop(state.nextBeatTime + 40, state, battle.voices, config.maxBpmStepPerBar);
+  assertContract(state.bpm === config.layers.battle.bpm, 'the tempo settles on the target');
+  assertContract(
+    (battle.notes.get('battle') ?? 0) > 0 && (battle.notes.get('tension') ?? 0) > 0,
+    'the battle mix schedules drums and the tension voices',
+  );
+  assertContract(!battle.notes.has('calm'), 'the calm melody sits out a battle mix without it');
+
+  const stinger = countingVoices(new Set<MusicBus>());
+  assertContract(
+    scheduleStinger('victory', 0, stinger.voices) > 0 && (stinger.notes.get('stinger') ?? 0) > 0,
+    'a stinger plays on the stinger bus',
+  );
+
+  console.log('[contract] musicDirector: layers, dwell, threat and tempo hold');
+}
@@ -1,5 +1,12 @@
 // Procedural music generation — scale/progression constants, beat scheduling,
-// and four voices (bass, pad, arpeggio, melody).
+// and the voices of each adaptive layer:
+//   base    — bass and pad, under every layer; their waveform and
+//             brightness follow the current layer
+//   calm    — melody
+//   tension — arpeggio and an eighth-note root pulse
+//   battle  — drums and a lead doubling the melody
+// MusicPlayer crossfades the layer buses and sets the target tempo; the
+// scheduler steps toward it at bar lines so the groove never lurches.
 
 import { midiNoteToFrequency as midiToFreq } from './audioHelpers';
 
@@ -22,9 +29,19 @@ const ARP_PATTERNS = [
 // Melody intervals from root (pentatonic scale degrees, higher octave)
 const MELODY_INTERVALS = [0, 3, 5, 7, 10, 12, 15];
 
-const BPM = 110;
-const BEAT_DURATION = 60 / BPM;           // ~0.545s
-const BAR_DURATION = BEAT_DURATION * 4;    // ~2.18s
+const DEFAULT_BPM = 110;
+
+// Base-voice instrumentation per layer: bass waveform and pad brightness.
+const BASS_WAVE: Record<MusicLayer, OscillatorType> = {
+  calm: 'triangle',
+  tension: 'triangle',
+  battle: 'sawtooth',
+};
+const PAD_FILTER_HZ: Record<MusicLayer, number> = {
+  calm: 800,
+  tension: 1400,
+  battle: 2200,
+};
 
 export const SCHEDULER_INTERVAL = 25;      // ms
 export const LOOK_AHEAD = 0.1;             // seconds
@@ -34,9 +51,9 @@ function getChordRoot(bar: number): number {
 }
 
 export type { ProceduralState } from '@/types/audio';
-import type { ProceduralState } from '@/types/audio';
+import type { MusicBus, MusicLayer, MusicOutcome, ProceduralState } from '@/types/audio';
 
-export function createProceduralState(startTime: number): ProceduralState {
+export function createProceduralState(startTime: number, bpm: number = DEFAULT_BPM): ProceduralState {
   return {
     nextBeatTime: startTime,
     currentBeat: 0,
@@ -45,32 +62,49 @@ export function createProceduralState(startTime: number): ProceduralState {
     arpPatternIndex: 0,
     melodyNote: 7,
     keyOffset: 0,
+    bpm,
+    targetBpm: bpm,
+    layer: 'calm',
   };
 }
 
-type NoteCreator = (
-  type: OscillatorType, freq: number, gain: number,
-  startTime: number, duration: number, attack?: number, release?: number,
-) => void;
-
-type FilteredNoteCreator = (
-  type: OscillatorType, freq: number, gain: number,
-  startTime: number, duration: number, filterFreq: number,
-  attack?: number, release?: number,
-) => void;
+export type DrumKind = 'kick' | 'snare' | 'hat';
+
+/** Note factories MusicPlayer hands the scheduler. Every voice names the
+ *  bus it plays on; `busAudible` lets the scheduler skip building notes
+ *  for a layer that is faded all the way out. */
+export type ProceduralVoices = {
+  note(
+    bus: MusicBus, type: OscillatorType, freq: number, gain: number,
+    startTime: number, duration: number, attack?: number, release?: number,
+  ): void;
+  filtered(
+    bus: MusicBus, type: OscillatorType, freq: number, gain: number,
+    startTime: number, duration: number, filterFreq: number,
+    attack?: number, release?: number,
+  ): void;
+  drum(bus: MusicBus, kind: DrumKind, startTime: number, gain: number): void;
+  busAudible(bus: MusicBus): boolean;
+};
+
+function beatDuration(state: ProceduralState): number {
+  return 60 / state.bpm;
+}
 
 /** Run the procedural scheduler — schedules beats up to the look-ahead window. */
 export function scheduleProceduralLoop(
   ctxTime: number,
   state: ProceduralState,
-  createNote: NoteCreator,
-  createFiltered: FilteredNoteCreator,
+  voices: ProceduralVoices,
+  maxBpmStepPerBar: number,
 ): void {
   const deadline = ctxTime + LOOK_AHEAD;
 
   while (state.nextBeatTime < deadline) {
-    scheduleBeat(state, state.nextBeatTime, state.currentBeat, state.currentBar, createNote, createFiltered);
+    if (state.currentBeat === 0) stepTempo(state, maxBpmStepPerBar);
+    scheduleBeat(state, state.nextBeatTime, state.currentBeat, state.currentBar, voices);
 
+    state.nextBeatTime += beatDuration(state);
     state.currentBeat++;
     if (state.currentBeat >= 4) {
       state.currentBeat = 0;
@@ -81,10 +115,15 @@ export function scheduleProceduralLoop(
         onSectionComplete(state);
       }
     }
-    state.nextBeatTime += BEAT_DURATION;
   }
 }
 
+/** Tempo moves toward the layer's target one bounded step per bar. */
+function stepTempo(state: ProceduralState, maxStep: number): void {
+  const delta = state.targetBpm - state.bpm;
+  state.bpm += Math.max(-maxStep, Math.min(maxStep, delta));
+}
+
 function onSectionComplete(state: ProceduralState): void {
   state.arpPatternIndex = (state.arpPatternIndex + 1) % ARP_PATTERNS.length;
 
@@ -96,38 +135,51 @@ function onSectionComplete(state: ProceduralState): void {
 
 function scheduleBeat(
   state: ProceduralState, time: number, beat: number, bar: number,
-  createNote: NoteCreator, createFiltered: FilteredNoteCreator,
+  voices: ProceduralVoices,
 ): void {
-  scheduleBass(state, time, bar, createNote);
-  schedulePad(state, time, bar, createFiltered);
-  scheduleArpeggio(state, time, beat, bar, createNote);
-  scheduleMelody(state, time, beat, createNote);
+  scheduleBass(state, time, bar, voices);
+  schedulePad(state, time, bar, voices);
+  if (voices.busAudible('tension')) {
+    scheduleArpeggio(state, time, beat, bar, voices);
+    schedulePulse(state, time, bar, voices);
+  }
+  const battle = voices.busAudible('battle');
+  if (battle) scheduleDrums(state, time, beat, voices);
+  scheduleMelody(state, time, beat, voices, voices.busAudible('calm'), battle);
 }
 
-// ---- Voice: Bass (sine, low octave, sustained per bar) ----
-function scheduleBass(state: ProceduralState, time: number, bar: number, createNote: NoteCreator): void {
+// ---- Voice: Bass (base bus, low octave, sustained per bar) ----
+function scheduleBass(state: ProceduralState, time: number, bar: number, voices: ProceduralVoices): void {
   if (state.currentBeat !== 0) return;
   if (state.sectionCount % 3 === 2 && bar >= 4) return;
 
   const root = getChordRoot(bar);
   const freq = midiToFreq(root - 27 + state.keyOffset);
-  createNote('triangle', freq, 0.22, time, BAR_DURATION * 0.95, 0.15, 0.3);
+  const barDuration = beatDuration(state) * 4;
+  const wave = BASS_WAVE[state.layer];
+  if (wave === 'triangle') {
+    voices.note('base', wave, freq, 0.22, time, barDuration * 0.95, 0.15, 0.3);
+  } else {
+    voices.filtered('base', wave, freq, 0.16, time, barDuration * 0.95, 420, 0.05, 0.3);
+  }
 }
 
-// ---- Voice: Pad (triangle, mid octave, two-note interval) ----
-function schedulePad(state: ProceduralState, time: number, bar: number, createFiltered: FilteredNoteCreator): void {
+// ---- Voice: Pad (base bus, mid octave, two-note interval) ----
+function schedulePad(state: ProceduralState, time: number, bar: number, voices: ProceduralVoices): void {
   if (state.currentBeat !== 0) return;
 
   const root = getChordRoot(bar);
   const freq1 = midiToFreq(root + state.keyOffset);
   const freq2 = midiToFreq(root + 7 + state.keyOffset);
+  const barDuration = beatDuration(state) * 4;
+  const brightness = PAD_FILTER_HZ[state.layer];
 
-  createFiltered('triangle', freq1, 0.10, time, BAR_DURATION * 0.9, 800, 0.2, 0.35);
-  createFiltered('triangle', freq2, 0.08, time, BAR_DURATION * 0.9, 800, 0.2, 0.35);
+  voices.filtered('base', 'triangle', freq1, 0.10, time, barDuration * 0.9, brightness, 0.2, 0.35);
+  voices.filtered('base', 'triangle', freq2, 0.08, time, barDuration * 0.9, brightness, 0.2, 0.35);
 }
 
-// ---- Voice: Arpeggio (triangle, mid-high octave, eighth notes) ----
-function scheduleArpeggio(state: ProceduralState, time: number, beat: number, bar: number, createNote: NoteCreator): void {
+// ---- Voice: Arpeggio (tension bus, mid-high octave, eighth notes) ----
+function scheduleArpeggio(state: ProceduralState, time: number, beat: number, bar: number, voices: ProceduralVoices): void {
   if (state.sectionCount % 4 === 3 && bar >= 6) return;
 
   const pattern = ARP_PATTERNS[state.arpPatternIndex];
@@ -138,15 +190,39 @@ function scheduleArpeggio(state: ProceduralState, time: number, beat: number, ba
     const scaleIdx = pattern[patIdx];
     const midi = root + SCALE[scaleIdx % SCALE.length] + state.keyOffset;
     const freq = midiToFreq(midi);
-    const noteTime = time + eighth * (BEAT_DURATION / 2);
-    const noteDuration = BEAT_DURATION / 2 * 0.8;
+    const eighthDuration = beatDuration(state) / 2;
+    const noteTime = time + eighth * eighthDuration;
 
-    createNote('triangle', freq, 0.09, noteTime, noteDuration, 0.01, 0.05);
+    voices.note('tension', 'triangle', freq, 0.09, noteTime, eighthDuration * 0.8, 0.01, 0.05);
   }
 }
 
-// ---- Voice: Melody (triangle, high octave, quarter/half notes with rests) ----
-function scheduleMelody(state: ProceduralState, time: number, beat: number, createNote: NoteCreator): void {
+// ---- Voice: Pulse (tension bus, muted root eighths) ----
+function schedulePulse(state: ProceduralState, time: number, bar: number, voices: ProceduralVoices): void {
+  const freq = midiToFreq(getChordRoot(bar) - 12 + state.keyOffset);
+  const eighthDuration = beatDuration(state) / 2;
+  for (let eighth = 0; eighth < 2; eighth++) {
+    voices.filtered(
+      'tension', 'square', freq, eighth === 0 ? 0.06 : 0.04,
+      time + eighth * eighthDuration, eighthDuration * 0.5, 600, 0.005, 0.04,
+    );
+  }
+}
+
+// ---- Voice: Drums (battle bus: kick on 1 and 3, snare on 2 and 4, eighth hats) ----
+function scheduleDrums(state: ProceduralState, time: number, beat: number, voices: ProceduralVoices): void {
+  voices.drum('battle', beat % 2 === 0 ? 'kick' : 'snare', time, beat % 2 === 0 ? 0.5 : 0.25);
+  const eighthDuration = beatDuration(state) / 2;
+  voices.drum('battle', 'hat', time, 0.05);
+  voices.drum('battle', 'hat', time + eighthDuration, 0.08);
+}
+
+// ---- Voice: Melody (calm bus, high octave, quarter/half notes with rests;
+// doubled an octave up by a filtered sawtooth lead on the battle bus) ----
+function scheduleMelody(
+  state: ProceduralState, time: number, beat: number, voices: ProceduralVoices,
+  calm: boolean, battle: boolean,
+): void {
   if (Math.random() < 0.3) return;
 
   const step = Math.floor(Math.random() * 3) - 1;
@@ -161,7 +237,48 @@ function scheduleMelody(state: ProceduralState, time: number, beat: number, crea
   const freq = midiToFreq(midi);
 
   const isLong = (beat === 0 || beat === 2) && Math.random() < 0.3;
-  const duration = isLong ? BEAT_DURATION * 2 * 0.85 : BEAT_DURATION * 0.85;
+  const beatSeconds = beatDuration(state);
+  const duration = isLong ? beatSeconds * 2 * 0.85 : beatSeconds * 0.85;
+
+  if (calm) voices.note('calm', 'triangle', freq, 0.07, time, duration, 0.02, 0.1);
+  if (battle) voices.filtered('battle', 'sawtooth', freq * 2, 0.05, time, duration, 2600, 0.01, 0.08);
+}
 
-  createNote('triangle', freq, 0.07, time, duration, 0.02, 0.1);
+// ---- Stingers (stinger bus, game over) ----
+
+// Victory: a rising A-major fanfare; defeat: a falling A-minor line into a
+// low held chord. Semitone offsets from A3, with start beat and length.
+const STINGERS: Record<MusicOutcome, readonly { note: number; beat: number; beats: number }[]> = {
+  victory: [
+    { note: 0, beat: 0, beats: 0.5 },
+    { note: 4, beat: 0.5, beats: 0.5 },
+    { note: 7, beat: 1, beats: 0.5 },
+    { note: 12, beat: 1.5, beats: 2.5 },
+    { note: 16, beat: 1.5, beats: 2.5 },
+    { note: 19, beat: 1.5, beats: 2.5 },
+  ],
+  defeat: [
+    { note: 12, beat: 0, beats: 1 },
+    { note: 7, beat: 1, beats: 1 },
+    { note: 3, beat: 2, beats: 1 },
+    { note: -12, beat: 3, beats: 4 },
+    { note: -5, beat: 3, beats: 4 },
+    { note: 0, beat: 3, beats: 4 },
+  ],
+};
+const STINGER_ROOT_MIDI = 57;
+const STINGER_BPM = 96;
+
+/** Schedule a game-over stinger at `startTime`; returns its length in seconds. */
+export function scheduleStinger(outcome: MusicOutcome, startTime: number, voices: ProceduralVoices): number {
+  const beat = 60 / STINGER_BPM;
+  const wave: OscillatorType = outcome === 'victory' ? 'square' : 'sawtooth';
+  let end = 0;
+  for (const step of STINGERS[outcome]) {
+    const freq = midiToFreq(STINGER_ROOT_MIDI + step.note);
+    const duration = step.beats * beat;
+    voices.filtered('stinger', wave, freq, 0.09, startTime + step.beat * beat, duration, 1800, 0.02, duration * 0.4);
+    end = Math.max(end, (step.beat + step.beats) * beat);
+  }
+  return end;
 }
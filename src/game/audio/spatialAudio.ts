@@ -0,0 +1,196 @@
+// Spatial placement for combat audio — where a sim event sits relative to
+// the camera, reduced to what a stereo mix can express: a left/right pan, a
+// distance gain, a fog muffle, and the screen region the event falls in.
+//
+// Pure math over a listener snapshot. AudioManager owns the listener (the
+// scene refreshes it from the orbit camera every frame), turns a placement
+// into a StereoPannerNode (+ fog lowpass) chain, and uses the region for
+// voice limits.
+//
+// Coordinates: sim (x, y, z) is three (x, z, y) — y is the map's second
+// horizontal axis, z is altitude.
+
+import type * as THREE from 'three';
+import { AUDIO } from '../../audioConfig';
+
+/** Screen regions, left to right. The off-screen regions are everything past
+ *  the viewport edges (and behind the camera, split by side). */
+export type SpatialAudioRegion = 'offLeft' | 'left' | 'center' | 'right' | 'offRight';
+
+/** One-shot categories that carry region voice limits. */
+export type SpatialVoiceCategory = 'fire' | 'hit' | 'dead';
+
+export type SpatialAudioListener = {
+  /** False until the first camera update; an unready listener places
+   *  everything dead centre at full volume. */
+  ready: boolean;
+  /** camera.matrixWorldInverse, column-major. */
+  view: Float64Array;
+  /** tan(horizontal half-FOV): screen-x of ±1 is the viewport edge. */
+  tanHalfFovX: number;
+  /** Camera focus (orbit target) in sim coordinates. */
+  focusX: number;
+  focusY: number;
+  focusZ: number;
+  /** Orbit distance — zoomed out, the full-volume radius widens with it. */
+  zoomDistance: number;
+};
+
+/** Where a sound comes from, in sim coordinates. `fogHidden` is the sim
+ *  event's audioOnly flag — heard through the fog, not seen. */
+export type SpatialAudioSource = {
+  x: number;
+  y: number;
+  z: number;
+  fogHidden: boolean;
+};
+
+export type SpatialPlacement = {
+  /** StereoPannerNode pan, -1 (left) … 1 (right). */
+  pan: number;
+  /** Distance × fog gain; 0 is out of earshot. */
+  gain: number;
+  /** Fog-hidden source: play it through the fog lowpass. */
+  muffled: boolean;
+  region: SpatialAudioRegion;
+};
+
+/** Screen-x band edges between left / center / right. */
+const CENTER_HALF_WIDTH = 1 / 3;
+/** Sources closer than this to the camera plane count as beside it. */
+const MIN_VIEW_DEPTH = 1e-3;
+
+export function createSpatialAudioListener(): SpatialAudioListener {
+  return {
+    ready: false,
+    view: new Float64Array(16),
+    tanHalfFovX: 1,
+    focusX: 0,
+    focusY: 0,
+    focusZ: 0,
+    zoomDistance: 0,
+  };
+}
+
+export function createSpatialPlacement(): SpatialPlacement {
+  return { pan: 0, gain: 1, muffled: false, region: 'center' };
+}
+
+/** Snapshot the camera for this frame's audio. `focus` is the orbit target
+ *  in three coordinates. */
+export function updateSpatialAudioListener(
+  listener: SpatialAudioListener,
+  camera: THREE.PerspectiveCamera,
+  focus: THREE.Vector3,
+  zoomDistance: number,
+): void {
+  const elements = camera.matrixWorldInverse.elements;
+  for (let i = 0; i < 16; i++) listener.view[i] = elements[i];
+  const tanHalfFovY = Math.tan((camera.fov * Math.PI) / 360);
+  listener.tanHalfFovX = Math.max(1e-6, tanHalfFovY * camera.aspect);
+  listener.focusX = focus.x;
+  listener.focusY = focus.z;
+  listener.focusZ = focus.y;
+  listener.zoomDistance = zoomDistance;
+  listener.ready = true;
+}
+
+function regionForScreenX(screenX: number): SpatialAudioRegion {
+  if (screenX < -1) return 'offLeft';
+  if (screenX < -CENTER_HALF_WIDTH) return 'left';
+  if (screenX <= CENTER_HALF_WIDTH) return 'center';
+  if (screenX <= 1) return 'right';
+  return 'offRight';
+}
+
+/** Inverse-distance gain from the camera focus: 1 inside the reference
+ *  radius, ref / (ref + rolloff·(d − ref)) past it. */
+export function spatialDistanceGain(distance: number, zoomDistance: number): number {
+  const config = AUDIO.spatial;
+  const reference = Math.max(config.referenceDistance, zoomDistance * config.zoomReferenceScale);
+  if (!(distance > reference)) return 1;
+  return reference / (reference + config.rolloff * (distance - reference));
+}
+
+/** Place `source` for `listener`, writing into `out`. */
+export function resolveSpatialPlacement(
+  listener: SpatialAudioListener,
+  source: SpatialAudioSource,
+  out: SpatialPlacement,
+): SpatialPlacement {
+  const config = AUDIO.spatial;
+  const { x: simX, y: simY } = source;
+  out.muffled = source.fogHidden;
+  const fog = source.fogHidden ? config.fogGain : 1;
+  if (!listener.ready || !Number.isFinite(simX) || !Number.isFinite(simY)) {
+    out.pan = 0;
+    out.gain = fog;
+    out.region = 'center';
+    return out;
+  }
+  const z = Number.isFinite(source.z) ? source.z : listener.focusZ;
+
+  // View space: three x = sim x, three y = sim z, three z = sim y.
+  const v = listener.view;
+  const viewX = v[0] * simX + v[4] * z + v[8] * simY + v[12];
+  const viewZ = v[2] * simX + v[6] * z + v[10] * simY + v[14];
+  const depth = -viewZ;
+  let screenX: number;
+  if (depth > MIN_VIEW_DEPTH) {
+    screenX = viewX / (depth * listener.tanHalfFovX);
+  } else {
+    // Beside or behind the camera: hard to its side.
+    screenX = viewX < 0 ? -Infinity : Infinity;
+  }
+  out.region = regionForScreenX(screenX);
+  out.pan = Math.max(-1, Math.min(1, screenX)) * config.panWidth;
+
+  const distance = Math.hypot(simX - listener.focusX, simY - listener.focusY, z - listener.focusZ);
+  const gain = spatialDistanceGain(distance, listener.zoomDistance) * fog;
+  out.gain = gain < config.cutoffGain ? 0 : gain;
+  return out;
+}
+
+function isOffscreen(region: SpatialAudioRegion): boolean {
+  return region === 'offLeft' || region === 'offRight';
+}
+
+function emptyRegionCounts(): Record<SpatialAudioRegion, number> {
+  return { offLeft: 0, left: 0, center: 0, right: 0, offRight: 0 };
+}
+
+/** Per-category, per-region one-shot starts on the voice budget's rolling
+ *  window. Sits in front of the global budget so a crowded region drops
+ *  its own extra voices before they spend budget a quieter fight elsewhere
+ *  on (or off) screen needs to be heard at all. */
+export class SpatialVoiceLimiter {
+  private windowStartMs = -Infinity;
+  private readonly starts: Record<SpatialVoiceCategory, Record<SpatialAudioRegion, number>> = {
+    fire: emptyRegionCounts(),
+    hit: emptyRegionCounts(),
+    dead: emptyRegionCounts(),
+  };
+
+  tryAcquire(category: SpatialVoiceCategory, region: SpatialAudioRegion, nowMs: number): boolean {
+    if (nowMs - this.windowStartMs >= AUDIO.voiceBudget.windowMs) this.reset(nowMs);
+    const limits = isOffscreen(region)
+      ? AUDIO.spatial.offscreenRegionVoiceLimit
+      : AUDIO.spatial.regionVoiceLimit;
+    const counts = this.starts[category];
+    if (counts[region] >= limits[category]) return false;
+    counts[region]++;
+    return true;
+  }
+
+  reset(nowMs = -Infinity): void {
+    this.windowStartMs = nowMs;
+    for (const category of Object.keys(this.starts) as SpatialVoiceCategory[]) {
+      const counts = this.starts[category];
+      counts.offLeft = 0;
+      counts.left = 0;
+      counts.center = 0;
+      counts.right = 0;
+      counts.offRight = 0;
+    }
+  }
+}
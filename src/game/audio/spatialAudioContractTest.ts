@@ -0,0 +1,121 @@
+// Spatial audio contract — a sound's pan follows its side of the screen,
+// distance from the camera focus quiets it, fog muffles it, and a crowded
+// screen region runs out of voices without touching its neighbours.
+
+import * as THREE from 'three';
+import { AUDIO } from '../../audioConfig';
+import {
+  SpatialVoiceLimiter,
+  createSpatialAudioListener,
+  createSpatialPlacement,
+  resolveSpatialPlacement,
+  updateSpatialAudioListener,
+  type SpatialAudioSource,
+  type SpatialPlacement,
+} from './spatialAudio';
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`[spatial audio contract] ${message}`);
+  }
+}
+
+const FOCUS = new THREE.Vector3(2000, 0, 2000);
+const ZOOM = 1200;
+
+function place(
+  listener: ReturnType<typeof createSpatialAudioListener>,
+  x: number,
+  y: number,
+  fogHidden = false,
+): SpatialPlacement {
+  const source: SpatialAudioSource = { x, y, z: 0, fogHidden };
+  return resolveSpatialPlacement(listener, source, createSpatialPlacement());
+}
+
+export function runSpatialAudioContractTest(): void {
+  // A camera south of the focus looking north and down: sim +x is screen
+  // right, sim −y is toward the camera.
+  const camera = new THREE.PerspectiveCamera(45, 16 / 9, 1, 100000);
+  camera.position.set(FOCUS.x, 850, FOCUS.z + 850);
+  camera.lookAt(FOCUS);
+  camera.updateMatrixWorld(true);
+  const listener = createSpatialAudioListener();
+
+  // ── before the first camera update ────────────────────────────────
+  const unplaced = place(listener, -50000, 0);
+  assertContract(
+    unplaced.pan === 0 && unplaced.gain === 1 && unplaced.region === 'center',
+    'an unready listener plays everything centred at full volume',
+  );
+
+  updateSpatialAudioListener(listener, camera, FOCUS, ZOOM);
+
+  // ── pan and region ────────────────────────────────────────────────
+  const centre = place(listener, 2000, 2000);
+  assertContract(Math.abs(centre.pan) < 1e-6 && centre.region === 'center', 'the focus is dead centre');
+  assertContract(centre.gain === 1, 'the focus plays at full volume');
+
+  const left = place(listener, 1400, 2000);
+  const right = place(listener, 2600, 2000);
+  assertContract(left.pan < 0 && left.region === 'left', 'a fight on the left of the screen pans left');
+  assertContract(right.pan > 0 && right.region === 'right', 'a fight on the right of the screen pans right');
+  assertContract(Math.abs(left.pan + right.pan) < 1e-6, 'mirrored sources pan symmetrically');
+
+  const offLeft = place(listener, -2000, 2000);
+  assertContract(offLeft.region === 'offLeft', 'a fight past the left edge is off-screen left');
+  assertContract(
+    offLeft.pan === -AUDIO.spatial.panWidth,
+    'an off-screen source pans fully to its side',
+  );
+  const behindRight = place(listener, 2400, 4000);
+  assertContract(
+    behindRight.region === 'offRight' && behindRight.pan > 0,
+    'a source behind the camera keeps its side',
+  );
+
+  // ── distance ──────────────────────────────────────────────────────
+  const near = place(listener, 2000, 2400);
+  const far = place(listener, 2000, -4000);
+  assertContract(near.gain === 1, 'a source inside the reference radius is not attenuated');
+  assertContract(far.gain > 0 && far.gain < near.gain, 'a distant source is quieter');
+  assertContract(place(listener, 2000, -400000).gain === 0, 'a source far past earshot is dropped');
+
+  updateSpatialAudioListener(listener, camera, FOCUS, ZOOM * 20);
+  assertContract(
+    place(listener, 2000, -4000).gain > far.gain,
+    'zoomed out, the same distant fight is louder',
+  );
+  updateSpatialAudioListener(listener, camera, FOCUS, ZOOM);
+
+  // ── fog ───────────────────────────────────────────────────────────
+  const fogged = place(listener, 1400, 2000, true);
+  assertContract(fogged.muffled && !left.muffled, 'a fog-hidden source is muffled, a seen one is not');
+  assertContract(fogged.gain < left.gain, 'a fog-hidden source is quieter than the same one in sight');
+  assertContract(fogged.pan === left.pan, 'fog does not move a sound');
+
+  // ── region voice limits ───────────────────────────────────────────
+  const limiter = new SpatialVoiceLimiter();
+  const onScreen = AUDIO.spatial.regionVoiceLimit.fire;
+  let started = 0;
+  for (let i = 0; i < onScreen + 5; i++) {
+    if (limiter.tryAcquire('fire', 'center', 0)) started++;
+  }
+  assertContract(started === onScreen, 'a crowded region stops at its voice limit');
+  assertContract(limiter.tryAcquire('fire', 'left', 0), 'a crowded centre does not starve the left');
+  assertContract(limiter.tryAcquire('hit', 'center', 0), 'each category has its own limit');
+  let offscreen = 0;
+  for (let i = 0; i < 10; i++) {
+    if (limiter.tryAcquire('fire', 'offLeft', 0)) offscreen++;
+  }
+  assertContract(
+    offscreen === AUDIO.spatial.offscreenRegionVoiceLimit.fire,
+    'an off-screen region has its own, smaller limit',
+  );
+  assertContract(
+    limiter.tryAcquire('fire', 'center', AUDIO.voiceBudget.windowMs),
+    'the limit resets with the voice budget window',
+  );
+
+  console.log('[contract] spatialAudio: pan, distance, fog and region limits hold');
+}
@@ -446,6 +446,11 @@ function barClassicBuildSortIndex(id: BuildingBlueprintId): number {
       return 130100;
     case 'towerTorpedo':
       return 130110;
+    // Prototype-only strategic pair sorts after the BAR-analogue AA.
+    case 'buildingAntiMissile':
+      return 130200;
+    case 'buildingMissileSilo':
+      return 130210;
     // Prototype-only tech structures sort after the BAR-analogue intel
     // pair on the utility page.
     case 'buildingShieldTargetingTech':
@@ -513,6 +518,8 @@ const BAR_HOME_BUILD_ORDER = [
     'towerBeamLight',
     'towerBeamMega',
     'towerAntiAir',
+    'buildingAntiMissile',
+    'buildingMissileSilo',
   ],
   [
     'buildingRadar',
@@ -625,6 +632,11 @@ function preferredStructureBuildGridSlotIndex(id: BuildingBlueprintId): number {
       return 2;
     case 'towerAntiAir':
       return 4;
+    // Prototype-only strategic pair fills the rest of the middle row.
+    case 'buildingAntiMissile':
+      return 5;
+    case 'buildingMissileSilo':
+      return 6;
     default:
       return Number.MAX_SAFE_INTEGER;
   }
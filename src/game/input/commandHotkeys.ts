@@ -117,6 +117,7 @@ export type CommandHotkeyId =
   | 'camera.viewTa'
   | 'camera.viewSpring'
   | 'ui.goToLastPing'
+  | 'ui.goToLastAlert'
   | 'ui.toggleUiChrome'
   | 'ui.muteSound'
   | 'ui.volumeIncrease'
@@ -300,6 +301,7 @@ export const COMMAND_HOTKEY_IDS: readonly CommandHotkeyId[] = [
   'camera.viewTa',
   'camera.viewSpring',
   'ui.goToLastPing',
+  'ui.goToLastAlert',
   'ui.toggleUiChrome',
   'ui.muteSound',
   'ui.volumeIncrease',
@@ -470,6 +472,7 @@ export const COMMAND_HOTKEY_DISPLAY_LABELS: Readonly<Record<CommandHotkeyId, str
   'camera.viewTa': 'TA Camera View',
   'camera.viewSpring': 'Spring Camera View',
   'ui.goToLastPing': 'Last Message Position',
+  'ui.goToLastAlert': 'Last Alert Position',
   'ui.toggleUiChrome': 'Toggle Interface',
   'ui.muteSound': 'Mute Sound',
   'ui.volumeIncrease': 'Volume Up',
@@ -700,6 +703,7 @@ const BASE_COMMAND_HOTKEY_PRESETS: Readonly<Record<
     'camera.viewTa': [code('Ctrl+F5', 'F5', { ctrl: true })],
     'camera.viewSpring': [code('Ctrl+F6', 'F6', { ctrl: true })],
     'ui.goToLastPing': [code('F5', 'F5', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
+    'ui.goToLastAlert': [code('F9', 'F9', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
     'ui.toggleUiChrome': [code('Ctrl+F7', 'F7', { ctrl: true })],
     'ui.muteSound': [code('Ctrl+Shift+S', 'KeyS', { ctrl: true, shift: true })],
     'ui.volumeIncrease': [],
@@ -862,6 +866,7 @@ const BASE_COMMAND_HOTKEY_PRESETS: Readonly<Record<
     'camera.viewTa': [code('Ctrl+F5', 'F5', { ctrl: true })],
     'camera.viewSpring': [code('Ctrl+F6', 'F6', { ctrl: true })],
     'ui.goToLastPing': [code('F5', 'F5', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
+    'ui.goToLastAlert': [code('F9', 'F9', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
     'ui.toggleUiChrome': [code('Ctrl+F7', 'F7', { ctrl: true })],
     'ui.muteSound': [key('Backspace', 'backspace')],
     // snd_volume_osd.lua: +/- step master volume by 8.
@@ -1037,6 +1042,7 @@ const BASE_COMMAND_HOTKEY_PRESETS: Readonly<Record<
     'camera.viewTa': [code('Ctrl+F2', 'F2', { ctrl: true })],
     'camera.viewSpring': [code('Ctrl+F3', 'F3', { ctrl: true })],
     'ui.goToLastPing': [code('F3', 'F3', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
+    'ui.goToLastAlert': [code('F9', 'F9', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
     'ui.toggleUiChrome': [code('F5', 'F5', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
     'ui.muteSound': [code('F6', 'F6', { ctrl: 'any', shift: 'any', alt: 'any', meta: 'any' })],
     // snd_volume_osd.lua: +/- step master volume by 8.
@@ -1090,6 +1096,7 @@ const COMMAND_HOTKEY_PRESETS: Readonly<Record<BuiltInCommandHotkeyPresetId, Comm
       'camera.viewTa': [code('Ctrl+Meta+5', 'Digit5', { ctrl: true, meta: true })],
       'camera.viewSpring': [code('Ctrl+Meta+6', 'Digit6', { ctrl: true, meta: true })],
       'ui.goToLastPing': [code('Meta+5', 'Digit5', { meta: true })],
+      'ui.goToLastAlert': [code('Meta+9', 'Digit9', { meta: true })],
       'ui.toggleUiChrome': [code('Ctrl+Meta+7', 'Digit7', { ctrl: true, meta: true })],
       'camera.anchorFocus1': [code('Meta+1', 'Digit1', { meta: true })],
       'camera.anchorFocus2': [code('Meta+2', 'Digit2', { meta: true })],
@@ -1112,6 +1119,7 @@ const COMMAND_HOTKEY_PRESETS: Readonly<Record<BuiltInCommandHotkeyPresetId, Comm
       'camera.viewTa': [code('Ctrl+Meta+2', 'Digit2', { ctrl: true, meta: true })],
       'camera.viewSpring': [code('Ctrl+Meta+3', 'Digit3', { ctrl: true, meta: true })],
       'ui.goToLastPing': [code('Meta+3', 'Digit3', { meta: true })],
+      'ui.goToLastAlert': [code('Meta+9', 'Digit9', { meta: true })],
       'ui.toggleUiChrome': [code('Meta+5', 'Digit5', { meta: true })],
       'ui.muteSound': [code('Meta+6', 'Digit6', { meta: true })],
       'ui.captureScreenshot': [code('Meta+8', 'Digit8', { meta: true })],
@@ -394,6 +394,10 @@ export function runCommandHotkeysContractTest(): void {
     resolveCommandHotkey(keyEvent('F5', 'F5'), 'bar-grid') === 'ui.goToLastPing',
     'bar-grid F5 should jump to the last message position',
   );
+  assertContract(
+    resolveCommandHotkey(keyEvent('F9', 'F9'), 'bar-grid') === 'ui.goToLastAlert',
+    'bar-grid F9 should jump to the last alert position',
+  );
   assertContract(
     resolveCommandHotkey(keyEvent('F6', 'F6', { ctrlKey: true }), 'bar-grid') === 'camera.viewSpring',
     'bar-grid Ctrl+F6 should switch to Spring camera view',
@@ -525,6 +529,10 @@ export function runCommandHotkeysContractTest(): void {
     resolveCommandHotkey(keyEvent('5', 'Digit5', { metaKey: true }), 'bar-grid-60pct') === 'ui.goToLastPing',
     'bar-grid-60pct Meta+5 should jump to the last message position',
   );
+  assertContract(
+    resolveCommandHotkey(keyEvent('9', 'Digit9', { metaKey: true }), 'bar-grid-60pct') === 'ui.goToLastAlert',
+    'bar-grid-60pct Meta+9 should jump to the last alert position',
+  );
   assertContract(
     resolveCommandHotkey(keyEvent('6', 'Digit6', { ctrlKey: true, metaKey: true }), 'bar-grid-60pct') === 'camera.viewSpring',
     'bar-grid-60pct Ctrl+Meta+6 should switch to Spring camera view',
@@ -1045,6 +1053,10 @@ export function runCommandHotkeysContractTest(): void {
     resolveCommandHotkey(keyEvent('F3', 'F3'), 'bar-legacy') === 'ui.goToLastPing',
     'bar-legacy F3 should jump to the last message position',
   );
+  assertContract(
+    resolveCommandHotkey(keyEvent('F9', 'F9'), 'bar-legacy') === 'ui.goToLastAlert',
+    'bar-legacy F9 should jump to the last alert position',
+  );
   assertContract(
     resolveCommandHotkey(keyEvent('F4', 'F4'), 'bar-legacy') === 'ui.toggleMetalMap',
     'bar-legacy F4 should toggle the metal map overlay',
@@ -1149,6 +1161,10 @@ export function runCommandHotkeysContractTest(): void {
     resolveCommandHotkey(keyEvent('3', 'Digit3', { metaKey: true }), 'bar-legacy-60pct') === 'ui.goToLastPing',
     'bar-legacy-60pct Meta+3 should jump to the last message position',
   );
+  assertContract(
+    resolveCommandHotkey(keyEvent('9', 'Digit9', { metaKey: true }), 'bar-legacy-60pct') === 'ui.goToLastAlert',
+    'bar-legacy-60pct Meta+9 should jump to the last alert position',
+  );
   assertContract(
     resolveCommandHotkey(keyEvent('4', 'Digit4', { metaKey: true }), 'bar-legacy-60pct') === 'ui.toggleMetalMap',
     'bar-legacy-60pct Meta+4 should toggle the metal map overlay',
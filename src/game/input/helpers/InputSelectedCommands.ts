@@ -1,6 +1,8 @@
 import type { ClientCommandSink } from '../ClientCommandSink';
-import type { CombatFireState, CombatTrajectoryMode, Entity, EntityId, UnitMoveState } from '../../sim/types';
+import type { CombatFireState, CombatTrajectoryMode, Entity, EntityId, PlayerId, UnitMoveState } from '../../sim/types';
 import { buildingBlueprintHasActiveState } from '../../sim/buildingActiveState';
+import { getMorphConfig } from '../../sim/morph';
+import { getStockpileConfig, hasStrategicMissileLauncher } from '../../sim/strategicWeapons';
 import { isBallisticArcWeapon } from '../../sim/combat/combatUtils';
 import {
   entityHasBarBuilderPriorityCommand,
@@ -103,6 +105,17 @@ export class InputSelectedCommands {
     return out;
   }
 
+  /** Selected silos a launch order reaches. They carry no attack turret,
+   *  so the set-target gate above never sees them. */
+  selectedStrategicMissileLaunchers(): Entity[] {
+    const selectedStatic = this.source.getSelectedBuildings();
+    const out: Entity[] = [];
+    for (let i = 0; i < selectedStatic.length; i++) {
+      if (hasStrategicMissileLauncher(selectedStatic[i])) out.push(selectedStatic[i]);
+    }
+    return out;
+  }
+
   stop(): void {
     const entityIds = this.selectedStopEntityIds();
     if (entityIds.length === 0) return;
@@ -404,6 +417,47 @@ export class InputSelectedCommands {
     });
   }
 
+  /** BAR morph is a second-click-cancels toggle: any selected entity
+   *  already morphing turns the click into a cancel for all of them. */
+  toggleMorph(): boolean {
+    const selectedUnits = this.source.getSelectedUnits();
+    const selectedStatic = this.source.getSelectedBuildings();
+    const entityIds: EntityId[] = [];
+    let anyMorphing = false;
+    for (let i = 0; i < selectedUnits.length + selectedStatic.length; i++) {
+      const entity = i < selectedUnits.length ? selectedUnits[i] : selectedStatic[i - selectedUnits.length];
+      if (getMorphConfig(entity) === null) continue;
+      entityIds.push(entity.id);
+      if (entity.morph !== null) anyMorphing = true;
+    }
+    if (entityIds.length === 0) return false;
+    this.commandQueue.enqueue({
+      type: 'morph',
+      tick: this.getTick(),
+      entityIds,
+      cancel: anyMorphing,
+    });
+    return true;
+  }
+
+  /** Queue `delta` more rounds (or fewer, when negative) on every selected
+   *  structure with a stockpile. */
+  stockpile(delta: number): boolean {
+    const selectedStatic = this.source.getSelectedBuildings();
+    const entityIds: EntityId[] = [];
+    for (let i = 0; i < selectedStatic.length; i++) {
+      if (getStockpileConfig(selectedStatic[i]) !== null) entityIds.push(selectedStatic[i].id);
+    }
+    if (entityIds.length === 0) return false;
+    this.commandQueue.enqueue({
+      type: 'stockpile',
+      tick: this.getTick(),
+      entityIds,
+      delta,
+    });
+    return true;
+  }
+
   selfDestruct(queue = false, queueFront = false, queueInsertIndex?: number): void {
     const selectedUnits = this.source.getSelectedUnits();
     const selectedStatic = this.source.getSelectedBuildings();
@@ -421,6 +475,22 @@ export class InputSelectedCommands {
     });
   }
 
+  /** Give every selected unit and building to an ally. */
+  transferSelected(targetPlayerId: PlayerId): void {
+    const selectedUnits = this.source.getSelectedUnits();
+    const selectedStatic = this.source.getSelectedBuildings();
+    const entityIds: EntityId[] = [];
+    for (let i = 0; i < selectedUnits.length; i++) entityIds.push(selectedUnits[i].id);
+    for (let i = 0; i < selectedStatic.length; i++) entityIds.push(selectedStatic[i].id);
+    if (entityIds.length === 0) return;
+    this.commandQueue.enqueue({
+      type: 'transferUnits',
+      tick: this.getTick(),
+      entityIds,
+      targetPlayerId,
+    });
+  }
+
   setTowerTarget(
     targetId: EntityId | null,
     targetPoint?: { x: number; y: number; z?: number },
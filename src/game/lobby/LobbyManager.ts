@@ -37,6 +37,7 @@ import {
 } from '../sim/Terrain';
 import type { PlayerId } from '../sim/types';
 import type { GameInstance } from '@/types/game';
+import type { AuthoredMap } from '@/types/authoredMap';
 import { applyStoredBattleServerSettings } from '../server/battleServerSettings';
 import { createHostGameGenerationSeed } from '../network/gameGenerationSeed';
 import { createLoadProgressReporter } from '../lifecycle/loadProgressReporter';
@@ -85,6 +86,7 @@ export async function createBackgroundBattle(
   onRendererWarmupChange?: (warming: boolean) => void,
   onLoadProgress?: BackgroundBattleLoadProgress,
   onStartupReady?: () => void,
+  authoredMap: AuthoredMap | null = null,
 ): Promise<BackgroundBattleState> {
   const report = createLoadProgressReporter(onLoadProgress);
 
@@ -231,6 +233,8 @@ export async function createBackgroundBattle(
       metalCoverage,
       liquidSurfaceMode,
       backgroundMode: true,
+      // The lobby preview shows the host's loaded map file, if any.
+      authoredMap: isLobbyPreview ? authoredMap : null,
       initialAllowedUnitBlueprintIds,
       initialAllowedBuildingBlueprintIds,
       initialEntityCountCap: getUnitCap(mode),
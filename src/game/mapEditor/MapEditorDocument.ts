@@ -0,0 +1,313 @@
+// MapEditorDocument — the map being edited, as plain mutable data.
+//
+// Everything the editor can do to a map happens here: the height brushes,
+// the water and cliff painters, and the deposit/start placement toggles. It
+// holds no renderer and no sim state, so the rules are testable on their own
+// and the viewport is only ever a view of `snapshot()`.
+//
+// Coordinates follow the file format: LAND CELLS from the map's (0, 0)
+// corner. Heights are world units in the map's own frame, where
+// `waterLevel` is sea level; a new map starts with the engine's own
+// datum-above-water gap, so a blank file plays like a flat generated map.
+//
+// Two outputs, on purpose:
+//   - `snapshot()` is the raw map, possibly incomplete (no starts yet, an
+//     empty name). The viewport installs it to preview the terrain.
+//   - `toAuthoredMap()` runs the file parser over it, so a saved file is
+//     exactly what the lobby will accept — and anything it would refuse
+//     fails here, in the editor, with the parser's own message.
+
+import {
+  AUTHORED_MAP_FORMAT,
+  AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES,
+  AUTHORED_MAP_MAX_METAL_DEPOSITS,
+  AUTHORED_MAP_VERSION,
+  parseAuthoredMap,
+  type AuthoredMap,
+  type AuthoredMetalDeposit,
+  type AuthoredStartPosition,
+} from '@/types/authoredMap';
+import { TILE_FLOOR_Y, WATER_LEVEL } from '../sim/terrain/terrainConfig';
+
+export const MAP_EDITOR_HEIGHT_TOOLS = ['raise', 'lower', 'smooth', 'flatten', 'water', 'cliff'] as const;
+export type MapEditorHeightTool = (typeof MAP_EDITOR_HEIGHT_TOOLS)[number];
+
+export const MAP_EDITOR_PLACEMENT_TOOLS = ['deposit', 'start'] as const;
+export type MapEditorPlacementTool = (typeof MAP_EDITOR_PLACEMENT_TOOLS)[number];
+
+export type MapEditorTool = MapEditorHeightTool | MapEditorPlacementTool;
+
+/** Heightmap resolution a new map gets, capped by the file format. */
+export const MAP_EDITOR_SAMPLES_PER_LAND_CELL = 4;
+
+/** Height a full-strength raise/lower dab moves the brush centre. */
+export const MAP_EDITOR_RAISE_STEP = 40;
+/** Depth below sea level the water painter digs to. */
+export const MAP_EDITOR_WATER_DEPTH = 120;
+/** Step a full-strength cliff stroke lifts its plateau above the stroke's
+ *  starting ground. */
+export const MAP_EDITOR_CLIFF_STEP = 240;
+/** Ceiling above sea level; the floor is the engine's own terrain floor. */
+export const MAP_EDITOR_MAX_HEIGHT_ABOVE_WATER = 2400;
+/** A placement click this close to an existing marker removes it instead. */
+export const MAP_EDITOR_PICK_RADIUS_LAND_CELLS = 1;
+
+const DEFAULT_NAME = 'Untitled map';
+// A blank map sits at the engine's datum: as far above its sea as generated
+// ground sits above the water plane.
+const BLANK_WATER_LEVEL = WATER_LEVEL;
+const BLANK_GROUND_HEIGHT = 0;
+const FLOOR_BELOW_WATER = WATER_LEVEL - TILE_FLOOR_Y;
+
+export type MapEditorBrush = {
+  /** Radius in land cells. */
+  readonly radius: number;
+  /** 0..1: fraction of the tool's full effect one dab applies. */
+  readonly strength: number;
+};
+
+export class MapEditorDocument {
+  name: string;
+  waterLevel: number;
+  vegetationDensity: number;
+  readonly widthLandCells: number;
+  readonly lengthLandCells: number;
+  readonly columns: number;
+  readonly rows: number;
+  readonly heights: Float64Array;
+  readonly metalDeposits: AuthoredMetalDeposit[] = [];
+  readonly startPositions: AuthoredStartPosition[] = [];
+  /** Bumped by every edit; the viewport rebuilds when it moves. */
+  revision = 0;
+  /** Bumped only by deposit edits — the terrain renderer bakes deposits at
+   *  construction, so only these force a new renderer. */
+  depositRevision = 0;
+
+  private constructor(
+    name: string,
+    widthLandCells: number,
+    lengthLandCells: number,
+    columns: number,
+    rows: number,
+    heights: Float64Array,
+    waterLevel: number,
+    vegetationDensity: number,
+  ) {
+    this.name = name;
+    this.widthLandCells = widthLandCells;
+    this.lengthLandCells = lengthLandCells;
+    this.columns = columns;
+    this.rows = rows;
+    this.heights = heights;
+    this.waterLevel = waterLevel;
+    this.vegetationDensity = vegetationDensity;
+  }
+
+  /** A flat dry map of the given size (odd land-cell counts, as the lobby's
+   *  map-size bars author them). */
+  static blank(widthLandCells: number, lengthLandCells: number): MapEditorDocument {
+    const columns = Math.min(AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES, widthLandCells * MAP_EDITOR_SAMPLES_PER_LAND_CELL + 1);
+    const rows = Math.min(AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES, lengthLandCells * MAP_EDITOR_SAMPLES_PER_LAND_CELL + 1);
+    return new MapEditorDocument(
+      DEFAULT_NAME,
+      widthLandCells,
+      lengthLandCells,
+      columns,
+      rows,
+      new Float64Array(columns * rows).fill(BLANK_GROUND_HEIGHT),
+      BLANK_WATER_LEVEL,
+      1,
+    );
+  }
+
+  /** Open an existing file for editing, at the file's own resolution. */
+  static fromAuthoredMap(map: AuthoredMap): MapEditorDocument {
+    const document = new MapEditorDocument(
+      map.name,
+      map.widthLandCells,
+      map.lengthLandCells,
+      map.heightmap.columns,
+      map.heightmap.rows,
+      Float64Array.from(map.heightmap.heights),
+      map.waterLevel,
+      map.vegetationDensity,
+    );
+    for (const deposit of map.metalDeposits) document.metalDeposits.push({ ...deposit });
+    for (const start of map.startPositions) document.startPositions.push({ ...start });
+    return document;
+  }
+
+  /** Height at a point, bilinear between the four surrounding samples —
+   *  the same interpolation the terrain kernel samples the file with. */
+  heightAt(x: number, y: number): number {
+    const fx = clamp(x / this.widthLandCells, 0, 1) * (this.columns - 1);
+    const fy = clamp(y / this.lengthLandCells, 0, 1) * (this.rows - 1);
+    const c0 = Math.min(Math.floor(fx), this.columns - 2);
+    const r0 = Math.min(Math.floor(fy), this.rows - 2);
+    const tx = fx - c0;
+    const ty = fy - r0;
+    const i = r0 * this.columns + c0;
+    const top = this.heights[i] + (this.heights[i + 1] - this.heights[i]) * tx;
+    const bottom = this.heights[i + this.columns] +
+      (this.heights[i + this.columns + 1] - this.heights[i + this.columns]) * tx;
+    return top + (bottom - top) * ty;
+  }
+
+  /**
+   * One brush dab centred on (x, y). `anchorHeight` is the ground height
+   * where the stroke started: flatten pulls toward it and cliff lifts a
+   * plateau above it, so a dragged stroke keeps one level instead of
+   * creeping with every dab.
+   */
+  applyBrush(
+    tool: MapEditorHeightTool,
+    x: number,
+    y: number,
+    brush: MapEditorBrush,
+    anchorHeight: number,
+  ): void {
+    const radius = Math.max(brush.radius, 1e-6);
+    const strength = clamp(brush.strength, 0, 1);
+    const cellsPerColumn = this.widthLandCells / (this.columns - 1);
+    const cellsPerRow = this.lengthLandCells / (this.rows - 1);
+    const c0 = Math.max(0, Math.ceil((x - radius) / cellsPerColumn));
+    const c1 = Math.min(this.columns - 1, Math.floor((x + radius) / cellsPerColumn));
+    const r0 = Math.max(0, Math.ceil((y - radius) / cellsPerRow));
+    const r1 = Math.min(this.rows - 1, Math.floor((y + radius) / cellsPerRow));
+    if (c0 > c1 || r0 > r1) return;
+    // Smoothing reads neighbours from before the dab, so the result does not
+    // depend on the order the samples are visited in.
+    const before = tool === 'smooth' ? this.heights.slice() : this.heights;
+    const floor = this.waterLevel - FLOOR_BELOW_WATER;
+    const ceiling = this.waterLevel + MAP_EDITOR_MAX_HEIGHT_ABOVE_WATER;
+    const seaFloor = this.waterLevel - MAP_EDITOR_WATER_DEPTH;
+    const plateau = anchorHeight + MAP_EDITOR_CLIFF_STEP * strength;
+    let changed = false;
+
+    for (let r = r0; r <= r1; r++) {
+      const dy = r * cellsPerRow - y;
+      for (let c = c0; c <= c1; c++) {
+        const dx = c * cellsPerColumn - x;
+        const t = (dx * dx + dy * dy) / (radius * radius);
+        if (t > 1) continue;
+        const falloff = (1 - t) * (1 - t);
+        const i = r * this.columns + c;
+        const h = this.heights[i];
+        let next = h;
+        switch (tool) {
+          case 'raise':
+            next = h + MAP_EDITOR_RAISE_STEP * strength * falloff;
+            break;
+          case 'lower':
+            next = h - MAP_EDITOR_RAISE_STEP * strength * falloff;
+            break;
+          case 'smooth':
+            next = h + (neighbourAverage(before, this.columns, this.rows, c, r) - h) * strength * falloff;
+            break;
+          case 'flatten':
+            next = h + (anchorHeight - h) * strength * falloff;
+            break;
+          case 'water':
+            // Only ever digs: painting sea over a valley already deeper than
+            // the sea floor must not raise it.
+            next = h + (Math.min(h, seaFloor) - h) * strength * falloff;
+            break;
+          case 'cliff':
+            // No falloff — the hard edge IS the cliff.
+            next = Math.max(h, plateau);
+            break;
+        }
+        next = clamp(next, floor, ceiling);
+        if (next !== h) {
+          this.heights[i] = next;
+          changed = true;
+        }
+      }
+    }
+    if (changed) this.revision++;
+  }
+
+  /** Place a deposit at (x, y), or remove the one already there. */
+  toggleMetalDeposit(x: number, y: number, size: string | undefined): void {
+    const index = this.nearestWithinPickRadius(this.metalDeposits, x, y);
+    if (index >= 0) {
+      this.metalDeposits.splice(index, 1);
+    } else {
+      if (this.metalDeposits.length >= AUTHORED_MAP_MAX_METAL_DEPOSITS) return;
+      const point = this.clampToMap(x, y);
+      this.metalDeposits.push(size === undefined ? point : { ...point, size });
+    }
+    this.revision++;
+    this.depositRevision++;
+  }
+
+  /** Place the next seat's start at (x, y), or remove the one already there
+   *  (later seats move up one). */
+  toggleStartPosition(x: number, y: number): void {
+    const index = this.nearestWithinPickRadius(this.startPositions, x, y);
+    if (index >= 0) this.startPositions.splice(index, 1);
+    else this.startPositions.push(this.clampToMap(x, y));
+    this.revision++;
+  }
+
+  /** The map as it stands, unvalidated. */
+  snapshot(): AuthoredMap {
+    return {
+      format: AUTHORED_MAP_FORMAT,
+      version: AUTHORED_MAP_VERSION,
+      name: this.name,
+      widthLandCells: this.widthLandCells,
+      lengthLandCells: this.lengthLandCells,
+      heightmap: { columns: this.columns, rows: this.rows, heights: Array.from(this.heights) },
+      waterLevel: this.waterLevel,
+      vegetationDensity: this.vegetationDensity,
+      metalDeposits: this.metalDeposits.map((deposit) => ({ ...deposit })),
+      startPositions: this.startPositions.map((start) => ({ ...start })),
+    };
+  }
+
+  /** The map as a file the lobby accepts. Throws the parser's message when
+   *  it would not be. */
+  toAuthoredMap(): AuthoredMap {
+    return parseAuthoredMap(this.snapshot(), this.name.trim() || DEFAULT_NAME);
+  }
+
+  private nearestWithinPickRadius(
+    points: readonly { readonly x: number; readonly y: number }[],
+    x: number,
+    y: number,
+  ): number {
+    let best = -1;
+    let bestDistanceSq = MAP_EDITOR_PICK_RADIUS_LAND_CELLS * MAP_EDITOR_PICK_RADIUS_LAND_CELLS;
+    for (let i = 0; i < points.length; i++) {
+      const dx = points[i].x - x;
+      const dy = points[i].y - y;
+      const distanceSq = dx * dx + dy * dy;
+      if (distanceSq <= bestDistanceSq) {
+        best = i;
+        bestDistanceSq = distanceSq;
+      }
+    }
+    return best;
+  }
+
+  private clampToMap(x: number, y: number): { x: number; y: number } {
+    return { x: clamp(x, 0, this.widthLandCells), y: clamp(y, 0, this.lengthLandCells) };
+  }
+}
+
+function neighbourAverage(heights: Float64Array, columns: number, rows: number, c: number, r: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let rr = Math.max(0, r - 1); rr <= Math.min(rows - 1, r + 1); rr++) {
+    for (let cc = Math.max(0, c - 1); cc <= Math.min(columns - 1, c + 1); cc++) {
+      sum += heights[rr * columns + cc];
+      count++;
+    }
+  }
+  return sum / count;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
@@ -0,0 +1,125 @@
+// Map editor document contract — the brushes do what their names say and
+// nothing outside their radius, the placement tools toggle, and a saved file
+// is exactly what the lobby's parser accepts.
+
+import { mapHasLandForSetup, mapHasWaterForSetup } from '../sim/mapSurface';
+import {
+  MAP_EDITOR_CLIFF_STEP,
+  MAP_EDITOR_WATER_DEPTH,
+  MapEditorDocument,
+} from './MapEditorDocument';
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`[map editor document contract] ${message}`);
+  }
+}
+
+function assertThrows(body: () => void, message: string): void {
+  let threw = false;
+  try {
+    body();
+  } catch {
+    threw = true;
+  }
+  assertContract(threw, message);
+}
+
+const BRUSH = { radius: 2, strength: 1 };
+
+export function runMapEditorDocumentContractTest(): void {
+  // ── a blank map ────────────────────────────────────────────────────
+  const document = MapEditorDocument.blank(7, 5);
+  assertContract(document.columns === 29 && document.rows === 21, 'a new map gets four samples per land cell');
+  assertContract(
+    MapEditorDocument.blank(119, 119).columns === 257,
+    'a huge map is capped at the file format\'s sample limit',
+  );
+  const ground = document.heightAt(3.5, 2.5);
+  assertContract(ground > document.waterLevel, 'a blank map is dry ground above its sea');
+  assertThrows(() => document.toAuthoredMap(), 'a map with no start positions cannot be saved');
+
+  // ── height brushes ────────────────────────────────────────────────
+  document.applyBrush('raise', 3.5, 2.5, BRUSH, ground);
+  const raised = document.heightAt(3.5, 2.5);
+  assertContract(raised > ground, 'raise lifts the brush centre');
+  assertContract(document.heightAt(0, 0) === ground, 'a dab leaves ground outside its radius alone');
+  assertContract(
+    document.heightAt(4.5, 2.5) < raised && document.heightAt(4.5, 2.5) > ground,
+    'the raise falls off toward the brush rim',
+  );
+
+  document.applyBrush('smooth', 3.5, 2.5, BRUSH, raised);
+  assertContract(document.heightAt(3.5, 2.5) < raised, 'smooth pulls a peak toward its neighbours');
+
+  document.applyBrush('flatten', 3.5, 2.5, { radius: 3, strength: 1 }, ground);
+  assertContract(document.heightAt(3.5, 2.5) === ground, 'a full-strength flatten lands its centre on the anchor');
+
+  const revision = document.revision;
+  document.applyBrush('lower', 100, 100, BRUSH, ground);
+  assertContract(document.revision === revision, 'a dab that touches nothing is not an edit');
+
+  document.applyBrush('water', 1.5, 2.5, BRUSH, ground);
+  assertContract(
+    document.heightAt(1.5, 2.5) === document.waterLevel - MAP_EDITOR_WATER_DEPTH,
+    'painted water digs the centre down to the sea floor',
+  );
+  document.applyBrush('water', 1.5, 2.5, BRUSH, ground);
+  assertContract(
+    document.heightAt(1.5, 2.5) === document.waterLevel - MAP_EDITOR_WATER_DEPTH,
+    'painting water twice never digs past the sea floor',
+  );
+
+  document.applyBrush('cliff', 5.5, 2.5, { radius: 1, strength: 1 }, ground);
+  assertContract(
+    document.heightAt(5.5, 2.5) === ground + MAP_EDITOR_CLIFF_STEP,
+    'cliff lifts a plateau one step above the stroke\'s ground',
+  );
+  assertContract(
+    document.heightAt(5.5, 2.5 + 1.25) === ground,
+    'the cliff has a hard edge: ground just past its radius is untouched',
+  );
+
+  // ── placement ─────────────────────────────────────────────────────
+  document.toggleStartPosition(1, 1);
+  document.toggleStartPosition(6, 4);
+  document.toggleStartPosition(6.5, 4.2);
+  assertContract(document.startPositions.length === 1, 'clicking an existing start removes it');
+  document.toggleStartPosition(9, -3);
+  assertContract(
+    document.startPositions[1].x === 7 && document.startPositions[1].y === 0,
+    'a placement past the edge lands on the edge',
+  );
+  const depositRevision = document.depositRevision;
+  document.toggleMetalDeposit(3.5, 2.5, 'broad');
+  assertContract(document.depositRevision === depositRevision + 1, 'a deposit edit is flagged for the renderer');
+  document.toggleMetalDeposit(3.5, 2.5, undefined);
+  assertContract(document.metalDeposits.length === 0, 'clicking an existing deposit removes it');
+  document.toggleMetalDeposit(3.5, 2.5, undefined);
+
+  // ── save ──────────────────────────────────────────────────────────
+  document.name = '  Contract bay  ';
+  const saved = document.toAuthoredMap();
+  assertContract(saved.name === 'Contract bay', 'a saved file goes through the lobby parser');
+  assertContract(
+    JSON.stringify(MapEditorDocument.fromAuthoredMap(saved).toAuthoredMap()) === JSON.stringify(saved),
+    'a saved file reopens to the same map',
+  );
+  const setup = {
+    centerMagnitude: 0,
+    ringMagnitude: 0,
+    dividersMagnitude: 0,
+    perimeterMagnitude: 0,
+    liquidSurfaceMode: 'water' as const,
+    authoredMap: saved,
+  };
+  assertContract(
+    mapHasWaterForSetup(setup) && mapHasLandForSetup(setup),
+    'painted water and dry ground both reach the map-surface questions',
+  );
+
+  document.name = '';
+  assertThrows(() => document.toAuthoredMap(), 'an unnamed map cannot be saved');
+
+  console.log('[contract] mapEditorDocument: brushes, placement and save hold');
+}
@@ -0,0 +1,221 @@
+// MapEditorViewport3D — the map editor's 3D view.
+//
+// Renders the map being edited with the game's own terrain and water
+// renderers, so what the author sees is what a match on the file will look
+// like: the edited map is installed into the terrain state exactly the way
+// the server bootstrap installs a lobby's map file (setAuthoredMap →
+// generateMetalDeposits → buildTerrainTileMap), and TerrainTileRenderer3D
+// rebuilds from the new authoritative tile map on its own.
+//
+// The editor page is a side room — no battle runs behind it — so while it is
+// open this view owns the window's renderer slot and the process-global
+// terrain state. Destroying it uninstalls the map; the next battle to boot
+// installs its own.
+//
+// Deposit and start markers are plain meshes on top. Deposits are also baked
+// into the terrain renderer's ore field at construction, so a deposit edit
+// rebuilds that renderer rather than just the mesh.
+
+import * as THREE from 'three';
+import type { AuthoredMap } from '@/types/authoredMap';
+import type { PlayerId } from '../sim/types';
+import { getPlayerPrimaryColor } from '../sim/types';
+import { LAND_CELL_SIZE, MAP_BG_COLOR, getMapSize, hexToStr } from '../../config';
+import { generateMetalDeposits, type MetalDeposit } from '../../metalDepositConfig';
+import { getGraphicsConfig } from '@/clientBarConfig';
+import {
+  buildTerrainTileMap,
+  getTerrainMeshHeight,
+  setAuthoredMap,
+  setAuthoritativeTerrainTileMap,
+} from '../sim/Terrain';
+import { ClientViewState } from '../network/ClientViewState';
+import { ThreeApp } from '../render3d/ThreeApp';
+import { WorldShade3D } from '../render3d/WorldShade3D';
+import { TerrainTileRenderer3D } from '../render3d/TerrainTileRenderer3D';
+import { WaterRenderer3D } from '../render3d/WaterRenderer3D';
+import { CursorGround } from '../render3d/CursorGround';
+import { cameraSurfaceHeight } from '../render3d/CameraSurface3D';
+import { EntityShadowRenderPacket3D } from '../render3d/EntityShadowRenderPacket3D';
+import { snapshotRenderFrameState } from '../render3d/RenderFrameState3D';
+import { acquireRendererSlot, releaseRendererSlot } from '../lifecycle/sessionSingleton';
+
+const DEPOSIT_MARKER_COLOR = 0xe0b040;
+const DEPOSIT_MARKER_RADIUS = LAND_CELL_SIZE * 0.45;
+const DEPOSIT_MARKER_HEIGHT = 24;
+const START_MARKER_RADIUS = LAND_CELL_SIZE * 0.35;
+const START_MARKER_HEIGHT = LAND_CELL_SIZE * 1.2;
+
+export class MapEditorViewport3D {
+  private readonly app: ThreeApp;
+  private readonly clientViewState = new ClientViewState();
+  private readonly mapWidth: number;
+  private readonly mapHeight: number;
+  private readonly water: WaterRenderer3D;
+  private readonly markers = new THREE.Group();
+  private readonly depositGeometry = new THREE.CylinderGeometry(
+    DEPOSIT_MARKER_RADIUS, DEPOSIT_MARKER_RADIUS, DEPOSIT_MARKER_HEIGHT, 20,
+  );
+  private readonly depositMaterial = new THREE.MeshStandardMaterial({ color: DEPOSIT_MARKER_COLOR, metalness: 0.6 });
+  private readonly startGeometry = new THREE.ConeGeometry(START_MARKER_RADIUS, START_MARKER_HEIGHT, 16);
+  private readonly startMaterials: THREE.MeshStandardMaterial[] = [];
+  private readonly frameState = snapshotRenderFrameState();
+  private readonly terrainUpdateOptions = {
+    localPlayerId: 1 as PlayerId,
+    fogShade: {
+      enabled: false,
+      unseenDarkness: 0,
+      radarDarkness: 0,
+      unseenDesaturation: 0,
+      radarDesaturation: 0,
+    },
+    entityShadows: new EntityShadowRenderPacket3D(),
+    visibleBounds: { minX: -Infinity, maxX: Infinity, minY: -Infinity, maxY: Infinity },
+    updateWorldShadeCoverage: true,
+  };
+  private terrain: TerrainTileRenderer3D;
+  private cursorGround: CursorGround;
+  private deposits: MetalDeposit[];
+  private destroyed = false;
+
+  constructor(parent: HTMLElement, map: AuthoredMap) {
+    const { width, height } = getMapSize(false, map.widthLandCells, map.lengthLandCells);
+    this.mapWidth = width;
+    this.mapHeight = height;
+    acquireRendererSlot(this);
+    this.deposits = this.install(map);
+    this.app = new ThreeApp(
+      parent,
+      Math.max(1, parent.clientWidth),
+      Math.max(1, parent.clientHeight),
+      width,
+      height,
+      hexToStr(MAP_BG_COLOR),
+    );
+    this.terrain = this.createTerrainRenderer();
+    this.water = new WaterRenderer3D(this.app.world, width, height);
+    this.cursorGround = this.createCursorGround();
+    this.app.orbit.setCursorPicker((cx, cy, terrainMode) => this.cursorGround.pickWorld(cx, cy, terrainMode));
+    this.app.orbit.setTerrainSampler((x, z) => cameraSurfaceHeight(x, z, width, height));
+    this.app.world.add(this.markers);
+    this.placeMarkers(map);
+
+    this.app.onUpdate((_time, delta) => {
+      const gfx = getGraphicsConfig();
+      snapshotRenderFrameState(this.app.camera, this.app.canvas.clientHeight, this.frameState);
+      this.terrain.update(gfx, this.frameState, this.terrainUpdateOptions);
+      this.water.update(delta / 1000, gfx, this.frameState);
+    });
+    this.app.start();
+  }
+
+  get canvas(): HTMLCanvasElement {
+    return this.app.canvas;
+  }
+
+  /** Show an edited map. `depositsChanged` rebuilds the terrain renderer,
+   *  whose ore field is baked from the deposit list. The map's size must not
+   *  change; a resized map is a new viewport. */
+  setMap(map: AuthoredMap, depositsChanged: boolean): void {
+    if (this.destroyed) return;
+    this.deposits = this.install(map);
+    if (depositsChanged) {
+      this.terrain.destroy();
+      this.terrain = this.createTerrainRenderer();
+      this.cursorGround.dispose();
+      this.cursorGround = this.createCursorGround();
+    }
+    this.placeMarkers(map);
+  }
+
+  /** The map point (in land cells) under a screen position, on the terrain
+   *  bed — under water too, so the brushes can reach the sea floor. */
+  pickLandCell(clientX: number, clientY: number): { x: number; y: number } | null {
+    const hit = this.cursorGround.pickTerrainBedSim(clientX, clientY);
+    if (hit === null) return null;
+    if (hit.x < 0 || hit.y < 0 || hit.x > this.mapWidth || hit.y > this.mapHeight) return null;
+    return { x: hit.x / LAND_CELL_SIZE, y: hit.y / LAND_CELL_SIZE };
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.app.stop();
+    this.clearMarkers();
+    this.depositGeometry.dispose();
+    this.depositMaterial.dispose();
+    this.startGeometry.dispose();
+    for (const material of this.startMaterials) material.dispose();
+    this.cursorGround.dispose();
+    this.terrain.destroy();
+    this.water.destroy();
+    this.app.destroy();
+    setAuthoritativeTerrainTileMap(null);
+    setAuthoredMap(null);
+    releaseRendererSlot(this);
+  }
+
+  /** The server bootstrap's terrain phases, for one map. */
+  private install(map: AuthoredMap): MetalDeposit[] {
+    setAuthoredMap(map);
+    const deposits = generateMetalDeposits(this.mapWidth, this.mapHeight, Math.max(1, map.startPositions.length));
+    setAuthoritativeTerrainTileMap(buildTerrainTileMap(this.mapWidth, this.mapHeight, LAND_CELL_SIZE));
+    return deposits;
+  }
+
+  private createTerrainRenderer(): TerrainTileRenderer3D {
+    return new TerrainTileRenderer3D(
+      this.app.world,
+      this.clientViewState,
+      this.mapWidth,
+      this.mapHeight,
+      this.deposits,
+      new WorldShade3D(this.app.renderer, this.mapWidth, this.mapHeight),
+    );
+  }
+
+  private createCursorGround(): CursorGround {
+    return new CursorGround(
+      this.app.camera,
+      this.app.canvas,
+      this.mapWidth,
+      this.mapHeight,
+      this.terrain.getMesh(),
+      this.water.getMesh(),
+    );
+  }
+
+  private placeMarkers(map: AuthoredMap): void {
+    this.clearMarkers();
+    for (const deposit of map.metalDeposits) {
+      const mesh = new THREE.Mesh(this.depositGeometry, this.depositMaterial);
+      this.placeOnGround(mesh, deposit.x, deposit.y, DEPOSIT_MARKER_HEIGHT / 2);
+      this.markers.add(mesh);
+    }
+    map.startPositions.forEach((start, seat) => {
+      const mesh = new THREE.Mesh(this.startGeometry, this.startMaterial(seat));
+      this.placeOnGround(mesh, start.x, start.y, START_MARKER_HEIGHT / 2);
+      this.markers.add(mesh);
+    });
+  }
+
+  private placeOnGround(mesh: THREE.Mesh, landX: number, landY: number, lift: number): void {
+    const x = landX * LAND_CELL_SIZE;
+    const z = landY * LAND_CELL_SIZE;
+    mesh.position.set(x, getTerrainMeshHeight(x, z, this.mapWidth, this.mapHeight) + lift, z);
+  }
+
+  /** Seat colours match the lobby's: seat N plays as player N + 1. */
+  private startMaterial(seat: number): THREE.MeshStandardMaterial {
+    while (this.startMaterials.length <= seat) {
+      const playerId = (this.startMaterials.length + 1) as PlayerId;
+      this.startMaterials.push(new THREE.MeshStandardMaterial({ color: getPlayerPrimaryColor(playerId) }));
+    }
+    return this.startMaterials[seat];
+  }
+
+  private clearMarkers(): void {
+    // Geometry and materials are shared and outlive the meshes.
+    this.markers.clear();
+  }
+}
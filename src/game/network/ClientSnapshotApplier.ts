@@ -33,6 +33,9 @@ import {
   getUnitBuildRequired,
 } from './ClientBuildStateApplier';
 import { getBuildingConfig } from '../sim/buildConfigs';
+import { getMorphConfig } from '../sim/morph';
+import { createStatusEffects } from '../sim/statusEffects';
+import { setVeterancyRank } from '../sim/veterancy';
 import { buildingBlueprintHasActiveState } from '../sim/buildingActiveState';
 import {
   decodeFactoryProductionQueueInto,
@@ -122,7 +125,8 @@ export function snapClientNonVisualState(
   const isFull = cf == null;
   const su = server.unit;
   let cacheDirty = false;
-  if (entity.ownership?.playerId !== server.playerId) {
+  // Wrecks belong to nobody; the row's playerId is only a placeholder.
+  if (entity.wreck === null && entity.ownership?.playerId !== server.playerId) {
     entity.ownership = { playerId: server.playerId };
     cacheDirty = true;
   }
@@ -289,5 +293,47 @@ export function snapClientNonVisualState(
     applyNetworkFactorySnapshot(entity, sf, isFull);
   }
 
+  // Absent from a full record means no morph; absent from a delta means
+  // unchanged. The target always comes from this client's blueprint.
+  if (server.morph !== undefined || isFull) {
+    const morph = server.morph ?? null;
+    const config = morph !== null ? getMorphConfig(entity) : null;
+    entity.morph = config !== null && morph !== null
+      ? { into: config.into, progressMs: morph.progressMs }
+      : null;
+  }
+
+  // Same rule for status effects. The client only draws them, so only the
+  // fields the record carries are filled in.
+  if (server.statusEffects !== undefined || isFull) {
+    const status = server.statusEffects;
+    if (status === undefined) {
+      entity.statusEffects = null;
+    } else {
+      const local = entity.statusEffects ?? (entity.statusEffects = createStatusEffects());
+      local.paralyzedMs = status.paralyzedMs;
+      local.slowStacks = status.slowStacks;
+      local.burnStacks = status.burnStacks;
+    }
+  }
+
+  // Veterancy never clears on a live unit, so an hp delta without it just
+  // means the unit has none yet. The rank rebuilds turret ranges locally.
+  const veterancy = server.veterancy;
+  if (veterancy !== undefined) {
+    setVeterancyRank(entity, veterancy.rank);
+    entity.veterancy!.experience = veterancy.experience;
+  }
+
+  // A stockpile never clears either, and only its owner's team is sent
+  // one, so an absent record leaves whatever this client last knew.
+  const stockpile = server.stockpile;
+  if (stockpile !== undefined) {
+    const local = entity.stockpile ?? (entity.stockpile = { stock: 0, queued: 0, progressMs: 0 });
+    local.stock = stockpile.stock;
+    local.queued = stockpile.queued;
+    local.progressMs = stockpile.progressMs;
+  }
+
   return cacheDirty;
 }
@@ -969,6 +969,7 @@ export class ClientViewState extends ClientViewStateBase {
           views.y[slot],
           views.bodyHudWidth[slot],
           maxHp > 0 ? hp / maxHp : 0,
+          entity.veterancy?.rank ?? 0,
         );
         return;
       }
@@ -996,6 +997,7 @@ export class ClientViewState extends ClientViewStateBase {
       entity.transform.y,
       unit !== null ? unit.radius.other * 2 : building!.width,
       maxHp > 0 ? hp / maxHp : 0,
+      entity.veterancy?.rank ?? 0,
     );
   }
 
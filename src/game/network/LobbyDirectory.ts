@@ -64,6 +64,7 @@ type LobbyDirectoryEntry = {
   readonly maxPlayers: number;
   readonly spectatorCount: number;
   readonly maxSpectators: number;
+  readonly spectatorDelaySeconds: number;
   readonly mapName: string;
   readonly createdAt: number;
   readonly updatedAt: number;
@@ -85,6 +86,9 @@ type LobbyAnnouncement = {
   /** Watchers attached, counted apart from seats: a running game with no free
    *  seat is still worth showing as watchable. */
   readonly spectatorCount: number;
+  /** How far behind live those watchers see the match, so a browsing
+   *  player knows before clicking WATCH. */
+  readonly spectatorDelaySeconds: number;
   readonly mapName: string;
 };
 
@@ -184,6 +188,7 @@ function readEntry(raw: unknown): LobbyDirectoryEntry | null {
     maxPlayers: readCount(value.maxPlayers, MAX_LOBBY_PLAYERS),
     spectatorCount: readCount(value.spectatorCount, 0),
     maxSpectators: readCount(value.maxSpectators, MAX_LOBBY_SPECTATORS),
+    spectatorDelaySeconds: readCount(value.spectatorDelaySeconds, 0),
     mapName: typeof value.mapName === 'string' ? value.mapName : '',
     createdAt: readCount(value.createdAt, 0),
     updatedAt: readCount(value.updatedAt, 0),
@@ -4,7 +4,16 @@ import { isLiquidSurfaceMode, isMetalCoverage } from '@/types/worldSurfaceMode';
 import { isTerrainPrecedence } from '@/types/terrainPrecedence';
 import { isPathfindingCellConsolidationMultiplier } from '@/types/pathfinding';
 import { isSimulationTickRateHz } from '@/types/simulationTickRate';
+import {
+  isVictoryHoldSeconds,
+  isVictoryMode,
+  isVictoryTimeLimitSeconds,
+  VICTORY_HOLD_SECONDS_OPTIONS,
+  VICTORY_TIME_LIMIT_SECONDS_OPTIONS,
+} from '@/types/victoryCondition';
+import { describeAuthoredMapSeatShortfall, parseAuthoredMap } from '@/types/authoredMap';
 import { MAX_LOBBY_NAME_LENGTH } from './lobbyName';
+import { isSpectatorDelaySeconds, SPECTATOR_DELAY_OPTIONS_SECONDS } from './spectatorDelay';
 
 const NUMERIC_FIELDS = [
   'centerMagnitude',
@@ -22,14 +31,17 @@ const NUMERIC_FIELDS = [
   'pathfindingCellConsolidationMultiplier',
   'simulationTickRateHz',
   'converterTax',
+  'spectatorDelaySeconds',
 ] as const satisfies readonly (keyof LobbySettings)[];
 
 /** Network messages carry exactly one complete lobby-settings contract. Missing
  * or malformed fields are protocol errors; they are never reconstructed from
- * local preferences or defaults. */
+ * local preferences or defaults. `seatedPlayerCount`, when the caller knows
+ * the roster, is checked against the authored map's start positions. */
 export function assertCurrentLobbySettings(
   value: unknown,
   context = 'lobby settings',
+  seatedPlayerCount?: number,
 ): asserts value is LobbySettings {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     throw new Error(`[${context}] expected the current settings object`);
@@ -76,6 +88,11 @@ export function assertCurrentLobbySettings(
       `[${context}] lobbyName must be at most ${MAX_LOBBY_NAME_LENGTH} characters`,
     );
   }
+  if (!isSpectatorDelaySeconds(settings.spectatorDelaySeconds)) {
+    throw new Error(
+      `[${context}] spectatorDelaySeconds must be one of ${SPECTATOR_DELAY_OPTIONS_SECONDS.join(', ')}`,
+    );
+  }
   if (typeof settings.slowDownAtFinalWaypoint !== 'boolean') {
     throw new Error(`[${context}] missing or invalid slowDownAtFinalWaypoint`);
   }
@@ -88,4 +105,30 @@ export function assertCurrentLobbySettings(
   if (!isTerrainPrecedence(settings.terrainPrecedence)) {
     throw new Error(`[${context}] missing or invalid terrainPrecedence`);
   }
+  if (!isVictoryMode(settings.victoryMode)) {
+    throw new Error(`[${context}] missing or invalid victoryMode`);
+  }
+  if (!isVictoryHoldSeconds(settings.victoryHoldSeconds)) {
+    throw new Error(
+      `[${context}] victoryHoldSeconds must be one of ${VICTORY_HOLD_SECONDS_OPTIONS.join(', ')}`,
+    );
+  }
+  if (!isVictoryTimeLimitSeconds(settings.victoryTimeLimitSeconds)) {
+    throw new Error(
+      `[${context}] victoryTimeLimitSeconds must be one of ${VICTORY_TIME_LIMIT_SECONDS_OPTIONS.join(', ')}`,
+    );
+  }
+  if (settings.authoredMap !== null) {
+    const map = parseAuthoredMap(settings.authoredMap, `${context} authoredMap`);
+    if (
+      settings.mapWidthLandCells !== map.widthLandCells ||
+      settings.mapLengthLandCells !== map.lengthLandCells
+    ) {
+      throw new Error(`[${context}] map dimensions must match the authored map's`);
+    }
+    const shortfall = seatedPlayerCount === undefined
+      ? null
+      : describeAuthoredMapSeatShortfall(map, seatedPlayerCount);
+    if (shortfall !== null) throw new Error(`[${context}] ${shortfall}`);
+  }
 }
@@ -1,9 +1,11 @@
 import type { LobbySettings } from '@/types/network';
 import { assertCurrentLobbySettings } from './LobbySettingsContract';
 import { MAX_LOBBY_NAME_LENGTH } from './lobbyName';
+import type { AuthoredMap } from '@/types/authoredMap';
 
 const CURRENT_SETTINGS: LobbySettings = {
   lobbyName: 'Test lobby',
+  spectatorDelaySeconds: 0,
   centerMagnitude: 0,
   ringMagnitude: 0,
   dividersMagnitude: 0,
@@ -23,12 +25,29 @@ const CURRENT_SETTINGS: LobbySettings = {
   slowDownAtFinalWaypoint: true,
   metalCoverage: 'more',
   liquidSurfaceMode: 'water',
+  victoryMode: 'commander',
+  victoryHoldSeconds: 120,
+  victoryTimeLimitSeconds: 1200,
+  authoredMap: null,
 };
 
-function assertRejected(value: unknown, label: string): void {
+const AUTHORED_MAP: AuthoredMap = {
+  format: 'rts-map',
+  version: 1,
+  name: 'Contract island',
+  widthLandCells: 21,
+  lengthLandCells: 21,
+  heightmap: { columns: 2, rows: 2, heights: [0, 10, 10, 20] },
+  waterLevel: 5,
+  vegetationDensity: 1,
+  metalDeposits: [{ x: 10, y: 10 }],
+  startPositions: [{ x: 3, y: 3 }, { x: 18, y: 18 }],
+};
+
+function assertRejected(value: unknown, label: string, seatedPlayerCount?: number): void {
   let rejected = false;
   try {
-    assertCurrentLobbySettings(value, 'contract test');
+    assertCurrentLobbySettings(value, 'contract test', seatedPlayerCount);
   } catch {
     rejected = true;
   }
@@ -56,6 +75,68 @@ export function runLobbySettingsContractTest(): void {
     { ...CURRENT_SETTINGS, lobbyName: 'x'.repeat(MAX_LOBBY_NAME_LENGTH + 1) },
     'a lobbyName past the length ceiling',
   );
+  for (const spectatorDelaySeconds of [0, 30, 120, 300]) {
+    assertCurrentLobbySettings(
+      { ...CURRENT_SETTINGS, spectatorDelaySeconds },
+      'contract test supported spectator delay',
+    );
+  }
+  assertRejected(
+    { ...CURRENT_SETTINGS, spectatorDelaySeconds: 45 },
+    'an unsupported spectator delay',
+  );
+  for (const victoryMode of ['commander', 'annihilation', 'controlPoints', 'score'] as const) {
+    assertCurrentLobbySettings(
+      { ...CURRENT_SETTINGS, victoryMode },
+      'contract test supported victory mode',
+    );
+  }
+  assertRejected(
+    { ...CURRENT_SETTINGS, victoryMode: undefined },
+    'an obsolete packet without victoryMode',
+  );
+  assertRejected(
+    { ...CURRENT_SETTINGS, victoryMode: 'king' },
+    'an unsupported victory mode',
+  );
+  assertRejected(
+    { ...CURRENT_SETTINGS, victoryHoldSeconds: 0 },
+    'an unsupported control-point hold time',
+  );
+  assertRejected(
+    { ...CURRENT_SETTINGS, victoryTimeLimitSeconds: 61 },
+    'an unsupported score time limit',
+  );
+  assertCurrentLobbySettings(
+    { ...CURRENT_SETTINGS, mapWidthLandCells: 21, mapLengthLandCells: 21, authoredMap: AUTHORED_MAP },
+    'contract test authored map',
+  );
+  assertRejected(
+    { ...CURRENT_SETTINGS, authoredMap: AUTHORED_MAP },
+    'map dimensions that disagree with the authored map',
+  );
+  const authoredSettings = {
+    ...CURRENT_SETTINGS,
+    mapWidthLandCells: 21,
+    mapLengthLandCells: 21,
+    authoredMap: AUTHORED_MAP,
+  };
+  assertCurrentLobbySettings(authoredSettings, 'contract test authored map seats', 2);
+  assertRejected(authoredSettings, 'more seated players than the authored map has starts', 3);
+  assertCurrentLobbySettings(CURRENT_SETTINGS, 'contract test generated map seats', 6);
+  assertRejected(
+    {
+      ...CURRENT_SETTINGS,
+      mapWidthLandCells: 21,
+      mapLengthLandCells: 21,
+      authoredMap: { ...AUTHORED_MAP, version: 2 },
+    },
+    'an authored map of an unknown version',
+  );
+  assertRejected(
+    { ...CURRENT_SETTINGS, authoredMap: undefined },
+    'an obsolete packet without authoredMap',
+  );
   const missingTerrainDetail = { ...CURRENT_SETTINGS } as Partial<LobbySettings>;
   delete missingTerrainDetail.terrainDetail;
   assertRejected(missingTerrainDetail, 'an incomplete settings packet');
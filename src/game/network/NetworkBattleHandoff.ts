@@ -5,11 +5,13 @@ import {
 } from '@/types/network';
 import {
   allyTeamByPlayerIdFromInitialization,
+  botProfileByPlayerIdFromInitialization,
   buildCanonicalMatchInitialization,
   hashCanonicalMatchInitialization,
 } from '../architecture/CanonicalMatchInitialization';
 import { FIRST_ALLY_TEAM_ID } from '../sim/teamRoster';
 import type { PlayerId } from '../sim/types';
+import type { SeatBotProfile } from '../sim/agentSeat';
 import type { LobbyPlayer } from './NetworkTypes';
 import { normalizeRoomCode } from './NetworkRoomCode';
 import { createHostGameGenerationSeed } from './gameGenerationSeed';
@@ -30,6 +32,8 @@ type BuildBattleHandoffOptions = {
    *  hashed initialization: bot-driven seats and base-opening seats. */
   aiPlayerIds: readonly PlayerId[];
   baseSeatPlayerIds: readonly PlayerId[];
+  /** Difficulty and personality per bot seat, hashed with the seat axes. */
+  botProfileByPlayerId: Readonly<Record<number, SeatBotProfile>>;
   /** Sides the lobby declared, empty ones included. */
   allyTeamCount: number;
   settings: LobbySettings;
@@ -50,6 +54,7 @@ export function buildBattleHandoff({
   allyTeamCount,
   aiPlayerIds,
   baseSeatPlayerIds,
+  botProfileByPlayerId,
   settings,
 }: BuildBattleHandoffOptions): BattleHandoff {
   const normalizedPlayerIds = normalizePlayerIds(playerIds);
@@ -80,6 +85,7 @@ export function buildBattleHandoff({
     allyTeamByPlayerId,
     allyTeamCount,
     aiPlayerIds,
+    botProfileByPlayerId,
     baseSeatPlayerIds,
     settings,
     gameGenerationSeed: createHostGameGenerationSeed(),
@@ -103,7 +109,7 @@ export function normalizeBattleHandoffMessage(
   if (handoff.gameId !== message.gameId) {
     throw new Error(`Battle handoff game mismatch: message=${message.gameId}, handoff=${handoff.gameId}`);
   }
-  assertCurrentLobbySettings(handoff.settings, 'battle handoff');
+  assertCurrentLobbySettings(handoff.settings, 'battle handoff', handoff.playerIds.length);
   const normalizedRoomCode = normalizeRoomCode(handoff.roomCode);
   const normalizedPlayerIds = normalizePlayerIds(handoff.playerIds);
   const messagePlayerIds = normalizePlayerIds(message.playerIds);
@@ -118,6 +124,7 @@ export function normalizeBattleHandoffMessage(
     allyTeamByPlayerId: allyTeamByPlayerIdFromInitialization(handoff.initialization),
     allyTeamCount: handoff.initialization.allyTeamCount,
     aiPlayerIds: handoff.initialization.aiPlayerIds,
+    botProfileByPlayerId: botProfileByPlayerIdFromInitialization(handoff.initialization),
     baseSeatPlayerIds: handoff.initialization.baseSeatPlayerIds,
     settings: handoff.settings,
     gameGenerationSeed: handoff.initialization.gameGenerationSeed,
@@ -39,7 +39,10 @@ import type {
 } from '@/types/network';
 import {
   DEFAULT_BOT_INITIAL_STATE,
+  DEFAULT_BOT_PROFILE,
   DEFAULT_HUMAN_INITIAL_STATE,
+  normalizeBotProfile,
+  type SeatBotProfile,
   type SeatInitialState,
 } from '../sim/agentSeat';
 import { MAX_LOBBY_PLAYERS, MAX_LOBBY_SPECTATORS } from './LobbyDirectory';
@@ -272,6 +275,7 @@ export class NetworkLobbyMembers {
         isBot: true,
         allyTeamId: bot.allyTeamId,
         initialState: bot.initialState,
+        botProfile: { ...bot.profile },
         ipAddress: undefined,
         location: undefined,
         timezone: undefined,
@@ -309,15 +313,22 @@ export class NetworkLobbyMembers {
     return out.sort((a, b) => a - b);
   }
 
+  /** Bot seat -> difficulty and personality, for the hashed initialization. */
+  botProfileByPlayerId(): Record<number, SeatBotProfile> {
+    const out: Record<number, SeatBotProfile> = {};
+    for (const bot of this.botSeats.values()) out[bot.playerId] = { ...bot.profile };
+    return out;
+  }
+
   botSeatsList(): LobbyBotSeat[] {
     return [...this.botSeats.values()]
-      .map((bot) => ({ ...bot }))
+      .map((bot) => ({ ...bot, profile: { ...bot.profile } }))
       .sort((a, b) => a.playerId - b.playerId);
   }
 
   /** Seat a bot on a team (host gesture). Bots default to the 'base'
-   *  opening — the demo's whole character in one default — and the host
-   *  can flip any seat's initial state afterwards. */
+   *  opening — the demo's whole character in one default — and the
+   *  default profile; the host can change either afterwards. */
   addBotSeat(sideCount: number, preferredAllyTeamId?: number): LobbyBotSeat | null {
     const seat = this.lowestFreeSeat();
     if (seat === null) return null;
@@ -328,9 +339,10 @@ export class NetworkLobbyMembers {
         sideCount,
       ),
       initialState: DEFAULT_BOT_INITIAL_STATE,
+      profile: { ...DEFAULT_BOT_PROFILE },
     };
     this.botSeats.set(seat, bot);
-    return { ...bot };
+    return { ...bot, profile: { ...bot.profile } };
   }
 
   removeBotSeat(playerId: PlayerId): boolean {
@@ -346,6 +358,19 @@ export class NetworkLobbyMembers {
     return true;
   }
 
+  /** Change a bot seat's difficulty and/or personality. Human seats have
+   *  no profile: a person plays at whatever level they play. */
+  setBotProfile(playerId: PlayerId, profile: Partial<SeatBotProfile>): boolean {
+    const bot = this.botSeats.get(playerId);
+    if (bot === undefined) return false;
+    const next = normalizeBotProfile({ ...bot.profile, ...profile });
+    if (next.difficulty === bot.profile.difficulty && next.personality === bot.profile.personality) {
+      return false;
+    }
+    bot.profile = next;
+    return true;
+  }
+
   /** Flip one seat's INITIAL STATE, member-held or bot. */
   setSeatInitialState(playerId: PlayerId, initialState: SeatInitialState): boolean {
     const bot = this.botSeats.get(playerId);
@@ -767,6 +792,7 @@ export class NetworkLobbyMembers {
         playerId: bot.playerId,
         allyTeamId: bot.allyTeamId,
         initialState: bot.initialState === 'commander' ? 'commander' : 'base',
+        profile: normalizeBotProfile(bot.profile),
       });
     }
   }
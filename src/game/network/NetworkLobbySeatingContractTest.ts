@@ -25,6 +25,7 @@ import type { PlayerId } from '../sim/types';
 
 const HANDOFF_SETTINGS: LobbySettings = {
   lobbyName: '',
+  spectatorDelaySeconds: 0,
   centerMagnitude: 0,
   ringMagnitude: 0,
   dividersMagnitude: 0,
@@ -44,6 +45,10 @@ const HANDOFF_SETTINGS: LobbySettings = {
   slowDownAtFinalWaypoint: false,
   metalCoverage: 'more',
   liquidSurfaceMode: 'water',
+  victoryMode: 'commander',
+  victoryHoldSeconds: 120,
+  victoryTimeLimitSeconds: 1200,
+  authoredMap: null,
 };
 
 function assert(condition: boolean, message: string): void {
@@ -280,6 +285,7 @@ export function runNetworkLobbySeatingContractTest(): void {
       allyTeamCount: 3,
       aiPlayerIds: members.botSeatPlayerIds(),
       baseSeatPlayerIds: members.baseSeatPlayerIds(),
+      botProfileByPlayerId: members.botProfileByPlayerId(),
       settings: HANDOFF_SETTINGS,
     });
 
@@ -478,6 +484,20 @@ export function runNetworkLobbySeatingContractTest(): void {
     assert(members.baseSeatPlayerIds().join(',') === '1',
       'initial state mixes freely across agent types');
 
+    // A bot seat's profile starts at the default and is the host's to change;
+    // a human seat has none.
+    assert(bot!.profile.difficulty === 'normal' && bot!.profile.personality === 'balanced',
+      'a bot starts at the default profile');
+    assert(members.setBotProfile(3 as PlayerId, { difficulty: 'hard' }), 'the host can raise a bot');
+    assert(members.setBotProfile(3 as PlayerId, { personality: 'turtle' }), 'and change its style');
+    assert(!members.setBotProfile(3 as PlayerId, { personality: 'turtle' }), 'a no-op change is refused');
+    assert(!members.setBotProfile(1 as PlayerId, { difficulty: 'easy' }), 'a human seat has no profile');
+    assert(
+      members.botProfileByPlayerId()[3]?.difficulty === 'hard' &&
+        members.seatedPlayers().find((p) => p.playerId === 3)?.botProfile?.personality === 'turtle',
+      'the profile reaches the match roster and the initialization map',
+    );
+
     // A member seat may not collide with a bot seat.
     members.admit(4, 'P4');
     const granted = members.seat(4, 2);
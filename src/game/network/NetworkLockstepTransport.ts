@@ -37,6 +37,10 @@ type LockstepCommandFrameDraft = {
  *              here, because a watcher cannot simulate without them.
  *   COMPLETION `getSeatedConnections` — members that hold a seat. Only these
  *              can send commands, and only these are ever waited on.
+ *
+ * With a spectator delay set, delivery splits in two: seated connections get
+ * each frame as it is minted, everyone else only once it is old enough —
+ * see `releaseSpectatorCommandFrames`.
  */
 type NetworkLockstepTransportOptions = {
   getGameId: () => string;
@@ -84,6 +88,12 @@ export class NetworkLockstepTransport {
   private readonly latestAckByPlayer = new Map<PlayerId, LockstepAckMessage>();
   private readonly outboundCommandFrames = new Map<number, LockstepCommandFrameMessage>();
   private resendCount = 0;
+  /** Frames unseated members lag the live stream by; 0 delivers to everyone
+   *  at once. Coordinator-side policy, set per match. */
+  private spectatorDelayFrames = 0;
+  /** Newest frame already released to unseated members. Everything after it
+   *  is held in `outboundCommandFrames` until it is old enough. */
+  private spectatorReleasedThroughFrame = -1;
 
   constructor(private readonly options: NetworkLockstepTransportOptions) {}
 
@@ -91,9 +101,10 @@ export class NetworkLockstepTransport {
    *  goes through here, so "a watcher cannot enter the command stream" is one
    *  guard rather than a rule repeated at eight call sites. */
   /** Seat to stamp on a coordinator-authored message. The coordinator is the
-   *  host, which always holds seat 1 in its own lobby; the fallback only
-   *  covers a caller that is not the coordinator, whose broadcast is refused
-   *  by the receivers anyway. */
+   *  host, which holds seat 1 in its own lobby. A dedicated server holds no
+   *  seat at all and stamps seat 1 through the fallback — the handoff's
+   *  hostPlayerId — which also covers a caller that is not the coordinator,
+   *  whose broadcast is refused by the receivers anyway. */
   private coordinatorSeat(): PlayerId {
     return this.options.getLocalPlayerId() ?? (1 as PlayerId);
   }
@@ -156,7 +167,7 @@ export class NetworkLockstepTransport {
     };
     this.outboundCommandFrames.set(frame, message);
     this.pruneOutboundCommandFrames();
-    return this.broadcast(message);
+    return this.broadcastCommandStream(message);
   }
 
   broadcastCommandFrameBatch(frames: readonly LockstepCommandFrameDraft[]): boolean {
@@ -185,7 +196,7 @@ export class NetworkLockstepTransport {
       });
     }
     this.pruneOutboundCommandFrames();
-    return this.broadcast({
+    return this.broadcastCommandStream({
       ...this.base(),
       type: 'lockstepCommandFrameBatch',
       coordinatorPlayerId: this.coordinatorSeat(),
@@ -193,6 +204,56 @@ export class NetworkLockstepTransport {
     });
   }
 
+  /** Coordinator: hold command frames back from unseated members by this
+   *  many frames. Set once per match, before the first frame is minted. */
+  setSpectatorDelayFrames(frames: number): void {
+    this.spectatorDelayFrames = Number.isInteger(frames) && frames > 0 ? frames : 0;
+  }
+
+  /** Newest frame an unseated member may have, or null when watchers are not
+   *  delayed. Anything addressed to a watcher — a resume grant, a history
+   *  chunk, a resend — must stop here, or the delay is a formality. */
+  getSpectatorCommandFrameCeiling(): number | null {
+    return this.spectatorDelayFrames > 0 ? this.spectatorReleasedThroughFrame : null;
+  }
+
+  /** Coordinator: hand unseated members every held frame that has fallen
+   *  `spectatorDelayFrames` behind `liveNextFrame`, as one batch. Called on
+   *  every pump, so a watcher's stream has the live stream's cadence, just
+   *  shifted. Returns the number of frames released. */
+  releaseSpectatorCommandFrames(liveNextFrame: number): number {
+    if (this.spectatorDelayFrames <= 0) return 0;
+    const releaseThroughFrame = liveNextFrame - 1 - this.spectatorDelayFrames;
+    if (releaseThroughFrame <= this.spectatorReleasedThroughFrame) return 0;
+    const frames: LockstepCommandFrameBatchFrame[] = [];
+    for (const message of this.outboundCommandFrames.values()) {
+      if (
+        message.frame > this.spectatorReleasedThroughFrame &&
+        message.frame <= releaseThroughFrame
+      ) {
+        frames.push({
+          frame: message.frame,
+          frameSequence: message.frameSequence,
+          commands: message.commands,
+        });
+      }
+    }
+    // Advanced even with nobody watching: a watcher arriving later is served
+    // from the archive up to the ceiling, and the stream resumes after it.
+    this.spectatorReleasedThroughFrame = releaseThroughFrame;
+    if (frames.length === 0) return 0;
+    frames.sort(compareCommandFrameBatchFrames);
+    const message: LockstepCommandFrameBatchMessage = {
+      ...this.base(),
+      type: 'lockstepCommandFrameBatch',
+      coordinatorPlayerId: this.coordinatorSeat(),
+      frames,
+    };
+    for (const conn of this.unseatedConnections()) this.options.send(conn, message);
+    this.pruneOutboundCommandFrames();
+    return frames.length;
+  }
+
   /** Report progress to the coordinator. Seated peers only: an ack is what
    *  the match waits on, and a watcher is never waited on. */
   sendAck(ackFrame: number, ackFrameSequence: number): boolean {
@@ -380,20 +441,28 @@ export class NetworkLockstepTransport {
   ): number {
     const conn = this.options.getConnections().get(targetMemberId);
     if (conn === undefined) return 0;
-    return this.resendCommandFramesAfterTo(lastAckedFrame, conn, maxFrames);
+    const ceiling = this.getSpectatorCommandFrameCeiling();
+    const seated = ceiling !== null && this.isSeatedConnection(conn);
+    return this.resendCommandFramesAfterTo(
+      lastAckedFrame,
+      conn,
+      maxFrames,
+      ceiling === null || seated ? Number.POSITIVE_INFINITY : ceiling,
+    );
   }
 
   private resendCommandFramesAfterTo(
     lastAckedFrame: number,
     conn: DataConnection,
     maxFrames: number,
+    throughFrame = Number.POSITIVE_INFINITY,
   ): number {
     if (!Number.isInteger(lastAckedFrame) || !Number.isInteger(maxFrames) || maxFrames <= 0) {
       return 0;
     }
     const frames: number[] = [];
     for (const frame of this.outboundCommandFrames.keys()) {
-      if (frame > lastAckedFrame) frames.push(frame);
+      if (frame > lastAckedFrame && frame <= throughFrame) frames.push(frame);
     }
     frames.sort((a, b) => a - b);
     let sent = 0;
@@ -468,6 +537,8 @@ export class NetworkLockstepTransport {
     this.latestAckByPlayer.clear();
     this.outboundCommandFrames.clear();
     this.resendCount = 0;
+    this.spectatorDelayFrames = 0;
+    this.spectatorReleasedThroughFrame = -1;
   }
 
   private base() {
@@ -490,6 +561,33 @@ export class NetworkLockstepTransport {
     return sent;
   }
 
+  /** The live command stream: everyone at once, or — with a spectator delay
+   *  — seated connections only, the rest waiting for their release. */
+  private broadcastCommandStream(message: NetworkLockstepMessage): boolean {
+    if (this.spectatorDelayFrames <= 0) return this.broadcast(message);
+    let sent = false;
+    for (const conn of this.options.getSeatedConnections().values()) {
+      sent = this.options.send(conn, message) || sent;
+    }
+    return sent;
+  }
+
+  private unseatedConnections(): DataConnection[] {
+    const seated = new Set(this.options.getSeatedConnections().values());
+    const out: DataConnection[] = [];
+    for (const conn of this.options.getConnections().values()) {
+      if (!seated.has(conn)) out.push(conn);
+    }
+    return out;
+  }
+
+  private isSeatedConnection(conn: DataConnection): boolean {
+    for (const seatedConn of this.options.getSeatedConnections().values()) {
+      if (seatedConn === conn) return true;
+    }
+    return false;
+  }
+
   private buildReceivedPeerSequenceAcks() {
     const acks: LockstepPeerSequenceAck[] = [];
     for (const [playerId, lastPlayerSequence] of this.receivedPeerSequences) {
@@ -609,7 +707,11 @@ export class NetworkLockstepTransport {
 
   private pruneOutboundCommandFramesBefore(minAckedFrame: number): void {
     if (this.outboundCommandFrames.size === 0) return;
-    const pruneBeforeFrame = minAckedFrame - OUTBOUND_COMMAND_FRAME_RETAIN_AFTER_ACK;
+    let pruneBeforeFrame = minAckedFrame - OUTBOUND_COMMAND_FRAME_RETAIN_AFTER_ACK;
+    // A held frame is owed to every watcher: never drop one before release.
+    if (this.spectatorDelayFrames > 0) {
+      pruneBeforeFrame = Math.min(pruneBeforeFrame, this.spectatorReleasedThroughFrame + 1);
+    }
     if (pruneBeforeFrame <= 0) return;
     for (const frame of this.outboundCommandFrames.keys()) {
       if (frame < pruneBeforeFrame) this.outboundCommandFrames.delete(frame);
@@ -283,6 +283,103 @@ export function runNetworkLockstepTransportContractTest(): void {
     'lockstep command frames must bypass generic control backpressure because missing frames stall the simulation',
   );
   assertContract(rawSendCount === 2, 'saturated lockstep frame must still reach raw send');
+
+  runSpectatorDelayContract();
+}
+
+/** With a spectator delay, a watcher's connection must not see a frame
+ *  until it is old enough — not on the live send, and not by asking for a
+ *  resend — and must then see every frame it missed, in order. */
+function runSpectatorDelayContract(): void {
+  const player = createConnection(2);
+  const watcher = createConnection(4);
+  const connections = new Map<number, DataConnection>([
+    [2, player],
+    [4, watcher],
+  ]);
+  const seatedConnections = new Map<PlayerId, DataConnection>([[2 as PlayerId, player]]);
+  const sent: Array<{ conn: DataConnection; message: NetworkMessage }> = [];
+  const transport = new NetworkLockstepTransport({
+    getGameId: () => 'contract-game',
+    getHostConnection: () => undefined,
+    getConnections: () => connections,
+    getSeatedConnections: () => seatedConnections,
+    getLocalPlayerId: () => 1 as PlayerId,
+    isMessageForCurrentGame: (message) => message.gameId === 'contract-game',
+    onMessage: () => {},
+    send: (conn, message) => {
+      sent.push({ conn, message });
+      return true;
+    },
+  });
+  const framesSentTo = (conn: DataConnection): number[] => {
+    const frames: number[] = [];
+    for (const entry of sent) {
+      if (entry.conn !== conn) continue;
+      if (entry.message.type === 'lockstepCommandFrame') frames.push(entry.message.frame);
+      if (entry.message.type === 'lockstepCommandFrameBatch') {
+        for (const frame of entry.message.frames) frames.push(frame.frame);
+      }
+    }
+    return frames;
+  };
+
+  transport.setSpectatorDelayFrames(10);
+  assertContract(
+    transport.getSpectatorCommandFrameCeiling() === -1,
+    'a delayed watcher starts with nothing released',
+  );
+  for (let frame = 0; frame < 15; frame++) {
+    transport.broadcastCommandFrameBatch([
+      { frame, frameSequence: frame, commands: frame === 3 ? [createEnvelope(2, 1, 0, 3)] : [] },
+    ]);
+    transport.releaseSpectatorCommandFrames(frame + 1);
+  }
+  assertContract(framesSentTo(player).length === 15, 'seated players receive every frame live');
+  assertContract(
+    JSON.stringify(framesSentTo(watcher)) === JSON.stringify([0, 1, 2, 3, 4]),
+    `the watcher must trail the live frame by the delay, got ${JSON.stringify(framesSentTo(watcher))}`,
+  );
+  assertContract(
+    transport.getSpectatorCommandFrameCeiling() === 4,
+    'the ceiling is the newest frame released to watchers',
+  );
+
+  sent.length = 0;
+  transport.resendCommandFramesAfterToMember(-1, 4, 100);
+  assertContract(
+    Math.max(...framesSentTo(watcher)) === 4,
+    'a watcher resend request must not reach past the ceiling',
+  );
+  sent.length = 0;
+  assertContract(
+    transport.resendCommandFramesAfterToMember(-1, 2, 100) === 15,
+    'a seated player resend is not capped by the spectator delay',
+  );
+
+  // Seated acks far ahead must not prune frames the watcher is still owed.
+  transport.handleMessage({
+    ...baseMessage(),
+    type: 'lockstepAck',
+    playerId: 2 as PlayerId,
+    ackFrame: 2000,
+    ackFrameSequence: 2000,
+    receivedPeerSequences: [],
+  }, 2 as PlayerId);
+  sent.length = 0;
+  transport.releaseSpectatorCommandFrames(20);
+  assertContract(
+    JSON.stringify(framesSentTo(watcher)) === JSON.stringify([5, 6, 7, 8, 9]),
+    'held frames must survive pruning until they are released',
+  );
+
+  transport.clear();
+  sent.length = 0;
+  transport.broadcastCommandFrame(0, 0, []);
+  assertContract(
+    framesSentTo(watcher).length === 1 && transport.getSpectatorCommandFrameCeiling() === null,
+    'clearing the transport for a new match drops the delay',
+  );
 }
 
 function baseMessage() {
@@ -6,7 +6,7 @@ import type {
   Util,
 } from 'peerjs';
 import type { PlayerId } from '../sim/types';
-import type { SeatInitialState } from '../sim/agentSeat';
+import type { SeatBotProfile, SeatInitialState } from '../sim/agentSeat';
 import {
   getDefaultPlayerName,
   saveUsername,
@@ -24,6 +24,11 @@ export type {
   NetworkServerSnapshotAction,
   NetworkServerSnapshotTurret,
   NetworkServerSnapshotEntity,
+  NetworkServerSnapshotWreck,
+  NetworkServerSnapshotMorph,
+  NetworkServerSnapshotStatusEffects,
+  NetworkServerSnapshotVeterancy,
+  NetworkServerSnapshotStockpile,
   NetworkServerSnapshotEconomy,
   NetworkServerSnapshotResourceMovement,
   NetworkServerSnapshotProjectileSpawn,
@@ -85,10 +90,17 @@ import {
   type NetworkSendBudgetTelemetry,
 } from './NetworkSendBudget';
 import { assertCurrentLobbySettings } from './LobbySettingsContract';
+import { describeAuthoredMapSeatShortfall } from '@/types/authoredMap';
 import { resolveLobbyDisplayName } from './lobbyName';
 import { MAX_LOBBY_PLAYERS } from './LobbyDirectory';
 import { getMultiplayerBackend } from './multiplayer/multiplayerBackendRegistry';
 import { isTauriRuntime } from '../../browserRuntime';
+import {
+  createWebSocketDataConnection,
+  DEDICATED_SERVER_SEAT_TOKEN_PARAM,
+  isDedicatedServerAddress,
+  parseDedicatedServerAddress,
+} from './WebSocketDataConnection';
 import {
   admitsSeating,
   admitsSpectators,
@@ -433,6 +445,7 @@ export class NetworkManager {
   setMemberSeated(memberId: MemberId, seated: boolean): boolean {
     if (this.role !== 'host') return false;
     if (!admitsSeating(this.session.state)) return false;
+    if (seated && this.authoredMapSeatsFull()) return false;
     const changed = seated
       ? this.members.seat(memberId, this.allyTeamCount).seated
       : this.members.unseat(memberId);
@@ -449,6 +462,7 @@ export class NetworkManager {
   addBotSeat(preferredAllyTeamId?: number): boolean {
     if (this.role !== 'host') return false;
     if (!admitsSeating(this.session.state)) return false;
+    if (this.authoredMapSeatsFull()) return false;
     const bot = this.members.addBotSeat(this.allyTeamCount, preferredAllyTeamId);
     if (bot === null) return false;
     this.broadcastLobbyRoster();
@@ -475,6 +489,16 @@ export class NetworkManager {
     return true;
   }
 
+  /** Host: change a bot seat's difficulty and/or personality. Lobby only —
+   *  the profile is hashed into the match initialization at start. */
+  setBotProfile(playerId: PlayerId, profile: Partial<SeatBotProfile>): boolean {
+    if (this.role !== 'host') return false;
+    if (!admitsSeating(this.session.state)) return false;
+    if (!this.members.setBotProfile(playerId, profile)) return false;
+    this.broadcastLobbyRoster();
+    return true;
+  }
+
   setBotSeatAllyTeam(playerId: PlayerId, allyTeamId: number): boolean {
     if (this.role !== 'host') return false;
     if (!this.members.setBotSeatAllyTeam(playerId, allyTeamId, this.allyTeamCount)) return false;
@@ -504,6 +528,11 @@ export class NetworkManager {
     return this.members.allyTeamByPlayerId();
   }
 
+  /** Bot seat -> difficulty and personality, same use. */
+  getBotProfileByPlayerId(): Record<number, SeatBotProfile> {
+    return this.members.botProfileByPlayerId();
+  }
+
   private setLocalSeatToken(token: SeatToken | undefined): void {
     this.localSeatToken = token;
     writeStoredSeatToken(token);
@@ -830,6 +859,7 @@ export class NetworkManager {
         playerCount: this.members.seatedPlayerIds().length,
         maxPlayers: MAX_LOBBY_PLAYERS,
         spectatorCount: this.members.spectatorCount(),
+        spectatorDelaySeconds: settings?.spectatorDelaySeconds ?? 0,
         mapName,
       };
     });
@@ -915,6 +945,13 @@ export class NetworkManager {
     return callback !== undefined ? callback() : undefined;
   }
 
+  /** An authored map holds one seat per start position; while one is loaded
+   *  the host cannot seat past it. */
+  private authoredMapSeatsFull(): boolean {
+    const map = this.readLobbySettings()?.authoredMap ?? null;
+    return map !== null && this.members.seatedPlayers().length >= map.startPositions.length;
+  }
+
   private createPeer(peerId: string, serverTarget: PeerServerTarget | null): Peer {
     return new Peer(peerId, { ...PEER_BASE_OPTIONS, ...(serverTarget ?? {}) });
   }
@@ -1162,8 +1199,51 @@ export class NetworkManager {
     });
   }
 
+  /**
+   * Host a match from a dedicated server (scripts/dedicatedServer.mjs).
+   *
+   * The same lobby as hostGame with two differences. There is no PeerJS peer:
+   * members arrive as WebSockets the server hands to acceptDedicatedConnection.
+   * And the host holds NO seat — it is member 1 and the frame coordinator, but
+   * a process on a Linux box has nobody to play for it. Seat 1 still carries
+   * the handoff's host authority; whoever sits there, human or bot, is simply
+   * who the coordinator's own commands are stamped as.
+   *
+   * Never listed in the lobby directory: with no peer there is nothing the
+   * directory could send a joiner to. A dedicated server is reached by its
+   * address.
+   */
+  hostDedicated(roomCode: string): string {
+    this.beginNetworkSetup();
+    this.sessionVisibility = 'local';
+    this.session.send('connect');
+    this.roomCode = normalizeRoomCode(roomCode);
+    this.role = 'host';
+    this.members.clear();
+    this.members.seedHost();
+    this.members.unseat(HOST_MEMBER_ID);
+    this.localMemberId = HOST_MEMBER_ID;
+    this.syncLocalSeat();
+    this.heartbeatTracker.start();
+    this.session.send('connected');
+    this.emitRoster(this.members.toArray());
+    return this.roomCode;
+  }
+
+  /** Dedicated server: admit a member that arrived over a WebSocket. The
+   *  ordinary admission path — it lands on the bench, or reclaims its seat
+   *  mid-match — exactly as a PeerJS connection would. */
+  acceptDedicatedConnection(conn: DataConnection): void {
+    if (this.role !== 'host' || this.peer !== null) {
+      conn.close();
+      return;
+    }
+    this.handleIncomingConnection(conn);
+  }
+
   // Join an existing game
   async joinGame(roomCode: string): Promise<void> {
+    if (isDedicatedServerAddress(roomCode)) return this.joinDedicatedServer(roomCode);
     const generation = this.beginNetworkSetup();
     this.session.send('connect');
     this.roomCode = normalizeRoomCode(roomCode);
@@ -1295,6 +1375,101 @@ export class NetworkManager {
     });
   }
 
+  /**
+   * Join a dedicated server by address instead of a room code.
+   *
+   * The server speaks the same session and lockstep protocol as a browser
+   * host, over a WebSocket in place of a WebRTC data channel, so from the
+   * moment the socket opens this is the ordinary client path: member 1 is the
+   * host, the host seats, the host coordinates.
+   */
+  private joinDedicatedServer(address: string): Promise<void> {
+    const generation = this.beginNetworkSetup();
+    this.session.send('connect');
+    const { url, roomCode } = parseDedicatedServerAddress(address);
+    this.roomCode = roomCode;
+    this.role = 'client';
+    this.members.clear();
+    this.localPlayerId = undefined;
+    this.localRole = 'spectator';
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settleResolve = (): void => {
+        if (settled) return;
+        settled = true;
+        this.pendingSetupReject = null;
+        this.clearSetupTimeout();
+        resolve();
+      };
+      const settleReject = (error: Error): void => {
+        if (settled) return;
+        settled = true;
+        this.pendingSetupReject = null;
+        this.clearSetupTimeout();
+        reject(error);
+      };
+      this.pendingSetupReject = settleReject;
+
+      // The seat token rides the address: a WebSocket has no connect metadata,
+      // and the server has to know it before it admits anybody.
+      const socketUrl = new URL(url);
+      if (this.localSeatToken !== undefined) {
+        socketUrl.searchParams.set(DEDICATED_SERVER_SEAT_TOKEN_PARAM, this.localSeatToken);
+      }
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(socketUrl.toString());
+      } catch (err) {
+        settleReject(err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+      socket.binaryType = 'arraybuffer';
+      const conn = createWebSocketDataConnection(socket);
+
+      this.connections.set(HOST_MEMBER_ID, conn);
+      this.setupConnectionHandlers(conn, HOST_MEMBER_ID, generation);
+
+      conn.on('open', () => {
+        if (
+          !this.isCurrentSession(generation) ||
+          this.connections.get(HOST_MEMBER_ID) !== conn
+        ) {
+          return;
+        }
+        this.session.send('connected');
+        console.log('Connected to dedicated server');
+        this.heartbeatTracker.track(HOST_MEMBER_ID);
+        this.heartbeatTracker.start();
+        this.emitConnected();
+        settleResolve();
+      });
+
+      conn.on('error', (err) => {
+        if (
+          !this.isCurrentSession(generation) ||
+          this.connections.get(HOST_MEMBER_ID) !== conn ||
+          settled
+        ) {
+          return;
+        }
+        console.error('Dedicated server connection error:', err);
+        this.emitError('Could not reach the dedicated server');
+        settleReject(new Error('Could not reach the dedicated server'));
+      });
+
+      // Same 10 seconds as a PeerJS join, and stored on `this` for the same
+      // reason: disconnect() has to be able to cancel it.
+      this.clearSetupTimeout();
+      this.setupTimeoutId = setTimeout(() => {
+        this.setupTimeoutId = null;
+        if (settled || !this.isCurrentSession(generation)) return;
+        conn.close();
+        settleReject(new Error('Connection timeout - dedicated server did not answer'));
+      }, 10000);
+    });
+  }
+
   /**
    * Admit a connection (host only).
    *
@@ -1962,6 +2137,16 @@ export class NetworkManager {
   // Start the game (host only)
   startGame(): void {
     if (this.role !== 'host') return;
+    // Refused before the transition: a map without a start position for
+    // every seat would throw during bootstrap on every peer.
+    const seatShortfall = describeAuthoredMapSeatShortfall(
+      this.readLobbySettings()?.authoredMap ?? null,
+      this.members.seatedPlayers().length,
+    );
+    if (seatShortfall !== null) {
+      this.emitError(seatShortfall);
+      return;
+    }
     // The transition IS the guard. `start` is only legal from `lobby`, so a
     // second Start click, or one arriving before signaling opened, is refused
     // here rather than by a separate already-started flag.
@@ -1998,6 +2183,7 @@ export class NetworkManager {
       // opens with a base.
       aiPlayerIds: this.members.botSeatPlayerIds(),
       baseSeatPlayerIds: this.members.baseSeatPlayerIds(),
+      botProfileByPlayerId: this.members.botProfileByPlayerId(),
       // The lobby's TEAM assignment decides terrain slices, spawn arcs and
       // who may shoot whom, so it travels inside the HASHED initialization.
       // Leaving it out here is what used to make every online match a
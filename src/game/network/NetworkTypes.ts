@@ -35,6 +35,11 @@ export type {
   NetworkServerSnapshotAction,
   NetworkServerSnapshotTurret,
   NetworkServerSnapshotEntity,
+  NetworkServerSnapshotWreck,
+  NetworkServerSnapshotMorph,
+  NetworkServerSnapshotStatusEffects,
+  NetworkServerSnapshotVeterancy,
+  NetworkServerSnapshotStockpile,
   NetworkServerSnapshotEconomy,
   NetworkServerSnapshotResourceMovement,
   LobbyMember,
@@ -0,0 +1,157 @@
+import type { DataConnection } from 'peerjs';
+import { decode, encode } from '@msgpack/msgpack';
+import { normalizeRoomCode } from './NetworkRoomCode';
+
+/**
+ * A WebSocket dressed as a PeerJS DataConnection.
+ *
+ * A dedicated match server (scripts/dedicatedServer.mjs) has no browser and so
+ * no WebRTC: its members reach it over a plain WebSocket instead. Everything
+ * above the socket — admission, the roster, the lockstep transport, the send
+ * budget — is written against DataConnection, so the socket is adapted to that
+ * surface rather than the session layer growing a second transport. The same
+ * adapter is used on both ends: the browser wraps its WebSocket, the server
+ * wraps each accepted socket.
+ *
+ * Only the surface the session layer touches is implemented: the four events,
+ * `send`, `close`, `open`, `metadata`, and `dataChannel` for the send budget's
+ * buffered-bytes and closed checks.
+ */
+
+/** The subset of the WebSocket API this adapter needs. The browser's
+ *  WebSocket satisfies it as-is; the Node server implements it over a raw
+ *  socket. */
+export type WebSocketLike = {
+  readonly readyState: number;
+  readonly bufferedAmount: number;
+  send(data: Uint8Array): void;
+  close(): void;
+  addEventListener(type: 'open' | 'close' | 'error', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: { readonly data: unknown }) => void): void;
+};
+
+type DataConnectionEvent = 'open' | 'data' | 'close' | 'error';
+type DataConnectionHandler = (value?: unknown) => void;
+
+/** WebSocket.OPEN — spelled out because the Node server has no WebSocket
+ *  global to read it from. */
+const WEB_SOCKET_OPEN = 1;
+
+/** Same wire shape as the snapshot encoder's msgpack: an absent optional is
+ *  absent on the far side, not a null it has to special-case. */
+const MESSAGE_ENCODE_OPTIONS = { ignoreUndefined: true } as const;
+
+/** Room code a dedicated server hosts when its address names none. */
+export const DEDICATED_SERVER_DEFAULT_ROOM_CODE = 'SERVER';
+
+/** Query parameter a joiner presents its seat token in. A WebSocket has no
+ *  metadata channel of its own, and the token has to be known at admission. */
+export const DEDICATED_SERVER_SEAT_TOKEN_PARAM = 'seatToken';
+
+/** Whether a join code is a dedicated server's address rather than a room
+ *  code for the signaling server. */
+export function isDedicatedServerAddress(value: string): boolean {
+  return /^wss?:\/\//i.test(value.trim());
+}
+
+/** The socket URL and the room a dedicated-server address names:
+ *  `ws://box:8787/ROOM`, or the server's default room without a path. */
+export function parseDedicatedServerAddress(address: string): {
+  readonly url: string;
+  readonly roomCode: string;
+} {
+  const parsed = new URL(address.trim());
+  const room = parsed.pathname.split('/').filter((segment) => segment.length > 0).pop();
+  const roomCode = normalizeRoomCode(
+    room === undefined ? DEDICATED_SERVER_DEFAULT_ROOM_CODE : decodeURIComponent(room),
+  );
+  parsed.pathname = `/${roomCode}`;
+  parsed.search = '';
+  parsed.hash = '';
+  return { url: parsed.toString(), roomCode };
+}
+
+class WebSocketDataConnection {
+  readonly metadata: unknown;
+  private readonly handlers = new Map<DataConnectionEvent, DataConnectionHandler[]>();
+
+  constructor(
+    private readonly socket: WebSocketLike,
+    metadata: unknown,
+  ) {
+    this.metadata = metadata;
+    socket.addEventListener('open', () => this.emit('open'));
+    socket.addEventListener('message', (event) => {
+      let message: unknown;
+      try {
+        message = decode(toBytes(event.data));
+      } catch (err) {
+        this.emit('error', err);
+        return;
+      }
+      this.emit('data', message);
+    });
+    socket.addEventListener('close', () => this.emit('close'));
+    socket.addEventListener('error', () => this.emit('error', new Error('WebSocket error')));
+    if (socket.readyState === WEB_SOCKET_OPEN) {
+      // An accepted server-side socket is open before anyone can listen.
+      // PeerJS always reports `open` after the handlers are attached, and the
+      // admission path depends on that, so this does too.
+      setTimeout(() => this.emit('open'), 0);
+    }
+  }
+
+  get open(): boolean {
+    return this.socket.readyState === WEB_SOCKET_OPEN;
+  }
+
+  get dataChannel(): { readonly bufferedAmount: number; readonly readyState: string } {
+    return {
+      bufferedAmount: this.socket.bufferedAmount,
+      readyState: this.open ? 'open' : 'closed',
+    };
+  }
+
+  on(event: DataConnectionEvent, handler: DataConnectionHandler): this {
+    const handlers = this.handlers.get(event);
+    if (handlers === undefined) {
+      this.handlers.set(event, [handler]);
+    } else {
+      handlers.push(handler);
+    }
+    return this;
+  }
+
+  send(message: unknown): void {
+    this.socket.send(encode(message, MESSAGE_ENCODE_OPTIONS));
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private emit(event: DataConnectionEvent, value?: unknown): void {
+    const handlers = this.handlers.get(event);
+    if (handlers === undefined) return;
+    for (const handler of [...handlers]) handler(value);
+  }
+}
+
+function toBytes(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  throw new Error('[websocket connection] expected a binary frame');
+}
+
+/** Wrap a WebSocket so the session layer can treat it as a DataConnection.
+ *  `metadata` is what a PeerJS joiner would have sent with its connect — the
+ *  seat token, read back out of the address on the server side. */
+export function createWebSocketDataConnection(
+  socket: WebSocketLike,
+  metadata: unknown = undefined,
+): DataConnection {
+  return new WebSocketDataConnection(socket, metadata) as unknown as DataConnection;
+}
@@ -0,0 +1,134 @@
+/**
+ * A dedicated server's members talk to it over a WebSocket wrapped as a
+ * DataConnection. The session layer cannot tell the difference, so the
+ * wrapper has to keep the promises a PeerJS connection keeps: a message sent
+ * is the message received, `open` never fires before the handlers that wait
+ * for it are attached, and a closed socket reads as closed to the send budget.
+ */
+
+import {
+  createWebSocketDataConnection,
+  DEDICATED_SERVER_DEFAULT_ROOM_CODE,
+  isDedicatedServerAddress,
+  parseDedicatedServerAddress,
+  type WebSocketLike,
+} from './WebSocketDataConnection';
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) throw new Error(`[websocket data connection contract] ${message}`);
+}
+
+type Listener = (event: { readonly data: unknown }) => void;
+
+/** One end of an in-memory socket pair. */
+class FakeSocket implements WebSocketLike {
+  readyState = 1;
+  bufferedAmount = 0;
+  peer: FakeSocket | null = null;
+  private readonly listeners = new Map<string, Listener[]>();
+
+  addEventListener(type: string, listener: Listener): void {
+    const listeners = this.listeners.get(type) ?? [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  send(data: Uint8Array): void {
+    // Copied, as a real socket would: the receiver must not share a buffer
+    // with the sender.
+    this.peer?.dispatch('message', data.slice().buffer);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.dispatch('close', undefined);
+  }
+
+  dispatch(type: string, data: unknown): void {
+    for (const listener of this.listeners.get(type) ?? []) listener({ data });
+  }
+}
+
+export function runWebSocketDataConnectionContractTest(): void {
+  runAddressParsing();
+  runConnection();
+  console.log('[contract] websocket data connection OK');
+}
+
+function runAddressParsing(): void {
+  assertContract(isDedicatedServerAddress('ws://box:8787/ABCD'), 'ws:// is a server address');
+  assertContract(isDedicatedServerAddress(' WSS://box/ABCD'), 'wss:// in any case is a server address');
+  assertContract(!isDedicatedServerAddress('ABCD'), 'a room code is not a server address');
+
+  const named = parseDedicatedServerAddress('ws://box:8787/abcd?seatToken=x');
+  assertContract(
+    named.roomCode === 'ABCD' && named.url === 'ws://box:8787/ABCD',
+    `the room comes from the path and the query is dropped, got ${JSON.stringify(named)}`,
+  );
+  const bare = parseDedicatedServerAddress('ws://box:8787');
+  assertContract(
+    bare.roomCode === DEDICATED_SERVER_DEFAULT_ROOM_CODE &&
+      bare.url === `ws://box:8787/${DEDICATED_SERVER_DEFAULT_ROOM_CODE}`,
+    'an address with no room names the default room',
+  );
+}
+
+function runConnection(): void {
+  const serverSocket = new FakeSocket();
+  const clientSocket = new FakeSocket();
+  serverSocket.peer = clientSocket;
+  clientSocket.peer = serverSocket;
+
+  const server = createWebSocketDataConnection(serverSocket, { seatToken: 'token-1' });
+  const client = createWebSocketDataConnection(clientSocket);
+  let openedSynchronously = false;
+  server.on('open', () => {
+    openedSynchronously = true;
+  });
+  assertContract(
+    !openedSynchronously,
+    'an already-open socket must report open after the handlers are attached, not during construction',
+  );
+  assertContract(
+    (server.metadata as { seatToken?: string }).seatToken === 'token-1',
+    'the seat token must reach admission as connection metadata',
+  );
+  assertContract(server.open && server.dataChannel.readyState === 'open', 'an open socket reads as open');
+
+  const received: unknown[] = [];
+  server.on('data', (data) => received.push(data));
+  const message = {
+    type: 'lockstepCommandFrame',
+    gameId: 'ba-ABCD',
+    frame: 12,
+    commands: [{ playerId: 2, command: { type: 'stop', entityIds: [4, 5] } }],
+    optional: undefined,
+  };
+  client.send(message);
+  const delivered = received[0] as Record<string, unknown> | undefined;
+  assertContract(
+    received.length === 1 &&
+      delivered !== undefined &&
+      JSON.stringify(delivered) === JSON.stringify(message),
+    `a message must arrive as it was sent, got ${JSON.stringify(received)}`,
+  );
+  assertContract(
+    delivered !== undefined && !('optional' in delivered),
+    'an undefined field must arrive absent, not as null',
+  );
+
+  const errors: unknown[] = [];
+  server.on('error', (err) => errors.push(err));
+  serverSocket.dispatch('message', 'not binary');
+  assertContract(errors.length === 1 && received.length === 1, 'a frame that cannot be decoded is an error, not a message');
+
+  let closed = false;
+  server.on('close', () => {
+    closed = true;
+  });
+  server.close();
+  assertContract(
+    closed && !server.open && server.dataChannel.readyState === 'closed',
+    'a closed socket must read as closed and report it',
+  );
+}
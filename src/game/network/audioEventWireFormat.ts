@@ -37,6 +37,8 @@ export const AUDIO_EVENT_TYPE_CODES: Record<NetworkServerSnapshotSimEvent['type'
   // Append-only: wire codes are positional.
   selfDestructArmed: 12,
   selfDestructDisarmed: 13,
+  missileLaunch: 14,
+  missileIntercept: 15,
 };
 
 export const AUDIO_EVENT_SOURCE_TYPE_CODES: Record<string, number> = {
@@ -19,7 +19,11 @@ import {
   createTransform,
   NO_ENTITY_ID,
 } from '../../sim/types';
-import type { NetworkServerSnapshotEntity, NetworkServerSnapshotTurret } from '../NetworkManager';
+import type {
+  NetworkServerSnapshotEntity,
+  NetworkServerSnapshotTurret,
+  NetworkServerSnapshotWreck,
+} from '../NetworkManager';
 import {
   codeToTurretState,
   codeToUnitBlueprintId,
@@ -29,7 +33,10 @@ import {
 } from '../../../types/network';
 import { getUnitBlueprint, getUnitLocomotion } from '../../sim/blueprints';
 import { getBuildingConfig } from '../../sim/buildConfigs';
-import { cloneBuildingSupportSurface } from '../../sim/buildingSupportSurface';
+import {
+  cloneBuildingSupportSurface,
+  createCollisionTopBuildingSupportSurface,
+} from '../../sim/buildingSupportSurface';
 import { cloneUnitSupportSurface } from '../../sim/unitSupportSurface';
 import { BUILD_GRID_CELL_SIZE } from '../../sim/buildGrid';
 import { COST_MULTIPLIER, REAL_BATTLE_FACTORY_WAYPOINT_TYPE } from '../../../config';
@@ -898,6 +905,7 @@ function createBuildingFromNetwork(
   playerId: number
 ): Entity | null {
   const b = netEntity.building;
+  if (b !== null && b.wreck) return createWreckFromNetwork(b, b.wreck, id, x, y, z, rotation);
   const buildingBlueprintId = decodeNetworkBuildingBlueprintId(
     b !== null ? b.buildingBlueprintCode : undefined,
   );
@@ -985,6 +993,50 @@ function createBuildingFromNetwork(
   return entity;
 }
 
+/** Wrecks have no blueprint to derive from: the full record carries the
+ *  body, and ownership stays empty whatever playerId the row names. */
+function createWreckFromNetwork(
+  b: NonNullable<NetworkServerSnapshotEntity['building']>,
+  wreck: NetworkServerSnapshotWreck,
+  id: number,
+  x: number,
+  y: number,
+  z: number,
+  rotation: number,
+): Entity | null {
+  const unitBlueprintId = codeToUnitBlueprintId(wreck.unitBlueprintCode);
+  if (unitBlueprintId === null || !b.dim || !b.hp) return null;
+  const width = b.dim.x;
+  const height = b.dim.y;
+  return {
+    ...createEmptyEntityComponentSlots(),
+    id,
+    type: 'building',
+    transform: createTransform(x, y, z, rotation),
+    selectable: { selected: false },
+    building: {
+      width,
+      height,
+      depth: wreck.depth,
+      supportSurface: createCollisionTopBuildingSupportSurface(width, height, wreck.depth),
+      hoveringType: null,
+      hovering: false,
+      hp: b.hp.curr,
+      maxHp: b.hp.max,
+      targetRadius: DMath.sqrt(width * width + height * height) / 2,
+      activeState: null,
+    },
+    wreck: {
+      source: { kind: 'unit', unitBlueprintId },
+      originalOwnerId: null,
+      metal: wreck.metal,
+      debris: wreck.debris,
+      resurrectProgressMs: 0,
+      resurrectRequiredMs: 0,
+    },
+  };
+}
+
 function createBuildingFromTypedFullWireRow(
   source: EntitySnapshotWireSource,
   entityIndex: number,
@@ -34,6 +34,8 @@ export type MultiplayerLobbySummary = {
   readonly maxPlayers: number;
   readonly spectatorCount: number;
   readonly maxSpectators: number;
+  /** Seconds behind the live match a watcher sees it; 0 is live. */
+  readonly spectatorDelaySeconds: number;
   readonly mapName: string;
   /** Epoch ms the session was first advertised. */
   readonly createdAt: number;
@@ -48,6 +50,7 @@ export type MultiplayerLobbyAdvert = {
   readonly playerCount: number;
   readonly maxPlayers: number;
   readonly spectatorCount: number;
+  readonly spectatorDelaySeconds: number;
   readonly mapName: string;
 };
 
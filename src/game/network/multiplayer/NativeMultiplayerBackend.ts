@@ -48,6 +48,7 @@ export class NativeMultiplayerBackend implements MultiplayerBackend {
       maxPlayers: lobby.maxPlayers || MAX_LOBBY_PLAYERS,
       spectatorCount: lobby.spectatorCount,
       maxSpectators: lobby.maxSpectators || MAX_LOBBY_SPECTATORS,
+      spectatorDelaySeconds: lobby.spectatorDelaySeconds,
       mapName: lobby.mapName,
       createdAt: lobby.createdAt,
     }));
@@ -64,6 +65,7 @@ export class NativeMultiplayerBackend implements MultiplayerBackend {
         status: advert.status,
         playerCount: advert.playerCount,
         spectatorCount: advert.spectatorCount,
+        spectatorDelaySeconds: advert.spectatorDelaySeconds,
         mapName: advert.mapName,
       };
     });
@@ -72,6 +72,7 @@ const LOBBY_DATA_KEYS = {
   status: 'ba_status',
   mapName: 'ba_map',
   spectatorCount: 'ba_spectators',
+  spectatorDelaySeconds: 'ba_spectator_delay',
 } as const;
 
 export class SteamMultiplayerBackend implements MultiplayerBackend {
@@ -127,6 +128,7 @@ export class SteamMultiplayerBackend implements MultiplayerBackend {
       maxPlayers: record.maxMembers,
       spectatorCount: readSteamCount(record.data[LOBBY_DATA_KEYS.spectatorCount]) ?? 0,
       maxSpectators: MAX_LOBBY_SPECTATORS,
+      spectatorDelaySeconds: readSteamCount(record.data[LOBBY_DATA_KEYS.spectatorDelaySeconds]) ?? 0,
       mapName: record.data[LOBBY_DATA_KEYS.mapName] ?? '',
       // Steam does not report a creation time; callers show relative age, so
       // 0 renders as "unknown" rather than as a bogus timestamp.
@@ -162,6 +164,7 @@ export class SteamMultiplayerBackend implements MultiplayerBackend {
       [LOBBY_DATA_KEYS.status]: advert.status,
       [LOBBY_DATA_KEYS.mapName]: advert.mapName,
       [LOBBY_DATA_KEYS.spectatorCount]: String(advert.spectatorCount),
+      [LOBBY_DATA_KEYS.spectatorDelaySeconds]: String(advert.spectatorDelaySeconds),
     };
     const serialized = JSON.stringify(data);
     if (serialized === this.lastPublished) return;
@@ -296,6 +296,15 @@ function copyBuildingInto(
   } else {
     dst.factory = null;
   }
+  if (src.wreck) {
+    const wreck = dst.wreck ?? (dst.wreck = { unitBlueprintCode: 0, depth: 0, metal: 0, debris: false });
+    wreck.unitBlueprintCode = src.wreck.unitBlueprintCode;
+    wreck.depth = src.wreck.depth;
+    wreck.metal = src.wreck.metal;
+    wreck.debris = src.wreck.debris;
+  } else {
+    dst.wreck = undefined;
+  }
   return dst;
 }
 
@@ -316,6 +325,36 @@ function copyEntityInto(
   dst.rotation = src.rotation;
   dst.playerId = src.playerId;
   dst.changedFields = src.changedFields;
+  if (src.morph) {
+    const morph = dst.morph ?? (dst.morph = { progressMs: 0 });
+    morph.progressMs = src.morph.progressMs;
+  } else {
+    dst.morph = src.morph;
+  }
+  if (src.statusEffects) {
+    const status = dst.statusEffects ??
+      (dst.statusEffects = { paralyzedMs: 0, slowStacks: 0, burnStacks: 0 });
+    status.paralyzedMs = src.statusEffects.paralyzedMs;
+    status.slowStacks = src.statusEffects.slowStacks;
+    status.burnStacks = src.statusEffects.burnStacks;
+  } else {
+    dst.statusEffects = src.statusEffects;
+  }
+  if (src.veterancy) {
+    const veterancy = dst.veterancy ?? (dst.veterancy = { experience: 0, rank: 0 });
+    veterancy.experience = src.veterancy.experience;
+    veterancy.rank = src.veterancy.rank;
+  } else {
+    dst.veterancy = src.veterancy;
+  }
+  if (src.stockpile) {
+    const stockpile = dst.stockpile ?? (dst.stockpile = { stock: 0, queued: 0, progressMs: 0 });
+    stockpile.stock = src.stockpile.stock;
+    stockpile.queued = src.stockpile.queued;
+    stockpile.progressMs = src.stockpile.progressMs;
+  } else {
+    dst.stockpile = src.stockpile;
+  }
   if (src.unit) {
     const unit = copyNetworkUnitSnapshotInto(src.unit, dst.unit ?? createNetworkUnitSnapshot());
     if (src.unit.factory !== null && src.unit.factory !== undefined) {
@@ -355,6 +394,10 @@ function isTypedDeltaPlaceholderEntity(
     src.changedFields !== null &&
     src.pos === null &&
     src.rotation === null &&
+    src.morph === undefined &&
+    src.statusEffects === undefined &&
+    src.veterancy === undefined &&
+    src.stockpile === undefined &&
     src.unit === null &&
     src.building === null
   );
@@ -660,6 +660,7 @@ function encodeUnitEntity(sim: SimWasm, entity: NetworkServerSnapshotEntity, uni
 function buildingNeedsRawFallback(building: SnapshotBuilding): boolean {
   const factory = building.factory;
   return (
+    (building.wreck !== null && building.wreck !== undefined) ||
     (building.buildingBlueprintCode !== null && typeof building.buildingBlueprintCode !== 'number') ||
     building.build?.interrupted === true ||
     hasInactiveTurret(building.turrets) ||
@@ -746,7 +747,11 @@ function encodeEntity(sim: SimWasm, entity: NetworkServerSnapshotEntity): boolea
     !isUint(entity.id, 0xFFFF_FFFF) ||
     !isUint(entity.playerId, 0xFF) ||
     (entity.changedFields !== null && !isUint(entity.changedFields, 0xFFFF_FFFF)) ||
-    (isFull && (entity.pos === null || entity.rotation === null))
+    (isFull && (entity.pos === null || entity.rotation === null)) ||
+    entity.morph !== undefined ||
+    entity.statusEffects !== undefined ||
+    entity.veterancy !== undefined ||
+    entity.stockpile !== undefined
   ) {
     return false;
   }
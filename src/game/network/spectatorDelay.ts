@@ -0,0 +1,48 @@
+/**
+ * How far behind the live match a watcher sees it.
+ *
+ * A benched spectator on voice chat with a player is a scout who sees the
+ * whole map. The delay is the standard answer: the coordinator holds command
+ * frames back from every member without a seat until they are this old, so
+ * whatever a watcher can say about the match is already stale.
+ *
+ * Host-owned session metadata, like the lobby name. It changes who receives
+ * a frame WHEN, never what any frame contains, so it stays out of the
+ * canonical match initialization and can never move a checksum.
+ */
+
+export const SPECTATOR_DELAY_OPTIONS_SECONDS = [0, 30, 120, 300] as const;
+
+export type SpectatorDelaySeconds =
+  (typeof SPECTATOR_DELAY_OPTIONS_SECONDS)[number];
+
+export const DEFAULT_SPECTATOR_DELAY_SECONDS: SpectatorDelaySeconds = 0;
+
+export function isSpectatorDelaySeconds(
+  value: unknown,
+): value is SpectatorDelaySeconds {
+  return typeof value === 'number' &&
+    SPECTATOR_DELAY_OPTIONS_SECONDS.includes(value as SpectatorDelaySeconds);
+}
+
+export function normalizeSpectatorDelaySeconds(
+  value: unknown,
+  fallback: SpectatorDelaySeconds = DEFAULT_SPECTATOR_DELAY_SECONDS,
+): SpectatorDelaySeconds {
+  return isSpectatorDelaySeconds(value) ? value : fallback;
+}
+
+/** The delay in command frames at the match's cadence. Zero stays zero:
+ *  "no delay" must mean watchers get frames on the same send as players. */
+export function spectatorDelayFrames(seconds: number, tickRateHz: number): number {
+  if (!(seconds > 0) || !(tickRateHz > 0)) return 0;
+  return Math.round(seconds * tickRateHz);
+}
+
+/** Short label for the lobby listing and the settings bar: "LIVE", "30s",
+ *  "2m". */
+export function formatSpectatorDelay(seconds: number): string {
+  if (!(seconds > 0)) return 'LIVE';
+  if (seconds < 60 || seconds % 60 !== 0) return `${seconds}s`;
+  return `${seconds / 60}m`;
+}
@@ -141,6 +141,8 @@ function getAudioVisibilityDecision(
       if (_attackAlertVictimPlayers.has(victimPlayerId)) return undefined;
       _attackAlertVictimPlayers.add(victimPlayerId);
     }
+  } else if (source.type === 'missileLaunch') {
+    // The launch warning is the one event every player hears, fog or not.
   } else if (visibility) {
     const visClass = visibility.classifyPointVisibility(source.pos.x, source.pos.y);
     if (visClass !== VISIBILITY_CLASS_IN_VISION) {
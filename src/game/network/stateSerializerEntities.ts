@@ -12,6 +12,7 @@ import {
   type EntityStateViews,
 } from '../sim/EntitySlotRegistry';
 import { getBuildFraction } from '../sim/buildableHelpers';
+import { getMorphConfig } from '../sim/morph';
 import { buildingBlueprintHasActiveState } from '../sim/buildingActiveState';
 import { STRUCTURE_BLUEPRINT_IDS } from '@/types/blueprintIds';
 import { isCommander } from '../sim/combat/combatUtils';
@@ -245,6 +246,11 @@ type PooledEntry = {
   unitWorkStation: NonNullable<UnitSub['workStation']>;
   buildingDim: { x: number; y: number };
   solarSub: { open: boolean };
+  wreckSub: NonNullable<BuildingSub['wreck']>;
+  morphSub: NonNullable<NetworkServerSnapshotEntity['morph']>;
+  statusEffectsSub: NonNullable<NetworkServerSnapshotEntity['statusEffects']>;
+  veterancySub: NonNullable<NetworkServerSnapshotEntity['veterancy']>;
+  stockpileSub: NonNullable<NetworkServerSnapshotEntity['stockpile']>;
   buildingSub: BuildingSub;
   buildingHp: NonNullable<BuildingSub['hp']>;
   buildingBuild: NonNullable<BuildingSub['build']>;
@@ -596,6 +602,11 @@ function createPooledEntry(): PooledEntry {
     unitWorkStation,
     buildingDim: { x: 0, y: 0 },
     solarSub: { open: false },
+    wreckSub: { unitBlueprintCode: 0, depth: 0, metal: 0, debris: false },
+    morphSub: { progressMs: 0 },
+    statusEffectsSub: { paralyzedMs: 0, slowStacks: 0, burnStacks: 0 },
+    veterancySub: { experience: 0, rank: 0 },
+    stockpileSub: { stock: 0, queued: 0, progressMs: 0 },
     buildingSub: {
       buildingBlueprintCode: null, dim: null, hp: buildingHp,
       build: buildingBuild,
@@ -603,6 +614,7 @@ function createPooledEntry(): PooledEntry {
       solar: null,
       turrets: null,
       factory: null,
+      wreck: undefined,
     },
     buildingHp,
     buildingBuild,
@@ -854,7 +866,60 @@ export function entityPrivateSnapshotRequiresDto(
 ): boolean {
   return factoryPrivateSnapshotRequiresDto(entity, changedFields, visibility) ||
     unitBuilderPrivateSnapshotRequiresDto(entity, changedFields, visibility) ||
-    unitFactoryPrivateSnapshotRequiresDto(entity, changedFields, visibility);
+    unitFactoryPrivateSnapshotRequiresDto(entity, changedFields, visibility) ||
+    wreckSnapshotRequiresDto(entity, changedFields) ||
+    morphSnapshotRequiresDto(entity, changedFields) ||
+    statusEffectsSnapshotRequiresDto(entity, changedFields) ||
+    veterancySnapshotRequiresDto(entity, changedFields) ||
+    stockpileSnapshotRequiresDto(entity, changedFields, visibility);
+}
+
+/** Stockpiles have no typed-row slot. Every change marks
+ *  ENTITY_CHANGED_BUILDING, and only the owner's team sees the magazine,
+ *  so the enemy learns of a missile when it launches. */
+function stockpileSnapshotRequiresDto(
+  entity: Entity,
+  changedFields: number | undefined,
+  visibility: SnapshotVisibility | undefined,
+): boolean {
+  if (entity.stockpile === null || entity.building === null) return false;
+  if (changedFields !== undefined && (changedFields & ENTITY_CHANGED_BUILDING) === 0) return false;
+  return visibility === undefined || visibility.canSeePrivateEntityDetails(entity);
+}
+
+/** Veterancy has no typed-row slot either. Experience only moves on a
+ *  kill, which marks ENTITY_CHANGED_HP, so a veteran rides the DTO path on
+ *  full records and hp deltas. */
+function veterancySnapshotRequiresDto(entity: Entity, changedFields: number | undefined): boolean {
+  if (entity.veterancy === null || entity.unit === null) return false;
+  return changedFields === undefined || (changedFields & ENTITY_CHANGED_HP) !== 0;
+}
+
+/** Status effects have no slot in the typed rows either. A unit only takes
+ *  the DTO path for them once it has carried one: full records while
+ *  anything is running, and hp deltas, which may be clearing the last. */
+function statusEffectsSnapshotRequiresDto(entity: Entity, changedFields: number | undefined): boolean {
+  const status = entity.statusEffects;
+  if (status === null || entity.unit === null) return false;
+  if (changedFields === undefined) {
+    return status.paralyzedMs > 0 || status.slowStacks > 0 || status.burnStacks > 0;
+  }
+  return (changedFields & ENTITY_CHANGED_HP) !== 0;
+}
+
+/** Morph progress has no slot in the typed rows. Only entities whose
+ *  blueprint can morph ever take the DTO path for it: full records while
+ *  a morph runs, and building-field deltas, which may be clearing one. */
+function morphSnapshotRequiresDto(entity: Entity, changedFields: number | undefined): boolean {
+  if (entity.morph === null && getMorphConfig(entity) === null) return false;
+  if (changedFields === undefined) return entity.morph !== null;
+  return (changedFields & ENTITY_CHANGED_BUILDING) !== 0;
+}
+
+/** A wreck's full record carries its body and source blueprint, which the
+ *  typed building row has no slots for. Deltas (hp) stay typed. */
+function wreckSnapshotRequiresDto(entity: Entity, changedFields: number | undefined): boolean {
+  return entity.wreck !== null && changedFields === undefined;
 }
 
 function appendDirectBasicEntityWireRow(
@@ -1661,6 +1726,42 @@ export function serializeEntitySnapshot(
   if (isFull || (changedFields & ENTITY_CHANGED_ROT)) {
     ne.rotation = qRot(entity.transform.rotation);
   }
+  // Undefined rather than null keeps the key off every non-morph row.
+  ne.morph = undefined;
+  if (morphSnapshotRequiresDto(entity, changedFields)) {
+    if (entity.morph !== null) {
+      poolEntry.morphSub.progressMs = entity.morph.progressMs;
+      ne.morph = poolEntry.morphSub;
+    } else {
+      ne.morph = null;
+    }
+  }
+  ne.statusEffects = undefined;
+  const status = entity.statusEffects;
+  if (status !== null && statusEffectsSnapshotRequiresDto(entity, changedFields)) {
+    const sub = poolEntry.statusEffectsSub;
+    sub.paralyzedMs = status.paralyzedMs;
+    sub.slowStacks = status.slowStacks;
+    sub.burnStacks = status.burnStacks;
+    ne.statusEffects = sub;
+  }
+  ne.veterancy = undefined;
+  const veterancy = entity.veterancy;
+  if (veterancy !== null && veterancySnapshotRequiresDto(entity, changedFields)) {
+    const sub = poolEntry.veterancySub;
+    sub.experience = veterancy.experience;
+    sub.rank = veterancy.rank;
+    ne.veterancy = sub;
+  }
+  ne.stockpile = undefined;
+  const stockpile = entity.stockpile;
+  if (stockpile !== null && stockpileSnapshotRequiresDto(entity, changedFields, visibility)) {
+    const sub = poolEntry.stockpileSub;
+    sub.stock = stockpile.stock;
+    sub.queued = stockpile.queued;
+    sub.progressMs = stockpile.progressMs;
+    ne.stockpile = sub;
+  }
 
   ne.unit = null;
   ne.building = null;
@@ -1869,6 +1970,8 @@ export function serializeEntitySnapshot(
       b.solar = null;
       b.metalExtractionRate = null;
       b.turrets = null;
+      // Undefined rather than null keeps the key off every other raw row.
+      b.wreck = undefined;
 
       if (isFull) {
         b.dim = poolEntry.buildingDim;
@@ -1880,6 +1983,15 @@ export function serializeEntitySnapshot(
         b.metalExtractionRate = isMetalExtractorBlueprintId(entity.buildingBlueprintId)
           ? entity.metalExtractionRate ?? 0
           : null;
+        const wreck = entity.wreck;
+        if (wreck !== null && wreck.source.kind === 'unit') {
+          const w = poolEntry.wreckSub;
+          w.unitBlueprintCode = unitBlueprintIdToCode(wreck.source.unitBlueprintId);
+          w.depth = entity.building.depth;
+          w.metal = wreck.metal;
+          w.debris = wreck.debris;
+          b.wreck = w;
+        }
       } else {
         b.dim = null;
         b.buildingBlueprintCode = null;
@@ -90,6 +90,13 @@ import { createBeamEmitterMeshMaterial } from './BeamWaveVisual3D';
 
 const BUILDING_HEIGHT = 120;
 
+function buildingShapeTypeForEntity(entity: Entity): BuildingShapeType {
+  if (entity.wreck !== null) return entity.wreck.debris ? 'debris' : 'wreck';
+  return entity.buildingBlueprintId
+    ? getBuildingConfig(entity.buildingBlueprintId).renderProfile
+    : 'unknown';
+}
+
 function isTowerShapeType(shapeType: BuildingShapeType): boolean {
   return shapeType.startsWith('tower');
 }
@@ -249,9 +256,7 @@ function createBuildingEntityMesh3D(options: BuildingEntityMeshFactoryOptions):
     barrelMat,
     detailLevel,
   } = options;
-  const shapeType: BuildingShapeType = entity.buildingBlueprintId
-    ? getBuildingConfig(entity.buildingBlueprintId).renderProfile
-    : 'unknown';
+  const shapeType = buildingShapeTypeForEntity(entity);
   const group = new THREE.Group();
   group.matrixAutoUpdate = false;
   group.userData.entityId = entity.id;
@@ -656,9 +661,7 @@ export class BuildingEntityRenderer3D {
       }
       const entity = rows.entityAt(row);
       if (entity === undefined || entity.building === null) continue;
-      const shapeType: BuildingShapeType = entity.buildingBlueprintId
-        ? getBuildingConfig(entity.buildingBlueprintId).renderProfile
-        : 'unknown';
+      const shapeType = buildingShapeTypeForEntity(entity);
       // Latched detail rung (screen-coverage LOD with hysteresis) from the
       // scene's shared EntityLodState3D — the same state that stamped this
       // packet's proxy flag. Its representative level drives the rebuild
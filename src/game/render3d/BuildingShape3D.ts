@@ -97,13 +97,19 @@ import {
   buildSonarJammerMesh,
   disposeStorageAndJammerBuildingGeoms,
 } from './StorageAndJammerBuildingsMesh3D';
+import {
+  buildAntiMissileMesh,
+  buildMissileSiloMesh,
+  disposeStrategicWeaponBuildingGeoms,
+} from './StrategicWeaponBuildingsMesh3D';
 
 export type { WindTurbineRig } from './WindTurbineMesh3D';
 export type { ExtractorRig } from './MetalExtractorMesh3D';
 
 /** Short building blueprints we have art for. Unknown types fall back to a
- *  plain primary-color slab (same as before). */
-export type BuildingShapeType = BuildingRenderProfile;
+ *  plain primary-color slab (same as before). Wrecks have no blueprint and
+ *  pick their stage's shape instead. */
+export type BuildingShapeType = BuildingRenderProfile | 'wreck' | 'debris';
 
 export type BuildingDetailRole =
   | 'static'
@@ -291,6 +297,10 @@ export function buildBuildingShape(
         return buildMetalStorageMesh(width, depth, primaryMat);
       case 'buildingEnergyStorage':
         return buildEnergyStorageMesh(width, depth, primaryMat);
+      case 'buildingMissileSilo':
+        return buildMissileSiloMesh(width, depth, primaryMat);
+      case 'buildingAntiMissile':
+        return buildAntiMissileMesh(width, depth, primaryMat);
       case 'towerBeamMega':
         return buildHeavyBeamTowerMesh(primaryMat);
       case 'towerBeamLight':
@@ -314,6 +324,10 @@ export function buildBuildingShape(
         return buildUnknown(primaryMat);
       case 'bodyless':
         return buildBodyless(primaryMat);
+      case 'wreck':
+        return buildWreckHulk(width, depth);
+      case 'debris':
+        return buildDebrisHeap(width, depth);
       default:
         throw new Error(`Unhandled building shape type: ${type as string}`);
     }
@@ -336,6 +350,41 @@ function buildBodyless(primaryMat: THREE.Material): BuildingShape {
   return { primary, details: [], height: 0, bodyless: true };
 }
 
+const wreckHullMat = new THREE.MeshLambertMaterial({ color: BUILDING_PALETTE.wreckHull });
+const wreckScorchMat = new THREE.MeshLambertMaterial({ color: BUILDING_PALETTE.wreckScorch });
+
+/** A dead unit's hulk: a low scorched slab with torn plating heaved up on
+ *  top. Material-locked — a wreck has no team to be coloured for. */
+function buildWreckHulk(width: number, depth: number): BuildingShape {
+  const height = Math.min(width, depth) * 0.35;
+  const primary = new THREE.Mesh(boxGeom, wreckScorchMat);
+  const plate = makeBox(wreckHullMat, width * 0.7, height * 0.35, depth * 0.55, -width * 0.08, height * 1.05, depth * 0.08);
+  plate.rotation.z = 0.22;
+  plate.rotation.y = 0.35;
+  const spar = makeBox(wreckHullMat, width * 0.2, height * 0.9, depth * 0.2, width * 0.24, height * 1.2, -depth * 0.22);
+  spar.rotation.x = 0.55;
+  return {
+    primary,
+    details: [detail(plate), detail(spar)],
+    height,
+    primaryMaterialLocked: true,
+  };
+}
+
+/** What is left once a hulk is shot apart: a flat heap of scrap. */
+function buildDebrisHeap(width: number, depth: number): BuildingShape {
+  const height = Math.min(width, depth) * 0.15;
+  const primary = new THREE.Mesh(boxGeom, wreckScorchMat);
+  const chunk = makeBox(wreckHullMat, width * 0.4, height * 1.2, depth * 0.35, width * 0.12, height * 0.9, -depth * 0.1);
+  chunk.rotation.y = 0.6;
+  return {
+    primary,
+    details: [detail(chunk)],
+    height,
+    primaryMaterialLocked: true,
+  };
+}
+
 function buildRadarMesh(
   width: number,
   depth: number,
@@ -910,6 +959,7 @@ export function disposeBuildingGeoms(): void {
   disposeSolarCollectorGeoms();
   disposeTechBuildingsMeshGeoms();
   disposeStorageAndJammerBuildingGeoms();
+  disposeStrategicWeaponBuildingGeoms();
   radarTowerGeom.dispose();
   for (const geometry of radarDishGeomByTier.values()) geometry.dispose();
   for (const geometry of radarRingGeomByTier.values()) geometry.dispose();
@@ -31,7 +31,9 @@ export type BuildingTeamOrnamentKind =
   | 'radarJammerCoil'
   | 'sonarJammerBaffle'
   | 'metalStorageBrace'
-  | 'energyStorageBusbar';
+  | 'energyStorageBusbar'
+  | 'missileSiloBlastDoor'
+  | 'antiMissileLauncherRing';
 
 const BUILDING_TEAM_ORNAMENT_KIND = 'buildingTeamOrnamentKind';
 
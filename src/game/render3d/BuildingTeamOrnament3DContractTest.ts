@@ -38,6 +38,8 @@ const EXPECTED_KIND: Record<StructureBlueprintId, BuildingTeamOrnamentKind> = {
   buildingSonarJammer: 'sonarJammerBaffle',
   buildingMetalStorage: 'metalStorageBrace',
   buildingEnergyStorage: 'energyStorageBusbar',
+  buildingMissileSilo: 'missileSiloBlastDoor',
+  buildingAntiMissile: 'antiMissileLauncherRing',
 };
 
 const TIERS: readonly PrimitiveGeometryTier[] = ['close', 'mid', 'far'];
@@ -10,6 +10,9 @@ export const BUILDING_PALETTE = {
   cyanGlass: COLORS.buildings.palette.cyanGlass.colorHex,
   constructionAmber: COLORS.buildings.palette.constructionAmber.colorHex,
   constructionSpark: COLORS.buildings.palette.constructionSpark.colorHex,
+  /** Burnt-out plating and soot for wrecks; never team-tinted. */
+  wreckHull: COLORS.buildings.palette.wreckHull.colorHex,
+  wreckScorch: COLORS.buildings.palette.wreckScorch.colorHex,
   /** Metal-resource color — matches the metal coin/ball tint in
    *  ResourcePylonMesh3D and the "metal" income bar. Used for the
    *  metal extractor's spinning blades. */
@@ -227,6 +227,8 @@ const STRUCTURE_TRIANGLE_BUDGETS: Record<StructureBlueprintId, TierCounts> = {
   buildingSonarJammer: { close: 900, mid: 600, far: 360 },
   buildingMetalStorage: { close: 700, mid: 500, far: 320 },
   buildingEnergyStorage: { close: 1620, mid: 825, far: 380 },
+  buildingMissileSilo: { close: 285, mid: 195, far: 110 },
+  buildingAntiMissile: { close: 880, mid: 540, far: 215 },
 };
 
 /** Full visible unit ceilings: body + locomotion + physical turrets + unique kit/panel art. */
@@ -2303,7 +2305,7 @@ function runConstructionHostMarkingContracts(): void {
 
 export function runEntityLodGeometry3DContractTest(): void {
   assertContract(ENTITY_LOD_VISUAL_REGRESSION_ROSTER.units.length === 27, 'visual roster covers all 27 units');
-  assertContract(ENTITY_LOD_VISUAL_REGRESSION_ROSTER.buildings.length === 20, 'visual roster covers all 20 buildings');
+  assertContract(ENTITY_LOD_VISUAL_REGRESSION_ROSTER.buildings.length === 22, 'visual roster covers all 22 buildings');
   const material = new THREE.MeshBasicMaterial({ color: 0xffffff });
   try {
     runEnvironmentLodMaterialContracts();
@@ -14,6 +14,9 @@
 //                                     whenNotFull never hides a name)
 //   - not selected                 → label (per-type toggle drives it)
 //
+// A veteran unit's name trails one pip per rank, so the rank reads even
+// at full hp when the health bar (and its pips) is hidden.
+//
 // Commander owner names are a separate owner-label line, not a body
 // label override. The resolver intentionally takes a `lookupPlayerName`
 // callback rather than the lobby roster directly, so the simulation
@@ -32,6 +35,21 @@ const UNKNOWN_UNIT_NAME = 'Unknown Unit';
 const UNKNOWN_BUILDING_NAME = 'Unknown Building';
 const UNKNOWN_TURRET_NAME = 'Unknown Turret';
 const UNKNOWN_SHOT_NAME = 'Unknown Shot';
+const RANK_PIP = '\u2605';
+
+/** Labels are rebuilt every frame, so each name + rank pairing is joined
+ *  once and reused. */
+const rankedNames = new Map<string, string[]>();
+
+function withRankPips(name: string, rank: number): string {
+  if (rank <= 0) return name;
+  let byRank = rankedNames.get(name);
+  if (byRank === undefined) {
+    byRank = [];
+    rankedNames.set(name, byRank);
+  }
+  return byRank[rank] ?? (byRank[rank] = `${name} ${RANK_PIP.repeat(rank)}`);
+}
 
 /** Names have no current/max, so the only thing the selection mode can
  *  do is suppress a SELECTED entity's name in 'never'. Unselected
@@ -76,7 +94,9 @@ export function resolveEntityDisplayName(
   const selected = entity.selectable?.selected === true;
   if (!nameAllowed(nameToggle, selected, mode)) return null;
 
-  return unitBlueprintName(entity) ?? buildingBlueprintName(entity);
+  const unitName = unitBlueprintName(entity);
+  if (unitName !== null) return withRankPips(unitName, entity.veterancy?.rank ?? 0);
+  return buildingBlueprintName(entity);
 }
 
 /** Commander owner label. It uses the same per-type name toggle/mode
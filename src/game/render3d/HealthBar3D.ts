@@ -9,6 +9,9 @@
 // naturally clipped — no separate occlusion test, no SVG overlay,
 // no per-unit raycast on the CPU.
 //
+// A veteran's rank rides the same canvas as square pips at the bar's
+// right end, so the texture rebakes on a rank change as well.
+//
 // HEALTH is the only lane. The per-entity energy/metal construction
 // bars were removed deliberately: entity-level resource readouts are
 // gone from the game, and the player-level economy HUD is the one
@@ -24,11 +27,13 @@ import { FADE_CULL_ALPHA, type HudFade } from './HudFade';
 import {
   growFloat32Array,
   growFloat64Array,
+  growUint8Array,
 } from './RenderUtils';
 import {
   SHELL_BAR_BG_COLOR,
   SHELL_BAR_BG_ALPHA,
   SHELL_BAR_FG_ALPHA,
+  SHELL_BAR_RANK_PIP_COLOR,
   SHELL_BAR_WORLD_HEIGHT,
   SHELL_BAR_CANVAS_WIDTH,
   SHELL_BAR_CANVAS_HEIGHT,
@@ -44,6 +49,7 @@ const STYLE = {
   bgColor: SHELL_BAR_BG_COLOR,
   bgAlpha: SHELL_BAR_BG_ALPHA,
   fgAlpha: SHELL_BAR_FG_ALPHA,
+  rankPipColor: SHELL_BAR_RANK_PIP_COLOR,
   hideAtFull: SHELL_BAR_HIDE_AT_FULL,
   canvasWidth: SHELL_BAR_CANVAS_WIDTH,
   canvasHeight: SHELL_BAR_CANVAS_HEIGHT,
@@ -61,6 +67,7 @@ export class BodyHudRenderPacket3D {
   z: Float32Array = new Float32Array(BODY_HUD_PACKET_INITIAL_CAP);
   width: Float32Array = new Float32Array(BODY_HUD_PACKET_INITIAL_CAP);
   healthRatio: Float32Array = new Float32Array(BODY_HUD_PACKET_INITIAL_CAP);
+  rank: Uint8Array = new Uint8Array(BODY_HUD_PACKET_INITIAL_CAP);
   count = 0;
 
   reset(): void {
@@ -77,6 +84,7 @@ export class BodyHudRenderPacket3D {
     z: number,
     width: number,
     healthRatio: number,
+    rank: number,
   ): void {
     const cursor = this.count;
     this.ensureCapacity(cursor + 1);
@@ -86,6 +94,7 @@ export class BodyHudRenderPacket3D {
     this.z[cursor] = z;
     this.width[cursor] = width;
     this.healthRatio[cursor] = Math.max(0, Math.min(1, healthRatio));
+    this.rank[cursor] = rank;
     this.count = cursor + 1;
   }
 
@@ -99,6 +108,7 @@ export class BodyHudRenderPacket3D {
     this.z = growFloat32Array(this.z, nextCapacity);
     this.width = growFloat32Array(this.width, nextCapacity);
     this.healthRatio = growFloat32Array(this.healthRatio, nextCapacity);
+    this.rank = growUint8Array(this.rank, nextCapacity);
   }
 }
 
@@ -107,6 +117,7 @@ type BarState = {
    *  changes by more than one texture pixel — one HP point of
    *  variation produces no work most frames. */
   lastRatioPx: number;
+  lastRank: number;
   lastX: number;
   lastY: number;
   lastZ: number;
@@ -148,10 +159,11 @@ function healthGradientColor(ratio: number): string {
   return `rgb(${R}, ${G}, 0)`;
 }
 
-function repaintBar(bar: Bar, ratio: number): boolean {
+function repaintBar(bar: Bar, ratio: number, rank: number): boolean {
   const ratioPx = Math.round(ratio * STYLE.canvasWidth);
-  if (bar.state.lastRatioPx === ratioPx) return false;
+  if (bar.state.lastRatioPx === ratioPx && bar.state.lastRank === rank) return false;
   bar.state.lastRatioPx = ratioPx;
+  bar.state.lastRank = rank;
   const ctx = bar.ctx;
   const w = STYLE.canvasWidth;
   const h = STYLE.canvasHeight;
@@ -162,6 +174,15 @@ function repaintBar(bar: Bar, ratio: number): boolean {
   ctx.globalAlpha = STYLE.fgAlpha;
   ctx.fillStyle = healthGradientColor(ratio);
   ctx.fillRect(0, 0, ratioPx, h);
+  if (rank > 0) {
+    // One square pip per rank, stacked leftward from the right end with a
+    // bar-colored gap between them.
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = STYLE.rankPipColor;
+    for (let i = 0; i < rank; i++) {
+      ctx.fillRect(w - (i + 1) * (h + 2), 0, h, h);
+    }
+  }
   ctx.globalAlpha = 1;
   return true;
 }
@@ -171,10 +192,10 @@ export class HealthBar3D {
    *  the per-frame loop allocates nothing. */
   private static readonly _probeVec = new THREE.Vector3();
 
-  private pool: CanvasSpritePool<BarState, [number]>;
+  private pool: CanvasSpritePool<BarState, [number, number]>;
 
   constructor(parent: THREE.Group) {
-    this.pool = new CanvasSpritePool<BarState, [number]>({
+    this.pool = new CanvasSpritePool<BarState, [number, number]>({
       parent,
       canvasWidth: STYLE.canvasWidth,
       canvasHeight: STYLE.canvasHeight,
@@ -186,6 +207,7 @@ export class HealthBar3D {
       showOnAcquire: false,
       makeState: () => ({
         lastRatioPx: -1,
+        lastRank: 0,
         lastX: Number.NaN,
         lastY: Number.NaN,
         lastZ: Number.NaN,
@@ -205,9 +227,9 @@ export class HealthBar3D {
     return this.pool.acquire(i);
   }
 
-  /** Repaint the canvas if the ratio changed; otherwise no-op. */
-  private repaintIfChanged(bar: Bar, ratio: number): void {
-    this.pool.repaintIfChanged(bar, ratio);
+  /** Repaint the canvas if the ratio or rank changed; otherwise no-op. */
+  private repaintIfChanged(bar: Bar, ratio: number, rank: number): void {
+    this.pool.repaintIfChanged(bar, ratio, rank);
   }
 
   /** Frame-state cursor, advanced by beginFrame / processBodyHudPacket /
@@ -244,6 +266,7 @@ export class HealthBar3D {
   /** Place a single bar at a given world position. */
   private placeBar(
     ratio: number,
+    rank: number,
     worldX: number,
     worldY: number,
     worldZ: number,
@@ -251,7 +274,7 @@ export class HealthBar3D {
     alpha: number,
   ): void {
     const bar = this.acquire(this._used++);
-    this.repaintIfChanged(bar, ratio);
+    this.repaintIfChanged(bar, ratio, rank);
     const state = bar.state;
     if (state.lastWidth !== worldWidth) {
       bar.sprite.scale.set(worldWidth, STYLE.worldHeight, 1);
@@ -298,7 +321,7 @@ export class HealthBar3D {
       // clock — pure presentation, nothing downstream reads it).
       healthRatio = 0;
     }
-    this.placeBar(healthRatio, worldX, worldY, worldZ, packet.width[row], alpha);
+    this.placeBar(healthRatio, packet.rank[row], worldX, worldY, worldZ, packet.width[row], alpha);
   }
 
   /** Hide trailing pool entries past the live prefix. Sprites stay in
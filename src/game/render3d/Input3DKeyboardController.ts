@@ -137,6 +137,7 @@ type Input3DKeyboardControllerConfig = Input3DCommandModeControls & {
   toggleUnloadTransportMode: () => void;
   toggleMexUpgradeMode: () => void;
   upgradeSelectedMetalExtractors: () => void;
+  toggleSelectedMorph: () => void;
   toggleRepairAreaMode: () => void;
   toggleRestoreAreaMode: () => void;
   togglePingMode: () => void;
@@ -1072,6 +1073,8 @@ export class Input3DKeyboardController {
         this.config.toggleUnloadTransportMode();
         break;
       case 'command.morph':
+        this.config.toggleSelectedMorph();
+        break;
       case 'command.upgradeMexSelected':
         this.config.upgradeSelectedMetalExtractors();
         break;
@@ -1230,6 +1233,7 @@ export class Input3DKeyboardController {
       case 'camera.viewTa':
       case 'camera.viewSpring':
       case 'ui.goToLastPing':
+      case 'ui.goToLastAlert':
       case 'ui.toggleUiChrome':
       case 'ui.muteSound':
       case 'ui.volumeIncrease':
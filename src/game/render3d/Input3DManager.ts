@@ -477,6 +477,7 @@ export class Input3DManager {
       toggleUnloadTransportMode: () => this.toggleUnloadTransportMode(),
       toggleMexUpgradeMode: () => this.toggleMexUpgradeMode(),
       upgradeSelectedMetalExtractors: () => this.upgradeSelectedMetalExtractors(),
+      toggleSelectedMorph: () => this.toggleSelectedMorph(),
       toggleRepairAreaMode: () => this.toggleRepairAreaMode(),
       toggleRestoreAreaMode: () => this.toggleRestoreAreaMode(),
       togglePingMode: () => this.togglePingMode(),
@@ -1140,6 +1141,10 @@ export class Input3DManager {
     this.selectedCommands.selfDestruct(queue, queueFront, queueInsertIndex);
   }
 
+  giveSelectedToPlayer(targetPlayerId: PlayerId): void {
+    this.selectedCommands.transferSelected(targetPlayerId);
+  }
+
   selectAllOwnedUnits(): void {
     const entityIds: EntityId[] = [];
     const units = this.entitySource.getUnitsByPlayer(this.context.activePlayerId);
@@ -1989,6 +1994,17 @@ export class Input3DManager {
     }
   }
 
+  /** The Upgrade command: blueprint morphs first, and the hand-built T1
+   *  extractor upgrade for selections with nothing to morph. */
+  toggleSelectedMorph(): void {
+    if (this.selectedCommands.toggleMorph()) return;
+    this.upgradeSelectedMetalExtractors();
+  }
+
+  queueSelectedStockpile(delta: number): void {
+    this.selectedCommands.stockpile(delta);
+  }
+
   upgradeSelectedMetalExtractors(): void {
     const selectedStatic = this.entitySource.getSelectedBuildings();
     const targets: Entity[] = [];
@@ -2045,6 +2061,7 @@ export class Input3DManager {
   }
 
   private hasSelectedManualLaunchEntitiesForActivePreset(): boolean {
+    if (this.selectedCommands.selectedStrategicMissileLaunchers().length > 0) return true;
     const presetId = getActiveCommandHotkeyPresetId();
     return isBarCommandHotkeyPreset(presetId)
       ? this.hasSelectedBarManualLaunchEntities()
@@ -1616,6 +1616,8 @@ export class Input3DModeClickController {
         entityIds.push(targets[i].id);
       }
     }
+    const launchers = this.config.selectedCommands.selectedStrategicMissileLaunchers();
+    for (let i = 0; i < launchers.length; i++) entityIds.push(launchers[i].id);
     if (entityIds.length === 0) {
       this.config.exitManualLaunchMode();
       return;
@@ -0,0 +1,82 @@
+// Status-effect markers above units: a cross while paralyzed, a diamond
+// while slowed, a triangle while burning. The client only knows what the
+// snapshot carries — the stun flag and the two stack counts — so the marker
+// grows with stacks and never counts down a timer it cannot see.
+//
+// Markers ride the shared LOD proxy point batch, the same glyph pass the
+// radar blips use, so one draw call covers every affected unit in view.
+
+import * as THREE from 'three';
+import { COLORS } from '../../colorsConfig';
+import type { Entity } from '../sim/types';
+import type { ViewportFootprint } from '../ViewportFootprint';
+import {
+  ENTITY_LOD_PROXY_GLYPH_CROSS,
+  ENTITY_LOD_PROXY_GLYPH_DIAMOND,
+  ENTITY_LOD_PROXY_GLYPH_TRIANGLE,
+} from './EntityLod3D';
+import { LodProxyPointBatchRenderer3D } from './EntityLodProxyRenderer3D';
+
+const STYLE = COLORS.effects.statusEffect;
+
+export class StatusEffectRenderer3D {
+  private readonly proxyRenderer: LodProxyPointBatchRenderer3D;
+
+  constructor(
+    parent: THREE.Group,
+    canvas?: HTMLCanvasElement,
+  ) {
+    this.proxyRenderer = new LodProxyPointBatchRenderer3D(parent, canvas);
+  }
+
+  update(
+    units: readonly Entity[],
+    nowMs: number,
+    renderScope: ViewportFootprint | undefined,
+  ): void {
+    this.proxyRenderer.beginFrame();
+    const pulse = 0.75 + 0.25 * Math.sin((nowMs / 1000) * STYLE.pulseHz * Math.PI * 2);
+    const alpha = STYLE.opacity * pulse;
+    for (let i = 0; i < units.length; i++) {
+      const entity = units[i];
+      const status = entity.statusEffects;
+      const unit = entity.unit;
+      if (status === null || unit === null) continue;
+      const paralyzed = status.paralyzedMs > 0;
+      const markerCount = (paralyzed ? 1 : 0) +
+        (status.slowStacks > 0 ? 1 : 0) +
+        (status.burnStacks > 0 ? 1 : 0);
+      if (markerCount === 0) continue;
+      const { x, y, z } = entity.transform;
+      if (renderScope !== undefined && !renderScope.inScope(x, y, unit.radius.other)) continue;
+
+      const markerZ = z + unit.radius.other + STYLE.surfaceLift;
+      let markerX = x - (STYLE.spacing * (markerCount - 1)) / 2;
+      if (paralyzed) {
+        this.proxyRenderer.pushProxy(
+          markerX, y, markerZ, STYLE.radius,
+          ENTITY_LOD_PROXY_GLYPH_CROSS, STYLE.paralyzeColorHex, alpha,
+        );
+        markerX += STYLE.spacing;
+      }
+      if (status.slowStacks > 0) {
+        this.proxyRenderer.pushProxy(
+          markerX, y, markerZ, STYLE.radius + STYLE.stackRadiusGrowth * (status.slowStacks - 1),
+          ENTITY_LOD_PROXY_GLYPH_DIAMOND, STYLE.slowColorHex, alpha,
+        );
+        markerX += STYLE.spacing;
+      }
+      if (status.burnStacks > 0) {
+        this.proxyRenderer.pushProxy(
+          markerX, y, markerZ, STYLE.radius + STYLE.stackRadiusGrowth * (status.burnStacks - 1),
+          ENTITY_LOD_PROXY_GLYPH_TRIANGLE, STYLE.burnColorHex, alpha,
+        );
+      }
+    }
+    this.proxyRenderer.flush();
+  }
+
+  destroy(): void {
+    this.proxyRenderer.destroy();
+  }
+}
@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import type { BuildingShape } from './BuildingShape3D';
+import {
+  createHexFrustumGeometry,
+  detail,
+  hexCylinderGeom,
+  makeBox,
+  makeCone,
+  makeCylinder,
+  makeSphere,
+  teamOrnamentDetail,
+} from './BuildingMeshPrimitives3D';
+import { BUILDING_PALETTE } from './BuildingVisualPalette';
+
+const structureDarkMat = new THREE.MeshLambertMaterial({
+  color: BUILDING_PALETTE.structureDark,
+});
+const structureMidMat = new THREE.MeshLambertMaterial({
+  color: BUILDING_PALETTE.structureMid,
+});
+const structureLightMat = new THREE.MeshStandardMaterial({
+  color: BUILDING_PALETTE.structureLight,
+  metalness: 0.55,
+  roughness: 0.36,
+});
+const warningGlowMat = new THREE.MeshBasicMaterial({
+  color: BUILDING_PALETTE.constructionAmber,
+  transparent: true,
+  opacity: 0.72,
+});
+const interceptorGlowMat = new THREE.MeshBasicMaterial({
+  color: BUILDING_PALETTE.cyanGlow,
+  transparent: true,
+  opacity: 0.66,
+});
+const siloBunkerGeom = new THREE.BoxGeometry(0.86, 1, 0.86);
+siloBunkerGeom.name = 'missileSiloBunker';
+const antiMissileBodyGeom = createHexFrustumGeometry(0.22, 0.34);
+antiMissileBodyGeom.name = 'antiMissileBody';
+
+/** Low armored bunker around one launch tube. The split blast doors lie
+ *  open to either side, so the warhead cone reads from above even when the
+ *  silo is a few pixels wide. */
+export function buildMissileSiloMesh(
+  width: number,
+  depth: number,
+  primaryMat: THREE.Material,
+): BuildingShape {
+  const height = 60;
+  const minDim = Math.min(width, depth);
+  const primary = new THREE.Mesh(siloBunkerGeom, primaryMat);
+  const details: BuildingShape['details'] = [];
+  const tubeRadius = Math.max(12, minDim * 0.2);
+
+  details.push(detail(makeBox(
+    structureDarkMat,
+    width * 0.94,
+    8,
+    depth * 0.94,
+    0,
+    4,
+    0,
+  ), 'min'));
+  details.push(detail(makeCylinder(
+    structureMidMat,
+    tubeRadius * 1.3,
+    8,
+    0,
+    height + 2,
+    0,
+  ), 'min'));
+  details.push(detail(makeCylinder(
+    structureDarkMat,
+    tubeRadius,
+    3,
+    0,
+    height + 6.5,
+    0,
+  ), 'low'));
+  details.push(detail(makeCylinder(
+    structureLightMat,
+    tubeRadius * 0.55,
+    14,
+    0,
+    height + 11,
+    0,
+  ), 'low'));
+  details.push(detail(makeCone(
+    warningGlowMat,
+    tubeRadius * 0.55,
+    14,
+    0,
+    height + 25,
+    0,
+  ), 'low'));
+  for (const side of [-1, 1]) {
+    details.push(teamOrnamentDetail(makeBox(
+      primaryMat,
+      tubeRadius * 1.2,
+      5,
+      tubeRadius * 2.4,
+      side * tubeRadius * 2,
+      height + 2.5,
+      0,
+    ), 'missileSiloBlastDoor'));
+    details.push(detail(makeBox(
+      warningGlowMat,
+      Math.max(3, minDim * 0.03),
+      2,
+      depth * 0.8,
+      side * width * 0.44,
+      height + 0.5,
+      0,
+    ), 'low'));
+  }
+  return { primary, details, height };
+}
+
+/** Interceptor battery: a hex pedestal carrying a ring of vertical launch
+ *  cells around a tracking dome. */
+export function buildAntiMissileMesh(
+  width: number,
+  depth: number,
+  primaryMat: THREE.Material,
+): BuildingShape {
+  const height = 110;
+  const minDim = Math.min(width, depth);
+  const primary = new THREE.Mesh(antiMissileBodyGeom, primaryMat);
+  const details: BuildingShape['details'] = [];
+  const deckY = height * 0.62;
+  const ringRadius = Math.max(16, minDim * 0.3);
+  const cellRadius = Math.max(4, minDim * 0.06);
+
+  details.push(detail(makeCylinder(
+    structureDarkMat,
+    Math.max(20, minDim * 0.4),
+    10,
+    0,
+    5,
+    0,
+    hexCylinderGeom,
+  ), 'min'));
+  details.push(teamOrnamentDetail(makeCylinder(
+    primaryMat,
+    ringRadius * 1.25,
+    5,
+    0,
+    deckY,
+    0,
+  ), 'antiMissileLauncherRing'));
+  for (let i = 0; i < 6; i++) {
+    const angle = i * Math.PI / 3;
+    const x = Math.cos(angle) * ringRadius;
+    const z = Math.sin(angle) * ringRadius;
+    details.push(detail(makeCylinder(
+      structureLightMat,
+      cellRadius,
+      height * 0.3,
+      x,
+      deckY + height * 0.15,
+      z,
+    ), 'low'));
+    details.push(detail(makeCylinder(
+      interceptorGlowMat,
+      cellRadius * 0.7,
+      2,
+      x,
+      deckY + height * 0.3 + 1,
+      z,
+      hexCylinderGeom,
+    ), 'low'));
+  }
+  details.push(detail(makeCylinder(
+    structureMidMat,
+    Math.max(6, minDim * 0.1),
+    height * 0.25,
+    0,
+    deckY + height * 0.12,
+    0,
+  ), 'low'));
+  details.push(detail(makeSphere(
+    structureLightMat,
+    Math.max(9, minDim * 0.15),
+    0,
+    deckY + height * 0.28,
+    0,
+  ), 'low'));
+  return { primary, details, height };
+}
+
+export function disposeStrategicWeaponBuildingGeoms(): void {
+  siloBunkerGeom.dispose();
+  antiMissileBodyGeom.dispose();
+  structureDarkMat.dispose();
+  structureMidMat.dispose();
+  structureLightMat.dispose();
+  warningGlowMat.dispose();
+  interceptorGlowMat.dispose();
+}
@@ -76,6 +76,14 @@ export function getTerrainShadowCacheKey(): string {
   ].join(':');
 }
 
+/** How far the precomputed shadow looks toward the sun, so terrain that
+ *  moves can change the shade of vertices up to this far from it. */
+export function getTerrainPrecomputedShadowReach(): number {
+  const cfg = TERRAIN_SHADOW_RENDER_CONFIG;
+  if (!cfg.enabled || !cfg.precomputed.enabled) return 0;
+  return Math.max(0, cfg.precomputed.samples | 0) * cfg.precomputed.sampleDistance;
+}
+
 export function writeSunDirectionThree(out: THREE.Vector3): THREE.Vector3 {
   return out.set(SUN_DIRECTION_SIM.x, SUN_DIRECTION_SIM.z, SUN_DIRECTION_SIM.y).normalize();
 }
@@ -81,6 +81,7 @@ import {
 import type { EntityShadowRenderPacket3D } from './EntityShadowRenderPacket3D';
 import type { FootprintBounds } from '../ViewportFootprint';
 import {
+  getTerrainDeformationsSince,
   getTerrainMeshSample,
   getTerrainMeshView,
   getTerrainVersion,
@@ -113,6 +114,7 @@ import { getBuildingConfig } from '../sim/buildConfigs';
 import { waterSurfaceBuildCellHasClearance } from '../sim/buildPlacementValidation';
 import { resolveBuildGridAvailabilityStatus } from './BuildGridAvailability3D';
 import {
+  getTerrainPrecomputedShadowReach,
   getTerrainShadowCacheKey,
   terrainPrecomputedShadow,
   terrainSunShade,
@@ -596,6 +598,10 @@ type CachedTerrainGeometry = {
   lastUsedFrame: number;
   byteSize: number;
   triangleDebug: boolean;
+  /** Authoritative mesh vertex behind each rendered vertex (-1 for the
+   *  world box and shelf), so a crater can be patched in place. Null for
+   *  the triangle-debug layout, which unrolls vertices per triangle. */
+  sourceVertices: Int32Array | null;
 };
 
 function bufferAttributeByteSize(
@@ -873,6 +879,8 @@ export class TerrainTileRenderer3D {
   private gridCellsY = 0;
   private gridCellSize = 0;
   private terrainGeometryKey = '';
+  /** Terrain version the current geometry shows. */
+  private terrainGeometryTerrainVersion = 0;
   private renderFrameIndex = 0;
   private pendingTerrainGeometryKey = '';
   private pendingTerrainGeometryFrames = 0;
@@ -2017,6 +2025,7 @@ export class TerrainTileRenderer3D {
     terrainLightSmoothAcrossWallBoundary: boolean,
     terrainSplitWallBoundaryVertices: boolean,
     waterBoundaryMode: WaterBoundaryMode,
+    terrainVersion: number,
   ): string {
     const parts: Array<string | number> = [
       cellsX,
@@ -2039,7 +2048,7 @@ export class TerrainTileRenderer3D {
       terrainSplitWallBoundaryVertices ? 1 : 0,
       waterBoundaryMode,
       CANONICAL_LAND_CELL_SIZE,
-      getTerrainVersion(),
+      terrainVersion,
       getTerrainShadowCacheKey(),
     ];
 
@@ -2137,6 +2146,7 @@ export class TerrainTileRenderer3D {
     nextKey: string,
     geometry: THREE.BufferGeometry,
     triangleDebug: boolean,
+    sourceVertices: Int32Array | null,
   ): void {
     const previous = this.terrainGeometryCache.get(nextKey);
     if (previous && previous.geometry !== geometry) {
@@ -2149,6 +2159,7 @@ export class TerrainTileRenderer3D {
       lastUsedFrame: this.renderFrameIndex,
       byteSize,
       triangleDebug,
+      sourceVertices,
     });
     this.terrainGeometryCacheBytes += byteSize - (previous?.byteSize ?? 0);
     this.useTerrainGeometry(nextKey, geometry);
@@ -2239,7 +2250,8 @@ export class TerrainTileRenderer3D {
     assertCanonicalLandCellSize('terrain tile cell size', cellSize);
     const cellsX = grid.cellsX;
     const cellsY = grid.cellsY;
-    const nextTerrainGeometryKey = this.makeTerrainGeometryKey(
+    const terrainVersion = getTerrainVersion();
+    const makeKey = (version: number): string => this.makeTerrainGeometryKey(
       cellsX,
       cellsY,
       cellSize,
@@ -2252,7 +2264,9 @@ export class TerrainTileRenderer3D {
       terrainLightSmoothAcrossWallBoundary,
       terrainSplitWallBoundaryVertices,
       waterBoundaryMode,
+      version,
     );
+    const nextTerrainGeometryKey = makeKey(terrainVersion);
     const triangleDebugChanged = triangleDebug !== this.terrainTriangleDebug;
     const wallTriangleDebugChanged =
       wallTriangleDebug !== this.terrainWallTriangleDebug;
@@ -2283,6 +2297,16 @@ export class TerrainTileRenderer3D {
       lightBoundaryChanged ||
       wallBoundarySplitChanged ||
       waterBoundaryModeChanged;
+    // Craters since the current geometry was built, with nothing else
+    // changed, patch the vertices they reach instead of rebuilding.
+    if (
+      !structuralChange &&
+      terrainVersion !== this.terrainGeometryTerrainVersion &&
+      this.terrainGeometryKey === makeKey(this.terrainGeometryTerrainVersion) &&
+      this.patchTerrainGeometryForDeformations(nextTerrainGeometryKey, cellSize, terrainVersion)
+    ) {
+      return true;
+    }
     if (!this.shouldRebuildTerrainGeometry(nextTerrainGeometryKey, structuralChange)) {
       return false;
     }
@@ -2304,6 +2328,7 @@ export class TerrainTileRenderer3D {
       );
       this.useTerrainGeometry(nextTerrainGeometryKey, cachedGeometry.geometry);
       this.markTerrainGeometryRebuilt(nextTerrainGeometryKey);
+      this.terrainGeometryTerrainVersion = terrainVersion;
       return true;
     }
 
@@ -2895,12 +2920,113 @@ export class TerrainTileRenderer3D {
       geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(terrainIndices), 1));
     }
     geometry.computeBoundingSphere();
-    this.cacheTerrainGeometry(nextTerrainGeometryKey, geometry, triangleDebug);
+    this.cacheTerrainGeometry(
+      nextTerrainGeometryKey,
+      geometry,
+      triangleDebug,
+      triangleDebug ? null : Int32Array.from(terrainSourceVertices),
+    );
     this.markTerrainGeometryRebuilt(nextTerrainGeometryKey);
+    this.terrainGeometryTerrainVersion = terrainVersion;
 
     return true;
   }
 
+  /** Move the vertices of the live geometry that craters since it was built
+   *  can reach: height, normal, slope fade and sun shade, re-derived exactly
+   *  as the full build derives them. Patched vertices skip the smoothing
+   *  pass and a wall-boundary split vertex takes the plain surface normal;
+   *  both settle at the next full rebuild. Returns false when the geometry
+   *  can't be patched and must be rebuilt instead. */
+  private patchTerrainGeometryForDeformations(
+    nextKey: string,
+    cellSize: number,
+    terrainVersion: number,
+  ): boolean {
+    const deformations = getTerrainDeformationsSince(this.terrainGeometryTerrainVersion);
+    if (deformations === null || deformations.length === 0) return false;
+    const previousKey = this.currentTerrainGeometryCacheKey;
+    const cached = this.terrainGeometryCache.get(previousKey);
+    if (
+      cached === undefined ||
+      cached.sourceVertices === null ||
+      cached.geometry !== this.terrainGeometry ||
+      this.terrainGeometryCache.has(nextKey)
+    ) {
+      return false;
+    }
+    const mesh = getTerrainMeshView(this.mapWidth, this.mapHeight, cellSize);
+    if (!mesh) return false;
+
+    const geometry = cached.geometry;
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const normals = geometry.getAttribute('normal') as THREE.BufferAttribute;
+    const shades = geometry.getAttribute('terrainShade') as THREE.BufferAttribute;
+    const slopes = geometry.getAttribute('terrainNeighborhoodSlope') as THREE.BufferAttribute;
+    const terrainHeightAt = (sx: number, sy: number): number =>
+      terrainMeshHeightFromSample(
+        getTerrainMeshSample(sx, sy, this.mapWidth, this.mapHeight, cellSize),
+      );
+    const reach = Math.max(0, TERRAIN_GROUND_DETAIL_NEIGHBORHOOD_FADE_RADIUS) +
+      getTerrainPrecomputedShadowReach();
+    const sourceVertices = cached.sourceVertices;
+    for (let v = 0; v < sourceVertices.length; v++) {
+      const i = sourceVertices[v];
+      if (i < 0) continue;
+      const wx = mesh.vertexCoords[i * 2];
+      const wz = mesh.vertexCoords[i * 2 + 1];
+      let touched = false;
+      for (const step of deformations) {
+        if (
+          wx >= step.minX - reach && wx <= step.maxX + reach &&
+          wz >= step.minY - reach && wz <= step.maxY + reach
+        ) {
+          touched = true;
+          break;
+        }
+      }
+      if (!touched) continue;
+      const terrainHeight = mesh.vertexHeights[i];
+      const normal = terrainMeshNormalFromSample(
+        getTerrainMeshSample(wx, wz, this.mapWidth, this.mapHeight, cellSize),
+      );
+      positions.setY(v, terrainHeight + LAND_TILE_GROUND_LIFT);
+      normals.setXYZ(v, normal.nx, normal.nz, normal.ny);
+      const vertexSlope = 1 - Math.min(1, Math.abs(normal.nz));
+      slopes.setX(
+        v,
+        computeNeighborhoodSlope(wx, wz, vertexSlope, this.mapWidth, this.mapHeight, cellSize),
+      );
+      shades.setX(
+        v,
+        terrainSunShade(
+          { x: normal.nx, y: normal.ny, z: normal.nz },
+          terrainPrecomputedShadow(
+            wx,
+            wz,
+            terrainHeight,
+            this.mapWidth,
+            this.mapHeight,
+            terrainHeightAt,
+          ),
+        ),
+      );
+    }
+    positions.needsUpdate = true;
+    normals.needsUpdate = true;
+    shades.needsUpdate = true;
+    slopes.needsUpdate = true;
+    geometry.computeBoundingSphere();
+
+    this.terrainGeometryCache.delete(previousKey);
+    this.terrainGeometryCache.set(nextKey, cached);
+    cached.lastUsedFrame = this.renderFrameIndex;
+    this.currentTerrainGeometryCacheKey = nextKey;
+    this.markTerrainGeometryRebuilt(nextKey);
+    this.terrainGeometryTerrainVersion = terrainVersion;
+    return true;
+  }
+
   update(
     graphicsConfig: GraphicsConfig,
     _frameState: RenderFrameState3D,
@@ -4,6 +4,7 @@
 import type { ClientViewState } from '../network/ClientViewState';
 import type { SceneCameraState } from '@/types/game';
 import type { CameraViewMode } from '@/types/client';
+import type { GameOverReason } from '@/types/victoryCondition';
 import {
   RtsScene3DSnapshotIntake,
   type RtsScene3DSnapshotApplyStats,
@@ -62,6 +63,7 @@ import { SmokeTrail3D } from '../render3d/SmokeTrail3D';
 import { WindParticleField3D } from '../render3d/WindParticleField3D';
 import { SightBoundaryRenderer3D } from '../render3d/SightBoundaryRenderer3D';
 import { ContactBlipRenderer3D } from '../render3d/ContactBlipRenderer3D';
+import { StatusEffectRenderer3D } from '../render3d/StatusEffectRenderer3D';
 import type { OverlayLineSystem } from '../render3d/OverlayLineSystem';
 import { ShieldImpactRenderer3D } from '../render3d/ShieldImpactRenderer3D';
 import { WaterSplash3D } from '../render3d/WaterSplash3D';
@@ -73,6 +75,7 @@ import { SurfaceLiftProbeOverlay3D } from '../render3d/SurfaceLiftProbeOverlay3D
 import { LineDrag3D } from '../render3d/LineDrag3D';
 import { BuildGhost3D } from '../render3d/BuildGhost3D';
 import { RtsScene3DAudioSystem } from './helpers/RtsScene3DAudioSystem';
+import { RtsScene3DAlertSystem } from './helpers/RtsScene3DAlertSystem';
 import { RtsScene3DPredictionPhase } from './helpers/RtsScene3DPredictionPhase';
 import type { NetworkServerSnapshotSimEvent } from '../network/NetworkTypes';
 import { CommandQueue, type Command } from '../sim/commands';
@@ -113,6 +116,7 @@ import type {
   BuildingBlueprintId,
 } from '../sim/types';
 
+import type { GameAlert } from '../../types/ui';
 import { CAMERA_CONSTRAINTS } from '../../config';
 import { BATTLE_CONFIG } from '../../battleBarConfig';
 import {
@@ -210,7 +214,11 @@ export class RtsScene3D {
   private sightBoundaryRenderer!: SightBoundaryRenderer3D;
   private radarBoundaryRenderer!: SightBoundaryRenderer3D;
   private contactBlipRenderer!: ContactBlipRenderer3D;
+  private statusEffectRenderer!: StatusEffectRenderer3D;
   private audioSystem = new RtsScene3DAudioSystem();
+  private readonly alertSystem = new RtsScene3DAlertSystem(
+    (kind) => this.audioSystem.playAlert(kind),
+  );
   private inputManager: Input3DManager | null = null;
   private gameConnection!: GameConnection;
   private snapshotIntake!: RtsScene3DSnapshotIntake;
@@ -310,6 +318,9 @@ export class RtsScene3D {
   public onIdleBuildersChange?: (groups: IdleBuilderGroupInfo[]) => void;
   private lastIdleBuildersSignature = '';
   public onMinimapUpdate?: (data: MinimapData) => void;
+  /** Live alert toasts (unit under attack, building complete, ...).
+   *  Published on the economy UI cadence only when the list changed. */
+  public onAlertsChange?: (alerts: GameAlert[]) => void;
   /** Separate per-frame callback for just the camera footprint quad.
    *  Decoupling this from `onMinimapUpdate` keeps the box animation
    *  smooth even when entity rebuilding is throttled to 20 Hz. */
@@ -319,7 +330,10 @@ export class RtsScene3D {
     cameraPitch: number,
     cameraView: MinimapData['cameraView'],
   ) => void;
-  public onGameOverUI?: (winnerId: PlayerId) => void;
+  /** `reason` is absent when the end arrived in a snapshot rather than
+   *  from a simulation this client runs: the snapshot wire carries only the
+   *  winner. */
+  public onGameOverUI?: (winnerId: PlayerId, reason?: GameOverReason) => void;
   public onGameRestart?: () => void;
   public onServerMetaUpdate?: (meta: NetworkServerSnapshotMeta) => void;
   /** Fires when the authoritative game phase changes (battle / paused /
@@ -468,6 +482,7 @@ export class RtsScene3D {
     this.threeApp.setRenderEnabled(enabled);
     if (!enabled) {
       this.audioSystem.clear();
+      this.alertSystem.clear();
       this.renderPhase?.resetEffectAccumulators();
     }
   }
@@ -513,8 +528,8 @@ export class RtsScene3D {
 
     this.snapshotIntake.attach();
 
-    this.gameConnection.onGameOver((winnerId: PlayerId) => {
-      if (!this.isGameOver) this.handleGameOver(winnerId);
+    this.gameConnection.onGameOver((winnerId: PlayerId, reason: GameOverReason) => {
+      if (!this.isGameOver) this.handleGameOver(winnerId, reason);
     });
 
     const renderers = bootstrapRtsScene3DRenderers({
@@ -552,6 +567,7 @@ export class RtsScene3D {
     this.sightBoundaryRenderer = renderers.sightBoundaryRenderer;
     this.radarBoundaryRenderer = renderers.radarBoundaryRenderer;
     this.contactBlipRenderer = renderers.contactBlipRenderer;
+    this.statusEffectRenderer = renderers.statusEffectRenderer;
     this.rendererWarmup = new RtsScene3DRendererWarmup({
       threeApp: this.threeApp,
       snapshotIntake: this.snapshotIntake,
@@ -746,6 +762,7 @@ export class RtsScene3D {
         sightBoundaryRenderer: this.sightBoundaryRenderer,
         radarBoundaryRenderer: this.radarBoundaryRenderer,
         contactBlipRenderer: this.contactBlipRenderer,
+        statusEffectRenderer: this.statusEffectRenderer,
         healthBar3D: this.healthBar3D,
         nameLabel3D: this.nameLabel3D,
         waypoint3D: this.waypoint3D,
@@ -779,6 +796,13 @@ export class RtsScene3D {
     const frameStart = performance.now();
 
     this.frameTelemetry.recordRenderDelta(delta);
+    if (this.clientRenderEnabled) {
+      this.audioSystem.updateListener(
+        this.threeApp.camera,
+        this.threeApp.orbit.target,
+        this.threeApp.orbit.distance,
+      );
+    }
     this.audioSystem.drainReady(
       this.clientRenderEnabled,
       this.handleSimEvent3DCallback,
@@ -903,6 +927,11 @@ export class RtsScene3D {
       this.economyUpdateTimer = 0;
       this.updateEconomyInfo();
       this.updateIdleBuildersInfo();
+      if (!this.isSpectator) {
+        this.audioSystem.watchCommander(this.clientViewState, this.localPlayerId);
+        this.alertSystem.watch(this.clientViewState, this.localPlayerId);
+      }
+      this.alertSystem.publish(this.onAlertsChange);
     }
 
     this.minimapSystem.tick(
@@ -966,6 +995,7 @@ export class RtsScene3D {
     ) {
       this.lastPingPoint = { x: event.pos.x, y: event.pos.y };
     }
+    if (!this.isSpectator) this.alertSystem.noteSimEvent(event, this.localPlayerId);
     if (event.entityId !== null && this.healthBar3D !== null) {
       // Self-destruct countdown blink: armed entities flash their hp
       // bar; disarm or death clears the flag.
@@ -1014,10 +1044,15 @@ export class RtsScene3D {
     );
   }
 
-  private handleGameOver(winnerId: PlayerId): void {
+  private handleGameOver(winnerId: PlayerId, reason?: GameOverReason): void {
     if (this.isGameOver) return;
     this.isGameOver = true;
-    this.onGameOverUI?.(winnerId);
+    if (!this.isSpectator) {
+      this.audioSystem.playGameOverStinger(
+        this.arePlayersAlliedForInput(winnerId, this.localPlayerId) ? 'victory' : 'defeat',
+      );
+    }
+    this.onGameOverUI?.(winnerId, reason);
   }
 
   public updateSelectionInfo(): void {
@@ -1070,9 +1105,19 @@ export class RtsScene3D {
    *  is hovered, the single selected entity. Display-only. */
   public getUnitStatsInfo(): UnitStatsOverlayInfo | null {
     const hovered = this.inputManager?.getHoveredEntity() ?? null;
-    if (hovered !== null) return buildUnitStatsOverlayInfo(hovered, 'hover');
     const selectedUnits = this.selectionSystem.getSelectedUnits();
     const selectedBuildings = this.selectionSystem.getSelectedBuildings();
+    if (hovered !== null) {
+      // Hovering an enemy reads the selection's weapons against its armor.
+      const hoveredOwner = hovered.ownership?.playerId;
+      const hoveredIsEnemy = hoveredOwner !== undefined &&
+        !this.arePlayersAlliedForInput(hoveredOwner, this.localPlayerId);
+      return buildUnitStatsOverlayInfo(
+        hovered,
+        'hover',
+        hoveredIsEnemy ? [...selectedUnits, ...selectedBuildings] : [],
+      );
+    }
     if (selectedUnits.length + selectedBuildings.length !== 1) return null;
     const entity = selectedUnits.length === 1 ? selectedUnits[0] : selectedBuildings[0];
     return buildUnitStatsOverlayInfo(entity, 'selection');
@@ -1277,6 +1322,10 @@ export class RtsScene3D {
     this.inputManager?.selfDestructSelected(queue, queueFront, queueInsertIndex);
   }
 
+  public giveSelectedToPlayer(targetPlayerId: PlayerId): void {
+    this.inputManager?.giveSelectedToPlayer(targetPlayerId);
+  }
+
   public selectOnlyEntityType(entityType: 'unit' | 'building'): void {
     this.inputManager?.selectOnlyEntityType(entityType);
   }
@@ -1417,6 +1466,14 @@ export class RtsScene3D {
     this.inputManager?.upgradeSelectedMetalExtractors();
   }
 
+  public toggleSelectedMorph(): void {
+    this.inputManager?.toggleSelectedMorph();
+  }
+
+  public queueSelectedStockpile(delta: number): void {
+    this.inputManager?.queueSelectedStockpile(delta);
+  }
+
   public togglePingMode(): void {
     this.inputManager?.togglePingMode();
   }
@@ -1613,6 +1670,12 @@ export class RtsScene3D {
     this.cameraControl.centerOn(this.lastPingPoint.x, this.lastPingPoint.y);
   }
 
+  public goToLastAlert(): void {
+    const point = this.alertSystem.getLastAlertPoint();
+    if (point === null) return;
+    this.cameraControl.centerOn(point.x, point.y);
+  }
+
   public flipCameraYaw(): void {
     this.cameraControl.flipYaw();
   }
@@ -1794,6 +1857,7 @@ export class RtsScene3D {
       sightBoundaryRenderer: this.sightBoundaryRenderer,
       radarBoundaryRenderer: this.radarBoundaryRenderer,
       contactBlipRenderer: this.contactBlipRenderer,
+      statusEffectRenderer: this.statusEffectRenderer,
       overlayLineSystem: this.overlayLineSystem,
       cursorGround: this.cursorGround,
       longtaskTracker: this.frameTelemetry,
@@ -0,0 +1,282 @@
+// RtsScene3DAlertSystem — player notifications from sim events and
+// snapshot deltas: units under attack, a strategic missile launch, the
+// commander in danger, a building finished, a factory queue run dry, a
+// full storage.
+//
+// Client-side only. Attack alerts arrive as 'attackAlert' sim events
+// (routed by the server to the victim alone) and launch warnings as
+// 'missileLaunch' events (sent to everyone); everything else is an edge
+// the system detects itself by watching the local player's entities and
+// economy on the economy UI cadence. Accepted alerts become toasts, flash
+// on the minimap, and play a cue; the newest placed one is the
+// jump-to-last-alert camera target.
+
+import type { EconomyState, Entity, EntityId, PlayerId } from '../../sim/types';
+import type { GameAlert, GameAlertKind } from '@/types/ui';
+import type { Vec2 } from '@/types/vec2';
+import type { NetworkServerSnapshotSimEvent } from '../../network/NetworkTypes';
+import { isCommander } from '../../sim/combat/combatUtils';
+import { getBuildingConfig } from '../../sim/buildConfigs';
+import { economyManager } from '../../sim/economy';
+
+/** Per-kind rate limit: another alert of the same kind within
+ *  `cooldownMs` and `radius` world units of the last accepted one is
+ *  dropped. Placeless alerts compare by kind alone. */
+type AlertRule = {
+  cooldownMs: number;
+  radius: number;
+};
+
+const ALERT_RULES: Record<GameAlertKind, AlertRule> = {
+  underAttack: { cooldownMs: 10000, radius: 900 },
+  missileLaunch: { cooldownMs: 0, radius: 0 },
+  commanderDanger: { cooldownMs: 15000, radius: Infinity },
+  buildingComplete: { cooldownMs: 1500, radius: Infinity },
+  factoryIdle: { cooldownMs: 4000, radius: Infinity },
+  energyStorageFull: { cooldownMs: 30000, radius: Infinity },
+  metalStorageFull: { cooldownMs: 30000, radius: Infinity },
+};
+
+/** How long a toast stays up. */
+export const ALERT_TOAST_MS = 6000;
+/** Toasts shown at once; a new alert pushes the oldest out. */
+const MAX_ALERT_TOASTS = 4;
+/** Cues closer together than this play once — three alerts landing on
+ *  the same tick are one beep, not a chord. */
+const ALERT_SOUND_COOLDOWN_MS = 1500;
+
+/** Commander alert below this hp fraction; it re-arms only once the
+ *  commander is back above COMMANDER_REARM_FRACTION. */
+const COMMANDER_DANGER_FRACTION = 0.35;
+const COMMANDER_REARM_FRACTION = 0.5;
+
+/** Storage counts as full at this fraction of capacity and re-arms below
+ *  STORAGE_REARM_FRACTION. */
+const STORAGE_FULL_FRACTION = 0.98;
+const STORAGE_REARM_FRACTION = 0.9;
+
+/** What the watch reads: ClientViewState satisfies it. */
+export type AlertEntitySource = {
+  getUnitsByPlayer(playerId: PlayerId): Entity[];
+  getBuildingsByPlayer(playerId: PlayerId): Entity[];
+};
+
+type AlertSoundHandler = (kind: GameAlertKind) => void;
+type AlertsChangeHandler = ((alerts: GameAlert[]) => void) | undefined;
+
+function buildingName(entity: Entity): string {
+  const id = entity.buildingBlueprintId;
+  if (id === null) return 'Building';
+  return getBuildingConfig(id)?.name ?? 'Building';
+}
+
+function isUnderConstruction(entity: Entity): boolean {
+  return entity.buildable !== null && !entity.buildable.isComplete;
+}
+
+function isFactoryBusy(entity: Entity): boolean {
+  const factory = entity.factory;
+  return factory !== null && (factory.isProducing || factory.productionQueue.length > 0);
+}
+
+export class RtsScene3DAlertSystem {
+  private readonly toasts: GameAlert[] = [];
+  private readonly lastAccepted = new Map<GameAlertKind, GameAlert>();
+  private lastAlertPoint: Vec2 | null = null;
+  private nextAlertId = 1;
+  private lastSoundMs = -Infinity;
+  private dirty = false;
+
+  // Edge state for the watched conditions. The id sets are swapped each
+  // watch so entities that vanished (destroyed, captured) drop out.
+  private incompleteBuildings = new Set<EntityId>();
+  private nextIncompleteBuildings = new Set<EntityId>();
+  private busyFactories = new Set<EntityId>();
+  private nextBusyFactories = new Set<EntityId>();
+  private commanderEndangered = false;
+  private energyFull = false;
+  private metalFull = false;
+  private primed = false;
+
+  constructor(private readonly playSound: AlertSoundHandler) {}
+
+  /** Raise an attack alert for an 'attackAlert' event aimed at the local
+   *  player, and a launch warning for every 'missileLaunch'. Both events
+   *  sit where the danger comes from — the attacker, the silo — which is
+   *  where the player wants the camera. */
+  noteSimEvent(
+    event: NetworkServerSnapshotSimEvent,
+    localPlayerId: PlayerId,
+    nowMs = performance.now(),
+  ): void {
+    if (event.type !== 'attackAlert' && event.type !== 'missileLaunch') return;
+    if (!Number.isFinite(event.pos.x) || !Number.isFinite(event.pos.y)) return;
+    if (event.type === 'missileLaunch') {
+      this.raise('missileLaunch', 'Nuclear launch detected', event.pos.x, event.pos.y, nowMs);
+      return;
+    }
+    if (event.victimPlayerId !== null && event.victimPlayerId !== localPlayerId) return;
+    this.raise('underAttack', 'Units under attack', event.pos.x, event.pos.y, nowMs);
+  }
+
+  /** Detect this watch's edges against the previous one. The first watch
+   *  after a clear only records state, so joining a match in progress
+   *  doesn't replay every finished building. */
+  watch(
+    source: AlertEntitySource,
+    localPlayerId: PlayerId,
+    nowMs = performance.now(),
+    economy: EconomyState | undefined = economyManager.getEconomy(localPlayerId),
+  ): void {
+    const announce = this.primed;
+    this.primed = true;
+    this.watchBuildings(source.getBuildingsByPlayer(localPlayerId), announce, nowMs);
+    this.watchCommander(source.getUnitsByPlayer(localPlayerId), announce, nowMs);
+    if (economy !== undefined) this.watchStorage(economy, announce, nowMs);
+  }
+
+  /** Expire old toasts and publish the list when it changed. */
+  publish(onAlertsChange: AlertsChangeHandler, nowMs = performance.now()): void {
+    while (this.toasts.length > 0 && nowMs - this.toasts[0].atMs >= ALERT_TOAST_MS) {
+      this.toasts.shift();
+      this.dirty = true;
+    }
+    if (!this.dirty) return;
+    this.dirty = false;
+    onAlertsChange?.(this.toasts.slice());
+  }
+
+  getLastAlertPoint(): Vec2 | null {
+    return this.lastAlertPoint;
+  }
+
+  clear(): void {
+    this.dirty = this.toasts.length > 0;
+    this.toasts.length = 0;
+    this.lastAccepted.clear();
+    this.lastAlertPoint = null;
+    this.lastSoundMs = -Infinity;
+    this.incompleteBuildings.clear();
+    this.busyFactories.clear();
+    this.commanderEndangered = false;
+    this.energyFull = false;
+    this.metalFull = false;
+    this.primed = false;
+  }
+
+  private watchBuildings(buildings: readonly Entity[], announce: boolean, nowMs: number): void {
+    const incomplete = this.nextIncompleteBuildings;
+    const busy = this.nextBusyFactories;
+    incomplete.clear();
+    busy.clear();
+    for (let i = 0; i < buildings.length; i++) {
+      const building = buildings[i];
+      if (isUnderConstruction(building)) {
+        incomplete.add(building.id);
+        continue;
+      }
+      if (announce && this.incompleteBuildings.has(building.id)) {
+        this.raise(
+          'buildingComplete',
+          `${buildingName(building)} complete`,
+          building.transform.x,
+          building.transform.y,
+          nowMs,
+        );
+      }
+      if (isFactoryBusy(building)) {
+        busy.add(building.id);
+      } else if (
+        announce &&
+        this.busyFactories.has(building.id) &&
+        building.factory !== null &&
+        !building.factory.paused
+      ) {
+        this.raise(
+          'factoryIdle',
+          `${buildingName(building)} queue finished`,
+          building.transform.x,
+          building.transform.y,
+          nowMs,
+        );
+      }
+    }
+    this.nextIncompleteBuildings = this.incompleteBuildings;
+    this.incompleteBuildings = incomplete;
+    this.nextBusyFactories = this.busyFactories;
+    this.busyFactories = busy;
+  }
+
+  private watchCommander(units: readonly Entity[], announce: boolean, nowMs: number): void {
+    for (let i = 0; i < units.length; i++) {
+      const commander = units[i];
+      const unit = commander.unit;
+      if (!isCommander(commander) || unit === null || unit.maxHp <= 0) continue;
+      const fraction = unit.hp / unit.maxHp;
+      if (this.commanderEndangered) {
+        if (fraction >= COMMANDER_REARM_FRACTION) this.commanderEndangered = false;
+      } else if (fraction < COMMANDER_DANGER_FRACTION) {
+        this.commanderEndangered = true;
+        if (announce) {
+          this.raise(
+            'commanderDanger',
+            'Commander in danger',
+            commander.transform.x,
+            commander.transform.y,
+            nowMs,
+          );
+        }
+      }
+      return;
+    }
+  }
+
+  private watchStorage(economy: EconomyState, announce: boolean, nowMs: number): void {
+    const energy = economy.stockpile;
+    const metal = economy.metal.stockpile;
+    if (this.energyFull) {
+      if (energy.curr < energy.max * STORAGE_REARM_FRACTION) this.energyFull = false;
+    } else if (energy.max > 0 && energy.curr >= energy.max * STORAGE_FULL_FRACTION) {
+      this.energyFull = true;
+      if (announce) this.raise('energyStorageFull', 'Energy storage full', null, null, nowMs);
+    }
+    if (this.metalFull) {
+      if (metal.curr < metal.max * STORAGE_REARM_FRACTION) this.metalFull = false;
+    } else if (metal.max > 0 && metal.curr >= metal.max * STORAGE_FULL_FRACTION) {
+      this.metalFull = true;
+      if (announce) this.raise('metalStorageFull', 'Metal storage full', null, null, nowMs);
+    }
+  }
+
+  private raise(
+    kind: GameAlertKind,
+    message: string,
+    x: number | null,
+    y: number | null,
+    nowMs: number,
+  ): void {
+    const pos = x !== null && y !== null ? { x, y } : null;
+    const previous = this.lastAccepted.get(kind);
+    if (previous !== undefined && nowMs - previous.atMs < ALERT_RULES[kind].cooldownMs) {
+      const radius = ALERT_RULES[kind].radius;
+      if (
+        pos === null ||
+        previous.pos === null ||
+        Math.hypot(pos.x - previous.pos.x, pos.y - previous.pos.y) <= radius
+      ) {
+        return;
+      }
+    }
+
+    const alert: GameAlert = { id: this.nextAlertId++, kind, message, pos, atMs: nowMs };
+    this.lastAccepted.set(kind, alert);
+    this.toasts.push(alert);
+    if (this.toasts.length > MAX_ALERT_TOASTS) this.toasts.shift();
+    if (pos !== null) this.lastAlertPoint = pos;
+    this.dirty = true;
+    if (nowMs - this.lastSoundMs >= ALERT_SOUND_COOLDOWN_MS) {
+      this.lastSoundMs = nowMs;
+      this.playSound(kind);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// Alert system contract — attack alerts for the local player become toasts
+// and the jump target, repeats near the same spot are rate-limited, every
+// missile launch warns whoever fired it,
+// buildings, factories, the commander and storage alert on their edges
+// only, and expired toasts drop out of the published list.
+
+import type { EconomyState, Entity, PlayerId } from '../../sim/types';
+import type { GameAlert, GameAlertKind } from '@/types/ui';
+import type { NetworkServerSnapshotSimEvent } from '../../network/NetworkTypes';
+import { ALERT_TOAST_MS, RtsScene3DAlertSystem } from './RtsScene3DAlertSystem';
+
+function assertContract(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`[alert system contract] ${message}`);
+  }
+}
+
+const LOCAL = 1 as PlayerId;
+const ENEMY = 2 as PlayerId;
+
+function attackAlert(
+  victimPlayerId: PlayerId,
+  x: number,
+  y: number,
+  type: 'attackAlert' | 'missileLaunch' = 'attackAlert',
+): NetworkServerSnapshotSimEvent {
+  return {
+    type,
+    turretBlueprintId: '',
+    sourceType: 'system',
+    sourceKey: type,
+    pos: { x, y, z: 0 },
+    playerId: null,
+    entityId: null,
+    deathContext: null,
+    impactContext: null,
+    waterSplash: null,
+    shieldImpact: null,
+    killerPlayerId: null,
+    victimPlayerId,
+    audioOnly: true,
+  } as unknown as NetworkServerSnapshotSimEvent;
+}
+
+function factoryEntity(id: number): Entity {
+  return {
+    id,
+    type: 'building',
+    transform: { x: 500, y: 700, z: 0 },
+    unit: null,
+    commander: null,
+    buildable: { isComplete: false },
+    buildingBlueprintId: 'towerFabricator',
+    ownership: { playerId: LOCAL },
+    factory: {
+      paused: false,
+      isProducing: false,
+      productionQueue: [],
+    },
+  } as unknown as Entity;
+}
+
+function commanderEntity(hp: number): Entity {
+  return {
+    id: 1,
+    type: 'unit',
+    transform: { x: 100, y: 200, z: 0 },
+    unit: { hp, maxHp: 1000 },
+    commander: {},
+    buildable: null,
+    factory: null,
+    ownership: { playerId: LOCAL },
+  } as unknown as Entity;
+}
+
+function economy(energy: number, metal: number): EconomyState {
+  return {
+    stockpile: { curr: energy, max: 1000 },
+    income: { base: 0, production: 0 },
+    expenditure: 0,
+    metal: {
+      stockpile: { curr: metal, max: 1000 },
+      income: { base: 0, extraction: 0 },
+      expenditure: 0,
+    },
+  };
+}
+
+export function runRtsScene3DAlertSystemContractTest(): void {
+  const sounds: GameAlertKind[] = [];
+  let published: GameAlert[] = [];
+  const system = new RtsScene3DAlertSystem((kind) => sounds.push(kind));
+  const publish = (nowMs: number): void => {
+    system.publish((alerts) => { published = alerts; }, nowMs);
+  };
+
+  // ── attack alerts ─────────────────────────────────────────────────
+  system.noteSimEvent(attackAlert(ENEMY, 10, 10), LOCAL, 0);
+  assertContract(system.getLastAlertPoint() === null, "another player's attack alert is ignored");
+
+  system.noteSimEvent(attackAlert(LOCAL, 1000, 1000), LOCAL, 0);
+  publish(0);
+  assertContract(
+    published.length === 1 && published[0].kind === 'underAttack' && sounds.length === 1,
+    'an attack on the local player raises a toast and a cue',
+  );
+  const point = system.getLastAlertPoint();
+  assertContract(point !== null && point.x === 1000 && point.y === 1000, 'the attack is the jump target');
+
+  system.noteSimEvent(attackAlert(LOCAL, 1100, 1000), LOCAL, 500);
+  publish(500);
+  assertContract(published.length === 1, 'a repeat near the same spot is rate-limited');
+  system.noteSimEvent(attackAlert(LOCAL, 4000, 1000), LOCAL, 600);
+  publish(600);
+  assertContract(published.length === 2, 'an attack somewhere else still alerts');
+  assertContract(sounds.length === 1, 'cues landing together play once');
+  assertContract(system.getLastAlertPoint()?.x === 4000, 'the newest placed alert is the jump target');
+
+  publish(600 + ALERT_TOAST_MS);
+  assertContract(published.length === 0, 'toasts expire');
+
+  // ── launch warnings ───────────────────────────────────────────────
+  system.noteSimEvent(attackAlert(ENEMY, 3000, 2000, 'missileLaunch'), LOCAL, 9000);
+  system.noteSimEvent(attackAlert(LOCAL, 300, 200, 'missileLaunch'), LOCAL, 9000);
+  publish(9000);
+  assertContract(
+    published.length === 2 && published.every((alert) => alert.kind === 'missileLaunch'),
+    'every launch warns, whoever fired it',
+  );
+  assertContract(system.getLastAlertPoint()?.x === 300, 'the launch site is the jump target');
+
+  // ── watched edges ─────────────────────────────────────────────────
+  system.clear();
+  const factory = factoryEntity(7);
+  let commander = commanderEntity(1000);
+  const source = {
+    getUnitsByPlayer: () => [commander],
+    getBuildingsByPlayer: () => [factory],
+  };
+  const kindsAt = (nowMs: number): GameAlertKind[] => {
+    publish(nowMs);
+    return published.map((alert) => alert.kind);
+  };
+
+  system.watch(source, LOCAL, 0, economy(1000, 0));
+  assertContract(kindsAt(0).length === 0, 'the first watch only records state');
+
+  factory.buildable = null;
+  factory.factory!.isProducing = true;
+  factory.factory!.productionQueue = ['unitJackal'];
+  system.watch(source, LOCAL, 10000, economy(500, 0));
+  assertContract(
+    kindsAt(10000).join() === 'buildingComplete',
+    'a building finishing construction alerts once; a storage already full does not',
+  );
+  system.watch(source, LOCAL, 10100, economy(500, 0));
+  assertContract(kindsAt(10100).length === 1, 'a finished building alerts only on the edge');
+
+  factory.factory!.isProducing = false;
+  factory.factory!.productionQueue = [];
+  system.watch(source, LOCAL, 20000, economy(1000, 0));
+  assertContract(
+    kindsAt(20000).join() === 'factoryIdle,energyStorageFull',
+    'an emptied factory queue and a filled storage alert',
+  );
+
+  commander = commanderEntity(300);
+  system.watch(source, LOCAL, 30000, economy(1000, 0));
+  system.watch(source, LOCAL, 30100, economy(1000, 0));
+  const danger = kindsAt(30100).filter((kind) => kind === 'commanderDanger');
+  assertContract(danger.length === 1, 'a commander low on hp alerts once');
+  assertContract(system.getLastAlertPoint()?.x === 100, 'the commander alert is the jump target');
+
+  commander = commanderEntity(400);
+  system.watch(source, LOCAL, 60000, economy(1000, 0));
+  commander = commanderEntity(200);
+  system.watch(source, LOCAL, 60100, economy(1000, 0));
+  assertContract(kindsAt(60100).length === 0, 'the commander alert re-arms only after recovering');
+
+  console.log('[contract] RtsScene3DAlertSystem: attacks, edges, rate limits and expiry hold');
+}
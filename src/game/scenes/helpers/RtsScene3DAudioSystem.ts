@@ -1,6 +1,14 @@
+import type * as THREE from 'three';
+import { AUDIO } from '@/audioConfig';
 import { getAudioSmoothing } from '@/clientBarConfig';
+import type { MusicOutcome } from '@/types/audio';
+import type { GameAlertKind } from '@/types/ui';
 import { audioManager } from '../../audio/AudioManager';
+import { musicPlayer } from '../../audio/MusicPlayer';
+import type { ClientViewState } from '../../network/ClientViewState';
 import type { NetworkServerSnapshotSimEvent } from '../../network/NetworkTypes';
+import { isCommander } from '../../sim/combat/combatUtils';
+import type { EntityId, PlayerId } from '../../sim/types';
 import { AudioEventScheduler } from './AudioEventScheduler';
 import type { RtsScene3DSnapshotAudioOptions } from './RtsScene3DSnapshotIntake';
 
@@ -8,6 +16,10 @@ type RtsScene3DAudioEventHandler = (
   event: NetworkServerSnapshotSimEvent,
 ) => void;
 
+/** Commander lookups that miss (dead, not spawned yet) rescan the unit list
+ *  only every this many watch calls. */
+const COMMANDER_RESCAN_INTERVAL = 10;
+
 export class RtsScene3DAudioSystem {
   private readonly scheduler = new AudioEventScheduler();
   private readonly snapshotOptions: RtsScene3DSnapshotAudioOptions = {
@@ -15,6 +27,18 @@ export class RtsScene3DAudioSystem {
     smoothingEnabled: false,
     play: () => {},
   };
+  private commanderId: EntityId | null = null;
+  private commanderHp = 0;
+  private commanderRescanCountdown = 0;
+
+  /** Place this frame's sounds relative to the camera and its orbit focus. */
+  updateListener(
+    camera: THREE.PerspectiveCamera,
+    focus: THREE.Vector3,
+    zoomDistance: number,
+  ): void {
+    audioManager.updateListener(camera, focus, zoomDistance);
+  }
 
   drainReady(
     enabled: boolean,
@@ -35,8 +59,49 @@ export class RtsScene3DAudioSystem {
     return this.snapshotOptions;
   }
 
+  /** Tell the music director when the local commander is under threat:
+   *  it lost hp since the last watch, or is below the threat hp fraction. */
+  watchCommander(view: ClientViewState, localPlayerId: PlayerId): void {
+    let commander = this.commanderId !== null ? view.getEntity(this.commanderId) : undefined;
+    if (commander === undefined || commander.ownership?.playerId !== localPlayerId) {
+      this.commanderId = null;
+      if (this.commanderRescanCountdown-- > 0) return;
+      this.commanderRescanCountdown = COMMANDER_RESCAN_INTERVAL;
+      const units = view.getUnits();
+      for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+        if (isCommander(unit) && unit.ownership?.playerId === localPlayerId) {
+          commander = unit;
+          break;
+        }
+      }
+      if (commander === undefined || commander.unit === null) return;
+      this.commanderId = commander.id;
+      this.commanderHp = commander.unit.hp;
+    }
+    const unit = commander.unit;
+    if (unit === null) return;
+    const threatened =
+      unit.hp < this.commanderHp ||
+      unit.hp < unit.maxHp * AUDIO.musicDirector.commanderThreat.hpFraction;
+    this.commanderHp = unit.hp;
+    if (threatened) musicPlayer.noteCommanderThreat();
+  }
+
+  playAlert(kind: GameAlertKind): void {
+    audioManager.playAlert(kind);
+  }
+
+  playGameOverStinger(outcome: MusicOutcome): void {
+    musicPlayer.playStinger(outcome);
+  }
+
   clear(): void {
     this.scheduler.clear();
     audioManager.stopAllContinuousSoundsNow();
+    audioManager.resetListener();
+    musicPlayer.resetDirector();
+    this.commanderId = null;
+    this.commanderRescanCountdown = 0;
   }
 }
@@ -18,6 +18,7 @@ import type { CameraViewBasis, SprayTarget } from '@/types/ui';
 import type { ClientViewState } from '../../network/ClientViewState';
 import type { ClientProjectileRenderLists } from '../../network/ClientProjectileStore';
 import type { ContactBlipRenderer3D } from '../../render3d/ContactBlipRenderer3D';
+import type { StatusEffectRenderer3D } from '../../render3d/StatusEffectRenderer3D';
 import { featureVisibleAtRung } from '../../render3d/EntityDetailLevel3D';
 import type { Entity, EntityId, PlayerId } from '../../sim/types';
 import type { ThreeApp } from '../../render3d/ThreeApp';
@@ -120,6 +121,7 @@ type RtsScene3DRenderPhaseResources = {
   sightBoundaryRenderer: SightBoundaryRenderer3D;
   radarBoundaryRenderer: SightBoundaryRenderer3D;
   contactBlipRenderer: ContactBlipRenderer3D;
+  statusEffectRenderer: StatusEffectRenderer3D;
   healthBar3D: HealthBar3D | null;
   nameLabel3D: NameLabel3D | null;
   waypoint3D: Waypoint3D | null;
@@ -395,6 +397,7 @@ export class RtsScene3DRenderPhase {
       sightBoundaryRenderer,
       radarBoundaryRenderer,
       contactBlipRenderer,
+      statusEffectRenderer,
       healthBar3D,
       nameLabel3D,
       waypoint3D,
@@ -501,6 +504,11 @@ export class RtsScene3DRenderPhase {
       this.clientViewState.getMinimapContactSampling(performance.now()),
       this.renderScope,
     );
+    statusEffectRenderer.update(
+      this.clientViewState.getUnits(),
+      performance.now(),
+      this.renderScope,
+    );
     const inputManager = this.getInputManager();
     // Resolved once per frame and handed to BOTH force-material renderers.
     const shieldVisibilityTeamMask = this.resolveShieldVisibilityTeamMask();
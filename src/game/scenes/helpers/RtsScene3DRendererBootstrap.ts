@@ -22,6 +22,7 @@ import { ContactBlipRenderer3D } from '../../render3d/ContactBlipRenderer3D';
 import { SightBoundaryRenderer3D } from '../../render3d/SightBoundaryRenderer3D';
 import { OverlayLineSystem } from '../../render3d/OverlayLineSystem';
 import { SmokeTrail3D } from '../../render3d/SmokeTrail3D';
+import { StatusEffectRenderer3D } from '../../render3d/StatusEffectRenderer3D';
 import { SprayRenderer3D } from '../../render3d/SprayRenderer3D';
 import { TerrainTileRenderer3D } from '../../render3d/TerrainTileRenderer3D';
 import type { ThreeApp } from '../../render3d/ThreeApp';
@@ -81,6 +82,7 @@ type RtsScene3DRendererBootstrapResult = {
   sightBoundaryRenderer: SightBoundaryRenderer3D;
   radarBoundaryRenderer: SightBoundaryRenderer3D;
   contactBlipRenderer: ContactBlipRenderer3D;
+  statusEffectRenderer: StatusEffectRenderer3D;
 };
 
 export function bootstrapRtsScene3DRenderers(
@@ -276,6 +278,10 @@ export function bootstrapRtsScene3DRenderers(
     threeApp.world,
     threeApp.renderer.domElement,
   );
+  const statusEffectRenderer = new StatusEffectRenderer3D(
+    threeApp.world,
+    threeApp.renderer.domElement,
+  );
 
   return {
     entityRenderer,
@@ -302,5 +308,6 @@ export function bootstrapRtsScene3DRenderers(
     sightBoundaryRenderer,
     radarBoundaryRenderer,
     contactBlipRenderer,
+    statusEffectRenderer,
   };
 }
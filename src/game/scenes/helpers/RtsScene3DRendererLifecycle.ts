@@ -37,6 +37,7 @@ type RtsScene3DRendererResources = {
   sightBoundaryRenderer?: Destroyable | null;
   radarBoundaryRenderer?: Destroyable | null;
   contactBlipRenderer?: Destroyable | null;
+  statusEffectRenderer?: Destroyable | null;
   overlayLineSystem?: Disposable | null;
   cursorGround?: Disposable | null;
   longtaskTracker: Destroyable;
@@ -75,6 +76,7 @@ export function teardownRtsScene3DRenderers(
   resources.sightBoundaryRenderer?.destroy();
   resources.radarBoundaryRenderer?.destroy();
   resources.contactBlipRenderer?.destroy();
+  resources.statusEffectRenderer?.destroy();
   // overlayLineSystem owns the single shared ScreenSpaceLineMaterial (GL
   // program); cursorGround retains a terrain mesh reference. Both are
   // per-scene and must be released on teardown — the rematch path reuses
@@ -1,18 +1,34 @@
 import { AUDIO_ENABLED } from '@/config';
 import { isShotBlueprintId, isTurretBlueprintId, isUnitBlueprintId } from '@/types/blueprintIds';
 import { audioManager } from '../../audio/AudioManager';
+import { musicPlayer } from '../../audio/MusicPlayer';
+import type { MusicCombatKind } from '../../audio/musicDirector';
+import type { SpatialAudioSource } from '../../audio/spatialAudio';
 import type { NetworkServerSnapshotSimEvent } from '../../network/NetworkTypes';
 
-/** Play the audio side of a SimEvent ahead of any visual gating. */
+const eventSource: SpatialAudioSource = { x: 0, y: 0, z: 0, fogHidden: false };
+
+/** Play the audio side of a SimEvent ahead of any visual gating. Every
+ *  sound is placed at the event's position relative to the camera;
+ *  audio-only events (fog-hidden, forwarded for earshot) play muffled.
+ *  Combat events also feed the music director, weighted by how close
+ *  they play. */
 export function playSimEventAudio3D(event: NetworkServerSnapshotSimEvent): void {
   if (!AUDIO_ENABLED) return;
+  const source = eventSource;
+  source.x = event.pos.x;
+  source.y = event.pos.y;
+  source.z = event.pos.z;
+  source.fogHidden = event.audioOnly === true;
+  const combatKind = musicCombatKind(event);
+  if (combatKind !== null) musicPlayer.noteCombat(combatKind, audioManager.sourceGain(source));
   switch (event.type) {
     case 'fire':
       // turretBlueprintId on a 'fire' event is the firing turret blueprint id.
       // Narrow before passing so we don't accidentally feed a shot
       // or unit blueprint id when the event was authored unexpectedly.
       if (event.turretBlueprintId && isTurretBlueprintId(event.turretBlueprintId)) {
-        audioManager.playWeaponFire(event.turretBlueprintId);
+        audioManager.playWeaponFire(event.turretBlueprintId, 1, 1, source);
       }
       return;
     case 'hit':
@@ -22,13 +38,16 @@ export function playSimEventAudio3D(event: NetworkServerSnapshotSimEvent): void
       // blueprintId helper distinguishes shot vs turret so we route
       // it through the right AudioManager method.
       if (event.turretBlueprintId) {
-        if (isShotBlueprintId(event.turretBlueprintId)) audioManager.playWeaponHit(event.turretBlueprintId);
-        else if (isTurretBlueprintId(event.turretBlueprintId)) audioManager.playWeaponFire(event.turretBlueprintId);
+        if (isShotBlueprintId(event.turretBlueprintId)) {
+          audioManager.playWeaponHit(event.turretBlueprintId, 1, source);
+        } else if (isTurretBlueprintId(event.turretBlueprintId)) {
+          audioManager.playWeaponFire(event.turretBlueprintId, 1, 1, source);
+        }
       }
       return;
     case 'death': {
       const unitBlueprintId = event.deathContext?.unitBlueprintId;
-      if (unitBlueprintId && isUnitBlueprintId(unitBlueprintId)) audioManager.playUnitDeath(unitBlueprintId);
+      if (unitBlueprintId && isUnitBlueprintId(unitBlueprintId)) audioManager.playUnitDeath(unitBlueprintId, 1, source);
       return;
     }
     case 'laserStart':
@@ -38,6 +57,9 @@ export function playSimEventAudio3D(event: NetworkServerSnapshotSimEvent): void
           event.turretBlueprintId && isTurretBlueprintId(event.turretBlueprintId)
             ? event.turretBlueprintId
             : undefined,
+          1,
+          1,
+          source,
         );
       }
       return;
@@ -45,7 +67,7 @@ export function playSimEventAudio3D(event: NetworkServerSnapshotSimEvent): void
       if (event.entityId !== null) audioManager.stopLaserSound(event.entityId);
       return;
     case 'shieldStart':
-      if (event.entityId !== null) audioManager.startShieldSound(event.entityId);
+      if (event.entityId !== null) audioManager.startShieldSound(event.entityId, 1, 1, 1, source);
       return;
     case 'shieldStop':
       if (event.entityId !== null) audioManager.stopShieldSound(event.entityId);
@@ -54,3 +76,13 @@ export function playSimEventAudio3D(event: NetworkServerSnapshotSimEvent): void
     // wired yet; the visual is the whole UX. Drop through.
   }
 }
+
+function musicCombatKind(event: NetworkServerSnapshotSimEvent): MusicCombatKind | null {
+  switch (event.type) {
+    case 'fire': return 'fire';
+    case 'hit':
+    case 'projectileExpire': return 'hit';
+    case 'death': return 'death';
+    default: return null;
+  }
+}
@@ -43,6 +43,7 @@ const EFFECT_RADIUS_FALLBACKS = {
   deathExplosionMin: 6,
   hitImpact: 2,
   projectileExpireImpact: 8,
+  missileIntercept: 40,
 } as const;
 
 /** The damage a shot's detonation deals, from its own blueprint. hit /
@@ -72,10 +73,12 @@ export function dispatchSimEvent3DVisual(
     event.type === 'ping' ||
     event.type === 'attackAlert' ||
     event.type === 'selfDestructArmed' ||
-    event.type === 'selfDestructDisarmed'
+    event.type === 'selfDestructDisarmed' ||
+    event.type === 'missileLaunch'
   ) {
     // Marker/state events: handled by the scene (ping marker,
-    // self-destruct blink), no world-space effect to spawn here.
+    // self-destruct blink, launch warning), no world-space effect to
+    // spawn here.
     return;
   }
 
@@ -182,6 +185,31 @@ export function dispatchSimEvent3DVisual(
       ),
       seedSource: event.entityId ?? undefined,
     });
+  } else if (event.type === 'missileIntercept') {
+    // The interceptor's airburst, high over whatever the missile was
+    // bound for.
+    if (context.isPositionLowLod(
+      event.pos.x,
+      event.pos.y,
+      event.pos.z,
+    )) return;
+    context.beamRenderer.spawnDamageImpact({
+      x: event.pos.x,
+      y: event.pos.y,
+      z: event.pos.z,
+      damageRadius: EFFECT_RADIUS_FALLBACKS.missileIntercept,
+      incomingX: 0,
+      incomingY: 0,
+      incomingZ: 0,
+      detailScale: explosionSpawnScaleForDetail(
+        context.positionVisualDetailLevel(
+          event.pos.x,
+          event.pos.y,
+          event.pos.z,
+        ),
+      ),
+      seedSource: event.entityId ?? undefined,
+    });
   } else if (event.type === 'shieldImpact') {
     const ctx = event.shieldImpact;
     if (ctx) {
@@ -4,6 +4,7 @@ import { COST_MULTIPLIER } from '../../../config';
 import { assignCameraViewBasis, cloneCameraViewBasis } from '../../cameraViewBasis';
 import { isAttackEmitter, isAttackEmitterConfig } from '../../sim/emitterKinds';
 import type {
+  BuildingBlueprintId,
   CombatFireState,
   Entity,
   EntityId,
@@ -24,6 +25,11 @@ import {
   getUnitLocomotion,
 } from '../../sim/blueprints';
 import { getBuildingConfig } from '../../sim/buildConfigs';
+import { getArmorMultiplier, getEntityArmorClass } from '../../sim/damage/armor';
+import type { ArmorClass } from '@/types/blueprints';
+import type { ArmorMultiplierTable } from '@/types/shotTypes';
+import { getMorphConfig } from '../../sim/morph';
+import { getStockpileConfig, hasStrategicMissileLauncher } from '../../sim/strategicWeapons';
 import {
   getBuildingDisplayShortName,
   getBuildingDisplayTinyName,
@@ -50,6 +56,13 @@ import {
   selectActiveBuilderTypeInfo,
 } from '../../sim/hostCapabilities';
 import { getFactoryAllowedUnitBlueprintIds } from '../../sim/factoryProductionRoster';
+import {
+  describeMissingPrerequisites,
+  getBuildingPrerequisites,
+  getMissingPrerequisites,
+  getUnitPrerequisites,
+  techHoldingsFromBuildings,
+} from '../../sim/techTree';
 import { isReclaimableTarget } from '../../sim/reclaim';
 import {
   canBuilderUpgradeMetalExtractor,
@@ -575,6 +588,11 @@ function buildSelectedEntityStats(entity: Entity): SelectedEntityStat[] {
     if (overlay.mass !== null) push('Mass', round(overlay.mass));
     if (overlay.locomotion !== null) push('Move', overlay.locomotion.type);
   }
+  if (overlay.armorClass !== null) push('Armor', overlay.armorClass);
+  const veterancy = entity.veterancy;
+  if (veterancy !== null) {
+    push('Experience', `${veterancy.experience.toFixed(1)} (rank ${veterancy.rank})`);
+  }
   const weapons = overlay.weapons ?? [];
   if (weapons.length > 0) {
     const primary = weapons[0];
@@ -759,6 +777,40 @@ const DEFAULT_CAMERA_VIEW_BASIS: CameraViewBasis = {
   towardCamera: { x: 0, y: -Math.SQRT1_2, z: Math.SQRT1_2 },
 };
 
+/** Why each offered build or factory entry is still locked for the
+ *  selected side. Holdings count the buildings of the player and its
+ *  allies, the same team-wide view the server checks orders against. */
+function buildLockedBlueprintReasons(
+  entitySource: UIEntitySource,
+  selectedPlayerId: PlayerId | undefined,
+  allowedBuildBlueprintIds: readonly BuildingBlueprintId[],
+  factoryAllowedUnitBlueprintIds: readonly string[],
+): Record<string, string> {
+  const reasons: Record<string, string> = {};
+  if (selectedPlayerId === undefined) return reasons;
+  if (allowedBuildBlueprintIds.length === 0 && factoryAllowedUnitBlueprintIds.length === 0) {
+    return reasons;
+  }
+  const arePlayersAllied = entitySource.arePlayersAllied;
+  const teamBuildings = arePlayersAllied === undefined
+    ? entitySource.getBuildingsByPlayer(selectedPlayerId)
+    : entitySource.getBuildings().filter((building) => {
+        const ownerId = building.ownership?.playerId;
+        return ownerId !== undefined &&
+          (ownerId === selectedPlayerId || arePlayersAllied(ownerId, selectedPlayerId));
+      });
+  const holdings = techHoldingsFromBuildings(teamBuildings);
+  for (const buildingBlueprintId of allowedBuildBlueprintIds) {
+    const missing = getMissingPrerequisites(getBuildingPrerequisites(buildingBlueprintId), holdings);
+    if (missing !== null) reasons[buildingBlueprintId] = describeMissingPrerequisites(missing);
+  }
+  for (const unitBlueprintId of factoryAllowedUnitBlueprintIds) {
+    const missing = getMissingPrerequisites(getUnitPrerequisites(unitBlueprintId), holdings);
+    if (missing !== null) reasons[unitBlueprintId] = describeMissingPrerequisites(missing);
+  }
+  return reasons;
+}
+
 // Build selection info from entity source and input state
 export function buildSelectionInfo(
   entitySource: UIEntitySource,
@@ -1023,6 +1075,52 @@ export function buildSelectionInfo(
     }
   }
 
+  // Morph: offered when any selected entity's blueprint declares one; the
+  // panel shows the mean progress of whichever are already under way.
+  let morphTargetLabel: string | null = null;
+  let morphingCount = 0;
+  let morphProgressSum = 0;
+  for (let i = 0; i < selectedUnits.length + selectedBuildings.length; i++) {
+    const entity = i < selectedUnits.length ? selectedUnits[i] : selectedBuildings[i - selectedUnits.length];
+    const morph = getMorphConfig(entity);
+    if (morph === null) continue;
+    if (morphTargetLabel === null) {
+      morphTargetLabel = entity.unit !== null
+        ? unitLabel(morph.into)
+        : getBuildingConfig(morph.into as BuildingBlueprintId).name;
+    }
+    if (entity.morph !== null) {
+      morphingCount++;
+      morphProgressSum += Math.min(1, entity.morph.progressMs / morph.durationMs);
+    }
+  }
+
+  // Stockpile: the magazines of every selected silo or anti-missile
+  // defense add up, so the panel shows one meter for the group.
+  let stockpileHostCount = 0;
+  let stockpileStock = 0;
+  let stockpileQueued = 0;
+  let stockpileMax = 0;
+  let stockpileBuildingCount = 0;
+  let stockpileProgressSum = 0;
+  let strategicMissileControlCount = 0;
+  for (let i = 0; i < selectedBuildings.length; i++) {
+    const entity = selectedBuildings[i];
+    const config = getStockpileConfig(entity);
+    if (config === null) continue;
+    stockpileHostCount++;
+    stockpileMax += config.maxStock;
+    if (hasStrategicMissileLauncher(entity)) strategicMissileControlCount++;
+    const stockpile = entity.stockpile;
+    if (stockpile === null) continue;
+    stockpileStock += stockpile.stock;
+    stockpileQueued += stockpile.queued;
+    if (stockpile.queued > 0 && stockpile.stock < config.maxStock) {
+      stockpileBuildingCount++;
+      stockpileProgressSum += Math.min(1, stockpile.progressMs / config.durationMs);
+    }
+  }
+
   // Get factory production selection if a factory is selected.
   let factorySelectedUnit: { unitBlueprintId: string; label: string } | null | undefined;
   let factoryProgress: number | undefined;
@@ -1081,6 +1179,7 @@ export function buildSelectionInfo(
     }
     factoryGuardTargetId = f.guardTargetId;
   }
+  const factoryAllowedUnitBlueprintIds = getFactoryAllowedUnitBlueprintIds(factory);
   const factoryHostKind: SelectionInfo['factoryHostKind'] = factory === undefined
     ? null
     : factory.unit !== null
@@ -1103,6 +1202,14 @@ export function buildSelectionInfo(
     allowedBuildBlueprintIds,
     canUpgradeMetalExtractors,
     hasUpgradeableMetalExtractor,
+    hasMorphControl: morphTargetLabel !== null,
+    morphTargetLabel,
+    morphProgress: morphingCount > 0 ? morphProgressSum / morphingCount : null,
+    hasStockpileControl: stockpileHostCount > 0,
+    stockpileStock,
+    stockpileQueued,
+    stockpileMax,
+    stockpileProgress: stockpileBuildingCount > 0 ? stockpileProgressSum / stockpileBuildingCount : null,
     hasDGun: dgunner !== undefined,
     hasBarAttackControl: barAttackControlCount > 0,
     hasBarCaptureControl: barCaptureControlCount > 0,
@@ -1154,6 +1261,7 @@ export function buildSelectionInfo(
     hasReclaimableSelection: activeBuilderType !== null && hasReclaimableSelection,
     hasTowerTargetControl: targetControlCount > 0,
     hasManualLaunchControl: manualLaunchControlCount > 0,
+    hasStrategicMissileControl: strategicMissileControlCount > 0,
     hasTowerTargetActive: hasPriorityTarget,
     isTowerTargetMode: inputState?.isTowerTargetMode ?? false,
     isTowerTargetNoGroundMode: inputState?.isTowerTargetNoGroundMode ?? false,
@@ -1181,7 +1289,13 @@ export function buildSelectionInfo(
     hasFactory: factory !== undefined,
     factoryHostKind,
     factoryDisplayName,
-    factoryAllowedUnitBlueprintIds: getFactoryAllowedUnitBlueprintIds(factory),
+    factoryAllowedUnitBlueprintIds,
+    lockedBlueprintReasons: buildLockedBlueprintReasons(
+      entitySource,
+      selectedPlayerId,
+      allowedBuildBlueprintIds,
+      factoryAllowedUnitBlueprintIds,
+    ),
     factoryId: factory?.id,
     factoryPresetOverlayVisible: inputState?.factoryPresetOverlayVisible ?? false,
     commanderId: commander?.id,
@@ -1348,6 +1462,27 @@ export type UnitStatsWeaponInfo = {
   volleyDamage: number | null;
   /** Derived damage/second where the blueprint data allows it. */
   dps: number | null;
+  /** The shot/ray's per-armor-class damage multipliers (null = 1x). */
+  armorMultipliers: ArmorMultiplierTable | null;
+};
+
+export type UnitStatsVersusWeaponInfo = {
+  turretBlueprintId: string;
+  name: string;
+  /** Mounts across the whole selection. */
+  count: number;
+  armorMultiplier: number;
+  /** All mounts' dps against the target, after its armor. */
+  effectiveDps: number;
+};
+
+/** What the current selection does to the hovered enemy once its armor
+ *  class is read against every weapon's multiplier table. */
+export type UnitStatsVersusInfo = {
+  attackerLabel: string;
+  armorClass: ArmorClass | null;
+  weapons: UnitStatsVersusWeaponInfo[];
+  totalDps: number;
 };
 
 type UnitStatsFactoryInfo = {
@@ -1375,8 +1510,10 @@ export type UnitStatsOverlayInfo = {
     airMaxPropulsiveForce: number;
     waterMaxPropulsiveForce: number;
   } | null;
+  armorClass: ArmorClass | null;
   weapons: UnitStatsWeaponInfo[];
   factory: UnitStatsFactoryInfo | null;
+  versus: UnitStatsVersusInfo | null;
 };
 
 function buildUnitStatsWeaponInfo(config: TurretConfig): UnitStatsWeaponInfo {
@@ -1386,6 +1523,7 @@ function buildUnitStatsWeaponInfo(config: TurretConfig): UnitStatsWeaponInfo {
   let cooldownMs: number | null = config.cooldown?.duration ?? null;
   let volleyDamage: number | null = null;
   let dps: number | null = null;
+  let armorMultipliers: ArmorMultiplierTable | null = null;
   try {
     const turretBp = getTurretBlueprint(config.turretBlueprintId);
     name = turretBp.name;
@@ -1400,12 +1538,14 @@ function buildUnitStatsWeaponInfo(config: TurretConfig): UnitStatsWeaponInfo {
       const shotBp = getShotBlueprint(emissionBlueprintId);
       const shotsPerVolley = (config.spread?.pelletCount ?? 1) * (config.burst?.count ?? 1);
       volleyDamage = shotBp.base.deathExplosion.damage * shotsPerVolley;
+      armorMultipliers = shotBp.armorMultipliers;
       if (cooldownMs !== null && cooldownMs > 0) {
         dps = volleyDamage / (cooldownMs / 1000);
       }
     } else if (turretBp.emissionKind === 'ray' && emissionBlueprintId !== null) {
       const rayBp = getRayBlueprint(emissionBlueprintId);
       emission = rayBp.type;
+      armorMultipliers = rayBp.armorMultipliers;
       if (rayBp.type === 'laser') {
         volleyDamage = rayBp.dps * (rayBp.duration / 1000);
         dps = cooldownMs !== null && cooldownMs > 0
@@ -1429,6 +1569,7 @@ function buildUnitStatsWeaponInfo(config: TurretConfig): UnitStatsWeaponInfo {
     cooldownMs,
     volleyDamage,
     dps,
+    armorMultipliers,
   };
 }
 
@@ -1463,14 +1604,75 @@ function buildUnitStatsFactoryInfo(entity: Entity): UnitStatsFactoryInfo | null
   };
 }
 
+/** Every attack weapon in `attackers`, grouped by turret, read against the
+ *  target's armor class. Weapons with no derivable dps are left out. */
+function buildUnitStatsVersusInfo(
+  attackers: readonly Entity[],
+  armorClass: ArmorClass | null,
+): UnitStatsVersusInfo | null {
+  if (attackers.length === 0) return null;
+  const byBlueprintId = new Map<string, UnitStatsVersusWeaponInfo>();
+  let totalDps = 0;
+  for (const attacker of attackers) {
+    for (const weapon of buildUnitStatsWeapons(attacker)) {
+      if (weapon.dps === null) continue;
+      const armorMultiplier = getArmorMultiplier(weapon.armorMultipliers, armorClass);
+      const effectiveDps = weapon.dps * weapon.count * armorMultiplier;
+      totalDps += effectiveDps;
+      const existing = byBlueprintId.get(weapon.turretBlueprintId);
+      if (existing !== undefined) {
+        existing.count += weapon.count;
+        existing.effectiveDps += effectiveDps;
+        continue;
+      }
+      byBlueprintId.set(weapon.turretBlueprintId, {
+        turretBlueprintId: weapon.turretBlueprintId,
+        name: weapon.name,
+        count: weapon.count,
+        armorMultiplier,
+        effectiveDps,
+      });
+    }
+  }
+  if (byBlueprintId.size === 0) return null;
+  let attackerLabel = `${attackers.length} selected`;
+  if (attackers.length === 1) {
+    const attacker = attackers[0];
+    if (attacker.unit !== null) attackerLabel = unitLabel(attacker.unit.unitBlueprintId);
+    else if (attacker.buildingBlueprintId !== null) {
+      attackerLabel = getBuildingDisplayShortName(attacker.buildingBlueprintId);
+    }
+  }
+  return {
+    attackerLabel,
+    armorClass,
+    weapons: [...byBlueprintId.values()],
+    totalDps,
+  };
+}
+
+function armorClassOrNull(entity: Entity): ArmorClass | null {
+  try {
+    return getEntityArmorClass(entity);
+  } catch {
+    // Unknown blueprint: no class to read multipliers against.
+    return null;
+  }
+}
+
 /** Detailed display-only stats for the hold-I overlay. All numbers come
  *  from blueprints plus the live hp/production fields already present on
- *  the ClientViewState entity — no sim access. */
+ *  the ClientViewState entity — no sim access. `versusAttackers` is the
+ *  selection to read effective dps for when the entity is a hovered
+ *  enemy. */
 export function buildUnitStatsOverlayInfo(
   entity: Entity,
   source: 'hover' | 'selection',
+  versusAttackers: readonly Entity[] = [],
 ): UnitStatsOverlayInfo | null {
   const hp = hpPair(entity);
+  const armorClass = armorClassOrNull(entity);
+  const versus = buildUnitStatsVersusInfo(versusAttackers, armorClass);
   if (entity.unit !== null) {
     const unitBlueprintId = entity.unit.unitBlueprintId;
     let name = unitBlueprintId;
@@ -1506,8 +1708,10 @@ export function buildUnitStatsOverlayInfo(
       costEnergy,
       costMetal,
       locomotion,
+      armorClass,
       weapons: buildUnitStatsWeapons(entity),
       factory: buildUnitStatsFactoryInfo(entity),
+      versus,
     };
   }
   if (entity.building !== null && entity.buildingBlueprintId !== null) {
@@ -1535,8 +1739,10 @@ export function buildUnitStatsOverlayInfo(
       costEnergy,
       costMetal,
       locomotion: null,
+      armorClass,
       weapons: buildUnitStatsWeapons(entity),
       factory: buildUnitStatsFactoryInfo(entity),
+      versus,
     };
   }
   return null;
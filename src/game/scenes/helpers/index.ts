@@ -9,6 +9,7 @@ export {
   type IdleBuilderGroupInfo,
   type UnitStatsOverlayInfo,
   type UnitStatsWeaponInfo,
+  type UnitStatsVersusInfo,
 
   buildEconomyInfo,
   buildIdleBuilderGroups,
@@ -0,0 +1,273 @@
+import type { BattleHandoff, LobbySettings } from '@/types/network';
+import type { PlayerId } from '../sim/types';
+import type { DataConnection } from 'peerjs';
+import {
+  buildRealBattleLobbySettingsFromTerrain,
+  createRealBattleBackend,
+  loadAndApplyRealBattleTerrain,
+  type RealBattleBackendRuntime,
+  type RealBattleStartupTerrain,
+} from '../../components/gameCanvasRealBattleStartup';
+import { NetworkManager } from '../network/NetworkManager';
+import { HOST_MEMBER_ID } from '../network/NetworkLobbyMembers';
+import { DEDICATED_SERVER_DEFAULT_ROOM_CODE } from '../network/WebSocketDataConnection';
+import { normalizeSpectatorDelaySeconds } from '../network/spectatorDelay';
+import { normalizeVictoryCondition, type VictoryCondition } from '@/types/victoryCondition';
+
+/**
+ * A match host with no browser behind it.
+ *
+ * Everything a browser host does between "players arrive" and "the match
+ * ends" — admission, seating, the lockstep coordinator, history for late
+ * joiners, the spectator delay — is the ordinary NetworkManager and the
+ * ordinary real-battle backend, run in Node by scripts/dedicatedServer.mjs.
+ * What this class adds is the part a person at the lobby screen would do:
+ * seat the bots, seat arrivals until the match is full, press Start, and go
+ * again when it ends.
+ *
+ * The server holds no seat. Its checksums are filed under the watcher
+ * sentinel, which makes it the referee every seated player is compared
+ * against rather than one more player in the comparison.
+ */
+
+export type DedicatedMatchServerOptions = {
+  readonly roomCode?: string;
+  /** Shown to everybody in the lobby as the host's name. */
+  readonly serverName?: string;
+  /** Seats filled by joiners, in the order they arrive. The match starts
+   *  once all of them are taken; zero starts a bots-only match at once. */
+  readonly humanSeats: number;
+  /** Seats the deterministic sim drives. */
+  readonly botSeats: number;
+  readonly allyTeamCount?: number;
+  readonly spectatorDelaySeconds?: number;
+  /** How each match is won; unset fields take the lobby defaults. */
+  readonly victoryCondition?: Partial<VictoryCondition>;
+  /** Matches to play before stopping; zero plays forever. */
+  readonly matchLimit?: number;
+  readonly log?: (line: string) => void;
+  /** Every match this server was asked to play has been played — or one
+   *  could not start, which would fail the same way on every retry. */
+  readonly onFinished?: (error?: Error) => void;
+};
+
+export type DedicatedMatchServerStatus = {
+  readonly roomCode: string;
+  readonly phase: 'lobby' | 'starting' | 'playing' | 'stopped';
+  readonly matchesPlayed: number;
+  readonly members: number;
+  readonly seatedHumans: number;
+  readonly botSeats: number;
+  readonly frame: number | null;
+};
+
+export class DedicatedMatchServer {
+  private readonly network = new NetworkManager();
+  private readonly options: DedicatedMatchServerOptions;
+  private readonly log: (line: string) => void;
+  private terrain: RealBattleStartupTerrain | null = null;
+  private settings: LobbySettings | null = null;
+  private backend: RealBattleBackendRuntime | null = null;
+  private phase: DedicatedMatchServerStatus['phase'] = 'stopped';
+  private matchesPlayed = 0;
+  private lobbyCheckTimer: ReturnType<typeof setTimeout> | null = null;
+  private markSeatedPlayerSilent: ((playerId: PlayerId) => void) | null = null;
+  private markSeatedPlayerReturned: ((playerId: PlayerId) => void) | null = null;
+
+  constructor(options: DedicatedMatchServerOptions) {
+    this.options = options;
+    this.log = options.log ?? ((line) => console.log(line));
+  }
+
+  /** Open the lobby. Returns the room code joiners address. */
+  start(): string {
+    const terrain = loadAndApplyRealBattleTerrain();
+    const storedSettings = buildRealBattleLobbySettingsFromTerrain(terrain);
+    const allyTeamCount = this.options.allyTeamCount ?? storedSettings.allyTeamCount;
+    this.terrain = terrain;
+    this.settings = {
+      ...storedSettings,
+      lobbyName: this.options.serverName ?? '',
+      allyTeamCount,
+      spectatorDelaySeconds: normalizeSpectatorDelaySeconds(this.options.spectatorDelaySeconds),
+    };
+    if (this.options.victoryCondition !== undefined) {
+      const victory = normalizeVictoryCondition(this.options.victoryCondition);
+      this.settings = {
+        ...this.settings,
+        victoryMode: victory.mode,
+        victoryHoldSeconds: victory.holdSeconds,
+        victoryTimeLimitSeconds: victory.timeLimitSeconds,
+      };
+    }
+
+    const network = this.network;
+    const roomCode = network.hostDedicated(this.options.roomCode ?? DEDICATED_SERVER_DEFAULT_ROOM_CODE);
+    network.getLobbySettings = () => {
+      if (this.settings === null) throw new Error('[dedicated server] lobby settings are not ready');
+      return this.settings;
+    };
+    if (this.options.serverName !== undefined) network.setLocalPlayerName(this.options.serverName);
+    network.setLobbyAllyTeamCount(allyTeamCount);
+    for (let i = 0; i < this.options.botSeats; i++) {
+      if (!network.addBotSeat()) {
+        this.log(`[dedicated server] only ${i} of ${this.options.botSeats} bot seats fit`);
+        break;
+      }
+    }
+    network.onRoster = () => this.scheduleLobbyCheck();
+    network.onGameStart = (handoff) => {
+      void this.startMatch(handoff).catch((err: unknown) => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        this.log(`[dedicated server] match failed to start: ${error.message}`);
+        this.stop();
+        this.options.onFinished?.(error);
+      });
+    };
+    network.onSeatedPeerSilent = (playerId) => {
+      this.log(`[dedicated server] seat ${playerId} went quiet`);
+      this.markSeatedPlayerSilent?.(playerId);
+    };
+    network.onSeatedPeerReturned = (playerId) => {
+      this.log(`[dedicated server] seat ${playerId} is back`);
+      this.markSeatedPlayerReturned?.(playerId);
+    };
+    this.phase = 'lobby';
+    this.log(`[dedicated server] room ${roomCode} open`);
+    this.scheduleLobbyCheck();
+    return roomCode;
+  }
+
+  /** Hand over a member that connected over a WebSocket. */
+  accept(conn: DataConnection): void {
+    this.network.acceptDedicatedConnection(conn);
+  }
+
+  stop(): void {
+    if (this.lobbyCheckTimer !== null) {
+      clearTimeout(this.lobbyCheckTimer);
+      this.lobbyCheckTimer = null;
+    }
+    this.stopBackend();
+    this.network.disconnect();
+    this.phase = 'stopped';
+  }
+
+  getStatus(): DedicatedMatchServerStatus {
+    const members = this.network.getMembers();
+    return {
+      roomCode: this.network.getRoomCode(),
+      phase: this.phase,
+      matchesPlayed: this.matchesPlayed,
+      members: members.length,
+      seatedHumans: this.seatedHumanCount(),
+      botSeats: this.network.getPlayers().length - this.seatedHumanCount(),
+      frame: this.backend?.getDiagnostics().lockstep?.lastAdvancedFrame ?? null,
+    };
+  }
+
+  /** Roster changes arrive from inside the network layer's own roster
+   *  broadcast, and seating someone broadcasts again. Deferring the check
+   *  keeps the server from re-entering its own announcement. */
+  private scheduleLobbyCheck(): void {
+    if (this.lobbyCheckTimer !== null) return;
+    this.lobbyCheckTimer = setTimeout(() => {
+      this.lobbyCheckTimer = null;
+      this.checkLobby();
+    }, 0);
+  }
+
+  private checkLobby(): void {
+    if (this.phase !== 'lobby') return;
+    const network = this.network;
+    for (const member of network.getMembers()) {
+      if (this.seatedHumanCount() >= this.options.humanSeats) break;
+      if (member.memberId === HOST_MEMBER_ID || member.playerId !== undefined) continue;
+      if (member.presence !== 'live') continue;
+      if (network.setMemberSeated(member.memberId, true)) {
+        this.log(`[dedicated server] seated ${member.name} (member ${member.memberId})`);
+      }
+    }
+    if (this.seatedHumanCount() < this.options.humanSeats) return;
+    if (network.getPlayers().length === 0) {
+      this.log('[dedicated server] no seats to play; waiting');
+      return;
+    }
+    this.phase = 'starting';
+    this.log(`[dedicated server] starting match ${this.matchesPlayed + 1}`);
+    network.startGame();
+  }
+
+  private seatedHumanCount(): number {
+    let count = 0;
+    for (const member of this.network.getMembers()) {
+      if (member.memberId !== HOST_MEMBER_ID && member.playerId !== undefined) count++;
+    }
+    return count;
+  }
+
+  private async startMatch(handoff: BattleHandoff): Promise<void> {
+    const terrain = this.terrain;
+    if (terrain === null) throw new Error('[dedicated server] terrain is not loaded');
+    const backend = await createRealBattleBackend({
+      playerIds: [...handoff.playerIds],
+      terrain,
+      networkRole: 'host',
+      localPlayerId: undefined,
+      localIpAddress: '',
+      network: this.network,
+      battleHandoff: handoff,
+      dedicatedServer: true,
+      onFlowControlChange: (report) => {
+        if (report.state !== 'paused') return;
+        this.log(
+          `[dedicated server] holding for seat ${report.subjectPlayerId ?? '?'} ` +
+            `(${report.reason ?? 'unknown'}, ${report.secondsBehind.toFixed(1)}s behind)`,
+        );
+      },
+      onLockstepHaltChange: (halt) => {
+        if (halt === 'desynced') this.log('[dedicated server] match desynced');
+      },
+      registerSilentPlayer: (markSilent, markReturned) => {
+        this.markSeatedPlayerSilent = markSilent;
+        this.markSeatedPlayerReturned = markReturned;
+      },
+    });
+    this.backend = backend;
+    backend.server?.addGameOverListener((winnerId, reason) => {
+      this.log(`[dedicated server] match ${this.matchesPlayed + 1} won by seat ${winnerId} (${reason})`);
+      this.endMatch();
+    });
+    backend.start();
+    this.phase = 'playing';
+    this.log(`[dedicated server] match ${this.matchesPlayed + 1} running with seats [${handoff.playerIds.join(',')}]`);
+  }
+
+  /** Back to the lobby, and either go again or stop. The game-over callback
+   *  fires from inside the simulation step, so the teardown waits a turn. */
+  private endMatch(): void {
+    setTimeout(() => {
+      if (this.phase === 'stopped') return;
+      this.stopBackend();
+      this.matchesPlayed++;
+      this.network.returnToLobby();
+      const limit = this.options.matchLimit ?? 0;
+      if (limit > 0 && this.matchesPlayed >= limit) {
+        this.log(`[dedicated server] played ${this.matchesPlayed} of ${limit} matches`);
+        this.stop();
+        this.options.onFinished?.();
+        return;
+      }
+      this.phase = 'lobby';
+      this.scheduleLobbyCheck();
+    }, 0);
+  }
+
+  private stopBackend(): void {
+    const backend = this.backend;
+    this.backend = null;
+    this.markSeatedPlayerSilent = null;
+    this.markSeatedPlayerReturned = null;
+    backend?.stop();
+  }
+}
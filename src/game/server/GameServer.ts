@@ -3,6 +3,7 @@
 
 import type { WorldState } from '../sim/WorldState';
 import type { Simulation } from '../sim/Simulation';
+import type { MatchStatsReport } from '../sim/matchStats';
 import type { CommandQueue, Command } from '../sim/commands';
 import { trimEntitySnapshotPool } from '../network/stateSerializerEntities';
 import type { SnapshotCallback, GameOverCallback } from './GameConnection';
@@ -56,6 +57,11 @@ import {
 import { createLoadProgressReporter } from '../lifecycle/loadProgressReporter';
 import { ReplayRecorder, type BudgetReplayFile } from './ReplayRecorder';
 import type { CanonicalServerStateHash } from '../architecture/CanonicalStateHash';
+import {
+  exportSimulationSave,
+  restoreSimulationSave,
+  type SimulationSave,
+} from '../architecture/SimulationSave';
 import { normalizeSimulationTickRateHz } from '../../types/simulationTickRate';
 
 import type { GameServerConfig } from '@/types/game';
@@ -153,6 +159,12 @@ export class GameServer {
 
   private snapshotPublisher = new ServerSnapshotPublisher();
   private replayRecorder!: ReplayRecorder;
+  /** The config this server booted from; a save carries it so a load can
+   *  boot the same layout. */
+  private readonly bootConfig: GameServerConfig;
+  /** Set once a save has been loaded. The recorder only holds commands
+   *  from the load on, so a replay of this server would start mid-match. */
+  private loadedFromSave = false;
 
   // Public IP address (set by host component)
   private ipAddress: string = 'N/A';
@@ -241,6 +253,7 @@ export class GameServer {
       acquireSimSlot(this);
     }
 
+    this.bootConfig = config;
     this.tickRateHz = bootstrapped?.world.simulationTickRateHz ??
       normalizeSimulationTickRateHz(config.simulationTickRateHz);
 
@@ -267,9 +280,9 @@ export class GameServer {
     try {
       boot = bootstrapped ?? ServerBootstrap.bootstrap(config, physics);
       this.core = new ServerSimulationCore(boot, {
-        onGameOver: (winnerId) => {
+        onGameOver: (winnerId, reason) => {
           for (const listener of this.gameOverListeners) {
-            listener(winnerId);
+            listener(winnerId, reason);
           }
         },
       });
@@ -627,9 +640,37 @@ export class GameServer {
   }
 
   exportReplay(): BudgetReplayFile {
+    if (this.loadedFromSave) {
+      throw new Error('[replay] a match resumed from a save has no replay from its start');
+    }
     return this.replayRecorder.export(this.world.getTick());
   }
 
+  /** The config this server booted from — what an offline replay of the
+   *  match boots from too. */
+  getBootConfig(): GameServerConfig {
+    return this.bootConfig;
+  }
+
+  exportSimulationSave(savedAt: string = new Date().toISOString()): SimulationSave {
+    return exportSimulationSave(this.core, this.bootConfig, savedAt);
+  }
+
+  /** Adopt a saved match. The server must have been created from that save's
+   *  config and not ticked yet; throws when the restored world does not hash
+   *  the way the saved one did. */
+  loadSimulationSave(save: SimulationSave): CanonicalServerStateHash {
+    const verifiedHash = restoreSimulationSave(this.core, save);
+    this.loadedFromSave = true;
+    return verifiedHash;
+  }
+
+  /** Statistics for the post-game screen and its JSON export. Every peer
+   *  that runs the match — host, player or spectator — has its own. */
+  getMatchStatsReport(): MatchStatsReport {
+    return this.simulation.getMatchStatsReport();
+  }
+
   getReplayCommandCount(): number {
     return this.replayRecorder.getCommandCount();
   }
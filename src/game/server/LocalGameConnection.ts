@@ -103,9 +103,9 @@ export class LocalGameConnection implements GameConnection {
       .getLockstepSimulationCore()
       .addPresentationFrameListener((event) => this.receivePresentationFrame(event));
 
-    this.gameOverListenerRef = server.addGameOverListener((winnerId) => {
+    this.gameOverListenerRef = server.addGameOverListener((winnerId, reason) => {
       const callback = this.gameOverCallback;
-      if (callback !== null) callback(winnerId);
+      if (callback !== null) callback(winnerId, reason);
     });
   }
 
@@ -440,6 +440,33 @@ const WORLD_BOUNDARY_DAMPING_ACCEL_PER_SPEED =
 // used to gate the integrate-time sleep transition now live in the
 // Rust kernel — see rts-sim-wasm/src/lib.rs `pool_step_integrate`.
 
+/** A body's mutable pool state, as a save file carries it. Shape and
+ *  geometry are rebuilt from the entity when the body is recreated. */
+export type Body3DSaveState = {
+  entityId: EntityId;
+  mass: number;
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  ax: number;
+  ay: number;
+  az: number;
+  groundLaunchAx: number;
+  groundLaunchAy: number;
+  groundLaunchAz: number;
+  surfaceNormalX: number;
+  surfaceNormalY: number;
+  surfaceNormalZ: number;
+  airDragCoefficient: number;
+  groundTangentialDampingRate: number;
+  sleepTicks: number;
+  sleeping: boolean;
+  upwardSurfaceContact: boolean;
+};
+
 export class PhysicsEngine3D {
   private bodies: Body3D[] = [];
   private dynamicBodies: Body3D[] = [];
@@ -918,6 +945,85 @@ export class PhysicsEngine3D {
     return sim.entityState.syncEntityBodyMotion(entitySlots);
   }
 
+  /** Every entity body's mutable state, in the engine's body order. The
+   *  order is kept so a restored engine walks its bodies the same way. */
+  exportBodyStates(): Body3DSaveState[] {
+    const states: Body3DSaveState[] = [];
+    for (const body of this.bodies) {
+      if (body.entityId === undefined) continue;
+      states.push({
+        entityId: body.entityId,
+        mass: body.mass,
+        x: body.x,
+        y: body.y,
+        z: body.z,
+        vx: body.vx,
+        vy: body.vy,
+        vz: body.vz,
+        ax: body.ax,
+        ay: body.ay,
+        az: body.az,
+        groundLaunchAx: body.groundLaunchAx,
+        groundLaunchAy: body.groundLaunchAy,
+        groundLaunchAz: body.groundLaunchAz,
+        surfaceNormalX: body.surfaceNormalX,
+        surfaceNormalY: body.surfaceNormalY,
+        surfaceNormalZ: body.surfaceNormalZ,
+        airDragCoefficient: body.airDragCoefficient,
+        groundTangentialDampingRate: body.groundTangentialDampingRate,
+        sleepTicks: body.sleepTicks,
+        sleeping: body.sleeping,
+        upwardSurfaceContact: body.upwardSurfaceContact,
+      });
+    }
+    return states;
+  }
+
+  /** Write a saved state over a freshly created body, keeping the awake
+   *  count in step with the restored sleep flag. */
+  restoreBodyState(body: Body3D, state: Body3DSaveState): void {
+    if (!body.isStatic) {
+      body.mass = state.mass;
+      pv().invMass[body.slot] = state.mass > 0 ? 1 / state.mass : 0;
+    }
+    body.x = state.x;
+    body.y = state.y;
+    body.z = state.z;
+    body.vx = state.vx;
+    body.vy = state.vy;
+    body.vz = state.vz;
+    body.ax = state.ax;
+    body.ay = state.ay;
+    body.az = state.az;
+    body.groundLaunchAx = state.groundLaunchAx;
+    body.groundLaunchAy = state.groundLaunchAy;
+    body.groundLaunchAz = state.groundLaunchAz;
+    body.surfaceNormalX = state.surfaceNormalX;
+    body.surfaceNormalY = state.surfaceNormalY;
+    body.surfaceNormalZ = state.surfaceNormalZ;
+    body.airDragCoefficient = state.airDragCoefficient;
+    body.groundTangentialDampingRate = state.groundTangentialDampingRate;
+    if (!body.isStatic && body.sleeping !== state.sleeping) {
+      this.awakeDynamicBodyCount = state.sleeping
+        ? Math.max(0, this.awakeDynamicBodyCount - 1)
+        : this.awakeDynamicBodyCount + 1;
+    }
+    body.sleeping = state.sleeping;
+    body.sleepTicks = state.sleepTicks;
+    body.upwardSurfaceContact = state.upwardSurfaceContact;
+    if (!body.isStatic) this.dynamicSupportGridDirty = true;
+  }
+
+  /** Temporary static-body ignores as [dynamic, static] entity id pairs. */
+  exportIgnoreStaticPairs(): [EntityId, EntityId][] {
+    const pairs: [EntityId, EntityId][] = [];
+    for (const [dynamicBody, staticBody] of this.ignoreStatic) {
+      if (dynamicBody.entityId === undefined || staticBody.entityId === undefined) continue;
+      pairs.push([dynamicBody.entityId, staticBody.entityId]);
+    }
+    return pairs;
+  }
+
   /** Mark that `dynamicBody` should not collide with `staticBody`.
    *  Used for units spawning inside their factory. */
   setIgnoreStatic(dynamicBody: Body3D, staticBody: Body3D): void {
@@ -0,0 +1,276 @@
+// ReplayPlayback - Drives a GameServer through a recorded BudgetReplayFile.
+//
+// A replay is the match's initial config plus every command the server
+// accepted, stamped with the world tick it arrived at. Playback boots a
+// fresh server from that config and, before each fixed step, hands the
+// simulation exactly the commands that were waiting for it live: the same
+// CommandQueue, the same tick, the same order. Nothing about the world is
+// stored, so a replay is only as good as the determinism it is played on.
+//
+// Seeking keeps images of the world. The first pass over each checkpoint
+// tick stores a SimulationSave of the world there in a ReplayCheckpointLog,
+// so a seek adopts the latest image at or before its target and re-runs only
+// the log after it. The saved state hash is what makes that trustworthy: a
+// restore must reproduce it, and every later pass over a checkpoint is
+// compared with it — a replay that disagrees with its own earlier run has
+// desynced, and says so instead of showing a different match.
+
+import type { SimulationSave } from '../architecture/SimulationSave';
+import type { Command } from '../sim/commands';
+import type { PlayerId } from '../sim/types';
+import type { GameServerConfig } from '@/types/game';
+import type { GameServer } from './GameServer';
+import type { BudgetReplayCommandEntry, BudgetReplayFile } from './ReplayRecorder';
+
+/** Config fields ReplayRecorder flattens from Set to array when it
+ *  JSON-normalizes the initial config. */
+const REPLAY_SET_CONFIG_FIELDS = [
+  'initialAllowedUnitBlueprintIds',
+  'initialAllowedBuildingBlueprintIds',
+] as const;
+
+/** Commands that steered the live server's clock rather than the world. The
+ *  viewer owns pause and speed during playback, so these are skipped. */
+const REPLAY_CLOCK_COMMAND_TYPES: ReadonlySet<Command['type']> = new Set([
+  'setPaused',
+  'adjustGameSpeed',
+]);
+
+/** Commands the live server applied to itself instead of enqueueing. They are
+ *  replayed through receiveCommand so they land the same way again. */
+const REPLAY_SERVER_COMMAND_TYPES: ReadonlySet<Command['type']> = new Set([
+  'setBackgroundUnitBlueprintEnabled',
+  'setBackgroundBuildingBlueprintEnabled',
+]);
+
+/** Match time between replay checkpoints. Bounds how much of the log a
+ *  seek re-runs after adopting an image, against the cost of exporting one
+ *  and holding it in memory. */
+const REPLAY_CHECKPOINT_INTERVAL_SECONDS = 30;
+
+/**
+ * The world images stored so far for one replay file, keyed by tick.
+ *
+ * Outlives any single playback: a backward seek boots a fresh server and
+ * adopts the latest image at or before its target from here.
+ */
+export class ReplayCheckpointLog {
+  private readonly images = new Map<number, SimulationSave>();
+
+  /** The state hash recorded at `tick`, or undefined when no run has
+   *  passed it yet. */
+  getStateHash(tick: number): string | undefined {
+    return this.images.get(tick)?.stateHash.hash;
+  }
+
+  record(image: SimulationSave): void {
+    this.images.set(image.tick, image);
+  }
+
+  /** The latest image taken at or before `tick`, or null when there is none. */
+  latestAtOrBefore(tick: number): SimulationSave | null {
+    let latest: SimulationSave | null = null;
+    for (const image of this.images.values()) {
+      if (image.tick <= tick && (latest === null || image.tick > latest.tick)) latest = image;
+    }
+    return latest;
+  }
+}
+
+export function parseBudgetReplayFile(value: unknown): BudgetReplayFile {
+  if (!isRecord(value)) throw new Error('[replay] file is not a JSON object');
+  if (value.schema !== 'budget-annihilation.replay.v1') {
+    throw new Error(`[replay] unsupported schema: ${String(value.schema)}`);
+  }
+  const playerIds = value.playerIds;
+  if (!Array.isArray(playerIds) || playerIds.length === 0 || !playerIds.every(isPlayerId)) {
+    throw new Error('[replay] playerIds must be a non-empty list of seats');
+  }
+  const initialConfig = value.initialConfig;
+  if (!isRecord(initialConfig) || !Array.isArray(initialConfig.playerIds)) {
+    throw new Error('[replay] initialConfig is missing its seats');
+  }
+  const finalTick = value.finalTick;
+  if (!isTick(finalTick)) throw new Error('[replay] finalTick must be a non-negative integer');
+  const commands = value.commands;
+  if (!Array.isArray(commands)) throw new Error('[replay] commands must be a list');
+  for (let i = 0; i < commands.length; i++) {
+    const entry: unknown = commands[i];
+    if (
+      !isRecord(entry) ||
+      !isTick(entry.receivedAtTick) ||
+      !isRecord(entry.command) ||
+      typeof entry.command.type !== 'string'
+    ) {
+      throw new Error(`[replay] command ${i} is malformed`);
+    }
+    if (entry.receivedAtTick > finalTick) {
+      throw new Error(`[replay] command ${i} arrives after the final tick`);
+    }
+    if (i > 0 && entry.receivedAtTick < (commands[i - 1] as BudgetReplayCommandEntry).receivedAtTick) {
+      throw new Error(`[replay] command ${i} is out of tick order`);
+    }
+  }
+  return value as BudgetReplayFile;
+}
+
+/** The GameServerConfig the recorded match booted from, with the Set fields
+ *  the recorder flattened restored. */
+export function replayGameServerConfig(replay: BudgetReplayFile): GameServerConfig {
+  const config = JSON.parse(JSON.stringify(replay.initialConfig)) as Record<string, unknown>;
+  for (const field of REPLAY_SET_CONFIG_FIELDS) {
+    const ids = config[field];
+    if (Array.isArray(ids)) config[field] = new Set(ids as string[]);
+  }
+  return config as GameServerConfig;
+}
+
+/**
+ * Cursor over a replay's command log, in tick order.
+ *
+ * `takeTick(t)` returns what was waiting for the step that advances the world
+ * from tick t: everything recorded at or before t that has not been handed out
+ * yet. Both recording paths stamp the world tick before that step, so this is
+ * the live arrival point for a sandbox command and a lockstep frame alike.
+ */
+export class ReplayCommandFeed {
+  private readonly entries: readonly BudgetReplayCommandEntry[];
+  private cursor = 0;
+
+  constructor(entries: readonly BudgetReplayCommandEntry[]) {
+    this.entries = entries;
+  }
+
+  takeTick(tick: number): BudgetReplayCommandEntry[] {
+    const due: BudgetReplayCommandEntry[] = [];
+    while (this.cursor < this.entries.length && this.entries[this.cursor].receivedAtTick <= tick) {
+      due.push(this.entries[this.cursor]);
+      this.cursor++;
+    }
+    return due;
+  }
+
+  /** Reposition so the next `takeTick` starts at the first entry recorded at
+   *  `tick` or later. */
+  seek(tick: number): void {
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.entries[mid].receivedAtTick < tick) lo = mid + 1;
+      else hi = mid;
+    }
+    this.cursor = lo;
+  }
+}
+
+export class ReplayPlayback {
+  readonly finalTick: number;
+  readonly playerIds: readonly PlayerId[];
+  private readonly server: GameServer;
+  private readonly feed: ReplayCommandFeed;
+  private readonly checkpoints: ReplayCheckpointLog;
+  private readonly checkpointIntervalTicks: number;
+
+  constructor(
+    server: GameServer,
+    replay: BudgetReplayFile,
+    checkpoints: ReplayCheckpointLog = new ReplayCheckpointLog(),
+  ) {
+    this.server = server;
+    this.finalTick = replay.finalTick;
+    this.playerIds = replay.playerIds;
+    this.feed = new ReplayCommandFeed(replay.commands);
+    this.checkpoints = checkpoints;
+    this.checkpointIntervalTicks = Math.max(
+      1,
+      server.getLockstepSimulationCore().world.ticksForSeconds(REPLAY_CHECKPOINT_INTERVAL_SECONDS),
+    );
+  }
+
+  getTick(): number {
+    return this.server.getLockstepSimulationCore().world.getTick();
+  }
+
+  getFixedDtMs(): number {
+    return 1000 / this.server.getLockstepSimulationCore().world.simulationTickRateHz;
+  }
+
+  isAtEnd(): boolean {
+    return this.getTick() >= this.finalTick;
+  }
+
+  /** Advance one fixed step with the commands recorded for it. Returns false
+   *  once the recording is exhausted; throws when the step lands on a
+   *  checkpoint the world no longer agrees with. */
+  stepTick(): boolean {
+    if (this.isAtEnd()) return false;
+    const core = this.server.getLockstepSimulationCore();
+    const stepCommands: Command[] = [];
+    for (const entry of this.feed.takeTick(core.world.getTick())) {
+      const command = entry.command;
+      if (REPLAY_CLOCK_COMMAND_TYPES.has(command.type)) continue;
+      if (REPLAY_SERVER_COMMAND_TYPES.has(command.type)) {
+        this.server.receiveCommand(command, { mode: 'host-admin' });
+        continue;
+      }
+      stepCommands.push(command);
+    }
+    core.stepFixedTick(this.getFixedDtMs(), stepCommands);
+    this.checkCheckpoint();
+    return true;
+  }
+
+  /** Adopt the latest checkpoint image at or before `targetTick`. The server
+   *  must be fresh from the replay's config and not stepped yet; throws when
+   *  the restored world does not reproduce the image's hash. Returns the tick
+   *  the world stands at afterwards — 0 when there was nothing to adopt. */
+  restoreCheckpoint(targetTick: number): number {
+    const image = this.checkpoints.latestAtOrBefore(Math.min(targetTick, this.finalTick));
+    if (image === null) return this.getTick();
+    this.server.loadSimulationSave(image);
+    this.feed.seek(image.tick);
+    return this.getTick();
+  }
+
+  /**
+   * Step headlessly toward `targetTick` (clamped to the recording) until it is
+   * reached or `shouldYield` asks for the thread back. Always makes progress
+   * when there is any to make. Returns the steps run.
+   */
+  fastForward(targetTick: number, shouldYield: () => boolean): number {
+    const target = Math.min(targetTick, this.finalTick);
+    let steps = 0;
+    while (this.getTick() < target) {
+      this.stepTick();
+      steps++;
+      if (shouldYield()) break;
+    }
+    return steps;
+  }
+
+  private checkCheckpoint(): void {
+    const tick = this.getTick();
+    if (tick % this.checkpointIntervalTicks !== 0) return;
+    const recorded = this.checkpoints.getStateHash(tick);
+    if (recorded === undefined) {
+      this.checkpoints.record(this.server.exportSimulationSave());
+      return;
+    }
+    if (this.server.getLockstepSimulationCore().getCanonicalStateHash().hash !== recorded) {
+      throw new Error(`[replay] state at tick ${tick} does not match its checkpoint`);
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTick(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isPlayerId(value: unknown): value is PlayerId {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
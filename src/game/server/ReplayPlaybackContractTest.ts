@@ -0,0 +1,94 @@
+import {
+  ReplayCheckpointLog,
+  ReplayCommandFeed,
+  parseBudgetReplayFile,
+  replayGameServerConfig,
+} from './ReplayPlayback';
+import { ReplayRecorder } from './ReplayRecorder';
+import type { SimulationSave } from '../architecture/SimulationSave';
+import type { Command } from '../sim/commands';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`[replay playback contract] ${message}`);
+  }
+}
+
+function throwsReplayError(value: unknown): boolean {
+  try {
+    parseBudgetReplayFile(value);
+    return false;
+  } catch (err) {
+    return (err as Error).message.startsWith('[replay]');
+  }
+}
+
+export function runReplayPlaybackContractTest(): void {
+  const recorder = new ReplayRecorder({
+    playerIds: [1, 2],
+    initialAllowedUnitBlueprintIds: new Set(['unitJackal', 'unitTransport']),
+  }, [1, 2]);
+  const stop = (tick: number): Command => ({ type: 'stop', tick, entityIds: [] });
+  recorder.recordAcceptedCommand(stop(0), { mode: 'host-admin' }, 0, 0);
+  recorder.recordAcceptedCommand(stop(3), { mode: 'host-admin' }, 3, 0);
+  recorder.recordAcceptedCommand(stop(3), { mode: 'host-admin' }, 3, 0);
+  recorder.recordAcceptedCommand(stop(7), { mode: 'host-admin' }, 7, 0);
+
+  // A recording survives the trip through a file.
+  const replay = parseBudgetReplayFile(
+    JSON.parse(JSON.stringify(recorder.export(10, '2026-01-01T00:00:00.000Z'))),
+  );
+  assertContract(replay.commands.length === 4, 'parsed replay should keep every command');
+
+  const config = replayGameServerConfig(replay);
+  assertContract(
+    config.initialAllowedUnitBlueprintIds instanceof Set &&
+      config.initialAllowedUnitBlueprintIds.has('unitTransport'),
+    'flattened blueprint allow-lists should come back as sets',
+  );
+
+  // Malformed files are refused with a replay error, not half-played.
+  assertContract(throwsReplayError(null), 'non-object files should be refused');
+  assertContract(
+    throwsReplayError({ ...replay, schema: 'budget-annihilation.replay.v0' }),
+    'unknown schemas should be refused',
+  );
+  assertContract(
+    throwsReplayError({ ...replay, finalTick: 5 }),
+    'commands after the final tick should be refused',
+  );
+  assertContract(
+    throwsReplayError({ ...replay, commands: [...replay.commands].reverse() }),
+    'commands out of tick order should be refused',
+  );
+
+  // The feed hands each step exactly what was waiting for it.
+  const feed = new ReplayCommandFeed(replay.commands);
+  assertContract(feed.takeTick(0).length === 1, 'tick 0 should receive its command');
+  assertContract(feed.takeTick(1).length === 0, 'an empty tick should receive nothing');
+  assertContract(feed.takeTick(3).length === 2, 'same-tick commands should arrive together');
+  assertContract(feed.takeTick(3).length === 0, 'a command should be handed out once');
+  assertContract(feed.takeTick(10).length === 1, 'late ticks should drain what remains');
+
+  feed.seek(3);
+  const resumed = feed.takeTick(3);
+  assertContract(
+    resumed.length === 2 && resumed.every((entry) => entry.receivedAtTick === 3),
+    'seeking should resume at the first command of the target tick',
+  );
+
+  // Each checkpoint keeps an image of the world, and a seek adopts the latest
+  // one at or before its target.
+  const image = (tick: number, hash: string): SimulationSave =>
+    ({ tick, stateHash: { hash } }) as unknown as SimulationSave;
+  const checkpoints = new ReplayCheckpointLog();
+  assertContract(checkpoints.latestAtOrBefore(5000) === null, 'an unplayed file should have no image');
+  checkpoints.record(image(1200, 'a'));
+  checkpoints.record(image(600, 'b'));
+  assertContract(checkpoints.getStateHash(1200) === 'a', 'an image should carry its state hash');
+  assertContract(checkpoints.getStateHash(900) === undefined, 'an unpassed tick should have no hash');
+  assertContract(checkpoints.latestAtOrBefore(599) === null, 'nothing precedes the first image');
+  assertContract(checkpoints.latestAtOrBefore(600)?.tick === 600, 'an image on the target should be adopted');
+  assertContract(checkpoints.latestAtOrBefore(1199)?.tick === 600, 'a seek should adopt the image before it');
+  assertContract(checkpoints.latestAtOrBefore(5000)?.tick === 1200, 'a late seek should adopt the latest image');
+}
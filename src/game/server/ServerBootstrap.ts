@@ -147,6 +147,8 @@ export class ServerBootstrap {
         await report(0.94, 'Opening units ready');
       }
       simulation.setAiPlayerIds(rules.aiPlayerIds);
+      simulation.setBotPolicyPlayerIds(rules.botPolicyPlayerIds, rules.botProfileByPlayerId);
+      simulation.setVictoryCondition(config.victoryCondition);
       await report(1, 'Starting AI players');
 
       return ServerBootstrap.finish(
@@ -221,6 +223,8 @@ export class ServerBootstrap {
         );
       }
       simulation.setAiPlayerIds(rules.aiPlayerIds);
+      simulation.setBotPolicyPlayerIds(rules.botPolicyPlayerIds, rules.botProfileByPlayerId);
+      simulation.setVictoryCondition(config.victoryCondition);
 
       return ServerBootstrap.finish(
         resolved,
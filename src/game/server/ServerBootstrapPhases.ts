@@ -31,12 +31,14 @@ import {
   setTerrainPrecedence,
   setTerrainRuntimeConfig,
   setTerrainTeamCount,
+  setAuthoredMap,
 } from '../sim/Terrain';
 import { getTerrainDividerTeamCount, normalizePlayerIds } from '../sim/playerLayout';
 import { resolveTeamRoster } from '../sim/teamRoster';
 import type { TeamRoster } from '../sim/teamRoster';
 import { spawnInitialBases, spawnMetalExtractorsOnDeposits } from '../sim/spawn';
 import type { Entity, PlayerId } from '../sim/types';
+import type { SeatBotProfile } from '../sim/agentSeat';
 import { BACKGROUND_UNIT_BLUEPRINT_IDS } from './BackgroundBattleStandalone';
 import { BUILDING_BLUEPRINT_IDS } from '../../types/blueprintIds';
 import { PhysicsEngine3D } from './PhysicsEngine3D';
@@ -98,10 +100,12 @@ export function resolveBootstrapConfig(config: GameServerConfig): ResolvedBootst
   setMetalCoverage(metalCoverage);
   setLiquidSurfaceMode(liquidSurfaceMode);
 
+  // An authored map is drawn for one size; it wins over the size bars.
+  const authoredMap = config.authoredMap ?? null;
   const mapConfig = getMapSize(
     backgroundMode,
-    config.mapWidthLandCells,
-    config.mapLengthLandCells,
+    authoredMap?.widthLandCells ?? config.mapWidthLandCells,
+    authoredMap?.lengthLandCells ?? config.mapLengthLandCells,
   );
 
   return {
@@ -124,11 +128,19 @@ export function resolveBootstrapConfig(config: GameServerConfig): ResolvedBootst
  *  down the matching divider ridges. A one-player map still uses one slice and
  *  one divider slice; no map-building math branches on "solo". This must run
  *  BEFORE WorldState, deposit flattening, and renderer mesh baking so every
- *  consumer reads the same surface. */
+ *  consumer reads the same surface. An authored map (or null, clearing the
+ *  last match's) is installed here too, for the same reason. */
 export function configureBootstrapTerrain(
   config: GameServerConfig,
   teamRoster: TeamRoster,
 ): void {
+  const authoredMap = config.authoredMap ?? null;
+  if (authoredMap !== null && teamRoster.playerIds.length > authoredMap.startPositions.length) {
+    throw new Error(
+      `Authored map "${authoredMap.name}" seats ${authoredMap.startPositions.length} players; this match has ${teamRoster.playerIds.length}`,
+    );
+  }
+  setAuthoredMap(authoredMap);
   const terrainRuntimeConfig = getTerrainRuntimeConfig();
   const centerMagnitude =
     config.centerMagnitude ?? terrainRuntimeConfig.centerMagnitude;
@@ -262,6 +274,12 @@ export type BootstrapSpawnRules = {
   backgroundAllowedBuildingBlueprintIds: Set<string>;
   /** Seats with AGENT TYPE 'bot' — see src/game/sim/agentSeat.ts. */
   aiPlayerIds: PlayerId[];
+  /** Bot seats that also run the strategic policy (SimulationBotPolicy).
+   *  Empty for the demo/background battle, whose factories alone keep the
+   *  scripted fight going. */
+  botPolicyPlayerIds: PlayerId[];
+  /** Difficulty and personality per bot-policy seat. */
+  botProfileByPlayerId: Readonly<Record<number, SeatBotProfile>>;
   /** Seats with INITIAL STATE 'base'; everyone else spawns a commander. */
   baseSeatPlayerIds: PlayerId[];
 };
@@ -316,6 +334,8 @@ export function resolveBootstrapSpawnRules(
     backgroundAllowedUnitBlueprintIds,
     backgroundAllowedBuildingBlueprintIds,
     aiPlayerIds,
+    botPolicyPlayerIds: resolved.backgroundMode ? [] : [...aiPlayerIds],
+    botProfileByPlayerId: config.botProfileByPlayerId ?? {},
     baseSeatPlayerIds,
   };
 }
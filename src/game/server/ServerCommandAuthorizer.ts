@@ -20,6 +20,8 @@ import type {
   SkipCurrentOrderCommand,
   SelfDestructCommand,
   SetBuildingActiveCommand,
+  MorphCommand,
+  StockpileCommand,
   SetBuilderPriorityCommand,
   SetCarrierSpawnCommand,
   SetCloakStateCommand,
@@ -46,7 +48,11 @@ import {
   type CommandAuthority,
 } from './commandAuthority';
 import { entityCanBuild } from '../sim/hostCapabilities';
-import { factoryCanProduceUnit } from '../sim/factoryProductionRoster';
+import {
+  factoryCanProduceUnit,
+  factoryTeamMeetsUnitPrerequisites,
+} from '../sim/factoryProductionRoster';
+import { getBuildingPrerequisites } from '../sim/techTree';
 import {
   canBuilderUpgradeMetalExtractor,
   isUpgradeableMetalExtractorTarget,
@@ -89,6 +95,8 @@ type AnyEntityListCommand =
   | SetFireEnabledCommand
   | SetTrajectoryModeCommand
   | SetBuildingActiveCommand
+  | MorphCommand
+  | StockpileCommand
   | SelfDestructCommand;
 
 const _authorizeSeenEntityIds = new Set<EntityId>();
@@ -159,6 +167,8 @@ export function authorizeGameServerGameplayCommand(
       return authorizeAnyEntityListCommand(world, command, playerId);
 
     case 'setBuildingActive':
+    case 'morph':
+    case 'stockpile':
     case 'selfDestruct':
       return authorizeAnyEntityListCommand(world, command, playerId);
 
@@ -170,6 +180,38 @@ export function authorizeGameServerGameplayCommand(
     case 'resign':
       return command.playerId === playerId ? command : null;
 
+    // Sharing is only ever between allies, and the author is always the
+    // giver: resources come out of their own stockpiles, entities must be
+    // their own.
+    case 'shareResources':
+      if (command.targetPlayerId === playerId || !world.arePlayersAllied(playerId, command.targetPlayerId)) {
+        return null;
+      }
+      return { ...command, playerId };
+
+    case 'transferUnits':
+      if (command.targetPlayerId === playerId || !world.arePlayersAllied(playerId, command.targetPlayerId)) {
+        return null;
+      }
+      return authorizeEntityIds(command, (id) => isOwnedEntity(world, id, playerId));
+
+    case 'setAutoShare':
+      return { ...command, playerId };
+
+    // Diplomacy is always about the author's own seat. An invitation to
+    // someone already on the author's side has nothing to offer; whether an
+    // acceptance or a named heir still holds is decided when it lands.
+    case 'proposeAlliance':
+      if (command.targetPlayerId === playerId || world.arePlayersAllied(playerId, command.targetPlayerId)) {
+        return null;
+      }
+      return { ...command, playerId };
+
+    case 'acceptAlliance':
+    case 'breakAlliance':
+    case 'setResignHeir':
+      return { ...command, playerId };
+
     case 'setTowerTarget':
       return authorizeSetTowerTargetCommand(world, command, playerId);
 
@@ -195,7 +237,7 @@ export function authorizeGameServerGameplayCommand(
       return authorizeUpgradeMetalExtractorAreaCommand(world, command, playerId);
 
     case 'queueUnit':
-      return authorizeQueueUnitCommand(world, command, playerId);
+      return authorizeQueueUnitCommand(world, command, playerId, true);
     case 'removeFactoryUnitProduction':
       return authorizeQueueUnitCommand(world, command, playerId);
 
@@ -209,7 +251,7 @@ export function authorizeGameServerGameplayCommand(
       return authorizeSetFactoryAirIdleStateCommand(world, command, playerId);
 
     case 'changeFactoryUnitQuota':
-      return authorizeQueueUnitCommand(world, command, playerId);
+      return authorizeQueueUnitCommand(world, command, playerId, command.delta > 0);
 
     case 'setFactoryGuard':
       return authorizeSetFactoryGuardCommand(world, command, playerId);
@@ -358,13 +400,19 @@ function authorizeStartBuildCommand(
 ): StartBuildCommand | null {
   const builder = world.getEntity(command.builderId);
   if (builder === undefined || builder.ownership?.playerId !== playerId) return null;
-  return entityCanBuild(builder, command.buildingBlueprintId) ? command : null;
+  return entityCanBuild(builder, command.buildingBlueprintId) &&
+    world.teamMeetsPrerequisites(playerId, getBuildingPrerequisites(command.buildingBlueprintId))
+    ? command
+    : null;
 }
 
+/** `requirePrerequisites` is set for orders that add production; taking a
+ *  locked unit back out of a queue is always allowed. */
 function authorizeQueueUnitCommand<T extends Pick<QueueUnitCommand, 'factoryId' | 'unitBlueprintId'>>(
   world: WorldState,
   command: T,
   playerId: PlayerId,
+  requirePrerequisites = false,
 ): T | null {
   const factory = world.getEntity(command.factoryId);
   if (
@@ -374,7 +422,11 @@ function authorizeQueueUnitCommand<T extends Pick<QueueUnitCommand, 'factoryId'
   ) {
     return null;
   }
-  return factoryCanProduceUnit(factory, command.unitBlueprintId) ? command : null;
+  if (!factoryCanProduceUnit(factory, command.unitBlueprintId)) return null;
+  return !requirePrerequisites ||
+    factoryTeamMeetsUnitPrerequisites(world, factory, command.unitBlueprintId)
+    ? command
+    : null;
 }
 
 function authorizeUpgradeMetalExtractorCommand(
@@ -656,7 +708,8 @@ function authorizeSetCloakStateCommand(
 
 /** Authorize a command whose entityIds may reference any owned entity
  *  (unit, tower, or building). Used by setFireEnabled (units +
- *  towers), setBuildingActive (buildings), and selfDestruct (any). */
+ *  towers), setBuildingActive (buildings), stockpile (buildings),
+ *  morph and selfDestruct (any). */
 function authorizeAnyEntityListCommand(
   world: WorldState,
   command: AnyEntityListCommand,
@@ -72,6 +72,8 @@ function createResurrectableWreck(world: WorldState): Entity {
   wreck.wreck = {
     source: { kind: 'unit', unitBlueprintId: 'unitJackal' },
     originalOwnerId: 2,
+    metal: 36,
+    debris: false,
     resurrectProgressMs: 0,
     resurrectRequiredMs: 1000,
   } as NonNullable<Entity['wreck']>;
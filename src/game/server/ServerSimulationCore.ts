@@ -29,9 +29,10 @@ import { getSimWasm, type BodyPoolViews } from '../sim-wasm/init';
 import { SIM_TICK_INSTRUMENTATION } from '../perf/SimTickInstrumentation';
 import { applyEntityHoldPose } from '../sim/entityHolds';
 import type { PresentationFrameEvent, SurfaceLiftProbeDebugFrame } from '@/types/game';
+import type { GameOverReason } from '@/types/victoryCondition';
 
 type ServerSimulationCoreOptions = {
-  onGameOver?: (winnerId: PlayerId) => void;
+  onGameOver?: (winnerId: PlayerId, reason: GameOverReason) => void;
 };
 
 // Deterministic sim path: pinned-pose writes must target the WASM body
@@ -75,11 +76,11 @@ export class ServerSimulationCore {
   readonly backgroundAllowedUnitBlueprintIds: Set<string>;
   readonly backgroundAllowedBuildingBlueprintIds: Set<string>;
   readonly terrainTileMap: TerrainTileMap;
-  readonly terrainBuildabilityGrid: TerrainBuildabilityGrid;
+  private readonly bootTerrainBuildabilityGrid: TerrainBuildabilityGrid;
 
   private readonly unitForceSystem: UnitForceSystem;
   private physicsSyncEntitySlotsBuf = new Uint32Array(1024);
-  private readonly onGameOver: ((winnerId: PlayerId) => void) | undefined;
+  private readonly onGameOver: ((winnerId: PlayerId, reason: GameOverReason) => void) | undefined;
   /** Set by the host so a lockstep command frame is recorded exactly like a
    *  command handed straight to the server in the sandbox. Without it an
    *  online match exported an empty replay while the same actions in a demo
@@ -102,13 +103,21 @@ export class ServerSimulationCore {
     this.backgroundAllowedUnitBlueprintIds = boot.backgroundAllowedUnitBlueprintIds;
     this.backgroundAllowedBuildingBlueprintIds = boot.backgroundAllowedBuildingBlueprintIds;
     this.terrainTileMap = boot.terrainTileMap;
-    this.terrainBuildabilityGrid = boot.terrainBuildabilityGrid;
+    this.bootTerrainBuildabilityGrid = boot.terrainBuildabilityGrid;
     this.onGameOver = options.onGameOver;
 
     this.unitForceSystem = new UnitForceSystem(this.world, this.simulation, this.physics);
     this.setupSimulationCallbacks();
   }
 
+  /** The grid as construction currently sees it: the boot bake, with any
+   *  squares craters have sunk since re-baked. A new object after each
+   *  crater, which is what tells the publisher to resend the static map. */
+  get terrainBuildabilityGrid(): TerrainBuildabilityGrid {
+    return this.simulation.getConstructionSystem().getTerrainBuildabilityGrid() ??
+      this.bootTerrainBuildabilityGrid;
+  }
+
   setAcceptedCommandRecorder(recorder: ((command: Command) => void) | null): void {
     this.onAcceptedCommand = recorder;
   }
@@ -265,10 +274,10 @@ export class ServerSimulationCore {
     };
 
     if (!this.backgroundMode) {
-      this.simulation.onGameOver = (winnerId: PlayerId) => {
+      this.simulation.onGameOver = (winnerId: PlayerId, reason: GameOverReason) => {
         if (this.isGameOver) return;
         this.isGameOver = true;
-        this.onGameOver?.(winnerId);
+        this.onGameOver?.(winnerId, reason);
       };
     }
   }
@@ -1,5 +1,11 @@
 import type {
+  AcceptAllianceCommand,
+  ProposeAllianceCommand,
   ResignCommand,
+  SetResignHeirCommand,
+  SetAutoShareCommand,
+  ShareResourcesCommand,
+  TransferUnitsCommand,
   AreaCommandFilterCategory,
   BarAreaTargetOrder,
   AttackAreaCommand,
@@ -30,6 +36,8 @@ import type {
   StopFactoryProductionCommand,
   SetFireEnabledCommand,
   SetBuildingActiveCommand,
+  MorphCommand,
+  StockpileCommand,
   SetBuilderPriorityCommand,
   SetCarrierSpawnCommand,
   SetCloakStateCommand,
@@ -142,10 +150,27 @@ function sanitizeCommandWithTick(command: Command, world: WorldState, tick: numb
       return sanitizeSetFireEnabledCommand(command, tick);
     case 'setBuildingActive':
       return sanitizeSetBuildingActiveCommand(command, tick);
+    case 'morph':
+      return sanitizeMorphCommand(command, tick);
+    case 'stockpile':
+      return sanitizeStockpileCommand(command, tick);
     case 'selfDestruct':
       return sanitizeSelfDestructCommand(command, tick);
     case 'resign':
       return sanitizeResignCommand(command, tick);
+    case 'shareResources':
+      return sanitizeShareResourcesCommand(command, tick);
+    case 'transferUnits':
+      return sanitizeTransferUnitsCommand(command, tick);
+    case 'setAutoShare':
+      return sanitizeSetAutoShareCommand(command, tick);
+    case 'proposeAlliance':
+    case 'acceptAlliance':
+      return sanitizeAllianceCommand(command, tick);
+    case 'breakAlliance':
+      return { type: 'breakAlliance', tick };
+    case 'setResignHeir':
+      return sanitizeSetResignHeirCommand(command, tick);
     case 'setTowerTarget':
       return sanitizeSetTowerTargetCommand(command, world, tick);
     case 'attack':
@@ -664,6 +689,30 @@ function sanitizeSetBuildingActiveCommand(
     : { ...command, tick, entityIds, open: command.open };
 }
 
+function sanitizeMorphCommand(
+  command: MorphCommand,
+  tick: number,
+): MorphCommand | null {
+  const entityIds = sanitizeEntityIdArray(command.entityIds);
+  return entityIds === null || typeof command.cancel !== 'boolean'
+    ? null
+    : { type: 'morph', tick, entityIds, cancel: command.cancel };
+}
+
+function sanitizeStockpileCommand(
+  command: StockpileCommand,
+  tick: number,
+): StockpileCommand | null {
+  const entityIds = sanitizeEntityIdArray(command.entityIds);
+  return entityIds === null ||
+    !Number.isInteger(command.delta) ||
+    command.delta < -100 ||
+    command.delta > 100 ||
+    command.delta === 0
+    ? null
+    : { type: 'stockpile', tick, entityIds, delta: command.delta };
+}
+
 function sanitizeSetRepeatQueueCommand(
   command: SetRepeatQueueCommand,
   tick: number,
@@ -746,6 +795,62 @@ function sanitizeResignCommand(
   return { type: 'resign', tick, playerId: command.playerId };
 }
 
+function isShareAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function sanitizeShareResourcesCommand(
+  command: ShareResourcesCommand,
+  tick: number,
+): ShareResourcesCommand | null {
+  if (!isEntityId(command.targetPlayerId)) return null;
+  if (!isShareAmount(command.metal) || !isShareAmount(command.energy)) return null;
+  if (command.metal === 0 && command.energy === 0) return null;
+  return {
+    type: 'shareResources',
+    tick,
+    targetPlayerId: command.targetPlayerId,
+    metal: command.metal,
+    energy: command.energy,
+  };
+}
+
+function sanitizeTransferUnitsCommand(
+  command: TransferUnitsCommand,
+  tick: number,
+): TransferUnitsCommand | null {
+  const entityIds = sanitizeEntityIdArray(command.entityIds);
+  return entityIds === null || !isEntityId(command.targetPlayerId)
+    ? null
+    : { type: 'transferUnits', tick, entityIds, targetPlayerId: command.targetPlayerId };
+}
+
+function sanitizeSetAutoShareCommand(
+  command: SetAutoShareCommand,
+  tick: number,
+): SetAutoShareCommand | null {
+  if (!isShareAmount(command.metal) || command.metal > 1) return null;
+  if (!isShareAmount(command.energy) || command.energy > 1) return null;
+  return { type: 'setAutoShare', tick, metal: command.metal, energy: command.energy };
+}
+
+function sanitizeAllianceCommand<T extends ProposeAllianceCommand | AcceptAllianceCommand>(
+  command: T,
+  tick: number,
+): T | null {
+  if (!isEntityId(command.targetPlayerId)) return null;
+  return { type: command.type, tick, targetPlayerId: command.targetPlayerId } as T;
+}
+
+function sanitizeSetResignHeirCommand(
+  command: SetResignHeirCommand,
+  tick: number,
+): SetResignHeirCommand | null {
+  const heirPlayerId = command.heirPlayerId;
+  if (heirPlayerId !== null && !isEntityId(heirPlayerId)) return null;
+  return { type: 'setResignHeir', tick, heirPlayerId };
+}
+
 function sanitizeSelfDestructCommand(
   command: SelfDestructCommand,
   tick: number,
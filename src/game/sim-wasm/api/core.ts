@@ -1114,6 +1114,16 @@ export interface SimWasm {
     pointsXy: Float64Array,
     outFades: Float64Array,
   ) => number;
+  /** Install an authored map's heightfield (columns x rows, row-major,
+   *  corner to corner over the map) in place of the generated natural
+   *  field. Returns 0 — keeping the previous field — on a malformed grid. */
+  readonly terrainSetAuthoredHeightfield: (
+    columns: number,
+    rows: number,
+    heights: Float64Array,
+  ) => number;
+  /** Drop the authored heightfield; the natural field generates again. */
+  readonly terrainClearAuthoredHeightfield: () => void;
   /** Vegetation — trees, grass, and seaweed as reclaimable energy
    *  deposits. Rust owns deterministic placement, the prop store, the
    *  BAR gradual-reclaim arithmetic, and the removal log; TS owns
@@ -1138,6 +1148,13 @@ export interface SimWasm {
   readonly vegetationCount: () => number;
   readonly vegetationReadProps: (outRows: Float64Array) => number;
   readonly vegetationPropState: (index: number, out: Float64Array) => number;
+  readonly vegetationRestorePropState: (
+    index: number,
+    alive: number,
+    hp: number,
+    energyLeft: number,
+    metalLeft: number,
+  ) => number;
   readonly vegetationQueryCircle: (
     x: number,
     y: number,
@@ -1218,6 +1235,14 @@ export interface SimWasm {
     cellsX: number,
     cellsY: number,
   ) => void;
+  /** Overwrite individual installed vertex heights in place (craters) and
+   *  refresh the line-of-sight max-height table around them. Returns 0 —
+   *  with nothing written — when no mesh is installed or an index is out
+   *  of range. */
+  readonly terrainSetVertexHeights: (
+    vertexIndices: Uint32Array,
+    heights: Float64Array,
+  ) => number;
   /** Drop the installed mesh — Vecs come back to Rust's allocator
    *  and `terrainIsInstalled` returns 0. Sampling falls back to the
    *  TS path until the next install. */
@@ -1327,6 +1352,24 @@ export interface SimWasm {
     flagsOut: Uint8Array,
     levelsOut: Int32Array,
   ) => number;
+  /** Re-bake the build squares in `[minGx, maxGx) x [minGy, maxGy)`
+   *  into an already-complete grid after the mesh under them moved.
+   *  Same return contract as `terrainBakeBuildabilityGrid`. */
+  readonly terrainRebakeBuildabilityRegion: (
+    mapWidth: number,
+    mapHeight: number,
+    buildCellSize: number,
+    terrainDTerrain: number,
+    shelfHeightTolerance: number,
+    minNormalUp: number,
+    flatZones: Float64Array,
+    minGx: number,
+    minGy: number,
+    maxGx: number,
+    maxGy: number,
+    flagsOut: Uint8Array,
+    levelsOut: Int32Array,
+  ) => number;
   /** Phase 6c — segment-vs-terrain line-of-sight test. Returns:
    *    0 = ground blocks the ray
    *    1 = segment clears terrain end to end
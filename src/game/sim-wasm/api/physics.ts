@@ -27,6 +27,18 @@ export interface PathfinderApi {
    *  Resets the building occupancy layer (version 0) so the caller resyncs
    *  it afterward. */
   rebuildTerrainMaskAndCc: (terrainVersion: number) => void;
+  /** Move the terrain mask from `fromVersion` to `toVersion` by
+   *  re-sampling only the cells under a world rectangle whose terrain
+   *  changed in place. Keeps the building occupancy layer. Falls back to
+   *  the full rebuild when the installed mask is not `fromVersion`. */
+  refreshTerrainRegion: (
+    fromVersion: number,
+    toVersion: number,
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+  ) => void;
   /** Replace the building occupancy layer with the given grounded footprint
    *  cells in canonical 20-wu build-grid coordinates; Rust conservatively
    *  maps them into the configured path grid and re-runs the O(n)
@@ -186,11 +186,14 @@ import __wbg_init, {
   metal_deposit_scatter_metal_cells,
   metal_deposit_bake_surface_field,
   terrain_sample_map_boundary_fades,
+  terrain_set_authored_heightfield,
+  terrain_clear_authored_heightfield,
   vegetation_clear,
   vegetation_generate,
   vegetation_count,
   vegetation_read_props,
   vegetation_prop_state,
+  vegetation_restore_prop_state,
   vegetation_query_circle,
   vegetation_raycast,
   vegetation_apply_reclaim_tick,
@@ -198,6 +201,7 @@ import __wbg_init, {
   vegetation_read_removed,
   vegetation_state_hash,
   terrain_install_mesh,
+  terrain_set_vertex_heights,
   terrain_clear,
   terrain_is_installed,
   terrain_count_cell_triangle_refs,
@@ -212,6 +216,7 @@ import __wbg_init, {
   terrain_sample_force_support_for_slots,
   terrain_sample_water_probe_masks,
   terrain_bake_buildability_grid,
+  terrain_rebake_buildability_region,
   terrain_has_line_of_sight,
   fog_mark_circle_scanline,
   fog_mark_circle_scanline_rgba,
@@ -315,6 +320,7 @@ import __wbg_init, {
   pathfinder_init,
   pathfinder_compute_locomotion_climb_profile,
   pathfinder_rebuild_terrain_mask_and_cc,
+  pathfinder_refresh_terrain_region,
   pathfinder_bake_traversability_grid,
   pathfinder_sync_building_occupancy,
   pathfinder_building_occupancy_version,
@@ -1023,11 +1029,14 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         metalDepositGrowMetalCells: metal_deposit_grow_metal_cells,
         metalDepositBakeSurfaceField: metal_deposit_bake_surface_field,
         terrainSampleMapBoundaryFades: terrain_sample_map_boundary_fades,
+        terrainSetAuthoredHeightfield: terrain_set_authored_heightfield,
+        terrainClearAuthoredHeightfield: terrain_clear_authored_heightfield,
         vegetationClear: vegetation_clear,
         vegetationGenerate: vegetation_generate,
         vegetationCount: vegetation_count,
         vegetationReadProps: vegetation_read_props,
         vegetationPropState: vegetation_prop_state,
+        vegetationRestorePropState: vegetation_restore_prop_state,
         vegetationQueryCircle: vegetation_query_circle,
         vegetationRaycast: vegetation_raycast,
         vegetationApplyReclaimTick: vegetation_apply_reclaim_tick,
@@ -1035,6 +1044,7 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         vegetationReadRemoved: vegetation_read_removed,
         vegetationStateHash: vegetation_state_hash,
         terrainInstallMesh: terrain_install_mesh,
+        terrainSetVertexHeights: terrain_set_vertex_heights,
         terrainClear: terrain_clear,
         terrainIsInstalled: terrain_is_installed,
         terrainCountCellTriangleRefs: terrain_count_cell_triangle_refs,
@@ -1049,6 +1059,7 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         terrainSampleForceSupportForSlots: terrain_sample_force_support_for_slots,
         terrainSampleWaterProbeMasks: terrain_sample_water_probe_masks,
         terrainBakeBuildabilityGrid: terrain_bake_buildability_grid,
+        terrainRebakeBuildabilityRegion: terrain_rebake_buildability_region,
         terrainHasLineOfSight: terrain_has_line_of_sight,
         fogMarkCircleScanline: fog_mark_circle_scanline,
         fogMarkCircleScanlineRgba: fog_mark_circle_scanline_rgba,
@@ -1058,6 +1069,7 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
           init: pathfinder_init,
           computeLocomotionClimbProfile: pathfinder_compute_locomotion_climb_profile,
           rebuildTerrainMaskAndCc: pathfinder_rebuild_terrain_mask_and_cc,
+          refreshTerrainRegion: pathfinder_refresh_terrain_region,
           bakeTraversabilityGrid: pathfinder_bake_traversability_grid,
           syncBuildingOccupancy: pathfinder_sync_building_occupancy,
           buildingOccupancyVersion: pathfinder_building_occupancy_version,
@@ -1554,10 +1566,16 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         runLockstepDiagnosticsContractTest();
         const { runCanonicalCheckpointContractTest } = await import('../architecture/CanonicalCheckpointContractTest');
         runCanonicalCheckpointContractTest();
+        const { runSimulationSaveContractTest } = await import('../architecture/SimulationSaveContractTest');
+        runSimulationSaveContractTest();
         const { runMatchArchiveReplayContractTest } = await import('../architecture/MatchArchiveReplayContractTest');
         runMatchArchiveReplayContractTest();
+        const { runDesyncBisectionContractTest } = await import('../architecture/DesyncBisectionContractTest');
+        runDesyncBisectionContractTest();
         const { runReplayRecorderContractTest } = await import('../server/ReplayRecorderContractTest');
         runReplayRecorderContractTest();
+        const { runReplayPlaybackContractTest } = await import('../server/ReplayPlaybackContractTest');
+        runReplayPlaybackContractTest();
         const { runForceAccumulatorContractTest } = await import('../sim/ForceAccumulatorContractTest');
         runForceAccumulatorContractTest();
         const { runSeededRNGContractTest } = await import('../sim/SeededRNGContractTest');
@@ -1566,6 +1584,8 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         runSnapshotEntityWirePackContractTest();
         const { runNetworkLockstepTransportContractTest } = await import('../network/NetworkLockstepTransportContractTest');
         runNetworkLockstepTransportContractTest();
+        const { runWebSocketDataConnectionContractTest } = await import('../network/WebSocketDataConnectionContractTest');
+        runWebSocketDataConnectionContractTest();
         const { runNetworkManagerLockstepBufferContractTest } = await import('../network/NetworkManagerLockstepBufferContractTest');
         runNetworkManagerLockstepBufferContractTest();
         const { runLobbySettingsContractTest } = await import('../network/LobbySettingsContractTest');
@@ -1652,6 +1672,34 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         runCommandCoverageContractTest();
         const { runSimulationGameOverContractTest } = await import('../sim/SimulationGameOverContractTest');
         runSimulationGameOverContractTest();
+        const { runMatchStatsContractTest } = await import('../sim/matchStatsContractTest');
+        runMatchStatsContractTest();
+        const { runTeamSharingContractTest } = await import('../sim/teamSharingContractTest');
+        runTeamSharingContractTest();
+        const { runDiplomacyContractTest } = await import('../sim/diplomacyContractTest');
+        runDiplomacyContractTest();
+        const { runTerrainCratersContractTest } = await import('../sim/terrain/terrainCratersContractTest');
+        runTerrainCratersContractTest();
+        const { runAuthoredMapContractTest } = await import('../sim/terrain/authoredMapContractTest');
+        runAuthoredMapContractTest();
+        const { runMapEditorDocumentContractTest } = await import('../mapEditor/MapEditorDocumentContractTest');
+        runMapEditorDocumentContractTest();
+        const { runSpatialAudioContractTest } = await import('../audio/spatialAudioContractTest');
+        runSpatialAudioContractTest();
+        const { runMusicDirectorContractTest } = await import('../audio/musicDirectorContractTest');
+        runMusicDirectorContractTest();
+        const { runRtsScene3DAlertSystemContractTest } = await import('../scenes/helpers/RtsScene3DAlertSystemContractTest');
+        runRtsScene3DAlertSystemContractTest();
+        const { runStatusEffectsContractTest } = await import('../sim/statusEffectsContractTest');
+        runStatusEffectsContractTest();
+        const { runArmorContractTest } = await import('../sim/damage/armorContractTest');
+        runArmorContractTest();
+        const { runVeterancyContractTest } = await import('../sim/veterancyContractTest');
+        runVeterancyContractTest();
+        const { runStrategicWeaponsContractTest } = await import('../sim/strategicWeaponsContractTest');
+        runStrategicWeaponsContractTest();
+        const { runTechTreeContractTest } = await import('../sim/techTreeContractTest');
+        runTechTreeContractTest();
         const { runSimulationUnitActionPlannerContractTest } = await import('../sim/SimulationUnitActionPlannerContractTest');
         runSimulationUnitActionPlannerContractTest();
         const { runEntityCacheManagerContractTest } = await import('../sim/EntityCacheManagerContractTest');
@@ -1802,6 +1850,8 @@ export function initSimWasm(moduleOrPath?: InitInput | Promise<InitInput>): Prom
         runTeamColorContractTest();
         const { runTerrainUnderwaterDarkeningContractTest } = await import('../sim/terrain/terrainUnderwaterDarkeningContractTest');
         runTerrainUnderwaterDarkeningContractTest();
+        const { runSimulationBotPolicyContractTest } = await import('../sim/SimulationBotPolicyContractTest');
+        runSimulationBotPolicyContractTest();
       }
       return handle;
     })();
@@ -5,6 +5,7 @@ import type { Entity, EntityId, PlayerId } from './types';
 import { isRayType } from './types';
 import { isBuildInProgress } from './buildableHelpers';
 import { isMetalExtractorBlueprintId } from '../../types/buildingTypes';
+import { buildingBlueprintGrantsTech } from './techTree';
 import { entitySlotRegistry } from './EntitySlotRegistry';
 import { isAttackEmitterConfig } from './emitterKinds';
 
@@ -352,9 +353,7 @@ export class EntityCacheManager {
           entity.buildingBlueprintId === 'buildingSonar' ||
           entity.buildingBlueprintId === 'buildingRadarJammer' ||
           entity.buildingBlueprintId === 'buildingSonarJammer' ||
-          entity.buildingBlueprintId === 'buildingShieldTargetingTech' ||
-          entity.buildingBlueprintId === 'buildingShieldTech' ||
-          entity.buildingBlueprintId === 'buildingPrecisionTargetingTech'
+          buildingBlueprintGrantsTech(entity.buildingBlueprintId)
         ) {
           addEntityToList(this.cachedActiveStateBuildings, entity, sortedInsert);
         }
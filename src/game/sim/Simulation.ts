@@ -2,6 +2,7 @@ import { WorldState } from './WorldState';
 import { CommandQueue } from './commands';
 import type { Entity, EntityId, PlayerId, Unit, UnitAction, UnitPathPoint } from './types';
 import type { TerrainBuildabilityGrid } from '@/types/terrain';
+import type { GridCell } from '@/types/ui';
 import { magnitude } from '../math';
 import { executeCommand, selfDestructCountdownTicks, type CommandContext } from './commandExecution';
 import { distributeEnergy, createEnergyBuffers, resetEnergyBuffers, type EnergyBuffers } from './energyDistribution';
@@ -20,11 +21,18 @@ import {
 } from './combat';
 import { DamageSystem } from './damage';
 import { economyManager } from './economy';
+import { applyAutoShare } from './teamSharing';
+import { updateMorphs } from './morph';
+import { updateStockpiles } from './strategicWeapons';
 import { ConstructionSystem } from './construction';
 import { factoryProductionSystem } from './factoryProduction';
 import { updateConstructionLifecycle } from './constructionLifecycle';
 import { isBuildBlockingActivation } from './buildableHelpers';
-import { commanderAbilitiesSystem, type SprayTarget } from './commanderAbilities';
+import {
+  commanderAbilitiesSystem,
+  type CaptureProgressSaveState,
+  type SprayTarget,
+} from './commanderAbilities';
 import { updateUnitGroundNormal } from './unitGroundNormal';
 import { ForceAccumulator } from './ForceAccumulator';
 import { spatialGrid } from './SpatialGrid';
@@ -63,12 +71,15 @@ import {
   PATH_REQUEST_REFRESH,
   selectPathPlanTeamTurn,
   SimulationPathPlanScheduler,
+  type PathPlanSchedulerSaveState,
 } from './SimulationPathPlanScheduler';
 import { registerPathfinderBuildingOccupancy } from './pathfinderTerrainCache';
 import { getAllyTeamId, type AllyTeamId } from './teamRoster';
 import { getUnitLocomotionTraversalCapabilities } from './unitLocomotion';
 import { updateBuildingActiveStates } from './buildingActiveState';
 import { applyLavaSurfaceDamage } from './lavaSurfaceDamage';
+import { isParalyzed, updateStatusEffects } from './statusEffects';
+import { updateVeterancy } from './veterancy';
 import { getEntityTargetPoint } from './buildingAnchors';
 import { getGuardFollowRadius, isFriendlyGuardTarget, resolveGuardServiceTarget } from './guard';
 import { getRecentHostileAttacker } from './aggression';
@@ -90,12 +101,23 @@ import {
   hasQueuedActionIntents,
 } from './unitActionIntents';
 import { SimulationEventQueues } from './SimulationEventQueues';
-import { resolveCommanderGameOverWinner } from './SimulationGameOver';
+import {
+  SimulationGameOver,
+  type ControlPoint,
+  type VictorySaveState,
+} from './SimulationGameOver';
+import type { GameOverReason, VictoryCondition } from '@/types/victoryCondition';
+import type { MatchStatsReport } from './matchStats';
 import { SimulationDeathExplosionPlanner } from './SimulationDeathExplosionPlanner';
 import { SimulationDeadEntityCleanup } from './SimulationDeadEntityCleanup';
 import { SimulationCombatController } from './SimulationCombatController';
 import { SimulationActionQueueMaintenance } from './SimulationActionQueueMaintenance';
-import { SimulationIdleBuilderAutoRepair } from './SimulationIdleBuilderAutoRepair';
+import {
+  SimulationIdleBuilderAutoRepair,
+  type IdleBuilderAutoRepairSaveState,
+} from './SimulationIdleBuilderAutoRepair';
+import { SimulationBotPolicy, type BotSeatPlan } from './SimulationBotPolicy';
+import { normalizeBotProfile, type SeatBotProfile } from './agentSeat';
 import {
   ARRIVAL_RADIUS,
   SimulationArrivalController,
@@ -211,6 +233,29 @@ type ActivePathPlanJob = {
   formationCacheKey: string | null;
 };
 
+/** The simulation's own cross-tick state, as a save file carries it.
+ *
+ *  The per-tick controllers (arrival, loiter, halt, planners) rebuild from
+ *  the entities every step and are left as resetSessionState leaves them.
+ *  An A* search that was mid-flight is not carried: its unit rejoins the
+ *  fresh lane and plans again from where it stands. */
+export type SimulationSaveState = {
+  gamePhase: GamePhase;
+  winnerId: PlayerId | null;
+  gameOverReason: GameOverReason | null;
+  victory: VictorySaveState;
+  simElapsedMs: number;
+  windState: WindState;
+  windAppliedProduction: [PlayerId, number][];
+  botPlans: BotSeatPlan[];
+  idleBuilderAutoRepair: IdleBuilderAutoRepairSaveState;
+  captureProgress: CaptureProgressSaveState;
+  buildingGridCells: [number, GridCell][];
+  pathPlanScheduler: PathPlanSchedulerSaveState;
+  interruptedPathPlans: { entityId: EntityId; forceLocal: boolean }[];
+  formationRouteCache: [string, ExpandedPathPlan][];
+};
+
 // ── Stuck-detection / replanning ─────────────────────────────────
 //
 // A unit that wants to move (thrust set) but isn't actually moving
@@ -261,11 +306,13 @@ export class Simulation {
   private world: WorldState;
   private commandQueue: CommandQueue;
   private constructionSystem: ConstructionSystem;
+  private readonly morphedUnits: Entity[] = [];
   private damageSystem: DamageSystem;
   private deathExplosionPlanner: SimulationDeathExplosionPlanner;
   private combatController: SimulationCombatController;
   private actionQueueMaintenance: SimulationActionQueueMaintenance;
   private idleBuilderAutoRepair: SimulationIdleBuilderAutoRepair;
+  private botPolicy: SimulationBotPolicy;
   private deadEntityCleanup: SimulationDeadEntityCleanup;
   private arrivalController: SimulationArrivalController;
   private combatHaltController: SimulationCombatHaltController;
@@ -298,6 +345,8 @@ export class Simulation {
 
   // Track if game is over
   private gameOverWinnerId: PlayerId | null = null;
+  private gameOverReason: GameOverReason | null = null;
+  private readonly gameOver: SimulationGameOver;
 
   // Game phase FSM
   private gamePhase: GamePhase = 'init';
@@ -331,8 +380,8 @@ export class Simulation {
   // Callback for audio events
   public onSimEvent: ((event: SimEvent) => void) | null = null;
 
-  // Callback for game over (passes winner ID)
-  public onGameOver: ((winnerId: PlayerId) => void) | null = null;
+  // Callback for game over (passes winner ID and why the match ended)
+  public onGameOver: ((winnerId: PlayerId, reason: GameOverReason) => void) | null = null;
 
   constructor(
     world: WorldState,
@@ -384,6 +433,8 @@ export class Simulation {
       (entity) => this.advanceAction(entity),
     );
     this.idleBuilderAutoRepair = new SimulationIdleBuilderAutoRepair(this.world);
+    this.botPolicy = new SimulationBotPolicy(this.world);
+    this.gameOver = new SimulationGameOver(this.world);
     this.arrivalController = new SimulationArrivalController(this.world, {
       advanceAction: (entity) => this.advanceAction(entity),
       advanceActivePathPoint: (entity) => this.advanceActivePathPoint(entity),
@@ -404,6 +455,9 @@ export class Simulation {
   // AI player IDs (for auto-production)
   private aiPlayerIds: Set<PlayerId> = new Set();
   private aiAllowedUnitBlueprintIds: ReadonlySet<string> | null = null;
+  // Bot seats whose builders and army are driven by SimulationBotPolicy,
+  // with the difficulty/personality each one plays at
+  private botPolicySeats: Map<PlayerId, SeatBotProfile> = new Map();
 
   // Set the player IDs for this game
   setPlayerIds(playerIds: PlayerId[]): void {
@@ -415,6 +469,35 @@ export class Simulation {
     this.aiPlayerIds = new Set(ids);
   }
 
+  // Set which bot seats also build, expand, and attack on their own
+  setBotPolicyPlayerIds(
+    ids: PlayerId[],
+    profileByPlayerId: Readonly<Record<number, SeatBotProfile>> = {},
+  ): void {
+    this.botPolicySeats = new Map();
+    for (const id of [...new Set(ids)].sort((a, b) => a - b)) {
+      this.botPolicySeats.set(id, normalizeBotProfile(profileByPlayerId[id]));
+    }
+  }
+
+  // Set how this match is won (see src/types/victoryCondition.ts)
+  setVictoryCondition(condition: Partial<VictoryCondition> | undefined): void {
+    this.gameOver.setCondition(condition);
+  }
+
+  getVictoryCondition(): VictoryCondition {
+    return this.gameOver.getCondition();
+  }
+
+  // Control points in play (empty unless the victory mode uses them)
+  getControlPoints(): readonly ControlPoint[] {
+    return this.gameOver.getControlPoints();
+  }
+
+  getVictoryProgress(): VictorySaveState {
+    return this.gameOver.exportSaveState();
+  }
+
   // Set allowed unit blueprints for AI production (null = all allowed)
   setAiAllowedUnitBlueprintIds(types: ReadonlySet<string> | null | undefined = null): void {
     this.aiAllowedUnitBlueprintIds = types ?? null;
@@ -425,6 +508,21 @@ export class Simulation {
     return this.gameOverWinnerId;
   }
 
+  // Why the match ended (null if game not over)
+  getGameOverReason(): GameOverReason | null {
+    return this.gameOverReason;
+  }
+
+  /** The end-of-match statistics so far; final once the match is over. */
+  getMatchStatsReport(): MatchStatsReport {
+    return this.world.matchStats.exportReport(
+      this.world,
+      this.playerIds,
+      this.gameOverWinnerId,
+      this.gameOverReason,
+    );
+  }
+
   // Get current game phase
   getGamePhase(): GamePhase {
     return this.gamePhase;
@@ -501,6 +599,10 @@ export class Simulation {
     // this tick lands in a clean list.
     this.world.pruneExpiredScanPulses(tick);
 
+    // Craters from last tick's blasts may have sunk build squares; placement
+    // this tick judges the ground as it now is.
+    this.constructionSystem.refreshTerrainBuildability();
+
     // Process commands for this tick
     const cmdCtx: CommandContext = {
       world: this.world,
@@ -530,6 +632,11 @@ export class Simulation {
     // semantics, so every "the world killed me" rule resolves before anything
     // downstream reads hp this tick. A no-op unless LIQUID = LAVA.
     applyLavaSurfaceDamage(this.world, dtMs);
+    // Burn drains the same way; stuns and slows wear off before this tick's
+    // movement and fire read them.
+    updateStatusEffects(this.world, dtMs);
+    // Ranked units heal after anything draining them has had its say.
+    updateVeterancy(this.world, dtMs);
     SIM_TICK_INSTRUMENTATION.phase('sim.commands');
 
     // Solar collectors, wind turbines, and metal extractors share a
@@ -567,10 +674,27 @@ export class Simulation {
     // Distribute energy equally among all active consumers (factories, construction, commander)
     distributeEnergy(this.world, dtMs, this.energyBuffers);
 
+    // Morphs draw from whatever construction left in the stockpiles.
+    // Finished ones swap their entity out: replacement units need bodies
+    // now, replacement buildings queue theirs through addEntity.
+    const morphedUnits = this.morphedUnits;
+    morphedUnits.length = 0;
+    updateMorphs(this.world, this.constructionSystem, dtMs, morphedUnits);
+    if (morphedUnits.length > 0) {
+      const onUnitSpawn = this.onUnitSpawn;
+      if (onUnitSpawn !== null) onUnitSpawn(morphedUnits);
+    }
+    this.flushPendingBuildingBodies();
+    // Stockpiled rounds draw the same way, after morphs.
+    updateStockpiles(this.world, dtMs);
+
     // Resource converters are one-way energy -> metal makers. Run after
     // construction/factory energy distribution so converters consume the
     // leftover post-construction stockpile instead of deepening stalls.
     economyManager.processConverters(this.world, dtMs);
+    // Overflow flows to allies last, so it only ever moves what this tick's
+    // spending and conversion left standing.
+    applyAutoShare(this.world, this.playerIds);
     SIM_TICK_INSTRUMENTATION.phase('sim.energy');
 
     // Shared construction lifecycle for both building shells and
@@ -583,10 +707,21 @@ export class Simulation {
     if (constructionResult.decayedBuildings.length > 0) {
       this.removeDecayedConstructionShells(constructionResult.decayedBuildings);
     }
+    for (let i = 0; i < constructionResult.completedBuildings.length; i++) {
+      this.world.matchStats.recordBuilt(constructionResult.completedBuildings[i]);
+    }
     SIM_TICK_INSTRUMENTATION.phase('sim.construction');
 
+    // Bot seats plan construction, constructors, and army orders
+    this.botPolicy.update(cmdCtx, this.botPolicySeats, this.aiAllowedUnitBlueprintIds);
+
     // AI auto-queues units at idle factories
-    updateAiProduction(this.world, this.aiPlayerIds, this.aiAllowedUnitBlueprintIds);
+    updateAiProduction(
+      this.world,
+      this.aiPlayerIds,
+      this.aiAllowedUnitBlueprintIds,
+      this.botPolicySeats,
+    );
 
     // Update factory production
     const productionResult = factoryProductionSystem.update(
@@ -605,6 +740,9 @@ export class Simulation {
     if (productionResult.completedUnits.length > 0) {
       const onUnitSpawn = this.onUnitSpawn;
       if (onUnitSpawn !== null) onUnitSpawn(productionResult.completedUnits);
+      for (let i = 0; i < productionResult.completedUnits.length; i++) {
+        this.world.matchStats.recordBuilt(productionResult.completedUnits[i]);
+      }
     }
     SIM_TICK_INSTRUMENTATION.phase('sim.production');
 
@@ -654,15 +792,27 @@ export class Simulation {
       this.onSimEvent,
       this.onUnitDeath,
       this.onBuildingDeath,
+      this.onBuildingSpawn,
     );
     // Safety cleanup - remove any dead entities that slipped through.
     // WorldState records ids whose HP changed, so this drains only
     // those candidates instead of walking every unit/building.
-    this.deadEntityCleanup.run(this.onUnitDeath, this.onBuildingDeath, this.onBuildingSpawn);
+    this.deadEntityCleanup.run(
+      this.onUnitDeath,
+      this.onBuildingDeath,
+      this.onBuildingSpawn,
+      commanderResult.reclaimedEntityIds,
+    );
     SIM_TICK_INSTRUMENTATION.phase('sim.deadCleanup');
 
-    // Check for game over (commander death)
-    this.checkGameOver();
+    // Statistics after every death and resource movement of the tick
+    if (this.gameOverWinnerId === null) this.world.matchStats.endTick(this.world, this.playerIds);
+
+    // Check for game over under the match's victory condition
+    if (this.checkGameOver()) {
+      // Close the time series on the final tick
+      this.world.matchStats.sample(this.world, this.playerIds, this.world.getTick() + 1);
+    }
 
     // Finalize force accumulator (sums all contributions)
     this.forceAccumulator.finalize();
@@ -691,16 +841,17 @@ export class Simulation {
     spatialGrid.updateProjectiles(this.world.getTravelingProjectiles());
   }
 
-  // Check for game over - last commander standing wins
+  // Check for game over - the lobby's victory condition decides
   private checkGameOver(): boolean {
     if (this.gameOverWinnerId !== null) return false; // Already over
-    const winnerId = resolveCommanderGameOverWinner(this.world, this.playerIds);
-    if (winnerId === null) return false;
+    const result = this.gameOver.evaluate(this.playerIds);
+    if (result === null) return false;
 
-    this.gameOverWinnerId = winnerId;
+    this.gameOverWinnerId = result.winnerId;
+    this.gameOverReason = result.reason;
     this.gamePhase = transitionPhase(this.gamePhase, 'gameOver');
     const onGameOver = this.onGameOver;
-    if (onGameOver !== null) onGameOver(winnerId);
+    if (onGameOver !== null) onGameOver(result.winnerId, result.reason);
     return true;
   }
 
@@ -1956,6 +2107,13 @@ export class Simulation {
       // Default: no thrust (contact braking/drag will slow or hold the unit)
       entitySlotRegistry.setUnitDriveInput(entity, 0, 0, 0, 0, entitySlot);
 
+      // A paralyzed unit keeps its orders but neither plans nor drives
+      // until the stun wears off.
+      if (isParalyzed(entity)) {
+        unit.stuckTicks = 0;
+        continue;
+      }
+
       // Clear priority target — re-set below by attack / attack-ground actions.
       if (entity.combat) {
         if (!entity.combat.manualLaunchActive) {
@@ -2685,6 +2843,62 @@ export class Simulation {
     }
   }
 
+  exportSaveState(): SimulationSaveState {
+    const interruptedPathPlans: SimulationSaveState['interruptedPathPlans'] = [];
+    for (const job of this.activePathPlanJobs.values()) {
+      interruptedPathPlans.push({ entityId: job.entityId, forceLocal: job.forceLocal });
+    }
+    interruptedPathPlans.sort((a, b) => a.entityId - b.entityId);
+    return {
+      gamePhase: this.gamePhase,
+      winnerId: this.gameOverWinnerId,
+      gameOverReason: this.gameOverReason,
+      victory: this.gameOver.exportSaveState(),
+      simElapsedMs: this.simElapsedMs,
+      windState: { ...this.windState },
+      windAppliedProduction: this.windPowerTracker.exportAppliedProduction(),
+      botPlans: this.botPolicy.exportSaveState(),
+      idleBuilderAutoRepair: this.idleBuilderAutoRepair.exportSaveState(),
+      captureProgress: commanderAbilitiesSystem.exportCaptureProgress(),
+      buildingGridCells: this.constructionSystem.getGrid().exportCells(),
+      pathPlanScheduler: this.pathPlanScheduler.exportSaveState(),
+      interruptedPathPlans,
+      formationRouteCache: [...this.formationRouteCache],
+    };
+  }
+
+  /** Adopt a save's simulation state. Call on a session already cleared by
+   *  resetSessionState, with the saved entities back in the world. */
+  restoreSaveState(state: SimulationSaveState): void {
+    this.gamePhase = state.gamePhase;
+    this.gameOverWinnerId = state.winnerId;
+    this.gameOverReason = state.gameOverReason;
+    this.gameOver.restoreSaveState(state.victory);
+    this.simElapsedMs = state.simElapsedMs;
+    this.windState = { ...state.windState };
+    this.windPowerTracker.restoreAppliedProduction(state.windAppliedProduction);
+    this.botPolicy.restoreSaveState(state.botPlans);
+    this.idleBuilderAutoRepair.restoreSaveState(state.idleBuilderAutoRepair);
+    commanderAbilitiesSystem.restoreCaptureProgress(state.captureProgress);
+    this.constructionSystem.getGrid().restoreCells(state.buildingGridCells);
+    this.pathPlanScheduler.restoreSaveState(state.pathPlanScheduler);
+    for (const { entityId, forceLocal } of state.interruptedPathPlans) {
+      const entity = this.world.getEntity(entityId);
+      const unit = entity?.unit ?? null;
+      if (entity === undefined || unit === null) continue;
+      // Same recovery as a job invalidated mid-search: clear the lane the
+      // lost job held and ask again.
+      unit.pathRequestLane = PATH_REQUEST_NONE;
+      unit.pathRequestForceLocal = false;
+      const action = unit.actions[0];
+      if (action !== undefined && PATH_PLAN_SERVE_ACTION_TYPES.has(action.type)) {
+        this.pathPlanScheduler.requestFresh(entity, forceLocal);
+      }
+    }
+    this.formationRouteCache.clear();
+    for (const [key, plan] of state.formationRouteCache) this.formationRouteCache.set(key, plan);
+  }
+
   // Reset all session state (call between game sessions to free stale references)
   resetSessionState(): void {
     this.forceAccumulator.reset();
@@ -2701,6 +2915,7 @@ export class Simulation {
     this.pathPlanScheduler.reset();
     this.combatHaltController.reset();
     this.idleBuilderAutoRepair.reset();
+    this.botPolicy.reset();
     this.unitActionPlanner.reset();
     this.unitActionMovementPlanner.reset();
     this.world.clearPendingDeathCheckIds();
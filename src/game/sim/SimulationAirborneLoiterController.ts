@@ -3,6 +3,7 @@ import { getSimWasm } from '../sim-wasm/init';
 import type { Entity, Unit, UnitAction } from './types';
 import type { WorldState } from './WorldState';
 import { entitySlotRegistry } from './EntitySlotRegistry';
+import { getStatusSpeedMultiplier } from './statusEffects';
 import { growTypedArrays, nextDoublingCapacity } from '../memory/typedArrayGrowth';
 
 export const SIMULATION_INVALID_BODY_SLOT = 0xffffffff;
@@ -136,10 +137,11 @@ export class SimulationAirborneLoiterController {
       const entity = this.entities[i];
       const unit = entity.unit;
       if (unit) {
+        const speedMultiplier = getStatusSpeedMultiplier(entity);
         entitySlotRegistry.setUnitDriveInput(
           entity,
-          this.outX[i],
-          this.outY[i],
+          this.outX[i] * speedMultiplier,
+          this.outY[i] * speedMultiplier,
           this.outX[i],
           this.outY[i],
           this.entitySlots[i],
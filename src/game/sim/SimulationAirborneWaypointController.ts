@@ -5,6 +5,7 @@ import { SIMULATION_INVALID_BODY_SLOT } from './SimulationAirborneLoiterControll
 import { isMovementAnchorAction } from './unitActions';
 import { PATHFINDING_ARRIVAL_RADIUS } from './pathfindingTuning';
 import { entitySlotRegistry } from './EntitySlotRegistry';
+import { getStatusSpeedMultiplier } from './statusEffects';
 import { growTypedArrays, nextDoublingCapacity } from '../memory/typedArrayGrowth';
 
 /** Turn-radius clamp for R = speed / maxYawRate (the yaw ceiling comes from
@@ -142,10 +143,11 @@ export class SimulationAirborneWaypointController {
       const entity = this.entities[i];
       const unit = entity.unit;
       if (unit) {
+        const speedMultiplier = getStatusSpeedMultiplier(entity);
         entitySlotRegistry.setUnitDriveInput(
           entity,
-          this.outThrustX[i],
-          this.outThrustY[i],
+          this.outThrustX[i] * speedMultiplier,
+          this.outThrustY[i] * speedMultiplier,
           this.outThrustX[i],
           this.outThrustY[i],
           this.entitySlots[i],
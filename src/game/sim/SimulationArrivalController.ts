@@ -7,6 +7,7 @@ import {
   PATHFINDING_INTERMEDIATE_CORRIDOR_WU,
 } from './pathfindingTuning';
 import { entitySlotRegistry } from './EntitySlotRegistry';
+import { getStatusSpeedMultiplier } from './statusEffects';
 import { growTypedArrays, nextDoublingCapacity } from '../memory/typedArrayGrowth';
 
 /** Distance (world units) at which the movement controller considers a
@@ -218,9 +219,10 @@ export class SimulationArrivalController {
     // Explicit action speed limits remain active when the global final-arrival
     // brake is off. Only an authored full-thrust locomotion policy bypasses
     // those limits.
-    const speedLimitFactor = maintainFullThrustAtWaypoints
+    // Slow stacks cut the drive under every policy, full thrust included.
+    const speedLimitFactor = (maintainFullThrustAtWaypoints
       ? 1
-      : normalizeActionSpeedLimitFactor(action.speedLimitFactor);
+      : normalizeActionSpeedLimitFactor(action.speedLimitFactor)) * getStatusSpeedMultiplier(entity);
     const index = this.count++;
     this.ensureCapacity(this.count);
     this.entities[index] = entity;
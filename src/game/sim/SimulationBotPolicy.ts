@@ -0,0 +1,716 @@
+// Strategic policy for 'bot' seats (agentSeat.ts).
+//
+// aiProduction.ts keeps every idle bot factory busy; this layer decides
+// everything a factory cannot: what the seat's builders put down and where,
+// when a factory should slot in another constructor, and when the produced
+// army gathers, defends, or attacks. It issues ordinary commands through
+// executeCommand, so a bot gets exactly the placement, pathing, and economy
+// rules a human gets — no free structures and no direct action writes.
+// How fast it thinks and how big it plays come from the seat's profile
+// (botProfiles.ts).
+//
+// Every decision reads world state and the seat's own RNG stream
+// (WorldState.nextRandom), runs on a fixed tick cadence, and iterates in
+// stable entity order, so lockstep peers reach the same orders on the same
+// tick without any of it crossing the wire.
+
+import { deterministicMath as DMath } from '@/game/sim/deterministicMath';
+import type { WorldState } from './WorldState';
+import type { CommandContext } from './commandExecution';
+import { executeCommand } from './commandExecution';
+import type { BuildingBlueprintId, Entity, EntityId, PlayerId } from './types';
+import { economyManager } from './economy';
+import { entityCanBuild } from './hostCapabilities';
+import { isBuildInProgress, isEntityActive } from './buildableHelpers';
+import { isIdleBuilderUnit } from './idleBuilders';
+import { isSatisfiedMovementAnchorAction } from './unitActions';
+import { factoryCanProduceUnit } from './factoryProductionRoster';
+import { getSpawnPositionForSeat } from './spawn';
+import { getUnitBlueprint } from './blueprints';
+import type { SeatBotProfile } from './agentSeat';
+import { resolveBotTuning, type BotTuning } from './botProfiles';
+
+const BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID = 'unitConstructionDrone';
+const BOT_EXTRACTOR_BLUEPRINT_ID: BuildingBlueprintId = 'buildingExtractor';
+const BOT_FACTORY_BLUEPRINT_ID: BuildingBlueprintId = 'towerFabricator';
+const BOT_ENERGY_BLUEPRINT_IDS: readonly BuildingBlueprintId[] = ['buildingSolar', 'buildingWind'];
+const BOT_METAL_STORAGE_BLUEPRINT_ID: BuildingBlueprintId = 'buildingMetalStorage';
+const BOT_ENERGY_STORAGE_BLUEPRINT_ID: BuildingBlueprintId = 'buildingEnergyStorage';
+const BOT_GROUND_DEFENSE_BLUEPRINT_ID: BuildingBlueprintId = 'towerCannon';
+const BOT_AIR_DEFENSE_BLUEPRINT_ID: BuildingBlueprintId = 'towerAntiAir';
+
+/** Energy income the seat keeps per unit of metal income. Every buildable
+ *  authors near-equal energy and metal costs, so a little over 1:1 keeps
+ *  construction gated by metal rather than by stalls. */
+const BOT_ENERGY_PER_METAL_INCOME = 1.2;
+/** Below this stockpile fraction an energy shortfall outranks expansion. */
+const BOT_ENERGY_STALL_FRACTION = 0.2;
+/** Above this stockpile fraction the seat adds storage instead of wasting. */
+const BOT_STORAGE_FULL_FRACTION = 0.9;
+const BOT_MAX_STORAGE_PER_RESOURCE = 2;
+/** Mobile constructors kept beyond the commander: this many plus one per
+ *  factory, up to the profile's cap. */
+const BOT_BASE_CONSTRUCTOR_COUNT = 1;
+
+/** Base structures land on a ring around the seat's spawn point, opening
+ *  toward the map center so the base grows away from the map edge. */
+const BOT_BASE_RING_MIN_RADIUS = 260;
+const BOT_BASE_RING_GROWTH_PER_BUILDING = 24;
+const BOT_BASE_RING_MAX_RADIUS = 1400;
+const BOT_BASE_ARC_RADIANS = Math.PI * 1.3;
+const BOT_PLACEMENT_ATTEMPTS = 12;
+
+/** Idle army units gather this fraction of the way from home to the map
+ *  center, and only move when they are farther than the slack from it. */
+const BOT_RALLY_CENTER_FRACTION = 0.18;
+const BOT_RALLY_SLACK = 320;
+/** A hit on a structure or builder inside this radius of home within the
+ *  memory window pulls the idle army back to defend. */
+const BOT_DEFENSE_RADIUS = 1600;
+const BOT_DEFENSE_MEMORY_SECONDS = 5;
+
+type BotSquadMission = 'attack' | 'defend';
+
+type BotSquad = {
+  mission: BotSquadMission;
+  memberIds: EntityId[];
+  targetPlayerId: PlayerId | null;
+  targetX: number;
+  targetY: number;
+};
+
+export type BotSeatPlan = {
+  playerId: PlayerId;
+  tuning: BotTuning;
+  homeX: number;
+  homeY: number;
+  rallyX: number;
+  rallyY: number;
+  /** Facing from home toward the map center; the base arc opens this way. */
+  centerAngle: number;
+  waveCount: number;
+  squads: BotSquad[];
+  squadMemberIds: Set<EntityId>;
+};
+
+type BotBuildChoice = {
+  buildingBlueprintId: BuildingBlueprintId;
+  x: number;
+  y: number;
+};
+
+type BotBuildingCounts = {
+  total: number;
+  factories: number;
+  energy: number;
+  pendingExtractors: number;
+  metalStorage: number;
+  energyStorage: number;
+  groundDefense: number;
+  airDefense: number;
+};
+
+export class SimulationBotPolicy {
+  private readonly world: WorldState;
+  private readonly plans = new Map<PlayerId, BotSeatPlan>();
+  private readonly _ownUnits: Entity[] = [];
+  private readonly _ownBuildings: Entity[] = [];
+  private readonly _idleArmyIds: EntityId[] = [];
+
+  constructor(world: WorldState) {
+    this.world = world;
+  }
+
+  /** Run the strategic pass for every bot seat whose turn it is this tick.
+   *  Called once per tick from Simulation.update(), before factory
+   *  production so a constructor request lands ahead of the auto-pick.
+   *  Seats are staggered across their think interval so a many-bot match
+   *  spreads its work over ticks. */
+  update(
+    ctx: CommandContext,
+    botProfiles: ReadonlyMap<PlayerId, SeatBotProfile>,
+    allowedUnitBlueprintIds: ReadonlySet<string> | null,
+  ): void {
+    if (botProfiles.size === 0) return;
+    const tick = this.world.getTick();
+    for (const [playerId, profile] of botProfiles) {
+      const plan = this.getPlan(playerId, profile);
+      const interval = Math.max(1, this.world.ticksForSeconds(plan.tuning.thinkIntervalSeconds));
+      if (tick % interval !== playerId % interval) continue;
+      this.collectOwnEntities(playerId);
+      if (this._ownUnits.length === 0 && this._ownBuildings.length === 0) continue;
+      this.planConstruction(ctx, plan);
+      this.planConstructors(ctx, plan, allowedUnitBlueprintIds);
+      this.planArmy(ctx, plan);
+    }
+  }
+
+  reset(): void {
+    this.plans.clear();
+    this._ownUnits.length = 0;
+    this._ownBuildings.length = 0;
+    this._idleArmyIds.length = 0;
+  }
+
+  /** Seat plans in seat order, for a save file. */
+  exportSaveState(): BotSeatPlan[] {
+    return [...this.plans.values()].sort((a, b) => a.playerId - b.playerId);
+  }
+
+  restoreSaveState(plans: readonly BotSeatPlan[]): void {
+    this.reset();
+    for (const plan of plans) this.plans.set(plan.playerId, plan);
+  }
+
+  private getPlan(playerId: PlayerId, profile: SeatBotProfile): BotSeatPlan {
+    let plan = this.plans.get(playerId);
+    if (plan !== undefined) return plan;
+    const world = this.world;
+    const home = getSpawnPositionForSeat(world.teamRoster, playerId, world.mapWidth, world.mapHeight);
+    const cx = world.mapWidth / 2;
+    const cy = world.mapHeight / 2;
+    plan = {
+      playerId,
+      tuning: resolveBotTuning(profile),
+      homeX: home.x,
+      homeY: home.y,
+      rallyX: home.x + (cx - home.x) * BOT_RALLY_CENTER_FRACTION,
+      rallyY: home.y + (cy - home.y) * BOT_RALLY_CENTER_FRACTION,
+      centerAngle: DMath.atan2(cy - home.y, cx - home.x),
+      waveCount: 0,
+      squads: [],
+      squadMemberIds: new Set(),
+    };
+    this.plans.set(playerId, plan);
+    return plan;
+  }
+
+  /** Snapshot the seat's entities before any command runs: commands can
+   *  add entities, which rebuilds the world's reusable per-player arrays. */
+  private collectOwnEntities(playerId: PlayerId): void {
+    const units = this.world.getUnitsByPlayer(playerId);
+    this._ownUnits.length = 0;
+    for (let i = 0; i < units.length; i++) this._ownUnits.push(units[i]);
+    const buildings = this.world.getBuildingsByPlayer(playerId);
+    this._ownBuildings.length = 0;
+    for (let i = 0; i < buildings.length; i++) this._ownBuildings.push(buildings[i]);
+  }
+
+  // ── Economy and base construction ───────────────────────────────
+
+  private planConstruction(ctx: CommandContext, plan: BotSeatPlan): void {
+    const counts = this.countBuildings();
+    const units = this._ownUnits;
+    for (let i = 0; i < units.length; i++) {
+      const builder = units[i];
+      if (builder.factory !== null || !isIdleBuilderUnit(builder)) continue;
+      const choice = this.chooseBuild(ctx, plan, builder, counts);
+      if (choice === null) {
+        this.assistUnfinishedBuilding(ctx, builder);
+        continue;
+      }
+      const grid = ctx.constructionSystem.getPlacementGridAt(
+        choice.x,
+        choice.y,
+        choice.buildingBlueprintId,
+      );
+      executeCommand(ctx, {
+        type: 'startBuild',
+        tick: this.world.getTick(),
+        builderId: builder.id,
+        buildingBlueprintId: choice.buildingBlueprintId,
+        gridX: grid.gridX,
+        gridY: grid.gridY,
+        queue: false,
+      });
+      if (!isIdleBuilderUnit(builder)) {
+        this.recordPlannedBuilding(counts, choice.buildingBlueprintId);
+      }
+    }
+  }
+
+  private countBuildings(): BotBuildingCounts {
+    const counts: BotBuildingCounts = {
+      total: 0,
+      factories: 0,
+      energy: 0,
+      pendingExtractors: 0,
+      metalStorage: 0,
+      energyStorage: 0,
+      groundDefense: 0,
+      airDefense: 0,
+    };
+    const buildings = this._ownBuildings;
+    for (let i = 0; i < buildings.length; i++) {
+      const building = buildings[i];
+      const blueprintId = building.buildingBlueprintId;
+      if (blueprintId === null || building.building === null || building.building.hp <= 0) continue;
+      this.recordPlannedBuilding(counts, blueprintId);
+      if (blueprintId === BOT_EXTRACTOR_BLUEPRINT_ID && !isBuildInProgress(building.buildable)) {
+        counts.pendingExtractors--;
+      }
+    }
+    return counts;
+  }
+
+  /** Counts a shell the same as a finished building: both already answer
+   *  "do we have one", which is what keeps two builders from racing to
+   *  the same need. */
+  private recordPlannedBuilding(counts: BotBuildingCounts, blueprintId: BuildingBlueprintId): void {
+    counts.total++;
+    if (blueprintId === BOT_FACTORY_BLUEPRINT_ID) counts.factories++;
+    else if (blueprintId === BOT_EXTRACTOR_BLUEPRINT_ID) counts.pendingExtractors++;
+    else if (blueprintId === BOT_METAL_STORAGE_BLUEPRINT_ID) counts.metalStorage++;
+    else if (blueprintId === BOT_ENERGY_STORAGE_BLUEPRINT_ID) counts.energyStorage++;
+    else if (blueprintId === BOT_GROUND_DEFENSE_BLUEPRINT_ID) counts.groundDefense++;
+    else if (blueprintId === BOT_AIR_DEFENSE_BLUEPRINT_ID) counts.airDefense++;
+    else if (BOT_ENERGY_BLUEPRINT_IDS.includes(blueprintId)) counts.energy++;
+  }
+
+  /** The seat's build priority list, first satisfiable entry wins:
+   *  stall relief, free deposits, a first factory, energy balance,
+   *  storage, more factories, defenses, then energy as the sink. */
+  private chooseBuild(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    builder: Entity,
+    counts: BotBuildingCounts,
+  ): BotBuildChoice | null {
+    const economy = economyManager.getEconomy(plan.playerId);
+    if (economy === undefined) return null;
+    const metalIncome = economy.metal.income.base + economy.metal.income.extraction;
+    const energyIncome = economy.income.base + economy.income.production;
+    const energyFraction = economy.stockpile.max > 0 ? economy.stockpile.curr / economy.stockpile.max : 0;
+    const metalFraction = economy.metal.stockpile.max > 0
+      ? economy.metal.stockpile.curr / economy.metal.stockpile.max
+      : 0;
+    const wantsEnergy = energyIncome < metalIncome * BOT_ENERGY_PER_METAL_INCOME;
+
+    if (energyFraction < BOT_ENERGY_STALL_FRACTION && wantsEnergy) {
+      const energy = this.chooseEnergyBuild(ctx, plan, builder, counts);
+      if (energy !== null) return energy;
+    }
+    if (counts.pendingExtractors < plan.tuning.maxPendingExtractors) {
+      const extractor = this.chooseExtractorBuild(ctx, plan, builder);
+      if (extractor !== null) return extractor;
+    }
+    if (counts.factories === 0) {
+      const factory = this.chooseBaseBuild(ctx, plan, builder, BOT_FACTORY_BLUEPRINT_ID, counts);
+      if (factory !== null) return factory;
+    }
+    if (wantsEnergy) {
+      const energy = this.chooseEnergyBuild(ctx, plan, builder, counts);
+      if (energy !== null) return energy;
+    }
+    if (metalFraction > BOT_STORAGE_FULL_FRACTION && counts.metalStorage < BOT_MAX_STORAGE_PER_RESOURCE) {
+      const storage = this.chooseBaseBuild(ctx, plan, builder, BOT_METAL_STORAGE_BLUEPRINT_ID, counts);
+      if (storage !== null) return storage;
+    }
+    if (energyFraction > BOT_STORAGE_FULL_FRACTION && counts.energyStorage < BOT_MAX_STORAGE_PER_RESOURCE) {
+      const storage = this.chooseBaseBuild(ctx, plan, builder, BOT_ENERGY_STORAGE_BLUEPRINT_ID, counts);
+      if (storage !== null) return storage;
+    }
+    const wantedFactories = Math.min(
+      plan.tuning.maxFactories,
+      1 + Math.floor(metalIncome / plan.tuning.metalIncomePerFactory),
+    );
+    if (counts.factories < wantedFactories) {
+      const factory = this.chooseBaseBuild(ctx, plan, builder, BOT_FACTORY_BLUEPRINT_ID, counts);
+      if (factory !== null) return factory;
+    }
+    const defenses = counts.groundDefense + counts.airDefense;
+    if (defenses < counts.factories * plan.tuning.defensesPerFactory) {
+      const defenseBlueprintId = counts.airDefense * 2 < counts.groundDefense
+        ? BOT_AIR_DEFENSE_BLUEPRINT_ID
+        : BOT_GROUND_DEFENSE_BLUEPRINT_ID;
+      const defense = this.chooseBaseBuild(ctx, plan, builder, defenseBlueprintId, counts);
+      if (defense !== null) return defense;
+    }
+    if (metalFraction > BOT_ENERGY_STALL_FRACTION) {
+      return this.chooseEnergyBuild(ctx, plan, builder, counts);
+    }
+    return null;
+  }
+
+  private chooseEnergyBuild(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    builder: Entity,
+    counts: BotBuildingCounts,
+  ): BotBuildChoice | null {
+    const first = this.world.nextRandom(plan.playerId) < 0.5 ? 0 : 1;
+    for (let i = 0; i < BOT_ENERGY_BLUEPRINT_IDS.length; i++) {
+      const blueprintId = BOT_ENERGY_BLUEPRINT_IDS[(first + i) % BOT_ENERGY_BLUEPRINT_IDS.length];
+      const choice = this.chooseBaseBuild(ctx, plan, builder, blueprintId, counts);
+      if (choice !== null) return choice;
+    }
+    return null;
+  }
+
+  /** Nearest open deposit to the builder that sits on the seat's side of
+   *  the map: closer to home than to any enemy spawn. Contested deposits
+   *  stay with whoever's army holds them. */
+  private chooseExtractorBuild(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    builder: Entity,
+  ): BotBuildChoice | null {
+    if (!entityCanBuild(builder, BOT_EXTRACTOR_BLUEPRINT_ID)) return null;
+    const deposits = this.world.metalDeposits;
+    let best: BotBuildChoice | null = null;
+    let bestDistSq = Infinity;
+    for (let i = 0; i < deposits.length; i++) {
+      const deposit = deposits[i];
+      const homeDistSq = distanceSq(deposit.x, deposit.y, plan.homeX, plan.homeY);
+      if (homeDistSq > this.nearestEnemySpawnDistanceSq(plan.playerId, deposit.x, deposit.y)) continue;
+      const distSq = distanceSq(deposit.x, deposit.y, builder.transform.x, builder.transform.y);
+      if (distSq >= bestDistSq) continue;
+      if (!ctx.constructionSystem.canPlaceAt(deposit.x, deposit.y, BOT_EXTRACTOR_BLUEPRINT_ID)) continue;
+      best = { buildingBlueprintId: BOT_EXTRACTOR_BLUEPRINT_ID, x: deposit.x, y: deposit.y };
+      bestDistSq = distSq;
+    }
+    return best;
+  }
+
+  /** A free spot on the base ring. The ring widens as the base grows so
+   *  later structures do not crowd the builders' paths between the first. */
+  private chooseBaseBuild(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    builder: Entity,
+    buildingBlueprintId: BuildingBlueprintId,
+    counts: BotBuildingCounts,
+  ): BotBuildChoice | null {
+    if (!entityCanBuild(builder, buildingBlueprintId)) return null;
+    const world = this.world;
+    const ringRadius = Math.min(
+      BOT_BASE_RING_MAX_RADIUS,
+      BOT_BASE_RING_MIN_RADIUS + counts.total * BOT_BASE_RING_GROWTH_PER_BUILDING,
+    );
+    for (let attempt = 0; attempt < BOT_PLACEMENT_ATTEMPTS; attempt++) {
+      const angle = plan.centerAngle + (world.nextRandom(plan.playerId) - 0.5) * BOT_BASE_ARC_RADIANS;
+      const radius = BOT_BASE_RING_MIN_RADIUS +
+        world.nextRandom(plan.playerId) * (ringRadius - BOT_BASE_RING_MIN_RADIUS);
+      const x = plan.homeX + DMath.cos(angle) * radius;
+      const y = plan.homeY + DMath.sin(angle) * radius;
+      if (x < 0 || y < 0 || x > world.mapWidth || y > world.mapHeight) continue;
+      if (!ctx.constructionSystem.canPlaceAt(x, y, buildingBlueprintId)) continue;
+      return { buildingBlueprintId, x, y };
+    }
+    return null;
+  }
+
+  /** Nothing worth starting: help finish the nearest unfinished structure
+   *  instead of standing around. */
+  private assistUnfinishedBuilding(ctx: CommandContext, builder: Entity): void {
+    const buildings = this._ownBuildings;
+    let best: Entity | null = null;
+    let bestDistSq = Infinity;
+    for (let i = 0; i < buildings.length; i++) {
+      const building = buildings[i];
+      if (!isBuildInProgress(building.buildable) || building.buildable.isInterrupted) continue;
+      const distSq = distanceSq(
+        building.transform.x,
+        building.transform.y,
+        builder.transform.x,
+        builder.transform.y,
+      );
+      if (distSq < bestDistSq) {
+        best = building;
+        bestDistSq = distSq;
+      }
+    }
+    if (best === null) return;
+    executeCommand(ctx, {
+      type: 'repair',
+      tick: this.world.getTick(),
+      commanderId: builder.id,
+      targetId: best.id,
+      queue: false,
+    });
+  }
+
+  /** Keep a few mobile constructors beside the commander. The request goes
+   *  to the first factory that can make one and is not already making one;
+   *  the factory resumes its auto-picked repeat build once it drains. */
+  private planConstructors(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    allowedUnitBlueprintIds: ReadonlySet<string> | null,
+  ): void {
+    if (
+      allowedUnitBlueprintIds !== null &&
+      !allowedUnitBlueprintIds.has(BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID)
+    ) return;
+    if (!this.world.canPlayerQueueEntity(plan.playerId)) return;
+    let constructors = 0;
+    const units = this._ownUnits;
+    for (let i = 0; i < units.length; i++) {
+      const unit = units[i];
+      if (unit.builder !== null && unit.commander === null && unit.factory === null) constructors++;
+    }
+    let factories = 0;
+    let producer: Entity | null = null;
+    const buildings = this._ownBuildings;
+    for (let i = 0; i < buildings.length; i++) {
+      const building = buildings[i];
+      const factory = building.factory;
+      if (factory === null || !isEntityActive(building)) continue;
+      factories++;
+      if (
+        factory.selectedUnitBlueprintId === BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID ||
+        factory.productionQueue.includes(BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID)
+      ) {
+        constructors++;
+        continue;
+      }
+      if (producer === null && factoryCanProduceUnit(building, BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID)) {
+        producer = building;
+      }
+    }
+    const wanted = Math.min(plan.tuning.maxConstructors, BOT_BASE_CONSTRUCTOR_COUNT + factories);
+    if (producer === null || constructors >= wanted) return;
+    executeCommand(ctx, {
+      type: 'queueUnit',
+      tick: this.world.getTick(),
+      factoryId: producer.id,
+      unitBlueprintId: BOT_CONSTRUCTOR_UNIT_BLUEPRINT_ID,
+      repeat: false,
+      count: 1,
+    });
+  }
+
+  // ── Army: squads, defense, and attack waves ─────────────────────
+
+  private planArmy(ctx: CommandContext, plan: BotSeatPlan): void {
+    this.refreshSquads(ctx, plan);
+
+    const idleArmyIds = this._idleArmyIds;
+    idleArmyIds.length = 0;
+    let idleArmyMetalValue = 0;
+    const units = this._ownUnits;
+    for (let i = 0; i < units.length; i++) {
+      const unit = units[i];
+      if (!isArmyUnit(unit) || plan.squadMemberIds.has(unit.id) || !isIdleUnit(unit)) continue;
+      idleArmyIds.push(unit.id);
+      idleArmyMetalValue += getUnitBlueprint(unit.unit!.unitBlueprintId).cost.metal;
+    }
+    if (idleArmyIds.length === 0) return;
+
+    const threat = this.findBaseThreat(plan);
+    if (threat !== null) {
+      this.formSquad(ctx, plan, 'defend', null, threat.x, threat.y);
+      return;
+    }
+
+    const tuning = plan.tuning;
+    const waveValue = Math.min(
+      tuning.maxWaveMetalValue,
+      tuning.firstWaveMetalValue + plan.waveCount * tuning.waveMetalValueGrowth,
+    );
+    if (idleArmyMetalValue >= waveValue) {
+      const target = this.chooseAttackTarget(plan, plan.homeX, plan.homeY, null);
+      if (target !== null) {
+        plan.waveCount++;
+        this.formSquad(ctx, plan, 'attack', target.playerId, target.x, target.y);
+        return;
+      }
+    }
+
+    const strayIds: EntityId[] = [];
+    for (let i = 0; i < idleArmyIds.length; i++) {
+      const entity = this.world.getEntity(idleArmyIds[i]);
+      if (entity === undefined) continue;
+      const distSq = distanceSq(entity.transform.x, entity.transform.y, plan.rallyX, plan.rallyY);
+      if (distSq > BOT_RALLY_SLACK * BOT_RALLY_SLACK) strayIds.push(entity.id);
+    }
+    if (strayIds.length > 0) {
+      this.issueGroupMove(ctx, strayIds, plan.rallyX, plan.rallyY, 'move');
+    }
+  }
+
+  /** Drop dead members; a squad whose members have all gone idle has
+   *  finished its leg. Defenders return to the pool, attackers press on to
+   *  the next live enemy seat until none is left. */
+  private refreshSquads(ctx: CommandContext, plan: BotSeatPlan): void {
+    const squads = plan.squads;
+    let write = 0;
+    for (let i = 0; i < squads.length; i++) {
+      const squad = squads[i];
+      let memberWrite = 0;
+      let allIdle = true;
+      let sumX = 0;
+      let sumY = 0;
+      for (let m = 0; m < squad.memberIds.length; m++) {
+        const member = this.world.getEntity(squad.memberIds[m]);
+        if (member === undefined || member.unit === null || member.unit.hp <= 0) {
+          plan.squadMemberIds.delete(squad.memberIds[m]);
+          continue;
+        }
+        squad.memberIds[memberWrite++] = member.id;
+        if (!isIdleUnit(member)) allIdle = false;
+        sumX += member.transform.x;
+        sumY += member.transform.y;
+      }
+      squad.memberIds.length = memberWrite;
+      let keep = memberWrite > 0;
+      if (keep && allIdle) {
+        const next = squad.mission === 'attack'
+          ? this.chooseAttackTarget(plan, sumX / memberWrite, sumY / memberWrite, squad.targetPlayerId)
+          : null;
+        if (next === null) {
+          keep = false;
+        } else {
+          squad.targetPlayerId = next.playerId;
+          squad.targetX = next.x;
+          squad.targetY = next.y;
+          this.issueGroupMove(ctx, squad.memberIds, next.x, next.y, 'fight');
+        }
+      }
+      if (!keep) {
+        for (let m = 0; m < squad.memberIds.length; m++) plan.squadMemberIds.delete(squad.memberIds[m]);
+        continue;
+      }
+      squads[write++] = squad;
+    }
+    squads.length = write;
+  }
+
+  private formSquad(
+    ctx: CommandContext,
+    plan: BotSeatPlan,
+    mission: BotSquadMission,
+    targetPlayerId: PlayerId | null,
+    targetX: number,
+    targetY: number,
+  ): void {
+    const memberIds = this._idleArmyIds.slice();
+    for (let i = 0; i < memberIds.length; i++) plan.squadMemberIds.add(memberIds[i]);
+    plan.squads.push({ mission, memberIds, targetPlayerId, targetX, targetY });
+    this.issueGroupMove(ctx, memberIds, targetX, targetY, 'fight');
+  }
+
+  /** Most recent hostile hit on one of the seat's structures or builders
+   *  near home. Army units are left out: a skirmish at the front is the
+   *  squad's business, not a reason to recall everything. */
+  private findBaseThreat(plan: BotSeatPlan): { x: number; y: number } | null {
+    const tick = this.world.getTick();
+    const memoryTicks = this.world.ticksForSeconds(BOT_DEFENSE_MEMORY_SECONDS);
+    const radiusSq = BOT_DEFENSE_RADIUS * BOT_DEFENSE_RADIUS;
+    let best: Entity | null = null;
+    let bestHitTick = -1;
+    const consider = (entity: Entity): void => {
+      const aggression = entity.recentAggression;
+      if (aggression === null || tick - aggression.hitTick > memoryTicks) return;
+      if (aggression.hitTick <= bestHitTick) return;
+      if (distanceSq(entity.transform.x, entity.transform.y, plan.homeX, plan.homeY) > radiusSq) return;
+      best = entity;
+      bestHitTick = aggression.hitTick;
+    };
+    const buildings = this._ownBuildings;
+    for (let i = 0; i < buildings.length; i++) consider(buildings[i]);
+    const units = this._ownUnits;
+    for (let i = 0; i < units.length; i++) {
+      if (units[i].builder !== null) consider(units[i]);
+    }
+    if (best === null) return null;
+    const threatened: Entity = best;
+    return { x: threatened.transform.x, y: threatened.transform.y };
+  }
+
+  /** Start positions are public knowledge, so waves march on the nearest
+   *  enemy seat that still has anything standing. Passing the seat just
+   *  cleared skips it unless it is the only one left. */
+  private chooseAttackTarget(
+    plan: BotSeatPlan,
+    fromX: number,
+    fromY: number,
+    previousPlayerId: PlayerId | null,
+  ): { playerId: PlayerId; x: number; y: number } | null {
+    const world = this.world;
+    let best: { playerId: PlayerId; x: number; y: number } | null = null;
+    let bestDistSq = Infinity;
+    let fallback: { playerId: PlayerId; x: number; y: number } | null = null;
+    const seats = world.teamRoster.playerIds;
+    for (let i = 0; i < seats.length; i++) {
+      const playerId = seats[i];
+      if (world.arePlayersAllied(plan.playerId, playerId) || !this.seatHasPresence(playerId)) continue;
+      const spawn = getSpawnPositionForSeat(world.teamRoster, playerId, world.mapWidth, world.mapHeight);
+      const candidate = { playerId, x: spawn.x, y: spawn.y };
+      if (playerId === previousPlayerId) {
+        fallback = candidate;
+        continue;
+      }
+      const distSq = distanceSq(spawn.x, spawn.y, fromX, fromY);
+      if (distSq < bestDistSq) {
+        best = candidate;
+        bestDistSq = distSq;
+      }
+    }
+    return best ?? fallback;
+  }
+
+  private seatHasPresence(playerId: PlayerId): boolean {
+    return this.world.getUnitsByPlayer(playerId).length > 0 ||
+      this.world.getBuildingsByPlayer(playerId).length > 0;
+  }
+
+  private nearestEnemySpawnDistanceSq(playerId: PlayerId, x: number, y: number): number {
+    const world = this.world;
+    let best = Infinity;
+    const seats = world.teamRoster.playerIds;
+    for (let i = 0; i < seats.length; i++) {
+      const other = seats[i];
+      if (world.arePlayersAllied(playerId, other)) continue;
+      const spawn = getSpawnPositionForSeat(world.teamRoster, other, world.mapWidth, world.mapHeight);
+      best = Math.min(best, distanceSq(x, y, spawn.x, spawn.y));
+    }
+    return best;
+  }
+
+  private issueGroupMove(
+    ctx: CommandContext,
+    entityIds: EntityId[],
+    targetX: number,
+    targetY: number,
+    waypointType: 'move' | 'fight',
+  ): void {
+    executeCommand(ctx, {
+      type: 'move',
+      tick: this.world.getTick(),
+      entityIds: entityIds.slice(),
+      targetX,
+      targetY,
+      waypointType,
+      queue: false,
+    });
+  }
+}
+
+function distanceSq(ax: number, ay: number, bx: number, by: number): number {
+  const dx = ax - bx;
+  const dy = ay - by;
+  return dx * dx + dy * dy;
+}
+
+/** Finished, armed, and not one of the seat's workers or carriers. */
+function isArmyUnit(entity: Entity): boolean {
+  return (
+    entity.unit !== null &&
+    entity.unit.hp > 0 &&
+    entity.combat !== null &&
+    entity.builder === null &&
+    entity.commander === null &&
+    entity.factory === null &&
+    entity.transport === null &&
+    entity.transported === null &&
+    !isBuildInProgress(entity.buildable)
+  );
+}
+
+function isIdleUnit(entity: Entity): boolean {
+  const actions = entity.unit?.actions;
+  if (actions === undefined) return false;
+  return actions.length === 0 ||
+    (actions.length === 1 && isSatisfiedMovementAnchorAction(actions[0]));
+}
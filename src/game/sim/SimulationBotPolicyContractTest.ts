@@ -0,0 +1,149 @@
+import { CommandQueue } from './commands';
+import { Simulation } from './Simulation';
+import { createEconomyState, economyManager } from './economy';
+import { getSpawnPositionForSeat } from './spawn';
+import { buildFreeForAllRoster } from './teamRoster';
+import { getBotUnitPreferenceWeight, resolveBotTuning } from './botProfiles';
+import type { Entity, PlayerId } from './types';
+import { WorldState } from './WorldState';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`[bot policy contract] ${message}`);
+  }
+}
+
+const BOT = 1 as PlayerId;
+const ENEMY = 2 as PlayerId;
+
+function createWorld(seed: number): WorldState {
+  const world = new WorldState(seed, 2048, 2048);
+  world.setTeamRoster(buildFreeForAllRoster([BOT, ENEMY]));
+  return world;
+}
+
+function addUnit(
+  world: WorldState,
+  x: number,
+  y: number,
+  playerId: PlayerId,
+  unitBlueprintId: string,
+): Entity {
+  const entity = world.createUnitFromBlueprint(x, y, playerId, unitBlueprintId, {
+    allocateSubEntityIds: false,
+  });
+  world.addEntity(entity);
+  return entity;
+}
+
+function setRichEconomy(): void {
+  economyManager.reset();
+  for (const playerId of [BOT, ENEMY]) {
+    economyManager.setEconomyState(playerId, {
+      ...createEconomyState(),
+      stockpile: { curr: 1000, max: 1000 },
+      metal: {
+        ...createEconomyState().metal,
+        stockpile: { curr: 1000, max: 1000 },
+      },
+    });
+  }
+}
+
+function runBotSeconds(world: WorldState, seconds: number): Simulation {
+  const simulation = new Simulation(world, new CommandQueue());
+  simulation.setBotPolicyPlayerIds([BOT]);
+  const ticks = world.ticksForSeconds(seconds);
+  for (let i = 0; i < ticks; i++) simulation.update(16);
+  return simulation;
+}
+
+function spawnOf(world: WorldState, playerId: PlayerId): { x: number; y: number } {
+  return getSpawnPositionForSeat(world.teamRoster, playerId, world.mapWidth, world.mapHeight);
+}
+
+function describeBotBuildings(world: WorldState): string {
+  return world.getBuildingsByPlayer(BOT)
+    .map((building) =>
+      `${building.buildingBlueprintId}@${building.transform.x.toFixed(3)},${building.transform.y.toFixed(3)}`)
+    .join('|');
+}
+
+function openingWorld(seed: number): WorldState {
+  setRichEconomy();
+  const world = createWorld(seed);
+  const home = spawnOf(world, BOT);
+  addUnit(world, home.x, home.y, BOT, 'unitCommander');
+  const enemyHome = spawnOf(world, ENEMY);
+  addUnit(world, enemyHome.x, enemyHome.y, ENEMY, 'unitCommander');
+  return world;
+}
+
+export function runSimulationBotPolicyContractTest(): void {
+  // A bare commander with no deposits in reach opens with a factory,
+  // placed through the normal build path (a real nanoframe, not a gift).
+  const first = openingWorld(41);
+  runBotSeconds(first, 2);
+  const firstLayout = describeBotBuildings(first);
+  assertContract(
+    first.getBuildingsByPlayer(BOT).some((b) => b.buildingBlueprintId === 'towerFabricator'),
+    `bot commander must start a factory first, got "${firstLayout}"`,
+  );
+  assertContract(
+    first.getBuildingsByPlayer(ENEMY).length === 0,
+    'seats not listed as bot-policy seats must receive no orders',
+  );
+
+  // Same seed, same opening: placement draws come from the seat's own
+  // deterministic RNG stream.
+  const second = openingWorld(41);
+  runBotSeconds(second, 2);
+  assertContract(
+    describeBotBuildings(second) === firstLayout,
+    `bot placement must be deterministic: "${describeBotBuildings(second)}" vs "${firstLayout}"`,
+  );
+
+  // An idle army worth a full wave marches on the nearest live enemy seat
+  // with a fight-move; a lone straggler is only rallied.
+  setRichEconomy();
+  const armyWorld = createWorld(7);
+  const home = spawnOf(armyWorld, BOT);
+  const enemyHome = spawnOf(armyWorld, ENEMY);
+  addUnit(armyWorld, enemyHome.x, enemyHome.y, ENEMY, 'unitJackal');
+  const army: Entity[] = [];
+  for (let i = 0; i < 16; i++) {
+    army.push(addUnit(armyWorld, home.x + (i % 4) * 40, home.y + Math.floor(i / 4) * 40, BOT, 'unitJackal'));
+  }
+  runBotSeconds(armyWorld, 1.2);
+  for (const unit of army) {
+    const actions = unit.unit?.actions ?? [];
+    assertContract(
+      actions.length > 0 && actions[actions.length - 1].type === 'fight',
+      `army unit ${unit.id} must receive an attack fight-move`,
+    );
+    const last = actions[actions.length - 1];
+    const toEnemy = Math.abs(last.x - enemyHome.x) + Math.abs(last.y - enemyHome.y);
+    assertContract(toEnemy < 400, `attack wave must target the enemy spawn, got ${last.x},${last.y}`);
+  }
+
+  // Difficulty sets the pace; personalities bend the baseline.
+  const easy = resolveBotTuning({ difficulty: 'easy', personality: 'balanced' });
+  const hard = resolveBotTuning({ difficulty: 'hard', personality: 'balanced' });
+  assertContract(
+    easy.thinkIntervalSeconds > hard.thinkIntervalSeconds && easy.maxFactories < hard.maxFactories,
+    'an easy bot thinks slower and builds smaller than a hard one',
+  );
+  const rusher = resolveBotTuning({ difficulty: 'normal', personality: 'rusher' });
+  const turtle = resolveBotTuning({ difficulty: 'normal', personality: 'turtle' });
+  assertContract(
+    rusher.firstWaveMetalValue < turtle.firstWaveMetalValue &&
+      rusher.defensesPerFactory < turtle.defensesPerFactory,
+    'a rusher attacks sooner and builds fewer defenses than a turtle',
+  );
+  assertContract(
+    getBotUnitPreferenceWeight({ difficulty: 'normal', personality: 'air' }, 'unitEagle') > 1 &&
+      getBotUnitPreferenceWeight({ difficulty: 'normal', personality: 'air' }, 'unitJackal') === 1 &&
+      getBotUnitPreferenceWeight({ difficulty: 'normal', personality: 'naval' }, 'unitOrca') > 1,
+    'air and naval personalities weight their own units up',
+  );
+}
@@ -38,9 +38,11 @@ import type { ForceAccumulator } from './ForceAccumulator';
 import type { SimulationDeathExplosionPlanner } from './SimulationDeathExplosionPlanner';
 import type { SimulationEventQueues } from './SimulationEventQueues';
 import { spatialGrid } from './SpatialGrid';
-import type { EntityId } from './types';
+import { updateStrategicMissiles } from './strategicWeapons';
+import type { Entity, EntityId } from './types';
 import type { WindState } from './wind';
 import type { WorldState } from './WorldState';
+import { createDebrisFromDestroyedWreck, createWreckFromDeadUnit } from './wrecks';
 
 // Hoisted determinism-ordering comparators: these sorts run every tick,
 // and an inline arrow would allocate a closure per call.
@@ -52,6 +54,7 @@ type UnitDeathCallback = (
   (deadUnitIds: EntityId[], deathContexts: Map<EntityId, DeathContext> | null) => void
 ) | null;
 type BuildingDeathCallback = ((deadBuildingIds: EntityId[]) => void) | null;
+type BuildingSpawnCallback = ((newBuildings: Entity[]) => void) | null;
 
 export class SimulationCombatController {
   private readonly world: WorldState;
@@ -61,6 +64,7 @@ export class SimulationCombatController {
   private readonly deathExplosionPlanner: SimulationDeathExplosionPlanner;
   private readonly deadUnitIdsBuf: EntityId[] = [];
   private readonly deadBuildingIdsBuf: EntityId[] = [];
+  private readonly spawnedWrecksBuf: Entity[] = [];
   private readonly projectileMotionEvents = new Map<EntityId, ProjectileMotionUpdateEvent>();
 
   constructor(
@@ -83,6 +87,7 @@ export class SimulationCombatController {
     onSimEvent: SimEventCallback,
     onUnitDeath: UnitDeathCallback,
     onBuildingDeath: BuildingDeathCallback,
+    onBuildingSpawn: BuildingSpawnCallback,
   ): void {
     const sim = getSimWasm();
     if (sim === undefined) {
@@ -204,13 +209,14 @@ export class SimulationCombatController {
     SIM_TICK_INSTRUMENTATION.phase('combat.fireTurrets');
 
     // Update projectile positions and remove orphaned beams (from dead units)
-    this.updateProjectileCombat(dtMs, wind, onSimEvent, onUnitDeath, onBuildingDeath);
+    this.updateProjectileCombat(dtMs, wind, onSimEvent, onUnitDeath, onBuildingDeath, onBuildingSpawn);
     SIM_TICK_INSTRUMENTATION.phase('combat.projectiles');
   }
 
   reset(): void {
     this.deadUnitIdsBuf.length = 0;
     this.deadBuildingIdsBuf.length = 0;
+    this.spawnedWrecksBuf.length = 0;
     this.projectileMotionEvents.clear();
     resetShieldBuffers();
     resetLaserSoundState();
@@ -224,6 +230,7 @@ export class SimulationCombatController {
     onSimEvent: SimEventCallback,
     onUnitDeath: UnitDeathCallback,
     onBuildingDeath: BuildingDeathCallback,
+    onBuildingSpawn: BuildingSpawnCallback,
   ): void {
     const updateResult = updateProjectiles(this.world, dtMs, this.damageSystem, wind);
     updateResult.orphanedIds.sort(byNumberAscending);
@@ -311,6 +318,18 @@ export class SimulationCombatController {
     }
     SIM_TICK_INSTRUMENTATION.phase('combat.proj.spawnPresentation');
 
+    // Strategic missiles are not projectile entities, but their kills
+    // share this tick's death blasts and removal.
+    updateStrategicMissiles(
+      this.world,
+      this.damageSystem,
+      this.forceAccumulator,
+      collisionResult.deadUnitIds,
+      collisionResult.deadBuildingIds,
+      collisionResult.events,
+      collisionResult.deathContexts,
+    );
+
     this.deathExplosionPlanner.detonate(
       collisionResult.deadUnitIds,
       collisionResult.deadBuildingIds,
@@ -326,8 +345,9 @@ export class SimulationCombatController {
       collisionResult.deadUnitIds,
       collisionResult.deathContexts,
       onUnitDeath,
+      onBuildingSpawn,
     );
-    this.removeCollisionDeadBuildings(collisionResult.deadBuildingIds, onBuildingDeath);
+    this.removeCollisionDeadBuildings(collisionResult.deadBuildingIds, onBuildingDeath, onBuildingSpawn);
     SIM_TICK_INSTRUMENTATION.phase('combat.proj.terminal');
   }
 
@@ -335,10 +355,13 @@ export class SimulationCombatController {
     deadUnitIds: Set<EntityId>,
     deathContexts: Map<EntityId, DeathContext>,
     onUnitDeath: UnitDeathCallback,
+    onBuildingSpawn: BuildingSpawnCallback,
   ): void {
     if (deadUnitIds.size === 0) return;
     const buf = this.deadUnitIdsBuf;
     buf.length = 0;
+    const spawnedWrecks = this.spawnedWrecksBuf;
+    spawnedWrecks.length = 0;
     for (const id of deadUnitIds) buf.push(id);
     buf.sort(byNumberAscending);
     for (let i = 0; i < buf.length; i++) {
@@ -357,26 +380,38 @@ export class SimulationCombatController {
         for (const evt of emitShieldStopsForEntity(entity)) {
           this.eventQueues.simEvents.push(evt);
         }
+        const wreck = createWreckFromDeadUnit(this.world, entity);
+        if (wreck !== null) spawnedWrecks.push(wreck);
       }
       spatialGrid.removeUnit(id);
     }
     if (onUnitDeath !== null) onUnitDeath(buf, deathContexts);
+    if (spawnedWrecks.length > 0 && onBuildingSpawn !== null) onBuildingSpawn(spawnedWrecks);
+    spawnedWrecks.length = 0;
   }
 
   private removeCollisionDeadBuildings(
     deadBuildingIds: Set<EntityId>,
     onBuildingDeath: BuildingDeathCallback,
+    onBuildingSpawn: BuildingSpawnCallback,
   ): void {
     if (deadBuildingIds.size === 0) return;
     const buf = this.deadBuildingIdsBuf;
     buf.length = 0;
     for (const id of deadBuildingIds) buf.push(id);
     buf.sort(byNumberAscending);
+    const spawnedWrecks = this.spawnedWrecksBuf;
+    spawnedWrecks.length = 0;
     for (let i = 0; i < buf.length; i++) {
       const id = buf[i];
+      const entity = this.world.getEntity(id);
+      const debris = entity !== undefined ? createDebrisFromDestroyedWreck(this.world, entity) : null;
+      if (debris !== null) spawnedWrecks.push(debris);
       spatialGrid.removeBuilding(id);
     }
     if (onBuildingDeath !== null) onBuildingDeath(buf);
+    if (spawnedWrecks.length > 0 && onBuildingSpawn !== null) onBuildingSpawn(spawnedWrecks);
+    spawnedWrecks.length = 0;
   }
 
   private emitSimEvents(events: readonly SimEvent[], onSimEvent: SimEventCallback): void {
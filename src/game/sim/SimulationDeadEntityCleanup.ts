@@ -11,7 +11,7 @@ import type { WorldState } from './WorldState';
 import { SimulationDeathCleanupClassifier } from './SimulationDeathCleanupClassifier';
 import type { SimulationDeathExplosionPlanner } from './SimulationDeathExplosionPlanner';
 import type { SimulationEventQueues } from './SimulationEventQueues';
-import { createWreckFromDeadUnit } from './wrecks';
+import { createDebrisFromDestroyedWreck, createWreckFromDeadUnit } from './wrecks';
 
 export class SimulationDeadEntityCleanup {
   private readonly world: WorldState;
@@ -26,6 +26,7 @@ export class SimulationDeadEntityCleanup {
   private readonly syntheticDeathEventIds = new Set<EntityId>();
   private readonly deathContexts = new Map<EntityId, DeathContext>();
   private readonly spawnedWrecks: Entity[] = [];
+  private readonly reclaimedIds = new Set<EntityId>();
 
   constructor(
     world: WorldState,
@@ -42,6 +43,7 @@ export class SimulationDeadEntityCleanup {
     onUnitDeath: ((deadUnitIds: EntityId[], deathContexts: Map<EntityId, DeathContext> | null) => void) | null,
     onBuildingDeath: ((deadBuildingIds: EntityId[]) => void) | null,
     onBuildingSpawn: ((newBuildings: Entity[]) => void) | null,
+    reclaimedEntityIds: readonly EntityId[],
   ): void {
     const deathCheckIds = this.deathCheckIds;
     const deadUnitIds = this.deadUnitIds;
@@ -56,8 +58,12 @@ export class SimulationDeadEntityCleanup {
     sortEntityIdsInPlace(deadUnitIds);
     sortEntityIdsInPlace(deadBuildingIds);
     this.planSyntheticDeaths(deadUnitIds, deadBuildingIds);
+    const reclaimedIds = this.reclaimedIds;
+    reclaimedIds.clear();
+    for (let i = 0; i < reclaimedEntityIds.length; i++) reclaimedIds.add(reclaimedEntityIds[i]);
     this.removeDeadUnits(deadUnitIds, onUnitDeath, onBuildingSpawn);
-    this.removeDeadBuildings(deadBuildingIds, onBuildingDeath);
+    this.removeDeadBuildings(deadBuildingIds, onBuildingDeath, onBuildingSpawn);
+    reclaimedIds.clear();
   }
 
   reset(): void {
@@ -68,6 +74,7 @@ export class SimulationDeadEntityCleanup {
     this.deadBuildingIdSet.clear();
     this.syntheticDeathEventIds.clear();
     this.deathContexts.clear();
+    this.reclaimedIds.clear();
   }
 
   private planSyntheticDeaths(deadUnitIds: EntityId[], deadBuildingIds: EntityId[]): void {
@@ -113,7 +120,8 @@ export class SimulationDeadEntityCleanup {
       if (entity) {
         this.emitStopsForDeadUnit(entity, id);
         if (this.syntheticDeathEventIds.has(id)) this.emitSyntheticDeathEvent(entity);
-        const wreck = createWreckFromDeadUnit(this.world, entity);
+        // Reclaimed metal is already banked; the husk goes with it.
+        const wreck = this.reclaimedIds.has(id) ? null : createWreckFromDeadUnit(this.world, entity);
         if (wreck !== null) spawnedWrecks.push(wreck);
       }
       spatialGrid.removeUnit(id);
@@ -127,14 +135,23 @@ export class SimulationDeadEntityCleanup {
   private removeDeadBuildings(
     deadBuildingIds: EntityId[],
     onBuildingDeath: ((deadBuildingIds: EntityId[]) => void) | null,
+    onBuildingSpawn: ((newBuildings: Entity[]) => void) | null,
   ): void {
     if (deadBuildingIds.length === 0) return;
+    const spawnedWrecks = this.spawnedWrecks;
+    spawnedWrecks.length = 0;
     for (const id of deadBuildingIds) {
       const building = this.world.getEntity(id);
-      if (building && this.syntheticDeathEventIds.has(id)) this.emitSyntheticDeathEvent(building);
+      if (building) {
+        if (this.syntheticDeathEventIds.has(id)) this.emitSyntheticDeathEvent(building);
+        const debris = this.reclaimedIds.has(id) ? null : createDebrisFromDestroyedWreck(this.world, building);
+        if (debris !== null) spawnedWrecks.push(debris);
+      }
       spatialGrid.removeBuilding(id);
     }
     if (onBuildingDeath !== null) onBuildingDeath(deadBuildingIds);
+    if (spawnedWrecks.length > 0 && onBuildingSpawn !== null) onBuildingSpawn(spawnedWrecks);
+    spawnedWrecks.length = 0;
     for (const id of deadBuildingIds) this.world.removeEntity(id);
   }
 
@@ -7,6 +7,7 @@ import { DamageSystem, type AreaDamageSource } from './damage';
 import { collectKillsAndDeathContexts } from './combat/damageHelpers';
 import type { DeathContext, SimEvent } from './combat';
 import type { ForceAccumulator } from './ForceAccumulator';
+import { carveImpactCrater } from './Terrain';
 import { getSimWasm, type SimWasm } from '../sim-wasm/init';
 
 const EMPTY_DEATH_EXPLOSION_EXCLUDES = new Set<EntityId>();
@@ -105,6 +106,7 @@ export class SimulationDeathExplosionPlanner {
 
       const result = this.damageSystem.applyDeathExplosionDamage(areaDamage);
       this.forceAccumulator.addKnockbackForces(result.knockbacks);
+      carveImpactCrater(blast.center.x, blast.center.y, blast.center.z, blast.radius, blast.damage);
       collectKillsAndDeathContexts(
         result,
         this.world,
@@ -1,5 +1,15 @@
-import type { PlayerId } from './types';
+import type { Entity, PlayerId } from './types';
 import type { WorldState } from './WorldState';
+import { isEntityActive } from './buildableHelpers';
+import { getEntityMetalValue } from './matchStats';
+import { makeMapOvalMetrics, mapOvalPointAt } from './mapOval';
+import { getAllyTeamBaseAngle } from './playerLayout';
+import {
+  DEFAULT_VICTORY_CONDITION,
+  normalizeVictoryCondition,
+  type GameOverReason,
+  type VictoryCondition,
+} from '@/types/victoryCondition';
 
 function playerHasLivingCommander(world: WorldState, playerId: PlayerId): boolean {
   const commanders = world.getCommanderUnits();
@@ -48,3 +58,266 @@ export function resolveCommanderGameOverWinner(
   }
   return null;
 }
+
+/** A unit or building that still counts for its owner: alive, and not a
+ *  wreck (wrecks are ownerless, so the ownership check covers them). */
+function ownedLivingPlayerId(entity: Entity): PlayerId | null {
+  if (entity.ownership === null) return null;
+  const hp = entity.unit?.hp ?? entity.building?.hp ?? 0;
+  return hp > 0 ? entity.ownership.playerId : null;
+}
+
+function rosterIndex(playerIds: readonly PlayerId[], playerId: PlayerId): number {
+  for (let i = 0; i < playerIds.length; i++) {
+    if (playerIds[i] === playerId) return i;
+  }
+  return -1;
+}
+
+/**
+ * The annihilation rule: a side is out once every unit and building it owns
+ * is gone. Returns the one side still standing, as its first standing member
+ * in roster order, or null while two or more sides remain (or none do).
+ */
+export function resolveAnnihilationGameOverWinner(
+  world: WorldState,
+  playerIds: readonly PlayerId[],
+): PlayerId | null {
+  if (playerIds.length < 2) return null;
+  let survivingTeamId: number | null = null;
+  let winnerIndex = -1;
+  for (const entities of [world.getUnits(), world.getBuildings()]) {
+    for (let i = 0; i < entities.length; i++) {
+      const playerId = ownedLivingPlayerId(entities[i]);
+      if (playerId === null) continue;
+      const index = rosterIndex(playerIds, playerId);
+      if (index < 0) continue;
+      const teamId = world.getTeamId(playerId);
+      if (survivingTeamId === null) survivingTeamId = teamId;
+      else if (teamId !== survivingTeamId) return null;
+      if (winnerIndex < 0 || index < winnerIndex) winnerIndex = index;
+    }
+  }
+  return winnerIndex < 0 ? null : playerIds[winnerIndex];
+}
+
+/** A capturable spot on the map. Points are laid out from the map size and
+ *  the side count alone, so every peer derives the same ones. */
+export type ControlPoint = {
+  readonly x: number;
+  readonly y: number;
+  readonly radius: number;
+};
+
+/** Flank points sit this far out on the map oval, as a fraction of its
+ *  smaller dimension — between the centre and the spawn ring. */
+const CONTROL_POINT_RING_FRACTION = 0.25;
+/** Capture radius as a fraction of the oval's smaller dimension. */
+const CONTROL_POINT_RADIUS_FRACTION = 0.05;
+
+/** One point at the centre, plus one on each divider between neighbouring
+ *  sides: every side starts the same distance from the same number of them. */
+export function buildControlPoints(
+  mapWidth: number,
+  mapHeight: number,
+  allyTeamCount: number,
+): ControlPoint[] {
+  const oval = makeMapOvalMetrics(mapWidth, mapHeight);
+  const radius = oval.minDim * CONTROL_POINT_RADIUS_FRACTION;
+  const points: ControlPoint[] = [{ x: oval.cx, y: oval.cy, radius }];
+  const sides = Math.max(1, Math.floor(allyTeamCount));
+  for (let i = 0; i < sides; i++) {
+    const angle = getAllyTeamBaseAngle(i, sides) + Math.PI / sides;
+    const point = mapOvalPointAt(oval, angle, oval.minDim * CONTROL_POINT_RING_FRACTION);
+    points.push({ x: point.x, y: point.y, radius });
+  }
+  return points;
+}
+
+export type GameOverResult = {
+  readonly winnerId: PlayerId;
+  readonly reason: GameOverReason;
+};
+
+/** Cross-tick victory progress. Only control points carry any: the side
+ *  holding the majority, and for how many ticks in a row it has. */
+export type VictorySaveState = {
+  holdingTeamId: number | null;
+  heldTicks: number;
+};
+
+/**
+ * Decides when the match is over under the lobby's victory condition.
+ *
+ * Evaluated once per tick after dead entities are cleaned up, against the
+ * world as it now stands. Every input is simulation state, so every peer ends
+ * the match on the same tick with the same winner and reason.
+ */
+export class SimulationGameOver {
+  private readonly world: WorldState;
+  private condition: VictoryCondition = DEFAULT_VICTORY_CONDITION;
+  private controlPoints: ControlPoint[] | null = null;
+  private controlPointAllyTeamCount = -1;
+  private holdingTeamId: number | null = null;
+  private heldTicks = 0;
+  /** Per point this tick: the side on it, null when contested, undefined
+   *  when empty. */
+  private readonly _pointHolders: (number | null | undefined)[] = [];
+  private readonly _heldPointCounts = new Map<number, number>();
+  private readonly _scores = new Map<number, number>();
+
+  constructor(world: WorldState) {
+    this.world = world;
+  }
+
+  setCondition(condition: Partial<VictoryCondition> | undefined): void {
+    this.condition = normalizeVictoryCondition(condition);
+    this.reset();
+  }
+
+  getCondition(): VictoryCondition {
+    return this.condition;
+  }
+
+  /** The control points in play, or none outside control-point mode. */
+  getControlPoints(): readonly ControlPoint[] {
+    if (this.condition.mode !== 'controlPoints') return [];
+    // The side count is fixed once the roster is, but the roster arrives
+    // after the simulation is built; lay the points out on first use.
+    const allyTeamCount = this.world.getAllyTeamCount();
+    if (this.controlPoints === null || this.controlPointAllyTeamCount !== allyTeamCount) {
+      this.controlPoints = buildControlPoints(
+        this.world.mapWidth,
+        this.world.mapHeight,
+        allyTeamCount,
+      );
+      this.controlPointAllyTeamCount = allyTeamCount;
+    }
+    return this.controlPoints;
+  }
+
+  evaluate(playerIds: readonly PlayerId[]): GameOverResult | null {
+    const mode = this.condition.mode;
+    if (mode === 'commander') {
+      const winnerId = resolveCommanderGameOverWinner(this.world, playerIds);
+      return winnerId === null ? null : { winnerId, reason: 'commander' };
+    }
+
+    const lastStanding = resolveAnnihilationGameOverWinner(this.world, playerIds);
+    if (lastStanding !== null) return { winnerId: lastStanding, reason: 'annihilation' };
+    if (mode === 'controlPoints') return this.evaluateControlPoints(playerIds);
+    if (mode === 'score') return this.evaluateScore(playerIds);
+    return null;
+  }
+
+  reset(): void {
+    this.controlPoints = null;
+    this.controlPointAllyTeamCount = -1;
+    this.holdingTeamId = null;
+    this.heldTicks = 0;
+  }
+
+  exportSaveState(): VictorySaveState {
+    return { holdingTeamId: this.holdingTeamId, heldTicks: this.heldTicks };
+  }
+
+  restoreSaveState(state: VictorySaveState): void {
+    this.holdingTeamId = state.holdingTeamId;
+    this.heldTicks = state.heldTicks;
+  }
+
+  private evaluateControlPoints(playerIds: readonly PlayerId[]): GameOverResult | null {
+    const points = this.getControlPoints();
+    const holders = this._pointHolders;
+    holders.length = points.length;
+    holders.fill(undefined);
+    const units = this.world.getUnits();
+    for (let i = 0; i < units.length; i++) {
+      const entity = units[i];
+      if (entity.transported !== null || !isEntityActive(entity)) continue;
+      const playerId = ownedLivingPlayerId(entity);
+      if (playerId === null || rosterIndex(playerIds, playerId) < 0) continue;
+      const teamId = this.world.getTeamId(playerId);
+      for (let p = 0; p < points.length; p++) {
+        const point = points[p];
+        const dx = entity.transform.x - point.x;
+        const dy = entity.transform.y - point.y;
+        if (dx * dx + dy * dy > point.radius * point.radius) continue;
+        const current = holders[p];
+        if (current === undefined) holders[p] = teamId;
+        else if (current !== null && current !== teamId) holders[p] = null;
+      }
+    }
+
+    const counts = this._heldPointCounts;
+    counts.clear();
+    for (let p = 0; p < points.length; p++) {
+      const holder = holders[p];
+      if (holder !== undefined && holder !== null) {
+        counts.set(holder, (counts.get(holder) ?? 0) + 1);
+      }
+    }
+    let majorityTeamId: number | null = null;
+    for (const [teamId, count] of counts) {
+      if (count * 2 > points.length) majorityTeamId = teamId;
+    }
+
+    if (majorityTeamId === null) {
+      this.holdingTeamId = null;
+      this.heldTicks = 0;
+      return null;
+    }
+    if (majorityTeamId === this.holdingTeamId) {
+      this.heldTicks++;
+    } else {
+      this.holdingTeamId = majorityTeamId;
+      this.heldTicks = 1;
+    }
+    if (this.heldTicks < this.world.ticksForSeconds(this.condition.holdSeconds)) return null;
+    const winnerId = this.firstMemberOfTeam(playerIds, majorityTeamId);
+    return winnerId === null ? null : { winnerId, reason: 'controlPoints' };
+  }
+
+  /** Score is the metal standing on the field: the build cost of every
+   *  finished unit and building a side still owns. A tie plays on — the
+   *  first tick after the limit that separates the sides ends the match. */
+  private evaluateScore(playerIds: readonly PlayerId[]): GameOverResult | null {
+    if (this.world.getTick() < this.world.ticksForSeconds(this.condition.timeLimitSeconds)) {
+      return null;
+    }
+    const scores = this._scores;
+    scores.clear();
+    for (const entities of [this.world.getUnits(), this.world.getBuildings()]) {
+      for (let i = 0; i < entities.length; i++) {
+        const entity = entities[i];
+        if (!isEntityActive(entity)) continue;
+        const playerId = ownedLivingPlayerId(entity);
+        if (playerId === null || rosterIndex(playerIds, playerId) < 0) continue;
+        const teamId = this.world.getTeamId(playerId);
+        scores.set(teamId, (scores.get(teamId) ?? 0) + getEntityMetalValue(entity));
+      }
+    }
+    let bestTeamId: number | null = null;
+    let bestScore = -1;
+    let tied = false;
+    for (const [teamId, score] of scores) {
+      if (score > bestScore) {
+        bestTeamId = teamId;
+        bestScore = score;
+        tied = false;
+      } else if (score === bestScore) {
+        tied = true;
+      }
+    }
+    if (bestTeamId === null || tied) return null;
+    const winnerId = this.firstMemberOfTeam(playerIds, bestTeamId);
+    return winnerId === null ? null : { winnerId, reason: 'score' };
+  }
+
+  private firstMemberOfTeam(playerIds: readonly PlayerId[], teamId: number): PlayerId | null {
+    for (let i = 0; i < playerIds.length; i++) {
+      if (this.world.getTeamId(playerIds[i]) === teamId) return playerIds[i];
+    }
+    return null;
+  }
+}
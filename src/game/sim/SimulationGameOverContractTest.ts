@@ -1,5 +1,7 @@
 import {
+  resolveAnnihilationGameOverWinner,
   resolveCommanderGameOverWinner,
+  SimulationGameOver,
 } from './SimulationGameOver';
 import { WorldState } from './WorldState';
 import { ENTITY_CHANGED_HP } from '@/types/network';
@@ -11,6 +13,125 @@ function assertContract(condition: unknown, message: string): asserts condition
 }
 
 export function runSimulationGameOverContractTest(): void {
+  runCommanderContract();
+  runAnnihilationContract();
+  runControlPointContract();
+  runScoreContract();
+}
+
+/** Two sides, one player each, with a commander apiece. */
+function buildDuel(): { world: WorldState; playerIds: PlayerId[] } {
+  const world = new WorldState(1, 512, 512);
+  const playerIds = [1, 2] as PlayerId[];
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    playerIds,
+    new Map<PlayerId, number>([[1, 1], [2, 2]]),
+  ));
+  return { world, playerIds };
+}
+
+function spawn(world: WorldState, x: number, y: number, playerId: PlayerId, blueprintId: string) {
+  const entity = world.createUnitFromBlueprint(x, y, playerId, blueprintId, {
+    allocateSubEntityIds: false,
+  });
+  world.addEntity(entity);
+  return entity;
+}
+
+function kill(world: WorldState, entity: ReturnType<typeof spawn>): void {
+  entity.unit!.hp = 0;
+  world.markSnapshotDirty(entity.id, ENTITY_CHANGED_HP);
+}
+
+function runAnnihilationContract(): void {
+  const { world, playerIds } = buildDuel();
+  const commanderA = spawn(world, 80, 80, 1, 'unitCommander');
+  const commanderB = spawn(world, 420, 420, 2, 'unitCommander');
+  const survivorB = spawn(world, 400, 420, 2, 'unitCommander');
+  const gameOver = new SimulationGameOver(world);
+  gameOver.setCondition({ mode: 'annihilation' });
+
+  kill(world, commanderB);
+  assertContract(
+    gameOver.evaluate(playerIds) === null,
+    'annihilation must keep a side in while it still owns anything, commander or not',
+  );
+  kill(world, survivorB);
+  const result = gameOver.evaluate(playerIds);
+  assertContract(
+    result?.winnerId === 1 && result.reason === 'annihilation',
+    `the last side standing must win by annihilation, got ${JSON.stringify(result)}`,
+  );
+  kill(world, commanderA);
+  assertContract(
+    resolveAnnihilationGameOverWinner(world, playerIds) === null,
+    'nothing standing anywhere must not award an arbitrary winner',
+  );
+}
+
+function runControlPointContract(): void {
+  const { world, playerIds } = buildDuel();
+  spawn(world, 40, 40, 2, 'unitCommander');
+  const gameOver = new SimulationGameOver(world);
+  gameOver.setCondition({ mode: 'controlPoints', holdSeconds: 60 });
+  const points = gameOver.getControlPoints();
+  assertContract(points.length === 3, `two sides must play for three points, got ${points.length}`);
+  const holdTicks = world.ticksForSeconds(60);
+
+  spawn(world, points[0].x, points[0].y, 1, 'unitCommander');
+  spawn(world, points[1].x, points[1].y, 1, 'unitCommander');
+  for (let tick = 1; tick < holdTicks; tick++) {
+    assertContract(gameOver.evaluate(playerIds) === null, `the hold must not end the match early (tick ${tick})`);
+  }
+
+  // Contesting one point breaks the majority, and the count starts over.
+  const contester = spawn(world, points[1].x, points[1].y, 2, 'unitCommander');
+  assertContract(gameOver.evaluate(playerIds) === null, 'a contested point must count for nobody');
+  assertContract(
+    gameOver.exportSaveState().heldTicks === 0,
+    'losing the majority must reset the hold',
+  );
+  kill(world, contester);
+
+  const restored = new SimulationGameOver(world);
+  restored.setCondition(gameOver.getCondition());
+  for (let tick = 1; tick < holdTicks; tick++) gameOver.evaluate(playerIds);
+  restored.restoreSaveState(gameOver.exportSaveState());
+  const result = restored.evaluate(playerIds);
+  assertContract(
+    result?.winnerId === 1 && result.reason === 'controlPoints',
+    `an unbroken majority for the full hold must win, across a save, got ${JSON.stringify(result)}`,
+  );
+}
+
+function runScoreContract(): void {
+  const { world, playerIds } = buildDuel();
+  spawn(world, 80, 80, 1, 'unitCommander');
+  const commanderB = spawn(world, 420, 420, 2, 'unitCommander');
+  const gameOver = new SimulationGameOver(world);
+  gameOver.setCondition({ mode: 'score', timeLimitSeconds: 600 });
+  const limitTicks = world.ticksForSeconds(600);
+
+  while (world.getTick() < limitTicks - 1) world.incrementTick();
+  spawn(world, 100, 80, 1, 'unitCommander');
+  assertContract(gameOver.evaluate(playerIds) === null, 'score must not end the match before the limit');
+
+  world.incrementTick();
+  kill(world, commanderB);
+  spawn(world, 440, 420, 2, 'unitCommander');
+  spawn(world, 460, 420, 2, 'unitCommander');
+  kill(world, spawn(world, 480, 420, 2, 'unitCommander'));
+  assertContract(gameOver.evaluate(playerIds) === null, 'a tied score must play on');
+
+  spawn(world, 500, 420, 2, 'unitCommander');
+  const result = gameOver.evaluate(playerIds);
+  assertContract(
+    result?.winnerId === 2 && result.reason === 'score',
+    `the higher score at the limit must win, got ${JSON.stringify(result)}`,
+  );
+}
+
+function runCommanderContract(): void {
   const world = new WorldState(1, 512, 512);
   const playerIds = [1, 2, 3] as PlayerId[];
   world.setTeamRoster(buildTeamRosterFromAssignment(
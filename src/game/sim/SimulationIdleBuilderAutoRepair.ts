@@ -19,6 +19,14 @@ type ActiveRepair = HomePosition & {
   targetId: EntityId;
 };
 
+export type IdleBuilderAutoRepairSaveState = {
+  idleBuilders: [EntityId, HomePosition][];
+  activeRepairs: [EntityId, ActiveRepair][];
+  activeReclaimers: [EntityId, EntityId][];
+  reclaimBlacklist: [EntityId, number][];
+  seenReclaimerIds: EntityId[];
+};
+
 export class SimulationIdleBuilderAutoRepair {
   private readonly world: WorldState;
   private readonly idleBuilders: Map<EntityId, HomePosition> = new Map();
@@ -49,6 +57,25 @@ export class SimulationIdleBuilderAutoRepair {
     this.seenReclaimerIds.clear();
   }
 
+  exportSaveState(): IdleBuilderAutoRepairSaveState {
+    return {
+      idleBuilders: [...this.idleBuilders].map(([id, home]) => [id, { ...home }]),
+      activeRepairs: [...this.activeRepairs].map(([id, repair]) => [id, { ...repair }]),
+      activeReclaimers: [...this.activeReclaimers],
+      reclaimBlacklist: [...this.reclaimBlacklist],
+      seenReclaimerIds: [...this.seenReclaimerIds],
+    };
+  }
+
+  restoreSaveState(state: IdleBuilderAutoRepairSaveState): void {
+    this.reset();
+    for (const [id, home] of state.idleBuilders) this.idleBuilders.set(id, { ...home });
+    for (const [id, repair] of state.activeRepairs) this.activeRepairs.set(id, { ...repair });
+    for (const [id, targetId] of state.activeReclaimers) this.activeReclaimers.set(id, targetId);
+    for (const [id, tick] of state.reclaimBlacklist) this.reclaimBlacklist.set(id, tick);
+    for (const id of state.seenReclaimerIds) this.seenReclaimerIds.add(id);
+  }
+
   private pruneReclaimBlacklist(tick: number): void {
     for (const [targetId, expiryTick] of this.reclaimBlacklist) {
       if (tick >= expiryTick) this.reclaimBlacklist.delete(targetId);
@@ -29,6 +29,17 @@ const REFRESH_FIRST_LANES = [PATH_REQUEST_REFRESH, PATH_REQUEST_FRESH] as const;
 // work turn, never the amount of A* work that team receives.
 const PATH_REQUEST_COMMANDER_FRESH = 3;
 
+/** Waiting path requests, as a save file carries them. */
+export type PathPlanSchedulerSaveState = {
+  lanes: {
+    playerId: PlayerId;
+    commanderFresh: EntityId[];
+    fresh: EntityId[];
+    refresh: EntityId[];
+  }[];
+  nextPlayerIndexByTeam: [AllyTeamId, number][];
+};
+
 type PathRequestLaneQueue = {
   ids: EntityId[];
   head: number;
@@ -133,6 +144,33 @@ export class SimulationPathPlanScheduler {
     this.nextPlayerIndexByTeam.clear();
   }
 
+  exportSaveState(): PathPlanSchedulerSaveState {
+    const lanes: PathPlanSchedulerSaveState['lanes'] = [];
+    for (const [playerId, playerLanes] of this.lanes) {
+      lanes.push({
+        playerId,
+        commanderFresh: pendingLaneIds(playerLanes.commanderFresh),
+        fresh: pendingLaneIds(playerLanes.fresh),
+        refresh: pendingLaneIds(playerLanes.refresh),
+      });
+    }
+    return { lanes, nextPlayerIndexByTeam: [...this.nextPlayerIndexByTeam] };
+  }
+
+  restoreSaveState(state: PathPlanSchedulerSaveState): void {
+    this.reset();
+    for (const saved of state.lanes) {
+      this.lanes.set(saved.playerId, {
+        commanderFresh: { ids: [...saved.commanderFresh], head: 0 },
+        fresh: { ids: [...saved.fresh], head: 0 },
+        refresh: { ids: [...saved.refresh], head: 0 },
+      });
+    }
+    for (const [teamId, index] of state.nextPlayerIndexByTeam) {
+      this.nextPlayerIndexByTeam.set(teamId, index);
+    }
+  }
+
   private drainTeamLane(
     teamTurn: number,
     roster: TeamRoster,
@@ -186,6 +224,10 @@ function pathPlanPlayerId(entity: Entity): PlayerId {
   return entity.ownership?.playerId ?? (0 as PlayerId);
 }
 
+function pendingLaneIds(lane: PathRequestLaneQueue): EntityId[] {
+  return lane.ids.slice(lane.head);
+}
+
 function laneSize(lane: PathRequestLaneQueue): number {
   return lane.ids.length - lane.head;
 }
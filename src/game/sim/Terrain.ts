@@ -11,6 +11,7 @@ export {
   type TerrainRuntimeConfig,
 } from './terrain/terrainConfig';
 export {
+  getTerrainDeformationsSince,
   getTerrainRuntimeConfig,
   getTerrainPerimeterMagnitude,
   getTerrainVersion,
@@ -23,7 +24,19 @@ export {
   setTerrainPerimeterMagnitude,
   setTerrainPrecedence,
   setTerrainTeamCount,
+  type TerrainDeformation,
 } from './terrain/terrainState';
+export {
+  carveImpactCrater,
+  exportTerrainHeightEdits,
+  restoreTerrainHeightEdits,
+  type TerrainHeightEditSaveState,
+} from './terrain/terrainCraters';
+export {
+  getAuthoredMap,
+  getAuthoredStartPosition,
+  setAuthoredMap,
+} from './terrain/authoredMap';
 export {
   setMetalDepositFlatZones,
   type TerrainFlatZone,
@@ -43,6 +56,7 @@ export {
   evaluateBuildabilityFootprint,
   getBuildSquareTerrainHeightRange,
   getTerrainBuildabilityGridCell,
+  refreshTerrainBuildabilityGrid,
 
 } from './terrain/terrainBuildability';
 export {
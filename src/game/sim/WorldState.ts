@@ -5,6 +5,7 @@ import type {
   EntityMeta,
   EntityType,
   PlayerId,
+  StrategicMissile,
   TurretConfig,
   ProjectileConfig,
   ProjectileType,
@@ -23,6 +24,7 @@ import {
 } from './teamRoster';
 import type { MetalDeposit } from '../../metalDepositConfig';
 import type { ResourceMovement } from './resourceMovement';
+import type { AllianceProposal } from './diplomacy';
 import { EntityCacheManager } from './EntityCacheManager';
 import { WorldEntityMetadata } from './WorldEntityMetadata';
 import { SeededRNG } from './SeededRNG';
@@ -40,6 +42,13 @@ import {
 } from '../../config';
 import { isEntityActive } from './buildableHelpers';
 import type { BuildingBlueprintId } from '../../types/blueprintIds';
+import type { BlueprintPrerequisites, TechUpgradeId } from '../../types/blueprints';
+import {
+  BASE_TECH_LEVEL,
+  getMissingPrerequisites,
+  getStructureTech,
+  getTechUpgradeBuildingBlueprintIds,
+} from './techTree';
 import type { ShieldReflectionMode } from '../../types/shotTypes';
 import { DEFAULT_SLOPE_PATH_MODE, type SlopePathMode } from '../../types/slopePathMode';
 import {
@@ -83,6 +92,7 @@ import {
   type CreateUnitFromBlueprintOptions,
 } from './WorldUnitFactory';
 import { entitySlotRegistry } from './EntitySlotRegistry';
+import { MatchStats, type MatchStatsSaveState } from './matchStats';
 
 const EMPTY_PLAYER_SET: ReadonlySet<PlayerId> = new Set();
 
@@ -105,6 +115,45 @@ export type RemovedSnapshotEntity = {
   type: 'unit' | 'building';
 };
 
+/** Everything a save file needs from the world beyond the entities
+ *  themselves: counters, the random stream, the gameplay settings a
+ *  command may have changed since boot, and the cross-tick ledgers. The
+ *  immutable layout (map, deposits, roster) comes back from the config. */
+export type WorldSaveState = {
+  tick: number;
+  nextEntityId: EntityId;
+  randomStreamState: number;
+  buildingVersion: number;
+  unitSetVersion: number;
+  maxTargetableRadius: number;
+  maxVisibilityPadding: number;
+  entityCountCap: number;
+  turretShieldPanelsEnabled: boolean;
+  turretShieldSpheresEnabled: boolean;
+  forceFieldsVisible: boolean;
+  shieldReflectionMode: ShieldReflectionMode;
+  fogOfWarEnabled: boolean;
+  slowDownAtFinalWaypoint: boolean;
+  slopePathMode: SlopePathMode;
+  metalCoverage: MetalCoverage;
+  liquidSurfaceMode: LiquidSurfaceMode;
+  converterTax: number;
+  scanPulses: ScanPulse[];
+  strategicMissiles: StrategicMissile[];
+  resourceMovements: ResourceMovement[];
+  matchStats: MatchStatsSaveState;
+  armedSelfDestructs: [EntityId, number][];
+  unfundedBuildSeconds: [EntityId, number][];
+  factoryProducedUnits: { unitId: EntityId; factoryId: EntityId; unitBlueprintId: string }[];
+  pendingDeathCheckIds: EntityId[];
+  pendingBuildingBodySpawnIds: EntityId[];
+  /** Alliances as they stand, which diplomacy may have moved away from the
+   *  roster's starting sides. */
+  alliances: [PlayerId, PlayerId[]][];
+  allianceProposals: AllianceProposal[];
+  resignHeirs: [PlayerId, PlayerId][];
+};
+
 /** Realized builder contribution for this tick. This transient presentation
  *  ledger is deliberately separate from resource movements: repair is free,
  *  and construction particles communicate work rather than payment lanes. */
@@ -183,14 +232,23 @@ export class WorldState {
    *  visibility filter unions all allied players' vision sources, and
    *  the snapshot serializer treats allied entities as friendly for
    *  private-detail and delta-resolution purposes. Populated at
-   *  game start by ServerBootstrap when the lobby has team configuration;
-   *  never mutated mid-game (alliances are not currently switchable). */
+   *  game start from the roster by `setTeamRoster`; replaced wholesale by
+   *  `setAlliances` when diplomacy commands change who is allied mid-game
+   *  (see diplomacy.ts). Never edited in place. */
   public alliesByPlayer: Map<PlayerId, ReadonlySet<PlayerId>> = new Map();
 
+  /** Open alliance invitations, in the order they were made. */
+  public allianceProposals: AllianceProposal[] = [];
+
+  /** Seat -> the ally that inherits its army when it resigns. */
+  public readonly resignHeirs = new Map<PlayerId, PlayerId>();
+
   /** Who is on which side. Player -> team -> ally team, the three BAR
    *  ownership levels; see teamRoster.ts. Terrain dividers, spawn angles,
-   *  and `alliesByPlayer` above are all derived from this one assignment
-   *  rather than each re-deriving groupings from player ids. Defaults to
+   *  and the starting `alliesByPlayer` above are all derived from this one
+   *  assignment rather than each re-deriving groupings from player ids. It
+   *  describes the match as dealt and does not follow later alliance
+   *  changes: the layout it carved stays put. Defaults to
    *  free-for-all (every seat its own side) so a fresh world, a test
    *  fixture, or a reset path behaves exactly as it did before teams
    *  existed. */
@@ -207,6 +265,11 @@ export class WorldState {
    *  reveal mid-sweep. */
   public scanPulses: ScanPulse[] = [];
 
+  /** Strategic missiles in flight, in launch order. strategicWeapons owns
+   *  every write: a launch appends, and an interception or impact removes.
+   *  Not on the wire — clients learn of a missile from its launch event. */
+  public strategicMissiles: StrategicMissile[] = [];
+
   /** Armed self-destruct countdowns: entity id → the tick the blast
    *  fires (BAR-style). Armed by the selfDestruct command (which
    *  toggles), cancelled by Stop or by re-issuing selfDestruct;
@@ -219,8 +282,8 @@ export class WorldState {
   /** Unfinished shells that nobody funded this tick: entity id → seconds
    *  since the last construction work landed on them. constructionLifecycle
    *  owns every write, drops entries the moment funding resumes, and removes
-   *  the frame outright once decay reaches zero progress. Derived state, so
-   *  it is not serialized: every peer runs the same lifecycle pass. */
+   *  the frame outright once decay reaches zero progress. Not on the wire:
+   *  every peer runs the same lifecycle pass. Save files do carry it. */
   public readonly unfundedBuildSeconds = new Map<EntityId, number>();
 
   /** Buildings added since the last tick that still need a collision body.
@@ -284,6 +347,9 @@ export class WorldState {
    *  simulation tick and filled by the resource movement system so
    *  accounting and renderer-facing pylon flow read one channel. */
   public resourceMovements: ResourceMovement[] = [];
+  /** Per-seat ledgers for the end-of-match statistics. Written by the
+   *  systems that see each event; never read back by the simulation. */
+  public readonly matchStats = new MatchStats();
   /** Optional server-side lifecycle hook. WorldState owns entity
    *  removal, but host-only systems such as physics own external
    *  resources that must be released before the entity disappears. */
@@ -705,6 +771,119 @@ export class WorldState {
     this.tick++;
   }
 
+  exportSaveState(): WorldSaveState {
+    const factoryProducedUnits: WorldSaveState['factoryProducedUnits'] = [];
+    for (const [unitId, produced] of this.factoryProducedUnitByUnitId) {
+      factoryProducedUnits.push({
+        unitId,
+        factoryId: produced.factoryId,
+        unitBlueprintId: produced.unitBlueprintId,
+      });
+    }
+    return {
+      tick: this.tick,
+      nextEntityId: this.nextEntityId,
+      randomStreamState: this.rng.getSeed(),
+      buildingVersion: this.buildingVersion,
+      unitSetVersion: this.unitSetVersion,
+      maxTargetableRadius: this.maxTargetableRadius,
+      maxVisibilityPadding: this.maxVisibilityPadding,
+      entityCountCap: this.entityCountCap,
+      turretShieldPanelsEnabled: this.turretShieldPanelsEnabled,
+      turretShieldSpheresEnabled: this.turretShieldSpheresEnabled,
+      forceFieldsVisible: this.forceFieldsVisible,
+      shieldReflectionMode: this.shieldReflectionMode,
+      fogOfWarEnabled: this.fogOfWarEnabled,
+      slowDownAtFinalWaypoint: this.slowDownAtFinalWaypoint,
+      slopePathMode: this.slopePathMode,
+      metalCoverage: this.metalCoverage,
+      liquidSurfaceMode: this.liquidSurfaceMode,
+      converterTax: this.converterTax,
+      scanPulses: this.scanPulses.map((pulse) => ({ ...pulse })),
+      strategicMissiles: this.strategicMissiles.map((missile) => ({ ...missile })),
+      resourceMovements: this.resourceMovements.map((movement) => ({ ...movement })),
+      matchStats: this.matchStats.exportSaveState(),
+      armedSelfDestructs: [...this.armedSelfDestructs],
+      unfundedBuildSeconds: [...this.unfundedBuildSeconds],
+      factoryProducedUnits,
+      pendingDeathCheckIds: [...this.pendingDeathCheckIds],
+      pendingBuildingBodySpawnIds: this.pendingBuildingBodySpawns.map((entity) => entity.id),
+      alliances: [...this.alliesByPlayer].map(([playerId, allies]) => [playerId, [...allies]]),
+      allianceProposals: this.allianceProposals.map((proposal) => ({ ...proposal })),
+      resignHeirs: [...this.resignHeirs],
+    };
+  }
+
+  /** Overwrite the world's counters and ledgers from a save. Runs after the
+   *  saved entities are back in the world, because adding them moves the
+   *  very counters restored here. */
+  restoreSaveState(state: WorldSaveState): void {
+    this.tick = state.tick;
+    this.nextEntityId = state.nextEntityId;
+    this.rng.setSeed(state.randomStreamState);
+    this.buildingVersion = state.buildingVersion;
+    this.unitSetVersion = state.unitSetVersion;
+    this.maxTargetableRadius = state.maxTargetableRadius;
+    this.maxVisibilityPadding = state.maxVisibilityPadding;
+    this.entityCountCap = state.entityCountCap;
+    this.turretShieldPanelsEnabled = state.turretShieldPanelsEnabled;
+    this.turretShieldSpheresEnabled = state.turretShieldSpheresEnabled;
+    this.forceFieldsVisible = state.forceFieldsVisible;
+    this.shieldReflectionMode = state.shieldReflectionMode;
+    this.fogOfWarEnabled = state.fogOfWarEnabled;
+    this.slowDownAtFinalWaypoint = state.slowDownAtFinalWaypoint;
+    this.slopePathMode = state.slopePathMode;
+    this.metalCoverage = state.metalCoverage;
+    this.liquidSurfaceMode = state.liquidSurfaceMode;
+    this.converterTax = state.converterTax;
+    this.scanPulses = state.scanPulses.map((pulse) => ({ ...pulse }));
+    this.strategicMissiles = state.strategicMissiles.map((missile) => ({ ...missile }));
+    this.resourceMovements = state.resourceMovements.map((movement) => ({ ...movement }));
+    this.matchStats.restoreSaveState(state.matchStats);
+
+    this.armedSelfDestructs.clear();
+    for (const [id, tick] of state.armedSelfDestructs) this.armedSelfDestructs.set(id, tick);
+    this.unfundedBuildSeconds.clear();
+    for (const [id, seconds] of state.unfundedBuildSeconds) this.unfundedBuildSeconds.set(id, seconds);
+
+    this.factoryProducedUnitIdsByFactory.clear();
+    this.factoryProducedUnitByUnitId.clear();
+    for (const produced of state.factoryProducedUnits) {
+      let byUnitBlueprint = this.factoryProducedUnitIdsByFactory.get(produced.factoryId);
+      if (byUnitBlueprint === undefined) {
+        byUnitBlueprint = new Map();
+        this.factoryProducedUnitIdsByFactory.set(produced.factoryId, byUnitBlueprint);
+      }
+      let unitIds = byUnitBlueprint.get(produced.unitBlueprintId);
+      if (unitIds === undefined) {
+        unitIds = new Set();
+        byUnitBlueprint.set(produced.unitBlueprintId, unitIds);
+      }
+      unitIds.add(produced.unitId);
+      this.factoryProducedUnitByUnitId.set(produced.unitId, {
+        factoryId: produced.factoryId,
+        unitBlueprintId: produced.unitBlueprintId,
+      });
+    }
+
+    this.pendingDeathCheckIds = new Set(state.pendingDeathCheckIds);
+    this.pendingBuildingBodySpawns.length = 0;
+    for (const id of state.pendingBuildingBodySpawnIds) {
+      const entity = this.entities.get(id);
+      if (entity !== undefined) this.pendingBuildingBodySpawns.push(entity);
+    }
+    // The entities cleared out to make room for the save never reached a
+    // client as live entities of this match, so there is nothing to remove.
+    this.removedSnapshotEntities.length = 0;
+    this.cache.invalidate();
+
+    this.allianceProposals = state.allianceProposals.map((proposal) => ({ ...proposal }));
+    this.resignHeirs.clear();
+    for (const [playerId, heirPlayerId] of state.resignHeirs) this.resignHeirs.set(playerId, heirPlayerId);
+    // Last: the saved entities were added under the roster's starting sides.
+    this.setAlliances(new Map(state.alliances.map(([playerId, allies]) => [playerId, new Set(allies)])));
+  }
+
   // Add entity to world
   addEntity(entity: Entity): void {
     this.entities.set(entity.id, entity);
@@ -753,6 +932,7 @@ export class WorldState {
     const entity = this.entities.get(id);
     if (entity !== undefined && this.onEntityRemoving !== null) this.onEntityRemoving(entity);
     if (entity !== undefined) {
+      this.matchStats.recordRemoved(entity);
       this.removeFactoryProducedUnitReference(entity.id);
       if (entity.factory !== null) {
         this.clearFactoryProductionProvenanceForFactory(entity.id);
@@ -1194,20 +1374,68 @@ export class WorldState {
     return false;
   }
 
-  /** The shield-aware targeting upgrade: granted while the player owns a
-   *  completed Shield-Aware Targeting Tech building. Their turrets then
+  /** True while the player's team holds a completed, open structure whose
+   *  blueprint `tech` grants `upgrade` (techTree.ts). */
+  teamHasTechUpgrade(playerId: PlayerId, upgrade: TechUpgradeId): boolean {
+    const buildingBlueprintIds = getTechUpgradeBuildingBlueprintIds(upgrade);
+    for (let i = 0; i < buildingBlueprintIds.length; i++) {
+      if (this.teamHasCompletedBuilding(playerId, buildingBlueprintIds[i])) return true;
+    }
+    return false;
+  }
+
+  /** Highest tech level any completed, open structure on the player's team
+   *  grants; BASE_TECH_LEVEL when it holds none. Derived on every read,
+   *  like teamHasCompletedBuilding. */
+  getTeamTechLevel(playerId: PlayerId): number {
+    let level = this.getPlayerTechLevel(playerId);
+    for (const allyId of this.getAllies(playerId)) {
+      level = Math.max(level, this.getPlayerTechLevel(allyId));
+    }
+    return level;
+  }
+
+  private getPlayerTechLevel(playerId: PlayerId): number {
+    let level = BASE_TECH_LEVEL;
+    const buildings = this.getBuildingsByPlayer(playerId);
+    for (const building of buildings) {
+      const tech = getStructureTech(building.buildingBlueprintId);
+      if (tech === null || tech.level <= level || !isEntityActive(building)) continue;
+      const activeState = building.building?.activeState ?? null;
+      if (activeState !== null && !activeState.open) continue;
+      level = tech.level;
+    }
+    return level;
+  }
+
+  /** True when the player's team holds everything `prerequisites` asks
+   *  for. Null prerequisites are always met. */
+  teamMeetsPrerequisites(
+    playerId: PlayerId,
+    prerequisites: BlueprintPrerequisites | null,
+  ): boolean {
+    if (prerequisites === null) return true;
+    return getMissingPrerequisites(prerequisites, {
+      hasCompletedBuilding: (buildingBlueprintId) =>
+        this.teamHasCompletedBuilding(playerId, buildingBlueprintId),
+      techLevel: this.getTeamTechLevel(playerId),
+    }) === null;
+  }
+
+  /** The shield-aware targeting upgrade: granted while the player's team
+   *  owns a completed structure whose tech grants it. Their turrets then
    *  reject locks whose line of sight crosses active force material. */
   playerHasShieldAwareTargeting(playerId: PlayerId): boolean {
-    return this.teamHasCompletedBuilding(playerId, 'buildingShieldTargetingTech');
+    return this.teamHasTechUpgrade(playerId, 'shieldAwareTargeting');
   }
 
   /** Shield power: every shield the team owns is raised while at least one
-   *  Shield Generator on that team is completed and switched ON, and every one
-   *  of them drops the moment the last generator goes dark. Nothing is gated at
-   *  order time — shield-bearing units build freely and simply stand unshielded
-   *  until their side has power. */
+   *  shield-power structure on that team is completed and switched ON, and
+   *  every one of them drops the moment the last goes dark. Nothing is gated
+   *  at order time — shield-bearing units build freely and simply stand
+   *  unshielded until their side has power. */
   playerHasShieldPower(playerId: PlayerId): boolean {
-    return this.teamHasCompletedBuilding(playerId, 'buildingShieldTech');
+    return this.teamHasTechUpgrade(playerId, 'shieldPower');
   }
 
   /** Bitmask of players whose TEAM holds a completed building of the given
@@ -1229,10 +1457,21 @@ export class WorldState {
     return mask >>> 0;
   }
 
+  /** Bitmask of players whose team holds `upgrade`, in the same
+   *  convention as getCompletedBuildingPlayerMask. */
+  getTechUpgradePlayerMask(upgrade: TechUpgradeId): number {
+    let mask = 0;
+    const buildingBlueprintIds = getTechUpgradeBuildingBlueprintIds(upgrade);
+    for (let i = 0; i < buildingBlueprintIds.length; i++) {
+      mask |= this.getCompletedBuildingPlayerMask(buildingBlueprintIds[i]);
+    }
+    return mask >>> 0;
+  }
+
   /** Per-player shield-aware targeting bits for the Rust batch kernel and
    *  snapshot meta. */
   getShieldAwareTargetingPlayerMask(): number {
-    return this.getCompletedBuildingPlayerMask('buildingShieldTargetingTech');
+    return this.getTechUpgradePlayerMask('shieldAwareTargeting');
   }
 
   /** Per-player shield-power bits. The shield update resolves this ONCE per
@@ -1240,32 +1479,48 @@ export class WorldState {
    *  building each player owns, which is not something a per-host call can
    *  afford. Also carried in snapshot meta for the BATTLE bar readout. */
   getShieldPowerPlayerMask(): number {
-    return this.getCompletedBuildingPlayerMask('buildingShieldTech');
+    return this.getTechUpgradePlayerMask('shieldPower');
   }
 
-  /** The precision-fire upgrade: granted while the player owns a completed,
-   *  switched-ON Precision Targeting Research Lab. Every authored firing
+  /** The precision-fire upgrade: granted while the player's team owns a
+   *  completed, switched-ON structure whose tech grants it. Every authored firing
    *  randomness knob — aim spread cones, cooldown duration variance, beam
    *  pulse on/off variance — is then treated as zero for that player's
    *  turrets, so they fire exactly on their authored line and cadence. */
   playerHasPrecisionTargeting(playerId: PlayerId): boolean {
-    return this.teamHasCompletedBuilding(playerId, 'buildingPrecisionTargetingTech');
+    return this.teamHasTechUpgrade(playerId, 'precisionTargeting');
   }
 
   /** Per-player precision-fire bits. The firing paths resolve this ONCE per
    *  tick and test bits per shot: the underlying scan walks every building the
    *  player owns, which is not something a per-shot call can afford. */
   getPrecisionTargetingPlayerMask(): number {
-    return this.getCompletedBuildingPlayerMask('buildingPrecisionTargetingTech');
+    return this.getTechUpgradePlayerMask('precisionTargeting');
   }
 
-  /** Install the roster and rebuild the alliance sets from it. This is the
-   *  ONLY way alliances should be established: an ally team is the source
-   *  of truth and `alliesByPlayer` is its cache, so the two cannot drift
-   *  into a state where A is allied to B but B is on another side. */
+  /** Install the roster and rebuild the alliance sets from it. This is how
+   *  a match's alliances are established: the starting ally teams are the
+   *  source of truth, so A can never start allied to B while B starts on
+   *  another side. Later changes go through `setAlliances`. */
   setTeamRoster(roster: TeamRoster): void {
     this.teamRoster = roster;
     this.alliesByPlayer = buildAlliesByPlayer(roster);
+    this.allianceProposals = [];
+    this.resignHeirs.clear();
+  }
+
+  /** Replace the alliance sets mid-match. diplomacy.ts builds the new map;
+   *  this installs it and re-derives every owned entity's team id, because
+   *  the targeting kernels and entity metadata judge friend from foe by the
+   *  team id cached on the entity, not by asking this map. */
+  setAlliances(alliesByPlayer: Map<PlayerId, ReadonlySet<PlayerId>>): void {
+    this.alliesByPlayer = alliesByPlayer;
+    for (const entity of this.entities.values()) {
+      if (entity.ownership === null) continue;
+      if (entity.type !== 'unit' && entity.type !== 'building') continue;
+      entitySlotRegistry.setOwnership(entity, this.getTeamId(entity.ownership.playerId));
+      this.entityMetadata.refresh(entity);
+    }
   }
 
   /** Number of sides in the match. Terrain dividers carve one slice each. */
@@ -7,8 +7,11 @@
  *                   a disconnected human's army keeps its orders).
  *     'bot'         the deterministic in-sim policy drives it: idle
  *                   factories re-pick repeat-build units from the sim's
- *                   own RNG stream (aiProduction.ts). No connection, no
- *                   commands, no wire traffic.
+ *                   own RNG stream (aiProduction.ts). Outside the demo
+ *                   battle the seat also plans its own economy, base,
+ *                   and attack waves (SimulationBotPolicy.ts) through
+ *                   the same in-sim commands a human issues. No
+ *                   connection, no wire traffic.
  *
  *   INITIAL STATE   what the seat starts the match with.
  *     'commander'   a lone commander on the seat's spawn arc — the real
@@ -26,6 +29,10 @@
  * Both axes are gameplay truth: they decide what spawns and who is driven
  * by the sim, so both are hashed into the canonical match initialization
  * and every peer must agree on them at frame 0.
+ *
+ * A 'bot' seat also carries a PROFILE — how well and in what style the
+ * policy plays it (botProfiles.ts). Same rule: the sim reads it, so it is
+ * hashed with the seat axes.
  */
 
 export type SeatAgentType = 'human' | 'bot';
@@ -34,3 +41,51 @@ export type SeatInitialState = 'commander' | 'base';
 
 export const DEFAULT_HUMAN_INITIAL_STATE: SeatInitialState = 'commander';
 export const DEFAULT_BOT_INITIAL_STATE: SeatInitialState = 'base';
+
+export const BOT_DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+
+export const BOT_PERSONALITIES = ['balanced', 'turtle', 'rusher', 'air', 'naval'] as const;
+export type BotPersonality = (typeof BOT_PERSONALITIES)[number];
+
+export type SeatBotProfile = {
+  difficulty: BotDifficulty;
+  personality: BotPersonality;
+};
+
+export const DEFAULT_BOT_PROFILE: Readonly<SeatBotProfile> = {
+  difficulty: 'normal',
+  personality: 'balanced',
+};
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return (BOT_DIFFICULTIES as readonly unknown[]).includes(value);
+}
+
+export function isBotPersonality(value: unknown): value is BotPersonality {
+  return (BOT_PERSONALITIES as readonly unknown[]).includes(value);
+}
+
+/** A profile as it arrived from the wire or a caller: unknown fields fall
+ *  back to the default one by one, so an older roster still seats a bot. */
+export function normalizeBotProfile(
+  profile: Partial<SeatBotProfile> | null | undefined,
+): SeatBotProfile {
+  return {
+    difficulty: isBotDifficulty(profile?.difficulty)
+      ? profile.difficulty
+      : DEFAULT_BOT_PROFILE.difficulty,
+    personality: isBotPersonality(profile?.personality)
+      ? profile.personality
+      : DEFAULT_BOT_PROFILE.personality,
+  };
+}
+
+/** The next entry in a lobby cycle button's order, wrapping. */
+export function nextBotDifficulty(difficulty: BotDifficulty): BotDifficulty {
+  return BOT_DIFFICULTIES[(BOT_DIFFICULTIES.indexOf(difficulty) + 1) % BOT_DIFFICULTIES.length];
+}
+
+export function nextBotPersonality(personality: BotPersonality): BotPersonality {
+  return BOT_PERSONALITIES[(BOT_PERSONALITIES.indexOf(personality) + 1) % BOT_PERSONALITIES.length];
+}
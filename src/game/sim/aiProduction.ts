@@ -4,10 +4,17 @@ import type { WorldState } from './WorldState';
 import type { Entity, PlayerId } from './types';
 import { BUILDABLE_UNIT_BLUEPRINT_IDS, getNormalizedUnitCost, getUnitBlueprint } from './blueprints';
 import { factoryProductionSystem } from './factoryProduction';
-import { getFactoryAllowedUnitBlueprintIds } from './factoryProductionRoster';
+import {
+  factoryTeamMeetsUnitPrerequisites,
+  getFactoryAllowedUnitBlueprintIds,
+} from './factoryProductionRoster';
 import { isEntityActive } from './buildableHelpers';
 import { BACKGROUND_UNIT_SPAWN_DISTRIBUTION } from '../../config';
 import { ENTITY_CHANGED_FACTORY } from '../../types/network';
+import type { SeatBotProfile } from './agentSeat';
+import { getBotUnitPreferenceWeight } from './botProfiles';
+
+const NO_BOT_PROFILES: ReadonlyMap<PlayerId, SeatBotProfile> = new Map();
 
 // Precomputed weights for the shared background unit-generation mode.
 let weights: { id: string; weight: number }[] = [];
@@ -28,14 +35,17 @@ function pickRandomUnit(
   world: WorldState,
   playerId: PlayerId,
   allowedUnitBlueprintIds: ReadonlySet<string> | null,
+  botProfile: SeatBotProfile | undefined,
 ): string {
   initWeights();
 
   if (allowedUnitBlueprintIds && allowedUnitBlueprintIds.size > 0) {
-    // Filter to allowed types
+    // Filter to allowed types, biased by the seat's bot personality
     let filteredTotal = 0;
     for (const entry of weights) {
-      if (allowedUnitBlueprintIds.has(entry.id)) filteredTotal += entry.weight;
+      if (allowedUnitBlueprintIds.has(entry.id)) {
+        filteredTotal += weightForProfile(entry, botProfile);
+      }
     }
     if (filteredTotal <= 0) return weights[0].id;
 
@@ -43,7 +53,7 @@ function pickRandomUnit(
     let cumulative = 0;
     for (const entry of weights) {
       if (!allowedUnitBlueprintIds.has(entry.id)) continue;
-      cumulative += entry.weight;
+      cumulative += weightForProfile(entry, botProfile);
       if (r <= cumulative) return entry.id;
     }
   }
@@ -57,7 +67,16 @@ function pickRandomUnit(
   return weights[weights.length - 1].id;
 }
 
+function weightForProfile(
+  entry: { id: string; weight: number },
+  botProfile: SeatBotProfile | undefined,
+): number {
+  if (botProfile === undefined) return entry.weight;
+  return entry.weight * getBotUnitPreferenceWeight(botProfile, entry.id);
+}
+
 function allowedUnitsForFactory(
+  world: WorldState,
   factory: Parameters<typeof getFactoryAllowedUnitBlueprintIds>[0],
   globalAllowedUnitBlueprintIds: ReadonlySet<string> | null,
 ): ReadonlySet<string> {
@@ -65,6 +84,7 @@ function allowedUnitsForFactory(
   const allowed = new Set<string>();
   for (const unitBlueprintId of factoryRoster) {
     if (globalAllowedUnitBlueprintIds !== null && !globalAllowedUnitBlueprintIds.has(unitBlueprintId)) continue;
+    if (!factoryTeamMeetsUnitPrerequisites(world, factory, unitBlueprintId)) continue;
     allowed.add(unitBlueprintId);
   }
   return allowed;
@@ -75,11 +95,12 @@ function updateAiFactoryProduction(
   entity: Entity,
   aiPlayerIds: ReadonlySet<PlayerId>,
   allowedUnitBlueprintIds: ReadonlySet<string> | null,
+  botProfiles: ReadonlyMap<PlayerId, SeatBotProfile>,
 ): void {
   if (!entity.factory || !isEntityActive(entity)) return;
   if (!entity.ownership) return;
   if (!aiPlayerIds.has(entity.ownership.playerId)) return;
-  const factoryAllowedUnitBlueprintIds = allowedUnitsForFactory(entity, allowedUnitBlueprintIds);
+  const factoryAllowedUnitBlueprintIds = allowedUnitsForFactory(world, entity, allowedUnitBlueprintIds);
   if (factoryAllowedUnitBlueprintIds.size === 0) return;
 
   if (
@@ -88,7 +109,12 @@ function updateAiFactoryProduction(
   ) {
     if (factoryProductionSystem.selectUnit(
       entity,
-      pickRandomUnit(world, entity.ownership.playerId, factoryAllowedUnitBlueprintIds),
+      pickRandomUnit(
+        world,
+        entity.ownership.playerId,
+        factoryAllowedUnitBlueprintIds,
+        botProfiles.get(entity.ownership.playerId),
+      ),
       world,
     )) {
       world.markSnapshotDirty(entity.id, ENTITY_CHANGED_FACTORY);
@@ -98,7 +124,8 @@ function updateAiFactoryProduction(
 
 /**
  * For each AI player, find idle factories and select a random repeat-build unit.
- * Called once per tick from Simulation.update().
+ * Called once per tick from Simulation.update(). Seats with a bot profile
+ * weight the pick by their personality (botProfiles.ts).
  *
  * Iterates the cached factory subset rather than every building. AI
  * production runs every sim tick, so the branchy "is this a factory?"
@@ -109,6 +136,7 @@ export function updateAiProduction(
   world: WorldState,
   aiPlayerIds: ReadonlySet<PlayerId>,
   allowedUnitBlueprintIds: ReadonlySet<string> | null,
+  botProfiles: ReadonlyMap<PlayerId, SeatBotProfile> = NO_BOT_PROFILES,
 ): void {
   if (aiPlayerIds.size === 0) return;
   // Honour an explicit empty selection — when the user has every
@@ -119,9 +147,9 @@ export function updateAiProduction(
   if (allowedUnitBlueprintIds && allowedUnitBlueprintIds.size === 0) return;
 
   for (const entity of world.getFactoryBuildings()) {
-    updateAiFactoryProduction(world, entity, aiPlayerIds, allowedUnitBlueprintIds);
+    updateAiFactoryProduction(world, entity, aiPlayerIds, allowedUnitBlueprintIds, botProfiles);
   }
   for (const entity of world.getFactoryUnits()) {
-    updateAiFactoryProduction(world, entity, aiPlayerIds, allowedUnitBlueprintIds);
+    updateAiFactoryProduction(world, entity, aiPlayerIds, allowedUnitBlueprintIds, botProfiles);
   }
 }
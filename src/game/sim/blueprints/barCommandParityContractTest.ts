@@ -101,6 +101,7 @@ const PROTOTYPE_ONLY_BLUEPRINTS: ReadonlySet<string> = new Set([
   'buildingShieldTargetingTech', 'buildingShieldTech',
   'buildingPrecisionTargetingTech', 'buildingRadarJammer', 'buildingSonarJammer',
   'buildingMetalStorage', 'buildingEnergyStorage',
+  'buildingMissileSilo', 'buildingAntiMissile',
 ]);
 
 /** Categories a host can expose. Same vocabulary as the audit's matrix and the
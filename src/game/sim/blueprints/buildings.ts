@@ -16,14 +16,26 @@ import type {
 } from '../types';
 import type { UnitBlueprintId } from '../../../types/blueprintIds';
 import type {
+  ArmorClass,
+  BlueprintPrerequisites,
   BuildingTurretMount,
   EntityBaseLedger,
   EntityHudBlueprint,
   LockOnInclusionObject,
+  StructureMissileInterceptorConfig,
+  StructureMorphConfig,
+  StructureStockpileConfig,
+  StructureStrategicMissileConfig,
+  StructureTechConfig,
   WorkEmitterSpec,
 } from '../../../types/blueprints';
 import rawBuildingBlueprints from './buildings.json';
-import { assertExplicitFields } from './jsonValidation';
+import {
+  assertArmorClass,
+  assertBlueprintPrerequisites,
+  assertExplicitFields,
+  assertStructureTechConfig,
+} from './jsonValidation';
 import {
   LOCK_ON_INCLUSION_FIELDS,
   assertNoInlineLockOnInclusionFields,
@@ -83,6 +95,9 @@ export type BuildingBlueprint = Partial<LockOnInclusionObject> & {
   footprintMask: string[];
   base: EntityBaseLedger;
   hp: number;
+  /** Armor class for shot/ray damage multipliers; structures author
+   *  `structure`. */
+  armorClass: ArmorClass;
   /** Authored construction cost. BUILDING_CONFIGS applies COST_MULTIPLIER.
    *  Metal and energy are paid together for each realized work step. */
   cost: ResourceCost;
@@ -104,6 +119,26 @@ export type BuildingBlueprint = Partial<LockOnInclusionObject> & {
    *  the other resource minus the configured CONVERTER TAX. `null` for
    *  any non-converter building. */
   conversionRate: number | null;
+  /** In-place upgrade into another structure on the same footprint. The
+   *  host keeps working while it morphs; absent means it cannot morph. */
+  morph?: StructureMorphConfig | null;
+  /** Ammunition the structure builds ahead of use: each round costs
+   *  `cost` over `durationMs` and the magazine holds `maxStock`. Rounds
+   *  build only while the owner keeps some queued. */
+  stockpile?: StructureStockpileConfig | null;
+  /** Long-range missile launched by hand, one stockpiled round per shot.
+   *  Requires `stockpile`. */
+  strategicMissile?: StructureStrategicMissileConfig | null;
+  /** Automatic defense that spends one stockpiled round to destroy an
+   *  enemy strategic missile bound inside its coverage. Requires
+   *  `stockpile`. */
+  missileInterceptor?: StructureMissileInterceptorConfig | null;
+  /** What the team must hold before this structure may be ordered (see
+   *  techTree.ts); absent means nothing. */
+  prerequisites?: BlueprintPrerequisites | null;
+  /** Tech level and upgrade channels the team holds while this structure
+   *  stands completed and switched ON; absent means it grants none. */
+  tech?: StructureTechConfig | null;
   /** Unit production roster for static factories. This is BAR-style
    *  `buildoptions` data owned directly by the factory host. */
   allowedUnitBlueprintIds: readonly UnitBlueprintId[] | null;
@@ -162,6 +197,7 @@ export const BUILDING_BLUEPRINTS = buildBuildingBlueprints();
 
 const BUILDING_EXPLICIT_FIELDS = [
   'base',
+  'armorClass',
   'energyProduction',
   'metalProduction',
   'energyStorage',
@@ -460,6 +496,95 @@ function validateStorageCapacity(id: string, blueprint: BuildingBlueprint): void
   }
 }
 
+function validateBuildingMorph(id: string, blueprint: BuildingBlueprint): void {
+  const morph = blueprint.morph;
+  if (morph === undefined || morph === null) return;
+  const target = BUILDING_BLUEPRINTS[morph.into];
+  if (morph.into === id || target === undefined) {
+    throw new Error(`Invalid building blueprint ${id}: morph.into must name another building blueprint`);
+  }
+  // The target takes over the host's build-grid reservation as it stands.
+  if (
+    target.gridWidth !== blueprint.gridWidth ||
+    target.gridHeight !== blueprint.gridHeight ||
+    target.footprintMask.join('/') !== blueprint.footprintMask.join('/') ||
+    target.placementSets.join('/') !== blueprint.placementSets.join('/') ||
+    target.hoveringType !== blueprint.hoveringType
+  ) {
+    throw new Error(
+      `Invalid building blueprint ${id}: morph.into ${morph.into} must share its footprint and placement`,
+    );
+  }
+  if (
+    !Number.isFinite(morph.cost.energy) || morph.cost.energy < 0 ||
+    !Number.isFinite(morph.cost.metal) || morph.cost.metal < 0
+  ) {
+    throw new Error(`Invalid building blueprint ${id}: morph.cost must be finite and non-negative`);
+  }
+  if (!Number.isFinite(morph.durationMs) || morph.durationMs <= 0) {
+    throw new Error(`Invalid building blueprint ${id}: morph.durationMs must be positive`);
+  }
+}
+
+export function validateBuildingStockpile(id: string, blueprint: BuildingBlueprint): void {
+  const stockpile = blueprint.stockpile ?? null;
+  const missile = blueprint.strategicMissile ?? null;
+  const interceptor = blueprint.missileInterceptor ?? null;
+  if (stockpile === null) {
+    if (missile !== null || interceptor !== null) {
+      throw new Error(
+        `Invalid building blueprint ${id}: strategicMissile and missileInterceptor need a stockpile`,
+      );
+    }
+    return;
+  }
+  if (missile !== null && interceptor !== null) {
+    throw new Error(
+      `Invalid building blueprint ${id}: a stockpile feeds either a missile or an interceptor`,
+    );
+  }
+  if (
+    !Number.isFinite(stockpile.cost.energy) || stockpile.cost.energy < 0 ||
+    !Number.isFinite(stockpile.cost.metal) || stockpile.cost.metal < 0
+  ) {
+    throw new Error(`Invalid building blueprint ${id}: stockpile.cost must be finite and non-negative`);
+  }
+  if (!Number.isFinite(stockpile.durationMs) || stockpile.durationMs <= 0) {
+    throw new Error(`Invalid building blueprint ${id}: stockpile.durationMs must be positive`);
+  }
+  if (!Number.isInteger(stockpile.maxStock) || stockpile.maxStock < 1) {
+    throw new Error(`Invalid building blueprint ${id}: stockpile.maxStock must be a positive integer`);
+  }
+  if (missile !== null) {
+    for (const [field, value] of [
+      ['range', missile.range],
+      ['speed', missile.speed],
+      ['explosion.radius', missile.explosion.radius],
+    ] as const) {
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid building blueprint ${id}: strategicMissile.${field} must be positive`);
+      }
+    }
+    for (const [field, value] of [
+      ['apexHeight', missile.apexHeight],
+      ['explosion.damage', missile.explosion.damage],
+      ['explosion.force', missile.explosion.force],
+    ] as const) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(
+          `Invalid building blueprint ${id}: strategicMissile.${field} must be finite and non-negative`,
+        );
+      }
+    }
+  }
+  if (
+    interceptor !== null &&
+    (!Number.isFinite(interceptor.coverageRadius) || interceptor.coverageRadius <= 0)
+  ) {
+    throw new Error(`Invalid building blueprint ${id}: missileInterceptor.coverageRadius must be positive`);
+  }
+}
+
 function validateFactoryUnitRoster(
   id: string,
   blueprint: BuildingBlueprint,
@@ -498,6 +623,7 @@ function validateFactoryUnitRoster(
 for (const [id, blueprint] of Object.entries(BUILDING_BLUEPRINTS)) {
   assertExplicitFields(`building blueprint ${id}`, blueprint, BUILDING_EXPLICIT_FIELDS);
   assertExplicitFields(`building blueprint ${id}`, blueprint, LOCK_ON_INCLUSION_FIELDS);
+  assertArmorClass(`building blueprint ${id}.armorClass`, blueprint.armorClass);
   validateLockOnInclusionObject(
     `building blueprint ${id}`,
     blueprint as BuildingBlueprint & LockOnInclusionObject,
@@ -743,6 +869,13 @@ for (const [id, blueprint] of Object.entries(BUILDING_BLUEPRINTS)) {
   validateDedicatedContactSensor(id, blueprint);
   validateDedicatedJammer(id, blueprint);
   validateStorageCapacity(id, blueprint);
+  validateBuildingMorph(id, blueprint);
+  validateBuildingStockpile(id, blueprint);
+  assertBlueprintPrerequisites(
+    `building blueprint ${id}.prerequisites`,
+    blueprint.prerequisites ?? null,
+  );
+  assertStructureTechConfig(`building blueprint ${id}.tech`, blueprint.tech ?? null);
   if (
     !blueprint.hud ||
     !Number.isFinite(blueprint.hud.barsOffsetAboveTop)
@@ -148,6 +148,8 @@ export function structureBuildCategory(buildingBlueprintId: BuildingBlueprintId)
     case 'towerCannon':
     case 'towerAntiAir':
     case 'towerTorpedo':
+    case 'buildingMissileSilo':
+    case 'buildingAntiMissile':
       return 'Defense';
     default:
       return 'Economy';
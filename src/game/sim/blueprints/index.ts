@@ -569,6 +569,8 @@ function buildShotConfig(
     mediumTrajectory: cloneEmissionMediumTrajectoryMatrix(shotBlueprint.mediumTrajectory),
     submunitions: shotBlueprint.submunitions ?? undefined,
     smokeTrail: shotBlueprint.smokeTrail ?? undefined,
+    statusEffects: shotBlueprint.statusEffects ?? undefined,
+    armorMultipliers: shotBlueprint.armorMultipliers ?? undefined,
   };
 }
 
@@ -585,6 +587,8 @@ function buildRayConfig(rayBlueprint: RayBlueprint): BeamRay | LaserRay {
       damageSphere: { radius: rayBlueprint.damageSphere.radius },
       gravityForceMultiplier: rayBlueprint.gravityForceMultiplier,
       mediumTrajectory: cloneEmissionMediumTrajectoryMatrix(rayBlueprint.mediumTrajectory),
+      statusEffects: rayBlueprint.statusEffects ?? undefined,
+      armorMultipliers: rayBlueprint.armorMultipliers ?? undefined,
     };
   }
   return {
@@ -599,6 +603,8 @@ function buildRayConfig(rayBlueprint: RayBlueprint): BeamRay | LaserRay {
     duration: rayBlueprint.duration,
     gravityForceMultiplier: rayBlueprint.gravityForceMultiplier,
     mediumTrajectory: cloneEmissionMediumTrajectoryMatrix(rayBlueprint.mediumTrajectory),
+    statusEffects: rayBlueprint.statusEffects ?? undefined,
+    armorMultipliers: rayBlueprint.armorMultipliers ?? undefined,
   };
 }
 
@@ -1,3 +1,13 @@
+import {
+  ARMOR_CLASSES,
+  TECH_UPGRADE_IDS,
+  type ArmorClass,
+  type BlueprintPrerequisites,
+  type StructureTechConfig,
+} from '../../../types/blueprints';
+import { isStructureBlueprintId } from '../../../types/blueprintIds';
+import type { ArmorMultiplierTable } from '../../../types/shotTypes';
+
 export type JsonObject = { [key: string]: unknown };
 
 export function isObject(value: unknown): value is JsonObject {
@@ -20,3 +30,92 @@ export function assertExplicitFields(
     }
   }
 }
+
+export function assertArmorClass(
+  label: string,
+  value: unknown,
+): asserts value is ArmorClass {
+  if (!(ARMOR_CLASSES as readonly unknown[]).includes(value)) {
+    throw new Error(
+      `Invalid ${label}: expected one of ${ARMOR_CLASSES.join(', ')}`,
+    );
+  }
+}
+
+/** A shot's or ray's armor table (null = full damage against everything).
+ *  Every class is authored, so adding one is a compile-and-validate error
+ *  in every weapon rather than a silent 1x. */
+export function assertArmorMultiplierTable(
+  label: string,
+  value: unknown,
+): asserts value is ArmorMultiplierTable | null {
+  if (value === null) return;
+  assertExplicitFields(label, value, ARMOR_CLASSES);
+  for (const key of Object.keys(value)) {
+    if (!(ARMOR_CLASSES as readonly string[]).includes(key)) {
+      throw new Error(`Invalid ${label}.${key}: unexpected armor class`);
+    }
+    const multiplier = value[key];
+    if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 0) {
+      throw new Error(`Invalid ${label}.${key}: expected finite number >= 0`);
+    }
+  }
+}
+
+function assertNonNegativeInteger(label: string, value: unknown): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${label}: expected integer >= 0`);
+  }
+}
+
+function assertExactFields(label: string, value: JsonObject, fields: readonly string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!fields.includes(key)) throw new Error(`Invalid ${label}.${key}: unexpected field`);
+  }
+}
+
+/** What a unit or building needs its team to hold before it may be built
+ *  (null = nothing). Every named structure must exist in the roster. */
+export function assertBlueprintPrerequisites(
+  label: string,
+  value: unknown,
+): asserts value is BlueprintPrerequisites | null {
+  if (value === null) return;
+  const fields = ['buildings', 'techLevel'] as const;
+  assertExplicitFields(label, value, fields);
+  assertExactFields(label, value, fields);
+  const buildings = value.buildings;
+  if (!Array.isArray(buildings)) {
+    throw new Error(`Invalid ${label}.buildings: expected array`);
+  }
+  for (const buildingBlueprintId of buildings) {
+    if (typeof buildingBlueprintId !== 'string' || !isStructureBlueprintId(buildingBlueprintId)) {
+      throw new Error(`Invalid ${label}.buildings: unknown structure "${String(buildingBlueprintId)}"`);
+    }
+  }
+  assertNonNegativeInteger(`${label}.techLevel`, value.techLevel);
+}
+
+/** What a completed, switched-on tech structure grants its team (null =
+ *  nothing): a tech level and any number of upgrade channels. */
+export function assertStructureTechConfig(
+  label: string,
+  value: unknown,
+): asserts value is StructureTechConfig | null {
+  if (value === null) return;
+  const fields = ['level', 'upgrades'] as const;
+  assertExplicitFields(label, value, fields);
+  assertExactFields(label, value, fields);
+  assertNonNegativeInteger(`${label}.level`, value.level);
+  const upgrades = value.upgrades;
+  if (!Array.isArray(upgrades)) {
+    throw new Error(`Invalid ${label}.upgrades: expected array`);
+  }
+  for (const upgrade of upgrades) {
+    if (!(TECH_UPGRADE_IDS as readonly unknown[]).includes(upgrade)) {
+      throw new Error(
+        `Invalid ${label}.upgrades: expected one of ${TECH_UPGRADE_IDS.join(', ')}`,
+      );
+    }
+  }
+}
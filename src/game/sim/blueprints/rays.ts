@@ -12,11 +12,22 @@ import {
 } from '../../../audioConfig';
 import rawRayBlueprints from './rays.json';
 import { resolveBlueprintRefs } from './jsonRefs';
-import { assertExplicitFields, isObject } from './jsonValidation';
+import {
+  assertArmorMultiplierTable,
+  assertExplicitFields,
+  isObject,
+} from './jsonValidation';
 import type { RayBlueprint } from './types';
 import { validateEmissionMediumTrajectoryMatrix } from '../emissionMedium';
+import { validateStatusEffectsSpec } from '../statusEffects';
 
-const RAY_EXPLICIT_FIELDS = ['hitSound', 'gravityForceMultiplier', 'mediumTrajectory'] as const;
+const RAY_EXPLICIT_FIELDS = [
+  'hitSound',
+  'gravityForceMultiplier',
+  'mediumTrajectory',
+  'statusEffects',
+  'armorMultipliers',
+] as const;
 const BEAM_CONTINUOUS_SOUND_EXPLICIT_FIELDS = ['harmonicSeriesIndex'] as const;
 
 function validateBeamContinuousSound(label: string, value: unknown): void {
@@ -61,6 +72,8 @@ for (const [id, blueprint] of Object.entries(RAY_BLUEPRINTS)) {
     `ray blueprint ${id}.mediumTrajectory`,
     blueprint.mediumTrajectory,
   );
+  validateStatusEffectsSpec(`ray blueprint ${id}.statusEffects`, blueprint.statusEffects);
+  assertArmorMultiplierTable(`ray blueprint ${id}.armorMultipliers`, blueprint.armorMultipliers);
   if (blueprint.type === 'beam') {
     validateBeamContinuousSound(
       `ray blueprint ${id}.continuousSound`,
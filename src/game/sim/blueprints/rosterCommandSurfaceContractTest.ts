@@ -133,6 +133,10 @@ const BAR_EQUIVALENT_CLASSIC_BUILD_ORDER: readonly StructureBlueprintId[] = [
   'towerTorpedo',
   'towerBeamMega',
   'towerAntiAir',
+  // Prototype-only strategic pair sorts directly after the AA analogue
+  // (barClassicBuildSortIndex 130200/130210).
+  'buildingAntiMissile',
+  'buildingMissileSilo',
 ];
 
 const BAR_STRUCTURE_UNITDEF_BY_LOCAL_ID = new Map<StructureBlueprintId, string>([
@@ -9,7 +9,11 @@
 import { isShotBlueprintId, type ShotBlueprintId } from '../../../types/blueprintIds';
 import rawShotBlueprints from './shots.json';
 import { resolveBlueprintRefs } from './jsonRefs';
-import { assertExplicitFields, isObject } from './jsonValidation';
+import {
+  assertArmorMultiplierTable,
+  assertExplicitFields,
+  isObject,
+} from './jsonValidation';
 import type { ShotBlueprint } from './types';
 import {
   assertValidEntityRadius,
@@ -17,6 +21,7 @@ import {
 } from './entityBaseLedger';
 import { getShotLocomotionPreset } from '../shotLocomotion';
 import { validateEmissionMediumTrajectoryMatrix } from '../emissionMedium';
+import { validateStatusEffectsSpec } from '../statusEffects';
 
 const PROJECTILE_EXPLICIT_FIELDS = [
   'name',
@@ -29,6 +34,8 @@ const PROJECTILE_EXPLICIT_FIELDS = [
   'turning',
   'mediumTrajectory',
   'smokeTrail',
+  'statusEffects',
+  'armorMultipliers',
 ] as const;
 
 export const SHOT_BLUEPRINTS = resolveBlueprintRefs(
@@ -80,6 +87,8 @@ for (const [id, blueprint] of Object.entries(SHOT_BLUEPRINTS)) {
     `shot blueprint ${id}.mediumTrajectory`,
     blueprint.mediumTrajectory,
   );
+  validateStatusEffectsSpec(`shot blueprint ${id}.statusEffects`, blueprint.statusEffects);
+  assertArmorMultiplierTable(`shot blueprint ${id}.armorMultipliers`, blueprint.armorMultipliers);
   const locomotion = getShotLocomotionPreset(blueprint.shotLocomotionPresetId);
   if (
     blueprint.maxLifespanMs !== null &&
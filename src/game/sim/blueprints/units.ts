@@ -15,7 +15,11 @@ import { BUILDABLE_UNIT_BLUEPRINT_IDS } from './unitRoster';
 import { TURRET_BLUEPRINTS } from './turrets';
 import rawUnitBlueprints from './units.json';
 import { resolveBlueprintRefs } from './jsonRefs';
-import { assertExplicitFields } from './jsonValidation';
+import {
+  assertArmorClass,
+  assertBlueprintPrerequisites,
+  assertExplicitFields,
+} from './jsonValidation';
 import type { LockOnInclusionObject, UnitLocomotionBlueprint } from './types';
 import type {
   CrawlerConfig,
@@ -45,6 +49,7 @@ type JsonUnitBlueprint = Omit<UnitBlueprint, keyof LockOnInclusionObject>;
 
 const UNIT_EXPLICIT_FIELDS = [
   'base',
+  'armorClass',
   'supportSurface',
   'suspension',
   'builder',
@@ -87,6 +92,11 @@ function buildUnitBlueprints(): Record<string, UnitBlueprint> {
   for (const [id, blueprint] of Object.entries(resolved)) {
     assertExplicitFields(`unit blueprint ${id}`, blueprint, UNIT_EXPLICIT_FIELDS);
     assertNoInlineLockOnInclusionFields(`unit blueprint ${id}`, blueprint);
+    assertArmorClass(`unit blueprint ${id}.armorClass`, blueprint.armorClass);
+    assertBlueprintPrerequisites(
+      `unit blueprint ${id}.prerequisites`,
+      blueprint.prerequisites ?? null,
+    );
     const unitLocomotion = resolveInlineLocomotion(id, blueprint.unitLocomotion);
     const base = normalizeEntityBaseLedgerFromAliases(
       `unit blueprint ${id}`,
@@ -250,6 +260,26 @@ function validateUnitWorkCapability(bp: UnitBlueprint): void {
 
 /** A crawler authors its mirrored world-space leg layout directly on the
  *  locomotion config, with one shared envelope for every limb. */
+/** A morph turns a finished unit into another unit blueprint in place; the
+ *  host pays `cost` on top of what it is already worth. */
+function validateUnitMorph(bp: UnitBlueprint): void {
+  const morph = bp.morph;
+  if (morph === undefined || morph === null) return;
+  const id = bp.unitBlueprintId;
+  if (morph.into === id || UNIT_BLUEPRINTS[morph.into] === undefined) {
+    throw new Error(`Invalid unit blueprint ${id}: morph.into must name another unit blueprint`);
+  }
+  if (
+    !Number.isFinite(morph.cost.energy) || morph.cost.energy < 0 ||
+    !Number.isFinite(morph.cost.metal) || morph.cost.metal < 0
+  ) {
+    throw new Error(`Invalid unit blueprint ${id}: morph.cost must be finite and non-negative`);
+  }
+  if (!Number.isFinite(morph.durationMs) || morph.durationMs <= 0) {
+    throw new Error(`Invalid unit blueprint ${id}: morph.durationMs must be positive`);
+  }
+}
+
 function validateCrawlerLayout(unitBlueprintId: string, config: CrawlerConfig): void {
   const choppingRatio = config.choppingSphere.radiusLegLengthRatio;
   if (!Number.isFinite(choppingRatio) || choppingRatio <= 0) {
@@ -505,6 +535,7 @@ for (const bp of Object.values(UNIT_BLUEPRINTS)) {
   }
 
   validateUnitWorkCapability(bp);
+  validateUnitMorph(bp);
 
   if (!bp.hud || !Number.isFinite(bp.hud.barsOffsetAboveTop)) {
     throw new Error(
@@ -0,0 +1,168 @@
+// Bot seat profiles: what a difficulty and a personality (agentSeat.ts)
+// change about how SimulationBotPolicy and aiProduction play a seat.
+//
+// Difficulty sets the pace and the ceiling: how often the seat thinks, how
+// many factories and constructors it keeps, how large its waves grow. It
+// never grants resources or vision — an easy bot is a slower, smaller
+// opponent playing by the same rules, not a handicapped economy.
+//
+// Personality then bends that baseline toward a style. Both are pure
+// lookups over authored tables, so every peer resolves the same tuning
+// from the hashed profile.
+
+import type { SeatBotProfile, BotDifficulty, BotPersonality } from './agentSeat';
+import { getUnitBlueprint } from './blueprints';
+
+export type BotTuning = {
+  /** Seconds between two strategic passes for the seat. */
+  thinkIntervalSeconds: number;
+  maxFactories: number;
+  /** Metal income that justifies one more factory beyond the first. */
+  metalIncomePerFactory: number;
+  /** Mobile constructors kept beside the commander, at most. */
+  maxConstructors: number;
+  /** Extractor shells allowed to be going up at once. */
+  maxPendingExtractors: number;
+  /** Static defenses kept per factory. */
+  defensesPerFactory: number;
+  /** Army metal value that launches the first wave; later waves grow. */
+  firstWaveMetalValue: number;
+  waveMetalValueGrowth: number;
+  maxWaveMetalValue: number;
+};
+
+const DIFFICULTY_TUNING: Readonly<Record<BotDifficulty, BotTuning>> = {
+  easy: {
+    thinkIntervalSeconds: 3,
+    maxFactories: 1,
+    metalIncomePerFactory: 20,
+    maxConstructors: 1,
+    maxPendingExtractors: 1,
+    defensesPerFactory: 1,
+    firstWaveMetalValue: 600,
+    waveMetalValueGrowth: 300,
+    maxWaveMetalValue: 2400,
+  },
+  normal: {
+    thinkIntervalSeconds: 1,
+    maxFactories: 4,
+    metalIncomePerFactory: 12,
+    maxConstructors: 4,
+    maxPendingExtractors: 2,
+    defensesPerFactory: 2,
+    firstWaveMetalValue: 900,
+    waveMetalValueGrowth: 450,
+    maxWaveMetalValue: 6000,
+  },
+  hard: {
+    thinkIntervalSeconds: 0.5,
+    maxFactories: 6,
+    metalIncomePerFactory: 8,
+    maxConstructors: 6,
+    maxPendingExtractors: 3,
+    defensesPerFactory: 2,
+    firstWaveMetalValue: 1200,
+    waveMetalValueGrowth: 600,
+    maxWaveMetalValue: 9000,
+  },
+};
+
+type BotPersonalityModifier = {
+  /** Multiplies every wave threshold: below 1 attacks sooner and smaller. */
+  waveValueScale: number;
+  defensesPerFactoryScale: number;
+  /** Added to the difficulty's defenses per factory after scaling. */
+  extraDefensesPerFactory: number;
+  /** Multiplies the metal income each extra factory needs. */
+  metalIncomePerFactoryScale: number;
+  /** Multiplies the factory repeat-build weight of units that fly. */
+  airUnitWeight: number;
+  /** Multiplies the factory repeat-build weight of units that swim. */
+  navalUnitWeight: number;
+};
+
+const PERSONALITY_MODIFIERS: Readonly<Record<BotPersonality, BotPersonalityModifier>> = {
+  balanced: {
+    waveValueScale: 1,
+    defensesPerFactoryScale: 1,
+    extraDefensesPerFactory: 0,
+    metalIncomePerFactoryScale: 1,
+    airUnitWeight: 1,
+    navalUnitWeight: 1,
+  },
+  turtle: {
+    waveValueScale: 1.75,
+    defensesPerFactoryScale: 2,
+    extraDefensesPerFactory: 1,
+    metalIncomePerFactoryScale: 1.25,
+    airUnitWeight: 1,
+    navalUnitWeight: 1,
+  },
+  rusher: {
+    waveValueScale: 0.5,
+    defensesPerFactoryScale: 0.5,
+    extraDefensesPerFactory: 0,
+    metalIncomePerFactoryScale: 0.6,
+    airUnitWeight: 1,
+    navalUnitWeight: 1,
+  },
+  air: {
+    waveValueScale: 1,
+    defensesPerFactoryScale: 1,
+    extraDefensesPerFactory: 0,
+    metalIncomePerFactoryScale: 1,
+    airUnitWeight: 4,
+    navalUnitWeight: 1,
+  },
+  naval: {
+    waveValueScale: 1,
+    defensesPerFactoryScale: 1,
+    extraDefensesPerFactory: 0,
+    metalIncomePerFactoryScale: 1,
+    airUnitWeight: 1,
+    navalUnitWeight: 4,
+  },
+};
+
+const AIR_LOCOMOTION_TYPES: ReadonlySet<string> = new Set(['drone', 'plane', 'aerosub']);
+const NAVAL_LOCOMOTION_TYPES: ReadonlySet<string> = new Set([
+  'submarine', 'amphibian', 'amphibious-tank', 'aerosub',
+]);
+
+const tuningCache = new Map<string, BotTuning>();
+
+export function resolveBotTuning(profile: SeatBotProfile): BotTuning {
+  const key = `${profile.difficulty}:${profile.personality}`;
+  let tuning = tuningCache.get(key);
+  if (tuning !== undefined) return tuning;
+  const base = DIFFICULTY_TUNING[profile.difficulty];
+  const modifier = PERSONALITY_MODIFIERS[profile.personality];
+  tuning = {
+    ...base,
+    metalIncomePerFactory: base.metalIncomePerFactory * modifier.metalIncomePerFactoryScale,
+    defensesPerFactory:
+      Math.floor(base.defensesPerFactory * modifier.defensesPerFactoryScale) +
+      modifier.extraDefensesPerFactory,
+    firstWaveMetalValue: base.firstWaveMetalValue * modifier.waveValueScale,
+    waveMetalValueGrowth: base.waveMetalValueGrowth * modifier.waveValueScale,
+    maxWaveMetalValue: base.maxWaveMetalValue * modifier.waveValueScale,
+  };
+  tuningCache.set(key, tuning);
+  return tuning;
+}
+
+/** Weight multiplier a bot's personality puts on one unit blueprint when
+ *  an idle factory re-picks its repeat build. 1 for anything the
+ *  personality has no opinion about. */
+export function getBotUnitPreferenceWeight(
+  profile: SeatBotProfile,
+  unitBlueprintId: string,
+): number {
+  const modifier = PERSONALITY_MODIFIERS[profile.personality];
+  if (modifier.airUnitWeight === 1 && modifier.navalUnitWeight === 1) return 1;
+  const locomotionType = getUnitBlueprint(unitBlueprintId).unitLocomotion.type;
+  let weight = 1;
+  if (AIR_LOCOMOTION_TYPES.has(locomotionType)) weight *= modifier.airUnitWeight;
+  if (NAVAL_LOCOMOTION_TYPES.has(locomotionType)) weight *= modifier.navalUnitWeight;
+  return weight;
+}
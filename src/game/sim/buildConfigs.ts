@@ -1,4 +1,15 @@
-import type { BuildingConfig, BuildingBlueprintId, UnitBuildConfig } from './types';
+import type {
+  BuildingConfig,
+  BuildingBlueprintId,
+  MorphConfig,
+  StockpileConfig,
+  UnitBuildConfig,
+} from './types';
+import type {
+  StructureMorphConfig,
+  StructureStockpileConfig,
+  UnitMorphConfig,
+} from '@/types/blueprints';
 import { COST_MULTIPLIER } from '../../config';
 import { BUILDING_BLUEPRINTS, getUnitBlueprint, getUnitLocomotion } from './blueprints';
 import { cloneUnitSupportSurface } from './unitSupportSurface';
@@ -8,6 +19,32 @@ import {
 import { parseBuildingPlacementFootprint } from './buildGrid';
 import { getBuildingPlacementAnchor } from '../../types/buildingTypes';
 
+function buildMorphConfig(morph: UnitMorphConfig | StructureMorphConfig | null | undefined): MorphConfig | null {
+  if (morph === undefined || morph === null) return null;
+  return {
+    into: morph.into,
+    cost: {
+      energy: morph.cost.energy * COST_MULTIPLIER,
+      metal: morph.cost.metal * COST_MULTIPLIER,
+    },
+    durationMs: morph.durationMs,
+  };
+}
+
+function buildStockpileConfig(
+  stockpile: StructureStockpileConfig | null | undefined,
+): StockpileConfig | null {
+  if (stockpile === undefined || stockpile === null) return null;
+  return {
+    cost: {
+      energy: stockpile.cost.energy * COST_MULTIPLIER,
+      metal: stockpile.cost.metal * COST_MULTIPLIER,
+    },
+    durationMs: stockpile.durationMs,
+    maxStock: stockpile.maxStock,
+  };
+}
+
 function buildBuildingConfig(buildingBlueprintId: BuildingBlueprintId): BuildingConfig {
   const bp = BUILDING_BLUEPRINTS[buildingBlueprintId];
   const placementFootprint = parseBuildingPlacementFootprint(
@@ -45,6 +82,10 @@ function buildBuildingConfig(buildingBlueprintId: BuildingBlueprintId): Building
     hovering: getBuildingPlacementAnchor(bp.placementSets) === 'hover-surface',
     hud: bp.hud,
     radius: { ...bp.base.radius },
+    morph: buildMorphConfig(bp.morph),
+    stockpile: buildStockpileConfig(bp.stockpile),
+    strategicMissile: bp.strategicMissile ?? null,
+    missileInterceptor: bp.missileInterceptor ?? null,
   };
 }
 
@@ -89,6 +130,7 @@ export function getUnitBuildConfig(unitBlueprintId: string): UnitBuildConfig | u
     mass: bp.mass,
     hp: bp.hp,
     fireRange: undefined,
+    morph: buildMorphConfig(bp.morph),
   };
 }
 
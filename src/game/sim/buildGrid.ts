@@ -412,6 +412,19 @@ export class BuildingGrid {
     return validPositions;
   }
 
+  /** Every reserved cell keyed by its grid index, for a save file. */
+  exportCells(): [number, GridCell][] {
+    return [...this.cells].map(([key, cell]) => [key, { ...cell }]);
+  }
+
+  /** Replace every cell with a save's. The version still moves forward so
+   *  caches keyed on it cannot mistake the restored grid for the old one. */
+  restoreCells(entries: readonly [number, GridCell][]): void {
+    this.cells.clear();
+    for (const [key, cell] of entries) this.cells.set(key, { ...cell });
+    this._version++;
+  }
+
   // Get grid dimensions
   getGridDimensions(): { width: number; height: number } {
     return { width: this.gridWidth, height: this.gridHeight };
@@ -38,6 +38,7 @@ import { isMetalExtractorBlueprintId } from '../../types/buildingTypes';
 import { getBuildingConfig } from './buildConfigs';
 import { isEntityActive } from './buildableHelpers';
 import { economyManager } from './economy';
+import { buildingBlueprintGrantsTech } from './techTree';
 import { getSimWasm } from '../sim-wasm/init';
 import type { WorldState } from './WorldState';
 import type { BuildingActiveState, BuildingBlueprintId, Entity } from './types';
@@ -53,9 +54,8 @@ export const BUILDING_CLOSED_DAMAGE_MULTIPLIER = 0.1;
  *  Producer buildings (solar/wind/extractor) gate resource income on
  *  state.open; radar/sonar gate powered contact coverage on state.open while
  *  ordinary sight remains available; converter gates the energy↔metal swap
- *  on state.open; the tech structures gate their per-player upgrade
- *  channel (shield-aware targeting / shield production / precision fire)
- *  on state.open,
+ *  on state.open; every structure whose blueprint declares `tech` gates
+ *  its tech level and upgrade channels on state.open,
  *  following BAR's on/offable Targeting Facility (armtarg). Every
  *  active-state structure fortifies identically while OFF
  *  (BUILDING_CLOSED_DAMAGE_MULTIPLIER). */
@@ -70,9 +70,7 @@ export function buildingBlueprintHasActiveState(
     || buildingBlueprintId === 'buildingRadarJammer'
     || buildingBlueprintId === 'buildingSonarJammer'
     || buildingBlueprintId === 'buildingResourceConverter'
-    || buildingBlueprintId === 'buildingShieldTargetingTech'
-    || buildingBlueprintId === 'buildingShieldTech'
-    || buildingBlueprintId === 'buildingPrecisionTargetingTech';
+    || buildingBlueprintGrantsTech(buildingBlueprintId);
 }
 
 function createInitialBuildingActiveState(): BuildingActiveState {
@@ -120,3 +120,16 @@ export function transferCompletedBuildingStorageCapacity(
   economyManager.addStorageCapacity(nextPlayerId, capacity);
   completedStorageOwnerByEntity.set(entity, nextPlayerId);
 }
+
+/** The player whose storage capacity this building currently contributes,
+ *  or undefined when none is applied. Save files record it per building. */
+export function getCompletedBuildingStorageOwner(entity: Entity): PlayerId | undefined {
+  return completedStorageOwnerByEntity.get(entity);
+}
+
+/** Mark a restored building's storage as already applied to `playerId`.
+ *  The restored economy already includes that capacity, so nothing is
+ *  added to it here. */
+export function restoreCompletedBuildingStorageOwner(entity: Entity, playerId: PlayerId): void {
+  completedStorageOwnerByEntity.set(entity, playerId);
+}
@@ -31,7 +31,7 @@ import { beamIndex } from '../BeamIndex';
 import type { DamageResult, DeathContext } from '../damage/types';
 import { buildImpactContext, collectKillsAndDeathContexts, emitBeamHitAudio } from './damageHelpers';
 import { createProjectileConfigFromShot } from '../projectileConfigs';
-import { getSurfaceNormal, isWaterAt, WATER_LEVEL } from '../Terrain';
+import { carveImpactCrater, getSurfaceNormal, isWaterAt, WATER_LEVEL } from '../Terrain';
 import { spatialGrid } from '../SpatialGrid';
 import {
   BEAM_MIN_ON_TIME_MS,
@@ -46,6 +46,7 @@ import { updateProjectileSourceClearance } from './combatUtils';
 import { writeTurretCooldownToSlab } from './combatActivitySlab';
 import { getCombatTargetingSourceSlots } from './targetingInputStamping';
 import { rollTurretCooldownDuration } from '../turretCooldown';
+import { getVeterancyReloadMultiplier } from '../veterancy';
 import { normalizeAngle } from '../../math';
 import { rollBeamPulseOffTimeMs } from './beamPulse';
 import { firingRandomnessEnabled } from './precisionFire';
@@ -1053,8 +1054,14 @@ function detonateKilledProjectileShot(
       center: { x: projEntity.transform.x, y: projEntity.transform.y, z: projEntity.transform.z },
       radius: projShot.explosion.radius,
       knockbackForce: projShot.explosion.force,
+      statusEffects: projShot.statusEffects,
+      armorMultipliers: projShot.armorMultipliers,
     });
     forceAccumulator?.addKnockbackForces(splashResult.knockbacks);
+    carveImpactCrater(
+      projEntity.transform.x, projEntity.transform.y, projEntity.transform.z,
+      projShot.explosion.radius, projShot.explosion.damage,
+    );
     collectKillsAndDeathContexts(
       splashResult, world, damageSourceKey, damageSourceType,
       unitsToRemove, buildingsToRemove, audioEvents, deathContexts,
@@ -1474,6 +1481,9 @@ export function checkProjectileCollisions(
             center: { x: impactX, y: impactY, z: impactZ },
             radius: damageSphereRadius,
             knockbackForce: tickForce,
+            statusEffects: beamShot.statusEffects,
+            statusEffectScale: dtSec * outputMultiplier,
+            armorMultipliers: beamShot.armorMultipliers,
           })
         : null;
 
@@ -1652,6 +1662,7 @@ export function checkProjectileCollisions(
               maxHits: Math.max(0, proj.maxHits - previousTargetHitCount),
               velocity: { x: proj.velocityX, y: proj.velocityY, z: proj.velocityZ },
               projectileMass: projShot.mass,
+              armorMultipliers: projShot.armorMultipliers,
             });
 
             // Apply knockback from projectile hit
@@ -1792,8 +1803,14 @@ export function checkProjectileCollisions(
             center: { x: projEntity.transform.x, y: projEntity.transform.y, z: projEntity.transform.z },
             radius: projShot.explosion.radius,
             knockbackForce: projShot.explosion.force,
+            statusEffects: projShot.statusEffects,
+            armorMultipliers: projShot.armorMultipliers,
           });
           forceAccumulator?.addKnockbackForces(splashResult.knockbacks);
+          carveImpactCrater(
+            projEntity.transform.x, projEntity.transform.y, projEntity.transform.z,
+            projShot.explosion.radius, projShot.explosion.damage,
+          );
           collectKillsAndDeathContexts(
             splashResult, world, damageSourceKey, damageSourceType,
             unitsToRemove, buildingsToRemove, audioEvents, deathContexts,
@@ -1917,7 +1934,7 @@ export function checkProjectileCollisions(
               proj.config.cooldown,
               () => world.nextRandom(sourcePlayerId),
               fireRandomness,
-            );
+            ) * getVeterancyReloadMultiplier(source);
         if (cooldown > 0) {
           writeTurretCooldownToSlab(source, weaponIdx, cooldown);
         }
@@ -13,6 +13,7 @@ import type { Projectile, ProjectileConfig } from '../types';
 import { getUnitSupportPointOffsetZ } from '../unitGeometry';
 import { isTurretBlueprintId, isUnitBlueprintId } from '../../../types/blueprintIds';
 import { getBuildingBlueprint, getUnitBlueprint } from '../blueprints';
+import { awardKillExperience } from '../veterancy';
 
 function eventAudioKey(
   sourceKey: string,
@@ -287,6 +288,8 @@ export function collectKillsAndDeathContexts(
       const target = world.getEntity(id);
       const ctx = result.deathContexts.get(id);
       const killerPlayerId = result.killerPlayerIds.get(id);
+      world.matchStats.recordKill(world, killerPlayerId, target);
+      awardKillExperience(world, result.killerEntityIds.get(id), target);
       audioEvents.push(buildUnitDeathEvent(target, id, sourceKey, ctx, sourceType, killerPlayerId ?? undefined));
       unitsToRemove.add(id);
     }
@@ -299,6 +302,8 @@ export function collectKillsAndDeathContexts(
     if (!buildingsToRemove.has(id)) {
       const building = world.getEntity(id);
       const killerPlayerId = result.killerPlayerIds.get(id);
+      world.matchStats.recordKill(world, killerPlayerId, building);
+      awardKillExperience(world, result.killerEntityIds.get(id), building);
       const ctx = result.deathContexts.get(id);
       audioEvents.push(buildBuildingDeathEvent(
         building,
@@ -53,6 +53,7 @@ import {
 } from './combatUtils';
 import { updateProjectileArming } from './shotArming';
 import { isBuildBlockingActivation } from '../buildableHelpers';
+import { isParalyzed } from '../statusEffects';
 import {
   dropTurretLockMidTick,
   readTurretBurstCooldownForFire,
@@ -67,6 +68,7 @@ import { getUnitGroundZ } from '../unitGeometry';
 import { spatialGrid } from '../SpatialGrid';
 import { createProjectileConfigFromShot, createProjectileConfigFromTurret } from '../projectileConfigs';
 import { rollTurretCooldownDuration } from '../turretCooldown';
+import { getVeterancyReloadMultiplier } from '../veterancy';
 import {
   firingRandomnessEnabled,
   resolveFiringSpreadAngle,
@@ -860,6 +862,8 @@ export function fireTurrets(
     if (hostHp <= 0) continue;
     // Inert shells don't fire; interrupted partial assemblies do.
     if (isBuildBlockingActivation(unit.buildable)) continue;
+    // Neither do paralyzed hosts.
+    if (isParalyzed(unit)) continue;
 
     const combat = unit.combat;
     const playerId = unit.ownership.playerId;
@@ -961,7 +965,7 @@ export function fireTurrets(
             spec.cooldown,
             () => world.nextRandom(playerId),
             fireRandomness,
-          ),
+          ) * getVeterancyReloadMultiplier(unit),
         );
 
         const projectileConfig = createProjectileConfigFromShot(
@@ -1160,7 +1164,7 @@ export function fireTurrets(
               config.cooldown,
               () => world.nextRandom(playerId),
               fireRandomness,
-            ),
+            ) * getVeterancyReloadMultiplier(unit),
           );
           const burstConfig = config.burst;
           if (burstConfig !== null && burstConfig.count > 1) {
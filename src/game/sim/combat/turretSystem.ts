@@ -15,6 +15,7 @@ import {
   refreshSlabActivityMasksForUnits,
 } from './combatActivitySlab';
 import { isBuildBlockingActivation } from '../buildableHelpers';
+import { isParalyzed } from '../statusEffects';
 import {
   getCombatTargetingEntityReadContext,
   readCombatTargetingTurretAimFromContextInto,
@@ -265,6 +266,8 @@ export function updateTurretRotation(world: WorldState, dtMs: number, units: rea
     // Inert shells (in-progress buildable) skip combat entirely until
     // every resource bar tops up.
     if (isBuildBlockingActivation(unit.buildable)) continue;
+    // Paralyzed hosts hold their turrets where the stun caught them.
+    if (isParalyzed(unit)) continue;
     _turretRotationRefreshUnits.push(unit);
 
     const hasTargetingContext = getCombatTargetingEntityReadContext(unit, _turretTargetingContext);
@@ -41,6 +41,8 @@ import { getUnitAuthoredBuildBlueprintIds } from './hostCapabilities';
 import { UNIT_BLUEPRINTS } from './blueprints/units';
 import { createTransportComponentForUnitBlueprint } from './transports';
 import { buildingBlueprintHasActiveState } from './buildingActiveState';
+import { getMorphConfig } from './morph';
+import { getStockpileConfig } from './strategicWeapons';
 import { isBallisticArcWeapon } from './combat/combatUtils';
 import { BUILD_GRID_CELL_SIZE } from './buildGrid';
 import { getBuildingPlacementDiagnosticsForGrid } from './buildPlacementValidation';
@@ -141,6 +143,8 @@ function createWreck(world: WorldState, x: number, y: number): Entity {
   wreck.wreck = {
     source: { kind: 'unit', unitBlueprintId: 'unitJackal' },
     originalOwnerId: 2 as PlayerId,
+    metal: 36,
+    debris: false,
     resurrectProgressMs: 0,
     resurrectRequiredMs: 1000,
   } as NonNullable<Entity['wreck']>;
@@ -574,6 +578,24 @@ const PROBES: readonly CommandProbe[] = [
     command: (s) => ({ type: 'setBuildingActive', tick: 0, entityIds: subjectIds(s), open: false }),
     observe: (s) => s.subject.building?.activeState?.open,
   },
+  {
+    name: 'morph',
+    applies: (s) => getMorphConfig(s.subject) !== null,
+    prepare: (s) => {
+      s.subject.morph = null;
+    },
+    command: (s) => ({ type: 'morph', tick: 0, entityIds: subjectIds(s), cancel: false }),
+    observe: (s) => s.subject.morph !== null,
+  },
+  {
+    name: 'stockpile',
+    applies: (s) => getStockpileConfig(s.subject) !== null,
+    prepare: (s) => {
+      s.subject.stockpile = null;
+    },
+    command: (s) => ({ type: 'stockpile', tick: 0, entityIds: subjectIds(s), delta: 1 }),
+    observe: (s) => s.subject.stockpile?.queued ?? 0,
+  },
   {
     name: 'selfDestruct',
     applies: () => true,
@@ -7,6 +7,13 @@ import { DEFAULT_SIMULATION_TICK_RATE_HZ } from '../../types/simulationTickRate'
 
 import type {
   ResignCommand,
+  SetAutoShareCommand,
+  ShareResourcesCommand,
+  ProposeAllianceCommand,
+  AcceptAllianceCommand,
+  BreakAllianceCommand,
+  SetResignHeirCommand,
+  TransferUnitsCommand,
   AreaCommandFilterCategory,
   AttackAreaCommand,
   AttackCommand,
@@ -36,6 +43,8 @@ import type {
   SkipCurrentOrderCommand,
   SetFireEnabledCommand,
   SetBuildingActiveCommand,
+  MorphCommand,
+  StockpileCommand,
   SetBuilderPriorityCommand,
   SetCarrierSpawnCommand,
   SetCloakStateCommand,
@@ -80,9 +89,29 @@ import {
 } from './combat/combatUtils';
 import { economyManager } from './economy';
 import { factoryProductionSystem } from './factoryProduction';
-import { factoryCanProduceUnit } from './factoryProductionRoster';
+import {
+  factoryCanProduceUnit,
+  factoryTeamMeetsUnitPrerequisites,
+} from './factoryProductionRoster';
+import { getBuildingPrerequisites } from './techTree';
 import { ENTITY_CHANGED_ACTIONS, ENTITY_CHANGED_COMBAT_MODE, ENTITY_CHANGED_FACTORY, ENTITY_CHANGED_HP, ENTITY_CHANGED_TURRETS } from '../../types/network';
 import { setBuildingActiveOpen } from './buildingActiveState';
+import { cancelMorph, startMorph } from './morph';
+import {
+  hasStrategicMissileLauncher,
+  launchStrategicMissile,
+  queueStockpile,
+} from './strategicWeapons';
+import { transferEntityOwnership, transferResources } from './teamSharing';
+import {
+  acceptAlliance,
+  breakAlliance,
+  forgetResignedSeat,
+  handOverToHeir,
+  proposeAlliance,
+  resolveResignHeir,
+  setResignHeir,
+} from './diplomacy';
 import { getEntityTargetPoint } from './buildingAnchors';
 import { orderAreaTargetsByChainedNearest } from './areaTargetOrdering';
 import { getBuilderConstructionRate } from './hostCapabilities';
@@ -333,12 +362,39 @@ export function executeCommand(ctx: CommandContext, command: Command): void {
     case 'setBuildingActive':
       executeSetBuildingActiveCommand(ctx, command);
       break;
+    case 'morph':
+      executeMorphCommand(ctx, command);
+      break;
+    case 'stockpile':
+      executeStockpileCommand(ctx, command);
+      break;
     case 'selfDestruct':
       executeSelfDestructCommand(ctx, command);
       break;
     case 'resign':
       executeResignCommand(ctx, command);
       break;
+    case 'shareResources':
+      executeShareResourcesCommand(ctx, command);
+      break;
+    case 'transferUnits':
+      executeTransferUnitsCommand(ctx, command);
+      break;
+    case 'setAutoShare':
+      executeSetAutoShareCommand(command);
+      break;
+    case 'proposeAlliance':
+      executeProposeAllianceCommand(ctx, command);
+      break;
+    case 'acceptAlliance':
+      executeAcceptAllianceCommand(ctx, command);
+      break;
+    case 'breakAlliance':
+      executeBreakAllianceCommand(ctx, command);
+      break;
+    case 'setResignHeir':
+      executeSetResignHeirCommand(ctx, command);
+      break;
     case 'setTowerTarget':
       executeSetTowerTargetCommand(ctx, command);
       break;
@@ -958,6 +1014,9 @@ function executeStartBuildCommand(ctx: CommandContext, command: StartBuildComman
   ) return;
 
   const playerId = builder.ownership.playerId;
+  if (!ctx.world.teamMeetsPrerequisites(playerId, getBuildingPrerequisites(command.buildingBlueprintId))) {
+    return;
+  }
 
   // No shield gate here: shielded structures are always buildable. Their
   // fields simply stay down until the owner's team has a Shield Generator
@@ -1218,6 +1277,7 @@ function executeQueueUnitCommand(ctx: CommandContext, command: QueueUnitCommand)
   const factory = ctx.world.getEntity(command.factoryId);
   if (factory === undefined || factory.factory === null || factory.ownership === null) return;
   if (!factoryCanProduceUnit(factory, command.unitBlueprintId)) return;
+  if (!factoryTeamMeetsUnitPrerequisites(ctx.world, factory, command.unitBlueprintId)) return;
 
   // No shield gate here either: every factory can queue every unit it is
   // authored to build, shielded or not. Shield power is a runtime condition
@@ -1314,6 +1374,10 @@ function executeChangeFactoryUnitQuotaCommand(ctx: CommandContext, command: Chan
   const factory = ctx.world.getEntity(command.factoryId);
   if (factory === undefined || factory.factory === null || factory.ownership === null) return;
   if (!factoryCanProduceUnit(factory, command.unitBlueprintId)) return;
+  if (
+    command.delta > 0 &&
+    !factoryTeamMeetsUnitPrerequisites(ctx.world, factory, command.unitBlueprintId)
+  ) return;
   const quotas = factory.factory.productionQuotas;
   const current = Math.max(0, Math.floor(quotas[command.unitBlueprintId] ?? 0));
   const next = Math.max(0, Math.min(MAX_FACTORY_PRODUCTION_QUOTA, current + command.delta));
@@ -1661,6 +1725,29 @@ function executeSetBuildingActiveCommand(
   }
 }
 
+function executeMorphCommand(
+  ctx: CommandContext,
+  command: MorphCommand,
+): void {
+  for (let i = 0; i < command.entityIds.length; i++) {
+    const entity = ctx.world.getEntity(command.entityIds[i]);
+    if (entity === undefined || entity.ownership === null) continue;
+    if (command.cancel) cancelMorph(ctx.world, entity);
+    else startMorph(ctx.world, entity, entity.ownership.playerId);
+  }
+}
+
+function executeStockpileCommand(
+  ctx: CommandContext,
+  command: StockpileCommand,
+): void {
+  for (let i = 0; i < command.entityIds.length; i++) {
+    const entity = ctx.world.getEntity(command.entityIds[i]);
+    if (entity === undefined || entity.ownership === null) continue;
+    queueStockpile(ctx.world, entity, entity.ownership.playerId, command.delta);
+  }
+}
+
 function executeSetTowerTargetCommand(
   ctx: CommandContext,
   command: SetTowerTargetCommand,
@@ -1790,8 +1877,18 @@ function executeSelfDestructCommand(ctx: CommandContext, command: SelfDestructCo
  * connection is not one: connection state is session state, and a
  * disconnected player's army keeps its orders until this command says
  * otherwise.
+ *
+ * The exception is a seat that named an heir who is still an ally with
+ * something on the map: the army changes hands instead, orders cleared, and
+ * fights on for the side it was already on.
  */
 function executeResignCommand(ctx: CommandContext, command: ResignCommand): void {
+  const heirPlayerId = resolveResignHeir(ctx.world, command.playerId);
+  forgetResignedSeat(ctx.world, command.playerId);
+  if (heirPlayerId !== null) {
+    handOverToHeir(ctx.world, command.playerId, heirPlayerId);
+    return;
+  }
   const entities = ctx.world.getAllEntities();
   for (let i = 0; i < entities.length; i++) {
     const entity = entities[i];
@@ -1809,6 +1906,65 @@ function executeResignCommand(ctx: CommandContext, command: ResignCommand): void
   }
 }
 
+/** Alliances are re-checked on the frame the command lands, not trusted from
+ *  when it was issued: by then the two may no longer be on the same side. */
+function executeShareResourcesCommand(ctx: CommandContext, command: ShareResourcesCommand): void {
+  const playerId = command.playerId;
+  if (
+    playerId === undefined ||
+    playerId === command.targetPlayerId ||
+    !ctx.world.arePlayersAllied(playerId, command.targetPlayerId)
+  ) return;
+  transferResources(
+    ctx.world,
+    playerId,
+    command.targetPlayerId,
+    { metal: command.metal, energy: command.energy },
+    'share',
+  );
+}
+
+function executeTransferUnitsCommand(ctx: CommandContext, command: TransferUnitsCommand): void {
+  const targetPlayerId = command.targetPlayerId;
+  for (let i = 0; i < command.entityIds.length; i++) {
+    const entity = ctx.world.getEntity(command.entityIds[i]);
+    if (entity === undefined || entity.ownership === null) continue;
+    const ownerId = entity.ownership.playerId;
+    if (ownerId === targetPlayerId || !ctx.world.arePlayersAllied(ownerId, targetPlayerId)) continue;
+    const hp = entity.unit?.hp ?? entity.building?.hp ?? 0;
+    if (hp <= 0) continue;
+    transferEntityOwnership(ctx.world, entity, targetPlayerId);
+  }
+}
+
+function executeSetAutoShareCommand(command: SetAutoShareCommand): void {
+  if (command.playerId === undefined) return;
+  economyManager.setAutoShareThreshold(command.playerId, {
+    metal: command.metal,
+    energy: command.energy,
+  });
+}
+
+function executeProposeAllianceCommand(ctx: CommandContext, command: ProposeAllianceCommand): void {
+  if (command.playerId === undefined) return;
+  proposeAlliance(ctx.world, command.playerId, command.targetPlayerId);
+}
+
+function executeAcceptAllianceCommand(ctx: CommandContext, command: AcceptAllianceCommand): void {
+  if (command.playerId === undefined) return;
+  acceptAlliance(ctx.world, command.playerId, command.targetPlayerId);
+}
+
+function executeBreakAllianceCommand(ctx: CommandContext, command: BreakAllianceCommand): void {
+  if (command.playerId === undefined) return;
+  breakAlliance(ctx.world, command.playerId);
+}
+
+function executeSetResignHeirCommand(ctx: CommandContext, command: SetResignHeirCommand): void {
+  if (command.playerId === undefined) return;
+  setResignHeir(ctx.world, command.playerId, command.heirPlayerId);
+}
+
 function executeRepairCommand(ctx: CommandContext, command: RepairCommand): void {
   const commander = ctx.world.getEntity(command.commanderId);
   const target = ctx.world.getEntity(command.targetId);
@@ -2660,6 +2816,15 @@ function executeAttackGroundCommand(ctx: CommandContext, command: AttackGroundCo
 function executeManualLaunchCommand(ctx: CommandContext, command: ManualLaunchCommand): void {
   for (let i = 0; i < command.entityIds.length; i++) {
     const entity = ctx.world.getEntity(command.entityIds[i]);
+    // A strategic silo has no turret to aim: it spends a stockpiled round.
+    if (entity !== undefined && hasStrategicMissileLauncher(entity)) {
+      const event = launchStrategicMissile(ctx.world, entity, command.targetX, command.targetY);
+      if (event !== null) {
+        if (ctx.onSimEvent !== null) ctx.onSimEvent(event);
+        ctx.pendingSimEvents.push(event);
+      }
+      continue;
+    }
     const combat = entity?.combat ?? null;
     if (entity === undefined || combat === null || !hasManualLaunchWeapon(entity)) continue;
     const targetPoint = combat.priorityTargetPoint ?? (combat.priorityTargetPoint = { x: 0, y: 0, z: 0 });
@@ -9,6 +9,10 @@ import {
   type CommandContext,
 } from './commandExecution';
 import { applyCompletedBuildingEffects } from './buildingCompletion';
+import { economyManager } from './economy';
+import { getMorphConfig, updateMorphs } from './morph';
+import { getUnitBuildConfig } from './buildConfigs';
+import { getReclaimRefundFraction, getReclaimResourceValue } from './reclaim';
 import {
   buildingBlueprintHasActiveState,
   updateBuildingActiveStates,
@@ -25,7 +29,13 @@ import { setUnitActions, shiftUnitAction } from './unitActions';
 import { WorldState } from './WorldState';
 import { PhysicsEngine3D } from '../server/PhysicsEngine3D';
 import { createPhysicsBodyForUnit } from '../server/unitPhysicsBody';
-import { createWreckFromDeadUnit } from './wrecks';
+import {
+  createDebrisFromDestroyedWreck,
+  createWreckFromDeadUnit,
+  isResurrectableWreck,
+  restoreUnitFromWreck,
+  WRECK_METAL_FRACTION,
+} from './wrecks';
 import type { TerrainBuildabilityGrid } from '@/types/terrain';
 import { deterministicMath as DMath } from './deterministicMath';
 import { ARCHITECTURE_CONFIG } from '../../architectureConfig';
@@ -61,6 +71,8 @@ function createResurrectableWreck(
   wreck.wreck = {
     source: { kind: 'unit', unitBlueprintId: 'unitJackal' },
     originalOwnerId: 2,
+    metal: 36,
+    debris: false,
     resurrectProgressMs: 0,
     resurrectRequiredMs,
   } as NonNullable<Entity['wreck']>;
@@ -2074,7 +2086,20 @@ export function runCommandExecutionContractTest(): void {
   });
   queueWorld.addEntity(wreckSource);
   const wreck = createWreckFromDeadUnit(queueWorld, wreckSource);
-  assertContract(wreck === null, 'dead unit should not create a blueprint-backed wreck');
+  const jackalMetal = getUnitBuildConfig('unitJackal')?.cost.metal ?? 0;
+  assertContract(
+    wreck !== null &&
+      wreck.wreck !== null &&
+      wreck.ownership === null &&
+      !wreck.wreck.debris &&
+      wreck.wreck.originalOwnerId === 2 &&
+      wreck.wreck.metal === jackalMetal * WRECK_METAL_FRACTION,
+    'dead unit should leave an ownerless hulk worth its share of the metal cost',
+  );
+  assertContract(
+    getReclaimResourceValue(wreck).metal === wreck.wreck.metal && getReclaimRefundFraction(wreck) === 1,
+    'a hulk should reclaim for exactly the metal it carries',
+  );
 
   setUnitActions(commander.unit, []);
   executeCommand(queueCtx, {
@@ -2086,7 +2111,7 @@ export function runCommandExecutionContractTest(): void {
   });
   assertContract(
     firstActionType(commander) === undefined,
-    'resurrect command should not enqueue without a resurrectable wreck target',
+    'resurrect command should not enqueue against a live unit',
   );
   queueWorld.removeEntity(wreckSource.id);
 
@@ -2095,7 +2120,7 @@ export function runCommandExecutionContractTest(): void {
   });
   queueWorld.addEntity(secondWreckSource);
   const secondWreck = createWreckFromDeadUnit(queueWorld, secondWreckSource);
-  assertContract(secondWreck === null, 'second dead unit should not create a blueprint-backed wreck');
+  assertContract(secondWreck !== null, 'second dead unit should leave a hulk');
   queueWorld.removeEntity(secondWreckSource.id);
   setUnitActions(commander.unit, []);
   executeCommand(queueCtx, {
@@ -2107,10 +2132,41 @@ export function runCommandExecutionContractTest(): void {
     radius: 60,
     queue: false,
   });
+  assertActionTargetIds(
+    commander.unit.actions,
+    [wreck.id, secondWreck.id],
+    'resurrect-area command should enqueue the hulks dead units left',
+  );
+
+  // Weapons knock a hulk down to a heap: cheaper, and never raised again.
+  const debris = createDebrisFromDestroyedWreck(queueWorld, secondWreck);
   assertContract(
-    firstActionType(commander) === undefined,
-    'resurrect-area command should not enqueue when no resurrectable wrecks exist',
+    debris !== null &&
+      debris.wreck !== null &&
+      debris.wreck.debris &&
+      debris.wreck.metal < secondWreck.wreck!.metal &&
+      createDebrisFromDestroyedWreck(queueWorld, debris) === null,
+    'a destroyed hulk should leave one smaller heap',
+  );
+  assertContract(
+    isResurrectableWreck(secondWreck) && restoreUnitFromWreck(queueWorld, debris, 2) === null,
+    'a heap should never be resurrectable',
+  );
+  queueWorld.removeEntity(wreck.id);
+  queueWorld.removeEntity(secondWreck.id);
+  queueWorld.removeEntity(debris.id);
+
+  const deadCommander = queueWorld.createUnitFromBlueprint(140, 100, 2, 'unitCommander', {
+    allocateSubEntityIds: false,
+  });
+  queueWorld.addEntity(deadCommander);
+  const commanderHeap = createWreckFromDeadUnit(queueWorld, deadCommander);
+  assertContract(
+    commanderHeap !== null && commanderHeap.wreck?.debris === true,
+    'a dead commander should leave only a heap',
   );
+  queueWorld.removeEntity(deadCommander.id);
+  queueWorld.removeEntity(commanderHeap.id);
 
   const constructionDroneNonResurrector = queueWorld.createUnitFromBlueprint(70, 132, 1, 'unitConstructionDrone', {
     allocateSubEntityIds: false,
@@ -2771,6 +2827,7 @@ export function runCommandExecutionContractTest(): void {
   assertContract(upgradedExtractors.length === 2, 'area mex upgrade must create another T2 shell');
 
   runSetBuildingActiveDurabilityContractTest();
+  runMorphContractTest();
 }
 
 /** A player's ON/OFF switch is a standing order, not a five-second hint.
@@ -2844,3 +2901,74 @@ function runSetBuildingActiveDurabilityContractTest(): void {
     );
   }
 }
+
+/** A morph draws its cost in step with its progress, so a cancel refunds
+ *  exactly what it drew, a dry economy stalls it, and a finished one leaves
+ *  the target blueprint standing where the original was. */
+function runMorphContractTest(): void {
+  const world = new WorldState(9, 2048, 2048);
+  const construction = new ConstructionSystem(world.mapWidth, world.mapHeight);
+  const ctx: CommandContext = {
+    world,
+    constructionSystem: construction,
+    pendingProjectileSpawns: [],
+    pendingSimEvents: [],
+    onSimEvent: null,
+  };
+  const economy = economyManager.getOrCreateEconomy(1);
+  const saved = {
+    energy: { ...economy.stockpile },
+    metal: { ...economy.metal.stockpile },
+  };
+  try {
+    economy.stockpile.max = 1e6;
+    economy.stockpile.curr = 1e6;
+    economy.metal.stockpile.max = 1e6;
+    economy.metal.stockpile.curr = 1e6;
+
+    const jackal = world.createUnitFromBlueprint(600, 600, 1, 'unitJackal', { allocateSubEntityIds: false });
+    world.addEntity(jackal);
+    const config = getMorphConfig(jackal);
+    assertContract(config !== null && config.into === 'unitLynx', 'Jackal should declare its Lynx morph');
+    const quarterMs = config.durationMs / 4;
+    const spawned: Entity[] = [];
+
+    executeCommand(ctx, { type: 'morph', tick: 1, entityIds: [jackal.id], cancel: false });
+    assertContract(jackal.morph !== null && jackal.morph.progressMs === 0, 'morph command should start the morph');
+    updateMorphs(world, construction, quarterMs, spawned);
+    assertNear(1e6 - economy.stockpile.curr, config.cost.energy / 4, 'a quarter of the morph should draw a quarter of its energy');
+    assertNear(1e6 - economy.metal.stockpile.curr, config.cost.metal / 4, 'a quarter of the morph should draw a quarter of its metal');
+
+    executeCommand(ctx, { type: 'morph', tick: 2, entityIds: [jackal.id], cancel: true });
+    assertContract(jackal.morph === null, 'cancel should clear the morph');
+    assertNear(economy.stockpile.curr, 1e6, 'cancel should refund every unit of energy drawn');
+    assertNear(economy.metal.stockpile.curr, 1e6, 'cancel should refund every unit of metal drawn');
+
+    executeCommand(ctx, { type: 'morph', tick: 3, entityIds: [jackal.id], cancel: false });
+    for (let i = 0; i < 4; i++) updateMorphs(world, construction, quarterMs, spawned);
+    const lynx = spawned[0];
+    assertContract(
+      world.getEntity(jackal.id) === undefined &&
+        spawned.length === 1 &&
+        lynx.unit?.unitBlueprintId === 'unitLynx' &&
+        lynx.ownership?.playerId === 1 &&
+        lynx.transform.x === jackal.transform.x &&
+        lynx.transform.y === jackal.transform.y,
+      'a finished morph should replace the Jackal with a Lynx where it stood',
+    );
+    assertNear(1e6 - economy.stockpile.curr, config.cost.energy, 'a finished morph should have drawn its whole energy cost');
+
+    economy.stockpile.curr = 0;
+    economy.metal.stockpile.curr = 0;
+    const stalled = world.createUnitFromBlueprint(700, 600, 1, 'unitJackal', { allocateSubEntityIds: false });
+    world.addEntity(stalled);
+    executeCommand(ctx, { type: 'morph', tick: 4, entityIds: [stalled.id], cancel: false });
+    updateMorphs(world, construction, quarterMs, spawned);
+    assertContract(stalled.morph?.progressMs === 0, 'a morph with nothing to draw should stall');
+  } finally {
+    economy.stockpile.curr = saved.energy.curr;
+    economy.stockpile.max = saved.energy.max;
+    economy.metal.stockpile.curr = saved.metal.curr;
+    economy.metal.stockpile.max = saved.metal.max;
+  }
+}
@@ -5,17 +5,16 @@ import { getBuilderConstructionRate } from './hostCapabilities';
 import { economyManager } from './economy';
 import { isCapturableTarget } from './capture';
 import {
+  getReclaimRefundFraction,
   getReclaimResourceValue,
   isReclaimableTarget,
   isReclaimTargetInBuildRange,
   resolveReclaimTarget,
-  RECLAIM_REFUND_FRACTION,
   type ReclaimTarget,
 } from './reclaim';
 import { applyVegetationReclaimTick } from './vegetation';
-import { ENTITY_CHANGED_ACTIONS, ENTITY_CHANGED_HP } from '../../types/network';
+import { ENTITY_CHANGED_HP } from '../../types/network';
 import { isBuildInProgress } from './buildableHelpers';
-import { setUnitActions } from './unitActions';
 import { ballSpawnRateForWorkRate } from '@/resourceConfig';
 import { getSimWasm } from '../sim-wasm/init';
 import { isResurrectableWreck, restoreUnitFromWreck } from './wrecks';
@@ -23,7 +22,7 @@ import { entityCanIssueResurrectCommand } from './unitCommandCapabilities';
 import { writeFabricatorProductionSprayOrigin } from './factoryProductionHold';
 import { requestBuilderWorkStation } from './workStationSystem';
 import { getWorkEmitterSpec, writeWorkEmitterOriginWorld } from './workEmitterOrigin';
-import { transferCompletedBuildingStorageCapacity } from './buildingCompletion';
+import { transferEntityOwnership } from './teamSharing';
 import { createEntityVolume, writeHitVolume } from './entityVolumes';
 
 export type { SprayTarget,  } from '@/types/ui';
@@ -107,6 +106,9 @@ function writeWorkEmitterWorldPosition(
   return writeWorkEmitterOriginWorld(source, pointIndex, out);
 }
 
+/** Capture progress per builder/target pair, as a save file carries it. */
+export type CaptureProgressSaveState = [number, { playerId: PlayerId; progress: number }][];
+
 // Commander abilities system - handles build queue (ONE target at a time)
 class CommanderAbilitiesSystem {
   private readonly sprayTargets: SprayTarget[] = [];
@@ -115,21 +117,33 @@ class CommanderAbilitiesSystem {
   private readonly completedBuildingPool: CompletedBuilding[] = [];
   private readonly resurrectedUnits: Entity[] = [];
   private readonly resurrectedBuildings: Entity[] = [];
+  private readonly reclaimedEntityIds: EntityId[] = [];
   private readonly result: CommanderAbilitiesResult = {
     sprayTargets: this.sprayTargets,
     completedBuildings: this.completedBuildings,
     resurrectedUnits: this.resurrectedUnits,
     resurrectedBuildings: this.resurrectedBuildings,
+    reclaimedEntityIds: this.reclaimedEntityIds,
   };
   private readonly captureProgressByPair = new Map<number, { playerId: PlayerId; progress: number }>();
   private readonly activeCaptureKeys = new Set<number>();
 
+  exportCaptureProgress(): CaptureProgressSaveState {
+    return [...this.captureProgressByPair].map(([key, state]) => [key, { ...state }]);
+  }
+
+  restoreCaptureProgress(entries: CaptureProgressSaveState): void {
+    this.captureProgressByPair.clear();
+    for (const [key, state] of entries) this.captureProgressByPair.set(key, { ...state });
+  }
+
   // Update all commanders' building and healing
   update(world: WorldState, dtMs: number): CommanderAbilitiesResult {
     this.sprayTargets.length = 0;
     this.completedBuildings.length = 0;
     this.resurrectedUnits.length = 0;
     this.resurrectedBuildings.length = 0;
+    this.reclaimedEntityIds.length = 0;
     this.activeCaptureKeys.clear();
 
     // Walk every builder (commanders + plain construction units). `commander`
@@ -159,6 +173,7 @@ class CommanderAbilitiesSystem {
           this.reclaimTarget(world, playerId, commander, reclaimTarget, dtMs)
         ) {
           this.pushCompletedBuilding(commander.id, reclaimTarget.id);
+          if (reclaimTarget.kind === 'entity') this.reclaimedEntityIds.push(reclaimTarget.id);
         }
         continue;
       }
@@ -487,7 +502,7 @@ class CommanderAbilitiesSystem {
       dtSec,
       value.energy,
       value.metal,
-      RECLAIM_REFUND_FRACTION,
+      getReclaimRefundFraction(target),
       _reclaimTickOut,
     ) === 0) {
       throw new Error('CommanderAbilitiesSystem.reclaimEntity: commander_apply_reclaim_tick rejected its output buffer');
@@ -576,28 +591,7 @@ class CommanderAbilitiesSystem {
     if (state.progress < 1) return false;
 
     this.captureProgressByPair.delete(key);
-    const previousPlayerId = target.ownership?.playerId ?? playerId;
-    if (target.building !== null) {
-      transferCompletedBuildingStorageCapacity(target, previousPlayerId, playerId);
-    }
-    world.setEntityOwner(target, playerId);
-    if (target.unit !== null) {
-      setUnitActions(target.unit, []);
-      world.markSnapshotDirty(target.id, ENTITY_CHANGED_ACTIONS);
-    }
-    if (target.combat !== null) {
-      target.combat.priorityTargetId = null;
-      target.combat.priorityTargetPoint = null;
-      target.combat.manualLaunchActive = false;
-    }
-    if (target.factory !== null) {
-      target.factory.selectedUnitBlueprintId = null;
-      target.factory.productionQueue.length = 0;
-      target.factory.currentShellId = null;
-      target.factory.currentBuildProgress = 0;
-      target.factory.isProducing = false;
-      target.factory.guardTargetId = null;
-    }
+    transferEntityOwnership(world, target, playerId);
     return true;
   }
 
@@ -32,8 +32,17 @@ export type {
   FireDGunCommand,
   SetFireEnabledCommand,
   SetBuildingActiveCommand,
+  MorphCommand,
+  StockpileCommand,
   SelfDestructCommand,
   ResignCommand,
+  ShareResourcesCommand,
+  TransferUnitsCommand,
+  SetAutoShareCommand,
+  ProposeAllianceCommand,
+  AcceptAllianceCommand,
+  BreakAllianceCommand,
+  SetResignHeirCommand,
   SetTowerTargetCommand,
   RepairCommand,
   RepairAreaCommand,
@@ -10,6 +10,7 @@ import {
 } from './buildGrid';
 import { computeFactoryWaypoint } from './spawn';
 import { getBuildingPlacementDiagnosticsForGrid } from './buildPlacementValidation';
+import { refreshTerrainBuildabilityGrid } from './Terrain';
 import {
   REAL_BATTLE_FACTORY_WAYPOINT_DISTANCE,
   REAL_BATTLE_FACTORY_WAYPOINT_TYPE,
@@ -53,7 +54,7 @@ export class ConstructionSystem {
   private buildingGrid: BuildingGrid;
   private readonly mapWidth: number;
   private readonly mapHeight: number;
-  private readonly terrainBuildabilityGrid: TerrainBuildabilityGrid | null;
+  private terrainBuildabilityGrid: TerrainBuildabilityGrid | null;
 
   constructor(
     mapWidth: number,
@@ -71,6 +72,16 @@ export class ConstructionSystem {
     return this.buildingGrid;
   }
 
+  getTerrainBuildabilityGrid(): TerrainBuildabilityGrid | null {
+    return this.terrainBuildabilityGrid;
+  }
+
+  // Re-bake the build squares craters have sunk since the last tick.
+  refreshTerrainBuildability(): void {
+    if (this.terrainBuildabilityGrid === null) return;
+    this.terrainBuildabilityGrid = refreshTerrainBuildabilityGrid(this.terrainBuildabilityGrid);
+  }
+
   private isCellOccupied(gridX: number, gridY: number): boolean {
     const cell = this.buildingGrid.getCell(gridX, gridY);
     return cell !== undefined && cell.occupied === true;
@@ -319,6 +330,60 @@ export class ConstructionSystem {
     );
   }
 
+  /** Finish a morph: swap a completed building for a completed `into` on
+   *  the same cells, at the same rotation and share of max hp. Returns
+   *  null (leaving the target untouched) when `into` can't stand there. */
+  replaceBuildingInPlace(
+    world: WorldState,
+    target: Entity,
+    into: BuildingBlueprintId,
+    hpFraction: number,
+  ): Entity | null {
+    const playerId = target.ownership?.playerId;
+    if (playerId === undefined) return null;
+    const targetGrid = this.getEntityBuildingGrid(target);
+    if (targetGrid === null) return null;
+    const rotation = target.transform.rotation;
+    const diagnostics = getBuildingPlacementDiagnosticsForGrid(
+      into,
+      targetGrid.gridX,
+      targetGrid.gridY,
+      world.mapWidth,
+      world.mapHeight,
+      world.metalDeposits,
+      (gx, gy) => this.isCellOccupiedByOtherEntity(gx, gy, target.id),
+      this.terrainBuildabilityGrid,
+      rotation,
+      { includeMetalDiagnostics: false, ignoreTerrain: true },
+    );
+    if (!diagnostics.canPlace) return null;
+
+    this.onBuildingDestroyed(world, target);
+    world.removeEntity(target.id);
+
+    const entity = this.startBuilding(
+      world,
+      into,
+      targetGrid.gridX,
+      targetGrid.gridY,
+      playerId,
+      target.id,
+      rotation,
+      {
+        skipBuilderAuthorization: true,
+        ignoreTerrainForPlacement: true,
+      },
+    );
+    if (entity === null || entity.buildable === null || entity.building === null) return entity;
+    entity.buildable.paid = { ...entity.buildable.required };
+    entity.buildable.isComplete = true;
+    entity.buildable.healthBuildFraction = 1;
+    entity.building.hp = Math.max(1, entity.building.maxHp * hpFraction);
+    applyCompletedBuildingEffects(world, entity);
+    entity.buildable = null;
+    return entity;
+  }
+
   private isCellOccupiedByOtherEntity(gridX: number, gridY: number, ignoredEntityId: EntityId): boolean {
     const cell = this.buildingGrid.getCell(gridX, gridY);
     return cell !== undefined && cell.occupied === true && cell.entityId !== ignoredEntityId;
@@ -345,8 +410,13 @@ export class ConstructionSystem {
     return this.getEntityBuildingGrid(entity);
   }
 
-  // Check if a building can be placed at world coordinates
-  canPlaceAt(worldX: number, worldY: number, buildingBlueprintId: BuildingBlueprintId): boolean {
+  /** Placement-rect grid origin a world point snaps to — the same
+   *  coordinate space startBuilding and StartBuildCommand take. */
+  getPlacementGridAt(
+    worldX: number,
+    worldY: number,
+    buildingBlueprintId: BuildingBlueprintId,
+  ): { gridX: number; gridY: number } {
     const config = getBuildingConfig(buildingBlueprintId);
     const snapped = this.buildingGrid.snapToGrid(
       worldX,
@@ -354,8 +424,15 @@ export class ConstructionSystem {
       config.placementGridWidth,
       config.placementGridHeight,
     );
-    const gridX = Math.floor(snapped.x / BUILD_GRID_CELL_SIZE);
-    const gridY = Math.floor(snapped.y / BUILD_GRID_CELL_SIZE);
+    return {
+      gridX: Math.floor(snapped.x / BUILD_GRID_CELL_SIZE),
+      gridY: Math.floor(snapped.y / BUILD_GRID_CELL_SIZE),
+    };
+  }
+
+  // Check if a building can be placed at world coordinates
+  canPlaceAt(worldX: number, worldY: number, buildingBlueprintId: BuildingBlueprintId): boolean {
+    const { gridX, gridY } = this.getPlacementGridAt(worldX, worldY, buildingBlueprintId);
     return getBuildingPlacementDiagnosticsForGrid(
       buildingBlueprintId,
       gridX,
@@ -50,8 +50,13 @@ import {
 import { getUnitGroundZ } from '../unitGeometry';
 import { isConstructionBodyMaterialized } from '../buildableHelpers';
 import { recordEffectiveHostileDamage } from '../aggression';
+import { applyStatusEffectsToHits } from '../statusEffects';
+import { getArmorDamageMultiplier } from './armor';
 import { isAttackEmitter } from '../emitterKinds';
-import type { EmissionMediumTrajectoryMatrix } from '@/types/blueprintSchema.generated';
+import type {
+  ArmorMultiplierTable,
+  EmissionMediumTrajectoryMatrix,
+} from '@/types/blueprintSchema.generated';
 import { emissionMediumAtZ } from '../emissionMedium';
 import { isWaterAt, WATER_LEVEL } from '../Terrain';
 
@@ -66,6 +71,7 @@ const _reusableResult: DamageResult = {
   knockbacks: [],
   deathContexts: new Map(),
   killerPlayerIds: new Map(),
+  killerEntityIds: new Map(),
 };
 // Pool for KnockbackInfo + its inner Vec2. The result.knockbacks array
 // itself is reused, but each entry pushed during an explosion was a
@@ -105,6 +111,7 @@ function resetResult(): DamageResult {
   _reusableResult.knockbacks.length = 0;
   _reusableResult.deathContexts.clear();
   _reusableResult.killerPlayerIds.clear();
+  _reusableResult.killerEntityIds.clear();
   return _reusableResult;
 }
 
@@ -122,6 +129,7 @@ export function resetDamageBuffers(): void {
   _reusableResult.knockbacks.length = 0;
   _reusableResult.deathContexts.clear();
   _reusableResult.killerPlayerIds.clear();
+  _reusableResult.killerEntityIds.clear();
   _reusableHits.length = 0;
   for (let i = 0; i < _damageBatchCount; i++) {
     _damageBatchEntities[i] = undefined;
@@ -1082,16 +1090,30 @@ function classifySegmentDamageRowsMixed(
 
 
 export class DamageSystem {
+  /** Armor table of the source being applied; every hp row queued while
+   *  it runs is scaled by the target's class. */
+  private armorMultipliers: ArmorMultiplierTable | undefined = undefined;
+
   constructor(private world: WorldState) {}
 
   // Main entry point - apply any damage source
   applyDamage(source: AnyDamageSource): DamageResult {
-    switch (source.type) {
-      case 'swept':
-        return this.applySweptDamage(source);
-      case 'area':
-        return this.applyAreaDamage(source);
+    this.armorMultipliers = source.armorMultipliers;
+    const result = source.type === 'swept'
+      ? this.applySweptDamage(source)
+      : this.applyAreaDamage(source);
+    this.armorMultipliers = undefined;
+    // Status effects land after the hp write-back, so a unit this hit
+    // killed never picks them up.
+    if (source.statusEffects !== undefined && result.hitEntityIds.length > 0) {
+      applyStatusEffectsToHits(
+        this.world,
+        source.statusEffects,
+        result.hitEntityIds,
+        source.statusEffectScale ?? 1,
+      );
     }
+    return result;
   }
 
   // Find beam path with reflections off mirror units and shield
@@ -2589,7 +2611,7 @@ export class DamageSystem {
     _damageBatchEnabled[row] = 1;
     _damageBatchTargetKind[row] = targetKind;
     _damageBatchHp[row] = currentHp;
-    _damageBatchDamage[row] = damage;
+    _damageBatchDamage[row] = damage * getArmorDamageMultiplier(this.armorMultipliers, entity);
     _damageBatchBuildingFortified[row] = buildingFortified ? 1 : 0;
     _damageBatchHasDeathContext[row] = hasDeathContext ? 1 : 0;
     _damageBatchPenetrationDirX[row] = penetrationDirX;
@@ -2637,6 +2659,13 @@ export class DamageSystem {
         (targetKind === DAMAGE_TARGET_KIND_UNIT || targetKind === DAMAGE_TARGET_KIND_BUILDING)
       ) {
         recordEffectiveHostileDamage(this.world, entity, sourceEntityId);
+        const attacker = this.world.getEntity(sourceEntityId);
+        this.world.matchStats.recordDamage(
+          this.world,
+          attacker !== undefined && attacker.ownership !== null ? attacker.ownership.playerId : null,
+          entity,
+          _damageBatchOutEffectiveDamage[i],
+        );
       }
       if (targetKind === DAMAGE_TARGET_KIND_UNIT && entity.unit !== null) {
         entity.unit.hp = _damageBatchOutHp[i];
@@ -2700,13 +2729,15 @@ export class DamageSystem {
    *  Used by the audio serializer to route the death SimEvent to the
    *  killer's recipient regardless of fog-of-war vision — so a player
    *  whose missile lands a kill off-screen still gets the "+1, you
-   *  got it" feedback. */
+   *  got it" feedback. The killing entity itself is kept too, for
+   *  veterancy. */
   private recordKiller(
     result: DamageResult,
     deadEntityId: EntityId,
     sourceEntityId: EntityId,
   ): void {
     if (result.killerPlayerIds.has(deadEntityId)) return;
+    result.killerEntityIds.set(deadEntityId, sourceEntityId);
     const killer = this.world.getEntity(sourceEntityId);
     const ownership = killer !== undefined ? killer.ownership : null;
     result.killerPlayerIds.set(
@@ -0,0 +1,42 @@
+// Armor classes — what a target is built like, read against the armor
+// table of the shot or ray hitting it (an anti-air missile barely
+// scratches a tank). Units and buildings author their class; shots and
+// rays author a multiplier per class, or null for full damage against
+// everything. A projectile shot down mid-air has no class and always
+// takes full damage.
+//
+// The multiplier scales hp damage only. Knockback keeps the raw blast, so
+// a heavy hull shrugs off a hit without becoming harder to push.
+
+import type { ArmorClass } from '@/types/blueprints';
+import type { ArmorMultiplierTable } from '@/types/shotTypes';
+import type { Entity } from '../types';
+import { getBuildingBlueprint, getUnitBlueprint } from '../blueprints';
+
+/** The target's authored armor class, or null for a non-armored body. */
+export function getEntityArmorClass(
+  entity: Pick<Entity, 'unit' | 'building' | 'buildingBlueprintId'>,
+): ArmorClass | null {
+  if (entity.unit !== null) return getUnitBlueprint(entity.unit.unitBlueprintId).armorClass;
+  if (entity.building !== null && entity.buildingBlueprintId !== null) {
+    return getBuildingBlueprint(entity.buildingBlueprintId).armorClass;
+  }
+  return null;
+}
+
+export function getArmorMultiplier(
+  table: ArmorMultiplierTable | null | undefined,
+  armorClass: ArmorClass | null,
+): number {
+  if (table === null || table === undefined || armorClass === null) return 1;
+  return table[armorClass];
+}
+
+/** Multiplier `table` applies to hp damage dealt to `entity`. */
+export function getArmorDamageMultiplier(
+  table: ArmorMultiplierTable | null | undefined,
+  entity: Pick<Entity, 'unit' | 'building' | 'buildingBlueprintId'>,
+): number {
+  if (table === null || table === undefined) return 1;
+  return getArmorMultiplier(table, getEntityArmorClass(entity));
+}
@@ -0,0 +1,71 @@
+// Contract: a weapon's armor table reaches the damage source the sim
+// actually fires, and scales hp damage by what the target is built like.
+// The anti-air missile shreds aircraft and barely scratches anything else,
+// the heavy mortar cracks structures but wastes itself on planes, and the
+// torpedo bites harder into hulls. A projectile shot down mid-air, or a
+// weapon with no table, takes and deals full damage.
+
+import type { Entity } from '../types';
+import { buildProjectileShotConfig } from '../blueprints';
+import { getArmorDamageMultiplier, getEntityArmorClass } from './armor';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[armor contract] ${message}`);
+}
+
+function unit(unitBlueprintId: string): Entity {
+  return { unit: { unitBlueprintId }, building: null, buildingBlueprintId: null } as unknown as Entity;
+}
+
+export function runArmorContractTest(): void {
+  const eagle = unit('unitEagle');
+  const mammoth = unit('unitMammoth');
+  const jackal = unit('unitJackal');
+  const orca = unit('unitOrca');
+  const commander = unit('unitCommander');
+  const solar = { unit: null, building: {}, buildingBlueprintId: 'buildingSolar' } as unknown as Entity;
+  const missile = { unit: null, building: null, buildingBlueprintId: null } as unknown as Entity;
+
+  // 1. Targets read their class from the blueprint they were built from.
+  assertContract(getEntityArmorClass(eagle) === 'air', 'a plane reads as air');
+  assertContract(getEntityArmorClass(mammoth) === 'heavy', 'a tank reads as heavy');
+  assertContract(getEntityArmorClass(orca) === 'naval', 'a ship reads as naval');
+  assertContract(getEntityArmorClass(commander) === 'commander', 'the commander has its own class');
+  assertContract(getEntityArmorClass(solar) === 'structure', 'a building reads as a structure');
+  assertContract(getEntityArmorClass(missile) === null, 'a projectile has no class');
+
+  // 2. The runtime shot carries its blueprint's table into the damage
+  //    source, and the table decides the matchup.
+  const antiAir = buildProjectileShotConfig('shotMissileLong').armorMultipliers;
+  assertContract(antiAir !== undefined, 'the anti-air missile fires with its table');
+  assertContract(
+    getArmorDamageMultiplier(antiAir, eagle) > 1 &&
+      getArmorDamageMultiplier(antiAir, mammoth) < 1 &&
+      getArmorDamageMultiplier(antiAir, solar) < 1,
+    'the anti-air missile hurts a plane more than a tank or a base',
+  );
+
+  const mortar = buildProjectileShotConfig('shotMortarHeavy').armorMultipliers;
+  assertContract(
+    getArmorDamageMultiplier(mortar, solar) > getArmorDamageMultiplier(mortar, mammoth) &&
+      getArmorDamageMultiplier(mortar, jackal) < 1 &&
+      getArmorDamageMultiplier(mortar, eagle) < getArmorDamageMultiplier(mortar, jackal),
+    'the heavy mortar favors structures and wastes itself on light and air targets',
+  );
+
+  const torpedo = buildProjectileShotConfig('shotTorpedo').armorMultipliers;
+  assertContract(
+    getArmorDamageMultiplier(torpedo, orca) > getArmorDamageMultiplier(torpedo, commander),
+    'the torpedo bites harder into a hull',
+  );
+
+  // 3. Whatever has no table, or is hit with no class, takes 1x.
+  const disruptor = buildProjectileShotConfig('shotPlasmaDisruptor').armorMultipliers;
+  assertContract(
+    disruptor === undefined &&
+      getArmorDamageMultiplier(disruptor, eagle) === 1 &&
+      getArmorDamageMultiplier(disruptor, solar) === 1,
+    'a weapon with no table deals 1x',
+  );
+  assertContract(getArmorDamageMultiplier(antiAir, missile) === 1, 'a shot-down projectile takes 1x');
+}
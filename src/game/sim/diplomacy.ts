@@ -0,0 +1,158 @@
+/**
+ * Alliances that change while the match runs.
+ *
+ * The roster (teamRoster.ts) is the match as it was DEALT: who starts on which
+ * side, and therefore the terrain slices, spawn arcs and entity-cap shares the
+ * map was laid out for. None of that moves mid-game. What moves is who is a
+ * friend — `WorldState.alliesByPlayer` — and every friend-or-foe question
+ * (vision, targeting, victory, sharing) already asks that map, so changing it
+ * is the whole change.
+ *
+ * Alliances stay whole groups, never chains: accepting an invitation moves the
+ * accepting seat into the proposer's group, and breaking moves a seat out to
+ * stand alone. A can therefore never be allied to B and B to C without A and
+ * C being allies too, which is what keeps `getTeamId` one id per group.
+ *
+ * Everything here runs from lockstep commands on the frame they land, so
+ * every peer flips the same alliance on the same tick.
+ */
+
+import type { WorldState } from './WorldState';
+import type { Entity, PlayerId } from './types';
+import { economyManager } from './economy';
+import { playerOwnsAnything, transferEntityOwnership, transferResources } from './teamSharing';
+
+/** An open invitation from one seat to join its alliance. */
+export type AllianceProposal = {
+  fromPlayerId: PlayerId;
+  toPlayerId: PlayerId;
+};
+
+/** Record an invitation. Repeating one that is already open changes nothing,
+ *  so a second click cannot queue a second acceptance. */
+export function proposeAlliance(world: WorldState, fromPlayerId: PlayerId, toPlayerId: PlayerId): void {
+  if (fromPlayerId === toPlayerId || world.arePlayersAllied(fromPlayerId, toPlayerId)) return;
+  if (findProposal(world, fromPlayerId, toPlayerId) >= 0) return;
+  world.allianceProposals.push({ fromPlayerId, toPlayerId });
+}
+
+/** Accept `proposerPlayerId`'s open invitation: `playerId` leaves its current
+ *  group and joins the proposer's. Returns whether anything changed. */
+export function acceptAlliance(world: WorldState, playerId: PlayerId, proposerPlayerId: PlayerId): boolean {
+  const index = findProposal(world, proposerPlayerId, playerId);
+  if (index < 0) return false;
+  world.allianceProposals.splice(index, 1);
+  if (world.arePlayersAllied(playerId, proposerPlayerId)) return false;
+  world.setAlliances(moveSeat(world, playerId, proposerPlayerId));
+  dropSettledProposals(world);
+  return true;
+}
+
+/** Take `playerId` out of its group. Returns whether it had one to leave. */
+export function breakAlliance(world: WorldState, playerId: PlayerId): boolean {
+  if (world.getAllies(playerId).size === 0) return false;
+  world.setAlliances(moveSeat(world, playerId, null));
+  return true;
+}
+
+/** Name (or with `null`, clear) the seat that inherits `playerId`'s army. */
+export function setResignHeir(world: WorldState, playerId: PlayerId, heirPlayerId: PlayerId | null): void {
+  if (heirPlayerId === null || heirPlayerId === playerId) world.resignHeirs.delete(playerId);
+  else world.resignHeirs.set(playerId, heirPlayerId);
+}
+
+/** The heir a resigning seat's army goes to, or null when it should die. The
+ *  choice was made in advance, so it is checked again now: an heir who has
+ *  since left the alliance or has nothing left on the map gets nothing. */
+export function resolveResignHeir(world: WorldState, playerId: PlayerId): PlayerId | null {
+  const heirPlayerId = world.resignHeirs.get(playerId);
+  if (heirPlayerId === undefined || heirPlayerId === playerId) return null;
+  if (!world.arePlayersAllied(playerId, heirPlayerId)) return null;
+  return playerOwnsAnything(world, heirPlayerId) ? heirPlayerId : null;
+}
+
+/** Hand everything a resigning seat still has — living entities and
+ *  stockpiles — to its heir. Entities already at zero hp are left to the
+ *  death pass they are in. */
+export function handOverToHeir(world: WorldState, playerId: PlayerId, heirPlayerId: PlayerId): void {
+  const owned: Entity[] = [];
+  const entities = world.getAllEntities();
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    if (entity.ownership?.playerId !== playerId) continue;
+    const hp = entity.unit?.hp ?? entity.building?.hp ?? 0;
+    if (hp > 0) owned.push(entity);
+  }
+  // Collected first: a transfer re-keys the per-player caches the walk reads.
+  // A factory's transfer removes its shell, which may still be in the list.
+  for (let i = 0; i < owned.length; i++) {
+    if (world.getEntity(owned[i].id) !== owned[i]) continue;
+    transferEntityOwnership(world, owned[i], heirPlayerId);
+  }
+  const economy = economyManager.getEconomy(playerId);
+  if (economy !== undefined) {
+    transferResources(
+      world,
+      playerId,
+      heirPlayerId,
+      { metal: economy.metal.stockpile.curr, energy: economy.stockpile.curr },
+      'share',
+    );
+  }
+}
+
+/** Forget a seat that has left the match: its invitations and its heir. */
+export function forgetResignedSeat(world: WorldState, playerId: PlayerId): void {
+  world.resignHeirs.delete(playerId);
+  world.allianceProposals = world.allianceProposals.filter(
+    (proposal) => proposal.fromPlayerId !== playerId && proposal.toPlayerId !== playerId,
+  );
+}
+
+function findProposal(world: WorldState, fromPlayerId: PlayerId, toPlayerId: PlayerId): number {
+  const proposals = world.allianceProposals;
+  for (let i = 0; i < proposals.length; i++) {
+    if (proposals[i].fromPlayerId === fromPlayerId && proposals[i].toPlayerId === toPlayerId) return i;
+  }
+  return -1;
+}
+
+/** An invitation between two seats that are now on the same side has been
+ *  answered one way or another. */
+function dropSettledProposals(world: WorldState): void {
+  world.allianceProposals = world.allianceProposals.filter(
+    (proposal) => !world.arePlayersAllied(proposal.fromPlayerId, proposal.toPlayerId),
+  );
+}
+
+/** The alliance map with `playerId` taken out of its group and, unless
+ *  `joinPlayerId` is null, put into `joinPlayerId`'s. Built fresh: the sets
+ *  in the live map are handed out read-only. */
+function moveSeat(
+  world: WorldState,
+  playerId: PlayerId,
+  joinPlayerId: PlayerId | null,
+): Map<PlayerId, ReadonlySet<PlayerId>> {
+  const next = new Map<PlayerId, Set<PlayerId>>();
+  for (const [seat, allies] of world.alliesByPlayer) {
+    if (seat === playerId) continue;
+    const copy = new Set(allies);
+    copy.delete(playerId);
+    next.set(seat, copy);
+  }
+  const group = new Set<PlayerId>();
+  if (joinPlayerId !== null) {
+    group.add(joinPlayerId);
+    for (const allyId of next.get(joinPlayerId) ?? []) group.add(allyId);
+    for (const memberId of group) {
+      let allies = next.get(memberId);
+      if (allies === undefined) {
+        allies = new Set();
+        next.set(memberId, allies);
+      }
+      allies.add(playerId);
+    }
+  }
+  next.set(playerId, group);
+  return next;
+}
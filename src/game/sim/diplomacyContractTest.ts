@@ -0,0 +1,93 @@
+/**
+ * Alliances change only through an accepted invitation or a walk-out, stay
+ * whole groups with one team id each, and leave the starting roster alone.
+ * A named heir inherits a resigning seat's army only while still an ally
+ * with something on the map.
+ */
+
+import {
+  acceptAlliance,
+  breakAlliance,
+  handOverToHeir,
+  proposeAlliance,
+  resolveResignHeir,
+  setResignHeir,
+} from './diplomacy';
+import { buildTeamRosterFromAssignment, getAllyTeamId } from './teamRoster';
+import type { Entity, PlayerId } from './types';
+import { WorldState } from './WorldState';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[diplomacy contract] ${message}`);
+}
+
+function addBuilding(world: WorldState, playerId: PlayerId, x: number): Entity {
+  const entity = world.createBuilding(x, 100, 40, 40, 40, playerId);
+  world.addEntity(entity);
+  return entity;
+}
+
+export function runDiplomacyContractTest(): void {
+  const playerIds = [1, 2, 3, 4] as PlayerId[];
+  const world = new WorldState(77, 1024, 1024);
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    playerIds,
+    new Map<PlayerId, number>([[1, 1], [2, 1], [3, 2], [4, 2]]),
+  ));
+
+  assertContract(!acceptAlliance(world, 3, 1), 'nothing can be accepted that was never offered');
+  proposeAlliance(world, 1, 3);
+  proposeAlliance(world, 1, 3);
+  assertContract(world.allianceProposals.length === 1, 'repeating an open invitation changes nothing');
+  assertContract(!world.arePlayersAllied(1, 3), 'an invitation alone allies nobody');
+  assertContract(!acceptAlliance(world, 4, 1), 'only the invited seat can accept');
+
+  assertContract(acceptAlliance(world, 3, 1), 'the invited seat can accept');
+  assertContract(
+    world.arePlayersAllied(3, 1) && world.arePlayersAllied(3, 2) && world.arePlayersAllied(2, 3),
+    'accepting joins the whole group, in both directions',
+  );
+  assertContract(!world.arePlayersAllied(3, 4), 'accepting leaves the old group behind');
+  assertContract(
+    world.getTeamId(3) === 1 && world.getTeamId(4) === 4,
+    'each group keeps a single team id',
+  );
+  assertContract(
+    !world.allianceProposals.some((proposal) => proposal.toPlayerId === 3),
+    'an answered invitation is gone',
+  );
+  assertContract(
+    getAllyTeamId(world.teamRoster, 3) === 2,
+    'the roster still describes the match as dealt',
+  );
+
+  setResignHeir(world, 1, 2);
+  assertContract(resolveResignHeir(world, 1) === null, 'an heir with nothing on the map inherits nothing');
+  addBuilding(world, 2, 200);
+  assertContract(resolveResignHeir(world, 1) === 2, 'a present ally inherits');
+
+  const owned = addBuilding(world, 1, 300);
+  handOverToHeir(world, 1, 2);
+  assertContract(
+    owned.ownership?.playerId === 2 && world.getBuildingsByPlayer(1).length === 0,
+    'the heir takes over everything the seat still had',
+  );
+
+  assertContract(breakAlliance(world, 2), 'a seat in a group can leave it');
+  assertContract(
+    !world.arePlayersAllied(2, 1) && !world.arePlayersAllied(2, 3) && world.arePlayersAllied(1, 3),
+    'leaving splits off only the seat that left',
+  );
+  assertContract(world.getTeamId(2) === 2, 'a seat on its own is its own team');
+  assertContract(resolveResignHeir(world, 1) === null, 'an heir who left the alliance inherits nothing');
+  assertContract(!breakAlliance(world, 2), 'a seat on its own has nothing to leave');
+
+  const saved = world.exportSaveState();
+  const restored = new WorldState(77, 1024, 1024);
+  restored.setTeamRoster(world.teamRoster);
+  restored.restoreSaveState(JSON.parse(JSON.stringify(saved)));
+  assertContract(
+    restored.arePlayersAllied(1, 3) && !restored.arePlayersAllied(1, 2) && restored.resignHeirs.get(1) === 2,
+    'alliances and heirs round-trip through a save',
+  );
+}
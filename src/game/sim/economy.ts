@@ -1,5 +1,6 @@
 import {
   NO_ENTITY_ID,
+  type AutoShareThreshold,
   type EconomyState,
   type Entity,
   type EntityId,
@@ -58,6 +59,9 @@ function economyIncomeReasonFromCode(code: number): ResourceMovementReason | nul
   return null;
 }
 
+/** Nobody shares overflow until they ask to. */
+export const AUTO_SHARE_DISABLED: Readonly<AutoShareThreshold> = { energy: 1, metal: 1 };
+
 // Create initial economy state for a player
 export function createEconomyState(): EconomyState {
   return {
@@ -75,6 +79,7 @@ export function createEconomyState(): EconomyState {
 // Economy manager - handles all player economies
 class EconomyManager {
   private economies: Map<PlayerId, EconomyState> = new Map();
+  private autoShareThresholds: Map<PlayerId, AutoShareThreshold> = new Map();
   private incomePlayerIds = new Uint32Array(DEFAULT_ECONOMY_INCOME_CAPACITY);
   private incomeResourceCodes = new Uint32Array(DEFAULT_ECONOMY_INCOME_CAPACITY);
   private incomeRates = new Float64Array(DEFAULT_ECONOMY_INCOME_CAPACITY);
@@ -143,6 +148,19 @@ class EconomyManager {
     economy.metal.expenditure = state.metal.expenditure;
   }
 
+  /** The player's auto-share levels (see teamSharing.applyAutoShare). */
+  getAutoShareThreshold(playerId: PlayerId): Readonly<AutoShareThreshold> {
+    return this.autoShareThresholds.get(playerId) ?? AUTO_SHARE_DISABLED;
+  }
+
+  setAutoShareThreshold(playerId: PlayerId, threshold: AutoShareThreshold): void {
+    if (threshold.energy >= 1 && threshold.metal >= 1) {
+      this.autoShareThresholds.delete(playerId);
+      return;
+    }
+    this.autoShareThresholds.set(playerId, { energy: threshold.energy, metal: threshold.metal });
+  }
+
   // Set energy production (called when solar panels change)
   setProduction(playerId: PlayerId, production: number): void {
     const economy = this.getOrCreateEconomy(playerId);
@@ -288,6 +306,44 @@ class EconomyManager {
     return { energy, metal };
   }
 
+  /** Debit both stockpiles by up to `amount` over a `dtSec` step and book
+   *  the spend as expenditure. Returns what was actually taken, which is
+   *  less than asked only when a pool runs dry mid-step. */
+  spendStockpile(
+    world: WorldState,
+    playerId: PlayerId,
+    amount: ResourceCost,
+    sourceEntityId: EntityId | null,
+    targetEntityId: EntityId | null,
+    reason: ResourceMovementReason,
+    dtSec: number,
+  ): ResourceCost {
+    const economy = this.getOrCreateEconomy(playerId);
+    const energy = resourceMovementSystem.debit(economy, world, {
+      playerId,
+      sourceEntityId,
+      targetEntityId,
+      resource: 'energy',
+      amount: amount.energy,
+      amountPerSecond: amount.energy / dtSec,
+      direction: 'outbound',
+      reason,
+    });
+    const metal = resourceMovementSystem.debit(economy, world, {
+      playerId,
+      sourceEntityId,
+      targetEntityId,
+      resource: 'metal',
+      amount: amount.metal,
+      amountPerSecond: amount.metal / dtSec,
+      direction: 'outbound',
+      reason,
+    });
+    economy.expenditure += energy / dtSec;
+    economy.metal.expenditure += metal / dtSec;
+    return { energy, metal };
+  }
+
   // Record metal expenditure (called by distribution system)
   recordMetalExpenditure(playerId: PlayerId, amount: number): void {
     const economy = this.getOrCreateEconomy(playerId);
@@ -747,6 +803,7 @@ class EconomyManager {
   // Reset all state (call between game sessions)
   reset(): void {
     this.economies.clear();
+    this.autoShareThresholds.clear();
     this.trimBatchBuffers();
   }
 }
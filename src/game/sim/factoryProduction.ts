@@ -31,7 +31,10 @@ import type { WindState } from './wind';
 
 import type { FactoryProductionResult } from '@/types/ui';
 import type { UnitAction } from './types';
-import { factoryCanProduceUnit } from './factoryProductionRoster';
+import {
+  factoryCanProduceUnit,
+  factoryTeamMeetsUnitPrerequisites,
+} from './factoryProductionRoster';
 import { applyEntityHoldPose, holdEntity, releaseEntityHold } from './entityHolds';
 import {
   createFactoryProductionHoldSpec,
@@ -307,7 +310,12 @@ class FactoryProductionSystem {
               if (remainingCapacity === undefined) {
                 remainingCapacity = world.getRemainingTeamEntityCapacity(playerId);
               }
-              if (remainingCapacity > 0) {
+              // A unit whose prerequisites the team has lost holds the
+              // factory the same way a full cap does, until they return.
+              if (
+                remainingCapacity > 0 &&
+                factoryTeamMeetsUnitPrerequisites(world, factory, selectedUnitBlueprintId)
+              ) {
                 factoryCanBuildUnit[row] = 1;
                 remainingCapacity--;
               }
@@ -494,6 +502,7 @@ class FactoryProductionSystem {
     for (const [unitBlueprintId, rawQuota] of Object.entries(factoryComp.productionQuotas)) {
       const quota = Math.floor(rawQuota);
       if (quota <= 0 || !factoryCanProduceUnit(factory, unitBlueprintId)) continue;
+      if (!factoryTeamMeetsUnitPrerequisites(world, factory, unitBlueprintId)) continue;
       const count = world.getFactoryProducedUnitCount(factory.id, unitBlueprintId);
       if (count >= quota) continue;
       const ratio = count / quota;
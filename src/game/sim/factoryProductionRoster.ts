@@ -1,9 +1,11 @@
 import type { UnitBlueprintId } from '../../types/blueprintIds';
 import type { BuildingBlueprintId, Entity } from './types';
+import type { WorldState } from './WorldState';
 import { BUILDING_BLUEPRINTS } from './blueprints/buildings';
 import { getUnitBlueprint } from './blueprints';
 import { unitBlueprintIdsForMediumKey } from './mapRoster';
 import { installedMapMediumKey, MEDIUM_KEY_BOTH } from './mapSurface';
+import { getUnitPrerequisites } from './techTree';
 
 const EMPTY_FACTORY_UNIT_ROSTER: readonly UnitBlueprintId[] = Object.freeze([]);
 
@@ -83,3 +85,17 @@ export function factoryCanProduceUnit(
   if (unitBlueprintId === null || unitBlueprintId === undefined) return false;
   return getFactoryAllowedUnitBlueprintIds(factory).includes(unitBlueprintId as UnitBlueprintId);
 }
+
+/** True while the factory's team holds everything the unit's blueprint
+ *  lists as prerequisites (techTree.ts). Separate from the roster: the
+ *  roster is what a factory can ever build, this is whether its side may
+ *  build it now. A locked unit can still be dequeued. */
+export function factoryTeamMeetsUnitPrerequisites(
+  world: WorldState,
+  factory: Entity | null | undefined,
+  unitBlueprintId: string,
+): boolean {
+  const playerId = factory?.ownership?.playerId;
+  if (playerId === undefined) return false;
+  return world.teamMeetsPrerequisites(playerId, getUnitPrerequisites(unitBlueprintId));
+}
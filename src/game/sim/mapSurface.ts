@@ -21,16 +21,21 @@
 //      cannot swim through and a sonar cannot listen through, so for every
 //      question this module answers it is not water.
 //
-// THE LAND QUESTION is the mirror, minus the liquid — and under the current
-// generation pipeline its answer is ALWAYS yes. The four bars shape features
-// on top of a baseline surface that sits at the datum, and even when every
-// bar digs, the ground between the basins (and the hand-off annulus around
+// THE LAND QUESTION is the mirror, minus the liquid — and for a generated
+// map its answer is ALWAYS yes. The four bars shape features on top of a
+// baseline surface that sits at the datum, and even when every bar digs, the ground between the basins (and the hand-off annulus around
 // each) stays at ground level. A tank always has somewhere to stand, so no
 // authored setup may ever strip the ground roster. (An earlier rule declared
 // "all four bars negative = landless", which wrongly emptied fabricator
-// build lists on dug-everywhere maps that are mostly dry ground.) If an
-// all-sea map ever becomes authorable — a flood control, a true ocean
-// preset — this function is the one place that decides what landless means.
+// build lists on dug-everywhere maps that are mostly dry ground.) If the
+// bars ever gain an all-sea setting — a flood control, a true ocean preset —
+// this module is the one place that decides what landless means.
+//
+// AN AUTHORED MAP answers both questions from its own heightmap instead: the
+// bars are switched off under a file, so the file's samples are the whole
+// shape. Water means some sample sits below the file's water level (and the
+// liquid is water); land means some sample sits at or above it. That is the
+// one way a map can be landless today: an editor-painted ocean.
 //
 // Deliberately questions about the map's SETUP, not about the baked mesh. The
 // answers have to exist in the lobby, before any terrain is generated, so the
@@ -44,6 +49,7 @@
 // nothing else needs to know.
 
 import { getLiquidSurfaceMode } from './worldSurfaceState';
+import { getAuthoredMap } from './terrain/authoredMap';
 import {
   TERRAIN_CENTER_MAGNITUDE,
   TERRAIN_DIVIDERS_MAGNITUDE,
@@ -51,6 +57,7 @@ import {
   TERRAIN_RING_MAGNITUDE,
 } from './terrain/terrainConfig';
 import type { LiquidSurfaceMode } from '../../types/worldSurfaceMode';
+import type { AuthoredMap } from '../../types/authoredMap';
 
 /** Everything the surface questions consume. Exactly the authored map
  *  settings — no derived heights, no baked mesh, nothing that only exists
@@ -66,8 +73,41 @@ export type MapSurfaceSetup = {
   readonly perimeterMagnitude: number;
   /** What fills the map below the liquid level. */
   readonly liquidSurfaceMode: LiquidSurfaceMode;
+  /** The loaded map file, if any. When set it replaces the four magnitudes
+   *  as the map's shape. */
+  readonly authoredMap?: AuthoredMap | null;
 };
 
+const AUTHORED_BELOW_WATER = 1;
+const AUTHORED_ABOVE_WATER = 2;
+
+// One-entry cache keyed by map identity: the installed map is asked on hot
+// paths, and a map object is immutable once parsed.
+let cachedAuthoredMap: AuthoredMap | null = null;
+let cachedAuthoredSpan = 0;
+
+/** Which sides of its water level an authored heightmap reaches, packed as
+ *  AUTHORED_BELOW_WATER | AUTHORED_ABOVE_WATER. */
+function authoredWaterSpan(map: AuthoredMap): number {
+  if (map === cachedAuthoredMap) return cachedAuthoredSpan;
+  let span = 0;
+  const heights = map.heightmap.heights;
+  for (let i = 0; i < heights.length && span !== (AUTHORED_BELOW_WATER | AUTHORED_ABOVE_WATER); i++) {
+    span |= heights[i] < map.waterLevel ? AUTHORED_BELOW_WATER : AUTHORED_ABOVE_WATER;
+  }
+  cachedAuthoredMap = map;
+  cachedAuthoredSpan = span;
+  return span;
+}
+
+function authoredMapHasWater(map: AuthoredMap, liquidSurfaceMode: LiquidSurfaceMode): boolean {
+  return liquidSurfaceMode === 'water' && (authoredWaterSpan(map) & AUTHORED_BELOW_WATER) !== 0;
+}
+
+function authoredMapHasLand(map: AuthoredMap): boolean {
+  return (authoredWaterSpan(map) & AUTHORED_ABOVE_WATER) !== 0;
+}
+
 /** THE water rule, stated once over plain numbers. Both public forms below
  *  are just two ways of supplying its arguments — neither restates it. */
 function liquidBelowDatumIsWater(
@@ -107,6 +147,7 @@ function baselineLeavesStandingGround(
  *  lobby, editing a map nothing has generated yet — ask through this one so
  *  they get the same answer the running battle will. */
 export function mapHasWaterForSetup(setup: MapSurfaceSetup): boolean {
+  if (setup.authoredMap) return authoredMapHasWater(setup.authoredMap, setup.liquidSurfaceMode);
   return liquidBelowDatumIsWater(
     setup.centerMagnitude,
     setup.ringMagnitude,
@@ -118,6 +159,7 @@ export function mapHasWaterForSetup(setup: MapSurfaceSetup): boolean {
 
 /** Is there dry ground on the map this setup describes? */
 export function mapHasLandForSetup(setup: MapSurfaceSetup): boolean {
+  if (setup.authoredMap) return authoredMapHasLand(setup.authoredMap);
   return baselineLeavesStandingGround(
     setup.centerMagnitude,
     setup.ringMagnitude,
@@ -133,6 +175,8 @@ export function mapHasLandForSetup(setup: MapSurfaceSetup): boolean {
  *  every peer derives the same answer on the same tick. Allocation-free: the
  *  magnitudes are live module bindings, not a freshly built config object. */
 export function mapHasWater(): boolean {
+  const authoredMap = getAuthoredMap();
+  if (authoredMap !== null) return authoredMapHasWater(authoredMap, getLiquidSurfaceMode());
   return liquidBelowDatumIsWater(
     TERRAIN_CENTER_MAGNITUDE,
     TERRAIN_RING_MAGNITUDE,
@@ -144,6 +188,8 @@ export function mapHasWater(): boolean {
 
 /** Is there dry ground on the map that is installed right now? */
 export function mapHasLand(): boolean {
+  const authoredMap = getAuthoredMap();
+  if (authoredMap !== null) return authoredMapHasLand(authoredMap);
   return baselineLeavesStandingGround(
     TERRAIN_CENTER_MAGNITUDE,
     TERRAIN_RING_MAGNITUDE,
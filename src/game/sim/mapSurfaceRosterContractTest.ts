@@ -45,6 +45,7 @@ import { getTerrainRuntimeConfig } from './terrain/terrainState';
 import { getLiquidSurfaceMode, setLiquidSurfaceMode } from './worldSurfaceState';
 import { BATTLE_PRESETS } from '../../components/battlePresets';
 import type { LiquidSurfaceMode } from '../../types/worldSurfaceMode';
+import type { AuthoredMap } from '../../types/authoredMap';
 import type { UnitBlueprint } from './blueprints/types';
 
 function assertContract(condition: unknown, message: string): asserts condition {
@@ -185,6 +186,51 @@ function assertLandQuestion(): void {
   }
 }
 
+function authoredMapWithHeights(heights: number[]): AuthoredMap {
+  return {
+    format: 'rts-map',
+    version: 1,
+    name: 'Contract shore',
+    widthLandCells: 7,
+    lengthLandCells: 7,
+    heightmap: { columns: 2, rows: 2, heights },
+    waterLevel: 0,
+    vegetationDensity: 1,
+    metalDeposits: [],
+    startPositions: [{ x: 3, y: 3 }],
+  };
+}
+
+function assertAuthoredMapQuestions(): void {
+  // Under a map file the bars are switched off, so they must not answer:
+  // dry bars over a sunken file still mean water, and the file alone decides
+  // whether anything stands above its water level.
+  const shore = authoredMapWithHeights([-50, -50, 80, 80]);
+  const ocean = authoredMapWithHeights([-50, -50, -50, -50]);
+  const plateau = authoredMapWithHeights([0, 20, 40, 60]);
+  assertContract(
+    mapHasWaterForSetup({ ...DRY_MAGNITUDES, liquidSurfaceMode: 'water', authoredMap: shore }) &&
+      mapHasLandForSetup({ ...DRY_MAGNITUDES, liquidSurfaceMode: 'water', authoredMap: shore }),
+    'a file that reaches both sides of its water level has water and land, whatever the bars say',
+  );
+  assertContract(
+    !mapHasWaterForSetup({ ...WET_MAGNITUDES, liquidSurfaceMode: 'water', authoredMap: plateau }),
+    'a file wholly at or above its water level has no water, even over digging bars',
+  );
+  assertContract(
+    !mapHasWaterForSetup({ ...DRY_MAGNITUDES, liquidSurfaceMode: 'lava', authoredMap: shore }),
+    'a sunken file under lava is still not water',
+  );
+  assertContract(
+    !mapHasLandForSetup({ ...DRY_MAGNITUDES, liquidSurfaceMode: 'water', authoredMap: ocean }),
+    'a file painted wholly below its water level is landless',
+  );
+  assertContract(
+    mapHasLandForSetup({ ...DRY_MAGNITUDES, liquidSurfaceMode: 'water', authoredMap: null }),
+    'a null file falls back to the bars',
+  );
+}
+
 function assertWaterOnlyClassificationIsDerived(): void {
   for (const blueprint of Object.values(UNIT_BLUEPRINTS)) {
     const waypoint = getUnitLocomotion(blueprint.unitBlueprintId).navigation.waypoint;
@@ -425,6 +471,7 @@ function assertRostersNarrowWithTheMap(): void {
 export function runMapSurfaceRosterContractTest(): void {
   assertWaterQuestion();
   assertLandQuestion();
+  assertAuthoredMapQuestions();
   assertWaterOnlyClassificationIsDerived();
   assertRostersNarrowWithTheMap();
 }
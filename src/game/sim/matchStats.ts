@@ -0,0 +1,370 @@
+import type { Entity, PlayerId } from './types';
+import type { WorldState } from './WorldState';
+import { isEntityActive } from './buildableHelpers';
+import { getBuildingConfig, getUnitBuildConfig } from './buildConfigs';
+import type { GameOverReason } from '@/types/victoryCondition';
+
+// End-of-match statistics. The world keeps one ledger per seat, filled by
+// the systems that already know what happened — the resource movement
+// channel for income and spend, the damage batch for damage, the kill
+// attribution for kills, entity removal for losses — and sampled into a
+// time series every STATS_SAMPLE_SECONDS of simulation time.
+//
+// Nothing in the simulation reads these numbers back, so they never steer
+// the match. They are still sim-derived, so every peer running the match
+// (spectators included) ends up with the same report.
+
+/** Simulation seconds between two samples of the time series. */
+export const STATS_SAMPLE_SECONDS = 5;
+
+/** One point of a seat's time series. Rates are averaged over the interval
+ *  that ended at `tick`; the rest are running totals at that tick. */
+export type MatchStatsSample = {
+  tick: number;
+  metalIncome: number;
+  metalSpent: number;
+  energyIncome: number;
+  energySpent: number;
+  /** Metal cost of every finished unit the seat has on the field. */
+  armyValue: number;
+  unitsBuilt: number;
+  unitsLost: number;
+  damageDealt: number;
+  damageReceived: number;
+};
+
+/** A seat's whole-match totals. */
+export type MatchStatsTotals = {
+  metalIncome: number;
+  metalSpent: number;
+  energyIncome: number;
+  energySpent: number;
+  unitsBuilt: number;
+  unitsLost: number;
+  buildingsBuilt: number;
+  buildingsLost: number;
+  kills: number;
+  /** Metal cost of the enemy units and buildings this seat destroyed. */
+  killedValue: number;
+  damageDealt: number;
+  damageReceived: number;
+};
+
+/** One row of the per-type table: a unit or building blueprint. `killed`
+ *  counts enemies of this type the seat destroyed. */
+export type MatchStatsTypeRow = {
+  blueprintId: string;
+  built: number;
+  lost: number;
+  killed: number;
+};
+
+export type MatchStatsPlayerReport = {
+  playerId: PlayerId;
+  allyTeamId: number;
+  totals: MatchStatsTotals;
+  samples: MatchStatsSample[];
+  /** Sorted by blueprint id. */
+  types: MatchStatsTypeRow[];
+};
+
+/** The exported report — what the post-game screen draws and what the JSON
+ *  export writes. */
+export type MatchStatsReport = {
+  tickRateHz: number;
+  sampleIntervalTicks: number;
+  /** The tick the report was taken at. */
+  tick: number;
+  /** Null while the match is still running. */
+  winnerId: PlayerId | null;
+  gameOverReason: GameOverReason | null;
+  players: MatchStatsPlayerReport[];
+};
+
+type PlayerLedger = {
+  totals: MatchStatsTotals;
+  samples: MatchStatsSample[];
+  types: Map<string, MatchStatsTypeRow>;
+  /** Resource flow since the last sample. */
+  intervalMetalIncome: number;
+  intervalMetalSpent: number;
+  intervalEnergyIncome: number;
+  intervalEnergySpent: number;
+};
+
+export type MatchStatsSaveState = {
+  lastSampleTick: number;
+  players: {
+    playerId: PlayerId;
+    totals: MatchStatsTotals;
+    samples: MatchStatsSample[];
+    types: MatchStatsTypeRow[];
+    interval: [number, number, number, number];
+  }[];
+};
+
+/** The metal a finished unit or building cost to make. */
+export function getEntityMetalValue(entity: Entity): number {
+  if (entity.buildingBlueprintId !== null) {
+    return getBuildingConfig(entity.buildingBlueprintId).cost.metal;
+  }
+  if (entity.unit !== null) {
+    return getUnitBuildConfig(entity.unit.unitBlueprintId)?.cost.metal ?? 0;
+  }
+  return 0;
+}
+
+function entityBlueprintId(entity: Entity): string | null {
+  if (entity.unit !== null) return entity.unit.unitBlueprintId;
+  return entity.buildingBlueprintId;
+}
+
+function createTotals(): MatchStatsTotals {
+  return {
+    metalIncome: 0,
+    metalSpent: 0,
+    energyIncome: 0,
+    energySpent: 0,
+    unitsBuilt: 0,
+    unitsLost: 0,
+    buildingsBuilt: 0,
+    buildingsLost: 0,
+    kills: 0,
+    killedValue: 0,
+    damageDealt: 0,
+    damageReceived: 0,
+  };
+}
+
+function createLedger(): PlayerLedger {
+  return {
+    totals: createTotals(),
+    samples: [],
+    types: new Map(),
+    intervalMetalIncome: 0,
+    intervalMetalSpent: 0,
+    intervalEnergyIncome: 0,
+    intervalEnergySpent: 0,
+  };
+}
+
+export class MatchStats {
+  private readonly ledgers = new Map<PlayerId, PlayerLedger>();
+  private lastSampleTick = 0;
+
+  /** A unit left a factory, or a building finished construction. */
+  recordBuilt(entity: Entity): void {
+    const playerId = entity.ownership?.playerId;
+    const blueprintId = entityBlueprintId(entity);
+    if (playerId === undefined || blueprintId === null) return;
+    const ledger = this.ledger(playerId);
+    if (entity.unit !== null) ledger.totals.unitsBuilt++;
+    else ledger.totals.buildingsBuilt++;
+    this.typeRow(ledger, blueprintId).built++;
+  }
+
+  /** Damage that actually took hp off a unit or building. Damage between
+   *  allies is received but not counted as dealt. */
+  recordDamage(
+    world: WorldState,
+    attackerPlayerId: PlayerId | null,
+    target: Entity,
+    amount: number,
+  ): void {
+    if (amount <= 0) return;
+    const targetPlayerId = target.ownership?.playerId;
+    if (targetPlayerId === undefined) return;
+    this.ledger(targetPlayerId).totals.damageReceived += amount;
+    if (
+      attackerPlayerId !== null &&
+      world.getTeamId(attackerPlayerId) !== world.getTeamId(targetPlayerId)
+    ) {
+      this.ledger(attackerPlayerId).totals.damageDealt += amount;
+    }
+  }
+
+  /** `target` was destroyed and `killerPlayerId` landed the blow. Killing an
+   *  ally is not a kill. */
+  recordKill(world: WorldState, killerPlayerId: PlayerId | null | undefined, target: Entity | undefined): void {
+    if (killerPlayerId === null || killerPlayerId === undefined || target === undefined) return;
+    const targetPlayerId = target.ownership?.playerId;
+    const blueprintId = entityBlueprintId(target);
+    if (targetPlayerId === undefined || blueprintId === null) return;
+    if (world.getTeamId(killerPlayerId) === world.getTeamId(targetPlayerId)) return;
+    if (!isEntityActive(target)) return;
+    const ledger = this.ledger(killerPlayerId);
+    ledger.totals.kills++;
+    ledger.totals.killedValue += getEntityMetalValue(target);
+    this.typeRow(ledger, blueprintId).killed++;
+  }
+
+  /** Every removal passes here; only a finished, owned entity at zero hp
+   *  is a loss. Morphs, reclaims and loads remove living entities. */
+  recordRemoved(entity: Entity): void {
+    const playerId = entity.ownership?.playerId;
+    const blueprintId = entityBlueprintId(entity);
+    if (playerId === undefined || blueprintId === null || !isEntityActive(entity)) return;
+    const hp = entity.unit !== null ? entity.unit.hp : entity.building?.hp ?? 1;
+    if (hp > 0) return;
+    const ledger = this.ledger(playerId);
+    if (entity.unit !== null) ledger.totals.unitsLost++;
+    else ledger.totals.buildingsLost++;
+    this.typeRow(ledger, blueprintId).lost++;
+  }
+
+  /** Fold this tick's resource movements in, and take a sample when the
+   *  interval is up. Runs once per tick, before the tick counter moves. */
+  endTick(world: WorldState, playerIds: readonly PlayerId[]): void {
+    const movements = world.resourceMovements;
+    for (let i = 0; i < movements.length; i++) {
+      const movement = movements[i];
+      // Resources handed between allies were neither earned nor spent.
+      if (movement.reason === 'share' || movement.reason === 'autoShare') continue;
+      const ledger = this.ledger(movement.playerId);
+      const delta = movement.stockpileDelta;
+      // A refund hands back what was spent, so it lowers spend rather
+      // than counting as income.
+      if (movement.resource === 'metal') {
+        if (movement.reason === 'refund') ledger.intervalMetalSpent -= delta;
+        else if (delta > 0) ledger.intervalMetalIncome += delta;
+        else ledger.intervalMetalSpent -= delta;
+      } else if (movement.reason === 'refund') {
+        ledger.intervalEnergySpent -= delta;
+      } else if (delta > 0) {
+        ledger.intervalEnergyIncome += delta;
+      } else {
+        ledger.intervalEnergySpent -= delta;
+      }
+    }
+    const tick = world.getTick() + 1;
+    if (tick - this.lastSampleTick >= world.ticksForSeconds(STATS_SAMPLE_SECONDS)) {
+      this.sample(world, playerIds, tick);
+    }
+  }
+
+  /** Close the series at `tick` — the match just ended, or a report is
+   *  being taken mid-interval. A no-op when a sample already sits there. */
+  sample(world: WorldState, playerIds: readonly PlayerId[], tick: number): void {
+    if (tick <= this.lastSampleTick) return;
+    const seconds = (tick - this.lastSampleTick) / world.simulationTickRateHz;
+    const armyValues = new Map<PlayerId, number>();
+    const units = world.getUnits();
+    for (let i = 0; i < units.length; i++) {
+      const unit = units[i];
+      const playerId = unit.ownership?.playerId;
+      if (playerId === undefined || unit.unit === null || unit.unit.hp <= 0 || !isEntityActive(unit)) continue;
+      armyValues.set(playerId, (armyValues.get(playerId) ?? 0) + getEntityMetalValue(unit));
+    }
+    for (let i = 0; i < playerIds.length; i++) {
+      const playerId = playerIds[i];
+      const ledger = this.ledger(playerId);
+      const totals = ledger.totals;
+      totals.metalIncome += ledger.intervalMetalIncome;
+      totals.metalSpent += ledger.intervalMetalSpent;
+      totals.energyIncome += ledger.intervalEnergyIncome;
+      totals.energySpent += ledger.intervalEnergySpent;
+      ledger.samples.push({
+        tick,
+        metalIncome: ledger.intervalMetalIncome / seconds,
+        metalSpent: ledger.intervalMetalSpent / seconds,
+        energyIncome: ledger.intervalEnergyIncome / seconds,
+        energySpent: ledger.intervalEnergySpent / seconds,
+        armyValue: armyValues.get(playerId) ?? 0,
+        unitsBuilt: totals.unitsBuilt,
+        unitsLost: totals.unitsLost,
+        damageDealt: totals.damageDealt,
+        damageReceived: totals.damageReceived,
+      });
+      ledger.intervalMetalIncome = 0;
+      ledger.intervalMetalSpent = 0;
+      ledger.intervalEnergyIncome = 0;
+      ledger.intervalEnergySpent = 0;
+    }
+    this.lastSampleTick = tick;
+  }
+
+  /** A copy of everything recorded so far, seats in roster order. Resource
+   *  totals cover the samples taken; the flow since the last sample shows
+   *  up in the next one. */
+  exportReport(
+    world: WorldState,
+    playerIds: readonly PlayerId[],
+    winnerId: PlayerId | null,
+    gameOverReason: GameOverReason | null,
+  ): MatchStatsReport {
+    return {
+      tickRateHz: world.simulationTickRateHz,
+      sampleIntervalTicks: world.ticksForSeconds(STATS_SAMPLE_SECONDS),
+      tick: world.getTick(),
+      winnerId,
+      gameOverReason,
+      players: playerIds.map((playerId) => {
+        const ledger = this.ledger(playerId);
+        return {
+          playerId,
+          allyTeamId: world.getTeamId(playerId),
+          totals: { ...ledger.totals },
+          samples: ledger.samples.map((sample) => ({ ...sample })),
+          types: [...ledger.types.values()]
+            .map((row) => ({ ...row }))
+            .sort((a, b) => (a.blueprintId < b.blueprintId ? -1 : a.blueprintId > b.blueprintId ? 1 : 0)),
+        };
+      }),
+    };
+  }
+
+  exportSaveState(): MatchStatsSaveState {
+    const players: MatchStatsSaveState['players'] = [];
+    for (const [playerId, ledger] of this.ledgers) {
+      players.push({
+        playerId,
+        totals: { ...ledger.totals },
+        samples: ledger.samples.map((sample) => ({ ...sample })),
+        types: [...ledger.types.values()].map((row) => ({ ...row })),
+        interval: [
+          ledger.intervalMetalIncome,
+          ledger.intervalMetalSpent,
+          ledger.intervalEnergyIncome,
+          ledger.intervalEnergySpent,
+        ],
+      });
+    }
+    return { lastSampleTick: this.lastSampleTick, players };
+  }
+
+  restoreSaveState(state: MatchStatsSaveState): void {
+    this.ledgers.clear();
+    this.lastSampleTick = state.lastSampleTick;
+    for (const saved of state.players) {
+      const ledger = createLedger();
+      ledger.totals = { ...saved.totals };
+      ledger.samples = saved.samples.map((sample) => ({ ...sample }));
+      for (const row of saved.types) ledger.types.set(row.blueprintId, { ...row });
+      [
+        ledger.intervalMetalIncome,
+        ledger.intervalMetalSpent,
+        ledger.intervalEnergyIncome,
+        ledger.intervalEnergySpent,
+      ] = saved.interval;
+      this.ledgers.set(saved.playerId, ledger);
+    }
+  }
+
+  private ledger(playerId: PlayerId): PlayerLedger {
+    let ledger = this.ledgers.get(playerId);
+    if (ledger === undefined) {
+      ledger = createLedger();
+      this.ledgers.set(playerId, ledger);
+    }
+    return ledger;
+  }
+
+  private typeRow(ledger: PlayerLedger, blueprintId: string): MatchStatsTypeRow {
+    let row = ledger.types.get(blueprintId);
+    if (row === undefined) {
+      row = { blueprintId, built: 0, lost: 0, killed: 0 };
+      ledger.types.set(blueprintId, row);
+    }
+    return row;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * The end-of-match ledger counts each event once, for the right seat: a kill
+ * for the killer, a loss for the owner, nothing for fire between allies. The
+ * time series samples on a fixed simulation cadence with per-second rates,
+ * a refund lowers spend instead of posing as income, and a save round-trips
+ * the ledger exactly.
+ */
+
+import { MatchStats, STATS_SAMPLE_SECONDS } from './matchStats';
+import { WorldState } from './WorldState';
+import { buildTeamRosterFromAssignment } from './teamRoster';
+import type { ResourceMovement } from './resourceMovement';
+import type { Entity, PlayerId } from './types';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[match stats contract] ${message}`);
+}
+
+/** Just the fields the ledger reads. */
+function fakeUnit(id: number, playerId: PlayerId, hp: number): Entity {
+  return {
+    id,
+    ownership: { playerId },
+    unit: { unitBlueprintId: 'unitCommander', hp },
+    building: null,
+    buildingBlueprintId: null,
+    buildable: null,
+  } as unknown as Entity;
+}
+
+function movement(
+  playerId: PlayerId,
+  resource: ResourceMovement['resource'],
+  stockpileDelta: number,
+  reason: ResourceMovement['reason'],
+): ResourceMovement {
+  return {
+    playerId,
+    sourceEntityId: null,
+    targetEntityId: null,
+    resource,
+    amount: Math.abs(stockpileDelta),
+    amountPerSecond: 0,
+    direction: stockpileDelta >= 0 ? 'inbound' : 'outbound',
+    stockpileDelta,
+    reason,
+  };
+}
+
+export function runMatchStatsContractTest(): void {
+  const world = new WorldState(1, 512, 512);
+  const playerIds = [1, 2, 3] as PlayerId[];
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    playerIds,
+    new Map<PlayerId, number>([[1, 1], [2, 1], [3, 2]]),
+  ));
+  const stats = new MatchStats();
+
+  stats.recordBuilt(fakeUnit(10, 1, 100));
+  stats.recordDamage(world, 1, fakeUnit(11, 3, 100), 40);
+  stats.recordDamage(world, 1, fakeUnit(12, 2, 100), 25);
+  const victim = fakeUnit(13, 3, 0);
+  stats.recordKill(world, 1, victim);
+  stats.recordKill(world, 2, fakeUnit(14, 1, 0));
+  stats.recordRemoved(victim);
+  stats.recordRemoved(fakeUnit(15, 3, 50));
+
+  let report = stats.exportReport(world, playerIds, null, null);
+  const [one, two, three] = report.players;
+  assertContract(
+    one.totals.unitsBuilt === 1 && one.types[0]?.built === 1,
+    'a finished unit counts as built for its owner',
+  );
+  assertContract(
+    one.totals.damageDealt === 40 && two.totals.damageReceived === 25 && three.totals.damageReceived === 40,
+    'damage to an ally is received but never dealt',
+  );
+  assertContract(
+    one.totals.kills === 1 && two.totals.kills === 0 && one.types[0]?.killed === 1,
+    'a kill counts for the killer, and killing an ally does not',
+  );
+  assertContract(
+    three.totals.unitsLost === 1 && three.types[0]?.lost === 1,
+    'only an entity removed at zero hp is lost',
+  );
+
+  const intervalTicks = world.ticksForSeconds(STATS_SAMPLE_SECONDS);
+  world.resourceMovements.push(
+    movement(1, 'metal', 50, 'baseIncome'),
+    movement(1, 'metal', -20, 'construction'),
+    movement(1, 'metal', 5, 'refund'),
+    movement(1, 'energy', 100, 'baseIncome'),
+  );
+  for (let tick = 0; tick < intervalTicks - 1; tick++) {
+    stats.endTick(world, playerIds);
+    world.resourceMovements.length = 0;
+    world.incrementTick();
+  }
+  assertContract(
+    stats.exportReport(world, playerIds, null, null).players[0].samples.length === 0,
+    'no sample before the interval is up',
+  );
+  stats.endTick(world, playerIds);
+  world.incrementTick();
+
+  report = stats.exportReport(world, playerIds, null, null);
+  const sample = report.players[0].samples[0];
+  assertContract(
+    report.players[0].samples.length === 1 && sample.tick === intervalTicks,
+    `the first sample lands on the interval, got ${JSON.stringify(report.players[0].samples)}`,
+  );
+  assertContract(
+    report.players[0].totals.metalIncome === 50 && report.players[0].totals.metalSpent === 15,
+    'a refund lowers spend rather than counting as income',
+  );
+  assertContract(
+    sample.metalIncome === 50 / STATS_SAMPLE_SECONDS &&
+      sample.energyIncome === 100 / STATS_SAMPLE_SECONDS,
+    'sampled rates are per second over the interval',
+  );
+
+  const restored = new MatchStats();
+  restored.restoreSaveState(JSON.parse(JSON.stringify(stats.exportSaveState())));
+  assertContract(
+    JSON.stringify(restored.exportReport(world, playerIds, 1, 'commander')) ===
+      JSON.stringify(stats.exportReport(world, playerIds, 1, 'commander')),
+    'a saved ledger must restore to the same report',
+  );
+}
@@ -0,0 +1,151 @@
+import type { BuildingBlueprintId, Entity, MorphConfig, PlayerId, ResourceCost } from './types';
+import type { WorldState } from './WorldState';
+import type { ConstructionSystem } from './construction';
+import { getBuildingConfig, getUnitBuildConfig } from './buildConfigs';
+import { isEntityActive } from './buildableHelpers';
+import { economyManager } from './economy';
+import { ENTITY_CHANGED_BUILDING } from '../../types/network';
+
+// Morph turns a finished unit or structure into the blueprint its `morph`
+// entry names, in place (BAR's unit_morph gadget; the metal extractor
+// upgrade is the hand-built special case of the same idea). The cost is
+// drawn from the owner's stockpiles in step with progress, so a stalled
+// economy stalls the morph and a cancel refunds exactly what was paid.
+
+export function getMorphConfig(entity: Entity): MorphConfig | null {
+  if (!isEntityActive(entity) || entity.wreck !== null) return null;
+  if (entity.unit !== null) {
+    const config = getUnitBuildConfig(entity.unit.unitBlueprintId);
+    return config === undefined ? null : config.morph;
+  }
+  if (entity.building !== null && entity.buildingBlueprintId !== null) {
+    return getBuildingConfig(entity.buildingBlueprintId).morph;
+  }
+  return null;
+}
+
+export function canStartMorph(entity: Entity | undefined, playerId: PlayerId): entity is Entity {
+  if (entity === undefined || entity.morph !== null || entity.transported !== null) return false;
+  if (entity.ownership === null || entity.ownership.playerId !== playerId) return false;
+  const hp = entity.unit !== null ? entity.unit.hp : entity.building !== null ? entity.building.hp : 0;
+  return hp > 0 && getMorphConfig(entity) !== null;
+}
+
+export function startMorph(world: WorldState, entity: Entity, playerId: PlayerId): boolean {
+  if (!canStartMorph(entity, playerId)) return false;
+  const config = getMorphConfig(entity);
+  if (config === null) return false;
+  entity.morph = { into: config.into, progressMs: 0 };
+  world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+  return true;
+}
+
+/** What the morph has drawn so far: its cost times its progress. */
+export function getMorphPaid(entity: Entity): ResourceCost {
+  const config = getMorphConfig(entity);
+  if (entity.morph === null || config === null) return { energy: 0, metal: 0 };
+  const fraction = Math.min(1, entity.morph.progressMs / config.durationMs);
+  return {
+    energy: config.cost.energy * fraction,
+    metal: config.cost.metal * fraction,
+  };
+}
+
+/** Stop a morph and hand back everything it drew. Returns the refund, or
+ *  null when nothing was morphing. */
+export function cancelMorph(world: WorldState, entity: Entity): ResourceCost | null {
+  if (entity.morph === null) return null;
+  const paid = getMorphPaid(entity);
+  entity.morph = null;
+  world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+  const playerId = entity.ownership?.playerId;
+  if (playerId === undefined) return paid;
+  return economyManager.addStockpile(world, playerId, paid, null, entity.id, 'refund');
+}
+
+const _morphing: Entity[] = [];
+
+/** Advance every morph by one step, drawing its share of the cost, and
+ *  swap finished ones for their target. Units that replaced a morphing
+ *  unit are pushed onto `spawnedUnits` so the caller can give them
+ *  physics bodies; replaced buildings queue their bodies through
+ *  world.addEntity like any other new building. */
+export function updateMorphs(
+  world: WorldState,
+  construction: ConstructionSystem,
+  dtMs: number,
+  spawnedUnits: Entity[],
+): void {
+  if (dtMs <= 0) return;
+  const entities = world.getUnitsAndBuildings();
+  _morphing.length = 0;
+  for (let i = 0; i < entities.length; i++) {
+    if (entities[i].morph !== null) _morphing.push(entities[i]);
+  }
+  for (let i = 0; i < _morphing.length; i++) {
+    const entity = _morphing[i];
+    const morph = entity.morph;
+    const config = getMorphConfig(entity);
+    const playerId = entity.ownership?.playerId;
+    if (morph === null) continue;
+    if (config === null || playerId === undefined || config.into !== morph.into) {
+      cancelMorph(world, entity);
+      continue;
+    }
+
+    const stepMs = Math.min(dtMs, config.durationMs - morph.progressMs);
+    if (stepMs > 0) {
+      const stepFraction = stepMs / config.durationMs;
+      const want = {
+        energy: config.cost.energy * stepFraction,
+        metal: config.cost.metal * stepFraction,
+      };
+      const economy = economyManager.getOrCreateEconomy(playerId);
+      let affordable = 1;
+      if (want.energy > 0) affordable = Math.min(affordable, economy.stockpile.curr / want.energy);
+      if (want.metal > 0) affordable = Math.min(affordable, economy.metal.stockpile.curr / want.metal);
+      if (affordable <= 0) continue;
+      economyManager.spendStockpile(
+        world,
+        playerId,
+        { energy: want.energy * affordable, metal: want.metal * affordable },
+        null,
+        entity.id,
+        'construction',
+        dtMs / 1000,
+      );
+      morph.progressMs += stepMs * affordable;
+      world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+    }
+    if (morph.progressMs < config.durationMs) continue;
+
+    if (entity.unit !== null) {
+      spawnedUnits.push(replaceUnitInPlace(world, entity, morph.into, playerId));
+    } else if (construction.replaceBuildingInPlace(
+      world,
+      entity,
+      morph.into as BuildingBlueprintId,
+      entity.building !== null ? entity.building.hp / entity.building.maxHp : 1,
+    ) === null) {
+      // Something now stands in the way of the larger footprint; give the
+      // owner their resources back rather than keeping a finished morph
+      // pending forever.
+      cancelMorph(world, entity);
+    }
+  }
+  _morphing.length = 0;
+}
+
+function replaceUnitInPlace(world: WorldState, entity: Entity, into: string, playerId: PlayerId): Entity {
+  const unit = world.createUnitFromBlueprint(entity.transform.x, entity.transform.y, playerId, into);
+  unit.transform.rotation = entity.transform.rotation;
+  if (entity.unit !== null && unit.unit !== null) {
+    unit.unit.hp = Math.max(1, unit.unit.maxHp * (entity.unit.hp / entity.unit.maxHp));
+  }
+  if (entity.selectable !== null && unit.selectable !== null) {
+    unit.selectable.selected = entity.selectable.selected;
+  }
+  world.removeEntity(entity.id);
+  world.addEntity(unit);
+  return unit;
+}
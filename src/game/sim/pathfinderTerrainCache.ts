@@ -1,5 +1,5 @@
 import { getSimWasm } from '../sim-wasm/init';
-import { getTerrainVersion } from './Terrain';
+import { getTerrainDeformationsSince, getTerrainVersion } from './Terrain';
 import {
   DEFAULT_PATHFINDING_CELL_CONSOLIDATION_MULTIPLIER,
   normalizePathfindingCellConsolidationMultiplier,
@@ -10,6 +10,9 @@ let initializedMapWidth = 0;
 let initializedMapHeight = 0;
 let initializedConsolidationMultiplier = 0;
 let initializedSim: ReturnType<typeof getSimWasm> | null = null;
+// The terrain version this module last brought the mask to. Only a hint for
+// which craters to replay: the Rust key still decides whether it holds.
+let syncedTerrainVersion = -1;
 let pathfindingCellConsolidationMultiplier:
   PathfindingCellConsolidationMultiplier =
   DEFAULT_PATHFINDING_CELL_CONSOLIDATION_MULTIPLIER;
@@ -128,10 +131,32 @@ function syncBuildingOccupancy(): void {
  * which resets the installed layer). */
 export function ensurePathfinderTerrain(mapWidth: number, mapHeight: number): void {
   ensureInitialized(mapWidth, mapHeight);
-  // The Rust key is the source of truth and makes this an O(1) no-op when
-  // terrain is unchanged. Reassert it every time because diagnostics/tests
-  // can reinitialize the shared WASM pathfinder without this JS module seeing
-  // that mutation.
-  getSimWasm()!.pathfinder.rebuildTerrainMaskAndCc(getTerrainVersion());
+  const pathfinder = getSimWasm()!.pathfinder;
+  const terrainVersion = getTerrainVersion();
+  // Craters since the last sync re-sample only the cells they sank. Each
+  // step falls back to the full rebuild inside Rust when its key says the
+  // mask is not where this module left it.
+  const deformations = syncedTerrainVersion === terrainVersion
+    ? null
+    : getTerrainDeformationsSince(syncedTerrainVersion);
+  if (deformations !== null && deformations.length > 0) {
+    for (const step of deformations) {
+      pathfinder.refreshTerrainRegion(
+        step.fromVersion,
+        step.toVersion,
+        step.minX,
+        step.minY,
+        step.maxX,
+        step.maxY,
+      );
+    }
+  } else {
+    // The Rust key is the source of truth and makes this an O(1) no-op when
+    // terrain is unchanged. Reassert it every time because diagnostics/tests
+    // can reinitialize the shared WASM pathfinder without this JS module
+    // seeing that mutation.
+    pathfinder.rebuildTerrainMaskAndCc(terrainVersion);
+  }
+  syncedTerrainVersion = terrainVersion;
   syncBuildingOccupancy();
 }
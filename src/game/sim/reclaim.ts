@@ -18,7 +18,14 @@ export function isReclaimableTarget(target: Entity | null | undefined): target i
   return false;
 }
 
+/** Wrecks already carry their discounted value, so they pay out whole. */
+export function getReclaimRefundFraction(target: Entity): number {
+  return target.wreck !== null ? 1 : RECLAIM_REFUND_FRACTION;
+}
+
 export function getReclaimResourceValue(target: Entity): ResourceCost {
+  if (target.wreck !== null) return { energy: 0, metal: target.wreck.metal };
+
   if (target.buildable) {
     const hpState = target.unit ?? target.building;
     const hpFraction = hpState ? hpState.hp / Math.max(1, hpState.maxHp) : 0;
@@ -11,7 +11,9 @@ export type ResourceMovementReason =
   | 'conversion'
   | 'refund'
   | 'reclaim'
-  | 'ability';
+  | 'ability'
+  | 'share'
+  | 'autoShare';
 
 export type ResourceMovement = {
   playerId: PlayerId;
@@ -30,7 +30,7 @@ import {
   type MapOvalMetrics,
 } from './mapOval';
 import { angleDeltaAbs } from '../math';
-import { isWaterAt } from './Terrain';
+import { getAuthoredStartPosition, isWaterAt } from './Terrain';
 import { fabricatorTorusOuterRadius } from './blueprints';
 import {
   BUILD_GRID_CELL_SIZE,
@@ -360,6 +360,8 @@ export function getSpawnPositionForSeat(
   mapWidth: number,
   mapHeight: number,
 ): { x: number; y: number } {
+  const authored = getAuthoredStartPosition(roster.playerIds.indexOf(playerId));
+  if (authored !== null) return authored;
   const radius = commanderRadiusForMap(mapWidth, mapHeight);
   const angle = getSeatBaseAngle(roster, playerId);
   return mapOvalPointAt(makeMapOvalMetrics(mapWidth, mapHeight), angle, radius);
@@ -368,6 +370,8 @@ export function getSpawnPositionForSeat(
 // Calculate spawn positions on the spawn oval for N players. Used
 // for the REAL BATTLE flow (just commanders). The commander ring is
 // shared with demo battle through DEMO_CONFIG.baseRings.unitCommander.
+// An authored map seats each commander on the file's start position
+// instead; prebuilt bases keep their radial arcs either way.
 function getSpawnPositions(
   world: WorldState,
   playerIds: readonly PlayerId[],
@@ -378,8 +382,9 @@ function getSpawnPositions(
   const radius = commanderRadiusForMap(world.mapWidth, world.mapHeight);
   const positions: { x: number; y: number; facingAngle: number }[] = [];
   for (let i = 0; i < playerIds.length; i++) {
-    const angle = getSeatBaseAngle(world.teamRoster, playerIds[i]);
-    const point = mapOvalPointAt(oval, angle, radius);
+    const point =
+      getAuthoredStartPosition(world.teamRoster.playerIds.indexOf(playerIds[i])) ??
+      mapOvalPointAt(oval, getSeatBaseAngle(world.teamRoster, playerIds[i]), radius);
     positions.push({
       x: point.x,
       y: point.y,
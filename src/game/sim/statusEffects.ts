@@ -0,0 +1,226 @@
+import type { Entity, EntityId, StatusEffects } from './types';
+import type { StatusEffectsSpec } from '@/types/shotTypes';
+import type { WorldState } from './WorldState';
+import { assertExplicitFields } from './blueprints/jsonValidation';
+import { ENTITY_CHANGED_HP } from '../../types/network';
+
+// Status effects: what a shot or ray leaves on a unit besides its damage
+// (BAR's paralyzer weapons, plus slow and burn). A blueprint's
+// `statusEffects` block lands through DamageSystem on every unit a shot's
+// detonation splash reaches, or a ray's endpoint each tick it is held;
+// this module owns the state and its fixed-step decay.
+//
+//   paralyze  EMP damage accumulates against the target's current hp. When
+//             it reaches it the unit is stunned for durationMs — no drive,
+//             no turret motion, no fire — and the accumulator resets.
+//   slow      each hit adds a stack up to maxStacks and refreshes the
+//             timer; every stack takes speedReduction off the drive.
+//   burn      each hit adds a stack up to maxStacks and refreshes the
+//             timer; every stack burns dps of hp until it runs out.
+//
+// Everything is plain arithmetic on the fixed step, so it stays
+// bit-identical across peers. Burn is a direct hp drain like lava — no
+// per-tick damage event, no kill credit — and routes deaths through the
+// shared pendingDeathCheck cleanup.
+
+/** Share of max hp the paralyze accumulator sheds per second, so hits
+ *  spread too thin never add up to a stun. */
+const PARALYZE_DECAY_MAX_HP_FRACTION_PER_SEC = 0.1;
+/** Slow stacks never take a unit below this share of its drive. */
+const MIN_SLOW_SPEED_MULTIPLIER = 0.2;
+
+const STATUS_EFFECTS_EXPLICIT_FIELDS = ['paralyze', 'slow', 'burn'] as const;
+
+function assertPositiveFinite(label: string, value: unknown): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${label}: expected finite number > 0`);
+  }
+}
+
+function assertMaxStacks(label: string, value: unknown): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid ${label}: expected integer >= 1`);
+  }
+}
+
+/** Validate an authored `statusEffects` block (null = none). */
+export function validateStatusEffectsSpec(label: string, value: unknown): void {
+  if (value === null) return;
+  assertExplicitFields(label, value, STATUS_EFFECTS_EXPLICIT_FIELDS);
+  for (const key of Object.keys(value)) {
+    if (!(STATUS_EFFECTS_EXPLICIT_FIELDS as readonly string[]).includes(key)) {
+      throw new Error(`Invalid ${label}.${key}: unexpected field`);
+    }
+  }
+  const { paralyze, slow, burn } = value;
+  if (paralyze === null && slow === null && burn === null) {
+    throw new Error(`Invalid ${label}: author null instead of an empty block`);
+  }
+  if (paralyze !== null) {
+    assertExplicitFields(`${label}.paralyze`, paralyze, ['damage', 'durationMs']);
+    assertPositiveFinite(`${label}.paralyze.damage`, paralyze.damage);
+    assertPositiveFinite(`${label}.paralyze.durationMs`, paralyze.durationMs);
+  }
+  if (slow !== null) {
+    assertExplicitFields(`${label}.slow`, slow, ['speedReduction', 'durationMs', 'maxStacks']);
+    const reduction = slow.speedReduction;
+    if (typeof reduction !== 'number' || !(reduction > 0 && reduction < 1)) {
+      throw new Error(`Invalid ${label}.slow.speedReduction: expected a fraction in (0, 1)`);
+    }
+    assertPositiveFinite(`${label}.slow.durationMs`, slow.durationMs);
+    assertMaxStacks(`${label}.slow.maxStacks`, slow.maxStacks);
+  }
+  if (burn !== null) {
+    assertExplicitFields(`${label}.burn`, burn, ['dps', 'durationMs', 'maxStacks']);
+    assertPositiveFinite(`${label}.burn.dps`, burn.dps);
+    assertPositiveFinite(`${label}.burn.durationMs`, burn.durationMs);
+    assertMaxStacks(`${label}.burn.maxStacks`, burn.maxStacks);
+  }
+}
+
+export function createStatusEffects(): StatusEffects {
+  return {
+    paralyzeDamage: 0,
+    paralyzedMs: 0,
+    slowStacks: 0,
+    slowPerStack: 0,
+    slowMs: 0,
+    burnStacks: 0,
+    burnDpsPerStack: 0,
+    burnMs: 0,
+  };
+}
+
+export function isParalyzed(entity: Entity): boolean {
+  return entity.statusEffects !== null && entity.statusEffects.paralyzedMs > 0;
+}
+
+/** Multiplier on the unit's commanded drive from its slow stacks. */
+export function getStatusSpeedMultiplier(entity: Entity): number {
+  const status = entity.statusEffects;
+  if (status === null || status.slowStacks === 0) return 1;
+  return Math.max(MIN_SLOW_SPEED_MULTIPLIER, 1 - status.slowPerStack * status.slowStacks);
+}
+
+/** What the snapshot carries: whether the stun runs, and the two stack
+ *  counts. Timers ticking down alone don't resend the record. */
+let _wasParalyzed = false;
+let _slowStacksBefore = 0;
+let _burnStacksBefore = 0;
+
+function noteVisibleState(status: StatusEffects): void {
+  _wasParalyzed = status.paralyzedMs > 0;
+  _slowStacksBefore = status.slowStacks;
+  _burnStacksBefore = status.burnStacks;
+}
+
+function visibleStateChanged(status: StatusEffects): boolean {
+  return (status.paralyzedMs > 0) !== _wasParalyzed ||
+    status.slowStacks !== _slowStacksBefore ||
+    status.burnStacks !== _burnStacksBefore;
+}
+
+const _appliedIds = new Set<EntityId>();
+
+/** Land `spec` on every live unit in `hitEntityIds` (once each, however
+ *  many of its colliders the hit overlapped). `scale` multiplies paralyze
+ *  damage: 1 for a shot, the tick's share of a second for a ray. */
+export function applyStatusEffectsToHits(
+  world: WorldState,
+  spec: StatusEffectsSpec,
+  hitEntityIds: readonly EntityId[],
+  scale = 1,
+): void {
+  _appliedIds.clear();
+  for (let i = 0; i < hitEntityIds.length; i++) {
+    const id = hitEntityIds[i];
+    if (_appliedIds.has(id)) continue;
+    _appliedIds.add(id);
+    const entity = world.getEntity(id);
+    if (entity !== undefined) applyStatusEffects(world, entity, spec, scale);
+  }
+  _appliedIds.clear();
+}
+
+export function applyStatusEffects(
+  world: WorldState,
+  entity: Entity,
+  spec: StatusEffectsSpec,
+  scale = 1,
+): void {
+  const unit = entity.unit;
+  if (unit === null || unit.hp <= 0) return;
+  const status = entity.statusEffects ?? (entity.statusEffects = createStatusEffects());
+  noteVisibleState(status);
+
+  const paralyze = spec.paralyze;
+  if (paralyze !== null) {
+    status.paralyzeDamage += paralyze.damage * scale;
+    if (status.paralyzeDamage >= unit.hp) {
+      status.paralyzedMs = Math.max(status.paralyzedMs, paralyze.durationMs);
+      status.paralyzeDamage = 0;
+    }
+  }
+  const slow = spec.slow;
+  if (slow !== null) {
+    status.slowStacks = Math.min(Math.max(status.slowStacks, slow.maxStacks), status.slowStacks + 1);
+    status.slowPerStack = Math.max(status.slowPerStack, slow.speedReduction);
+    status.slowMs = Math.max(status.slowMs, slow.durationMs);
+  }
+  const burn = spec.burn;
+  if (burn !== null) {
+    status.burnStacks = Math.min(Math.max(status.burnStacks, burn.maxStacks), status.burnStacks + 1);
+    status.burnDpsPerStack = Math.max(status.burnDpsPerStack, burn.dps);
+    status.burnMs = Math.max(status.burnMs, burn.durationMs);
+  }
+
+  if (visibleStateChanged(status)) {
+    world.markSnapshotDirty(entity.id, ENTITY_CHANGED_HP);
+  }
+}
+
+/** Advance every unit's status effects one fixed step: run the timers,
+ *  bleed the paralyze accumulator and burn hp. */
+export function updateStatusEffects(world: WorldState, dtMs: number): void {
+  const units = world.getUnits();
+  for (let i = 0; i < units.length; i++) {
+    const entity = units[i];
+    const status = entity.statusEffects;
+    const unit = entity.unit;
+    if (status === null || unit === null || unit.hp <= 0) continue;
+    noteVisibleState(status);
+
+    if (status.paralyzeDamage > 0) {
+      status.paralyzeDamage = Math.max(
+        0,
+        status.paralyzeDamage - unit.maxHp * PARALYZE_DECAY_MAX_HP_FRACTION_PER_SEC * (dtMs / 1000),
+      );
+    }
+    if (status.paralyzedMs > 0) {
+      status.paralyzedMs = Math.max(0, status.paralyzedMs - dtMs);
+    }
+    if (status.slowMs > 0) {
+      status.slowMs -= dtMs;
+      if (status.slowMs <= 0) {
+        status.slowMs = 0;
+        status.slowStacks = 0;
+        status.slowPerStack = 0;
+      }
+    }
+    if (status.burnMs > 0) {
+      const damage = status.burnDpsPerStack * status.burnStacks * (Math.min(dtMs, status.burnMs) / 1000);
+      unit.hp = Math.max(0, unit.hp - damage);
+      world.markSnapshotDirty(entity.id, ENTITY_CHANGED_HP);
+      status.burnMs -= dtMs;
+      if (status.burnMs <= 0) {
+        status.burnMs = 0;
+        status.burnStacks = 0;
+        status.burnDpsPerStack = 0;
+      }
+    }
+
+    if (visibleStateChanged(status)) {
+      world.markSnapshotDirty(entity.id, ENTITY_CHANGED_HP);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * What the authored weapons leave on a unit besides their damage. The plasma
+ * disruptor's paralyze damage adds up against the target's hp and stuns it
+ * only once it gets there, then bleeds away between hits; its slow stacks to
+ * the authored cap. The heavy mortar's burn drains hp until it wears off.
+ * The snapshot is resent when the stun or a stack count changes, never for a
+ * timer or the accumulator alone.
+ */
+
+import type { StatusEffectsSpec } from '@/types/shotTypes';
+import { getShotBlueprint } from './blueprints/shots';
+import {
+  applyStatusEffects,
+  applyStatusEffectsToHits,
+  getStatusSpeedMultiplier,
+  isParalyzed,
+  updateStatusEffects,
+} from './statusEffects';
+import type { WorldState } from './WorldState';
+import type { Entity, EntityId } from './types';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[status effects contract] ${message}`);
+}
+
+function authoredStatusEffects(shotBlueprintId: string): StatusEffectsSpec {
+  const spec = getShotBlueprint(shotBlueprintId).statusEffects;
+  assertContract(spec !== null, `${shotBlueprintId} must carry status effects`);
+  return spec;
+}
+
+export function runStatusEffectsContractTest(): void {
+  const disruptor = authoredStatusEffects('shotPlasmaDisruptor');
+  const mortar = authoredStatusEffects('shotMortarHeavy');
+  assertContract(
+    disruptor.paralyze !== null && disruptor.slow !== null && mortar.burn !== null,
+    'the disruptor paralyzes and slows, the heavy mortar burns',
+  );
+
+  // Only the surface statusEffects touches: the units, their lookup and a
+  // count of the snapshot dirty marks.
+  const target = {
+    id: 1,
+    type: 'unit',
+    unit: { hp: 0, maxHp: 0 },
+    statusEffects: null,
+  } as unknown as Entity;
+  const unit = target.unit!;
+  let dirtyMarks = 0;
+  const world = {
+    getUnits: () => [target],
+    getEntity: (id: EntityId) => (id === target.id ? target : undefined),
+    markSnapshotDirty: () => { dirtyMarks++; },
+  } as unknown as WorldState;
+
+  // 1. One disruptor hit falls short of a target with more hp than its
+  //    paralyze damage; the second (however many colliders it overlapped)
+  //    reaches it, stuns for the authored duration and never touches hp.
+  unit.maxHp = disruptor.paralyze.damage * 1.5;
+  unit.hp = unit.maxHp;
+  applyStatusEffects(world, target, disruptor);
+  assertContract(!isParalyzed(target), 'paralyze damage short of the unit hp does not stun');
+  applyStatusEffectsToHits(world, disruptor, [target.id, target.id, target.id]);
+  const status = target.statusEffects!;
+  assertContract(isParalyzed(target), 'paralyze damage reaching the unit hp stuns it');
+  assertContract(status.paralyzeDamage === 0, 'the accumulator resets on the stun');
+  assertContract(unit.hp === unit.maxHp, 'paralyze damage never touches hp');
+
+  // 2. The same two hits stacked the slow to its cap.
+  assertContract(status.slowStacks === disruptor.slow.maxStacks, 'slow stacks to the authored cap');
+  applyStatusEffects(world, target, disruptor);
+  assertContract(status.slowStacks === disruptor.slow.maxStacks, 'and no further');
+  assertContract(
+    getStatusSpeedMultiplier(target) === 1 - disruptor.slow.speedReduction * disruptor.slow.maxStacks,
+    'every slow stack takes its share off the drive',
+  );
+
+  updateStatusEffects(world, disruptor.paralyze.durationMs - 1);
+  assertContract(isParalyzed(target), 'the stun runs its full duration');
+  updateStatusEffects(world, 1);
+  assertContract(!isParalyzed(target), 'the stun wears off');
+  updateStatusEffects(world, disruptor.slow.durationMs - disruptor.paralyze.durationMs);
+  assertContract(
+    status.slowStacks === 0 && getStatusSpeedMultiplier(target) === 1,
+    'the slow wears off entirely',
+  );
+
+  // 3. A ray lands paralyze damage scaled to its tick; what it leaves bleeds
+  //    off at a tenth of max hp per second so thin hits never add up.
+  applyStatusEffects(world, target, disruptor, 0.2);
+  const accumulated = status.paralyzeDamage;
+  updateStatusEffects(world, 1000);
+  assertContract(
+    status.paralyzeDamage === accumulated - unit.maxHp * 0.1,
+    `paralyze damage decays between hits, got ${status.paralyzeDamage}`,
+  );
+
+  // A slow stronger than the drive floors at a fifth of it.
+  applyStatusEffects(world, target, {
+    paralyze: null,
+    slow: { speedReduction: 0.9, durationMs: 1000, maxStacks: 1 },
+    burn: null,
+  });
+  assertContract(getStatusSpeedMultiplier(target) === 0.2, 'a slow floors at a fifth of the drive');
+  updateStatusEffects(world, 1000);
+
+  // 4. Heavy mortar burn stacks to its cap, drains every stack's dps and
+  //    stops draining when its timer runs out mid-step.
+  const burn = mortar.burn;
+  unit.hp = 1000;
+  for (let hit = 0; hit <= burn.maxStacks; hit++) applyStatusEffects(world, target, mortar);
+  assertContract(status.burnStacks === burn.maxStacks, 'burn stacks to the authored cap');
+  updateStatusEffects(world, 1000);
+  assertContract(unit.hp === 1000 - burn.dps * burn.maxStacks, 'every burn stack drains its dps');
+  updateStatusEffects(world, burn.durationMs);
+  assertContract(
+    unit.hp === 1000 - burn.dps * burn.maxStacks * (burn.durationMs / 1000),
+    `the burn drains for exactly its duration, got ${unit.hp}`,
+  );
+  assertContract(status.burnStacks === 0, 'the burn wears off');
+
+  // 5. Resends follow what the snapshot shows.
+  const marks = dirtyMarks;
+  updateStatusEffects(world, 100);
+  assertContract(dirtyMarks === marks, 'a unit with nothing active is not resent');
+  applyStatusEffects(world, target, { ...disruptor, slow: null }, 0.01);
+  assertContract(dirtyMarks === marks, 'an accumulator change alone is not resent');
+  applyStatusEffects(world, target, mortar);
+  assertContract(dirtyMarks === marks + 1, 'a new stack is resent');
+
+  unit.hp = 0;
+  target.statusEffects = null;
+  applyStatusEffects(world, target, mortar);
+  assertContract(target.statusEffects === null, 'a dead unit takes no status');
+}
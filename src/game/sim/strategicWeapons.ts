@@ -0,0 +1,312 @@
+import { deterministicMath as DMath } from '@/game/sim/deterministicMath';
+import type {
+  Entity,
+  EntityId,
+  PlayerId,
+  Stockpile,
+  StockpileConfig,
+  StrategicMissile,
+} from './types';
+import type { DeathContext, SimEvent } from './combat';
+import type { AreaDamageSource, DamageSystem } from './damage';
+import type { ForceAccumulator } from './ForceAccumulator';
+import type { WorldState } from './WorldState';
+import type { Vec3 } from '@/types/vec2';
+import type { StructureStrategicMissileConfig } from '@/types/blueprints';
+import { getBuildingConfig } from './buildConfigs';
+import { isEntityActive } from './buildableHelpers';
+import { economyManager } from './economy';
+import { collectKillsAndDeathContexts } from './combat/damageHelpers';
+import { carveImpactCrater } from './Terrain';
+import { ENTITY_CHANGED_BUILDING } from '../../types/network';
+
+// Strategic weapons: structures that build rounds ahead of use (BAR's
+// stockpile) and spend them one at a time — a silo on a hand-picked
+// target anywhere in range, an anti-missile defense automatically on an
+// enemy missile bound inside its coverage.
+//
+// Rounds build only while the owner keeps some queued, drawing their cost
+// from the stockpiles in step with progress exactly as a morph does, so a
+// stalled economy stalls the magazine. A launched missile is not a
+// projectile entity: it flies a fixed arc from launch to impact, parked
+// on WorldState.strategicMissiles, and lands as a neutral blast that hurts
+// friend and foe alike. The launch is announced to every player.
+
+export function getStockpileConfig(entity: Entity): StockpileConfig | null {
+  if (!isEntityActive(entity) || entity.wreck !== null) return null;
+  if (entity.building === null || entity.buildingBlueprintId === null) return null;
+  return getBuildingConfig(entity.buildingBlueprintId).stockpile;
+}
+
+export function createStockpile(): Stockpile {
+  return { stock: 0, queued: 0, progressMs: 0 };
+}
+
+/** Move the number of rounds `entity` is asked to build by `delta`,
+ *  clamped to [0, maxStock]. Returns whether anything changed. */
+export function queueStockpile(
+  world: WorldState,
+  entity: Entity,
+  playerId: PlayerId,
+  delta: number,
+): boolean {
+  if (entity.ownership === null || entity.ownership.playerId !== playerId) return false;
+  const config = getStockpileConfig(entity);
+  if (config === null || (entity.stockpile === null && delta <= 0)) return false;
+  const stockpile = entity.stockpile ?? (entity.stockpile = createStockpile());
+  const queued = Math.max(0, Math.min(config.maxStock, stockpile.queued + delta));
+  if (queued === stockpile.queued) return false;
+  stockpile.queued = queued;
+  world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+  return true;
+}
+
+/** Advance every queued magazine by one step, drawing its share of the
+ *  round's cost. A full magazine waits until a round is spent. */
+export function updateStockpiles(world: WorldState, dtMs: number): void {
+  if (dtMs <= 0) return;
+  const buildings = world.getBuildings();
+  for (let i = 0; i < buildings.length; i++) {
+    const entity = buildings[i];
+    const stockpile = entity.stockpile;
+    if (stockpile === null || stockpile.queued <= 0) continue;
+    const config = getStockpileConfig(entity);
+    const playerId = entity.ownership?.playerId;
+    if (config === null || playerId === undefined || stockpile.stock >= config.maxStock) continue;
+
+    const stepMs = Math.min(dtMs, config.durationMs - stockpile.progressMs);
+    if (stepMs > 0) {
+      const stepFraction = stepMs / config.durationMs;
+      const want = {
+        energy: config.cost.energy * stepFraction,
+        metal: config.cost.metal * stepFraction,
+      };
+      const economy = economyManager.getOrCreateEconomy(playerId);
+      let affordable = 1;
+      if (want.energy > 0) affordable = Math.min(affordable, economy.stockpile.curr / want.energy);
+      if (want.metal > 0) affordable = Math.min(affordable, economy.metal.stockpile.curr / want.metal);
+      if (affordable <= 0) continue;
+      economyManager.spendStockpile(
+        world,
+        playerId,
+        { energy: want.energy * affordable, metal: want.metal * affordable },
+        null,
+        entity.id,
+        'construction',
+        dtMs / 1000,
+      );
+      stockpile.progressMs += stepMs * affordable;
+      world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+    }
+    if (stockpile.progressMs < config.durationMs) continue;
+    stockpile.stock++;
+    stockpile.queued--;
+    stockpile.progressMs = 0;
+  }
+}
+
+function getStrategicMissileConfig(entity: Entity): StructureStrategicMissileConfig | null {
+  if (getStockpileConfig(entity) === null) return null;
+  return getBuildingConfig(entity.buildingBlueprintId!).strategicMissile;
+}
+
+export function hasStrategicMissileLauncher(entity: Entity): boolean {
+  return getStrategicMissileConfig(entity) !== null;
+}
+
+/** Fire one stockpiled missile from `entity` at the ground under
+ *  (targetX, targetY). Returns the launch warning, or null when the silo
+ *  has nothing loaded or the target is out of range. */
+export function launchStrategicMissile(
+  world: WorldState,
+  entity: Entity,
+  targetX: number,
+  targetY: number,
+): SimEvent | null {
+  const config = getStrategicMissileConfig(entity);
+  const stockpile = entity.stockpile;
+  const playerId = entity.ownership?.playerId;
+  if (config === null || stockpile === null || stockpile.stock < 1 || playerId === undefined) return null;
+  const dx = targetX - entity.transform.x;
+  const dy = targetY - entity.transform.y;
+  if (dx * dx + dy * dy > config.range * config.range) return null;
+
+  const flightSeconds = DMath.hypot(dx, dy) / config.speed;
+  const launchTick = world.getTick();
+  const missile: StrategicMissile = {
+    playerId,
+    sourceEntityId: entity.id,
+    launcherBlueprintId: entity.buildingBlueprintId!,
+    originX: entity.transform.x,
+    originY: entity.transform.y,
+    originZ: entity.transform.z,
+    targetX,
+    targetY,
+    targetZ: world.getGroundZ(targetX, targetY),
+    launchTick,
+    impactTick: launchTick + Math.max(1, world.ticksForSeconds(flightSeconds)),
+  };
+  world.strategicMissiles.push(missile);
+  stockpile.stock--;
+  world.markSnapshotDirty(entity.id, ENTITY_CHANGED_BUILDING);
+  return {
+    type: 'missileLaunch',
+    turretBlueprintId: '',
+    sourceType: 'building',
+    sourceKey: missile.launcherBlueprintId,
+    playerId,
+    entityId: entity.id,
+    pos: { x: missile.originX, y: missile.originY, z: missile.originZ },
+  };
+}
+
+/** Where `missile` is on `tick`: a straight line over the ground, lifted
+ *  by a parabola that peaks at the launcher's apexHeight midway. */
+export function getStrategicMissilePosition(missile: StrategicMissile, tick: number, out: Vec3): Vec3 {
+  const flightTicks = missile.impactTick - missile.launchTick;
+  const f = Math.max(0, Math.min(1, (tick - missile.launchTick) / flightTicks));
+  const apexHeight = getBuildingConfig(missile.launcherBlueprintId).strategicMissile?.apexHeight ?? 0;
+  out.x = missile.originX + (missile.targetX - missile.originX) * f;
+  out.y = missile.originY + (missile.targetY - missile.originY) * f;
+  out.z = missile.originZ + (missile.targetZ - missile.originZ) * f + 4 * apexHeight * f * (1 - f);
+  return out;
+}
+
+/** The loaded enemy defense that covers both the missile and its target,
+ *  lowest id first so every peer picks the same one. */
+function findInterceptor(world: WorldState, missile: StrategicMissile, pos: Vec3): Entity | null {
+  const missileTeam = world.getTeamId(missile.playerId);
+  const buildings = world.getBuildings();
+  let best: Entity | null = null;
+  for (let i = 0; i < buildings.length; i++) {
+    const entity = buildings[i];
+    const stockpile = entity.stockpile;
+    const playerId = entity.ownership?.playerId;
+    if (stockpile === null || stockpile.stock < 1 || playerId === undefined) continue;
+    if (world.getTeamId(playerId) === missileTeam) continue;
+    if (getStockpileConfig(entity) === null) continue;
+    const interceptor = getBuildingConfig(entity.buildingBlueprintId!).missileInterceptor;
+    if (interceptor === null) continue;
+    const radiusSq = interceptor.coverageRadius * interceptor.coverageRadius;
+    const tx = missile.targetX - entity.transform.x;
+    const ty = missile.targetY - entity.transform.y;
+    const mx = pos.x - entity.transform.x;
+    const my = pos.y - entity.transform.y;
+    if (tx * tx + ty * ty > radiusSq || mx * mx + my * my > radiusSq) continue;
+    if (best === null || entity.id < best.id) best = entity;
+  }
+  return best;
+}
+
+const EMPTY_EXCLUDES = new Set<EntityId>();
+const _missilePos: Vec3 = { x: 0, y: 0, z: 0 };
+
+/** Fly every missile one tick: an enemy defense covering it spends a round
+ *  to destroy it, and one that reaches its impact tick detonates. Kills
+ *  land in the caller's dead sets so they go through the same death
+ *  blasts and removal as any other combat kill. */
+export function updateStrategicMissiles(
+  world: WorldState,
+  damageSystem: DamageSystem,
+  forceAccumulator: ForceAccumulator,
+  deadUnitIds: Set<EntityId>,
+  deadBuildingIds: Set<EntityId>,
+  events: SimEvent[],
+  deathContexts: Map<EntityId, DeathContext>,
+): void {
+  const missiles = world.strategicMissiles;
+  if (missiles.length === 0) return;
+  const tick = world.getTick();
+  let writeIndex = 0;
+  for (let i = 0; i < missiles.length; i++) {
+    const missile = missiles[i];
+    const pos = getStrategicMissilePosition(missile, tick, _missilePos);
+    const interceptor = findInterceptor(world, missile, pos);
+    if (interceptor !== null) {
+      interceptor.stockpile!.stock--;
+      world.markSnapshotDirty(interceptor.id, ENTITY_CHANGED_BUILDING);
+      events.push({
+        type: 'missileIntercept',
+        turretBlueprintId: '',
+        sourceType: 'building',
+        sourceKey: interceptor.buildingBlueprintId!,
+        playerId: interceptor.ownership!.playerId,
+        entityId: interceptor.id,
+        pos: { x: pos.x, y: pos.y, z: pos.z },
+      });
+      continue;
+    }
+    if (tick < missile.impactTick) {
+      if (writeIndex !== i) missiles[writeIndex] = missile;
+      writeIndex++;
+      continue;
+    }
+    detonateStrategicMissile(
+      world,
+      damageSystem,
+      forceAccumulator,
+      missile,
+      deadUnitIds,
+      deadBuildingIds,
+      events,
+      deathContexts,
+    );
+  }
+  missiles.length = writeIndex;
+}
+
+function detonateStrategicMissile(
+  world: WorldState,
+  damageSystem: DamageSystem,
+  forceAccumulator: ForceAccumulator,
+  missile: StrategicMissile,
+  deadUnitIds: Set<EntityId>,
+  deadBuildingIds: Set<EntityId>,
+  events: SimEvent[],
+  deathContexts: Map<EntityId, DeathContext>,
+): void {
+  const explosion = getBuildingConfig(missile.launcherBlueprintId).strategicMissile?.explosion;
+  if (explosion === undefined) return;
+  const center = { x: missile.targetX, y: missile.targetY, z: missile.targetZ };
+  const source: AreaDamageSource = {
+    type: 'area',
+    sourceEntityId: missile.sourceEntityId,
+    // Neutral, like a death blast: the warhead hurts whatever is under it.
+    ownerId: 0,
+    damage: explosion.damage,
+    excludeEntities: EMPTY_EXCLUDES,
+    center,
+    radius: explosion.radius,
+    knockbackForce: explosion.force,
+  };
+  const result = damageSystem.applyDamage(source);
+  forceAccumulator.addKnockbackForces(result.knockbacks);
+  carveImpactCrater(center.x, center.y, center.z, explosion.radius, explosion.damage);
+  events.push({
+    type: 'projectileExpire',
+    turretBlueprintId: '',
+    sourceType: 'building',
+    sourceKey: missile.launcherBlueprintId,
+    playerId: missile.playerId,
+    entityId: missile.sourceEntityId,
+    pos: { x: center.x, y: center.y, z: center.z },
+    impactContext: {
+      radiusCollision: 0,
+      deathExplosionRadius: explosion.radius,
+      projectile: { pos: { x: center.x, y: center.y }, vel: { x: 0, y: 0 } },
+      entity: { vel: { x: 0, y: 0 }, radiusCollision: 0 },
+      penetrationDir: { x: 0, y: 0 },
+    },
+  });
+  collectKillsAndDeathContexts(
+    result,
+    world,
+    missile.launcherBlueprintId,
+    'building',
+    deadUnitIds,
+    deadBuildingIds,
+    events,
+    deathContexts,
+    missile.sourceEntityId,
+  );
+}
@@ -0,0 +1,217 @@
+// A silo only matters through what its round does when it lands, so this
+// flies real launches through a real world: the owner alone fills the
+// magazine, a round that reaches its impact tick kills everything under
+// the blast — its own side included — and nothing before that tick, and an
+// enemy anti-missile covering the target spends a round to take the missile
+// down mid-flight before anything under it is touched.
+
+import { DamageSystem } from './damage';
+import type { DeathContext, SimEvent } from './combat';
+import { economyManager } from './economy';
+import { ForceAccumulator } from './ForceAccumulator';
+import { getBuildingConfig } from './buildConfigs';
+import { applyBuildingBlueprintRuntime } from './buildingEntityRuntime';
+import { spatialGrid } from './SpatialGrid';
+import {
+  createStockpile,
+  launchStrategicMissile,
+  queueStockpile,
+  updateStockpiles,
+  updateStrategicMissiles,
+} from './strategicWeapons';
+import { buildTeamRosterFromAssignment } from './teamRoster';
+import { WorldState } from './WorldState';
+import type { BuildingBlueprintId, Entity, EntityId, PlayerId } from './types';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[strategic weapons contract] ${message}`);
+}
+
+const LAUNCHER = 1 as PlayerId;
+const ENEMY = 2 as PlayerId;
+/** Allied with the launcher. */
+const ALLY = 3 as PlayerId;
+const SILO_X = 500;
+const TARGET_X = 3500;
+const LANE_Y = 1500;
+
+type Battlefield = {
+  world: WorldState;
+  silo: Entity;
+  enemyUnderTarget: Entity;
+  ownUnderTarget: Entity;
+  enemyOutsideBlast: Entity;
+};
+
+function placeBuilding(
+  world: WorldState,
+  blueprintId: BuildingBlueprintId,
+  playerId: PlayerId,
+  x: number,
+  y: number,
+): Entity {
+  const config = getBuildingConfig(blueprintId);
+  const entity = world.createBuilding(
+    x,
+    y,
+    config.gridWidth * 20,
+    config.gridHeight * 20,
+    config.gridDepth * 20,
+    playerId,
+  );
+  applyBuildingBlueprintRuntime(entity, blueprintId);
+  entity.buildable = null;
+  world.addEntity(entity);
+  return entity;
+}
+
+function placeUnit(world: WorldState, playerId: PlayerId, x: number): Entity {
+  const unit = world.createUnitFromBlueprint(x, LANE_Y, playerId, 'unitJackal');
+  world.addEntity(unit);
+  spatialGrid.updateUnit(unit);
+  return unit;
+}
+
+function createBattlefield(): Battlefield {
+  spatialGrid.clear();
+  const world = new WorldState(2424, 4096, 3072);
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    [LAUNCHER, ENEMY, ALLY],
+    new Map<PlayerId, number>([[LAUNCHER, 1], [ENEMY, 2], [ALLY, 1]]),
+  ));
+  const silo = placeBuilding(world, 'buildingMissileSilo', LAUNCHER, SILO_X, LANE_Y);
+  const blastRadius = getBuildingConfig('buildingMissileSilo').strategicMissile!.explosion.radius;
+  return {
+    world,
+    silo,
+    enemyUnderTarget: placeUnit(world, ENEMY, TARGET_X),
+    ownUnderTarget: placeUnit(world, LAUNCHER, TARGET_X + 60),
+    enemyOutsideBlast: placeUnit(world, ENEMY, TARGET_X - blastRadius * 2),
+  };
+}
+
+type Flight = {
+  deadUnitIds: Set<EntityId>;
+  events: SimEvent[];
+  /** Tick the missile list emptied on, or null if it never did. */
+  resolvedTick: number | null;
+  impactTick: number;
+};
+
+/** Launch one round from the loaded silo at the target and step the
+ *  missile tick by tick, the way the combat controller does, until it has
+ *  detonated or been shot down. */
+function flyOneRound(world: WorldState, silo: Entity): Flight {
+  silo.stockpile = { ...createStockpile(), stock: 1 };
+  const launch = launchStrategicMissile(world, silo, TARGET_X, LANE_Y);
+  assertContract(launch !== null && launch.type === 'missileLaunch', 'a loaded silo launches');
+  assertContract(silo.stockpile.stock === 0, 'the launch spends the round');
+  const impactTick = world.strategicMissiles[0].impactTick;
+
+  const damageSystem = new DamageSystem(world);
+  const forces = new ForceAccumulator();
+  const deadUnitIds = new Set<EntityId>();
+  const events: SimEvent[] = [];
+  let resolvedTick: number | null = null;
+  while (world.getTick() <= impactTick) {
+    updateStrategicMissiles(
+      world,
+      damageSystem,
+      forces,
+      deadUnitIds,
+      new Set(),
+      events,
+      new Map<EntityId, DeathContext>(),
+    );
+    if (world.strategicMissiles.length === 0) {
+      resolvedTick = world.getTick();
+      break;
+    }
+    assertContract(deadUnitIds.size === 0, 'nothing dies while the missile is in the air');
+    world.incrementTick();
+  }
+  return { deadUnitIds, events, resolvedTick, impactTick };
+}
+
+export function runStrategicWeaponsContractTest(): void {
+  // ── Magazine ─────────────────────────────────────────────────────────
+  const field = createBattlefield();
+  const { world, silo } = field;
+  const stockpileConfig = getBuildingConfig('buildingMissileSilo').stockpile!;
+  assertContract(!queueStockpile(world, silo, ENEMY, 1), 'only the owner queues rounds');
+  assertContract(!queueStockpile(world, silo, ALLY, 1), 'not even an ally');
+  queueStockpile(world, silo, LAUNCHER, 100);
+  assertContract(silo.stockpile!.queued === stockpileConfig.maxStock, 'the queue clamps to maxStock');
+
+  economyManager.reset();
+  try {
+    economyManager.initPlayer(LAUNCHER);
+    const economy = economyManager.getOrCreateEconomy(LAUNCHER);
+    economy.stockpile.curr = 0;
+    economy.metal.stockpile.curr = 0;
+    updateStockpiles(world, 1000);
+    assertContract(silo.stockpile!.progressMs === 0, 'a broke owner builds nothing');
+  } finally {
+    economyManager.reset();
+  }
+  silo.stockpile = null;
+  const range = getBuildingConfig('buildingMissileSilo').strategicMissile!.range;
+  assertContract(
+    launchStrategicMissile(world, silo, TARGET_X, LANE_Y) === null,
+    'an empty silo cannot launch',
+  );
+  silo.stockpile = { ...createStockpile(), stock: 1 };
+  assertContract(
+    launchStrategicMissile(world, silo, SILO_X + range + 1, LANE_Y) === null &&
+      silo.stockpile.stock === 1,
+    'a target out of range is refused and spends nothing',
+  );
+
+  // ── Detonation ───────────────────────────────────────────────────────
+  const detonation = flyOneRound(world, silo);
+  assertContract(
+    detonation.resolvedTick === detonation.impactTick && detonation.impactTick > 1,
+    `the missile lands on its impact tick, got ${detonation.resolvedTick} of ${detonation.impactTick}`,
+  );
+  assertContract(
+    detonation.deadUnitIds.has(field.enemyUnderTarget.id),
+    'the blast kills the enemy under the target',
+  );
+  assertContract(
+    detonation.deadUnitIds.has(field.ownUnderTarget.id),
+    'the blast is neutral and kills the launcher side too',
+  );
+  assertContract(
+    !detonation.deadUnitIds.has(field.enemyOutsideBlast.id) && field.enemyOutsideBlast.unit!.hp > 0,
+    'a unit outside the blast radius survives',
+  );
+  assertContract(
+    detonation.events.some((event) => event.type === 'death' && event.entityId === field.enemyUnderTarget.id),
+    'every kill is reported as a death',
+  );
+
+  // ── Intercept ────────────────────────────────────────────────────────
+  const defended = createBattlefield();
+  const allyDefense = placeBuilding(defended.world, 'buildingAntiMissile', ALLY, TARGET_X, LANE_Y - 400);
+  const defense = placeBuilding(defended.world, 'buildingAntiMissile', ENEMY, TARGET_X, LANE_Y + 400);
+  allyDefense.stockpile = { ...createStockpile(), stock: 1 };
+  defense.stockpile = { ...createStockpile(), stock: 1 };
+  const intercept = flyOneRound(defended.world, defended.silo);
+  assertContract(
+    intercept.resolvedTick !== null && intercept.resolvedTick < intercept.impactTick,
+    'a covered missile is shot down before it lands',
+  );
+  assertContract(
+    intercept.events.length === 1 &&
+      intercept.events[0].type === 'missileIntercept' &&
+      intercept.events[0].entityId === defense.id,
+    'the enemy defense announces the intercept',
+  );
+  assertContract(defense.stockpile.stock === 0, 'the intercept spends a round');
+  assertContract(allyDefense.stockpile.stock === 1, 'the launcher team never shoots its own missile');
+  assertContract(
+    intercept.deadUnitIds.size === 0 &&
+      defended.enemyUnderTarget.unit!.hp === defended.enemyUnderTarget.unit!.maxHp,
+    'nothing under an intercepted missile is touched',
+  );
+}
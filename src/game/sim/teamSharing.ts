@@ -0,0 +1,191 @@
+import type { WorldState } from './WorldState';
+import type { EconomyState, Entity, PlayerId, ResourceCost } from './types';
+import { economyManager } from './economy';
+import { resourceMovementSystem, type ResourceKind } from './resourceMovement';
+import { transferCompletedBuildingStorageCapacity } from './buildingCompletion';
+import { factoryProductionSystem } from './factoryProduction';
+import { cancelMorph } from './morph';
+import { setUnitActions } from './unitActions';
+import { ENTITY_CHANGED_ACTIONS } from '../../types/network';
+
+/** The auto-share levels the team panel cycles through, most reserved first. */
+export const AUTO_SHARE_LEVELS: readonly number[] = [1, 0.9, 0.75, 0.5];
+
+type TeamShareReason = 'share' | 'autoShare';
+
+const RESOURCE_KINDS: readonly ResourceKind[] = ['metal', 'energy'];
+
+function pool(economy: EconomyState, resource: ResourceKind): { curr: number; max: number } {
+  return resource === 'energy' ? economy.stockpile : economy.metal.stockpile;
+}
+
+/** Move up to `amount` of one resource between two pools. Clamped up front
+ *  to what the giver holds and the receiver has room for, so nothing is
+ *  debited that the credit would then throw away. */
+function transferPool(
+  world: WorldState,
+  fromPlayerId: PlayerId,
+  from: EconomyState,
+  toPlayerId: PlayerId,
+  to: EconomyState,
+  resource: ResourceKind,
+  amount: number,
+  reason: TeamShareReason,
+): number {
+  const source = pool(from, resource);
+  const sink = pool(to, resource);
+  const wanted = Number.isFinite(amount) ? amount : 0;
+  const moved = Math.min(wanted, source.curr, sink.max - sink.curr);
+  if (moved <= 0) return 0;
+  // A one-tick burst, so the pylon-ball rate is the amount over the fixed
+  // step — the same convention as an instant spend.
+  const amountPerSecond = moved * world.simulationTickRateHz;
+  const taken = resourceMovementSystem.debit(from, world, {
+    playerId: fromPlayerId,
+    sourceEntityId: null,
+    targetEntityId: null,
+    resource,
+    amount: moved,
+    amountPerSecond,
+    direction: 'outbound',
+    reason,
+  });
+  resourceMovementSystem.credit(to, world, {
+    playerId: toPlayerId,
+    sourceEntityId: null,
+    targetEntityId: null,
+    resource,
+    amount: taken,
+    amountPerSecond,
+    direction: 'inbound',
+    reason,
+  });
+  return taken;
+}
+
+/** Hand resources from one player's stockpiles to another's. Returns what
+ *  actually moved; the caller has already established the two are allies. */
+export function transferResources(
+  world: WorldState,
+  fromPlayerId: PlayerId,
+  toPlayerId: PlayerId,
+  amount: ResourceCost,
+  reason: TeamShareReason,
+): ResourceCost {
+  const from = economyManager.getEconomy(fromPlayerId);
+  const to = economyManager.getEconomy(toPlayerId);
+  if (from === undefined || to === undefined || fromPlayerId === toPlayerId) {
+    return { energy: 0, metal: 0 };
+  }
+  return {
+    energy: transferPool(world, fromPlayerId, from, toPlayerId, to, 'energy', amount.energy, reason),
+    metal: transferPool(world, fromPlayerId, from, toPlayerId, to, 'metal', amount.metal, reason),
+  };
+}
+
+/** Whether a seat still has a unit or building on the map — the test for an
+ *  ally being around to receive anything. */
+export function playerOwnsAnything(world: WorldState, playerId: PlayerId): boolean {
+  return world.getUnitsByPlayer(playerId).length > 0 || world.getBuildingsByPlayer(playerId).length > 0;
+}
+
+/** Headroom below the receiver's own auto-share level: filling an ally past
+ *  it would only send the surplus straight on to someone else next tick. */
+function autoShareRoom(economy: EconomyState, playerId: PlayerId, resource: ResourceKind): number {
+  const receiving = pool(economy, resource);
+  const level = economyManager.getAutoShareThreshold(playerId)[resource];
+  return receiving.max * Math.min(1, level) - receiving.curr;
+}
+
+const _receivers: PlayerId[] = [];
+const _receiverRoom = new Map<PlayerId, number>();
+
+/**
+ * Flow every player's overflow to their allies, once per tick after income.
+ *
+ * A player whose pool sits above their auto-share level gives the excess to
+ * allies that still own something, split as evenly as their room allows:
+ * receivers are filled in order of least room first, each offered an equal
+ * share of what is left. Givers and receivers are walked in roster order, so
+ * every peer moves the same amounts.
+ */
+export function applyAutoShare(world: WorldState, playerIds: readonly PlayerId[]): void {
+  for (let i = 0; i < playerIds.length; i++) {
+    const giverId = playerIds[i];
+    const threshold = economyManager.getAutoShareThreshold(giverId);
+    if (threshold.energy >= 1 && threshold.metal >= 1) continue;
+    const giver = economyManager.getEconomy(giverId);
+    if (giver === undefined) continue;
+    for (let r = 0; r < RESOURCE_KINDS.length; r++) {
+      const resource = RESOURCE_KINDS[r];
+      const level = threshold[resource];
+      if (level >= 1) continue;
+      const giving = pool(giver, resource);
+      let excess = giving.curr - giving.max * Math.max(0, level);
+      if (excess <= 0) continue;
+
+      _receivers.length = 0;
+      _receiverRoom.clear();
+      for (let j = 0; j < playerIds.length; j++) {
+        const receiverId = playerIds[j];
+        if (receiverId === giverId || !world.arePlayersAllied(giverId, receiverId)) continue;
+        const receiver = economyManager.getEconomy(receiverId);
+        if (receiver === undefined || !playerOwnsAnything(world, receiverId)) continue;
+        const room = autoShareRoom(receiver, receiverId, resource);
+        if (room <= 0) continue;
+        _receivers.push(receiverId);
+        _receiverRoom.set(receiverId, room);
+      }
+      // Stable sort: equal rooms keep roster order.
+      _receivers.sort((a, b) => _receiverRoom.get(a)! - _receiverRoom.get(b)!);
+      for (let k = 0; k < _receivers.length && excess > 0; k++) {
+        const receiverId = _receivers[k];
+        const share = Math.min(excess / (_receivers.length - k), _receiverRoom.get(receiverId)!);
+        excess -= transferPool(
+          world,
+          giverId,
+          giver,
+          receiverId,
+          economyManager.getEconomy(receiverId)!,
+          resource,
+          share,
+          'autoShare',
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Move an entity to a new owner. Capture and gifting both end here: storage
+ * capacity follows the building, and everything the old owner had told it to
+ * do — orders, lock-ons, factory work, an armed self-destruct — is dropped.
+ * Work the old owner paid into — a factory's half-built shell, a morph — is
+ * cancelled first, so the refund goes back to whoever paid it.
+ */
+export function transferEntityOwnership(world: WorldState, entity: Entity, playerId: PlayerId): void {
+  if (entity.ownership?.playerId === playerId) return;
+  const previousPlayerId = entity.ownership?.playerId ?? playerId;
+  if (entity.factory !== null) factoryProductionSystem.cancelActiveShell(world, entity);
+  cancelMorph(world, entity);
+  if (entity.building !== null) {
+    transferCompletedBuildingStorageCapacity(entity, previousPlayerId, playerId);
+  }
+  world.setEntityOwner(entity, playerId);
+  world.armedSelfDestructs.delete(entity.id);
+  if (entity.unit !== null) {
+    setUnitActions(entity.unit, []);
+    world.markSnapshotDirty(entity.id, ENTITY_CHANGED_ACTIONS);
+  }
+  if (entity.combat !== null) {
+    entity.combat.priorityTargetId = null;
+    entity.combat.priorityTargetPoint = null;
+    entity.combat.manualLaunchActive = false;
+  }
+  if (entity.factory !== null) {
+    entity.factory.selectedUnitBlueprintId = null;
+    entity.factory.productionQueue.length = 0;
+    entity.factory.isProducing = false;
+    entity.factory.guardTargetId = null;
+  }
+}
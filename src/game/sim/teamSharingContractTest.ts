@@ -0,0 +1,159 @@
+/**
+ * Sharing moves resources between allies without creating or losing any:
+ * a gift is clamped to what the giver holds and the receiver can store, both
+ * sides show up in the movement ledger under a sharing reason, overflow only
+ * reaches allies that still own something, a gifted storage building
+ * takes its capacity with it, and gifted work in progress — a factory's
+ * shell, a morph — is cancelled with the refund going to whoever paid it.
+ */
+
+import { MAX_METAL } from '../../config';
+import { getBuildingConfig } from './buildConfigs';
+import { applyBuildingBlueprintRuntime } from './buildingEntityRuntime';
+import { applyCompletedBuildingEffects } from './buildingCompletion';
+import { economyManager } from './economy';
+import { createFactoryComponent } from './factoryComponent';
+import { getMorphConfig, getMorphPaid } from './morph';
+import { applyAutoShare, transferEntityOwnership, transferResources } from './teamSharing';
+import { buildTeamRosterFromAssignment } from './teamRoster';
+import type { BuildingBlueprintId, Entity, PlayerId } from './types';
+import { WorldState } from './WorldState';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[team sharing contract] ${message}`);
+}
+
+function createCompletedBuilding(
+  world: WorldState,
+  blueprintId: BuildingBlueprintId,
+  playerId: PlayerId,
+  x: number,
+): Entity {
+  const config = getBuildingConfig(blueprintId);
+  const entity = world.createBuilding(
+    x,
+    100,
+    config.gridWidth * 20,
+    config.gridHeight * 20,
+    config.gridDepth * 20,
+    playerId,
+  );
+  applyBuildingBlueprintRuntime(entity, blueprintId);
+  assertContract(entity.building !== null, `${blueprintId} must create a building host`);
+  entity.building.hp = config.hp;
+  entity.building.maxHp = config.hp;
+  entity.buildable = null;
+  world.addEntity(entity);
+  return entity;
+}
+
+export function runTeamSharingContractTest(): void {
+  const playerIds = [1, 2, 3, 4] as PlayerId[];
+  const world = new WorldState(4242, 1024, 1024);
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    playerIds,
+    new Map<PlayerId, number>([[1, 1], [2, 1], [3, 1], [4, 2]]),
+  ));
+  economyManager.reset();
+  for (const playerId of playerIds) economyManager.initPlayer(playerId);
+  const giver = economyManager.getOrCreateEconomy(1);
+  const ally = economyManager.getOrCreateEconomy(2);
+  const idleAlly = economyManager.getOrCreateEconomy(3);
+  const enemy = economyManager.getOrCreateEconomy(4);
+
+  try {
+    giver.metal.stockpile.curr = 800;
+    ally.metal.stockpile.curr = MAX_METAL - 100;
+    const moved = transferResources(world, 1, 2, { metal: 500, energy: 0 }, 'share');
+    assertContract(
+      moved.metal === 100 && giver.metal.stockpile.curr === 700 && ally.metal.stockpile.curr === MAX_METAL,
+      'a gift moves only what the receiver has room for, and the rest stays with the giver',
+    );
+    const ledger = world.resourceMovements.filter((movement) => movement.reason === 'share');
+    assertContract(
+      ledger.length === 2 &&
+        ledger.some((movement) => movement.playerId === 1 && movement.stockpileDelta === -100) &&
+        ledger.some((movement) => movement.playerId === 2 && movement.stockpileDelta === 100),
+      'both sides of a gift appear in the movement ledger',
+    );
+
+    // Only seats that own something can take overflow; player 3 owns
+    // nothing and player 4 is on the other side.
+    createCompletedBuilding(world, 'buildingSolar', 1, 100);
+    createCompletedBuilding(world, 'buildingSolar', 2, 200);
+    createCompletedBuilding(world, 'buildingSolar', 4, 300);
+    world.resourceMovements.length = 0;
+    giver.metal.stockpile.curr = giver.metal.stockpile.max;
+    ally.metal.stockpile.curr = 0;
+    idleAlly.metal.stockpile.curr = 0;
+    enemy.metal.stockpile.curr = 0;
+    economyManager.setAutoShareThreshold(1, { metal: 0.5, energy: 1 });
+    const energyBefore = giver.stockpile.curr;
+    applyAutoShare(world, playerIds);
+    assertContract(
+      giver.metal.stockpile.curr === giver.metal.stockpile.max * 0.5 &&
+        ally.metal.stockpile.curr === giver.metal.stockpile.max * 0.5,
+      'overflow above the auto-share level goes to the ally that can use it',
+    );
+    assertContract(
+      idleAlly.metal.stockpile.curr === 0 && enemy.metal.stockpile.curr === 0,
+      'overflow skips allies with nothing left and never crosses sides',
+    );
+    assertContract(giver.stockpile.curr === energyBefore, 'a pool left at level 1 shares nothing');
+    assertContract(
+      world.resourceMovements.every((movement) => movement.reason === 'autoShare'),
+      'overflow is booked as auto-share',
+    );
+
+    const storage = createCompletedBuilding(world, 'buildingMetalStorage', 1, 400);
+    applyCompletedBuildingEffects(world, storage);
+    const giverMax = giver.metal.stockpile.max;
+    const allyMax = ally.metal.stockpile.max;
+    transferEntityOwnership(world, storage, 2);
+    assertContract(
+      storage.ownership?.playerId === 2 &&
+        giver.metal.stockpile.max < giverMax &&
+        ally.metal.stockpile.max > allyMax,
+      'a gifted storage building takes its capacity to the new owner',
+    );
+
+    const factory = createCompletedBuilding(world, 'towerFabricator', 1, 500);
+    factory.factory = createFactoryComponent({ rallyX: 500, rallyY: 100, rallyZ: null, rallyType: 'move' });
+    const shell = createCompletedBuilding(world, 'buildingSolar', 1, 600);
+    shell.buildable = {
+      paid: { energy: 40, metal: 60 },
+      required: { energy: 100, metal: 100 },
+      isComplete: false,
+      isInterrupted: false,
+      healthBuildFraction: 0,
+      pieces: [],
+    };
+    factory.factory.currentShellId = shell.id;
+    const tower = createCompletedBuilding(world, 'towerBeamLight', 1, 700);
+    tower.morph = { into: 'towerBeamMega', progressMs: getMorphConfig(tower)!.durationMs / 100 };
+    const morphPaid = getMorphPaid(tower);
+    giver.metal.stockpile.curr = 0;
+    giver.stockpile.curr = 0;
+    ally.metal.stockpile.curr = 0;
+    ally.stockpile.curr = 0;
+    transferEntityOwnership(world, factory, 2);
+    assertContract(
+      world.getEntity(shell.id) === undefined && factory.factory.currentShellId === null,
+      'a gifted factory drops its half-built shell instead of stranding it',
+    );
+    assertContract(
+      giver.metal.stockpile.curr === 60 && giver.stockpile.curr === 40 && ally.metal.stockpile.curr === 0,
+      'what the giver paid into the shell comes back to the giver',
+    );
+    transferEntityOwnership(world, tower, 2);
+    assertContract(tower.morph === null, 'a gifted morph is cancelled');
+    assertContract(
+      giver.metal.stockpile.curr === 60 + morphPaid.metal &&
+        giver.stockpile.curr === 40 + morphPaid.energy &&
+        ally.metal.stockpile.curr === 0,
+      'what the giver paid into the morph comes back to the giver',
+    );
+  } finally {
+    economyManager.reset();
+  }
+}
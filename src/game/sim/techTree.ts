@@ -0,0 +1,195 @@
+import type {
+  BuildingBlueprintId,
+  UnitBlueprintId,
+} from '../../types/blueprintIds';
+import type {
+  BlueprintPrerequisites,
+  StructureTechConfig,
+  TechUpgradeId,
+  UnitBlueprint,
+} from '../../types/blueprints';
+import { TECH_UPGRADE_IDS } from '../../types/blueprints';
+import type { Entity } from './types';
+import { BUILDING_BLUEPRINTS, type BuildingBlueprint } from './blueprints/buildings';
+import { UNIT_BLUEPRINTS } from './blueprints/units';
+import { isEntityActive } from './buildableHelpers';
+
+// Tech tree: what a side must hold before it may order a blueprint, and
+// what its tech structures grant once they stand. Both halves are authored
+// on the blueprints:
+//
+//   prerequisites  on a unit or building — completed structures the team
+//                  must own, and the tech level it must have reached
+//   tech           on a building — the level it raises its team to and
+//                  the upgrade channels (shield-aware targeting, shield
+//                  power, precision fire) it switches on
+//
+// A structure counts the same way everywhere: completed, alive and
+// switched ON, held by any seat on the team (WorldState.
+// teamHasCompletedBuilding). Every team starts at BASE_TECH_LEVEL, so a
+// blueprint with no prerequisites is always available. What a structure
+// unlocks is read back from the prerequisites that name it or its level.
+//
+// Prerequisites gate the ORDER — a build command, a factory queue — and
+// the factory's next shell; losing a lab never tears down what it already
+// let you start.
+
+export const BASE_TECH_LEVEL = 1;
+
+/** What a side holds, as far as prerequisites care. The server reads it
+ *  from WorldState; the client builds one from the buildings it sees. */
+export type TechHoldings = {
+  hasCompletedBuilding(buildingBlueprintId: BuildingBlueprintId): boolean;
+  techLevel: number;
+};
+
+export type MissingPrerequisites = {
+  buildings: readonly BuildingBlueprintId[];
+  /** The level still to reach, or null when the team already has it. */
+  techLevel: number | null;
+};
+
+export type TechUnlocks = {
+  units: readonly UnitBlueprintId[];
+  buildings: readonly BuildingBlueprintId[];
+  upgrades: readonly TechUpgradeId[];
+};
+
+export function getStructureTech(
+  buildingBlueprintId: BuildingBlueprintId | null | undefined,
+): StructureTechConfig | null {
+  if (buildingBlueprintId === null || buildingBlueprintId === undefined) return null;
+  return BUILDING_BLUEPRINTS[buildingBlueprintId]?.tech ?? null;
+}
+
+/** True for structures whose blueprint grants tech. They carry the ON/OFF
+ *  active state: a switched-off lab grants nothing. */
+export function buildingBlueprintGrantsTech(
+  buildingBlueprintId: BuildingBlueprintId | null | undefined,
+): boolean {
+  return getStructureTech(buildingBlueprintId) !== null;
+}
+
+export function getBuildingPrerequisites(
+  buildingBlueprintId: BuildingBlueprintId,
+): BlueprintPrerequisites | null {
+  return BUILDING_BLUEPRINTS[buildingBlueprintId]?.prerequisites ?? null;
+}
+
+export function getUnitPrerequisites(unitBlueprintId: string): BlueprintPrerequisites | null {
+  return UNIT_BLUEPRINTS[unitBlueprintId]?.prerequisites ?? null;
+}
+
+const TECH_UPGRADE_BUILDING_BLUEPRINT_IDS = new Map<TechUpgradeId, readonly BuildingBlueprintId[]>(
+  TECH_UPGRADE_IDS.map((upgrade) => [
+    upgrade,
+    Object.freeze(
+      (Object.keys(BUILDING_BLUEPRINTS) as BuildingBlueprintId[]).filter(
+        (id) => getStructureTech(id)?.upgrades.includes(upgrade) === true,
+      ),
+    ),
+  ]),
+);
+
+/** Every structure whose tech grants `upgrade`, in roster order. */
+export function getTechUpgradeBuildingBlueprintIds(
+  upgrade: TechUpgradeId,
+): readonly BuildingBlueprintId[] {
+  return TECH_UPGRADE_BUILDING_BLUEPRINT_IDS.get(upgrade)!;
+}
+
+/** Holdings read from a list of one side's buildings — the client's view
+ *  of its own team — counting the same completed, open structures
+ *  WorldState.teamHasCompletedBuilding does. */
+export function techHoldingsFromBuildings(buildings: readonly Entity[]): TechHoldings {
+  const completed = new Set<BuildingBlueprintId>();
+  let techLevel = BASE_TECH_LEVEL;
+  for (const building of buildings) {
+    const buildingBlueprintId = building.buildingBlueprintId;
+    if (buildingBlueprintId === null || !isEntityActive(building)) continue;
+    const activeState = building.building?.activeState ?? null;
+    if (activeState !== null && !activeState.open) continue;
+    completed.add(buildingBlueprintId);
+    techLevel = Math.max(techLevel, getStructureTech(buildingBlueprintId)?.level ?? 0);
+  }
+  return {
+    hasCompletedBuilding: (buildingBlueprintId) => completed.has(buildingBlueprintId),
+    techLevel,
+  };
+}
+
+/** What `prerequisites` still asks of `holdings`, or null when it is met. */
+export function getMissingPrerequisites(
+  prerequisites: BlueprintPrerequisites | null,
+  holdings: TechHoldings,
+): MissingPrerequisites | null {
+  if (prerequisites === null) return null;
+  const buildings = prerequisites.buildings.filter(
+    (buildingBlueprintId) => !holdings.hasCompletedBuilding(buildingBlueprintId),
+  );
+  const techLevel = holdings.techLevel >= prerequisites.techLevel ? null : prerequisites.techLevel;
+  return buildings.length === 0 && techLevel === null ? null : { buildings, techLevel };
+}
+
+/** Tooltip text for what is still missing, e.g. "Requires Precision
+ *  Targeting Lab and tech level 2". */
+export function describeMissingPrerequisites(missing: MissingPrerequisites): string {
+  const parts = missing.buildings.map((id) => BUILDING_BLUEPRINTS[id].name);
+  if (missing.techLevel !== null) parts.push(`tech level ${missing.techLevel}`);
+  return `Requires ${parts.join(' and ')}`;
+}
+
+function prerequisitesNeedStructure(
+  prerequisites: BlueprintPrerequisites | null | undefined,
+  buildingBlueprintId: BuildingBlueprintId,
+  tech: StructureTechConfig | null,
+): boolean {
+  if (prerequisites === null || prerequisites === undefined) return false;
+  if (prerequisites.buildings.includes(buildingBlueprintId)) return true;
+  return tech !== null &&
+    prerequisites.techLevel > BASE_TECH_LEVEL &&
+    prerequisites.techLevel <= tech.level;
+}
+
+/** What completing `buildingBlueprintId` opens up: blueprints that name it
+ *  or whose tech level it reaches, plus the upgrades it grants. */
+export function getTechUnlocks(buildingBlueprintId: BuildingBlueprintId): TechUnlocks {
+  const tech = getStructureTech(buildingBlueprintId);
+  const units = (Object.keys(UNIT_BLUEPRINTS) as UnitBlueprintId[]).filter((id) =>
+    prerequisitesNeedStructure(UNIT_BLUEPRINTS[id].prerequisites, buildingBlueprintId, tech));
+  const buildings = (Object.keys(BUILDING_BLUEPRINTS) as BuildingBlueprintId[]).filter((id) =>
+    prerequisitesNeedStructure(BUILDING_BLUEPRINTS[id].prerequisites, buildingBlueprintId, tech));
+  return { units, buildings, upgrades: tech?.upgrades ?? [] };
+}
+
+/** Every required level must be reachable and no structure may require
+ *  itself, or the blueprint could never be ordered. */
+export function validateTechTree(
+  unitBlueprints: Record<string, Pick<UnitBlueprint, 'prerequisites'>> = UNIT_BLUEPRINTS,
+  buildingBlueprints: Record<string, Pick<BuildingBlueprint, 'prerequisites' | 'tech'>> =
+    BUILDING_BLUEPRINTS,
+): void {
+  let maxTechLevel = BASE_TECH_LEVEL;
+  for (const blueprint of Object.values(buildingBlueprints)) {
+    maxTechLevel = Math.max(maxTechLevel, blueprint.tech?.level ?? 0);
+  }
+  const check = (label: string, prerequisites: BlueprintPrerequisites | null | undefined): void => {
+    if (prerequisites === null || prerequisites === undefined) return;
+    if (prerequisites.techLevel > maxTechLevel) {
+      throw new Error(
+        `Invalid ${label}: prerequisites.techLevel ${prerequisites.techLevel} is above every structure's tech level`,
+      );
+    }
+  };
+  for (const [id, blueprint] of Object.entries(unitBlueprints)) {
+    check(`unit blueprint ${id}`, blueprint.prerequisites);
+  }
+  for (const [id, blueprint] of Object.entries(buildingBlueprints)) {
+    check(`building blueprint ${id}`, blueprint.prerequisites);
+    if (blueprint.prerequisites?.buildings.includes(id as BuildingBlueprintId)) {
+      throw new Error(`Invalid building blueprint ${id}: prerequisites cannot name the building itself`);
+    }
+  }
+}
+
+validateTechTree();
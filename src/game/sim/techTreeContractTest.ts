@@ -0,0 +1,175 @@
+// The tech tree is only as good as the two places it is enforced: the
+// server's authorizer, which must drop an order for something the sender's
+// team has not unlocked, and the factory loop, which must stop short of
+// starting a unit whose prerequisites the team has lost — holding its
+// queue the way a full unit cap does, not clearing it — and pick back up
+// the moment they return. Labs count team-wide and only while switched on.
+
+import { authorizeGameServerGameplayCommand } from '../server/ServerCommandAuthorizer';
+import type {
+  QueueUnitCommand,
+  RemoveFactoryUnitProductionCommand,
+  StartBuildCommand,
+} from './commands';
+import { getBuildingConfig } from './buildConfigs';
+import { applyBuildingBlueprintRuntime } from './buildingEntityRuntime';
+import { ensureBuildingActiveState, setBuildingActiveOpen } from './buildingActiveState';
+import { createFactoryComponent } from './factoryComponent';
+import { factoryProductionSystem } from './factoryProduction';
+import { ForceAccumulator } from './ForceAccumulator';
+import { buildTeamRosterFromAssignment } from './teamRoster';
+import {
+  describeMissingPrerequisites,
+  getBuildingPrerequisites,
+  getMissingPrerequisites,
+  getTechUnlocks,
+} from './techTree';
+import { WorldState } from './WorldState';
+import type { BuildingBlueprintId, Entity, PlayerId } from './types';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[tech tree contract] ${message}`);
+}
+
+const PLAYER = 1 as PlayerId;
+const ALLY = 2 as PlayerId;
+
+function placeCompletedBuilding(
+  world: WorldState,
+  blueprintId: BuildingBlueprintId,
+  playerId: PlayerId,
+  x: number,
+  factory = false,
+): Entity {
+  const config = getBuildingConfig(blueprintId);
+  const entity = world.createBuilding(
+    x,
+    300,
+    config.gridWidth * 20,
+    config.gridHeight * 20,
+    config.gridDepth * 20,
+    playerId,
+  );
+  applyBuildingBlueprintRuntime(entity, blueprintId);
+  assertContract(entity.building !== null, `${blueprintId} must create a building host`);
+  entity.building.hp = config.hp;
+  entity.building.maxHp = config.hp;
+  entity.buildable = null;
+  if (factory) {
+    entity.factory = createFactoryComponent({ rallyX: x, rallyY: 500, rallyZ: null, rallyType: 'move' });
+  }
+  world.addEntity(entity);
+  return entity;
+}
+
+export function runTechTreeContractTest(): void {
+  // What the build menu says about a locked silo, and what the lab that
+  // lifts the lock is listed as opening up.
+  const siloPrerequisites = getBuildingPrerequisites('buildingMissileSilo');
+  const missing = getMissingPrerequisites(siloPrerequisites, {
+    hasCompletedBuilding: () => false,
+    techLevel: 1,
+  });
+  assertContract(
+    missing !== null &&
+      describeMissingPrerequisites(missing) === 'Requires Precision Targeting Lab and tech level 2',
+    'a locked silo names the lab and the level it is waiting for',
+  );
+  const unlocks = getTechUnlocks('buildingPrecisionTargetingTech');
+  assertContract(
+    unlocks.buildings.includes('buildingMissileSilo') && unlocks.units.includes('unitRex'),
+    'the precision lab lists the silo and the rex among its unlocks',
+  );
+
+  const world = new WorldState(2525, 1024, 1024);
+  world.setTeamRoster(buildTeamRosterFromAssignment(
+    [PLAYER, ALLY],
+    new Map<PlayerId, number>([[PLAYER, 1], [ALLY, 1]]),
+  ));
+  const drone = world.createUnitFromBlueprint(200, 200, PLAYER, 'unitConstructionDrone', {
+    allocateSubEntityIds: false,
+  });
+  world.addEntity(drone);
+  const fabricator = placeCompletedBuilding(world, 'towerFabricator', PLAYER, 300, true);
+  const player = { mode: 'player', playerId: PLAYER } as const;
+
+  const startSilo: StartBuildCommand = {
+    type: 'startBuild',
+    tick: 1,
+    builderId: drone.id,
+    buildingBlueprintId: 'buildingMissileSilo',
+    gridX: 30,
+    gridY: 30,
+    queue: false,
+  };
+  const queueRex: QueueUnitCommand = {
+    type: 'queueUnit',
+    tick: 1,
+    factoryId: fabricator.id,
+    unitBlueprintId: 'unitRex',
+    repeat: true,
+    count: 1,
+  };
+  const dequeueRex: RemoveFactoryUnitProductionCommand = {
+    type: 'removeFactoryUnitProduction',
+    tick: 1,
+    factoryId: fabricator.id,
+    unitBlueprintId: 'unitRex',
+  };
+
+  // 1. A bare team's orders for locked blueprints never reach the sim, but
+  //    a locked unit can always be taken back out of a queue.
+  assertContract(
+    authorizeGameServerGameplayCommand(world, startSilo, player) === null,
+    'a silo is refused before the team holds the precision lab',
+  );
+  assertContract(
+    authorizeGameServerGameplayCommand(world, queueRex, player) === null,
+    'a rex is refused before the team reaches tech level 2',
+  );
+  assertContract(
+    authorizeGameServerGameplayCommand(world, dequeueRex, player) === dequeueRex,
+    'a locked unit can still be dequeued',
+  );
+
+  // 2. An ally's open lab unlocks both orders; switching it off locks them
+  //    again on the same tick.
+  const lab = placeCompletedBuilding(world, 'buildingPrecisionTargetingTech', ALLY, 700);
+  ensureBuildingActiveState(lab);
+  assertContract(
+    authorizeGameServerGameplayCommand(world, startSilo, player) === startSilo &&
+      authorizeGameServerGameplayCommand(world, queueRex, player) === queueRex,
+    "an ally's lab unlocks the silo and the rex",
+  );
+  setBuildingActiveOpen(world, lab, false);
+  assertContract(
+    authorizeGameServerGameplayCommand(world, startSilo, player) === null &&
+      authorizeGameServerGameplayCommand(world, queueRex, player) === null,
+    'a switched-off lab unlocks nothing',
+  );
+
+  // 3. The fabricator starts a rex while the lab runs, holds with the rex
+  //    still selected once it is lost, and resumes when it comes back.
+  const forces = new ForceAccumulator();
+  const factory = fabricator.factory!;
+  setBuildingActiveOpen(world, lab, true);
+  assertContract(
+    factoryProductionSystem.selectUnit(fabricator, 'unitRex', world, true),
+    'the fabricator takes the rex',
+  );
+  factoryProductionSystem.update(world, 50, forces);
+  assertContract(factory.currentShellId !== null, 'a met prerequisite lets the rex start');
+
+  factoryProductionSystem.cancelActiveShell(world, fabricator);
+  setBuildingActiveOpen(world, lab, false);
+  for (let tick = 0; tick < 5; tick++) factoryProductionSystem.update(world, 50, forces);
+  assertContract(factory.currentShellId === null, 'a lost prerequisite holds the factory');
+  assertContract(
+    factory.selectedUnitBlueprintId === 'unitRex' && factory.repeatProduction,
+    'the held factory keeps its selection instead of clearing it as invalid',
+  );
+
+  setBuildingActiveOpen(world, lab, true);
+  factoryProductionSystem.update(world, 50, forces);
+  assertContract(factory.currentShellId !== null, 'the factory resumes once the lab is back');
+}
@@ -0,0 +1,90 @@
+/**
+ * Authored maps: a hand-made world in place of the generated one.
+ *
+ * The lobby carries the parsed file (see `AuthoredMap`) and the bootstrap
+ * installs it here before the terrain is built. From then on every consumer
+ * reads the file instead of the generator:
+ *   - the Rust height executor samples the heightmap as its naturalField
+ *     stage, and `packTerrainGenerationConfigForWasm` switches the radial
+ *     generator stages off, so the mesh, deposit pads and deposit heights
+ *     all come from the one authored surface;
+ *   - `generateMetalDeposits` places the file's deposit list rather than
+ *     the config rings;
+ *   - commanders spawn on the file's start positions;
+ *   - vegetation scales its stock counts by the file's density.
+ * Like the rest of the terrain state this is process-global, and the
+ * bootstrap sets it (to null for a generated world) on every boot.
+ */
+
+import type { AuthoredMap, AuthoredMetalDeposit } from '@/types/authoredMap';
+import { LAND_CELL_SIZE } from '../../../mapSizeConfig';
+import { getSimWasm, requireSimWasm } from '../../sim-wasm/init';
+import { WATER_LEVEL } from './terrainConfig';
+import { invalidateTerrainConfig } from './terrainState';
+
+/** Generator stages an authored map switches off: the file already is the
+ *  whole shape, so nothing radial may be laid over it. */
+export const AUTHORED_MAP_INACTIVE_TERRAIN_STEPS = [
+  'mapBoundary',
+  'plateauTerracing',
+  'dividerRidges',
+  'ringRidge',
+] as const;
+
+let installedAuthoredMap: AuthoredMap | null = null;
+
+export function getAuthoredMap(): AuthoredMap | null {
+  return installedAuthoredMap;
+}
+
+/** Install (or, with null, remove) the authored map. Any change drops the
+ *  built terrain, exactly like a terrain-bar change does. */
+export function setAuthoredMap(map: AuthoredMap | null): void {
+  if (map === installedAuthoredMap) return;
+  if (map === null) {
+    getSimWasm()?.terrainClearAuthoredHeightfield();
+  } else {
+    const sim = requireSimWasm('setAuthoredMap');
+    const { columns, rows, heights } = map.heightmap;
+    // The file's own sea level lands on the engine's water plane.
+    const offset = WATER_LEVEL - map.waterLevel;
+    const shifted = new Float64Array(heights.length);
+    for (let i = 0; i < heights.length; i++) shifted[i] = heights[i] + offset;
+    if (sim.terrainSetAuthoredHeightfield(columns, rows, shifted) === 0) {
+      throw new Error(`Authored map "${map.name}": the terrain kernel rejected its ${columns}x${rows} heightmap`);
+    }
+  }
+  installedAuthoredMap = map;
+  invalidateTerrainConfig();
+}
+
+/** World position of seat `seatIndex`'s start, or null when no authored map
+ *  is installed. A seat past the file's list is a lobby that let too many
+ *  players in, and fails loudly rather than stacking them. */
+export function getAuthoredStartPosition(seatIndex: number): { x: number; y: number } | null {
+  const map = installedAuthoredMap;
+  if (map === null) return null;
+  const start = map.startPositions[seatIndex];
+  if (start === undefined) {
+    throw new Error(
+      `Authored map "${map.name}" has ${map.startPositions.length} start positions; seat ${seatIndex + 1} has none`,
+    );
+  }
+  return { x: start.x * LAND_CELL_SIZE, y: start.y * LAND_CELL_SIZE };
+}
+
+/** Deposit list of the installed authored map in world units, or null. */
+export function getAuthoredMetalDeposits(): readonly AuthoredMetalDeposit[] | null {
+  const map = installedAuthoredMap;
+  if (map === null) return null;
+  return map.metalDeposits.map((deposit) => ({
+    ...deposit,
+    x: deposit.x * LAND_CELL_SIZE,
+    y: deposit.y * LAND_CELL_SIZE,
+  }));
+}
+
+/** Vegetation stock multiplier: the authored map's, else 1. */
+export function getAuthoredVegetationDensity(): number {
+  return installedAuthoredMap?.vegetationDensity ?? 1;
+}
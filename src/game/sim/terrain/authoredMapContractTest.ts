@@ -0,0 +1,77 @@
+/**
+ * A map file parses into exactly the canonical map — unknown extras dropped
+ * so they can never reach the match hash — and anything a peer could read
+ * differently is refused: an unknown version, an even size or one past the
+ * lobby's largest map, a heightmap that does not fill its grid, a start or
+ * deposit off the map, a deposit size the config does not define.
+ */
+
+import {
+  AUTHORED_MAP_MAX_LAND_CELLS,
+  parseAuthoredMap,
+  type AuthoredMap,
+} from '@/types/authoredMap';
+import { getAuthoredMap, getAuthoredStartPosition, setAuthoredMap } from './authoredMap';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[authored map contract] ${message}`);
+}
+
+const MAP: AuthoredMap = {
+  format: 'rts-map',
+  version: 1,
+  name: 'Contract island',
+  widthLandCells: 21,
+  lengthLandCells: 15,
+  heightmap: { columns: 3, rows: 2, heights: [0, 10, 20, 30, 40, 50] },
+  waterLevel: 5,
+  vegetationDensity: 0.5,
+  metalDeposits: [{ x: 10, y: 7 }, { x: 2, y: 2, size: 'vast' }],
+  startPositions: [{ x: 3, y: 3 }, { x: 18, y: 12 }],
+};
+
+function assertRejected(value: unknown, label: string): void {
+  let rejected = false;
+  try {
+    parseAuthoredMap(value, 'contract test');
+  } catch {
+    rejected = true;
+  }
+  assertContract(rejected, `${label} must be rejected`);
+}
+
+export function runAuthoredMapContractTest(): void {
+  const parsed = parseAuthoredMap({ ...MAP, name: '  Contract island  ', author: 'someone' });
+  assertContract(
+    JSON.stringify(parsed) === JSON.stringify(MAP),
+    'a valid file parses to the canonical map, trimmed and without unknown fields',
+  );
+
+  assertRejected({ ...MAP, version: 2 }, 'an unknown version');
+  assertRejected({ ...MAP, format: 'png' }, 'a foreign format');
+  assertRejected({ ...MAP, widthLandCells: 20 }, 'an even map width');
+  assertRejected(
+    { ...MAP, lengthLandCells: AUTHORED_MAP_MAX_LAND_CELLS + 2 },
+    'a map longer than the lobby allows',
+  );
+  assertRejected({ ...MAP, name: '' }, 'an unnamed map');
+  assertRejected(
+    { ...MAP, heightmap: { ...MAP.heightmap, heights: [0, 10, 20, 30, 40] } },
+    'a heightmap short of its grid',
+  );
+  assertRejected(
+    { ...MAP, heightmap: { ...MAP.heightmap, heights: [0, 10, 20, 30, 40, NaN] } },
+    'a non-finite height',
+  );
+  assertRejected({ ...MAP, heightmap: { columns: 1, rows: 6, heights: MAP.heightmap.heights } }, 'a one-sample axis');
+  assertRejected({ ...MAP, startPositions: [] }, 'a map with no start positions');
+  assertRejected({ ...MAP, startPositions: [{ x: 3, y: 16 }] }, 'a start off the map');
+  assertRejected({ ...MAP, metalDeposits: [{ x: -1, y: 2 }] }, 'a deposit off the map');
+  assertRejected({ ...MAP, metalDeposits: [{ x: 2, y: 2, size: 'huge' }] }, 'an unknown deposit size');
+  assertRejected({ ...MAP, vegetationDensity: 5 }, 'a vegetation density past the ceiling');
+
+  // Without a file installed every consumer falls back to the generator.
+  setAuthoredMap(null);
+  assertContract(getAuthoredMap() === null, 'clearing leaves no map installed');
+  assertContract(getAuthoredStartPosition(0) === null, 'a generated map has no authored starts');
+}
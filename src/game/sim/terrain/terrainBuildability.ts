@@ -12,7 +12,11 @@ import {
 } from './terrainConfig';
 import { findDepositFlatZoneAt, getMetalDepositFlatZones } from './terrainFlatZones';
 import { getTerrainMeshHeight, getTerrainMeshNormal } from './terrainTileMap';
-import { getAuthoritativeTerrainTileMap, getTerrainVersion } from './terrainState';
+import {
+  getAuthoritativeTerrainTileMap,
+  getTerrainDeformationsSince,
+  getTerrainVersion,
+} from './terrainState';
 
 const TERRAIN_FLAT_ZONE_WASM_STRIDE = 4;
 const TERRAIN_FLAT_ZONE_LEVEL_OFFSET = 1_000_000;
@@ -419,26 +423,7 @@ export function buildTerrainBuildabilityGrid(
   const levels = new Array<number>(cellsX * cellsY);
   for (let gy = 0; gy < cellsY; gy++) {
     for (let gx = 0; gx < cellsX; gx++) {
-      const x = gx * cellSize + cellSize / 2;
-      const y = gy * cellSize + cellSize / 2;
-      const evaluated = evaluateBuildabilityFootprint(
-        x,
-        y,
-        cellSize / 2,
-        cellSize / 2,
-        mapWidth,
-        mapHeight,
-        LAND_CELL_SIZE,
-      );
-      const index = gy * cellsX + gx;
-      const squareFlag = evaluated.squareType === 'ground'
-        ? GROUND_BUILD_SQUARE_FLAG
-        : evaluated.squareType === 'water'
-          ? WATER_BUILD_SQUARE_FLAG
-          : 0;
-      flags[index] = squareFlag |
-        (evaluated.terrainBuildable ? TERRAIN_BUILDABLE_FLAG : 0);
-      levels[index] = evaluated.level ?? 0;
+      bakeBuildabilityCell(flags, levels, gx, gy, cellsX, cellSize, mapWidth, mapHeight);
     }
   }
 
@@ -455,6 +440,110 @@ export function buildTerrainBuildabilityGrid(
   };
 }
 
+/** Bring a baked grid up to the current terrain. The grid is static for a
+ *  match except where craters have since sunk the ground, and only the
+ *  build squares over those rectangles are baked again. Returns the same
+ *  object when nothing changed, or when the map was replaced outright —
+ *  whoever replaced it bakes a fresh grid. */
+export function refreshTerrainBuildabilityGrid(
+  grid: TerrainBuildabilityGrid,
+): TerrainBuildabilityGrid {
+  const version = getTerrainVersion();
+  if (grid.version === version) return grid;
+  const deformations = getTerrainDeformationsSince(grid.version);
+  if (deformations === null) return grid;
+
+  const { mapWidth, mapHeight, cellSize, cellsX, cellsY } = grid;
+  const flags = grid.flags.slice();
+  const levels = grid.levels.slice();
+  for (const deformation of deformations) {
+    // One square of margin: a footprint's shelf check reads the ground
+    // just past its own edge.
+    const minGx = Math.max(0, Math.floor(deformation.minX / cellSize) - 1);
+    const minGy = Math.max(0, Math.floor(deformation.minY / cellSize) - 1);
+    const maxGx = Math.min(cellsX, Math.floor(deformation.maxX / cellSize) + 2);
+    const maxGy = Math.min(cellsY, Math.floor(deformation.maxY / cellSize) + 2);
+    if (rebakeBuildabilityRegionInWasm(grid, flags, levels, minGx, minGy, maxGx, maxGy)) continue;
+    for (let gy = minGy; gy < maxGy; gy++) {
+      for (let gx = minGx; gx < maxGx; gx++) {
+        bakeBuildabilityCell(flags, levels, gx, gy, cellsX, cellSize, mapWidth, mapHeight);
+      }
+    }
+  }
+
+  return { ...grid, version, flags, levels };
+}
+
+function bakeBuildabilityCell(
+  flags: number[],
+  levels: number[],
+  gx: number,
+  gy: number,
+  cellsX: number,
+  cellSize: number,
+  mapWidth: number,
+  mapHeight: number,
+): void {
+  const evaluated = evaluateBuildabilityFootprint(
+    gx * cellSize + cellSize / 2,
+    gy * cellSize + cellSize / 2,
+    cellSize / 2,
+    cellSize / 2,
+    mapWidth,
+    mapHeight,
+    LAND_CELL_SIZE,
+  );
+  const index = gy * cellsX + gx;
+  const squareFlag = evaluated.squareType === 'ground'
+    ? GROUND_BUILD_SQUARE_FLAG
+    : evaluated.squareType === 'water'
+      ? WATER_BUILD_SQUARE_FLAG
+      : 0;
+  flags[index] = squareFlag |
+    (evaluated.terrainBuildable ? TERRAIN_BUILDABLE_FLAG : 0);
+  levels[index] = evaluated.level ?? 0;
+}
+
+/** Re-bake one half-open square region of `flags` / `levels` in WASM.
+ *  Returns false (having changed nothing) when the kernel can't. */
+function rebakeBuildabilityRegionInWasm(
+  grid: TerrainBuildabilityGrid,
+  flags: number[],
+  levels: number[],
+  minGx: number,
+  minGy: number,
+  maxGx: number,
+  maxGy: number,
+): boolean {
+  const sim = getSimWasm();
+  if (sim === undefined || sim.terrainIsInstalled() === 0) return false;
+  const flagsOut = Uint8Array.from(flags);
+  const levelsOut = Int32Array.from(levels);
+  const ok = sim.terrainRebakeBuildabilityRegion(
+    grid.mapWidth,
+    grid.mapHeight,
+    grid.cellSize,
+    TERRAIN_D_TERRAIN,
+    TERRAIN_PLATEAU_CONFIG.buildableShelfHeightTolerance,
+    minBuildableSurfaceNormalUp(),
+    packTerrainFlatZoneRowsForWasm(),
+    minGx,
+    minGy,
+    maxGx,
+    maxGy,
+    flagsOut,
+    levelsOut,
+  );
+  if (ok === 0) return false;
+  for (let gy = minGy; gy < maxGy; gy++) {
+    for (let i = gy * grid.cellsX + minGx; i < gy * grid.cellsX + maxGx; i++) {
+      flags[i] = flagsOut[i];
+      levels[i] = levelsOut[i];
+    }
+  }
+  return true;
+}
+
 function buildTerrainBuildabilityGridFromWasm(
   mapWidth: number,
   mapHeight: number,
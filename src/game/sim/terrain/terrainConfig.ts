@@ -130,6 +130,19 @@ export const TERRAIN_MESH_HEIGHT_SMOOTHING: {
  *  grounding, and pathing — is untouched. */
 export const WATER_FULLY_OPAQUE = terrainConfig.water.fullyOpaque;
 
+/** Craters (terrainCraters.ts). A blast at least `minBlastRadius` wide that
+ *  reaches the ground sinks the mesh within `radiusFraction` of its radius,
+ *  by `depthPerDamage` per point of damage up to `maxDepth` at the centre.
+ *  No vertex is pushed closer than `floorClearance` to TILE_FLOOR_Y, so
+ *  repeated shelling cannot punch through the bottom of the world. */
+export const TERRAIN_CRATER_CONFIG = {
+  minBlastRadius: terrainConfig.craters.minBlastRadius,
+  radiusFraction: terrainConfig.craters.radiusFraction,
+  depthPerDamage: terrainConfig.craters.depthPerDamage,
+  maxDepth: terrainConfig.craters.maxDepth,
+  floorClearance: terrainConfig.craters.floorClearance,
+} as const;
+
 export type TerrainRuntimeConfig = {
   /** Signed altitude of the central cosine dome/dish (CENTER bar): the
    *  height at the exact map centre, blending back to baseline 0 at the
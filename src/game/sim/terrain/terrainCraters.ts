@@ -0,0 +1,123 @@
+/**
+ * Craters: big blasts that reach the ground sink the terrain mesh.
+ *
+ * A crater only moves existing mesh vertices down — topology, plateau
+ * levels and the cell triangle index stay as baked — so the change is one
+ * `deformTerrainVertices` call and every terrain cache can refresh just the
+ * rectangle it touched. Where the adaptive mesh is coarser than the crater
+ * only the vertices that fall inside it move. The profile is a polynomial
+ * in squared distance (no trig, no square roots), and vertices are written
+ * in index order, so every lockstep peer carves the identical crater on the
+ * same tick.
+ */
+
+import { TERRAIN_CRATER_CONFIG, TILE_FLOOR_Y } from './terrainConfig';
+import {
+  deformTerrainVertices,
+  getAuthoritativeTerrainTileMap,
+  getTerrainHeightEdits,
+  type TerrainDeformation,
+} from './terrainState';
+import { getTerrainBedHeight } from './terrainSurface';
+
+/** One moved vertex in a save: its index in the generated mesh and the
+ *  height craters left it at. */
+export type TerrainHeightEditSaveState = {
+  vertex: number;
+  height: number;
+};
+
+/** Sink the terrain under a blast centred at (x, y) with altitude z.
+ *  Blasts narrower than the configured minimum, or whose sphere does not
+ *  reach the ground, leave it alone. Returns the deformation, or null. */
+export function carveImpactCrater(
+  x: number,
+  y: number,
+  z: number,
+  blastRadius: number,
+  damage: number,
+): TerrainDeformation | null {
+  const config = TERRAIN_CRATER_CONFIG;
+  if (!(blastRadius >= config.minBlastRadius) || !(damage > 0)) return null;
+  const map = getAuthoritativeTerrainTileMap();
+  if (map === null) return null;
+  if (z - getTerrainBedHeight(x, y, map.mapWidth, map.mapHeight) > blastRadius) return null;
+
+  const radius = blastRadius * config.radiusFraction;
+  const depth = Math.min(config.maxDepth, damage * config.depthPerDamage);
+  const floor = TILE_FLOOR_Y + config.floorClearance;
+  const radiusSq = radius * radius;
+
+  const vertices = collectVerticesNear(x, y, radius);
+  const vertexIndices: number[] = [];
+  const heights: number[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const vertex = vertices[i];
+    const dx = map.meshVertexCoords[vertex * 2] - x;
+    const dy = map.meshVertexCoords[vertex * 2 + 1] - y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq >= radiusSq) continue;
+    // Full depth at the centre easing to nothing at the rim: a rounded
+    // bowl rather than a cone.
+    const rim = 1 - distSq / radiusSq;
+    const current = map.meshVertexHeights[vertex];
+    const next = Math.max(floor, current - depth * rim * rim);
+    if (next >= current) continue;
+    vertexIndices.push(vertex);
+    heights.push(next);
+  }
+  return deformTerrainVertices(vertexIndices, heights);
+}
+
+/** Every moved vertex, by index — for saves and the state hash. */
+export function exportTerrainHeightEdits(): TerrainHeightEditSaveState[] {
+  const edits: TerrainHeightEditSaveState[] = [];
+  for (const [vertex, height] of getTerrainHeightEdits()) edits.push({ vertex, height });
+  edits.sort((a, b) => a.vertex - b.vertex);
+  return edits;
+}
+
+/** Put saved crater heights back over a freshly generated map. */
+export function restoreTerrainHeightEdits(edits: readonly TerrainHeightEditSaveState[]): void {
+  if (edits.length === 0) return;
+  const map = getAuthoritativeTerrainTileMap();
+  if (map === null) {
+    throw new Error('restoreTerrainHeightEdits: no terrain map is installed');
+  }
+  const vertexIndices: number[] = [];
+  const heights: number[] = [];
+  for (const edit of edits) {
+    if (!Number.isInteger(edit.vertex) || edit.vertex < 0 || edit.vertex >= map.meshVertexHeights.length) {
+      throw new Error(`Terrain restore referenced vertex ${edit.vertex}, which is not in the generated mesh`);
+    }
+    vertexIndices.push(edit.vertex);
+    heights.push(edit.height);
+  }
+  deformTerrainVertices(vertexIndices, heights);
+}
+
+/** Mesh vertices of every triangle indexed under a land cell the circle
+ *  overlaps, ascending and without repeats. */
+function collectVerticesNear(x: number, y: number, radius: number): number[] {
+  const map = getAuthoritativeTerrainTileMap();
+  if (map === null || map.cellsX <= 0 || map.cellsY <= 0) return [];
+  const minCx = Math.max(0, Math.floor((x - radius) / map.cellSize));
+  const minCy = Math.max(0, Math.floor((y - radius) / map.cellSize));
+  const maxCx = Math.min(map.cellsX - 1, Math.floor((x + radius) / map.cellSize));
+  const maxCy = Math.min(map.cellsY - 1, Math.floor((y + radius) / map.cellSize));
+  const seen = new Set<number>();
+  for (let cy = minCy; cy <= maxCy; cy++) {
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      const cell = cy * map.cellsX + cx;
+      const start = map.meshCellTriangleOffsets[cell] ?? 0;
+      const end = map.meshCellTriangleOffsets[cell + 1] ?? start;
+      for (let ref = start; ref < end; ref++) {
+        const tri = map.meshCellTriangleIndices[ref] * 3;
+        seen.add(map.meshTriangleIndices[tri]);
+        seen.add(map.meshTriangleIndices[tri + 1]);
+        seen.add(map.meshTriangleIndices[tri + 2]);
+      }
+    }
+  }
+  return [...seen].sort((a, b) => a - b);
+}
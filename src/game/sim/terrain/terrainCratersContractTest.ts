@@ -0,0 +1,136 @@
+/**
+ * Craters sink only the vertices under a big, grounded blast, each one as
+ * a single logged version step that caches can replay. A map resent with
+ * someone else's craters catches up the same way, a replacement map forgets
+ * them, and a save puts them back exactly.
+ */
+
+import type { TerrainTileMap } from '@/types/terrain';
+import { CANONICAL_LAND_CELL_SIZE } from '../../landGrid';
+import { TERRAIN_FINE_TRIANGLE_SUBDIV } from './terrainConfig';
+import {
+  carveImpactCrater,
+  exportTerrainHeightEdits,
+  restoreTerrainHeightEdits,
+} from './terrainCraters';
+import {
+  getAuthoritativeTerrainTileMap,
+  getTerrainDeformationsSince,
+  getTerrainVersion,
+  resetTerrainStateForDeterministicReplay,
+  setAuthoritativeTerrainTileMap,
+} from './terrainState';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[terrain craters contract] ${message}`);
+}
+
+const GROUND = 100;
+const CENTER_VERTEX = 4;
+
+/** A flat 2x2-cell map: a 3x3 vertex lattice, two triangles per cell. */
+function buildFlatMap(heights: readonly number[] = new Array<number>(9).fill(GROUND)): TerrainTileMap {
+  const size = CANONICAL_LAND_CELL_SIZE;
+  const coords: number[] = [];
+  for (let vy = 0; vy < 3; vy++) {
+    for (let vx = 0; vx < 3; vx++) coords.push(vx * size, vy * size);
+  }
+  const triangles: number[] = [];
+  const cellOffsets = [0];
+  const cellTriangles: number[] = [];
+  for (let cy = 0; cy < 2; cy++) {
+    for (let cx = 0; cx < 2; cx++) {
+      const a = cy * 3 + cx;
+      cellTriangles.push(triangles.length / 3, triangles.length / 3 + 1);
+      triangles.push(a, a + 1, a + 4, a, a + 4, a + 3);
+      cellOffsets.push(cellTriangles.length);
+    }
+  }
+  return {
+    mapWidth: size * 2,
+    mapHeight: size * 2,
+    cellSize: size,
+    subdiv: TERRAIN_FINE_TRIANGLE_SUBDIV,
+    cellsX: 2,
+    cellsY: 2,
+    verticesX: 3,
+    verticesY: 3,
+    version: getTerrainVersion(),
+    meshVertexCoords: coords,
+    meshVertexHeights: [...heights],
+    meshTriangleIndices: triangles,
+    meshTriangleLevels: new Array<number>(8).fill(0),
+    meshTriangleWallFlags: new Array<number>(8).fill(0),
+    meshTriangleNeighborIndices: new Array<number>(24).fill(-1),
+    meshTriangleNeighborLevels: new Array<number>(24).fill(0),
+    meshCellTriangleOffsets: cellOffsets,
+    meshCellTriangleIndices: cellTriangles,
+  };
+}
+
+export function runTerrainCratersContractTest(): void {
+  resetTerrainStateForDeterministicReplay();
+  try {
+    const map = buildFlatMap();
+    setAuthoritativeTerrainTileMap(map);
+    const size = CANONICAL_LAND_CELL_SIZE;
+    const before = getTerrainVersion();
+
+    assertContract(carveImpactCrater(size, size, GROUND, 10, 400) === null, 'a narrow blast leaves the ground alone');
+    assertContract(
+      carveImpactCrater(size, size, GROUND + 1000, 300, 400) === null,
+      'a blast that never reaches the ground leaves it alone',
+    );
+    assertContract(getTerrainVersion() === before, 'nothing carved, nothing versioned');
+
+    const crater = carveImpactCrater(size, size, GROUND, 300, 400);
+    assertContract(crater !== null, 'a big grounded blast carves a crater');
+    assertContract(
+      crater.fromVersion === before && crater.toVersion === before + 1 && getTerrainVersion() === before + 1,
+      'a crater is exactly one version step',
+    );
+    const heights = map.meshVertexHeights;
+    const carvedCenter = heights[CENTER_VERTEX];
+    assertContract(carvedCenter < GROUND, 'the centre sinks');
+    assertContract(heights[0] === GROUND && heights[8] === GROUND, 'vertices outside the crater stay put');
+    assertContract(
+      crater.minX === 0 && crater.maxX === size * 2,
+      'the logged rectangle covers every triangle whose surface moved',
+    );
+    assertContract(getTerrainDeformationsSince(before)?.length === 1, 'a cache one step behind replays one crater');
+    assertContract(getTerrainDeformationsSince(before + 1)?.length === 0, 'a current cache has nothing to replay');
+    assertContract(getTerrainDeformationsSince(before - 1) === null, 'a cache from before the map rebuilds');
+
+    const edits = exportTerrainHeightEdits();
+    assertContract(
+      edits.length === 5 && edits.every((edit, i) => i === 0 || edits[i - 1].vertex < edit.vertex),
+      'the save lists each moved vertex once, in index order',
+    );
+
+    // A resend of the same map carrying the sender's deeper crater.
+    const resentHeights = [...heights];
+    resentHeights[CENTER_VERTEX] = GROUND - 50;
+    const versionBeforeResend = getTerrainVersion();
+    setAuthoritativeTerrainTileMap({ ...buildFlatMap(resentHeights), version: map.version });
+    assertContract(
+      getAuthoritativeTerrainTileMap()?.meshVertexHeights[CENTER_VERTEX] === GROUND - 50 &&
+        getTerrainDeformationsSince(versionBeforeResend)?.length === 1,
+      'a resent map with new craters catches up as one deformation',
+    );
+
+    setAuthoritativeTerrainTileMap(buildFlatMap());
+    assertContract(
+      getTerrainDeformationsSince(before) === null && exportTerrainHeightEdits().length === 0,
+      'a replacement map forgets the old craters',
+    );
+
+    restoreTerrainHeightEdits(edits);
+    assertContract(
+      getAuthoritativeTerrainTileMap()?.meshVertexHeights[CENTER_VERTEX] === carvedCenter &&
+        exportTerrainHeightEdits().length === edits.length,
+      'restoring a save puts every crater back',
+    );
+  } finally {
+    resetTerrainStateForDeterministicReplay();
+  }
+}
@@ -10,6 +10,7 @@ import {
   TILE_FLOOR_Y,
 } from './terrainConfig';
 import type { TerrainFlatZone } from './terrainFlatZones';
+import { AUTHORED_MAP_INACTIVE_TERRAIN_STEPS, getAuthoredMap } from './authoredMap';
 import {
   getTerrainRuntimeConfig,
   getTerrainTeamCount,
@@ -71,9 +72,14 @@ export function packTerrainGenerationConfigForWasm(): Float64Array {
       pipeline[boundaryIndex] = divider;
     }
   }
+  // An authored map is its own whole shape: its heightmap stands in for
+  // naturalField on the Rust side, and nothing radial is laid over it.
+  const authored = getAuthoredMap() !== null;
   for (let i = 0; i < pipeline.length; i++) {
     const entry = pipeline[i];
-    rows[19 + i] = TERRAIN_PIPELINE_STEP_CODES[entry.step] + (entry.active ? 0 : 8);
+    const active = entry.active &&
+      !(authored && (AUTHORED_MAP_INACTIVE_TERRAIN_STEPS as readonly string[]).includes(entry.step));
+    rows[19 + i] = TERRAIN_PIPELINE_STEP_CODES[entry.step] + (active ? 0 : 8);
   }
   return rows;
 }
@@ -28,10 +28,135 @@ let teamCount = 0;
 let terrainVersion = 1;
 let authoritativeTerrainTileMap: TerrainTileMap | null = null;
 
+/** One in-place change to the installed mesh (a crater): the version step it
+ *  took and the world rectangle of every triangle whose surface moved. */
+export type TerrainDeformation = {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+  readonly minX: number;
+  readonly minY: number;
+  readonly maxX: number;
+  readonly maxY: number;
+};
+
+/** How many deformations a cache can fall behind and still catch up
+ *  region by region; past that it rebuilds, exactly as after a new map. */
+const TERRAIN_DEFORMATION_LOG_LIMIT = 256;
+
+// Every version step since the current map was installed that was a
+// deformation, oldest first and contiguous. Any other version bump clears it.
+let terrainDeformations: TerrainDeformation[] = [];
+// The heights deformations have written over the generated map, by vertex
+// index: what a save carries and the state hash covers.
+const terrainHeightEdits = new Map<number, number>();
+
 export function getTerrainVersion(): number {
   return terrainVersion;
 }
 
+/** The deformations that take a cache built at `version` to the current
+ *  terrain, or null when something other than deformations happened since
+ *  (or the log no longer reaches back that far) and it must rebuild. */
+export function getTerrainDeformationsSince(version: number): readonly TerrainDeformation[] | null {
+  if (version === terrainVersion) return [];
+  const log = terrainDeformations;
+  if (log.length === 0 || log[log.length - 1].toVersion !== terrainVersion) return null;
+  const first = version - log[0].fromVersion;
+  if (first < 0 || first >= log.length || log[first].fromVersion !== version) return null;
+  return log.slice(first);
+}
+
+/** Vertex heights deformations have changed, by vertex index. */
+export function getTerrainHeightEdits(): ReadonlyMap<number, number> {
+  return terrainHeightEdits;
+}
+
+/** Move installed mesh vertices to new heights in place — JS map and WASM
+ *  mesh together — and record the change as one version step. Topology,
+ *  plateau levels and the cell triangle lists are unchanged. Returns null
+ *  (and changes nothing) when no map is installed or nothing was given. */
+export function deformTerrainVertices(
+  vertexIndices: readonly number[],
+  heights: readonly number[],
+): TerrainDeformation | null {
+  const map = authoritativeTerrainTileMap;
+  if (map === null || vertexIndices.length === 0) return null;
+  const sim = getSimWasm();
+  if (
+    sim !== undefined &&
+    sim.terrainIsInstalled() !== 0 &&
+    sim.terrainSetVertexHeights(Uint32Array.from(vertexIndices), Float64Array.from(heights)) === 0
+  ) {
+    throw new Error('deformTerrainVertices: the installed WASM mesh rejected the vertex update');
+  }
+  // The map is handed out read-only; this module installed it and is the
+  // one place allowed to move its heights.
+  const mapHeights = map.meshVertexHeights as number[];
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < vertexIndices.length; i++) {
+    const vertex = vertexIndices[i];
+    mapHeights[vertex] = heights[i];
+    terrainHeightEdits.set(vertex, heights[i]);
+    const x = map.meshVertexCoords[vertex * 2];
+    const y = map.meshVertexCoords[vertex * 2 + 1];
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  // The surface that changed is every triangle touching a moved vertex,
+  // which can reach well past the vertices on a coarse stretch of mesh.
+  // Each such triangle is indexed under the cell its moved vertex sits in.
+  const moved = new Set(vertexIndices);
+  const minCx = Math.max(0, Math.floor(minX / map.cellSize));
+  const minCy = Math.max(0, Math.floor(minY / map.cellSize));
+  const maxCx = Math.min(map.cellsX - 1, Math.floor(maxX / map.cellSize));
+  const maxCy = Math.min(map.cellsY - 1, Math.floor(maxY / map.cellSize));
+  for (let cy = minCy; cy <= maxCy; cy++) {
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      const cell = cy * map.cellsX + cx;
+      const end = map.meshCellTriangleOffsets[cell + 1] ?? 0;
+      for (let ref = map.meshCellTriangleOffsets[cell] ?? end; ref < end; ref++) {
+        const tri = map.meshCellTriangleIndices[ref] * 3;
+        const a = map.meshTriangleIndices[tri];
+        const b = map.meshTriangleIndices[tri + 1];
+        const c = map.meshTriangleIndices[tri + 2];
+        if (!moved.has(a) && !moved.has(b) && !moved.has(c)) continue;
+        for (const vertex of [a, b, c]) {
+          const x = map.meshVertexCoords[vertex * 2];
+          const y = map.meshVertexCoords[vertex * 2 + 1];
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+  }
+  const deformation: TerrainDeformation = {
+    fromVersion: terrainVersion,
+    toVersion: terrainVersion + 1,
+    minX,
+    minY,
+    maxX,
+    maxY,
+  };
+  terrainVersion++;
+  terrainDeformations.push(deformation);
+  if (terrainDeformations.length > TERRAIN_DEFORMATION_LOG_LIMIT) {
+    terrainDeformations = terrainDeformations.slice(-TERRAIN_DEFORMATION_LOG_LIMIT);
+  }
+  return deformation;
+}
+
+function forgetTerrainDeformations(): void {
+  terrainDeformations = [];
+  terrainHeightEdits.clear();
+}
+
 export function resetTerrainStateForDeterministicReplay(): void {
   centerDomeAmplitude = TERRAIN_CENTER_MAGNITUDE;
   ringCrestAmplitude = TERRAIN_RING_MAGNITUDE;
@@ -41,6 +166,7 @@ export function resetTerrainStateForDeterministicReplay(): void {
   teamCount = 0;
   terrainVersion = 1;
   authoritativeTerrainTileMap = null;
+  forgetTerrainDeformations();
   const sim = getSimWasm();
   if (sim !== undefined) {
     sim.terrainClear();
@@ -52,6 +178,7 @@ export function resetTerrainStateForDeterministicReplay(): void {
 export function invalidateTerrainConfig(): void {
   authoritativeTerrainTileMap = null;
   terrainVersion++;
+  forgetTerrainDeformations();
   // Drop the WASM-side mesh too so a stale install doesn't outlive
   // the JS state. Vegetation was laid out by sampling that mesh, so it
   // goes with it — `ensureVegetationGenerated` notices the emptied store
@@ -232,12 +359,14 @@ export function setAuthoritativeTerrainTileMap(map: TerrainTileMap | null): void
     authoritativeTerrainTileMap.verticesX === map.verticesX &&
     authoritativeTerrainTileMap.verticesY === map.verticesY
   ) {
+    if (map !== authoritativeTerrainTileMap) syncDeliveredTerrainHeights(map);
     authoritativeTerrainTileMap = map;
     return;
   }
   if (!map && !authoritativeTerrainTileMap) return;
   authoritativeTerrainTileMap = map;
   terrainVersion++;
+  forgetTerrainDeformations();
   // Mirror the new mesh into WASM linear memory (or clear the
   // WASM-side mesh on a null assignment).
   const sim = getSimWasm();
@@ -251,6 +380,22 @@ export function setAuthoritativeTerrainTileMap(map: TerrainTileMap | null): void
   }
 }
 
+/** A re-delivered copy of the installed map (a static snapshot resend)
+ *  carries the sender's heights, craters included. Take any that differ as
+ *  one deformation, so every terrain cache catches up region by region. */
+function syncDeliveredTerrainHeights(map: TerrainTileMap): void {
+  const installed = authoritativeTerrainTileMap;
+  if (installed === null || installed.meshVertexHeights.length !== map.meshVertexHeights.length) return;
+  const vertexIndices: number[] = [];
+  const heights: number[] = [];
+  for (let i = 0; i < map.meshVertexHeights.length; i++) {
+    if (map.meshVertexHeights[i] === installed.meshVertexHeights[i]) continue;
+    vertexIndices.push(i);
+    heights.push(map.meshVertexHeights[i]);
+  }
+  deformTerrainVertices(vertexIndices, heights);
+}
+
 export function getInstalledTerrainTileMap(
   mapWidth: number,
   mapHeight: number,
@@ -295,7 +295,7 @@ export function getTerrainMeshView(
 
 /** Exact maximum height of the installed piecewise-planar terrain mesh.
  * Linear interpolation inside a triangle cannot exceed its highest vertex,
- * so scanning the immutable vertex array finds the map's true highest point. */
+ * so scanning the vertex array finds the map's true highest point. */
 export function getTerrainMeshMaximumHeight(
   mapWidth: number,
   mapHeight: number,
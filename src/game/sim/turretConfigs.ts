@@ -26,8 +26,9 @@ function makeHysteresisRange(acquire: number, release: number): { acquire: numbe
 //
 // The blueprint authors all of these as multipliers of the turret's
 // engagement range so doubling that range doubles every shell at once.
-export function computeTurretRanges(config: TurretConfig): TurretRanges {
-  const baseRange = config.targeting.engagement.range;
+// `rangeMultiplier` scales that engagement range (veterancy).
+export function computeTurretRanges(config: TurretConfig, rangeMultiplier = 1): TurretRanges {
+  const baseRange = config.targeting.engagement.range * rangeMultiplier;
   const m = config.targeting.engagement.rangeOverrides;
   const fireMax = makeHysteresisRange(
     baseRange * m.engageRangeMax.acquire,
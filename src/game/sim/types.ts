@@ -72,11 +72,19 @@ export type {
   ConstructionPieceKind,
   ConstructionPieceBuildRecord,
   ResourceCost,
+  AutoShareThreshold,
   Buildable,
   Builder,
   BuilderWorkStationRuntime,
   
   Transport,
+  Morph,
+  MorphConfig,
+  Stockpile,
+  StockpileConfig,
+  StrategicMissile,
+  StatusEffects,
+  Veterancy,
   EntityHold,
   EntityHoldKind,
   BuildingConfig,
@@ -36,6 +36,7 @@ import {
   type VegetationAssetSpec,
 } from '@/vegetationAssets';
 import { getSimWasm, requireSimWasm } from '../sim-wasm/init';
+import { getAuthoredVegetationDensity } from './terrain/authoredMap';
 import type { EntityId } from './types';
 
 /** BAR's `featureID + Game.maxUnits` convention. Entity ids are
@@ -66,6 +67,16 @@ export type VegetationProp = {
   energyTotal: number;
 };
 
+/** One prop's reclaim state as a save file carries it. Only props that
+ *  have been worked are saved; the rest regenerate untouched from the map. */
+export type VegetationPropSaveState = {
+  index: number;
+  alive: boolean;
+  hp: number;
+  energyLeft: number;
+  metalLeft: number;
+};
+
 type VegetationReclaimTick = {
   energy: number;
   metal: number;
@@ -118,7 +129,8 @@ function vegetationGenerationKey(
   // The WORLD materials decide which kinds are placed at all, so they are part
   // of the layout's identity — otherwise a mode flip would silently keep the
   // previous world's forest instead of tripping the mismatch error below.
-  return `${mapWidth}x${mapHeight}:${playerCount}:${getMetalCoverage()}:${getLiquidSurfaceMode()}`;
+  // An authored map's density scales every budget, so it is one too.
+  return `${mapWidth}x${mapHeight}:${playerCount}:${getMetalCoverage()}:${getLiquidSurfaceMode()}:${getAuthoredVegetationDensity()}`;
 }
 
 /**
@@ -358,6 +370,43 @@ export function readVegetationRemoved(from: number, out: Uint32Array): number {
   return sim.vegetationReadRemoved(from, out);
 }
 
+/** Every prop that has lost work since generation, ascending by index. */
+export function exportVegetationPropStates(): VegetationPropSaveState[] {
+  const sim = getSimWasm();
+  if (sim === undefined) return [];
+  const states: VegetationPropSaveState[] = [];
+  const count = sim.vegetationCount();
+  for (let index = 0; index < count; index++) {
+    if (sim.vegetationPropState(index, _propStateOut) === 0) continue;
+    const alive = _propStateOut[0] !== 0;
+    if (alive && _propStateOut[1] === _propStateOut[2]) continue;
+    states.push({
+      index,
+      alive,
+      hp: _propStateOut[1],
+      energyLeft: _propStateOut[3],
+      metalLeft: _propStateOut[4],
+    });
+  }
+  return states;
+}
+
+/** Write saved prop states back over a freshly generated forest. */
+export function restoreVegetationPropStates(states: readonly VegetationPropSaveState[]): void {
+  const sim = requireSimWasm('restoreVegetationPropStates');
+  for (const state of states) {
+    if (sim.vegetationRestorePropState(
+      state.index,
+      state.alive ? 1 : 0,
+      state.hp,
+      state.energyLeft,
+      state.metalLeft,
+    ) === 0) {
+      throw new Error(`Vegetation restore referenced prop ${state.index}, which is not in the generated forest`);
+    }
+  }
+}
+
 /** Hash of live vegetation state for the canonical state hash. Props are
  *  a contested resource, so a peer whose forest diverged has desynced. */
 export function getVegetationStateHash(): number {
@@ -372,6 +421,7 @@ function packVegetationConfigRows(): {
   const assetSpecs = new Map<VegetationKindId, readonly VegetationAssetSpec[]>();
   const flatAssets: VegetationAssetSpec[] = [];
   const kindRows = new Float64Array(VEGETATION_KIND_IDS.length * VEGETATION_KIND_ROW_STRIDE);
+  const density = getAuthoredVegetationDensity();
 
   for (let kindIndex = 0; kindIndex < VEGETATION_KIND_IDS.length; kindIndex++) {
     const kind = VEGETATION_KIND_IDS[kindIndex];
@@ -385,7 +435,7 @@ function packVegetationConfigRows(): {
     // A barren world gets a zero budget for every kind rather than a
     // post-filter: the props would otherwise still be reclaimable energy
     // sitting inside metal or lava.
-    kindRows[base] = vegetationSupported() ? config.targetCount : 0;
+    kindRows[base] = vegetationSupported() ? Math.round(config.targetCount * density) : 0;
     kindRows[base + 1] = VEGETATION_MEDIUM_CODE[config.medium];
     kindRows[base + 2] = config.waterBuffer;
     kindRows[base + 3] = config.waterlineRangeFraction;
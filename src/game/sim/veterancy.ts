@@ -0,0 +1,175 @@
+import type { Entity, EntityId, Veterancy } from './types';
+import type { VeterancyConfig } from '../../types/config';
+import type { WorldState } from './WorldState';
+import { VETERANCY } from '../../config';
+import {
+  assertExactObjectKeys,
+  assertPlainObject,
+  assertPositiveFiniteNumber,
+  assertNonNegativeFiniteNumber,
+} from '../../configValidation';
+import { isEntityActive } from './buildableHelpers';
+import { getEntityMetalValue } from './matchStats';
+import { computeTurretRanges } from './turretConfigs';
+import { ENTITY_CHANGED_HP } from '../../types/network';
+
+// Veterancy: units that land kills earn experience and, past each
+// configured threshold, a rank (combatConfig.json `veterancy`). Credit
+// goes to the entity whose damage dealt the killing blow — the firing
+// unit, or the unit that reflected a beam — and a kill is worth the
+// victim's metal cost over the killer's, capped per kill. Killing an
+// equal-cost enemy is worth 1.
+//
+// Each rank authors its full bonus set; a higher rank replaces the one
+// below it rather than stacking:
+//
+//   hp regen  a share of max hp healed every second while damaged
+//   reload    multiplies every turret cooldown the unit rolls
+//   range     multiplies the engagement range every turret shell is
+//             built from, rebuilt once on the rank change
+//
+// Buildings and team-kills earn nothing. Everything is plain arithmetic on
+// the fixed step, and experience and rank ride the canonical state hash.
+
+const VETERANCY_EXPLICIT_FIELDS = ['maxExperiencePerKill', 'ranks'] as const;
+const VETERANCY_RANK_EXPLICIT_FIELDS = [
+  'experience',
+  'hpRegenMaxHpFractionPerSec',
+  'reloadMultiplier',
+  'rangeMultiplier',
+] as const;
+
+/** Validate a `veterancy` config block. */
+export function validateVeterancyConfig(label: string, value: unknown): void {
+  assertPlainObject(value, `Invalid ${label}: expected an object`);
+  assertExactObjectKeys(
+    value,
+    VETERANCY_EXPLICIT_FIELDS,
+    (key) => `Invalid ${label}.${key}: unexpected field`,
+    (key) => `Invalid ${label}.${key}: missing field`,
+  );
+  assertPositiveFiniteNumber(value.maxExperiencePerKill, `${label}.maxExperiencePerKill`);
+  const ranks = value.ranks;
+  if (!Array.isArray(ranks) || ranks.length === 0) {
+    throw new Error(`Invalid ${label}.ranks: expected a non-empty array`);
+  }
+  let previousExperience = 0;
+  for (let i = 0; i < ranks.length; i++) {
+    const rankLabel = `${label}.ranks[${i}]`;
+    const rank: unknown = ranks[i];
+    assertPlainObject(rank, `Invalid ${rankLabel}: expected an object`);
+    assertExactObjectKeys(
+      rank,
+      VETERANCY_RANK_EXPLICIT_FIELDS,
+      (key) => `Invalid ${rankLabel}.${key}: unexpected field`,
+      (key) => `Invalid ${rankLabel}.${key}: missing field`,
+    );
+    assertPositiveFiniteNumber(rank.experience, `${rankLabel}.experience`);
+    if (rank.experience <= previousExperience) {
+      throw new Error(`Invalid ${rankLabel}.experience: thresholds must rise rank over rank`);
+    }
+    previousExperience = rank.experience;
+    assertNonNegativeFiniteNumber(
+      rank.hpRegenMaxHpFractionPerSec,
+      `${rankLabel}.hpRegenMaxHpFractionPerSec`,
+    );
+    assertPositiveFiniteNumber(rank.reloadMultiplier, `${rankLabel}.reloadMultiplier`);
+    assertPositiveFiniteNumber(rank.rangeMultiplier, `${rankLabel}.rangeMultiplier`);
+  }
+}
+
+validateVeterancyConfig('combatConfig.veterancy', VETERANCY);
+
+export function createVeterancy(): Veterancy {
+  return { experience: 0, rank: 0 };
+}
+
+/** Highest rank whose threshold `experience` has reached (0 = none). */
+export function getVeterancyRankForExperience(
+  experience: number,
+  config: VeterancyConfig = VETERANCY,
+): number {
+  let rank = 0;
+  while (rank < config.ranks.length && experience >= config.ranks[rank].experience) rank++;
+  return rank;
+}
+
+/** Experience one kill of `victim` by `killer` is worth. */
+export function getKillExperience(
+  killer: Entity,
+  victim: Entity,
+  config: VeterancyConfig = VETERANCY,
+): number {
+  const victimValue = getEntityMetalValue(victim);
+  if (victimValue <= 0) return 0;
+  const killerValue = getEntityMetalValue(killer);
+  if (killerValue <= 0) return config.maxExperiencePerKill;
+  return Math.min(config.maxExperiencePerKill, victimValue / killerValue);
+}
+
+export function getVeterancyReloadMultiplier(entity: Entity): number {
+  const veterancy = entity.veterancy;
+  if (veterancy === null || veterancy.rank === 0) return 1;
+  return VETERANCY.ranks[veterancy.rank - 1].reloadMultiplier;
+}
+
+export function getVeterancyRangeMultiplier(entity: Entity): number {
+  const veterancy = entity.veterancy;
+  if (veterancy === null || veterancy.rank === 0) return 1;
+  return VETERANCY.ranks[veterancy.rank - 1].rangeMultiplier;
+}
+
+/** Set the unit's rank and rebuild its turret ranges to match. The client
+ *  runs this too when a snapshot moves the rank, so range rings agree. */
+export function setVeterancyRank(entity: Entity, rank: number): void {
+  const veterancy = entity.veterancy ?? (entity.veterancy = createVeterancy());
+  if (veterancy.rank === rank) return;
+  veterancy.rank = rank;
+  const combat = entity.combat;
+  if (combat === null) return;
+  const rangeMultiplier = getVeterancyRangeMultiplier(entity);
+  for (let i = 0; i < combat.turrets.length; i++) {
+    const turret = combat.turrets[i];
+    turret.ranges = computeTurretRanges(turret.config, rangeMultiplier);
+  }
+}
+
+/** Credit `killerEntityId` with the kill of `victim`. Only a live unit
+ *  killing a finished enemy earns anything. */
+export function awardKillExperience(
+  world: WorldState,
+  killerEntityId: EntityId | undefined,
+  victim: Entity | undefined,
+): void {
+  if (killerEntityId === undefined || victim === undefined) return;
+  const killer = world.getEntity(killerEntityId);
+  if (killer === undefined || killer.unit === null || killer.unit.hp <= 0) return;
+  const killerPlayerId = killer.ownership?.playerId;
+  const victimPlayerId = victim.ownership?.playerId;
+  if (killerPlayerId === undefined || victimPlayerId === undefined) return;
+  if (world.getTeamId(killerPlayerId) === world.getTeamId(victimPlayerId)) return;
+  if (!isEntityActive(victim)) return;
+  const experience = getKillExperience(killer, victim);
+  if (experience <= 0) return;
+
+  const veterancy = killer.veterancy ?? (killer.veterancy = createVeterancy());
+  veterancy.experience += experience;
+  setVeterancyRank(killer, getVeterancyRankForExperience(veterancy.experience));
+  world.markSnapshotDirty(killer.id, ENTITY_CHANGED_HP);
+}
+
+/** Advance every ranked unit's hp regen one fixed step. */
+export function updateVeterancy(world: WorldState, dtMs: number): void {
+  const units = world.getUnits();
+  for (let i = 0; i < units.length; i++) {
+    const entity = units[i];
+    const veterancy = entity.veterancy;
+    const unit = entity.unit;
+    if (veterancy === null || veterancy.rank === 0 || unit === null) continue;
+    if (unit.hp <= 0 || unit.hp >= unit.maxHp) continue;
+    const regen = VETERANCY.ranks[veterancy.rank - 1].hpRegenMaxHpFractionPerSec;
+    if (regen === 0) continue;
+    unit.hp = Math.min(unit.maxHp, unit.hp + unit.maxHp * regen * (dtMs / 1000));
+    world.markSnapshotDirty(entity.id, ENTITY_CHANGED_HP);
+  }
+}
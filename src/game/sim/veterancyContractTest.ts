@@ -0,0 +1,141 @@
+import { VETERANCY } from '../../config';
+import type { DamageResult } from '../../types/damage';
+import { collectKillsAndDeathContexts } from './combat/damageHelpers';
+import type { SimEvent } from './combat/types';
+import type { DeathContext } from './damage/types';
+import { computeTurretRanges, getTurretConfig } from './turretConfigs';
+import {
+  getVeterancyReloadMultiplier,
+  setVeterancyRank,
+  updateVeterancy,
+} from './veterancy';
+import type { WorldState } from './WorldState';
+import type { Entity, EntityId, PlayerId } from './types';
+
+function assertContract(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[veterancy contract] ${message}`);
+}
+
+function spawnUnit(id: EntityId, playerId: PlayerId, unitBlueprintId: string): Entity {
+  const config = getTurretConfig('turretGunLight');
+  return {
+    id,
+    type: 'unit',
+    ownership: { playerId },
+    transform: { x: 0, y: 0, z: 0, rotation: 0 },
+    body: null,
+    buildable: null,
+    building: null,
+    buildingBlueprintId: null,
+    unit: { unitBlueprintId, hp: 100, maxHp: 100, radius: { hitbox: 10, collision: 10, other: 10 } },
+    combat: { turrets: [{ config, ranges: computeTurretRanges(config), rotation: 0, pitch: 0 }] },
+    veterancy: null,
+  } as unknown as Entity;
+}
+
+/** Veterancy is credited where every kill is collected, so drive it through
+ *  the same call the projectile, beam and splash paths make. */
+export function runVeterancyContractTest(): void {
+  const killer = spawnUnit(1, 1 as PlayerId, 'unitJackal');
+  const units: Entity[] = [killer];
+  let killerResends = 0;
+  // Player 3 allies with player 1.
+  const world = {
+    getUnits: () => units,
+    getEntity: (id: EntityId) => units.find((unit) => unit.id === id),
+    getTeamId: (playerId: PlayerId) => (playerId === 3 ? 1 : playerId),
+    markSnapshotDirty: (id: EntityId) => { if (id === killer.id) killerResends++; },
+    matchStats: { recordKill: () => {} },
+  } as unknown as WorldState;
+
+  const unitsToRemove = new Set<EntityId>();
+  const events: SimEvent[] = [];
+  const kill = (victim: Entity, killerEntityId: EntityId | null = killer.id): void => {
+    units.push(victim);
+    victim.unit!.hp = 0;
+    const result: DamageResult = {
+      hitEntityIds: [victim.id],
+      killedUnitIds: new Set([victim.id]),
+      killedBuildingIds: new Set(),
+      killedProjectileIds: new Set(),
+      truncationT: null,
+      knockbacks: [],
+      deathContexts: new Map(),
+      killerPlayerIds: new Map([[victim.id, killer.ownership!.playerId]]),
+      killerEntityIds: killerEntityId === null ? new Map() : new Map([[victim.id, killerEntityId]]),
+    };
+    collectKillsAndDeathContexts(
+      result,
+      world,
+      'turretGunLight',
+      'turret',
+      unitsToRemove,
+      new Set(),
+      events,
+      new Map<EntityId, DeathContext>(),
+    );
+  };
+
+  // 1. Killing an equal-cost enemy is worth 1 and reaches the first rank;
+  //    the same corpse reported again by a later splash earns nothing.
+  const peer = spawnUnit(10, 2 as PlayerId, 'unitJackal');
+  kill(peer);
+  assertContract(events.length === 1, 'the kill is still reported as a death');
+  assertContract(
+    killer.veterancy !== null && killer.veterancy.experience === 1 && killer.veterancy.rank === 1,
+    'an equal-cost kill is worth 1 and reaches the first rank',
+  );
+  assertContract(killerResends === 1, 'the killer is resent with its new rank');
+  kill(peer);
+  assertContract(killer.veterancy.experience === 1, 'a corpse is credited once');
+
+  // 2. A team-kill, and a kill no unit landed, credit nobody.
+  kill(spawnUnit(11, 3 as PlayerId, 'unitJackal'));
+  kill(spawnUnit(12, 2 as PlayerId, 'unitJackal'), null);
+  assertContract(killer.veterancy.experience === 1, 'team-kills and world kills earn nothing');
+
+  // 3. An expensive kill is capped per kill; enough of them reach the top
+  //    rank, which rebuilds the turret ranges and shortens reloads.
+  const baseRange = killer.combat!.turrets[0].ranges.fire.max.acquire;
+  kill(spawnUnit(13, 2 as PlayerId, 'unitMammoth'));
+  assertContract(
+    killer.veterancy.experience === 1 + VETERANCY.maxExperiencePerKill,
+    'an expensive kill is capped',
+  );
+  for (let id = 14; killer.veterancy.rank < VETERANCY.ranks.length; id++) {
+    kill(spawnUnit(id, 2 as PlayerId, 'unitMammoth'));
+  }
+  const topRank = VETERANCY.ranks[VETERANCY.ranks.length - 1];
+  assertContract(
+    killer.combat!.turrets[0].ranges.fire.max.acquire === baseRange * topRank.rangeMultiplier,
+    'the top rank rebuilds the turret ranges',
+  );
+  assertContract(getVeterancyReloadMultiplier(killer) === topRank.reloadMultiplier, 'and shortens reloads');
+  assertContract(getVeterancyReloadMultiplier(peer) === 1, 'a green unit reloads normally');
+
+  // 4. A client adopting the rank from a snapshot lands on the same ranges.
+  const mirrored = spawnUnit(1, 1 as PlayerId, 'unitJackal');
+  setVeterancyRank(mirrored, killer.veterancy.rank);
+  assertContract(
+    mirrored.combat!.turrets[0].ranges.fire.max.acquire ===
+      killer.combat!.turrets[0].ranges.fire.max.acquire,
+    'a snapshot rank rebuilds the same ranges on the client',
+  );
+
+  // 5. A damaged veteran heals its rank's share of max hp up to full; a
+  //    green unit does not heal.
+  const green = spawnUnit(30, 1 as PlayerId, 'unitJackal');
+  units.length = 0;
+  units.push(killer, green);
+  killer.unit!.hp = 50;
+  green.unit!.hp = 50;
+  updateVeterancy(world, 1000);
+  assertContract(
+    killer.unit!.hp === 50 + 100 * topRank.hpRegenMaxHpFractionPerSec,
+    'a veteran heals its share of max hp',
+  );
+  assertContract(green.unit!.hp === 50, 'a green unit does not heal');
+  killer.unit!.hp = 99.9;
+  updateVeterancy(world, 60_000);
+  assertContract(killer.unit!.hp === 100, 'regen stops at max hp');
+}
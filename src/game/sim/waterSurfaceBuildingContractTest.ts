@@ -36,6 +36,8 @@ export function runWaterSurfaceBuildingContractTest(): void {
     buildingShieldTargetingTech: ['ground-build-squares-surface'],
     buildingShieldTech: ['ground-build-squares-surface'],
     buildingPrecisionTargetingTech: ['ground-build-squares-surface'],
+    buildingMissileSilo: ['ground-build-squares-surface'],
+    buildingAntiMissile: ['ground-build-squares-surface'],
   };
   assertContract(
     BUILD_CONFIG.maxBuildableSlopeAngleDegrees === 10,
@@ -97,6 +97,16 @@ export class WindPowerTracker {
     }
   }
 
+  /** Wind production already credited to each player's economy. A save
+   *  carries it so the first tick after a load applies only the change. */
+  exportAppliedProduction(): [PlayerId, number][] {
+    return [...this.appliedProductionByPlayer];
+  }
+
+  restoreAppliedProduction(entries: readonly [PlayerId, number][]): void {
+    this.appliedProductionByPlayer = new Map(entries);
+  }
+
   private ensureProducerCapacity(count: number): void {
     if (count <= this.producerPlayerIds.length) return;
     const nextCapacity = nextGeometricCapacity(this.producerPlayerIds.length, count);
@@ -1,19 +1,119 @@
 import type { Entity, PlayerId } from './types';
 import type { WorldState } from './WorldState';
 import { isUnitBlueprintId } from '@/types/blueprintIds';
+import { isEntityActive } from './buildableHelpers';
+import { getUnitBuildConfig } from './buildConfigs';
+
+// Wrecks are ownerless buildings carrying a `wreck` component. A dead unit
+// leaves a hulk worth part of its metal cost; weapons can knock a hulk down
+// to a debris heap worth less again, and a heap shot apart is gone. BAR's
+// featureDefs carry the same two stages (`<unit>_dead` and `<unit>_heap`).
+
+/** Share of the unit's metal cost its hulk pays back when reclaimed. */
+export const WRECK_METAL_FRACTION = 0.6;
+/** Hulk hp as a share of the unit's max hp. */
+export const WRECK_HP_FRACTION = 0.5;
+/** Heap metal and hp as a share of the hulk's. */
+export const DEBRIS_METAL_FRACTION = 0.4;
+export const DEBRIS_HP_FRACTION = 0.5;
+/** Heap footprint radius as a share of the hulk's. */
+export const DEBRIS_SIZE_FRACTION = 0.75;
+/** Resurrect work per metal of the original unit, at construction rate 100. */
+export const WRECK_RESURRECT_MS_PER_METAL = 40;
 
 export function isResurrectableWreck(target: Entity | null | undefined): target is Entity {
   return target !== null &&
     target !== undefined &&
     target.wreck !== null &&
+    !target.wreck.debris &&
     target.building !== null &&
     target.building.hp > 0 &&
     target.wreck.source.kind === 'unit' &&
     isUnitBlueprintId(target.wreck.source.unitBlueprintId);
 }
 
-export function createWreckFromDeadUnit(_world: WorldState, _source: Entity): Entity | null {
-  return null;
+/**
+ * Leave a hulk where `source` died and add it to the world. Unfinished
+ * shells and units riding in a transport leave nothing; commanders go
+ * straight to a heap so a lost commander can never be raised again.
+ */
+export function createWreckFromDeadUnit(world: WorldState, source: Entity): Entity | null {
+  const unit = source.unit;
+  if (unit === null || source.transported !== null || !isEntityActive(source)) return null;
+  const config = getUnitBuildConfig(unit.unitBlueprintId);
+  if (config === undefined) return null;
+  const metal = config.cost.metal * WRECK_METAL_FRACTION;
+  if (metal <= 0) return null;
+
+  const debris = source.commander !== null;
+  const radius = Math.max(1, unit.radius.hitbox);
+  return addWreck(
+    world,
+    source.transform.x,
+    source.transform.y,
+    source.transform.rotation,
+    radius,
+    unit.maxHp * WRECK_HP_FRACTION,
+    unit.unitBlueprintId,
+    source.ownership !== null ? source.ownership.playerId : null,
+    metal,
+    debris,
+    debris ? 0 : config.cost.metal * WRECK_RESURRECT_MS_PER_METAL,
+  );
+}
+
+/**
+ * Replace a hulk that weapons destroyed with a smaller heap. Heaps and
+ * reclaimed hulks leave nothing.
+ */
+export function createDebrisFromDestroyedWreck(world: WorldState, hulk: Entity): Entity | null {
+  const wreck = hulk.wreck;
+  const building = hulk.building;
+  if (wreck === null || building === null || wreck.debris || wreck.source.kind !== 'unit') return null;
+  return addWreck(
+    world,
+    hulk.transform.x,
+    hulk.transform.y,
+    hulk.transform.rotation,
+    building.width * 0.5 * DEBRIS_SIZE_FRACTION,
+    building.maxHp * DEBRIS_HP_FRACTION,
+    wreck.source.unitBlueprintId,
+    wreck.originalOwnerId,
+    wreck.metal * DEBRIS_METAL_FRACTION,
+    true,
+    0,
+  );
+}
+
+function addWreck(
+  world: WorldState,
+  x: number,
+  y: number,
+  rotation: number,
+  radius: number,
+  hp: number,
+  unitBlueprintId: string,
+  originalOwnerId: PlayerId | null,
+  metal: number,
+  debris: boolean,
+  resurrectRequiredMs: number,
+): Entity {
+  const footprint = radius * 2;
+  // Hulks sit low; heaps lower still.
+  const wreck = world.createBuilding(x, y, footprint, footprint, radius * (debris ? 0.5 : 1), null, rotation);
+  const building = wreck.building!;
+  building.hp = Math.max(1, hp);
+  building.maxHp = building.hp;
+  wreck.wreck = {
+    source: { kind: 'unit', unitBlueprintId },
+    originalOwnerId,
+    metal,
+    debris,
+    resurrectProgressMs: 0,
+    resurrectRequiredMs,
+  };
+  world.addEntity(wreck);
+  return wreck;
 }
 
 export function restoreUnitFromWreck(world: WorldState, wreck: Entity, playerId: PlayerId): Entity | null {
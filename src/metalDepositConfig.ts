@@ -65,6 +65,8 @@ import {
 import { BUILD_GRID_CELL_SIZE } from './game/sim/buildGrid';
 import { getSimWasm } from './game/sim-wasm/init';
 import { getMetalCoverage } from './game/sim/worldSurfaceState';
+import { getAuthoredMetalDeposits } from './game/sim/terrain/authoredMap';
+import type { AuthoredMetalDeposit } from './types/authoredMap';
 import type { MetalCoverage } from './types/worldSurfaceMode';
 import rawConfig from './metalDepositConfig.json';
 
@@ -237,6 +239,8 @@ type MetalDepositSurfaceFieldConfig = {
  *      metal rate. Held apart from the size table so retuning a size
  *      class cannot silently retune income.
  *    - `surfaceField`: the rendered ore region's bake settings.
+ *    - `authoredMapTerrainBlendRadius`: the blend skirt every deposit of
+ *      an authored map file gets (see authoredMap.ts).
  *    - `rings`: concentric deposit rings; order doesn't matter — the
  *      renderer and placement validator iterate over all of them. Each
  *      ring carries its own `flatPadCells` and `terrainBlendRadius`. */
@@ -249,6 +253,9 @@ export const METAL_DEPOSIT_CONFIG = {
   defaultSize: rawConfig.defaultSize as string,
   productionNominalCells: rawConfig.productionNominalCells,
   surfaceField: rawConfig.surfaceField as MetalDepositSurfaceFieldConfig,
+  authoredMapTerrainBlendRadius: validMetalDepositTerrainBlendRadius(
+    rawConfig.authoredMapTerrainBlendRadius,
+  ),
   rings: rawConfig.rings as DepositRing[],
 };
 
@@ -399,7 +406,9 @@ const METAL_DEPOSIT_D_TERRAIN_NULL = Number.NaN;
  * player count, and install the resulting flat zones into the terrain
  * state. Same `(mapWidth, mapHeight, playerCount)` always produces the
  * same deposits in the same order — fine to call independently on
- * host and clients without networking the list.
+ * host and clients without networking the list. An installed authored
+ * map (see authoredMap.ts) replaces the rings with its own list; every
+ * peer holds the same file, so that list is just as shared.
  *
  * SIDE EFFECT: calls `setMetalDepositFlatZones` twice — first with
  * the explicit-height pads, then with the full list once `null`
@@ -429,12 +438,16 @@ export function generateMetalDeposits(
   // Pass 1: lay out every deposit's xy + per-ring metadata. No
   // heights yet — those depend on whether the ring is explicit-height
   // (immediate) or null (sampled after explicit pads are installed).
-  const placements = generateMetalDepositPlacementsFromWasm(
-    mapWidth,
-    mapHeight,
-    playerCount,
-    coverage,
-  );
+  // An authored map lists its deposits itself and the rings sit out.
+  const authoredDeposits = getAuthoredMetalDeposits();
+  const placements = authoredDeposits !== null
+    ? authoredMetalDepositPlacements(authoredDeposits, coverage)
+    : generateMetalDepositPlacementsFromWasm(
+      mapWidth,
+      mapHeight,
+      playerCount,
+      coverage,
+    );
 
   // Pass 2: collect explicit-dTerrain pads and install them so the
   // Rust null-ring sampler in pass 3 sees terrain already shaped by
@@ -713,6 +726,34 @@ function generateMetalDepositPlacementsFromWasm(
   return placements;
 }
 
+/** One pending placement per authored deposit, in file order. Each rides
+ *  the authored ground (null dTerrainLevels) on an auto-sized pad, so the
+ *  file decides where metal is and the heightmap decides how high. */
+function authoredMetalDepositPlacements(
+  deposits: readonly AuthoredMetalDeposit[],
+  coverage: MetalCoverage,
+): PendingPlacement[] {
+  return deposits.map((deposit, i) => {
+    const size = resolveMetalDepositSize(deposit.size);
+    const placementRadius = metalDepositPlacementRadiusForSize(size);
+    const template = {
+      authoredMetalCellCount: size.metalCellCount,
+      placementRadiusCells: getMetalDepositPlacementRadiusCells(size),
+      placementRadius,
+      flatPadRadius:
+        resolveMetalDepositFlatPadCells(null, placementRadius) * BUILD_GRID_CELL_SIZE * 0.5,
+    };
+    return {
+      placement: makeMetalDepositPlacementFromRawPoint(deposit.x, deposit.y, template, i, coverage),
+      dTerrainLevels: null,
+      blendRadius: METAL_DEPOSIT_CONFIG.authoredMapTerrainBlendRadius,
+      explicitHeight: null,
+      demoAutoExtractor: true,
+      groupId: -1,
+    };
+  });
+}
+
 function metalDepositLoopCount(limit: number): number {
   if (!Number.isFinite(limit) || limit <= 0) return 0;
   return Math.ceil(limit);
@@ -827,7 +868,10 @@ function metalDepositRadialAngleFromMapCenter(
 function makeMetalDepositPlacementFromRawPoint(
   rawX: number,
   rawY: number,
-  template: MetalDepositPlacement,
+  template: Pick<
+    MetalDepositPlacement,
+    'authoredMetalCellCount' | 'placementRadiusCells' | 'placementRadius' | 'flatPadRadius'
+  >,
   seedIndex: number,
   coverage: MetalCoverage,
 ): MetalDepositPlacement {
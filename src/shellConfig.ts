@@ -21,6 +21,8 @@ export const SHELL_BAR_COLORS = RESOURCE_COLOR_CSS;
 export const SHELL_BAR_BG_COLOR = COLORS.construction.shellBar.background.cssColor;
 export const SHELL_BAR_BG_ALPHA = COLORS.construction.shellBar.background.alpha;
 export const SHELL_BAR_FG_ALPHA = COLORS.construction.shellBar.foregroundAlpha;
+/** Veterancy rank pips, painted over the right end of the HP bar. */
+export const SHELL_BAR_RANK_PIP_COLOR = COLORS.construction.shellBar.rankPipCssColor;
 
 /** Bar height in world units. Bar width is keyed to the entity's
  *  rendering radius so a bigger unit gets a wider bar — same convention
@@ -16,7 +16,10 @@ export type SynthId =
   | 'small-explosion'
   | 'medium-explosion'
   | 'large-explosion'
-  | 'beam-hum';
+  | 'beam-hum'
+  | 'alert-alarm'
+  | 'alert-chime'
+  | 'alert-blip';
 
 export type SoundEntry = {
   synth: SynthId;
@@ -46,6 +49,9 @@ export type ContinuousSound = {
   baseOscVolume: number;
   baseNoiseVolume: number;
   audible: boolean;
+  /** Spatial output chain (panner, fog lowpass) between the sound's
+   *  gains and the master bus; disconnected with the sound. */
+  spatialNodes?: AudioNode[];
 };
 
 export type ContinuousSoundConfig = {
@@ -92,6 +98,15 @@ export type MidiEffectsChain = {
   reverbWetGain: GainNode | null;
 };
 
+/** Adaptive music layers, quietest first. */
+export type MusicLayer = 'calm' | 'tension' | 'battle';
+
+/** Music mix buses: `base` voices play under every layer, each layer's
+ *  voices crossfade on its own bus, and game-over stingers sit on top. */
+export type MusicBus = 'base' | MusicLayer | 'stinger';
+
+export type MusicOutcome = 'victory' | 'defeat';
+
 export type ProceduralState = {
   nextBeatTime: number;
   currentBeat: number;
@@ -100,4 +115,9 @@ export type ProceduralState = {
   arpPatternIndex: number;
   melodyNote: number;
   keyOffset: number;
+  /** Current tempo; steps toward `targetBpm` at each bar line. */
+  bpm: number;
+  targetBpm: number;
+  /** Layer whose instrumentation the base voices use. */
+  layer: MusicLayer;
 };
@@ -0,0 +1,202 @@
+/** An authored map: a hand-made world loaded from a file instead of generated
+ *  from the lobby's terrain bars. Host-owned lobby setting that rides
+ *  `LobbySettings` to every peer and is hashed into the canonical match
+ *  initialization, so two peers holding different files can never start the
+ *  same match.
+ *
+ *  Coordinates are in LAND CELLS from the map's (0, 0) corner — the same unit
+ *  as the lobby's map-size bars — so a file never depends on the world scale.
+ *  Heights are world units, with the file's own water level: whatever height
+ *  the author called sea level lands on the engine's water plane. */
+import { MAP_DIMENSION_CONFIG } from '../mapSizeConfig';
+import { METAL_DEPOSIT_CONFIG } from '../metalDepositConfig';
+
+export const AUTHORED_MAP_FORMAT = 'rts-map';
+
+/** Bumped on any change an older reader would misread. A reader rejects
+ *  versions it does not know rather than guessing. */
+export const AUTHORED_MAP_VERSION = 1;
+
+/** Heightmap samples per axis. The whole map travels in the lobby settings,
+ *  so the grid is capped rather than left to the author. */
+export const AUTHORED_MAP_MIN_HEIGHTMAP_SAMPLES = 2;
+export const AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES = 257;
+
+/** Land cells per axis: no larger than the biggest map the lobby bars
+ *  offer, so a file cannot ask every peer for a world nobody could pick. */
+export const AUTHORED_MAP_MAX_LAND_CELLS = Math.max(
+  ...MAP_DIMENSION_CONFIG.width.options.map((option) => option.valueLandCells),
+  ...MAP_DIMENSION_CONFIG.length.options.map((option) => option.valueLandCells),
+);
+
+export const AUTHORED_MAP_MAX_NAME_LENGTH = 48;
+export const AUTHORED_MAP_MAX_METAL_DEPOSITS = 256;
+export const AUTHORED_MAP_MAX_VEGETATION_DENSITY = 4;
+
+/** Float grid stretched corner to corner over the map, row-major: row 0 runs
+ *  along the map's y = 0 edge. */
+export type AuthoredHeightmap = {
+  readonly columns: number;
+  readonly rows: number;
+  readonly heights: readonly number[];
+};
+
+export type AuthoredMetalDeposit = {
+  readonly x: number;
+  readonly y: number;
+  /** Entry in metalDepositConfig.json `sizes`; omitted = the default size. */
+  readonly size?: string;
+};
+
+export type AuthoredStartPosition = {
+  readonly x: number;
+  readonly y: number;
+};
+
+export type AuthoredMap = {
+  readonly format: typeof AUTHORED_MAP_FORMAT;
+  readonly version: typeof AUTHORED_MAP_VERSION;
+  readonly name: string;
+  readonly widthLandCells: number;
+  readonly lengthLandCells: number;
+  readonly heightmap: AuthoredHeightmap;
+  /** Height in the heightmap's units where the water surface sits. */
+  readonly waterLevel: number;
+  /** Multiplier on every vegetation kind's stock count: 0 is barren, 1 is
+   *  the generated maps' density. */
+  readonly vegetationDensity: number;
+  readonly metalDeposits: readonly AuthoredMetalDeposit[];
+  /** One per seat, in seat order; the map holds at most this many seats. */
+  readonly startPositions: readonly AuthoredStartPosition[];
+};
+
+/** Why `map` cannot host `seatedPlayerCount` seats, or null when it can (or
+ *  there is no map). The lobby refuses seating, a map load and Start on it. */
+export function describeAuthoredMapSeatShortfall(
+  map: AuthoredMap | null,
+  seatedPlayerCount: number,
+): string | null {
+  if (map === null || seatedPlayerCount <= map.startPositions.length) return null;
+  return `Map "${map.name}" seats ${map.startPositions.length} players; ${seatedPlayerCount} are seated`;
+}
+
+/**
+ * Validate a map file into the canonical `AuthoredMap`. Throws on anything
+ * malformed, on an unknown version, and on values a peer could read
+ * differently. The result holds only the known fields — unknown extras in the
+ * file are dropped, so they can never leak into the match hash.
+ */
+export function parseAuthoredMap(value: unknown, context = 'authored map'): AuthoredMap {
+  const fail = (message: string): never => {
+    throw new Error(`[${context}] ${message}`);
+  };
+  const record = asRecord(value) ?? fail('expected a map object');
+  if (record.format !== AUTHORED_MAP_FORMAT) fail(`format must be "${AUTHORED_MAP_FORMAT}"`);
+  if (record.version !== AUTHORED_MAP_VERSION) {
+    fail(`unsupported version ${String(record.version)}; this build reads version ${AUTHORED_MAP_VERSION}`);
+  }
+  const name = typeof record.name === 'string' ? record.name.trim() : fail('missing name');
+  if (name.length === 0 || name.length > AUTHORED_MAP_MAX_NAME_LENGTH) {
+    fail(`name must be 1-${AUTHORED_MAP_MAX_NAME_LENGTH} characters`);
+  }
+  const widthLandCells = oddLandCells(record.widthLandCells) ??
+    fail(`widthLandCells must be an odd integer in 1..${AUTHORED_MAP_MAX_LAND_CELLS}`);
+  const lengthLandCells = oddLandCells(record.lengthLandCells) ??
+    fail(`lengthLandCells must be an odd integer in 1..${AUTHORED_MAP_MAX_LAND_CELLS}`);
+
+  const heightmapRecord = asRecord(record.heightmap) ?? fail('missing heightmap');
+  const columns = sampleCount(heightmapRecord.columns) ?? fail(
+    `heightmap columns must be an integer in ${AUTHORED_MAP_MIN_HEIGHTMAP_SAMPLES}..${AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES}`,
+  );
+  const rows = sampleCount(heightmapRecord.rows) ?? fail(
+    `heightmap rows must be an integer in ${AUTHORED_MAP_MIN_HEIGHTMAP_SAMPLES}..${AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES}`,
+  );
+  const rawHeights = heightmapRecord.heights;
+  if (!Array.isArray(rawHeights) || rawHeights.length !== columns * rows) {
+    fail(`heightmap heights must hold columns x rows = ${columns * rows} values`);
+  }
+  const heights = (rawHeights as unknown[]).map((h, i) => finite(h) ?? fail(`heightmap height ${i} is not a finite number`));
+
+  const waterLevel = finite(record.waterLevel) ?? fail('waterLevel must be a finite number');
+  const vegetationDensity = finite(record.vegetationDensity);
+  if (vegetationDensity === null || vegetationDensity < 0 || vegetationDensity > AUTHORED_MAP_MAX_VEGETATION_DENSITY) {
+    fail(`vegetationDensity must be in 0..${AUTHORED_MAP_MAX_VEGETATION_DENSITY}`);
+  }
+
+  const inside = (x: unknown, y: unknown, label: string): AuthoredStartPosition => {
+    const px = finite(x);
+    const py = finite(y);
+    if (px === null || py === null || px < 0 || py < 0 || px > widthLandCells || py > lengthLandCells) {
+      fail(`${label} must lie inside the ${widthLandCells}x${lengthLandCells} map`);
+    }
+    return { x: px as number, y: py as number };
+  };
+
+  if (!Array.isArray(record.metalDeposits)) fail('metalDeposits must be a list');
+  const rawDeposits = record.metalDeposits as unknown[];
+  if (rawDeposits.length > AUTHORED_MAP_MAX_METAL_DEPOSITS) {
+    fail(`at most ${AUTHORED_MAP_MAX_METAL_DEPOSITS} metal deposits`);
+  }
+  const metalDeposits = rawDeposits.map((raw, i): AuthoredMetalDeposit => {
+    const deposit = asRecord(raw) ?? fail(`metal deposit ${i} must be an object`);
+    const point = inside(deposit.x, deposit.y, `metal deposit ${i}`);
+    if (deposit.size === undefined) return point;
+    if (typeof deposit.size !== 'string') fail(`metal deposit ${i} size must be a size name`);
+    const size = deposit.size as string;
+    if (!Object.prototype.hasOwnProperty.call(METAL_DEPOSIT_CONFIG.sizes, size)) {
+      fail(
+        `metal deposit ${i} size "${size}" is not one of ` +
+          Object.keys(METAL_DEPOSIT_CONFIG.sizes).join(', '),
+      );
+    }
+    return { ...point, size };
+  });
+
+  if (!Array.isArray(record.startPositions) || record.startPositions.length === 0) {
+    fail('startPositions must list at least one seat');
+  }
+  const startPositions = (record.startPositions as unknown[]).map((raw, i) => {
+    const start = asRecord(raw) ?? fail(`start position ${i} must be an object`);
+    return inside(start.x, start.y, `start position ${i}`);
+  });
+
+  return {
+    format: AUTHORED_MAP_FORMAT,
+    version: AUTHORED_MAP_VERSION,
+    name,
+    widthLandCells,
+    lengthLandCells,
+    heightmap: { columns, rows, heights },
+    waterLevel,
+    vegetationDensity: vegetationDensity as number,
+    metalDeposits,
+    startPositions,
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function finite(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function oddLandCells(value: unknown): number | null {
+  return Number.isInteger(value) &&
+    (value as number) > 0 &&
+    (value as number) <= AUTHORED_MAP_MAX_LAND_CELLS &&
+    (value as number) % 2 === 1
+    ? (value as number)
+    : null;
+}
+
+function sampleCount(value: unknown): number | null {
+  return Number.isInteger(value) &&
+    (value as number) >= AUTHORED_MAP_MIN_HEIGHTMAP_SAMPLES &&
+    (value as number) <= AUTHORED_MAP_MAX_HEIGHTMAP_SAMPLES
+    ? (value as number)
+    : null;
+}
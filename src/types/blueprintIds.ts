@@ -21,6 +21,7 @@ export const BUILDING_BLUEPRINT_IDS = [
   'buildingPrecisionTargetingTech',
   'buildingRadarJammer', 'buildingSonarJammer',
   'buildingMetalStorage', 'buildingEnergyStorage',
+  'buildingMissileSilo', 'buildingAntiMissile',
 ] as const;
 export type BuildingBlueprintId = typeof BUILDING_BLUEPRINT_IDS[number];
 
@@ -220,6 +220,40 @@ export type SmokeTrailSpec = {
   color?: number;
 };
 
+export type ParalyzeEffectSpec = {
+  damage: number;
+  durationMs: number;
+};
+
+export type SlowEffectSpec = {
+  speedReduction: number;
+  durationMs: number;
+  maxStacks: number;
+};
+
+export type BurnEffectSpec = {
+  dps: number;
+  durationMs: number;
+  maxStacks: number;
+};
+
+export type StatusEffectsSpec = {
+  paralyze: ParalyzeEffectSpec | null;
+  slow: SlowEffectSpec | null;
+  burn: BurnEffectSpec | null;
+};
+
+export type ArmorClass = 'light' | 'heavy' | 'air' | 'naval' | 'structure' | 'commander';
+
+export type ArmorMultiplierTable = {
+  light: number;
+  heavy: number;
+  air: number;
+  naval: number;
+  structure: number;
+  commander: number;
+};
+
 export type ShotTurningBlueprint = {
   turnRate: number;
   guidanceDelayMs: number;
@@ -244,6 +278,8 @@ export type ProjectileShotBlueprint = {
   hitSound: SoundEntry | null;
   submunitions: SubmunitionSpec | null;
   smokeTrail: SmokeTrailSpec | null;
+  statusEffects: StatusEffectsSpec | null;
+  armorMultipliers: ArmorMultiplierTable | null;
 };
 
 export type ShotBlueprint = ProjectileShotBlueprint;
@@ -274,6 +310,8 @@ export type ProjectileShot = {
   trailLength?: number;
   submunitions?: SubmunitionSpec;
   smokeTrail?: SmokeTrailSpec;
+  statusEffects?: StatusEffectsSpec;
+  armorMultipliers?: ArmorMultiplierTable;
 };
 
 export type ActiveProjectileShot = ProjectileShot | BeamRay | LaserRay;
@@ -945,6 +983,47 @@ export type UnitDgunConfig = {
   energyCost: number;
 };
 
+export type UnitMorphConfig = {
+  into: UnitBlueprintId;
+  cost: ResourceCost;
+  durationMs: number;
+};
+
+export type StructureMorphConfig = {
+  into: StructureBlueprintId;
+  cost: ResourceCost;
+  durationMs: number;
+};
+
+export type StructureStockpileConfig = {
+  cost: ResourceCost;
+  durationMs: number;
+  maxStock: number;
+};
+
+export type StructureStrategicMissileConfig = {
+  range: number;
+  speed: number;
+  apexHeight: number;
+  explosion: EntityDeathExplosion;
+};
+
+export type StructureMissileInterceptorConfig = {
+  coverageRadius: number;
+};
+
+export type TechUpgradeId = 'shieldAwareTargeting' | 'shieldPower' | 'precisionTargeting';
+
+export type StructureTechConfig = {
+  level: number;
+  upgrades: TechUpgradeId[];
+};
+
+export type BlueprintPrerequisites = {
+  buildings: StructureBlueprintId[];
+  techLevel: number;
+};
+
 export type UnitSupportSurfaceNone = {
   kind: 'none';
 };
@@ -964,6 +1043,7 @@ export type UnitBlueprint = {
   tinyName: string;
   base: EntityBaseLedger;
   hp: number;
+  armorClass: ArmorClass;
   radius: UnitRadiusConfig;
   supportSurface: UnitSupportSurface;
   mass: number;
@@ -980,6 +1060,8 @@ export type UnitBlueprint = {
   factoryProducedUnitBlueprintId?: UnitBlueprintId | null;
   workEmitter?: WorkEmitterSpec | null;
   dgun: UnitDgunConfig | null;
+  morph?: UnitMorphConfig | null;
+  prerequisites?: BlueprintPrerequisites | null;
   deathSound: SoundEntry | null;
   includeLockOnLevel0FriendsAndEnemies: TurretLockOnRelationshipInclusion[];
   includeLockOnLevel0Entities: TurretLockOnEntityFamilyInclusion[];
@@ -1009,6 +1091,8 @@ export type BeamRayBlueprint = {
   continuousSound: BeamContinuousSoundConfig;
   hitSound: SoundEntry | null;
   rayBlueprintId: RayBlueprintId;
+  statusEffects: StatusEffectsSpec | null;
+  armorMultipliers: ArmorMultiplierTable | null;
 };
 
 export type BeamContinuousSoundConfig = {
@@ -1028,6 +1112,8 @@ export type LaserRayBlueprint = {
   mediumTrajectory: EmissionMediumTrajectoryMatrix;
   hitSound: SoundEntry | null;
   rayBlueprintId: RayBlueprintId;
+  statusEffects: StatusEffectsSpec | null;
+  armorMultipliers: ArmorMultiplierTable | null;
 };
 
 export type ShieldBlueprint = {
@@ -1055,6 +1141,8 @@ export type BeamRay = {
   gravityForceMultiplier: number;
   mediumTrajectory: EmissionMediumTrajectoryMatrix;
   rayBlueprintId: RayBlueprintId;
+  statusEffects?: StatusEffectsSpec;
+  armorMultipliers?: ArmorMultiplierTable;
 };
 
 export type LaserRay = {
@@ -1069,6 +1157,8 @@ export type LaserRay = {
   gravityForceMultiplier: number;
   mediumTrajectory: EmissionMediumTrajectoryMatrix;
   rayBlueprintId: RayBlueprintId;
+  statusEffects?: StatusEffectsSpec;
+  armorMultipliers?: ArmorMultiplierTable;
 };
 
 export type RayConfig = BeamRay | LaserRay;
@@ -3,6 +3,8 @@
 // and small runtime constants used by loaders/UI code.
 
 import type {
+  ArmorClass,
+  TechUpgradeId,
   TurretEmitterKind,
   TurretLockOnEntityFamilyInclusion,
   TurretLockOnRelationshipInclusion,
@@ -18,6 +20,7 @@ export type {
 } from './constructionTypes';
 
 export type {
+  ArmorClass,
   EntityBaseLedger,
   EntityHudBlueprint,
   EntityRadiusConfig,
@@ -67,6 +70,14 @@ export type {
   TurretRangeVolume,
   TurretSubmunitionEmitterConfig,
   UnitBlueprint,
+  UnitMorphConfig,
+  StructureMorphConfig,
+  StructureStockpileConfig,
+  StructureStrategicMissileConfig,
+  StructureMissileInterceptorConfig,
+  StructureTechConfig,
+  BlueprintPrerequisites,
+  TechUpgradeId,
   UnitBodyShape,
   UnitBodyShapePart,
   UnitSupportSurface,
@@ -96,3 +107,22 @@ export const TURRET_EMITTER_KINDS: readonly TurretEmitterKind[] = [
   'resourcePylon',
   'sensor',
 ];
+
+/** Armor classes a unit or building blueprint may declare, kept as a
+ *  runtime array for validators. */
+export const ARMOR_CLASSES: readonly ArmorClass[] = [
+  'light',
+  'heavy',
+  'air',
+  'naval',
+  'structure',
+  'commander',
+];
+
+/** Upgrade channels a tech structure may grant, kept as a runtime array
+ *  for validators. */
+export const TECH_UPGRADE_IDS: readonly TechUpgradeId[] = [
+  'shieldAwareTargeting',
+  'shieldPower',
+  'precisionTargeting',
+];
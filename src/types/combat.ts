@@ -82,7 +82,9 @@ export type SimEvent = {
     | 'projectileExpire'
     | 'waterSplash'
     | 'selfDestructArmed'
-    | 'selfDestructDisarmed';
+    | 'selfDestructDisarmed'
+    | 'missileLaunch'
+    | 'missileIntercept';
   /** Legacy wire field for the one-shot audio routing key. Fire,
    *  laser, and shield events use turret blueprint ids; hit/projectile
    *  expire events use shot blueprint ids; death events may use a unit blueprint id. Keep
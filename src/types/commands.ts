@@ -37,6 +37,8 @@ type CommandType =
   | 'startBuild'
   | 'upgradeMetalExtractor'
   | 'upgradeMetalExtractorArea'
+  | 'morph'
+  | 'stockpile'
   | 'queueUnit'
   | 'editFactoryQueue'
   | 'removeFactoryUnitProduction'
@@ -51,6 +53,13 @@ type CommandType =
   | 'setBuildingActive'
   | 'selfDestruct'
   | 'resign'
+  | 'shareResources'
+  | 'transferUnits'
+  | 'setAutoShare'
+  | 'proposeAlliance'
+  | 'acceptAlliance'
+  | 'breakAlliance'
+  | 'setResignHeir'
   | 'setTowerTarget'
   | 'repair'
   | 'repairArea'
@@ -341,6 +350,24 @@ export type SetBuildingActiveCommand = BaseCommand & {
   open: boolean;
 };
 
+/** Start (or, with `cancel`, stop and refund) the in-place morph each
+ *  listed entity's blueprint declares. Entities without a morph, or
+ *  already in the requested state, are silently skipped. */
+export type MorphCommand = BaseCommand & {
+  type: 'morph';
+  entityIds: EntityId[];
+  cancel: boolean;
+};
+
+/** Queue (positive `delta`) or unqueue (negative) rounds on each listed
+ *  stockpiling structure. The queue clamps to the magazine size; entities
+ *  without a stockpile are silently skipped. */
+export type StockpileCommand = BaseCommand & {
+  type: 'stockpile';
+  entityIds: EntityId[];
+  delta: number;
+};
+
 /** Demolish the listed entities (units and buildings) on the
  *  authoritative sim. Sets hp to 0 so the per-tick death/cleanup path
  *  emits a synthetic death event and removes the entity. */
@@ -361,7 +388,8 @@ export type SelfDestructCommand = BaseCommand & {
  * the coordinator issues once a disconnected player has been gone past the
  * configured timeout, and what a player issues to concede — either way it is a
  * frame-scheduled gameplay command, so every peer removes exactly the same
- * entities on exactly the same frame.
+ * entities on exactly the same frame. A seat that named a living ally with
+ * `setResignHeir` hands its army to them instead of losing it.
  *
  * `playerId` is the SUBJECT, not the author: the coordinator resigns somebody
  * else. Authorization is the author being either the subject or the host.
@@ -371,6 +399,72 @@ export type ResignCommand = BaseCommand & {
   playerId: PlayerId;
 };
 
+/** Hand metal and energy from the issuing player's stockpiles to an ally's.
+ *  Moves at most what the giver holds and the receiver has room for; the
+ *  rest stays with the giver. `playerId` is the giver, stamped by the
+ *  authorizer from the author like a ping's. */
+export type ShareResourcesCommand = BaseCommand & {
+  type: 'shareResources';
+  targetPlayerId: PlayerId;
+  metal: number;
+  energy: number;
+  playerId?: PlayerId;
+};
+
+/** Give the listed units and buildings to an ally. They change hands with
+ *  their orders cleared, the same way a captured entity does. */
+export type TransferUnitsCommand = BaseCommand & {
+  type: 'transferUnits';
+  entityIds: EntityId[];
+  targetPlayerId: PlayerId;
+};
+
+/** Set the issuing player's auto-share levels: the fraction of each pool's
+ *  capacity above which the overflow flows to allies every tick. 1 shares
+ *  nothing. `playerId` is stamped by the authorizer. */
+export type SetAutoShareCommand = BaseCommand & {
+  type: 'setAutoShare';
+  metal: number;
+  energy: number;
+  playerId?: PlayerId;
+};
+
+/** Invite another seat to join the issuing player's alliance. Nothing changes
+ *  until they accept; the invitation stays open until then, or until the two
+ *  are allied some other way. `playerId` is the proposer, stamped by the
+ *  authorizer. */
+export type ProposeAllianceCommand = BaseCommand & {
+  type: 'proposeAlliance';
+  targetPlayerId: PlayerId;
+  playerId?: PlayerId;
+};
+
+/** Accept an open invitation from `targetPlayerId`: the issuing player leaves
+ *  whatever alliance they were in and joins the proposer's. `playerId` is the
+ *  one accepting, stamped by the authorizer. */
+export type AcceptAllianceCommand = BaseCommand & {
+  type: 'acceptAlliance';
+  targetPlayerId: PlayerId;
+  playerId?: PlayerId;
+};
+
+/** Leave the issuing player's alliance and stand alone. Needs nobody's
+ *  consent: a side can always be walked away from. */
+export type BreakAllianceCommand = BaseCommand & {
+  type: 'breakAlliance';
+  playerId?: PlayerId;
+};
+
+/** Name the ally who inherits the issuing player's army if they resign or are
+ *  resigned by the drop timer; `null` lets it self-destruct as before. Kept in
+ *  the simulation ahead of time because a dropped player is in no position to
+ *  choose at the moment it matters. */
+export type SetResignHeirCommand = BaseCommand & {
+  type: 'setResignHeir';
+  heirPlayerId: PlayerId | null;
+  playerId?: PlayerId;
+};
+
 /** Set (or clear) a combat entity's host-level lock-on target. Entity
  *  targets write CombatComponent.priorityTargetId; ground targets write
  *  CombatComponent.priorityTargetPoint. Host-directed turrets inherit the
@@ -697,6 +791,8 @@ export type Command =
   | StartBuildCommand
   | UpgradeMetalExtractorCommand
   | UpgradeMetalExtractorAreaCommand
+  | MorphCommand
+  | StockpileCommand
   | QueueUnitCommand
   | EditFactoryQueueCommand
   | RemoveFactoryUnitProductionCommand
@@ -711,6 +807,13 @@ export type Command =
   | SetBuildingActiveCommand
   | SelfDestructCommand
   | ResignCommand
+  | ShareResourcesCommand
+  | TransferUnitsCommand
+  | SetAutoShareCommand
+  | ProposeAllianceCommand
+  | AcceptAllianceCommand
+  | BreakAllianceCommand
+  | SetResignHeirCommand
   | SetTowerTargetCommand
   | RepairCommand
   | RepairAreaCommand
@@ -28,6 +28,25 @@ export type KnockbackConfig = {
   SPLASH: number;
 };
 
+export type VeterancyRankConfig = {
+  /** Experience needed to reach the rank (one kill of an equal-cost unit
+   *  is worth 1). */
+  experience: number;
+  /** Hp healed per second, as a share of max hp. */
+  hpRegenMaxHpFractionPerSec: number;
+  /** Multiplies every turret cooldown; below 1 fires faster. */
+  reloadMultiplier: number;
+  /** Multiplies every turret range; 1 leaves it alone. */
+  rangeMultiplier: number;
+};
+
+export type VeterancyConfig = {
+  /** Cap on one kill's experience, so a cheap unit that lands the last
+   *  hit on something expensive doesn't jump straight to the top rank. */
+  maxExperiencePerKill: number;
+  ranks: VeterancyRankConfig[];
+};
+
 export type ShieldVisualConfig = {
   /** 'player' makes the shield inherit the owning player's primary color. */
   colorMode: 'player' | 'config';
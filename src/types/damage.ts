@@ -11,6 +11,7 @@
 
 import type { EntityId, PlayerId } from './sim';
 import type { Vec2, Vec3 } from './vec2';
+import type { ArmorMultiplierTable, StatusEffectsSpec } from './shotTypes';
 
 export type DamageSourceBase = {
   sourceEntityId: EntityId;
@@ -18,6 +19,13 @@ export type DamageSourceBase = {
   damage: number;
   excludeEntities: Set<EntityId>;
   excludeCommanders?: boolean;
+  /** The shot/ray's status effects, landed on every unit the hit reaches. */
+  statusEffects?: StatusEffectsSpec;
+  /** Multiplies paralyze damage — a ray passes its tick's share of a
+   *  second. Defaults to 1. */
+  statusEffectScale?: number;
+  /** The shot/ray's armor table; scales hp damage by the target's class. */
+  armorMultipliers?: ArmorMultiplierTable;
 };
 
 /** Projectile swept damage: capsule swept from prev → current with
@@ -86,6 +94,10 @@ export type DamageResult = {
    *  than the target silently vanishing. Undefined when the killer's
    *  ownership couldn't be resolved (e.g. neutral / world damage). */
   killerPlayerIds: Map<EntityId, PlayerId | null>;
+  /** Per-kill, the entity whose damage landed the killing blow — the
+   *  firing unit, or the mirror that redirected a beam. Veterancy
+   *  credits its experience here. */
+  killerEntityIds: Map<EntityId, EntityId>;
 };
 
 export type HitInfo = {
@@ -4,3 +4,11 @@ export type ResourceCost = {
   energy: number;
   metal: number;
 };
+
+/** Auto-share overflow levels, each a fraction of that pool's capacity:
+ *  whatever a player holds above the level flows to allies with room. A
+ *  level of 1 shares nothing. */
+export type AutoShareThreshold = {
+  energy: number;
+  metal: number;
+};
@@ -3,9 +3,12 @@
 import type { EntityId, PlayerId } from './sim';
 import type { Command } from './commands';
 import type { TerrainPrecedence } from './terrainPrecedence';
+import type { GameOverReason, VictoryCondition } from './victoryCondition';
+import type { AuthoredMap } from './authoredMap';
 import type { NetworkServerSnapshot } from './network';
 import type { SimEvent } from './combat';
 import type { SnapshotWirePayload } from '../game/network/SnapshotWirePayload';
+import type { SeatBotProfile } from '../game/sim/agentSeat';
 import type {
   LiquidSurfaceMode,
   MetalCoverage,
@@ -109,7 +112,7 @@ export type SnapshotCallback = (
 ) => void;
 export type SnapshotUnsubscribe = () => void;
 export type SimEventCallback = (event: SimEvent) => void;
-export type GameOverCallback = (winnerId: PlayerId) => void;
+export type GameOverCallback = (winnerId: PlayerId, reason: GameOverReason) => void;
 export type PresentationFrameEvent = {
   /** Authoritative fixed-tick number now held as the current endpoint. */
   tick: number;
@@ -242,6 +245,9 @@ export type GameServerConfig = {
    *  demo default (every seat, when the battle is background with bots),
    *  or none for real battles. */
   baseSeatPlayerIds?: PlayerId[];
+  /** Difficulty and personality per bot seat (src/game/sim/agentSeat.ts).
+   *  Seats missing here play the default profile. */
+  botProfileByPlayerId?: Readonly<Record<number, SeatBotProfile>>;
   maxSnapshotsPerSec?: number;
   /** Restrict the demo battle's initial-unit spawn to this set of unit
    *  blueprint ids. When omitted the server falls back to "all background
@@ -275,6 +281,12 @@ export type GameServerConfig = {
   pathfindingCellConsolidationMultiplier?: number;
   /** Authoritative fixed simulation cadence for this match. */
   simulationTickRateHz?: number;
+  /** How the match is won. Match-static and included in lockstep
+   *  initialization; omitted means last commander standing. */
+  victoryCondition?: VictoryCondition;
+  /** Hand-made map replacing the generated terrain, deposits and spawns.
+   *  Its land-cell size overrides `mapWidthLandCells`/`mapLengthLandCells`. */
+  authoredMap?: AuthoredMap | null;
 };
 
 export type EmaConfig = {
@@ -15,8 +15,10 @@ import type {
 import type { SnapshotRate, TickRate } from './server';
 import type { BeamReflectorKind, CombatFireState, CombatTrajectoryMode, EntityType, PlayerId, TurretState, UnitAirIdleState, UnitMoveState } from './sim';
 import type { UnitGroundNormalEmaMode } from '../shellConfig';
-import type { SeatInitialState } from '../game/sim/agentSeat';
+import type { SeatBotProfile, SeatInitialState } from '../game/sim/agentSeat';
 import type { TerrainPrecedence } from './terrainPrecedence';
+import type { VictoryMode } from './victoryCondition';
+import type { AuthoredMap } from './authoredMap';
 import type {
   LiquidSurfaceMode,
   MetalCoverage,
@@ -333,6 +335,8 @@ export type LobbyBotSeat = {
   playerId: PlayerId;
   allyTeamId: number;
   initialState: SeatInitialState;
+  /** How well and in what style the policy plays this seat. */
+  profile: SeatBotProfile;
 };
 
 export type NetworkCommunicationDraft = {
@@ -720,6 +724,11 @@ export type LobbySettings = {
    *  guaranteed to receive, on join and on every change. Empty means the
    *  host never named it; the listing falls back to the host's name. */
   lobbyName: string;
+  /** How many seconds behind the live frame unseated members receive the
+   *  command stream (see spectatorDelay.ts). Session metadata like
+   *  `lobbyName`: it decides when a watcher gets a frame, never what the
+   *  frame holds, so the canonical match initialization ignores it. */
+  spectatorDelaySeconds: number;
   /** Signed altitude of the central cosine dome/dish (CENTER bar). */
   centerMagnitude: number;
   /** Signed crest altitude of the RING annulus (RING bar). */
@@ -763,6 +772,18 @@ export type LobbySettings = {
   /** Liquid material below the water level. Lava changes simulation damage as
    *  well as rendering. */
   liquidSurfaceMode: LiquidSurfaceMode;
+  /** How the match is won (see victoryCondition.ts). Every peer decides game
+   *  over inside its own simulation, so this is hashed into the canonical
+   *  match initialization. */
+  victoryMode: VictoryMode;
+  /** CONTROL mode: seconds a side must hold a majority of the points. */
+  victoryHoldSeconds: number;
+  /** SCORE mode: match length before the scores are compared. */
+  victoryTimeLimitSeconds: number;
+  /** Hand-made map the host loaded (see authoredMap.ts), or null for the
+   *  generated world. When set, its land-cell size is the map size and it
+   *  replaces the terrain bars, deposit rings and spawn arcs. */
+  authoredMap: AuthoredMap | null;
 };
 
 export type NetworkServerSnapshotSimEvent = {
@@ -780,7 +801,9 @@ export type NetworkServerSnapshotSimEvent = {
     | 'projectileExpire'
     | 'waterSplash'
     | 'selfDestructArmed'
-    | 'selfDestructDisarmed';
+    | 'selfDestructDisarmed'
+    | 'missileLaunch'
+    | 'missileIntercept';
   turretBlueprintId: SimEventAudioKey;
   sourceType: SimEventSourceType | null;
   sourceKey: string | null;
@@ -1233,6 +1256,20 @@ export type NetworkServerSnapshotEntity = {
   rotation: number | null;
   playerId: PlayerId;
   changedFields: number | null;
+  /** Present only on records of entities whose blueprint can morph: on
+   *  full records while a morph runs, and on ENTITY_CHANGED_BUILDING
+   *  deltas, where null means it finished or was cancelled. */
+  morph?: NetworkServerSnapshotMorph | null;
+  /** Present only on records of units that have carried a status effect:
+   *  on full records and on ENTITY_CHANGED_HP deltas. */
+  statusEffects?: NetworkServerSnapshotStatusEffects;
+  /** Present only on records of units that have earned experience: on
+   *  full records and on ENTITY_CHANGED_HP deltas. */
+  veterancy?: NetworkServerSnapshotVeterancy;
+  /** Present only on records of the recipient's own structures that have
+   *  queued a round: on full records and on ENTITY_CHANGED_BUILDING
+   *  deltas. */
+  stockpile?: NetworkServerSnapshotStockpile;
   unit: {
     /** Static fields are present on full records and omitted from
      *  ordinary deltas after the entity has been created.
@@ -1358,9 +1395,51 @@ export type NetworkServerSnapshotEntity = {
      *  as unit turrets. Static authored data stays blueprint-derived. */
     turrets: NetworkServerSnapshotTurret[] | null;
     factory: NetworkServerSnapshotFactory | null;
+    /** Present on a wreck's full records only. A wreck has no building
+     *  blueprint to derive its body from, so the full record carries it. */
+    wreck?: NetworkServerSnapshotWreck | null;
   } | null;
 };
 
+/** A wreck's static facts. The entity's playerId on the wire is a
+ *  placeholder: wrecks belong to nobody. */
+export type NetworkServerSnapshotWreck = {
+  unitBlueprintCode: UnitBlueprintCode;
+  /** Vertical extent; dim carries the footprint. */
+  depth: number;
+  metal: number;
+  debris: boolean;
+};
+
+/** Morph progress; the target and duration are blueprint-derived. */
+export type NetworkServerSnapshotMorph = {
+  progressMs: number;
+};
+
+/** What the client draws of a unit's status effects. The record is resent
+ *  whenever the stun starts or ends or a stack count moves, so
+ *  paralyzedMs is the remaining stun as of that change — only whether it
+ *  is running stays current between records. */
+export type NetworkServerSnapshotStatusEffects = {
+  paralyzedMs: number;
+  slowStacks: number;
+  burnStacks: number;
+};
+
+/** A unit's kill experience and rank. */
+export type NetworkServerSnapshotVeterancy = {
+  experience: number;
+  rank: number;
+};
+
+/** A structure's stockpiled rounds; the cost, duration and cap are
+ *  blueprint-derived. */
+export type NetworkServerSnapshotStockpile = {
+  stock: number;
+  queued: number;
+  progressMs: number;
+};
+
 export type NetworkServerSnapshotEconomy = {
   stockpile: { curr: number; max: number };
   income: { base: number; production: number };
@@ -1387,6 +1466,8 @@ export type LobbyPlayer = {
   isBot?: boolean;
   /** The seat's INITIAL STATE axis; absent means 'commander'. */
   initialState?: SeatInitialState;
+  /** Difficulty and personality — present exactly on bot seats. */
+  botProfile?: SeatBotProfile;
   /** Which SIDE this seat plays on — BAR calls it the ally team, the
    *  lobby labels it TEAM N. Host-authoritative: the host assigns one on
    *  join and broadcasts it, and a seat change is a host decision even
@@ -41,6 +41,11 @@ export type {
   ShotRuntimeProfile,
   ShotVisualProfile,
   SmokeTrailSpec,
+  StatusEffectsSpec,
+  ParalyzeEffectSpec,
+  SlowEffectSpec,
+  BurnEffectSpec,
+  ArmorMultiplierTable,
 } from './blueprintSchema.generated';
 
 /** Predicate on raw emission `type` strings, used at network / projectile
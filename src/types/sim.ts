@@ -68,7 +68,7 @@ export type {
 export type { EntityId, PlayerId } from './entityTypes';
 export { NO_ENTITY_ID } from './entityTypes';
 export type { UnitLocomotion } from './unitLocomotionTypes';
-export type { ResourceCost } from './economyTypes';
+export type { AutoShareThreshold, ResourceCost } from './economyTypes';
 export type {
   SensorCapabilityConfig,
   TurretAimStyle,
@@ -1121,10 +1121,85 @@ type WreckSource =
 type Wreck = {
   source: WreckSource;
   originalOwnerId: PlayerId | null;
+  /** Metal a full reclaim pays out; already the wreck's share of the cost. */
+  metal: number;
+  /** A hulk shot apart into a heap: still reclaimable, never resurrectable. */
+  debris: boolean;
   resurrectProgressMs: number;
   resurrectRequiredMs: number;
 };
 
+/** In-place upgrade under way. Cost is drawn in step with progress, so the
+ *  share already paid is always progressMs / the blueprint's durationMs. */
+export type Morph = {
+  into: string;
+  progressMs: number;
+};
+
+/** Status effects riding on a unit (shot/ray `statusEffects`). Once a unit
+ *  has been hit by one the component stays, zeroed when everything wears
+ *  off, so the snapshot can carry the clear. */
+export type StatusEffects = {
+  /** EMP damage stacked toward a stun; it bleeds off while nothing adds. */
+  paralyzeDamage: number;
+  paralyzedMs: number;
+  slowStacks: number;
+  /** Drive taken off per stack — the strongest slow that landed. */
+  slowPerStack: number;
+  slowMs: number;
+  burnStacks: number;
+  /** Hp per second per stack — the strongest burn that landed. */
+  burnDpsPerStack: number;
+  burnMs: number;
+};
+
+/** A unit's kill experience and the rank it has earned (0 = green). Only
+ *  units that have landed a kill carry one. */
+export type Veterancy = {
+  experience: number;
+  rank: number;
+};
+
+/** A structure's magazine of stockpiled rounds. Like a morph, cost is
+ *  drawn in step with progress, so the share of the next round already
+ *  paid is always progressMs / the blueprint's stockpile durationMs. */
+export type Stockpile = {
+  stock: number;
+  /** Rounds the owner still wants built; one is spent per round finished. */
+  queued: number;
+  progressMs: number;
+};
+
+/** A strategic missile in flight. It flies a fixed arc from launch to
+ *  impact, so its position on any tick follows from these fields alone. */
+export type StrategicMissile = {
+  playerId: PlayerId;
+  sourceEntityId: EntityId;
+  launcherBlueprintId: BuildingBlueprintId;
+  originX: number;
+  originY: number;
+  originZ: number;
+  targetX: number;
+  targetY: number;
+  targetZ: number;
+  launchTick: number;
+  impactTick: number;
+};
+
+/** Runtime view of a blueprint's `stockpile` entry, cost already scaled. */
+export type StockpileConfig = {
+  cost: ResourceCost;
+  durationMs: number;
+  maxStock: number;
+};
+
+/** Runtime view of a blueprint's `morph` entry, cost already scaled. */
+export type MorphConfig = {
+  into: string;
+  cost: ResourceCost;
+  durationMs: number;
+};
+
 export type Transport = {
   capacity: number;
   loadedUnits: Entity[];
@@ -1205,6 +1280,14 @@ export type BuildingConfig = {
   hovering: boolean;
   hud: import('./blueprints').EntityHudBlueprint;
   radius: EntityRadii;
+  /** In-place upgrade this structure offers once complete, or null. */
+  morph: MorphConfig | null;
+  /** Round magazine this structure builds, or null. */
+  stockpile: StockpileConfig | null;
+  /** Hand-launched strategic missile fed by the stockpile, or null. */
+  strategicMissile: import('./blueprints').StructureStrategicMissileConfig | null;
+  /** Automatic missile defense fed by the stockpile, or null. */
+  missileInterceptor: import('./blueprints').StructureMissileInterceptorConfig | null;
 };
 
 export type BuildingPlacementFootprintCell = {
@@ -1231,6 +1314,8 @@ export type UnitBuildConfig = {
   mass: number;
   hp: number;
   fireRange: number | undefined;
+  /** In-place upgrade this unit offers once complete, or null. */
+  morph: MorphConfig | null;
 };
 
 // Factory component. The host (fabricator platform or mobile queen-style
@@ -1387,6 +1472,14 @@ export type EntityComponentSlots = {
   commander: Commander | null;
   dgunProjectile: DGunProjectile | null;
   wreck: Wreck | null;
+  /** Morph into the blueprint's `morph.into` in progress, or null. */
+  morph: Morph | null;
+  /** Stockpiled rounds, or null before the owner first queues one. */
+  stockpile: Stockpile | null;
+  /** Paralyze / slow / burn state, or null if never hit by any. */
+  statusEffects: StatusEffects | null;
+  /** Kill experience and rank, or null before the unit's first kill. */
+  veterancy: Veterancy | null;
   transport: Transport | null;
   transported: Transported | null;
   heldBy: EntityHold | null;
@@ -1426,6 +1519,10 @@ export function createEmptyEntityComponentSlots(): EntityComponentSlots {
     commander: null,
     dgunProjectile: null,
     wreck: null,
+    morph: null,
+    stockpile: null,
+    statusEffects: null,
+    veterancy: null,
     transport: null,
     transported: null,
     heldBy: null,
@@ -21,9 +21,12 @@
  *  neighbor or a highest-resolution overlapping neighbor recorded.
  *
  *  IMMUTABILITY CONTRACT: a TerrainTileMap is built once per match
- *  by `buildTerrainTileMap` and is never mutated thereafter. The
- *  authoritative-state setter (`setAuthoritativeTerrainTileMap`)
- *  bumps `version` whenever a fresh map replaces an old one.
+ *  by `buildTerrainTileMap` and is never mutated thereafter, with one
+ *  exception: craters lower `meshVertexHeights` in place through
+ *  `deformTerrainVertices` (terrainState.ts), which bumps the terrain
+ *  version and logs the rectangle it moved. The authoritative-state
+ *  setter (`setAuthoritativeTerrainTileMap`) bumps `version` whenever
+ *  a fresh map replaces an old one.
  *  Snapshot cloning shares the SAME object reference across the
  *  source snapshot and any in-process clones — `cloneTerrainTileMap`
  *  is a passthrough. The `readonly` markers below make any
@@ -51,8 +54,9 @@ export type TerrainTileMap = {
 };
 
 /** Server-authored buildability grid for the building-placement
- *  cells. This is static for a match: terrain, water, and plateau
- *  eligibility are baked once by the host. Dynamic blockers such as
+ *  cells. This is static for a match apart from craters: terrain, water,
+ *  and plateau eligibility are baked once by the host, and the squares a
+ *  crater sinks are re-baked into a fresh grid object. Dynamic blockers such as
  *  buildings remain snapshot/state driven.
  *
  *  `flags[i]` is a bit mask: bit 0 is flat/buildable terrain, bit 1 is a
@@ -85,6 +85,22 @@ export type SelectionInfo = {
   allowedBuildBlueprintIds: readonly StructureBlueprintId[];
   canUpgradeMetalExtractors: boolean;
   hasUpgradeableMetalExtractor: boolean;
+  /** True when a selected entity's blueprint declares a morph. */
+  hasMorphControl: boolean;
+  /** Name of what the first morphable selected entity turns into. */
+  morphTargetLabel: string | null;
+  /** Mean progress (0..1) of the selected entities that are morphing,
+   *  or null when none is. */
+  morphProgress: number | null;
+  /** True when a selected structure builds stockpiled rounds. */
+  hasStockpileControl: boolean;
+  /** Rounds loaded, rounds queued and magazine size, summed over the
+   *  selected stockpiling structures. */
+  stockpileStock: number;
+  stockpileQueued: number;
+  stockpileMax: number;
+  /** Mean progress (0..1) of the rounds being built, or null when none is. */
+  stockpileProgress: number | null;
   hasDGun: boolean;
   /** True when the selection contains a unit that BAR would expose Attack for. */
   hasBarAttackControl: boolean;
@@ -137,6 +153,9 @@ export type SelectionInfo = {
   /** True when at least one selected combat host has a BAR-style
    *  manual-fire shot weapon. Gates the Manual Launch button. */
   hasManualLaunchControl: boolean;
+  /** True when the selection includes a missile silo. Also gates the
+   *  Manual Launch button, since a silo has no attack turret. */
+  hasStrategicMissileControl: boolean;
   /** True when at least one selected combat entity has a host-level
    *  lock-on target set. Enables the Clear Target button. */
   hasTowerTargetActive: boolean;
@@ -158,6 +177,10 @@ export type SelectionInfo = {
   factoryHostKind: 'unit' | 'building' | null;
   factoryDisplayName: string | null;
   factoryAllowedUnitBlueprintIds: readonly string[];
+  /** Build-menu and factory entries the selected side cannot order yet,
+   *  keyed by blueprint id, with what it still lacks ("Requires ...").
+   *  Entries that are absent are available. */
+  lockedBlueprintReasons: Readonly<Record<string, string>>;
   factoryId?: number;
   factoryPresetOverlayVisible: boolean;
   commanderId?: number;
@@ -209,6 +232,25 @@ export type SelectionInfo = {
   details: SelectionDetailItem[];
 };
 
+/** An ally the local player can hand things to. */
+export type TeammateOption = {
+  playerId: PlayerId;
+  name: string;
+  color: string;
+};
+
+/** Another seat as the diplomacy panel shows it, from the local player's
+ *  side of the table. */
+export type DiplomacySeat = TeammateOption & {
+  allied: boolean;
+  /** They have an open invitation to us. */
+  invitedUs: boolean;
+  /** We have an open invitation to them. */
+  invitedByUs: boolean;
+  /** Our army goes to them if we resign. */
+  heir: boolean;
+};
+
 export type SelectionActions = {
   setWaypointMode: (mode: WaypointType) => void;
   stopSelectedUnits: () => void;
@@ -231,6 +273,8 @@ export type SelectionActions = {
   toggleBuildingActive: () => void;
   /** Demolish every owned entity in the selection. */
   selfDestructSelected: () => void;
+  /** Give every owned entity in the selection to an ally. */
+  giveSelectedToPlayer: (targetPlayerId: PlayerId) => void;
   /** Narrow a mixed selection to one entity type. */
   selectOnlyEntityType: (entityType: SelectionEntityType) => void;
   selectAllOwnedUnits: () => void;
@@ -266,6 +310,12 @@ export type SelectionActions = {
   reclaimSelected: () => void;
   toggleMexUpgrade: () => void;
   upgradeSelectedMetalExtractors: () => void;
+  /** Start the morph on every selected entity that offers one, or cancel
+   *  (and refund) if any of them is already morphing. */
+  toggleSelectedMorph: () => void;
+  /** Queue `delta` more rounds (fewer when negative) on every selected
+   *  stockpiling structure. */
+  queueSelectedStockpile: (delta: number) => void;
   togglePing: () => void;
   storeControlGroup: (index: number) => void;
   recallControlGroup: (index: number, additive: boolean) => void;
@@ -389,6 +439,30 @@ export type MinimapData = {
   wind?: { x: number; y: number; z: number; speed: number };
 };
 
+// Alert types
+export type GameAlertKind =
+  | 'underAttack'
+  | 'missileLaunch'
+  | 'commanderDanger'
+  | 'buildingComplete'
+  | 'factoryIdle'
+  | 'energyStorageFull'
+  | 'metalStorageFull';
+
+/** One player-facing notification raised by RtsScene3DAlertSystem and
+ *  shown as a toast (and, when it has a place, a minimap flash). */
+export type GameAlert = {
+  id: number;
+  kind: GameAlertKind;
+  message: string;
+  /** World point the alert is about — the minimap flash and the
+   *  last-alert camera jump target. Null for alerts without a place,
+   *  such as a full storage. */
+  pos: Vec2 | null;
+  /** performance.now() when the alert was raised. */
+  atMs: number;
+};
+
 // Lobby player — re-exported from `types/network.ts` so the
 // component layer and the network layer can't drift apart on
 // schema (IP / location columns landed in network.ts and the
@@ -411,6 +485,10 @@ export type UIEntitySource = {
   getSelectedBuildings(): Entity[];
   getBuildingsByPlayer(playerId: PlayerId): Entity[];
   getUnitsByPlayer(playerId: PlayerId): Entity[];
+  /** Alliance test for team-wide holdings like tech structures. Optional
+   *  so harness fixtures need not supply it; absent means only the
+   *  player's own entities count. */
+  arePlayersAllied?(a: PlayerId, b: PlayerId): boolean;
 };
 
 // UI input state (minimal subset for UI updates)
@@ -607,6 +685,9 @@ export type CommanderAbilitiesResult = {
   completedBuildings: { commanderId: EntityId; buildingId: EntityId }[];
   resurrectedUnits: Entity[];
   resurrectedBuildings: Entity[];
+  /** Units and wrecks whose reclaim finished this tick. They die like
+   *  anything else at zero hp, but leave no wreck behind. */
+  reclaimedEntityIds: EntityId[];
 };
 
 // Factory production result
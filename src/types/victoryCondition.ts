@@ -0,0 +1,98 @@
+/** How a match is won. Host-owned lobby setting, hashed into the canonical
+ *  match initialization: every peer evaluates it inside the simulation, so two
+ *  peers that disagreed on it would end the match on different frames.
+ *
+ *  - `commander` (default): a side wins when it is the only one with a living
+ *    commander — the original rule.
+ *  - `annihilation`: a side is out only when every unit and building it owns
+ *    is gone; the last side with anything standing wins.
+ *  - `controlPoints`: a side that alone holds a majority of the map's control
+ *    points for `holdSeconds` in a row wins.
+ *  - `score`: when `timeLimitSeconds` runs out, the side with the most metal
+ *    standing on the field wins. A tie plays on until it is broken.
+ *
+ *  In every mode but `commander`, a side that has lost everything is out, so
+ *  a match can still end early by annihilation. */
+export type VictoryMode = 'commander' | 'annihilation' | 'controlPoints' | 'score';
+
+export const VICTORY_MODES: readonly VictoryMode[] = [
+  'commander',
+  'annihilation',
+  'controlPoints',
+  'score',
+];
+
+export const DEFAULT_VICTORY_MODE: VictoryMode = 'commander';
+
+/** Lobby bar and game-over screen both read these. */
+export const VICTORY_MODE_LABEL: Record<VictoryMode, string> = {
+  commander: 'COMMANDER',
+  annihilation: 'ANNIHILATION',
+  controlPoints: 'CONTROL',
+  score: 'SCORE',
+};
+
+export const VICTORY_HOLD_SECONDS_OPTIONS = [60, 120, 180, 300] as const;
+export const DEFAULT_VICTORY_HOLD_SECONDS = 120;
+
+export const VICTORY_TIME_LIMIT_SECONDS_OPTIONS = [600, 900, 1200, 1800] as const;
+export const DEFAULT_VICTORY_TIME_LIMIT_SECONDS = 1200;
+
+export type VictoryCondition = {
+  readonly mode: VictoryMode;
+  /** `controlPoints` only: how long the majority must be held unbroken. */
+  readonly holdSeconds: number;
+  /** `score` only: match length before the scores are compared. */
+  readonly timeLimitSeconds: number;
+};
+
+export const DEFAULT_VICTORY_CONDITION: VictoryCondition = {
+  mode: DEFAULT_VICTORY_MODE,
+  holdSeconds: DEFAULT_VICTORY_HOLD_SECONDS,
+  timeLimitSeconds: DEFAULT_VICTORY_TIME_LIMIT_SECONDS,
+};
+
+/** Why a match ended, carried on the game-over event. The same four names
+ *  as the modes, because each mode ends a match for its own reason — except
+ *  that any non-commander mode can also end by `annihilation`. */
+export type GameOverReason = VictoryMode;
+
+export const GAME_OVER_REASON_TEXT: Record<GameOverReason, string> = {
+  commander: 'Last commander standing',
+  annihilation: 'Every enemy unit and building destroyed',
+  controlPoints: 'Held the control points',
+  score: 'Highest score when time ran out',
+};
+
+export function isVictoryMode(value: unknown): value is VictoryMode {
+  return VICTORY_MODES.includes(value as VictoryMode);
+}
+
+export function isVictoryHoldSeconds(value: unknown): value is number {
+  return typeof value === 'number' &&
+    (VICTORY_HOLD_SECONDS_OPTIONS as readonly number[]).includes(value);
+}
+
+export function isVictoryTimeLimitSeconds(value: unknown): value is number {
+  return typeof value === 'number' &&
+    (VICTORY_TIME_LIMIT_SECONDS_OPTIONS as readonly number[]).includes(value);
+}
+
+export function normalizeVictoryCondition(
+  value: Partial<VictoryCondition> | undefined,
+): VictoryCondition {
+  return {
+    mode: isVictoryMode(value?.mode) ? value.mode : DEFAULT_VICTORY_MODE,
+    holdSeconds: isVictoryHoldSeconds(value?.holdSeconds)
+      ? value.holdSeconds
+      : DEFAULT_VICTORY_HOLD_SECONDS,
+    timeLimitSeconds: isVictoryTimeLimitSeconds(value?.timeLimitSeconds)
+      ? value.timeLimitSeconds
+      : DEFAULT_VICTORY_TIME_LIMIT_SECONDS,
+  };
+}
+
+/** "2m", "20m" — the hold and time-limit options are whole minutes. */
+export function formatVictoryDuration(seconds: number): string {
+  return seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+}